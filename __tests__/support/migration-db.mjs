@@ -0,0 +1,81 @@
+// __tests__/support/migration-db.mjs
+// Runs SQL against a throwaway in-memory Postgres (PGlite) with every migration in
+// supabase/migrations applied. PGlite loads Node built-ins with import(), which Jest
+// cannot do without --experimental-vm-modules, so tests run this as a child process:
+//   stdin:  [{ sql, params? }, ...]           statements, run in order
+//   stdout: [{ rows } | { error }, ...]       one result per statement
+
+import { PGlite } from '@electric-sql/pglite';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const MIGRATIONS_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../../supabase/migrations');
+
+// What Supabase provides, plus the tables that predate supabase/migrations
+// (only the columns the migrations touch)
+const BASE_SCHEMA = `
+  CREATE ROLE anon;
+  CREATE ROLE authenticated;
+  CREATE SCHEMA auth;
+  CREATE TABLE auth.users (id UUID PRIMARY KEY DEFAULT gen_random_uuid(), email TEXT);
+  CREATE FUNCTION auth.uid() RETURNS UUID LANGUAGE sql STABLE AS $$
+    SELECT NULLIF(current_setting('request.jwt.claim.sub', true), '')::UUID
+  $$;
+  CREATE PUBLICATION supabase_realtime;
+
+  CREATE TABLE players (player_id VARCHAR(50) PRIMARY KEY, name TEXT);
+  CREATE TABLE player_state (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    player_id VARCHAR(50) UNIQUE,
+    is_online BOOLEAN,
+    last_heartbeat TIMESTAMP WITH TIME ZONE,
+    updated_at TIMESTAMP WITH TIME ZONE
+  );
+  CREATE TABLE admin_commands (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    player_id VARCHAR(50),
+    command_type TEXT,
+    command_data JSONB,
+    issued_by TEXT,
+    status TEXT DEFAULT 'pending',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+  );
+  CREATE TABLE local_videos (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    player_id VARCHAR(50),
+    file_path TEXT,
+    title TEXT,
+    artist TEXT,
+    metadata JSONB,
+    is_available BOOLEAN DEFAULT true
+  );
+`;
+
+async function main() {
+  const statements = JSON.parse(fs.readFileSync(0, 'utf8'));
+  const db = new PGlite();
+
+  await db.exec(BASE_SCHEMA);
+  for (const file of fs.readdirSync(MIGRATIONS_DIR).filter((name) => name.endsWith('.sql')).sort()) {
+    await db.exec(fs.readFileSync(path.join(MIGRATIONS_DIR, file), 'utf8'));
+  }
+
+  const results = [];
+  for (const { sql, params } of statements) {
+    try {
+      const { rows } = await db.query(sql, params || []);
+      results.push({ rows });
+    } catch (error) {
+      results.push({ error: error.message });
+    }
+  }
+
+  await db.close();
+  process.stdout.write(JSON.stringify(results));
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -1,7 +1,11 @@
 // __tests__/ui-tests.test.ts
 // Comprehensive UI test suite for DJAMMS Player
 
-import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { EventEmitter } from 'events';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
 
 // Mock window.electronAPI
 const mockElectronAPI = {
@@ -188,3 +192,1186 @@ describe('Settings Integration', () => {
     expect(manager.getSetting('fullscreen')).toBe(true);
   });
 });
+
+describe('Play History CSV Export', () => {
+  it('should export a header and escape fields', async () => {
+    const { playHistoryToCsv } = await import('../src/utils/playHistory');
+    const csv = playHistoryToCsv([{
+      id: '1',
+      player_id: 'DJAMMS_DEMO',
+      video_id: null,
+      file_path: '/music/Artist - Song, "Live".mp4',
+      title: 'Song, "Live"',
+      artist: 'Artist',
+      seconds_played: 185,
+      started_at: '2025-12-12T20:00:00.000Z',
+      played_at: '2025-12-12T20:03:05.000Z',
+      transition_reason: 'user_skip',
+      from_priority: true,
+      requested_by_kiosk: 'main',
+      counts_toward_charts: true
+    }]);
+    const lines = csv.split('\r\n');
+
+    expect(lines).toHaveLength(2);
+    expect(lines[0]).toBe('Started,Ended,Title,Artist,Seconds Played,Transition,From Priority,Requested By Kiosk,Counted,File Path');
+    expect(lines[1]).toContain('"Song, ""Live"""');
+    expect(lines[1]).toContain(',user_skip,true,main,true,');
+  });
+});
+
+describe('Credit Input', () => {
+  let CreditInputManager: any;
+
+  // Stands in for serialport's SerialPort - each open() takes the next result from openResults
+  class FakePort extends EventEmitter {
+    static instances: FakePort[] = [];
+    static openResults: Array<Error | null> = [];
+    isOpen = false;
+    written: number[] = [];
+
+    constructor(public options: { path: string; baudRate: number }) {
+      super();
+      FakePort.instances.push(this);
+    }
+
+    open(callback: (error: Error | null) => void) {
+      const error = FakePort.openResults.shift() ?? null;
+      this.isOpen = !error;
+      callback(error);
+    }
+
+    write(data: Buffer) {
+      this.written.push(...data);
+    }
+
+    close(callback: () => void) {
+      this.isOpen = false;
+      callback();
+      this.emit('close');
+    }
+
+    // The device going away, as serialport reports it
+    disconnect() {
+      this.isOpen = false;
+      this.emit('close');
+    }
+  }
+
+  // A manager with its credits and faults recorded
+  const createManager = (config: Record<string, unknown>) => {
+    const manager = new CreditInputManager({ enabled: true, portPath: '/dev/ttyUSB0', ...config }, () => FakePort);
+    const credits: Array<{ credits: number; detail: string }> = [];
+    const faults: Array<{ kind: string; message: string }> = [];
+    manager.on('credit', ({ credits: amount, detail }: { credits: number; detail: string }) => credits.push({ credits: amount, detail }));
+    manager.on('fault', (fault: { kind: string; message: string }) => faults.push(fault));
+    return { manager, credits, faults };
+  };
+
+  beforeEach(async () => {
+    CreditInputManager = (await import('../electron/credit-input.cjs')).default;
+    FakePort.instances = [];
+    FakePort.openResults = [];
+    jest.useFakeTimers();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('should group pulses into a coin once the line has been quiet for pulseTimeoutMs', async () => {
+    const { manager, credits, faults } = createManager({ driver: 'pulse' });
+    await manager.start();
+    const port = FakePort.instances[0];
+
+    port.emit('data', Buffer.from([0, 0]));
+    jest.advanceTimersByTime(100);
+    port.emit('data', Buffer.from([0, 0, 0]));
+    jest.advanceTimersByTime(149);
+    expect(credits).toEqual([]);
+    jest.advanceTimersByTime(1);
+    expect(credits).toEqual([{ credits: 5, detail: 'coin:5p' }]);
+
+    port.emit('data', Buffer.from([0]));
+    jest.advanceTimersByTime(150);
+    port.emit('data', Buffer.from([0, 0, 0]));
+    jest.advanceTimersByTime(150);
+    expect(credits).toEqual([{ credits: 5, detail: 'coin:5p' }, { credits: 1, detail: 'coin:1p' }]);
+    expect(faults).toEqual([{ kind: 'reject', message: 'Unrecognised coin (3 pulses)' }]);
+    expect(manager.getStatus().creditsThisSession).toBe(6);
+
+    // A coin part-way through its pulses when the manager stops still counts
+    port.emit('data', Buffer.from([0, 0]));
+    await manager.stop();
+    expect(credits[2]).toEqual({ credits: 2, detail: 'coin:2p' });
+  });
+
+  it('should treat pulse trains longer than maxPulses as tampering and credit coins by the pulse map', () => {
+    const { manager, credits, faults } = createManager({ driver: 'pulse', maxPulses: 10, pulseCredits: { 3: 4, 12: 50 } });
+
+    manager.handleCoin(3);
+    manager.handleCoin(10);
+    manager.handleCoin(11);
+    manager.handleCoin(12);
+
+    expect(credits).toEqual([{ credits: 4, detail: 'coin:3p' }]);
+    expect(faults).toEqual([
+      { kind: 'reject', message: 'Unrecognised coin (10 pulses)' },
+      { kind: 'tamper', message: 'Pulse train too long (11 pulses) - possible stringing' },
+      { kind: 'tamper', message: 'Pulse train too long (12 pulses) - possible stringing' }
+    ]);
+    expect(manager.getStatus().faultCount).toBe(3);
+  });
+
+  it('should credit bill channels by the channel map and report SIO jam, tamper and reject bytes', async () => {
+    const { manager, credits, faults } = createManager({ driver: 'serial-bill', channelCredits: { 1: 5, 2: 10 } });
+    await manager.start();
+    const port = FakePort.instances[0];
+    expect(port.written).toEqual([184]); // Enable all channels
+
+    port.emit('data', Buffer.from([2, 1, 3, 17]));
+    port.emit('data', Buffer.from([60, 80, 40, 50, 20, 30, 70, 120, 99]));
+
+    expect(credits).toEqual([{ credits: 10, detail: 'bill:ch2' }, { credits: 5, detail: 'bill:ch1' }]);
+    expect(faults.map(fault => fault.kind)).toEqual(['reject', 'jam', 'jam', 'tamper', 'tamper', 'reject', 'error']);
+    expect(faults[0].message).toBe('Bill channel 3 has no credit mapping');
+    expect(console.warn).toHaveBeenCalledWith('[CreditInput] Unknown bill validator byte: 17');
+    expect(console.warn).toHaveBeenCalledWith('[CreditInput] Unknown bill validator byte: 99');
+
+    await manager.stop();
+    expect(port.written).toEqual([184, 185]); // Disabled again on stop
+  });
+
+  it('should only simulate events on an active simulated driver', async () => {
+    const { manager, credits, faults } = createManager({ driver: 'simulated' });
+    expect(manager.simulate({ type: 'coin' })).toEqual({ success: false, error: 'Simulated credit input is not active' });
+
+    await manager.start();
+    expect(manager.simulate({ type: 'coin', pulses: 2 })).toEqual({ success: true });
+    expect(manager.simulate({ type: 'coin' })).toEqual({ success: true });
+    expect(manager.simulate({ type: 'bill', channel: 3 })).toEqual({ success: true });
+    expect(manager.simulate({ type: 'jam' })).toEqual({ success: true });
+    expect(manager.simulate({ type: 'tamper' })).toEqual({ success: true });
+    expect(manager.simulate({ type: 'refund' })).toEqual({ success: false, error: 'Unknown simulated event: refund' });
+
+    expect(credits).toEqual([
+      { credits: 2, detail: 'coin:2p' },
+      { credits: 1, detail: 'coin:1p' },
+      { credits: 20, detail: 'bill:ch3' }
+    ]);
+    expect(faults.map(fault => fault.kind)).toEqual(['jam', 'tamper']);
+    expect(FakePort.instances).toHaveLength(0);
+
+    const pulse = createManager({ driver: 'pulse' });
+    await pulse.manager.start();
+    expect(pulse.manager.simulate({ type: 'coin' })).toEqual({ success: false, error: 'Simulated credit input is not active' });
+  });
+
+  it('should reopen a failed or disconnected port with exponential backoff until stopped', async () => {
+    const { manager, faults } = createManager({ driver: 'pulse', reconnectMinMs: 1000, reconnectMaxMs: 3000 });
+    FakePort.openResults = [new Error('Port busy'), new Error('Port busy'), new Error('Port busy')];
+
+    await manager.start();
+    expect(manager.getStatus()).toMatchObject({ status: 'error', lastError: 'Port busy', reconnectAttempts: 1 });
+    jest.advanceTimersByTime(999);
+    expect(FakePort.instances).toHaveLength(1);
+    jest.advanceTimersByTime(1);
+    expect(FakePort.instances).toHaveLength(2);
+    jest.advanceTimersByTime(2000);
+    expect(FakePort.instances).toHaveLength(3);
+    jest.advanceTimersByTime(2999); // Capped at reconnectMaxMs
+    expect(FakePort.instances).toHaveLength(3);
+    jest.advanceTimersByTime(1);
+    expect(FakePort.instances).toHaveLength(4);
+    expect(manager.getStatus()).toMatchObject({ status: 'connected', lastError: null, reconnectAttempts: 0 });
+
+    // Unplugged once connected: back to the shortest wait
+    FakePort.instances[3].disconnect();
+    expect(faults).toEqual([{ kind: 'error', message: 'Credit input device disconnected (/dev/ttyUSB0)' }]);
+    jest.advanceTimersByTime(1000);
+    expect(FakePort.instances).toHaveLength(5);
+    expect(manager.getStatus().status).toBe('connected');
+
+    // A serial error on a closed port reconnects too, and stopping cancels the pending attempt
+    const port = FakePort.instances[4];
+    port.isOpen = false;
+    port.emit('error', new Error('Device not configured'));
+    await manager.stop();
+    jest.advanceTimersByTime(30000);
+    expect(FakePort.instances).toHaveLength(5);
+    expect(manager.getStatus().status).toBe('stopped');
+  });
+});
+
+describe('Kiosk Request Rules', () => {
+  it('should reject repeats, artist overload and too many pending requests', async () => {
+    const { checkRequestRules } = await import('../src/utils/requestRules');
+    const rules = { repeatWindowMinutes: 60, maxSongsPerArtistPerHour: 2, maxPendingPerKiosk: 1 };
+    const now = Date.parse('2025-12-13T21:00:00.000Z');
+    const song = (name: string, artist: string) => ({ id: name, src: `/music/${name}.mp4`, path: `/music/${name}.mp4`, title: name, artist });
+    const play = (name: string, artist: string, minutesAgo: number) => ({
+      id: name,
+      player_id: 'DJAMMS_DEMO',
+      video_id: null,
+      file_path: `/music/${name}.mp4`,
+      title: name,
+      artist,
+      seconds_played: 180,
+      started_at: new Date(now - (minutesAgo + 3) * 60000).toISOString(),
+      played_at: new Date(now - minutesAgo * 60000).toISOString(),
+      transition_reason: 'natural_end' as const,
+      from_priority: false,
+      requested_by_kiosk: null,
+      counts_toward_charts: true
+    });
+    const context = { nowPlaying: null, priorityQueue: [], recentPlays: [play('a', 'Band', 20), play('b', 'Band', 90)], now };
+
+    expect(checkRequestRules(song('a', 'Other'), 'main', rules, context)).toContain('requested again in 37 minutes');
+    expect(checkRequestRules(song('b', 'Other'), 'main', rules, context)).toBeNull();
+    expect(checkRequestRules(song('c', 'Band'), 'main', rules, { ...context, nowPlaying: song('d', 'band') })).toContain('Band has already had 2 songs');
+    expect(checkRequestRules(song('c', 'Band'), 'main', rules, {
+      ...context,
+      priorityQueue: [{ ...song('e', 'Other'), requestedByKiosk: 'main' }]
+    })).toContain('You already have 1 request waiting');
+  });
+});
+
+describe('Playlist Schedule', () => {
+  it('should pick the most recently started slot and wrap past midnight', async () => {
+    const { getActiveScheduleSlot, createScheduleSlot } = await import('../src/utils/playlistSchedule');
+    const slot = (playlistName: string, startTime: string, endTime: string, days = [0, 1, 2, 3, 4, 5, 6]) =>
+      ({ ...createScheduleSlot(playlistName), id: playlistName, startTime, endTime, days });
+    const schedule = {
+      enabled: true,
+      slots: [slot('Afternoon', '12:00', '20:00'), slot('Happy Hour', '17:00', '19:00'), slot('Late Night', '22:00', '02:00', [5])]
+    };
+    const at = (day: number, time: string) => new Date(`2025-12-${14 + day}T${time}:00`); // 2025-12-14 is a Sunday
+
+    expect(getActiveScheduleSlot(schedule, at(1, '13:30'))?.playlistName).toBe('Afternoon');
+    expect(getActiveScheduleSlot(schedule, at(1, '18:00'))?.playlistName).toBe('Happy Hour');
+    expect(getActiveScheduleSlot(schedule, at(1, '19:30'))?.playlistName).toBe('Afternoon');
+    expect(getActiveScheduleSlot(schedule, at(5, '23:00'))?.playlistName).toBe('Late Night');
+    expect(getActiveScheduleSlot(schedule, at(6, '01:00'))?.playlistName).toBe('Late Night');
+    expect(getActiveScheduleSlot(schedule, at(4, '23:00'))).toBeNull();
+    expect(getActiveScheduleSlot({ ...schedule, enabled: false }, at(1, '18:00'))).toBeNull();
+  });
+});
+
+describe('Cue Points', () => {
+  it('should crossfade at cue-out and ignore cues that leave too little of the track', async () => {
+    const { resolveCuePoints, getCrossfadeStartTime } = await import('../src/utils/cuePoints');
+    const cues = resolveCuePoints({ cueIn: 1.5, cueOut: 200, duration: 212 }, 212.4);
+
+    expect(cues).toEqual({ cueIn: 1.5, cueOut: 200, duration: 212.4 });
+    expect(getCrossfadeStartTime(cues, 3)).toBe(197);
+    expect(resolveCuePoints(null, 180)).toEqual({ cueIn: 0, cueOut: 180, duration: 180 });
+    expect(resolveCuePoints({ cueIn: 2, cueOut: 250 }, 180).cueOut).toBe(180);
+    expect(resolveCuePoints({ cueIn: 5, cueOut: 9 }, 180)).toEqual({ cueIn: 0, cueOut: 180, duration: 180 });
+  });
+});
+
+describe('Loudness Normalization', () => {
+  it('should normalize to the target, respect the true peak ceiling and add the manual trim', async () => {
+    const { getNormalizationGainDb } = await import('../src/utils/loudness');
+
+    expect(getNormalizationGainDb({ integratedLufs: -8, truePeakDb: 0.5 }, -14)).toBe(-6);
+    expect(getNormalizationGainDb({ integratedLufs: -20, truePeakDb: -3 }, -14)).toBe(2);
+    expect(getNormalizationGainDb({ integratedLufs: -20, truePeakDb: -3, gainTrimDb: 1.5 }, -14)).toBe(3.5);
+    expect(getNormalizationGainDb({ integratedLufs: null, gainTrimDb: -2 }, -14)).toBe(-2);
+    expect(getNormalizationGainDb(null, -14)).toBe(0);
+  });
+});
+
+describe('Crossfade Curves', () => {
+  it('should shape gains by curve, hold both tracks up mid DJ mix and frame each transition style', async () => {
+    const { fadeInGain, fadeOutGain, getMixGains, getTransitionFrame } = await import('../src/utils/crossfade');
+
+    expect(fadeInGain(0.5, 'linear')).toBe(0.5);
+    expect(fadeInGain(0.5, 'equal-power') ** 2 + fadeOutGain(0.5, 'equal-power') ** 2).toBeCloseTo(1);
+    expect(fadeInGain(0.5, 's-curve')).toBe(0.5);
+    expect(fadeInGain(0.25, 's-curve')).toBeLessThan(0.25);
+    expect(fadeInGain(0.5, 'logarithmic')).toBeCloseTo(10 ** (-30 / 20));
+    expect(fadeInGain(0, 'logarithmic')).toBe(0);
+    expect(fadeOutGain(1, 'equal-power')).toBeCloseTo(0);
+
+    expect(getMixGains(0.5, 'linear', 'djmix')).toEqual({ incoming: 1, outgoing: 1 });
+    expect(getMixGains(0.25, 'linear', 'djmix')).toEqual({ incoming: 0.5, outgoing: 1 });
+    expect(getMixGains(0.25, 'linear')).toEqual({ incoming: 0.25, outgoing: 0.75 });
+
+    expect(getTransitionFrame(0.5, 'dip-to-black')).toEqual({
+      outgoing: { opacity: 0, transform: 'none' },
+      incoming: { opacity: 0, transform: 'none' }
+    });
+    expect(getTransitionFrame(0.4, 'dissolve').incoming.opacity).toBe(0.4);
+    expect(getTransitionFrame(0, 'slide').incoming.transform).toBe('translateX(100.00%)');
+    expect(getTransitionFrame(1, 'slide').outgoing.transform).toBe('translateX(-100.00%)');
+  });
+});
+
+describe('Harmonic Mixing', () => {
+  it('should suggest compatible keys at a similar tempo, same key first', async () => {
+    const { getKeyDistance, getBpmDifference, getHarmonicSuggestions, pickHarmonicFill } = await import('../src/utils/harmonic');
+    const track = (id: string, bpm: number | undefined, camelotKey: string | undefined) =>
+      ({ id, title: id, artist: 'Artist', src: `file:///${id}.mp4`, path: `/${id}.mp4`, bpm, camelotKey });
+
+    expect(getKeyDistance('8A', '8A')).toBe(0);
+    expect(getKeyDistance('8A', '8B')).toBe(1);
+    expect(getKeyDistance('12B', '1B')).toBe(1);
+    expect(getKeyDistance('8A', '10A')).toBeNull();
+    expect(getBpmDifference(128, 64)).toBe(0);
+    expect(getBpmDifference(100, 105)).toBeCloseTo(0.05);
+
+    const current = track('now', 124, '8A');
+    const library = [
+      track('relative', 125, '8B'),
+      track('same-key', 126, '8A'),
+      track('clash', 124, '3B'),
+      track('too-fast', 140, '8A'),
+      track('half-time', 62, '9A'),
+      track('unanalyzed', undefined, undefined),
+      current
+    ];
+    expect(getHarmonicSuggestions(current, library).map(v => v.id)).toEqual(['same-key', 'half-time', 'relative']);
+    expect(getHarmonicSuggestions(current, library, { exclude: [library[1]] }).map(v => v.id)).toEqual(['half-time', 'relative']);
+    expect(getHarmonicSuggestions(track('x', 120, undefined), library)).toEqual([]);
+    expect(pickHarmonicFill(current, library, 5, [], () => 0).map(v => v.id)).toEqual(['same-key', 'relative']);
+  });
+
+  it('should read Camelot codes and wrap around the wheel', async () => {
+    const { parseCamelot, getKeyDistance, getBpmDifference } = await import('../src/utils/harmonic');
+
+    expect(parseCamelot(' 8a ')).toEqual({ number: 8, letter: 'A' });
+    expect(parseCamelot('12B')).toEqual({ number: 12, letter: 'B' });
+    expect(parseCamelot('13A')).toBeNull();
+    expect(parseCamelot('0B')).toBeNull();
+    expect(parseCamelot('C#m')).toBeNull();
+    expect(parseCamelot(null)).toBeNull();
+
+    expect(getKeyDistance('1A', '12A')).toBe(1);
+    expect(getKeyDistance('12A', '1A')).toBe(1);
+    expect(getKeyDistance('8A', '9B')).toBeNull(); // Diagonal moves clash
+    expect(getKeyDistance('8A', undefined)).toBeNull();
+    expect(getBpmDifference(70, 140)).toBe(0);
+    expect(getBpmDifference(120, 126)).toBeCloseTo(0.05);
+  });
+
+  it('should honour the suggestion limit and tempo tolerance', async () => {
+    const { getHarmonicSuggestions } = await import('../src/utils/harmonic');
+    const track = (id: string, bpm: number, camelotKey: string) =>
+      ({ id, title: id, artist: 'Artist', src: `file:///${id}.mp4`, path: `/${id}.mp4`, bpm, camelotKey });
+    const current = track('now', 100, '5B');
+    const library = [track('plus-4', 104, '5B'), track('plus-9', 109, '5B'), track('minus-2', 98, '6B'), track('double', 200, '4B')];
+
+    expect(getHarmonicSuggestions(current, library).map(v => v.id)).toEqual(['plus-4', 'double', 'minus-2']);
+    expect(getHarmonicSuggestions(current, library, { limit: 2 }).map(v => v.id)).toEqual(['plus-4', 'double']);
+    expect(getHarmonicSuggestions(current, library, { maxBpmDifference: 0.1 }).map(v => v.id)).toEqual(['plus-4', 'plus-9', 'double', 'minus-2']);
+    expect(getHarmonicSuggestions(current, library, { maxBpmDifference: 0.03 }).map(v => v.id)).toEqual(['double', 'minus-2']);
+  });
+
+  it('should chain fill picks that each mix after the previous one, without repeats', async () => {
+    const { pickHarmonicFill, getKeyDistance } = await import('../src/utils/harmonic');
+    const track = (id: string, bpm: number, camelotKey: string) =>
+      ({ id, title: id, artist: 'Artist', src: `file:///${id}.mp4`, path: `/${id}.mp4`, bpm, camelotKey });
+    // A walk around the wheel: each key only mixes with its neighbours
+    const seed = track('seed', 120, '1A');
+    const library = ['2A', '3A', '4A', '5A', '6A'].map((key, i) => track(`t${i + 2}`, 120 + i, key));
+
+    const picks = pickHarmonicFill(seed, library, 10, [], () => 0);
+    expect(picks.map(v => v.camelotKey)).toEqual(['2A', '3A', '4A', '5A', '6A']); // Stops when nothing is left
+    picks.forEach((pick, i) => expect(getKeyDistance((i === 0 ? seed : picks[i - 1]).camelotKey, pick.camelotKey)).toBe(1));
+
+    expect(pickHarmonicFill(seed, library, 2, [], () => 0).map(v => v.id)).toEqual(['t2', 't3']);
+    expect(pickHarmonicFill(seed, library, 5, [library[1]], () => 0).map(v => v.id)).toEqual(['t2']);
+
+    // The random choice is among the best few compatible tracks
+    const options = [track('same-a', 121, '1A'), track('same-b', 122, '1A'), track('next', 120, '2A')];
+    expect(pickHarmonicFill(seed, options, 1, [], () => 0).map(v => v.id)).toEqual(['same-a']);
+    expect(pickHarmonicFill(seed, options, 1, [], () => 0.99).map(v => v.id)).toEqual(['next']);
+  });
+
+  it('should auto-fill only when the active queue is running low, leaving out queued tracks', async () => {
+    const { planHarmonicAutoFill, HARMONIC_FILL_THRESHOLD, HARMONIC_FILL_COUNT } = await import('../src/utils/harmonic');
+    const track = (id: string, bpm?: number, camelotKey?: string) =>
+      ({ id, title: id, artist: 'Artist', src: `file:///${id}.mp4`, path: `/${id}.mp4`, bpm, camelotKey });
+    const library = Array.from({ length: 8 }, (_, i) => track(`lib-${i}`, 120 + i * 0.5, '8A'));
+    const analyzedLast = track('last', 120, '8A');
+    // Queue items from the main process carry no analysis - the seed is looked up by path
+    const queue = [track('playing'), track('last')];
+
+    expect(HARMONIC_FILL_THRESHOLD).toBe(3);
+    expect(planHarmonicAutoFill([], [], library)).toBeNull();
+    expect(planHarmonicAutoFill([track('playing'), track('a'), track('b'), track('c')], [], library)).toBeNull();
+    expect(planHarmonicAutoFill(queue, [], library, library).picks).toEqual([]); // Last track was never analyzed
+
+    const fill = planHarmonicAutoFill(queue, [library[0]], library, [...library, analyzedLast], () => 0);
+    expect(fill?.seedKey).toBe('/last.mp4|2');
+    expect(fill?.picks).toHaveLength(HARMONIC_FILL_COUNT);
+    expect(fill?.picks.map(v => v.id)).not.toContain('lib-0'); // Already requested
+    expect(new Set(fill?.picks.map(v => v.id)).size).toBe(HARMONIC_FILL_COUNT);
+  });
+
+  it('should estimate tempo and key in the analysis worker', async () => {
+    const MusicAnalyzer = (await import('../electron/music-analyzer.cjs')).default;
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'djamms-music-'));
+    const analyzer = new MusicAnalyzer(path.join(dir, 'music-analysis.json'));
+
+    // 20 seconds of clicks every half second - 120 BPM
+    const sampleRate = 11025;
+    const samples = new Float32Array(sampleRate * 20);
+    for (let start = 0; start < samples.length; start += Math.round(sampleRate / 2)) {
+      for (let i = 0; i < 200; i++) samples[start + i] = Math.sin(i * 0.3) * (1 - i / 200);
+    }
+    try {
+      const analysis = await analyzer.analyzeSamples(samples);
+      expect(analysis.bpm).toBeCloseTo(120, 0);
+      expect(analysis.camelotKey).toMatch(/^\d{1,2}[AB]$/);
+    } finally {
+      analyzer.stopWorker();
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('Auto-DJ Fill Strategies', () => {
+  it('should loop, reshuffle without an immediate repeat and pick from the library by strategy', async () => {
+    const { buildNextPass } = await import('../electron/auto-dj.cjs');
+    const song = (name: string, artist: string, playlist: string) =>
+      ({ id: name, src: `/music/${name}.mp4`, path: `/music/${name}.mp4`, title: name, artist, playlist });
+    const pass = [song('a', 'Band', 'Rock'), song('b', 'Band', 'Rock'), song('c', 'Other', 'Pop')];
+    const library = [...pass, song('d', 'Solo', 'Jazz'), song('e', 'Band', 'Jazz'), song('f', 'Other', 'Jazz')];
+    const now = Date.parse('2025-12-13T21:00:00.000Z');
+    const lastPlayed = { '/music/a.mp4': now - 60000, '/music/b.mp4': now - 120000, '/music/c.mp4': now - 180000, '/music/d.mp4': now - 3600000 };
+    const context = { pass, library, lastPlayed, justPlayed: pass[2], now };
+    const keys = (videos: { id: string }[]) => videos.map(video => video.id);
+
+    expect(buildNextPass('loop', context)).toBe(pass);
+    expect(buildNextPass('unknown', context)).toBe(pass);
+    // This sequence shuffles to c, b, a - c just played, so it is swapped away from the front
+    const sequence = [0, 0.99, 0.5];
+    const reshuffled = buildNextPass('shuffle-on-wrap', context, () => sequence.shift() ?? 0);
+    expect(keys(reshuffled)).toEqual(['a', 'b', 'c']);
+    expect(keys(buildNextPass('least-recently-played', context, () => 0)).sort()).toEqual(['d', 'e', 'f']);
+    expect(keys(buildNextPass('weighted-random', context))).not.toContain('c');
+    expect(buildNextPass('more-like-last-request', context)).toBe(pass);
+    const likeRequest = buildNextPass('more-like-last-request', { ...context, lastRequest: song('d', 'Solo', 'Jazz') });
+    expect(keys(likeRequest).sort()).toEqual(['e', 'f']);
+  });
+});
+
+describe('Container Metadata', () => {
+  it('should read container tags and streams, fall back to the filename and record each source', async () => {
+    const { parseProbeOutput, resolveVideoMetadata } = await import('../electron/metadata-extractor.cjs');
+    const { describeMetadataSources } = await import('../src/utils/playlistHelpers');
+    const probe = parseProbeOutput([
+      "Input #0, matroska,webm, from 'Band - Song -- abc123.mkv':",
+      '  Metadata:',
+      '    TITLE           : Real Song',
+      '    ALBUM           : Real Album',
+      '    DATE            : 2019-05-01',
+      '  Duration: 00:03:32.40, start: 0.000000, bitrate: 2345 kb/s',
+      '  Stream #0:0: Video: vp9 (Profile 0), yuv420p(tv, bt709), 1920x1080, SAR 1:1 DAR 16:9, 29.97 fps, 29.97 tbr, 1k tbn (default)',
+      '    Metadata:',
+      '      ARTIST          : Stream Artist',
+      '  Stream #0:1: Video: mjpeg (Baseline), yuvj420p, 600x600, 90k tbr (attached pic)'
+    ]);
+
+    expect(probe).toEqual({
+      title: 'Real Song', artist: null, album: 'Real Album', year: 2019, genre: null,
+      duration: 212.4, resolution: '1920x1080', codec: 'vp9', bitrate: 2345, fps: 29.97
+    });
+    const resolved = resolveVideoMetadata('Band - Song -- abc123.mkv', 'Rock', probe);
+    expect(resolved).toMatchObject({ title: 'Real Song', artist: 'Band', album: 'Real Album', youtubeId: 'abc123' });
+    expect(resolved.metadataSources).toMatchObject({ title: 'container', artist: 'filename', album: 'container' });
+    expect(resolveVideoMetadata('Untitled.mp4', 'Rock', null)).toEqual({
+      title: 'Untitled', artist: 'Rock', youtubeId: null, metadataSources: { title: 'filename', artist: 'folder' }
+    });
+    expect(describeMetadataSources({ title: 'container', artist: 'filename', fps: 'container' }))
+      .toBe('title, frame rate from file tags · artist from filename');
+  });
+});
+
+describe('Library Watcher', () => {
+  it('should diff two scans into added, removed, modified and renamed files', async () => {
+    const { diffScans } = await import('../electron/library-watcher.cjs');
+    const entry = (playlist: string, file: string, fileHash: string) => ({
+      playlist, file, filePath: `/PLAYLISTS/${playlist}/${file}`, fileHash
+    });
+    const previous = [entry('Rock', 'a.mp4', '1-1'), entry('Rock', 'b.mp4', '2-2'), entry('Rock', 'c.mp4', '3-3'), entry('Rock', 'd.mp4', '4-4')];
+    const next = [entry('Rock', 'a.mp4', '1-1'), entry('Rock', 'b.mp4', '2-9'), entry('Jazz', 'c.mp4', '3-3'), entry('Rock', 'e.mp4', '5-5')];
+
+    const diff = diffScans(previous, next);
+    expect(diff.added).toEqual([entry('Rock', 'e.mp4', '5-5')]);
+    expect(diff.removed).toEqual([entry('Rock', 'd.mp4', '4-4')]);
+    expect(diff.modified).toEqual([entry('Rock', 'b.mp4', '2-9')]);
+    expect(diff.renamed).toEqual([{ from: entry('Rock', 'c.mp4', '3-3'), to: entry('Jazz', 'c.mp4', '3-3') }]);
+    expect(diffScans(next, next)).toEqual({ added: [], removed: [], modified: [], renamed: [] });
+  });
+});
+
+describe('Library Roots', () => {
+  it('should name playlists from folder-depth rules and match ignore patterns', async () => {
+    const { normalizeLibraryConfig, derivePlaylistName, compileIgnorePatterns } = await import('../electron/library-roots.cjs');
+    const config = normalizeLibraryConfig({
+      roots: [
+        { id: 'primary', label: 'Main', enabled: false },
+        { id: 'drive', path: '/mnt/music', maxDepth: 3, playlistDepth: 5, playlistNaming: 'path' }
+      ],
+      ignorePatterns: [' ._* ', '']
+    }, '/PLAYLISTS');
+    const [primary, drive] = config.roots;
+
+    expect(primary).toMatchObject({ path: '/PLAYLISTS', label: 'Main', enabled: false, maxDepth: 1, playlistDepth: 1, playlistNaming: 'folder' });
+    expect(drive).toMatchObject({ label: 'music', maxDepth: 3, playlistDepth: 3 });
+    expect(config.ignorePatterns).toEqual(['._*']);
+
+    expect(derivePlaylistName(['PLabc123.Obie Nights'], primary)).toEqual({ playlist: 'PLabc123.Obie Nights', playlistDisplayName: 'Obie Nights' });
+    expect(derivePlaylistName(['Artist', 'Album', 'Disc 1'], { ...drive, playlistDepth: 2 }).playlist).toBe('Artist / Album');
+    expect(derivePlaylistName(['Artist'], { ...drive, playlistDepth: 2, playlistNaming: 'folder' }).playlist).toBe('Artist');
+
+    const isIgnored = compileIgnorePatterns(['._*', 'extras', 'Rock/Live*']);
+    expect(isIgnored('._clip.mp4', 'Rock/._clip.mp4')).toBe(true);
+    expect(isIgnored('Extras', 'Jazz/Extras')).toBe(true);
+    expect(isIgnored('Live 1999', 'Rock/Live 1999')).toBe(true);
+    expect(isIgnored('Live 1999', 'Jazz/Live 1999')).toBe(false);
+    expect(isIgnored('clip.mp4', 'Rock/clip.mp4')).toBe(false);
+  });
+});
+
+describe('Virtual Playlists', () => {
+  it('should round-trip M3U and JSON playlists against the library', async () => {
+    const { parsePlaylistFile, virtualPlaylistToM3u, virtualPlaylistToJson } = await import('../src/utils/virtualPlaylists');
+    const video = (playlist: string, file: string) => ({
+      id: file, title: file.replace('.mp4', ''), artist: 'Artist', src: '', path: `/PLAYLISTS/${playlist}/${file}`, playlist, duration: 200
+    });
+    const library = { Rock: [video('Rock', 'a.mp4'), video('Rock', 'b.mp4')], Jazz: [video('Jazz', 'c.mp4')] };
+    const playlist = {
+      id: 'vp-1', name: 'Friday Set', createdAt: '', updatedAt: '',
+      videoIds: ['/PLAYLISTS/Jazz/c.mp4', '/PLAYLISTS/Rock/a.mp4']
+    };
+
+    const m3u = virtualPlaylistToM3u(playlist, library);
+    expect(m3u).toContain('#EXTINF:200,Artist - c');
+    expect(parsePlaylistFile(m3u, 'export.m3u8', library)).toEqual({ name: 'Friday Set', videoIds: playlist.videoIds, missing: [] });
+    expect(parsePlaylistFile(virtualPlaylistToJson(playlist, library), 'export.json', library).videoIds).toEqual(playlist.videoIds);
+
+    // Entries from another machine match by file name; unknown files are reported
+    const foreign = parsePlaylistFile('file:///D:/Videos/b.mp4\r\nC:\\Music\\zz.mp4\n', 'Late Night.m3u', library);
+    expect(foreign).toEqual({ name: 'Late Night', videoIds: ['/PLAYLISTS/Rock/b.mp4'], missing: ['C:\\Music\\zz.mp4'] });
+    expect(() => parsePlaylistFile('{"name": "x"}', 'bad.json', library)).toThrow();
+  });
+});
+
+describe('Smart Playlists', () => {
+  it('should evaluate rules against local_videos rows', async () => {
+    const { evaluateSmartPlaylist, describeSmartPlaylistRule } = await import('../src/utils/smartPlaylists');
+    const now = Date.parse('2025-12-16T12:00:00Z');
+    const daysAgo = (days: number) => new Date(now - days * 24 * 60 * 60 * 1000).toISOString();
+    const row = (title: string, artist: string, playlist: string, duration: number, play_count: number, last_played: string | null) => ({
+      title, artist, path: `/PLAYLISTS/${playlist}/${title}.mp4`, duration, metadata: { playlist }, play_count, last_played
+    });
+    const videos = [
+      row('Alpha', 'ABBA', 'Pop', 200, 12, daysAgo(1)),
+      row('Bravo', 'Queen', 'Rock', 400, 3, daysAgo(30)),
+      row('Charlie', 'abba', 'Pop Karaoke', 180, 20, null),
+      row('Delta', 'Muse', 'Rock', 250, 0, null)
+    ];
+    const titles = (playlist: Parameters<typeof evaluateSmartPlaylist>[0]) =>
+      evaluateSmartPlaylist(playlist, videos, now).map(video => video.title);
+    const base = { match_mode: 'all' as const, sort_by: 'title' as const, max_videos: null };
+
+    expect(titles({ ...base, rules: [] })).toEqual(['Alpha', 'Bravo', 'Charlie', 'Delta']);
+    expect(titles({ ...base, rules: [{ field: 'artist', operator: 'in', values: ['Abba'] }, { field: 'karaoke', operator: 'exclude' }] })).toEqual(['Alpha']);
+    expect(titles({ ...base, rules: [{ field: 'playlist', operator: 'in', values: ['rock'] }, { field: 'duration', operator: 'lt', value: 300 }] })).toEqual(['Delta']);
+    expect(titles({ ...base, rules: [{ field: 'last_played', operator: 'not_within_days', value: 7 }] })).toEqual(['Bravo', 'Charlie', 'Delta']);
+    expect(titles({ ...base, match_mode: 'any', sort_by: 'play_count', rules: [
+      { field: 'play_count', operator: 'gt', value: 10 },
+      { field: 'karaoke', operator: 'only' }
+    ] })).toEqual(['Charlie', 'Alpha']);
+    expect(titles({ ...base, sort_by: 'last_played', max_videos: 2, rules: [{ field: 'play_count', operator: 'lt', value: 15 }] })).toEqual(['Delta', 'Bravo']);
+
+    expect(describeSmartPlaylistRule({ field: 'duration', operator: 'lt', value: 300 })).toBe('Shorter than 5:00');
+  });
+});
+
+describe('Command Policy', () => {
+  it('should allow commands by role and explain rejections', async () => {
+    const { checkCommandPolicy, normalizeCommandPolicy, DEFAULT_COMMAND_POLICY } = await import('../src/utils/commandPolicy');
+
+    expect(checkCommandPolicy('owner', 'settings_update', DEFAULT_COMMAND_POLICY)).toBeNull();
+    expect(checkCommandPolicy('staff', 'skip', DEFAULT_COMMAND_POLICY)).toBeNull();
+    expect(checkCommandPolicy('staff', 'settings_update', DEFAULT_COMMAND_POLICY)).toBe('Not authorized: the staff role cannot send settings_update');
+    expect(checkCommandPolicy('kiosk', 'queue_add', DEFAULT_COMMAND_POLICY)).toBeNull();
+    expect(checkCommandPolicy('kiosk', 'skip', DEFAULT_COMMAND_POLICY)).not.toBeNull();
+    expect(checkCommandPolicy('guest', 'queue_add', DEFAULT_COMMAND_POLICY)).toBe('Not authorized: sign in or pair this device to send queue_add');
+
+    const policy = normalizeCommandPolicy({ kiosk: ['queue_add', 'skip', 'not_a_command' as never] });
+    expect(policy.kiosk).toEqual(['queue_add', 'skip']);
+    expect(policy.staff).toEqual(DEFAULT_COMMAND_POLICY.staff);
+    expect(policy.guest).toEqual([]);
+  });
+
+  it('should give LAN commands the paired device role and treat the rest as guests', async () => {
+    const { getLanCommandRole } = await import('../src/utils/commandPolicy');
+
+    expect(getLanCommandRole('kiosk')).toBe('kiosk');
+    expect(getLanCommandRole('staff')).toBe('staff');
+    expect(getLanCommandRole('owner')).toBe('guest');
+    expect(getLanCommandRole(undefined)).toBe('guest');
+  });
+});
+
+describe('Zones', () => {
+  it('should read the zone argument and give zones unique folder-safe IDs', async () => {
+    const { parseZoneArg, normalizeZones } = await import('../electron/zones.cjs');
+
+    expect(parseZoneArg(['electron', '.'])).toBeNull();
+    expect(parseZoneArg(['electron', '.', '--djamms-zone=patio'])).toBe('patio');
+    expect(parseZoneArg(['electron', '--djamms-zone=main'])).toBeNull();
+
+    const zones = normalizeZones([
+      { name: 'Patio', playerId: ' djamms_patio ' },
+      { name: 'Patio' },
+      { id: 'back-bar', name: 'Back Bar (upstairs)', enabled: false },
+      { name: 'Main' },
+      { name: '  ' }
+    ]);
+    expect(zones.map(zone => zone.id)).toEqual(['patio', 'patio-2', 'back-bar', 'main-2']);
+    expect(zones[0]).toEqual({ id: 'patio', name: 'Patio', playerId: 'DJAMMS_PATIO', enabled: true });
+    expect(zones[2]).toMatchObject({ name: 'Back Bar (upstairs)', enabled: false });
+  });
+
+  it('should keep virtual playlist edits from every zone when each reloads before changing', async () => {
+    const VirtualPlaylists = (await import('../electron/virtual-playlists.cjs')).default;
+    // Stands in for the shared settings file both processes write to
+    let saved: unknown[] = [];
+    const open = () => {
+      const playlists = new VirtualPlaylists(saved);
+      playlists.on('changed', (list: unknown[]) => { saved = list; });
+      return playlists;
+    };
+    const main = open();
+    const zone = open();
+
+    zone.reload(saved);
+    zone.save({ name: 'Patio Chill', videoIds: ['/music/a.mp4'] });
+    main.reload(saved);
+    main.save({ name: 'Bar Hits', videoIds: ['/music/b.mp4'] });
+
+    expect((saved as Array<{ name: string }>).map(playlist => playlist.name)).toEqual(['Patio Chill', 'Bar Hits']);
+  });
+});
+
+describe('Audio Output', () => {
+  it('should find the chosen device by ID or label and report it missing otherwise', async () => {
+    const { resolveAudioOutput } = await import('../src/utils/audioOutput');
+    const devices = [
+      { deviceId: 'hdmi-1', label: 'HDMI Output' },
+      { deviceId: 'usb-7', label: 'USB Audio Interface' }
+    ];
+
+    expect(resolveAudioOutput(null, devices)).toBeNull();
+    expect(resolveAudioOutput({ deviceId: 'hdmi-1', label: 'Old name' }, devices)?.label).toBe('HDMI Output');
+    // Re-plugged devices can come back with a new ID
+    expect(resolveAudioOutput({ deviceId: 'usb-3', label: 'USB Audio Interface' }, devices)?.deviceId).toBe('usb-7');
+    expect(resolveAudioOutput({ deviceId: 'usb-3', label: 'USB Audio Interface' }, devices.slice(0, 1))).toBeNull();
+    expect(resolveAudioOutput({ deviceId: 'bt-2', label: '' }, [{ deviceId: 'x', label: '' }])).toBeNull();
+  });
+});
+
+describe('Fleet Dashboard', () => {
+  it('should build group commands and rank player health', async () => {
+    const { buildFleetCommand, getFleetHealth, formatHeartbeatAge } = await import('../src/utils/fleet');
+    const draft = { type: 'load_playlist' as const, playlistName: ' Friday Night ', shuffle: true, settingsJson: '', volume: 70 };
+
+    expect(buildFleetCommand(draft)).toEqual({ command: 'load_playlist', data: { playlistName: 'Friday Night', shuffle: true } });
+    expect(() => buildFleetCommand({ ...draft, playlistName: '  ' })).toThrow('playlist name');
+    expect(buildFleetCommand({ ...draft, type: 'settings_update', settingsJson: '{"crossfadeMode":"seamless"}' }).data)
+      .toEqual({ settings: { crossfadeMode: 'seamless' } });
+    expect(() => buildFleetCommand({ ...draft, type: 'settings_update', settingsJson: '[1]' })).toThrow();
+    expect(buildFleetCommand({ ...draft, type: 'setVolume', volume: 150 }).data).toEqual({ volume: 1 });
+
+    const player = { is_online: true, error_count: 0, failed_commands: 0 } as any;
+    expect(getFleetHealth(player)).toBe('ok');
+    expect(getFleetHealth({ ...player, failed_commands: 2 })).toBe('errors');
+    expect(getFleetHealth({ ...player, is_online: false, error_count: 3 })).toBe('offline');
+
+    const now = Date.parse('2025-12-19T12:00:00Z');
+    expect(formatHeartbeatAge(null, now)).toBe('never');
+    expect(formatHeartbeatAge('2025-12-19T11:59:15Z', now)).toBe('45s ago');
+    expect(formatHeartbeatAge('2025-12-19T09:00:00Z', now)).toBe('3h ago');
+  });
+});
+
+describe('Remote Player Settings', () => {
+  it('should accept only known settings of the right type and range', async () => {
+    const { validateRemoteSettings } = await import('../src/utils/remoteSettings');
+
+    expect(validateRemoteSettings({ autoDjStrategy: 'shuffle-on-wrap', harmonicAutoFill: true, fadeDuration: 2.5 }))
+      .toEqual({ updates: { autoDjStrategy: 'shuffle-on-wrap', harmonicAutoFill: true, fadeDuration: 2.5 }, rejected: [] });
+    expect(validateRemoteSettings({ autoDjStrategy: 'harmonic' }).rejected).toEqual(['autoDjStrategy']);
+    expect(validateRemoteSettings({ fadeDuration: 60, targetLoudness: '-14', crossfadeMode: 'djmix' }))
+      .toEqual({ updates: { crossfadeMode: 'djmix' }, rejected: ['fadeDuration', 'targetLoudness'] });
+    expect(validateRemoteSettings({ normalizeAudioLevels: 'yes', playlistsDirectory: '/tmp', constructor: 1 }).rejected)
+      .toEqual(['normalizeAudioLevels', 'playlistsDirectory', 'constructor']);
+  });
+});
+
+describe('Sync Journal', () => {
+  let SyncJournal: any;
+  let dir: string;
+  let file: string;
+  const entry = (id: string) => ({ id, kind: 'command', playerId: 'DEMO_PLAYER', payload: { id }, timestamp: 1 });
+
+  beforeEach(async () => {
+    SyncJournal = (await import('../electron/sync-journal.cjs')).default;
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'djamms-journal-'));
+    file = path.join(dir, 'sync-journal.jsonl');
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should replay appended, removed and processed entries after a restart', () => {
+    const journal = new SyncJournal(file);
+    journal.append(entry('a'));
+    journal.append(entry('b'));
+    journal.append(entry('c'));
+    journal.remove(['b', 'missing']);
+    journal.markProcessed(['cmd-1', 'cmd-2']);
+    journal.markProcessed(['cmd-2']);
+    expect(journal.pendingCount).toBe(2);
+
+    const reloaded = new SyncJournal(file);
+    expect(reloaded.pendingCount).toBe(2);
+    expect(reloaded.snapshot()).toEqual({ entries: [entry('a'), entry('c')], processedCommandIds: ['cmd-1', 'cmd-2'] });
+  });
+
+  it('should skip a torn last line and rewrite the file', () => {
+    const journal = new SyncJournal(file);
+    journal.append(entry('a'));
+    fs.appendFileSync(file, '{"op":"add","entry":{"id":"b"');
+
+    const reloaded = new SyncJournal(file);
+    expect(reloaded.snapshot().entries).toEqual([entry('a')]);
+    reloaded.append(entry('c'));
+    expect(new SyncJournal(file).snapshot().entries).toEqual([entry('a'), entry('c')]);
+  });
+
+  it('should compact to the live entries once enough operations accumulate', () => {
+    const journal = new SyncJournal(file);
+    journal.append(entry('keep'));
+    for (let i = 0; i < 300; i++) {
+      journal.append(entry(`tmp-${i}`));
+      journal.remove([`tmp-${i}`]);
+    }
+    const lines = fs.readFileSync(file, 'utf8').trim().split('\n');
+    expect(lines.length).toBeLessThan(200);
+    expect(journal.pendingCount).toBe(1);
+    expect(new SyncJournal(file).snapshot().entries).toEqual([entry('keep')]);
+  });
+});
+
+describe('Queue Snapshot', () => {
+  const video = (name: string) => ({ id: name, src: `/music/${name}.mp4`, title: name });
+  const queueState = {
+    activeQueue: [video('a'), video('b'), video('c')],
+    priorityQueue: [video('request')],
+    nowPlaying: video('a'),
+    nowPlayingSource: 'active',
+    queueIndex: 0,
+    isPlaying: true,
+    playId: 7
+  };
+
+  it('should restore the saved queues in resume and restart modes and ignore them in fresh mode', async () => {
+    const { buildQueueSnapshot, restoreQueueSnapshot } = await import('../electron/queue-snapshot.cjs');
+    const snapshot = buildQueueSnapshot(queueState, { videoId: 'a', position: 83.5 }, new Date('2025-12-14T22:00:00.000Z'));
+    expect(snapshot).toMatchObject({ playbackPosition: 83.5, savedAt: '2025-12-14T22:00:00.000Z' });
+
+    const restoredState = {
+      activeQueue: queueState.activeQueue,
+      priorityQueue: queueState.priorityQueue,
+      nowPlaying: video('a'),
+      nowPlayingSource: 'active',
+      queueIndex: 0,
+      isPlaying: false,
+      playId: 0
+    };
+    expect(restoreQueueSnapshot(snapshot, 'resume')).toEqual({
+      queueState: restoredState,
+      restoredQueue: { restored: true, mode: 'resume', playbackPosition: 83.5 }
+    });
+    expect(restoreQueueSnapshot(snapshot, 'restart')).toEqual({
+      queueState: restoredState,
+      restoredQueue: { restored: true, mode: 'restart', playbackPosition: 0 }
+    });
+    expect(restoreQueueSnapshot(snapshot, 'fresh')).toEqual({
+      queueState: null,
+      restoredQueue: { restored: false, mode: 'fresh', playbackPosition: 0 }
+    });
+    // No setting yet, or one this version does not know, resumes
+    expect(restoreQueueSnapshot(snapshot, undefined).restoredQueue).toEqual({ restored: true, mode: 'resume', playbackPosition: 83.5 });
+    expect(restoreQueueSnapshot(snapshot, 'rewind').restoredQueue.mode).toBe('resume');
+  });
+
+  it('should only keep the position while the track it belongs to is still playing', async () => {
+    const { buildQueueSnapshot, restoreQueueSnapshot } = await import('../electron/queue-snapshot.cjs');
+
+    expect(buildQueueSnapshot({ ...queueState, nowPlaying: video('b') }, { videoId: 'a', position: 83.5 }).playbackPosition).toBe(0);
+    expect(buildQueueSnapshot({ ...queueState, nowPlaying: null }, { videoId: null, position: 12 }).playbackPosition).toBe(0);
+    expect(restoreQueueSnapshot({ ...queueState, nowPlaying: null, playbackPosition: 40 }, 'resume').restoredQueue.playbackPosition).toBe(0);
+  });
+
+  it('should restore nothing from a missing, corrupt or empty snapshot and drop unreadable entries', async () => {
+    const { restoreQueueSnapshot } = await import('../electron/queue-snapshot.cjs');
+    const nothing = { queueState: null, restoredQueue: { restored: false, mode: 'resume', playbackPosition: 0 } };
+
+    expect(restoreQueueSnapshot(undefined, 'resume')).toEqual(nothing);
+    expect(restoreQueueSnapshot('{"activeQueue":[', 'resume')).toEqual(nothing);
+    expect(restoreQueueSnapshot({ activeQueue: 'a,b,c' }, 'resume')).toEqual(nothing);
+    expect(restoreQueueSnapshot({ activeQueue: [] }, 'resume')).toEqual(nothing);
+    expect(restoreQueueSnapshot({ activeQueue: [null, 'b', {}] }, 'resume')).toEqual(nothing);
+
+    const restored = restoreQueueSnapshot({
+      activeQueue: [null, video('a'), 42],
+      priorityQueue: { 0: video('request') },
+      nowPlaying: 'a',
+      nowPlayingSource: 'active',
+      playbackPosition: 'NaN'
+    }, 'resume');
+    expect(restored.queueState).toMatchObject({ activeQueue: [video('a')], priorityQueue: [], nowPlaying: null, nowPlayingSource: null });
+    expect(restored.restoredQueue).toEqual({ restored: true, mode: 'resume', playbackPosition: 0 });
+  });
+});
+
+describe('Content Moderation', () => {
+  it('should block rejected tracks always and explicit ones during the daytime window', async () => {
+    const { getBlockedVideoKeys, isExplicitAllowedAt } = await import('../src/utils/moderation');
+    const policy = {
+      player_id: 'DEMO_PLAYER', hide_explicit_daytime: true, daytime_start: '06:00:00', daytime_end: '21:00:00', timezone: 'Australia/Sydney'
+    };
+    const snapshot = { rejected: ['/music/a.mp4'], explicit: ['/music/b.mp4'], policy, fetchedAt: '' };
+    const sydneyNoon = new Date('2025-12-19T01:00:00Z');
+    const sydneyMidnight = new Date('2025-12-19T13:00:00Z');
+
+    expect(isExplicitAllowedAt(null, sydneyNoon)).toBe(true);
+    expect(isExplicitAllowedAt({ ...policy, hide_explicit_daytime: false }, sydneyNoon)).toBe(true);
+    expect(isExplicitAllowedAt(policy, sydneyNoon)).toBe(false);
+    expect(isExplicitAllowedAt(policy, sydneyMidnight)).toBe(true);
+    // Windows that wrap midnight, and policies that can't be evaluated
+    expect(isExplicitAllowedAt({ ...policy, daytime_start: '22:00', daytime_end: '02:00' }, sydneyMidnight)).toBe(false);
+    expect(isExplicitAllowedAt({ ...policy, timezone: 'Not/AZone' }, sydneyMidnight)).toBe(false);
+
+    expect([...getBlockedVideoKeys(snapshot, sydneyNoon)]).toEqual(['/music/a.mp4', '/music/b.mp4']);
+    expect([...getBlockedVideoKeys(snapshot, sydneyMidnight)]).toEqual(['/music/a.mp4']);
+  });
+
+  it('should keep blocked tracks out of Auto-DJ picks', async () => {
+    const { buildNextPass } = await import('../electron/auto-dj.cjs');
+    const track = (path: string) => ({ path, title: path });
+    const library = [track('/a.mp4'), track('/b.mp4'), track('/c.mp4')];
+
+    const pass = buildNextPass('least-recently-played', {
+      pass: [track('/a.mp4'), track('/b.mp4')], library, blocked: new Set(['/a.mp4', '/b.mp4'])
+    }, () => 0.5);
+    expect(pass.map((video: { path: string }) => video.path)).toEqual(['/c.mp4']);
+  });
+});
+
+describe('LAN Server', () => {
+  const TOKEN = 'paired-kiosk-token';
+
+  // Drive handleRequest with stand-ins for Node's request/response, no socket needed
+  async function request(
+    server: any,
+    method: string,
+    url: string,
+    options: { token?: string; origin?: string; body?: unknown } = {}
+  ) {
+    const { EventEmitter } = await import('events');
+    const req: any = new EventEmitter();
+    req.method = method;
+    req.url = url;
+    req.headers = {
+      ...(options.token ? { authorization: `Bearer ${options.token}` } : {}),
+      ...(options.origin ? { origin: options.origin } : {})
+    };
+    const res: any = { headers: {}, headersSent: false, statusCode: 0, body: '' };
+    res.setHeader = (name: string, value: string) => { res.headers[name] = value; };
+    res.writeHead = (statusCode: number) => { res.statusCode = statusCode; res.headersSent = true; };
+    res.end = (body?: string) => { res.body = body || ''; };
+
+    const handled = server.handleRequest(req, res);
+    if (options.body !== undefined) req.emit('data', Buffer.from(JSON.stringify(options.body)));
+    req.emit('end');
+    await handled;
+    return { status: res.statusCode, headers: res.headers, json: res.body ? JSON.parse(res.body) : null };
+  }
+
+  async function createServer() {
+    const LanServer = (await import('../electron/lan-server.cjs')).default;
+    const server = new LanServer({ allowedOrigins: ['http://192.168.1.20:5173'] });
+    server.setDevices([{ id: 'device-1', name: 'Bar kiosk', role: 'kiosk', tokenHash: LanServer.hashDeviceToken(TOKEN) }]);
+    server.setPlayerState({ player_id: 'DEMO_PLAYER', status: 'playing' });
+    server.setLibrary({ Rock: [{ path: '/music/a.mp4', title: 'Alpha' }, { path: '/music/b.mp4', title: 'Beta' }] });
+    return server;
+  }
+
+  it('should be off by default', async () => {
+    const LanServer = (await import('../electron/lan-server.cjs')).default;
+    expect(new LanServer().config.enabled).toBe(false);
+  });
+
+  it('should only answer paired devices, and only allowed origins get CORS headers', async () => {
+    const server = await createServer();
+
+    const status = await request(server, 'GET', '/api/status', { origin: 'http://evil.example' });
+    expect(status.status).toBe(200);
+    expect(status.headers['Access-Control-Allow-Origin']).toBeUndefined();
+
+    expect((await request(server, 'GET', '/api/player-state?player_id=DEMO_PLAYER')).status).toBe(401);
+    expect((await request(server, 'GET', '/api/player-state?player_id=DEMO_PLAYER', { token: 'wrong' })).status).toBe(401);
+
+    const state = await request(server, 'GET', '/api/player-state?player_id=DEMO_PLAYER', { token: TOKEN, origin: 'http://192.168.1.20:5173' });
+    expect(state.status).toBe(200);
+    expect(state.json.status).toBe('playing');
+    expect(state.headers['Access-Control-Allow-Origin']).toBe('http://192.168.1.20:5173');
+  });
+
+  it('should refuse requests for another player or without a player ID', async () => {
+    const server = await createServer();
+
+    expect((await request(server, 'GET', '/api/player-state?player_id=OTHER', { token: TOKEN })).status).toBe(404);
+    expect((await request(server, 'GET', '/api/local-videos', { token: TOKEN })).status).toBe(404);
+
+    const videos = await request(server, 'GET', '/api/local-videos?player_id=DEMO_PLAYER&q=alpha', { token: TOKEN });
+    expect(videos.json.map((video: { path: string }) => video.path)).toEqual(['/music/a.mp4']);
+
+    const command = { id: 'cmd-1', command_type: 'skip', command_data: {} };
+    const missing = await request(server, 'POST', '/api/commands', { token: TOKEN, body: { command, wait: false } });
+    expect(missing.json.success).toBe(false);
+    const other = await request(server, 'POST', '/api/commands', { token: TOKEN, body: { command: { ...command, player_id: 'OTHER' }, wait: false } });
+    expect(other.json.success).toBe(false);
+  });
+
+  it('should run commands with the paired device role, not the one the client claims', async () => {
+    const server = await createServer();
+    const received: any[] = [];
+    server.on('command', (command: any) => {
+      received.push(command);
+      server.resolveCommand(command.id, { success: true });
+    });
+
+    const result = await request(server, 'POST', '/api/commands', {
+      token: TOKEN,
+      body: { command: { id: 'cmd-2', player_id: 'DEMO_PLAYER', command_type: 'queue_add', command_data: {}, issuer_role: 'owner' } }
+    });
+    expect(result.status).toBe(200);
+    expect(result.json).toEqual({ success: true, commandId: 'cmd-2' });
+    expect(received[0].issuer_role).toBe('kiosk');
+    expect(received[0].issuer_id).toBe('device-1');
+  });
+});
+
+// Run statements against an in-memory Postgres with every migration applied (see support/migration-db.mjs)
+type SqlResult = { rows: any[]; error?: undefined } | { rows?: undefined; error: string };
+
+async function runMigrationSql(statements: { sql: string; params?: unknown[] }[]): Promise<SqlResult[]> {
+  const { execFile } = await import('child_process');
+  return new Promise((resolve, reject) => {
+    const child = execFile(
+      process.execPath,
+      [path.join(process.cwd(), '__tests__', 'support', 'migration-db.mjs')],
+      { maxBuffer: 16 * 1024 * 1024 },
+      (error, stdout, stderr) => (error ? reject(new Error(stderr || error.message)) : resolve(JSON.parse(stdout)))
+    );
+    child.stdin?.end(JSON.stringify(statements));
+  });
+}
+
+const OWNER_ID = '00000000-0000-0000-0000-000000000001';
+const PLAYER_KEY = 'k'.repeat(48);
+
+// DEMO_PLAYER with a signed-in owner who registers PLAYER_KEY, then back to an anonymous caller
+const REGISTERED_PLAYER = [
+  { sql: `INSERT INTO auth.users (id, email) VALUES ($1, 'owner@example.com')`, params: [OWNER_ID] },
+  { sql: `INSERT INTO player_members (player_id, user_id, role) VALUES ('DEMO_PLAYER', $1, 'owner')`, params: [OWNER_ID] },
+  { sql: `SELECT set_config('request.jwt.claim.sub', $1, false)`, params: [OWNER_ID] },
+  { sql: `SELECT register_player_key('DEMO_PLAYER', $1)`, params: [PLAYER_KEY] },
+  { sql: `SELECT set_config('request.jwt.claim.sub', '', false)` }
+];
+
+describe('Top Charts', () => {
+  const VIDEOS: Record<string, string> = {
+    '00000000-0000-0000-0000-00000000000a': 'A',
+    '00000000-0000-0000-0000-00000000000b': 'B',
+    '00000000-0000-0000-0000-00000000000c': 'C'
+  };
+  const LIBRARY = Object.entries(VIDEOS).map(([id, name]) => ({
+    sql: `INSERT INTO local_videos (id, player_id, file_path, title) VALUES ($1, 'DEMO_PLAYER', $2, $3)`,
+    params: [id, `/music/${name}.mp4`, name]
+  }));
+
+  // A play of video `name` that ended `hoursAgo` hours ago, recorded by the player as anon
+  const play = (name: string, hoursAgo: number, counted = true) => ({
+    sql: `SELECT record_video_play('DEMO_PLAYER', $1, $2, p_played_at => NOW() - make_interval(hours => $3), p_counted => $4) AS play_count`,
+    params: [PLAYER_KEY, `/music/${name}.mp4`, hoursAgo, counted]
+  });
+
+  const charts = (period: string, limit = 100) => ({
+    sql: `SELECT video_id, plays, rank, previous_rank FROM get_top_charts('DEMO_PLAYER', $1, $2)`,
+    params: [period, limit]
+  });
+
+  const named = (result: SqlResult) =>
+    result.rows?.map((row) => ({ video: VIDEOS[row.video_id], plays: row.plays, rank: row.rank, previous: row.previous_rank }));
+
+  it('should only record plays sent with the player key', async () => {
+    const results = await runMigrationSql([
+      ...REGISTERED_PLAYER,
+      ...LIBRARY,
+      { sql: 'SET ROLE anon' },
+      { sql: `SELECT record_video_play('DEMO_PLAYER', 'wrong-key', '/music/A.mp4')` },
+      { sql: `SELECT record_video_play('DEMO_PLAYER', NULL, '/music/A.mp4')` },
+      { sql: `SELECT record_video_play('DEMO_PLAYER', $1, '/music/A.mp4') AS play_count`, params: [PLAYER_KEY] },
+      { sql: `SELECT record_video_play('OTHER_PLAYER', $1, '/music/A.mp4')`, params: [PLAYER_KEY] },
+      { sql: 'RESET ROLE' },
+      { sql: `SELECT COUNT(*)::INTEGER AS plays FROM video_plays` }
+    ]);
+
+    const [wrongKey, noKey, recorded, otherPlayer, , count] = results.slice(-6);
+    expect(wrongKey.error).toContain('INVALID_PLAYER_KEY');
+    expect(noKey.error).toContain('INVALID_PLAYER_KEY');
+    expect(recorded.rows).toEqual([{ play_count: 1 }]);
+    expect(otherPlayer.error).toContain('INVALID_PLAYER_KEY');
+    expect(count.rows).toEqual([{ plays: 1 }]);
+  }, 120000);
+
+  it('should rank by counted plays in the window, break ties by the latest play and show the previous rank', async () => {
+    const results = await runMigrationSql([
+      ...REGISTERED_PLAYER,
+      ...LIBRARY,
+      { sql: 'SET ROLE anon' },
+      // Tonight (last 12h): A and B tie on 2 plays, B was played last; C once, plus a skip that does not count
+      play('A', 5), play('A', 4), play('B', 6), play('B', 3), play('C', 1), play('C', 0.5, false),
+      // Earlier this week, and the previous "tonight" (24-36h ago)
+      play('C', 20), play('A', 30),
+      // The previous week (7-14 days ago)
+      play('B', 24 * 10),
+      { sql: 'RESET ROLE' },
+      // Another player's plays never count here
+      {
+        sql: `INSERT INTO video_plays (player_id, video_id, file_path, played_at)
+              SELECT 'OTHER_PLAYER', '00000000-0000-0000-0000-00000000000c', '/music/C.mp4', NOW() FROM generate_series(1, 5)`
+      },
+      charts('tonight'),
+      charts('week'),
+      charts('week', 1),
+      charts('all'),
+      charts('month')
+    ]);
+
+    const [tonight, week, weekTop, allTime, invalid] = results.slice(-5);
+    expect(named(tonight)).toEqual([
+      { video: 'B', plays: 2, rank: 1, previous: null },
+      { video: 'A', plays: 2, rank: 2, previous: 1 },
+      { video: 'C', plays: 1, rank: 3, previous: null }
+    ]);
+    expect(named(week)).toEqual([
+      { video: 'A', plays: 3, rank: 1, previous: null },
+      { video: 'C', plays: 2, rank: 2, previous: null },
+      { video: 'B', plays: 2, rank: 3, previous: 1 }
+    ]);
+    expect(named(weekTop)).toEqual([{ video: 'A', plays: 3, rank: 1, previous: null }]);
+    expect(named(allTime)).toEqual([
+      { video: 'B', plays: 3, rank: 1, previous: 1 },
+      { video: 'A', plays: 3, rank: 2, previous: null },
+      { video: 'C', plays: 2, rank: 3, previous: null }
+    ]);
+    expect(invalid.error).toContain('INVALID_PERIOD');
+  }, 120000);
+});
+
+describe('Kiosk Credits', () => {
+  const COMMAND_ID = '00000000-0000-0000-0000-0000000000c1';
+
+  const apply = (entryType: string, amount: number, commandId: string | null) => ({
+    sql: `SELECT entry_id IS NOT NULL AS applied, balance
+          FROM player_kiosk_credit_apply('DEMO_PLAYER', $1, 'kiosk-1', $2, $3, 'test', NULL, NULL, $4)`,
+    params: [PLAYER_KEY, entryType, amount, commandId]
+  });
+
+  it('should refund a charged request once, by the command it paid for', async () => {
+    const results = await runMigrationSql([
+      ...REGISTERED_PLAYER,
+      { sql: 'SET ROLE anon' },
+      apply('deposit', 5, null),
+      apply('spend', 2, COMMAND_ID),
+      apply('refund', 0, COMMAND_ID),
+      apply('refund', 0, COMMAND_ID),
+      apply('refund', 0, '00000000-0000-0000-0000-0000000000c2'),
+      { sql: 'RESET ROLE' },
+      { sql: `SELECT entry_type, amount FROM kiosk_credit_ledger ORDER BY created_at, entry_type` }
+    ]);
+
+    const [deposit, spend, refund, retry, neverCharged, , ledger] = results.slice(-7);
+    expect(deposit.rows).toEqual([{ applied: true, balance: 5 }]);
+    expect(spend.rows).toEqual([{ applied: true, balance: 3 }]);
+    expect(refund.rows).toEqual([{ applied: true, balance: 5 }]);
+    expect(retry.rows).toEqual([{ applied: true, balance: 5 }]);
+    expect(neverCharged.error).toContain('SPEND_NOT_FOUND');
+    expect(ledger.rows?.filter((row) => row.entry_type === 'refund')).toEqual([{ entry_type: 'refund', amount: 2 }]);
+  }, 120000);
+});
+
+describe('Kiosk Pairing', () => {
+  const claim = (code: string) => ({
+    sql: `SELECT player_id, role, length(device_token) AS token_length FROM claim_kiosk_pairing_code(${code}, 'Bar kiosk')`
+  });
+
+  it('should pair a device once with an unexpired code from the player', async () => {
+    const results = await runMigrationSql([
+      ...REGISTERED_PLAYER,
+      { sql: 'SET ROLE anon' },
+      { sql: `SELECT code FROM create_kiosk_pairing_code('DEMO_PLAYER', 'wrong-key')` },
+      { sql: `SELECT role FROM create_kiosk_pairing_code('DEMO_PLAYER', $1, 'kiosk')`, params: [PLAYER_KEY] },
+      { sql: `SELECT role FROM create_kiosk_pairing_code('DEMO_PLAYER', $1, 'staff')`, params: [PLAYER_KEY] },
+      { sql: 'RESET ROLE' },
+      // The codes are random - keep them where the claims below can read them, and let the staff code lapse
+      {
+        sql: `SELECT set_config('test.kiosk_code', (SELECT code FROM kiosk_pairing_codes WHERE role = 'kiosk'), false),
+                     set_config('test.staff_code', (SELECT code FROM kiosk_pairing_codes WHERE role = 'staff'), false)`
+      },
+      { sql: `UPDATE kiosk_pairing_codes SET expires_at = NOW() - INTERVAL '1 second' WHERE role = 'staff'` },
+      { sql: 'SET ROLE anon' },
+      claim(`lower(current_setting('test.kiosk_code'))`),
+      claim(`current_setting('test.kiosk_code')`),
+      claim(`current_setting('test.staff_code')`),
+      claim(`'ZZZZZZ'`),
+      { sql: 'RESET ROLE' },
+      { sql: `SELECT name, role, revoked_at FROM kiosk_devices` },
+      { sql: `SELECT kpc.claimed_at IS NOT NULL AS claimed FROM kiosk_pairing_codes kpc JOIN kiosk_devices kd ON kd.id = kpc.device_id` }
+    ]);
+
+    const [wrongKey, kioskCode, staffCode] = results.slice(REGISTERED_PLAYER.length + 1);
+    expect(wrongKey.error).toContain('INVALID_PLAYER_KEY');
+    expect(kioskCode.rows).toEqual([{ role: 'kiosk' }]);
+    expect(staffCode.rows).toEqual([{ role: 'staff' }]);
+
+    const [claimed, reused, expired, unknown, , devices, codes] = results.slice(-7);
+    expect(claimed.rows).toEqual([{ player_id: 'DEMO_PLAYER', role: 'kiosk', token_length: 64 }]);
+    expect(reused.error).toContain('INVALID_PAIRING_CODE');
+    expect(expired.error).toContain('INVALID_PAIRING_CODE');
+    expect(unknown.error).toContain('INVALID_PAIRING_CODE');
+    expect(devices.rows).toEqual([{ name: 'Bar kiosk', role: 'kiosk', revoked_at: null }]);
+    expect(codes.rows).toEqual([{ claimed: true }]);
+  }, 120000);
+});
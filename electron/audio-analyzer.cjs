@@ -0,0 +1,259 @@
+/**
+ * AudioAnalyzer - One-pass audio analysis per video file
+ *
+ * Runs ffmpeg over a video's audio track with two filters:
+ * - silencedetect: the silent stretches at the very start and very end become cue points
+ *   - cueIn:  where the audio starts (end of leading silence, 0 if none)
+ *   - cueOut: where the audio ends (start of trailing silence, duration if none)
+ *   Seamless mode crossfades at cue-out and starts the next video at its cue-in.
+ * - ebur128: integrated loudness (LUFS) and true peak (dBTP), used to normalize each
+ *   track to the target loudness before it becomes audible
+ *
+ * Results are cached in a JSON file keyed by file path and checked against the
+ * file's size + mtime, so each file is decoded once. Analysis runs one file at a
+ * time: the player usually shares its CPU with video decoding.
+ */
+
+const fs = require('fs');
+const path = require('path');
+const ffmpeg = require('fluent-ffmpeg');
+
+// ffmpeg-static resolves inside app.asar when packaged; the binary is unpacked next to it
+try {
+  const ffmpegPath = require('ffmpeg-static');
+  if (ffmpegPath) {
+    ffmpeg.setFfmpegPath(ffmpegPath.replace('app.asar', 'app.asar.unpacked'));
+  }
+} catch (error) {
+  console.warn('[AudioAnalyzer] ffmpeg-static not available, using ffmpeg from PATH');
+}
+
+const DEFAULT_AUDIO_ANALYSIS_CONFIG = {
+  noiseDb: -45,        // Anything quieter counts as silence (catches the tail of fade-outs)
+  minSilence: 0.5,     // Seconds of quiet before it counts as a silent stretch
+  edgeTolerance: 0.05  // Seconds - a stretch this close to the start/end touches the edge
+};
+
+// ebur128 reports -70 LUFS (its gating floor) for silent files
+const SILENT_LUFS = -70;
+
+const ANALYSIS_TIMEOUT_MS = 120000;
+const SAVE_DELAY_MS = 2000;
+
+/**
+ * Parse ffmpeg output into silencedetect stretches ([{ start, end }], end is null when
+ * the file ends while still silent), the container duration in seconds and the
+ * ebur128 summary (null when missing or the file is silent)
+ */
+function parseAnalysisOutput(lines) {
+  const silences = [];
+  let duration = null;
+  let integratedLufs = null;
+  let truePeakDb = null;
+
+  for (const line of lines) {
+    const durationMatch = line.match(/Duration:\s*(\d+):(\d+):(\d+(?:\.\d+)?)/);
+    if (durationMatch && duration === null) {
+      duration = Number(durationMatch[1]) * 3600 + Number(durationMatch[2]) * 60 + Number(durationMatch[3]);
+      continue;
+    }
+    const startMatch = line.match(/silence_start:\s*(-?\d+(?:\.\d+)?)/);
+    if (startMatch) {
+      silences.push({ start: Math.max(0, Number(startMatch[1])), end: null });
+      continue;
+    }
+    const endMatch = line.match(/silence_end:\s*(\d+(?:\.\d+)?)/);
+    if (endMatch && silences.length > 0 && silences[silences.length - 1].end === null) {
+      silences[silences.length - 1].end = Number(endMatch[1]);
+      continue;
+    }
+    // Summary lines only - per-frame lines carry more fields after the unit
+    const loudnessMatch = line.match(/\bI:\s+(-?\d+(?:\.\d+)?)\s+LUFS\s*$/);
+    if (loudnessMatch) {
+      const lufs = Number(loudnessMatch[1]);
+      integratedLufs = lufs > SILENT_LUFS ? lufs : null;
+      continue;
+    }
+    const peakMatch = line.match(/\bPeak:\s+(-?\d+(?:\.\d+)?)\s+dBFS\s*$/);
+    if (peakMatch) {
+      truePeakDb = Number(peakMatch[1]);
+    }
+  }
+
+  return { silences, duration, integratedLufs, truePeakDb: integratedLufs === null ? null : truePeakDb };
+}
+
+/**
+ * Cue points from silent stretches: only silence touching the start or end of the file counts
+ */
+function computeCuePoints(silences, duration, edgeTolerance = DEFAULT_AUDIO_ANALYSIS_CONFIG.edgeTolerance) {
+  let cueIn = 0;
+  let cueOut = duration;
+
+  const leading = silences[0];
+  if (leading && leading.start <= edgeTolerance && leading.end !== null) {
+    cueIn = leading.end;
+  }
+
+  const trailing = silences[silences.length - 1];
+  if (trailing && (trailing.end === null || trailing.end >= duration - edgeTolerance)) {
+    cueOut = trailing.start;
+  }
+
+  // A file that is silent throughout has no usable cues
+  if (cueOut <= cueIn) {
+    return { cueIn: 0, cueOut: duration };
+  }
+  return { cueIn: round(cueIn), cueOut: round(cueOut) };
+}
+
+function round(value) {
+  return Math.round(value * 100) / 100;
+}
+
+class AudioAnalyzer {
+  /**
+   * @param {string} cachePath - Cache file, e.g. <userData>/audio-analysis.json
+   */
+  constructor(cachePath, config = {}) {
+    this.cachePath = cachePath;
+    this.config = { ...DEFAULT_AUDIO_ANALYSIS_CONFIG, ...config };
+    this.cache = {}; // filePath -> { fileHash, cueIn, cueOut, duration, integratedLufs, truePeakDb, analyzedAt }
+    this.inFlight = new Map(); // filePath -> Promise
+    this.chain = Promise.resolve();
+    this.saveTimer = null;
+    this.load();
+  }
+
+  load() {
+    try {
+      this.cache = JSON.parse(fs.readFileSync(this.cachePath, 'utf8')) || {};
+    } catch (error) {
+      if (error.code !== 'ENOENT') {
+        console.warn('[AudioAnalyzer] Ignoring unreadable analysis cache:', error.message);
+      }
+      this.cache = {};
+    }
+  }
+
+  scheduleSave() {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.save();
+    }, SAVE_DELAY_MS);
+  }
+
+  save() {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    try {
+      const tmpPath = `${this.cachePath}.tmp`;
+      fs.mkdirSync(path.dirname(this.cachePath), { recursive: true });
+      fs.writeFileSync(tmpPath, JSON.stringify(this.cache), 'utf8');
+      fs.renameSync(tmpPath, this.cachePath);
+    } catch (error) {
+      console.error('[AudioAnalyzer] Failed to save analysis cache:', error.message);
+    }
+  }
+
+  static fileHash(stats) {
+    return `${stats.size}-${Math.floor(stats.mtimeMs)}`;
+  }
+
+  /**
+   * Cached analysis for a file, or null if it hasn't been analyzed since it last changed
+   * @param {fs.Stats} [stats] - Pass when already known to skip the stat call
+   */
+  getCached(filePath, stats) {
+    const entry = this.cache[filePath];
+    if (!entry) return null;
+    try {
+      const current = stats || fs.statSync(filePath);
+      if (entry.fileHash !== AudioAnalyzer.fileHash(current)) return null;
+    } catch (error) {
+      return null;
+    }
+    const { fileHash, analyzedAt, ...analysis } = entry;
+    return analysis;
+  }
+
+  /**
+   * Analysis for a file, running it first if needed. Resolves null when the file
+   * can't be decoded; concurrent requests for the same file share one run.
+   */
+  analyze(filePath) {
+    const cached = this.getCached(filePath);
+    if (cached) return Promise.resolve(cached);
+    if (this.inFlight.has(filePath)) return this.inFlight.get(filePath);
+
+    const run = this.chain.then(() => this.runAnalysis(filePath));
+    const promise = run
+      .catch(error => {
+        console.warn(`[AudioAnalyzer] Analysis failed for ${path.basename(filePath)}:`, error.message);
+        return null;
+      })
+      .finally(() => this.inFlight.delete(filePath));
+    this.chain = promise;
+    this.inFlight.set(filePath, promise);
+    return promise;
+  }
+
+  runAnalysis(filePath) {
+    const stats = fs.statSync(filePath);
+    const { noiseDb, minSilence, edgeTolerance } = this.config;
+
+    return new Promise((resolve, reject) => {
+      const lines = [];
+      const command = ffmpeg(filePath)
+        .noVideo()
+        .audioFilters([
+          `silencedetect=noise=${noiseDb}dB:d=${minSilence}`,
+          'ebur128=peak=true:framelog=verbose'
+        ])
+        .format('null')
+        .output(process.platform === 'win32' ? 'NUL' : '/dev/null')
+        .on('stderr', line => lines.push(line))
+        .on('error', error => {
+          clearTimeout(timer);
+          reject(error);
+        })
+        .on('end', () => {
+          clearTimeout(timer);
+          const { silences, duration, integratedLufs, truePeakDb } = parseAnalysisOutput(lines);
+          if (!duration) {
+            reject(new Error('Could not read duration'));
+            return;
+          }
+          const analysis = {
+            ...computeCuePoints(silences, duration, edgeTolerance),
+            duration: round(duration),
+            integratedLufs: integratedLufs === null ? null : round(integratedLufs),
+            truePeakDb: truePeakDb === null ? null : round(truePeakDb)
+          };
+          this.cache[filePath] = {
+            fileHash: AudioAnalyzer.fileHash(stats),
+            ...analysis,
+            analyzedAt: new Date().toISOString()
+          };
+          this.scheduleSave();
+          console.log(`[AudioAnalyzer] ${path.basename(filePath)}: cue in ${analysis.cueIn}s, cue out ${analysis.cueOut}s of ${analysis.duration}s, ${analysis.integratedLufs} LUFS, peak ${analysis.truePeakDb} dBTP`);
+          resolve(analysis);
+        });
+
+      const timer = setTimeout(() => {
+        command.kill('SIGKILL');
+        reject(new Error('Analysis timed out'));
+      }, ANALYSIS_TIMEOUT_MS);
+
+      command.run();
+    });
+  }
+}
+
+module.exports = AudioAnalyzer;
+module.exports.DEFAULT_AUDIO_ANALYSIS_CONFIG = DEFAULT_AUDIO_ANALYSIS_CONFIG;
+module.exports.parseAnalysisOutput = parseAnalysisOutput;
+module.exports.computeCuePoints = computeCuePoints;
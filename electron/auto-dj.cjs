@@ -0,0 +1,196 @@
+/**
+ * AutoDj - What plays once the active queue has gone all the way round
+ *
+ * The active queue is a ring: every finished track is recycled to the end, so it
+ * never actually empties. Once each track of the current pass has played, the
+ * selected strategy builds the next pass:
+ * - loop:                    same tracks, same order (the original behaviour)
+ * - shuffle-on-wrap:         same tracks reshuffled, never starting with the track that just played
+ * - weighted-random:         random tracks from the whole library, favouring ones not heard for a while
+ * - more-like-last-request:  tracks from the playlist or artist of the last kiosk request
+ * - least-recently-played:   the library tracks that have gone longest without playing
+ *
+ * Library strategies keep the pass the same length as the one that just finished
+ * and fall back to looping when they have nothing to pick from. They never pick a track
+ * the player's moderation has blocked (setBlocked).
+ * playerSettings.autoDjStrategy selects the strategy (read at each wrap).
+ */
+
+const AUTO_DJ_STRATEGIES = ['loop', 'shuffle-on-wrap', 'weighted-random', 'more-like-last-request', 'least-recently-played'];
+const DEFAULT_AUTO_DJ_STRATEGY = 'loop';
+
+// Weighted random: a track's weight grows with the hours since it last played, up to this cap
+// (never-played tracks get the cap)
+const MAX_WEIGHT_HOURS = 72;
+
+function getVideoKey(video) {
+  return video ? (video.path || video.src || video.id) : null;
+}
+
+function normalize(value) {
+  return typeof value === 'string' ? value.trim().toLowerCase() : '';
+}
+
+function shuffle(videos, random) {
+  const result = [...videos];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+function flattenLibrary(playlists) {
+  const seen = new Set();
+  const library = [];
+  for (const videos of Object.values(playlists || {})) {
+    for (const video of videos || []) {
+      const key = getVideoKey(video);
+      if (key && !seen.has(key)) {
+        seen.add(key);
+        library.push(video);
+      }
+    }
+  }
+  return library;
+}
+
+/**
+ * `count` tracks sampled without replacement, each pick weighted by time since it last played
+ */
+function pickWeighted(candidates, count, lastPlayed, now, random) {
+  const pool = candidates.map(video => {
+    const playedAt = lastPlayed[getVideoKey(video)];
+    const hours = playedAt ? Math.min((now - playedAt) / 3600000, MAX_WEIGHT_HOURS) : MAX_WEIGHT_HOURS;
+    return { video, weight: 1 + Math.max(0, hours) };
+  });
+  const picks = [];
+  while (picks.length < count && pool.length > 0) {
+    const total = pool.reduce((sum, entry) => sum + entry.weight, 0);
+    let target = random() * total;
+    let index = 0;
+    while (index < pool.length - 1 && target >= pool[index].weight) {
+      target -= pool[index].weight;
+      index++;
+    }
+    picks.push(pool.splice(index, 1)[0].video);
+  }
+  return picks;
+}
+
+function pickLeastRecentlyPlayed(candidates, count, lastPlayed, random) {
+  // Shuffle first so never-played tracks (and ties) don't always come out in library order
+  return shuffle(candidates, random)
+    .sort((a, b) => (lastPlayed[getVideoKey(a)] || 0) - (lastPlayed[getVideoKey(b)] || 0))
+    .slice(0, count);
+}
+
+/**
+ * The next pass of the active queue
+ * @param {string} strategy - One of AUTO_DJ_STRATEGIES (unknown values loop)
+ * @param {object} context
+ * @param {object[]} context.pass - The pass that just finished, in play order
+ * @param {object[]} [context.library] - Every track in the library
+ * @param {object} [context.lastPlayed] - Video key -> ms timestamp of its last play
+ * @param {object|null} [context.lastRequest] - Most recent kiosk request to have played
+ * @param {object|null} [context.justPlayed] - The track that finished last (not repeated straight away)
+ * @param {Set<string>} [context.blocked] - Video keys moderation has rejected (or explicit out of hours)
+ * @param {number} [context.now]
+ */
+function buildNextPass(strategy, context, random = Math.random) {
+  const { pass, library = [], lastPlayed = {}, lastRequest = null, justPlayed = null, blocked = new Set(), now = Date.now() } = context;
+  if (pass.length === 0) return pass;
+
+  const justPlayedKey = getVideoKey(justPlayed);
+  const candidates = library.filter(video => getVideoKey(video) !== justPlayedKey && !blocked.has(getVideoKey(video)));
+  const count = pass.length;
+
+  switch (strategy) {
+    case 'shuffle-on-wrap': {
+      const shuffled = shuffle(pass, random);
+      if (shuffled.length > 1 && getVideoKey(shuffled[0]) === justPlayedKey) {
+        const swapIndex = 1 + Math.floor(random() * (shuffled.length - 1));
+        [shuffled[0], shuffled[swapIndex]] = [shuffled[swapIndex], shuffled[0]];
+      }
+      return shuffled;
+    }
+    case 'weighted-random': {
+      const picks = pickWeighted(candidates, count, lastPlayed, now, random);
+      return picks.length > 0 ? picks : pass;
+    }
+    case 'more-like-last-request': {
+      if (!lastRequest) return pass;
+      const requestKey = getVideoKey(lastRequest);
+      const playlist = normalize(lastRequest.playlist);
+      const artist = normalize(lastRequest.artist);
+      const similar = candidates.filter(video =>
+        getVideoKey(video) !== requestKey &&
+        ((playlist && normalize(video.playlist) === playlist) || (artist && normalize(video.artist) === artist))
+      );
+      const picks = pickWeighted(similar, count, lastPlayed, now, random);
+      return picks.length > 0 ? picks : pass;
+    }
+    case 'least-recently-played': {
+      const picks = pickLeastRecentlyPlayed(candidates, count, lastPlayed, random);
+      return picks.length > 0 ? picks : pass;
+    }
+    default:
+      return pass;
+  }
+}
+
+class AutoDj {
+  /**
+   * @param {object} [lastPlayed] - Saved play times (video key -> ms timestamp)
+   */
+  constructor(lastPlayed = {}) {
+    this.library = [];
+    this.lastPlayed = { ...lastPlayed };
+    this.lastRequest = null;
+    this.blocked = new Set();
+  }
+
+  /**
+   * @param {Record<string, object[]>} playlists - As returned by get-playlists
+   */
+  setLibrary(playlists) {
+    this.library = flattenLibrary(playlists);
+  }
+
+  /**
+   * @param {string[]} keys - File paths moderation currently blocks (sent by the renderer)
+   */
+  setBlocked(keys) {
+    this.blocked = new Set(keys || []);
+  }
+
+  /**
+   * Note a track starting to play: feeds least-recently-played / weighted random, and
+   * kiosk requests become the seed for more-like-last-request
+   */
+  recordPlay(video, now = Date.now()) {
+    const key = getVideoKey(video);
+    if (!key) return;
+    this.lastPlayed[key] = now;
+    if (video.requestedByKiosk) {
+      this.lastRequest = video;
+    }
+  }
+
+  buildNextPass(strategy, pass, justPlayed, random = Math.random) {
+    return buildNextPass(strategy, {
+      pass,
+      library: this.library,
+      lastPlayed: this.lastPlayed,
+      lastRequest: this.lastRequest,
+      justPlayed,
+      blocked: this.blocked
+    }, random);
+  }
+}
+
+module.exports = AutoDj;
+module.exports.AUTO_DJ_STRATEGIES = AUTO_DJ_STRATEGIES;
+module.exports.DEFAULT_AUTO_DJ_STRATEGY = DEFAULT_AUTO_DJ_STRATEGY;
+module.exports.buildNextPass = buildNextPass;
+module.exports.flattenLibrary = flattenLibrary;
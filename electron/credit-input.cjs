@@ -0,0 +1,378 @@
+/**
+ * CreditInputManager - Coin acceptor / bill validator input for DJAMMS kiosks
+ *
+ * Drivers:
+ * - pulse:       Coin mech wired through a USB-serial pulse interface (one byte per pulse).
+ *                Pulses are grouped into a coin once the line has been quiet for pulseTimeoutMs.
+ * - serial-bill: Bill validator in simple serial (SIO) mode - one status byte per event.
+ * - simulated:   No hardware. Coins and faults are injected from the Connections tab.
+ *
+ * Events:
+ * - 'credit' { credits, kioskId, source, detail }
+ * - 'fault'  { kind: 'jam' | 'tamper' | 'reject' | 'error', message }
+ * - 'status' (getStatus() snapshot)
+ *
+ * A serial device that disconnects or errors is reopened with exponential backoff
+ * (reconnectMinMs doubling up to reconnectMaxMs) until it comes back or the manager stops.
+ *
+ * The manager never talks to Supabase itself - main.cjs forwards 'credit' events
+ * to the renderer, which turns them into kiosk_add_credits commands.
+ */
+
+const { EventEmitter } = require('events');
+
+const DEFAULT_CREDIT_INPUT_CONFIG = {
+  enabled: false,
+  driver: 'simulated', // 'pulse' | 'serial-bill' | 'simulated'
+  portPath: '',
+  baudRate: 9600,
+  kioskId: 'main',
+  pulseTimeoutMs: 150,
+  maxPulses: 20, // Longer pulse trains are treated as stringing/tampering
+  pulseCredits: { 1: 1, 2: 2, 5: 5 }, // Pulses per coin -> credits
+  channelCredits: { 1: 5, 2: 10, 3: 20, 4: 50 }, // Bill channel -> credits
+  reconnectMinMs: 1000,
+  reconnectMaxMs: 30000
+};
+
+// Simple serial (SIO) event bytes sent by the bill validator
+const SIO_EVENTS = {
+  NOTE_NOT_RECOGNISED: 20,
+  RUNNING_SLOW: 30,
+  STRIMMING_ATTEMPTED: 40,
+  FRAUD_CHANNEL_REJECT: 50,
+  STACKER_FULL_OR_JAMMED: 60,
+  ABORT_DURING_ESCROW: 70,
+  NOTE_TAKEN_TO_CLEAR_JAM: 80,
+  VALIDATOR_BUSY: 120
+};
+const SIO_ENABLE_ALL = 184;
+const SIO_DISABLE_ALL = 185;
+
+// serialport is an optional dependency - only needed for real hardware
+function loadSerialPort() {
+  try {
+    return require('serialport').SerialPort;
+  } catch (error) {
+    return null;
+  }
+}
+
+class CreditInputManager extends EventEmitter {
+  /**
+   * @param {object} [config] - Saved credit input settings (see DEFAULT_CREDIT_INPUT_CONFIG)
+   * @param {Function} [loadPort] - Returns the SerialPort class, or null when it is not installed
+   */
+  constructor(config = {}, loadPort = loadSerialPort) {
+    super();
+    this.config = { ...DEFAULT_CREDIT_INPUT_CONFIG, ...config };
+    this.loadPort = loadPort;
+    this.port = null;
+    this.pulseCount = 0;
+    this.pulseTimer = null;
+    this.reconnectTimer = null;
+    this.stopping = false;
+    this.state = {
+      status: 'stopped', // 'stopped' | 'connecting' | 'connected' | 'error'
+      lastError: null,
+      lastEventAt: null,
+      creditsThisSession: 0,
+      faultCount: 0,
+      reconnectAttempts: 0 // Since the device was last connected
+    };
+  }
+
+  /**
+   * List serial ports available for pulse interfaces and bill validators
+   */
+  static async listPorts() {
+    const SerialPort = loadSerialPort();
+    if (!SerialPort) return [];
+    const ports = await SerialPort.list();
+    return ports.map(p => ({ path: p.path, manufacturer: p.manufacturer || null }));
+  }
+
+  /**
+   * Get current status snapshot (safe to send over IPC)
+   */
+  getStatus() {
+    return {
+      ...this.state,
+      driver: this.config.driver,
+      enabled: this.config.enabled,
+      portPath: this.config.portPath,
+      kioskId: this.config.kioskId
+    };
+  }
+
+  /**
+   * Replace configuration and restart the active driver
+   */
+  async configure(config) {
+    await this.stop();
+    this.config = { ...DEFAULT_CREDIT_INPUT_CONFIG, ...config };
+    if (this.config.enabled) {
+      await this.start();
+    } else {
+      this.emitStatus();
+    }
+  }
+
+  async start() {
+    if (!this.config.enabled) return;
+    this.stopping = false;
+
+    if (this.config.driver === 'simulated') {
+      this.setStatus('connected');
+      console.log('[CreditInput] ✅ Simulated credit input ready');
+      return;
+    }
+
+    const SerialPort = this.loadPort();
+    if (!SerialPort) {
+      this.setStatus('error', 'serialport module is not installed');
+      return;
+    }
+    if (!this.config.portPath) {
+      this.setStatus('error', 'No serial port selected');
+      return;
+    }
+
+    this.state.reconnectAttempts = 0;
+    await this.openPort(SerialPort);
+  }
+
+  /**
+   * Open the configured serial port - a failed open, and a later error or disconnect, schedule a reconnect
+   */
+  async openPort(SerialPort) {
+    this.setStatus('connecting');
+    const port = new SerialPort({
+      path: this.config.portPath,
+      baudRate: Number(this.config.baudRate) || 9600,
+      autoOpen: false
+    });
+    this.port = port;
+
+    port.on('data', (data) => this.handleData(data));
+    port.on('error', (error) => {
+      if (this.port !== port) return;
+      this.setStatus('error', error.message);
+      this.emitFault('error', `Serial error: ${error.message}`);
+      if (!port.isOpen) this.scheduleReconnect(SerialPort);
+    });
+    port.on('close', () => {
+      if (this.port !== port || this.stopping) return;
+      this.setStatus('error', 'Device disconnected');
+      this.emitFault('error', `Credit input device disconnected (${this.config.portPath})`);
+      this.scheduleReconnect(SerialPort);
+    });
+
+    await new Promise((resolve) => {
+      port.open((error) => {
+        if (this.port !== port) {
+          resolve();
+          return;
+        }
+        if (error) {
+          this.setStatus('error', error.message);
+          this.scheduleReconnect(SerialPort);
+        } else {
+          this.state.reconnectAttempts = 0;
+          this.setStatus('connected');
+          console.log(`[CreditInput] ✅ ${this.config.driver} connected on ${this.config.portPath}`);
+          if (this.config.driver === 'serial-bill') {
+            port.write(Buffer.from([SIO_ENABLE_ALL]));
+          }
+        }
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Reopen the port after reconnectMinMs, doubling the wait after every failed attempt up to reconnectMaxMs
+   */
+  scheduleReconnect(SerialPort) {
+    if (this.stopping || this.reconnectTimer) return;
+    const delay = Math.min(
+      this.config.reconnectMinMs * Math.pow(2, this.state.reconnectAttempts),
+      this.config.reconnectMaxMs
+    );
+    this.state.reconnectAttempts++;
+    console.log(`[CreditInput] Reconnecting to ${this.config.portPath} in ${delay}ms (attempt ${this.state.reconnectAttempts})`);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.stopping) return;
+      this.port = null;
+      this.openPort(SerialPort);
+    }, delay);
+  }
+
+  async stop() {
+    this.stopping = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.flushPulses();
+    if (this.port) {
+      const port = this.port;
+      this.port = null;
+      if (port.isOpen) {
+        if (this.config.driver === 'serial-bill') {
+          port.write(Buffer.from([SIO_DISABLE_ALL]));
+        }
+        await new Promise((resolve) => port.close(() => resolve()));
+      }
+    }
+    this.setStatus('stopped');
+  }
+
+  /**
+   * Inject an event from the Connections tab (simulated driver only)
+   * @param {{ type: 'coin' | 'bill' | 'jam' | 'tamper', pulses?: number, channel?: number }} event
+   */
+  simulate(event) {
+    if (this.config.driver !== 'simulated' || this.state.status !== 'connected') {
+      return { success: false, error: 'Simulated credit input is not active' };
+    }
+    switch (event.type) {
+      case 'coin':
+        this.handleCoin(event.pulses || 1);
+        break;
+      case 'bill':
+        this.handleBillByte(event.channel || 1);
+        break;
+      case 'jam':
+        this.emitFault('jam', 'Simulated jam');
+        break;
+      case 'tamper':
+        this.emitFault('tamper', 'Simulated tamper');
+        break;
+      default:
+        return { success: false, error: `Unknown simulated event: ${event.type}` };
+    }
+    return { success: true };
+  }
+
+  // ==================== Driver Input ====================
+
+  handleData(data) {
+    for (const byte of data) {
+      if (this.config.driver === 'pulse') {
+        this.handlePulse();
+      } else if (this.config.driver === 'serial-bill') {
+        this.handleBillByte(byte);
+      }
+    }
+  }
+
+  handlePulse() {
+    this.pulseCount++;
+    if (this.pulseTimer) clearTimeout(this.pulseTimer);
+    this.pulseTimer = setTimeout(() => this.flushPulses(), this.config.pulseTimeoutMs);
+  }
+
+  flushPulses() {
+    if (this.pulseTimer) {
+      clearTimeout(this.pulseTimer);
+      this.pulseTimer = null;
+    }
+    const pulses = this.pulseCount;
+    this.pulseCount = 0;
+    if (pulses > 0) {
+      this.handleCoin(pulses);
+    }
+  }
+
+  handleCoin(pulses) {
+    if (pulses > this.config.maxPulses) {
+      this.emitFault('tamper', `Pulse train too long (${pulses} pulses) - possible stringing`);
+      return;
+    }
+    const credits = Number(this.config.pulseCredits[pulses]) || 0;
+    if (credits <= 0) {
+      this.emitFault('reject', `Unrecognised coin (${pulses} pulses)`);
+      return;
+    }
+    this.emitCredit(credits, `coin:${pulses}p`);
+  }
+
+  handleBillByte(byte) {
+    if (byte >= 1 && byte <= 16) {
+      const credits = Number(this.config.channelCredits[byte]) || 0;
+      if (credits <= 0) {
+        this.emitFault('reject', `Bill channel ${byte} has no credit mapping`);
+        return;
+      }
+      this.emitCredit(credits, `bill:ch${byte}`);
+      return;
+    }
+
+    switch (byte) {
+      case SIO_EVENTS.STACKER_FULL_OR_JAMMED:
+        this.emitFault('jam', 'Bill validator stacker full or jammed');
+        break;
+      case SIO_EVENTS.NOTE_TAKEN_TO_CLEAR_JAM:
+        this.emitFault('jam', 'Note may have been taken to clear a jam');
+        break;
+      case SIO_EVENTS.STRIMMING_ATTEMPTED:
+        this.emitFault('tamper', 'Strimming attempted on bill validator');
+        break;
+      case SIO_EVENTS.FRAUD_CHANNEL_REJECT:
+        this.emitFault('tamper', 'Fraud channel note rejected');
+        break;
+      case SIO_EVENTS.NOTE_NOT_RECOGNISED:
+        this.emitFault('reject', 'Note not recognised');
+        break;
+      case SIO_EVENTS.RUNNING_SLOW:
+        this.emitFault('error', 'Bill validator mechanism running slow');
+        break;
+      case SIO_EVENTS.ABORT_DURING_ESCROW:
+      case SIO_EVENTS.VALIDATOR_BUSY:
+        break;
+      default:
+        console.warn(`[CreditInput] Unknown bill validator byte: ${byte}`);
+    }
+  }
+
+  // ==================== Event Emitters ====================
+
+  emitCredit(credits, detail) {
+    this.state.lastEventAt = new Date().toISOString();
+    this.state.creditsThisSession += credits;
+    console.log(`[CreditInput] 💰 +${credits} credits (${detail})`);
+    this.emit('credit', {
+      credits,
+      kioskId: this.config.kioskId,
+      source: `credit-input:${this.config.driver}`,
+      detail
+    });
+    this.emitStatus();
+  }
+
+  emitFault(kind, message) {
+    this.state.lastEventAt = new Date().toISOString();
+    this.state.faultCount++;
+    console.warn(`[CreditInput] ⚠️ ${kind}: ${message}`);
+    this.emit('fault', { kind, message });
+    this.emitStatus();
+  }
+
+  setStatus(status, error = null) {
+    this.state.status = status;
+    this.state.lastError = error;
+    if (error) {
+      console.error(`[CreditInput] ❌ ${error}`);
+    }
+    this.emitStatus();
+  }
+
+  emitStatus() {
+    this.emit('status', this.getStatus());
+  }
+}
+
+module.exports = CreditInputManager;
+module.exports.DEFAULT_CREDIT_INPUT_CONFIG = DEFAULT_CREDIT_INPUT_CONFIG;
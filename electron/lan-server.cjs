@@ -0,0 +1,450 @@
+/**
+ * LanServer - Local HTTP + WebSocket endpoint for kiosks and web admin on the venue LAN
+ *
+ * Speaks the same shapes the web clients use with Supabase (SupabasePlayerState,
+ * SupabaseCommand, local_videos rows), so they can fall back to it when the cloud
+ * project is unreachable. Off until the operator turns it on.
+ *
+ * Every route except /api/status needs the token of a device paired with this player
+ * (Authorization: Bearer <token>, or ?token= on the WebSocket). Commands run with the
+ * device's role (kiosk or staff) - the server sets issuer_role, never the client.
+ * Browsers may only call it from the origins in config.allowedOrigins.
+ *
+ * - GET  /api/status                                     { ok, playerId, clients }
+ * - GET  /api/player-state?player_id=                    SupabasePlayerState as last published by the player
+ * - GET  /api/local-videos?player_id=&q=&playlist=&limit=&offset=
+ *                                                        SupabaseLocalVideo[] (search when q is set, browse otherwise)
+ * - POST /api/commands { command, wait }                 { success, error?, commandId }
+ * - WS   /ws?player_id=                                  { type: 'player_state', state } | { type: 'local_videos_changed' }
+ *
+ * Events:
+ * - 'command' (command) - main.cjs forwards it to the renderer, which runs it through the
+ *                         SupabaseService handlers and answers with resolveCommand()
+ * - 'status'  (getStatus() snapshot)
+ *
+ * LAN search leaves out the tracks the player's moderation blocks (setBlocked), from the
+ * last decisions it read from Supabase. Kiosk credits are not served: balances and the
+ * ledger stay in Supabase, so a paid request only goes through while the player itself
+ * can still reach the cloud to charge it.
+ */
+
+const crypto = require('crypto');
+const http = require('http');
+const os = require('os');
+const { EventEmitter } = require('events');
+const { URL } = require('url');
+const { WebSocketServer } = require('ws');
+
+const DEFAULT_LAN_SERVER_CONFIG = {
+  enabled: false,
+  port: 3457,
+  allowedOrigins: [] // Web kiosk/admin origins allowed to call it from a browser
+};
+
+const COMMAND_TIMEOUT_MS = 10000;
+const MAX_BODY_BYTES = 1024 * 1024;
+const MIN_QUERY_LENGTH = 2;
+const DEFAULT_RESULT_LIMIT = 50;
+
+class LanServer extends EventEmitter {
+  constructor(config = {}) {
+    super();
+    this.config = { ...DEFAULT_LAN_SERVER_CONFIG, ...config };
+    this.server = null;
+    this.wss = null;
+    this.playerId = null;
+    this.playerState = null;
+    this.library = [];
+    this.blocked = new Set(); // File paths moderation blocks
+    this.devices = new Map(); // token hash -> { id, name, role }
+    this.pendingCommands = new Map(); // commandId -> { resolve, timer }
+    this.state = {
+      status: 'stopped', // 'stopped' | 'listening' | 'error'
+      lastError: null,
+      commandsHandled: 0
+    };
+  }
+
+  getStatus() {
+    return {
+      ...this.state,
+      enabled: this.config.enabled,
+      port: this.config.port,
+      clients: this.wss ? this.wss.clients.size : 0,
+      urls: this.getLanUrls()
+    };
+  }
+
+  /**
+   * http://<address>:<port> for every non-internal IPv4 interface
+   */
+  getLanUrls() {
+    const urls = [];
+    for (const addresses of Object.values(os.networkInterfaces())) {
+      for (const address of addresses || []) {
+        if (address.family === 'IPv4' && !address.internal) {
+          urls.push(`http://${address.address}:${this.config.port}`);
+        }
+      }
+    }
+    return urls;
+  }
+
+  async configure(config) {
+    await this.stop();
+    this.config = { ...DEFAULT_LAN_SERVER_CONFIG, ...config };
+    await this.start();
+  }
+
+  async start() {
+    if (!this.config.enabled) {
+      this.setStatus('stopped');
+      return;
+    }
+    if (this.server) return;
+
+    const server = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        console.error('[LanServer] Request failed:', error);
+        this.sendJson(res, 500, { error: error.message });
+      });
+    });
+    const wss = new WebSocketServer({ noServer: true });
+
+    server.on('upgrade', (req, socket, head) => {
+      const url = new URL(req.url, 'http://localhost');
+      if (url.pathname !== '/ws' || !this.authenticate(req, url) || !this.isThisPlayer(url.searchParams.get('player_id'))) {
+        socket.destroy();
+        return;
+      }
+      wss.handleUpgrade(req, socket, head, (ws) => wss.emit('connection', ws));
+    });
+
+    wss.on('connection', (ws) => {
+      if (this.playerState) {
+        ws.send(JSON.stringify({ type: 'player_state', state: this.playerState }));
+      }
+      ws.on('close', () => this.emitStatus());
+      this.emitStatus();
+    });
+
+    await new Promise((resolve) => {
+      server.once('error', (error) => {
+        console.error('[LanServer] Failed to start:', error.message);
+        this.setStatus('error', error.code === 'EADDRINUSE' ? `Port ${this.config.port} is already in use` : error.message);
+        resolve();
+      });
+      server.listen(this.config.port, '0.0.0.0', () => {
+        this.server = server;
+        this.wss = wss;
+        console.log(`[LanServer] Listening on port ${this.config.port}`);
+        this.setStatus('listening');
+        resolve();
+      });
+    });
+  }
+
+  async stop() {
+    for (const [commandId, pending] of this.pendingCommands) {
+      clearTimeout(pending.timer);
+      pending.resolve({ success: false, error: 'LAN server stopped', commandId });
+    }
+    this.pendingCommands.clear();
+
+    if (this.wss) {
+      this.wss.clients.forEach(ws => ws.terminate());
+      this.wss.close();
+      this.wss = null;
+    }
+    if (this.server) {
+      const server = this.server;
+      this.server = null;
+      await new Promise(resolve => server.close(() => resolve()));
+    }
+    this.setStatus('stopped');
+  }
+
+  // ==================== Published State ====================
+
+  /**
+   * Latest player_state row as the renderer would write it to Supabase
+   */
+  setPlayerState(state) {
+    if (!state) return;
+    this.playerId = state.player_id || this.playerId;
+    this.playerState = state;
+    this.broadcast({ type: 'player_state', state });
+  }
+
+  /**
+   * Rebuild the searchable library from a playlists scan ({ [playlistName]: Video[] })
+   */
+  setLibrary(playlists) {
+    const seen = new Set();
+    const createdAt = new Date().toISOString();
+    this.library = [];
+    for (const [playlistName, videos] of Object.entries(playlists || {})) {
+      for (const video of videos) {
+        const filePath = video.path || video.src;
+        if (!filePath || seen.has(filePath)) continue;
+        seen.add(filePath);
+        this.library.push({
+          id: filePath,
+          title: video.title,
+          artist: video.artist || null,
+          path: filePath,
+          filename: video.filename || null,
+          duration: video.duration || null,
+          is_available: true,
+          metadata: {
+            sourceType: 'local',
+            playlist: video.playlist || playlistName,
+            playlistDisplayName: video.playlistDisplayName || playlistName,
+            filename: video.filename
+          },
+          created_at: createdAt
+        });
+      }
+    }
+    this.broadcast({ type: 'local_videos_changed' });
+  }
+
+  /**
+   * @param {string[]} keys - File paths moderation currently blocks (sent by the renderer)
+   */
+  setBlocked(keys) {
+    this.blocked = new Set(keys || []);
+    this.broadcast({ type: 'local_videos_changed' });
+  }
+
+  /**
+   * Devices paired with this player (saved by main.cjs, tokens only as SHA-256 hashes)
+   * @param {Array<{ id: string, name: string, role: 'kiosk' | 'staff', tokenHash: string }>} devices
+   */
+  setDevices(devices) {
+    this.devices = new Map((devices || []).map(device => [
+      device.tokenHash,
+      { id: device.id, name: device.name, role: device.role }
+    ]));
+  }
+
+  /**
+   * Result of a command the renderer executed for a LAN client
+   */
+  resolveCommand(commandId, result) {
+    const pending = this.pendingCommands.get(commandId);
+    this.state.commandsHandled++;
+    this.emitStatus();
+    if (!pending) return;
+    clearTimeout(pending.timer);
+    this.pendingCommands.delete(commandId);
+    pending.resolve({ ...result, commandId });
+  }
+
+  // ==================== HTTP ====================
+
+  async handleRequest(req, res) {
+    const origin = req.headers.origin;
+    if (origin && (this.config.allowedOrigins || []).includes(origin)) {
+      res.setHeader('Access-Control-Allow-Origin', origin);
+      res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+      res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+      res.setHeader('Vary', 'Origin');
+    }
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    const url = new URL(req.url, 'http://localhost');
+    const playerId = url.searchParams.get('player_id');
+
+    if (req.method === 'GET' && url.pathname === '/api/status') {
+      this.sendJson(res, 200, { ok: true, playerId: this.playerId, clients: this.wss ? this.wss.clients.size : 0 });
+      return;
+    }
+
+    const device = this.authenticate(req, url);
+    if (!device) {
+      this.sendJson(res, 401, { success: false, error: 'Not authorized: pair this device with the player first' });
+      return;
+    }
+
+    if (req.method === 'GET' && url.pathname === '/api/player-state') {
+      if (!this.isThisPlayer(playerId) || !this.playerState) {
+        this.sendJson(res, 404, { error: 'Unknown player' });
+        return;
+      }
+      this.sendJson(res, 200, this.playerState);
+      return;
+    }
+
+    if (req.method === 'GET' && url.pathname === '/api/local-videos') {
+      if (!this.isThisPlayer(playerId)) {
+        this.sendJson(res, 404, { error: 'Unknown player' });
+        return;
+      }
+      const limitParam = url.searchParams.get('limit');
+      const limit = limitParam ? Math.max(0, Number(limitParam)) || null : DEFAULT_RESULT_LIMIT;
+      const offset = Math.max(0, Number(url.searchParams.get('offset')) || 0);
+      const videos = this.queryLibrary(url.searchParams.get('q'), url.searchParams.get('playlist'));
+      const page = limit === null ? videos.slice(offset) : videos.slice(offset, offset + limit);
+      this.sendJson(res, 200, page.map(video => ({ ...video, player_id: this.playerId })));
+      return;
+    }
+
+    if (req.method === 'POST' && url.pathname === '/api/commands') {
+      const body = await this.readJsonBody(req);
+      const result = await this.handleCommand(body.command, body.wait !== false, device);
+      this.sendJson(res, result.success ? 200 : 422, result);
+      return;
+    }
+
+    this.sendJson(res, 404, { error: 'Not found' });
+  }
+
+  /**
+   * @param {object} device - The paired device that sent it; its role replaces whatever the client claimed
+   */
+  handleCommand(command, wait, device) {
+    if (!command || !command.id || !command.command_type) {
+      return Promise.resolve({ success: false, error: 'Invalid command' });
+    }
+    if (!this.isThisPlayer(command.player_id)) {
+      return Promise.resolve({ success: false, error: `Command for different player: ${command.player_id}`, commandId: command.id });
+    }
+    if (this.listenerCount('command') === 0) {
+      return Promise.resolve({ success: false, error: 'Player is not ready', commandId: command.id });
+    }
+
+    const result = wait
+      ? new Promise((resolve) => {
+          const timer = setTimeout(() => {
+            this.pendingCommands.delete(command.id);
+            resolve({ success: false, error: 'Timeout waiting for command execution', commandId: command.id });
+          }, COMMAND_TIMEOUT_MS);
+          this.pendingCommands.set(command.id, { resolve, timer });
+        })
+      : Promise.resolve({ success: true, commandId: command.id });
+
+    this.emit('command', { ...command, issuer_role: device.role, issuer_id: device.id });
+    return result;
+  }
+
+  /**
+   * Search (any word in title or artist, best matches first) or browse the library
+   */
+  queryLibrary(query, playlist) {
+    let videos = this.library.filter(video =>
+      !this.blocked.has(video.path) && (!playlist || video.metadata.playlist === playlist)
+    );
+
+    const trimmed = (query || '').trim().toLowerCase();
+    if (!trimmed) {
+      return [...videos].sort((a, b) => a.title.localeCompare(b.title));
+    }
+    if (trimmed.length < MIN_QUERY_LENGTH) {
+      return [];
+    }
+
+    const words = trimmed.split(/\s+/).filter(word => word.length >= MIN_QUERY_LENGTH);
+    const scored = [];
+    for (const video of videos) {
+      const title = (video.title || '').toLowerCase();
+      const artist = (video.artist || '').toLowerCase();
+      let score = 0;
+      if (title === trimmed || artist === trimmed) score += 100;
+      else if (title.startsWith(trimmed) || artist.startsWith(trimmed)) score += 50;
+      for (const word of words) {
+        if (title.includes(word)) score += 10;
+        if (artist.includes(word)) score += 5;
+      }
+      if (score > 0) scored.push({ video, score });
+    }
+    videos = scored
+      .sort((a, b) => b.score - a.score || a.video.title.localeCompare(b.video.title))
+      .map(entry => entry.video);
+    return videos;
+  }
+
+  readJsonBody(req) {
+    return new Promise((resolve, reject) => {
+      let size = 0;
+      const chunks = [];
+      req.on('data', (chunk) => {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+          reject(new Error('Request body too large'));
+          req.destroy();
+          return;
+        }
+        chunks.push(chunk);
+      });
+      req.on('end', () => {
+        try {
+          resolve(chunks.length > 0 ? JSON.parse(Buffer.concat(chunks).toString('utf8')) : {});
+        } catch (error) {
+          reject(new Error('Invalid JSON body'));
+        }
+      });
+      req.on('error', reject);
+    });
+  }
+
+  sendJson(res, statusCode, body) {
+    if (res.headersSent) return;
+    res.writeHead(statusCode, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+
+  // ==================== Helpers ====================
+
+  /**
+   * The paired device behind the request's token, or null
+   */
+  authenticate(req, url) {
+    const header = req.headers.authorization || '';
+    const token = header.startsWith('Bearer ') ? header.slice(7).trim() : url.searchParams.get('token');
+    if (!token) return null;
+    return this.devices.get(hashDeviceToken(token)) || null;
+  }
+
+  /**
+   * Only requests naming this player, once the player has published its ID
+   */
+  isThisPlayer(playerId) {
+    return !!playerId && !!this.playerId && playerId === this.playerId;
+  }
+
+  broadcast(message) {
+    if (!this.wss) return;
+    const data = JSON.stringify(message);
+    this.wss.clients.forEach((ws) => {
+      if (ws.readyState === ws.OPEN) {
+        ws.send(data);
+      }
+    });
+  }
+
+  setStatus(status, lastError = null) {
+    this.state.status = status;
+    this.state.lastError = lastError;
+    this.emitStatus();
+  }
+
+  emitStatus() {
+    this.emit('status', this.getStatus());
+  }
+}
+
+/**
+ * Hex SHA-256 of a device token - the only form the player keeps
+ */
+function hashDeviceToken(token) {
+  return crypto.createHash('sha256').update(token, 'utf8').digest('hex');
+}
+
+module.exports = LanServer;
+module.exports.DEFAULT_LAN_SERVER_CONFIG = DEFAULT_LAN_SERVER_CONFIG;
+module.exports.hashDeviceToken = hashDeviceToken;
@@ -0,0 +1,187 @@
+/**
+ * Library roots - Which folders get-playlists scans and how their folders become playlists
+ *
+ * The library is one or more root folders, each with a label and an enable toggle.
+ * The first root (id 'primary') is always the playlists directory, so the existing
+ * folder pickers keep working. Every root has its own folder rules:
+ * - maxDepth:        folder levels below the root that are scanned (1 = only the root's
+ *                    immediate subfolders - the original one-folder-per-playlist layout)
+ * - playlistDepth:   the folder level that names the playlist (1 = top-level folder);
+ *                    files above that level use their own folder
+ * - playlistNaming:  'folder' - just the folder at playlistDepth ("Album")
+ *                    'path'   - every folder from level 1 down to it ("Artist / Album")
+ * Files directly inside a root belong to no playlist and are skipped, as before.
+ *
+ * ignorePatterns apply to every root and skip matching file and folder names (`*` and `?`
+ * wildcards, case-insensitive). A pattern containing "/" matches the path relative to the root.
+ * The same playlist name found under two roots is one playlist.
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+const VIDEO_FILE_PATTERN = /\.(mp4|m4v|webm|mkv|avi|mov)$/i;
+const PRIMARY_ROOT_ID = 'primary';
+const MAX_SCAN_DEPTH = 8;
+const PLAYLIST_NAMINGS = ['folder', 'path'];
+
+function fileHash(stats) {
+  return `${stats.size}-${Math.floor(stats.mtimeMs)}`;
+}
+
+function clampDepth(value, max, fallback) {
+  const depth = Math.round(Number(value));
+  return Number.isFinite(depth) ? Math.min(Math.max(depth, 1), max) : fallback;
+}
+
+function normalizeRoot(root, index) {
+  const maxDepth = clampDepth(root.maxDepth, MAX_SCAN_DEPTH, 1);
+  return {
+    id: typeof root.id === 'string' && root.id ? root.id : `root-${index}`,
+    path: typeof root.path === 'string' ? root.path : '',
+    label: typeof root.label === 'string' && root.label.trim() ? root.label.trim() : path.basename(root.path || '') || `Library ${index + 1}`,
+    enabled: root.enabled !== false,
+    maxDepth,
+    playlistDepth: clampDepth(root.playlistDepth, maxDepth, 1),
+    playlistNaming: PLAYLIST_NAMINGS.includes(root.playlistNaming) ? root.playlistNaming : 'folder'
+  };
+}
+
+/**
+ * Saved library config with defaults filled in and the primary root pointed at the playlists directory
+ * @param {object} [config] - store 'library' ({ roots, ignorePatterns })
+ * @param {string} playlistsDirectory
+ */
+function normalizeLibraryConfig(config, playlistsDirectory) {
+  const saved = Array.isArray(config?.roots) ? config.roots.filter(root => root && typeof root === 'object') : [];
+  const primary = saved.find(root => root.id === PRIMARY_ROOT_ID) || { id: PRIMARY_ROOT_ID, label: 'Playlists' };
+  const others = saved.filter(root => root.id !== PRIMARY_ROOT_ID && typeof root.path === 'string' && root.path);
+
+  const roots = [{ ...primary, path: playlistsDirectory }, ...others].map(normalizeRoot);
+  const seenIds = new Set();
+  for (const [index, root] of roots.entries()) {
+    if (seenIds.has(root.id)) root.id = `root-${index}`;
+    seenIds.add(root.id);
+  }
+
+  const ignorePatterns = Array.isArray(config?.ignorePatterns)
+    ? config.ignorePatterns.map(pattern => String(pattern).trim()).filter(Boolean)
+    : [];
+  return { roots, ignorePatterns };
+}
+
+function globToRegExp(pattern) {
+  const source = pattern
+    .split('')
+    .map(char => char === '*' ? '[^/]*' : char === '?' ? '[^/]' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&'))
+    .join('');
+  return new RegExp(`^${source}$`, 'i');
+}
+
+/**
+ * @param {string[]} patterns
+ * @returns {(name: string, relativePath: string) => boolean} - relativePath uses "/" separators
+ */
+function compileIgnorePatterns(patterns) {
+  const matchers = patterns.map(pattern => ({
+    onPath: pattern.includes('/'),
+    regex: globToRegExp(pattern.replace(/^\/+|\/+$/g, ''))
+  }));
+  return (name, relativePath) => matchers.some(({ onPath, regex }) => regex.test(onPath ? relativePath : name));
+}
+
+function stripPlaylistId(folderName) {
+  return folderName.replace(/^PL[A-Za-z0-9_-]+[._]/, '');
+}
+
+/**
+ * Playlist for a file (or empty folder) under a root
+ * @param {string[]} folders - Folders between the root and the file, outermost first (at least one)
+ * @param {object} root - Normalized root
+ */
+function derivePlaylistName(folders, root) {
+  const level = Math.min(root.playlistDepth, folders.length);
+  const named = root.playlistNaming === 'path' ? folders.slice(0, level) : [folders[level - 1]];
+  return {
+    playlist: named.join(' / '),
+    playlistDisplayName: named.map(stripPlaylistId).join(' / ')
+  };
+}
+
+/**
+ * Every video under the enabled roots, plus playlist names (empty playlist folders included)
+ * and every scanned folder (for platforms that must watch folder by folder)
+ * @returns {{ playlists: string[], folders: string[], files: { playlist: string, playlistDisplayName: string, root: string, topFolder: string, file: string, filePath: string, stats: fs.Stats, fileHash: string }[] }}
+ */
+function scanLibrary(config) {
+  const isIgnored = compileIgnorePatterns(config.ignorePatterns);
+  const playlists = new Set();
+  const folders = [];
+  const files = [];
+
+  const walk = (root, dir, relativeFolders) => {
+    let entries;
+    try {
+      entries = fs.readdirSync(dir, { withFileTypes: true });
+    } catch (error) {
+      console.warn(`[LibraryRoots] Could not read ${dir}:`, error.message);
+      return;
+    }
+    folders.push(dir);
+    for (const entry of entries) {
+      const relativePath = [...relativeFolders, entry.name].join('/');
+      if (isIgnored(entry.name, relativePath)) continue;
+      const entryPath = path.join(dir, entry.name);
+
+      if (entry.isDirectory()) {
+        if (relativeFolders.length >= root.maxDepth) continue;
+        const subFolders = [...relativeFolders, entry.name];
+        if (subFolders.length === root.playlistDepth) {
+          playlists.add(derivePlaylistName(subFolders, root).playlist);
+        }
+        walk(root, entryPath, subFolders);
+      } else if (relativeFolders.length > 0 && VIDEO_FILE_PATTERN.test(entry.name)) {
+        try {
+          const stats = fs.statSync(entryPath);
+          const { playlist, playlistDisplayName } = derivePlaylistName(relativeFolders, root);
+          playlists.add(playlist);
+          files.push({
+            playlist,
+            playlistDisplayName,
+            root: root.label,
+            topFolder: relativeFolders[0],
+            file: entry.name,
+            filePath: entryPath,
+            stats,
+            fileHash: fileHash(stats)
+          });
+        } catch (error) {
+          // Deleted between readdir and stat - the next rescan settles it
+        }
+      }
+    }
+  };
+
+  for (const root of config.roots) {
+    if (!root.enabled || !root.path) continue;
+    if (!fs.existsSync(root.path)) {
+      console.warn(`[LibraryRoots] Library root "${root.label}" does not exist: ${root.path}`);
+      continue;
+    }
+    walk(root, root.path, []);
+  }
+
+  return { playlists: [...playlists], folders, files };
+}
+
+module.exports = {
+  VIDEO_FILE_PATTERN,
+  PRIMARY_ROOT_ID,
+  MAX_SCAN_DEPTH,
+  PLAYLIST_NAMINGS,
+  fileHash,
+  normalizeLibraryConfig,
+  compileIgnorePatterns,
+  derivePlaylistName,
+  scanLibrary
+};
@@ -0,0 +1,215 @@
+/**
+ * LibraryWatcher - Keeps the library scan current between get-playlists calls
+ *
+ * Scans the library roots once (see library-roots.cjs), then watches every enabled
+ * root. Filesystem events are debounced into a rescan whose result is diffed against
+ * the previous scan by file path and fileHash (size + mtime):
+ * - added / removed:  path only in the new / old scan
+ * - modified:         same path, different hash (or playlist, after a folder rule change)
+ * - renamed:          a removed and an added file with the same hash (rename or move
+ *                     between playlists - both keep size and mtime)
+ *
+ * get-playlists builds the library from the current scan instead of rereading every
+ * folder. Restarting with a different config (roots or folder rules changed) diffs
+ * against the old scan too. Platforms without recursive fs.watch (Linux before Node 20)
+ * fall back to watching every scanned folder.
+ *
+ * Events:
+ * - 'changes' ({ added, removed, modified, renamed, detectedAt }) - only when something changed
+ */
+
+const fs = require('fs');
+const { EventEmitter } = require('events');
+const { scanLibrary } = require('./library-roots.cjs');
+
+const RESCAN_DELAY_MS = 1500; // Copies arrive as bursts of events; wait for them to settle
+
+function toChange({ playlist, file, filePath, fileHash }) {
+  return { playlist, file, filePath, fileHash };
+}
+
+/**
+ * Differences between the files of two scans (see the header for how each kind is detected)
+ */
+function diffScans(previous, next) {
+  const previousByPath = new Map(previous.map(entry => [entry.filePath, entry]));
+  const nextByPath = new Map(next.map(entry => [entry.filePath, entry]));
+
+  const added = next.filter(entry => !previousByPath.has(entry.filePath));
+  const removed = previous.filter(entry => !nextByPath.has(entry.filePath));
+  const modified = next.filter(entry => {
+    const before = previousByPath.get(entry.filePath);
+    return before && (before.fileHash !== entry.fileHash || before.playlist !== entry.playlist);
+  });
+
+  const renamed = [];
+  for (const gone of [...removed]) {
+    const matchIndex = added.findIndex(entry => entry.fileHash === gone.fileHash);
+    if (matchIndex === -1) continue;
+    const [arrived] = added.splice(matchIndex, 1);
+    removed.splice(removed.indexOf(gone), 1);
+    renamed.push({ from: toChange(gone), to: toChange(arrived) });
+  }
+
+  return {
+    added: added.map(toChange),
+    removed: removed.map(toChange),
+    modified: modified.map(toChange),
+    renamed
+  };
+}
+
+function hasChanges(diff) {
+  return diff.added.length + diff.removed.length + diff.modified.length + diff.renamed.length > 0;
+}
+
+class LibraryWatcher extends EventEmitter {
+  /**
+   * @param {Function} [scan] - Scanner for a library config (scanLibrary)
+   */
+  constructor(scan = scanLibrary) {
+    super();
+    this.scan = scan;
+    this.config = null;
+    this.configKey = null;
+    this.current = { playlists: [], folders: [], files: [] };
+    this.watchers = [];
+    this.recursive = true;
+    this.rescanTimer = null;
+  }
+
+  /**
+   * Scan the library and start watching its roots (replaces any previous config).
+   * If the roots can't be watched the scan is still used and isWatching() stays false,
+   * so the next get-playlists scans again.
+   * @param {object} config - Normalized library config ({ roots, ignorePatterns })
+   */
+  start(config) {
+    const previous = this.config ? this.current.files : null;
+    this.stop();
+    this.config = config;
+    this.configKey = JSON.stringify(config);
+    this.current = this.scan(config);
+    try {
+      this.watch();
+    } catch (error) {
+      console.warn('[LibraryWatcher] Could not watch library roots:', error.message);
+      this.closeWatchers();
+    }
+    if (previous) {
+      this.emitChanges(diffScans(previous, this.current.files));
+    }
+  }
+
+  watch() {
+    const onEvent = () => this.scheduleRescan();
+    const roots = this.config.roots.filter(root => root.enabled && root.path && fs.existsSync(root.path));
+    try {
+      for (const root of roots) {
+        this.addWatcher(root.path, { recursive: true }, onEvent);
+      }
+      this.recursive = true;
+    } catch (error) {
+      if (error.code !== 'ERR_FEATURE_UNAVAILABLE_ON_PLATFORM') throw error;
+      // No recursive watching here - watch every folder the scan went into
+      this.recursive = false;
+      this.closeWatchers();
+      this.watchScannedFolders(onEvent);
+    }
+    console.log(`[LibraryWatcher] Watching ${roots.length} library root(s) (${this.current.files.length} videos${this.recursive ? '' : ', per-folder'})`);
+  }
+
+  watchScannedFolders(onEvent) {
+    const watched = new Set(this.watchers.map(watcher => watcher.folder));
+    for (const folder of this.current.folders) {
+      if (!watched.has(folder)) {
+        this.addWatcher(folder, {}, onEvent);
+      }
+    }
+  }
+
+  addWatcher(folder, options, onEvent) {
+    const watcher = fs.watch(folder, options, onEvent);
+    watcher.folder = folder;
+    watcher.on('error', (error) => {
+      // The folder itself went away - the rescan drops its files
+      console.warn(`[LibraryWatcher] Stopped watching ${folder}:`, error.message);
+      watcher.close();
+      this.watchers = this.watchers.filter(other => other !== watcher);
+      this.scheduleRescan();
+    });
+    this.watchers.push(watcher);
+  }
+
+  isWatching(config) {
+    return this.configKey === JSON.stringify(config) && this.watchers.length > 0;
+  }
+
+  /**
+   * Videos in the current scan (see scanLibrary)
+   */
+  getFiles() {
+    return this.current.files;
+  }
+
+  /**
+   * Playlist names in the current scan, including empty playlist folders
+   */
+  getPlaylistNames() {
+    return this.current.playlists;
+  }
+
+  scheduleRescan() {
+    if (this.rescanTimer) clearTimeout(this.rescanTimer);
+    this.rescanTimer = setTimeout(() => {
+      this.rescanTimer = null;
+      this.rescan();
+    }, RESCAN_DELAY_MS);
+  }
+
+  rescan() {
+    if (!this.config) return;
+    let next;
+    try {
+      next = this.scan(this.config);
+    } catch (error) {
+      console.warn('[LibraryWatcher] Rescan failed:', error.message);
+      return;
+    }
+    const diff = diffScans(this.current.files, next.files);
+    this.current = next;
+    if (!this.recursive) {
+      try {
+        this.watchScannedFolders(() => this.scheduleRescan());
+      } catch (error) {
+        console.warn('[LibraryWatcher] Could not watch new folders:', error.message);
+      }
+    }
+    this.emitChanges(diff);
+  }
+
+  emitChanges(diff) {
+    if (hasChanges(diff)) {
+      console.log(`[LibraryWatcher] Library changed: +${diff.added.length} -${diff.removed.length} ~${diff.modified.length} renamed ${diff.renamed.length}`);
+      this.emit('changes', { ...diff, detectedAt: new Date().toISOString() });
+    }
+  }
+
+  closeWatchers() {
+    for (const watcher of this.watchers) {
+      watcher.close();
+    }
+    this.watchers = [];
+  }
+
+  stop() {
+    if (this.rescanTimer) {
+      clearTimeout(this.rescanTimer);
+      this.rescanTimer = null;
+    }
+    this.closeWatchers();
+  }
+}
+
+module.exports = LibraryWatcher;
+module.exports.diffScans = diffScans;
@@ -2,8 +2,21 @@
 const { app, BrowserWindow, ipcMain, screen, dialog, Menu, shell, protocol } = require('electron');
 const path = require('path');
 const fs = require('fs');
+const crypto = require('crypto');
 const Store = require('electron-store').default || require('electron-store');
 
+// Zones - a copy of this app started with --djamms-zone=<id> plays one extra zone (see zones.cjs).
+// It gets its own userData folder, so its settings, queue snapshot and player ID stay separate.
+// Must run before anything reads userData (logs, store, journals)
+const ZoneManager = require('./zones.cjs');
+const ZONE_ID = ZoneManager.parseZoneArg(process.argv);
+const PRIMARY_USER_DATA = app.getPath('userData');
+if (ZONE_ID) {
+  const zoneUserData = path.join(PRIMARY_USER_DATA, 'zones', ZONE_ID);
+  app.setPath('userData', zoneUserData);
+  app.setAppLogsPath(path.join(zoneUserData, 'logs'));
+}
+
 // ============================================================================
 // FILE-BASED LOGGING FOR CURSOR AGENT ACCESS
 // ============================================================================
@@ -257,12 +270,71 @@ const store = new Store({
   }
 });
 
+// The library (and the zone list) is shared: zones read and write the main instance's settings file.
+// electron-store re-reads the file on every get/set, so nothing shared is kept in memory across
+// changes - each change reads the current value first and writes it back with just that change.
+const SHARED_SETTING_KEYS = ['playlistsDirectory', 'library', 'virtualPlaylists', 'trackGainTrims', 'zones'];
+const sharedStore = ZONE_ID ? new Store({ name: 'djamms-config', cwd: PRIMARY_USER_DATA }) : store;
+
+function storeForSetting(key) {
+  return SHARED_SETTING_KEYS.includes(key) ? sharedStore : store;
+}
+
+// This process's zone (null for the main instance), and the manager that runs the others
+const currentZone = ZONE_ID
+  ? ZoneManager.normalizeZones(sharedStore.get('zones', [])).find(zone => zone.id === ZONE_ID)
+    || { id: ZONE_ID, name: ZONE_ID, playerId: '', enabled: true }
+  : null;
+const zoneManager = ZONE_ID ? null : new ZoneManager(store.get('zones', []));
+
 // QueueManager - Centralized queue state management
 // NOTE: QueueManager is available but not yet fully integrated.
 // Current implementation uses queueState object directly for backward compatibility.
 // Future refactor: Replace queueState with QueueManager instance.
 const QueueManager = require('./queue-manager.cjs');
 
+// Credit input - coin acceptor / bill validator drivers for the kiosk
+const CreditInputManager = require('./credit-input.cjs');
+const creditInput = new CreditInputManager(store.get('creditInput'));
+
+// Sync journal - persists the offline Supabase queues so they survive restarts
+const SyncJournal = require('./sync-journal.cjs');
+const syncJournal = new SyncJournal(path.join(app.getPath('userData'), 'sync-journal.jsonl'));
+// Inserted credits the main window has not confirmed yet - redelivered until it does
+const creditJournal = new SyncJournal(path.join(app.getPath('userData'), 'credit-journal.jsonl'));
+
+// LAN server - local stand-in for Supabase when the venue's internet is down
+const LanServer = require('./lan-server.cjs');
+// Off by default in zones - the main instance already listens on the default port
+const lanServer = new LanServer(store.get('lanServer', ZONE_ID ? { enabled: false } : undefined));
+// Kiosks / admin devices paired with the LAN server: { id, name, role, tokenHash, createdAt }
+lanServer.setDevices(store.get('lanDevices', []));
+
+// Audio analyzer - cue points (leading/trailing silence) and loudness per video
+const AudioAnalyzer = require('./audio-analyzer.cjs');
+const audioAnalyzer = new AudioAnalyzer(path.join(app.getPath('userData'), 'audio-analysis.json'));
+const MusicAnalyzer = require('./music-analyzer.cjs');
+const musicAnalyzer = new MusicAnalyzer(path.join(app.getPath('userData'), 'music-analysis.json'));
+
+// Metadata extractor - embedded title/artist/album tags and stream info per video
+const MetadataExtractor = require('./metadata-extractor.cjs');
+const metadataExtractor = new MetadataExtractor(path.join(app.getPath('userData'), 'video-metadata.json'));
+
+// Library roots - the folders get-playlists scans and their folder-to-playlist rules
+const LibraryRoots = require('./library-roots.cjs');
+
+// Library watcher - incremental rescans of the library roots
+const LibraryWatcher = require('./library-watcher.cjs');
+const libraryWatcher = new LibraryWatcher();
+
+// Virtual playlists - hand-built playlists of library videos, independent of folders
+const VirtualPlaylists = require('./virtual-playlists.cjs');
+const virtualPlaylists = new VirtualPlaylists(sharedStore.get('virtualPlaylists'));
+
+// Auto-DJ - builds the next pass of the active queue once it has gone all the way round
+const AutoDj = require('./auto-dj.cjs');
+const autoDj = new AutoDj(store.get('autoDjLastPlayed'));
+
 // Keep global references to prevent garbage collection
 let mainWindow = null;
 let fullscreenWindow = null;
@@ -275,11 +347,75 @@ let queueState = {
   nowPlaying: null,
   nowPlayingSource: null,
   queueIndex: 0,
-  isPlaying: false
+  isPlaying: false,
+  playId: 0 // Bumped on every play start, so a video that plays twice in a row is two plays
 };
 
+// ==================== Queue Persistence ====================
+// queueState is snapshotted to the store on every mutation (see broadcastQueueState) so a
+// crash or restart comes back to the same queue. The player window reports the playback
+// position every few seconds; it is saved with the snapshot at most every POSITION_SAVE_INTERVAL_MS.
+// playerSettings.queueRestoreMode picks what happens on boot (see queue-snapshot.cjs).
+const { getVideoKey, buildQueueSnapshot, restoreQueueSnapshot } = require('./queue-snapshot.cjs');
+const QUEUE_SNAPSHOT_KEY = 'queueSnapshot';
+const POSITION_SAVE_INTERVAL_MS = 5000;
+let playbackPosition = { videoId: null, position: 0 };
+let lastPositionSaveTime = 0;
+let restoredQueue = { restored: false, mode: 'resume', playbackPosition: 0 };
+
+function persistQueueState() {
+  try {
+    store.set(QUEUE_SNAPSHOT_KEY, buildQueueSnapshot(queueState, playbackPosition));
+  } catch (error) {
+    console.error('[main] Failed to persist queue state:', error);
+  }
+}
+
+function restoreQueueState() {
+  const snapshot = store.get(QUEUE_SNAPSHOT_KEY);
+  const restored = restoreQueueSnapshot(snapshot, store.get('playerSettings')?.queueRestoreMode);
+  restoredQueue = restored.restoredQueue;
+  if (!restored.queueState) return;
+
+  queueState = restored.queueState;
+  playbackPosition = { videoId: getVideoKey(queueState.nowPlaying), position: restoredQueue.playbackPosition };
+  console.log(`[main] Restored queue snapshot from ${snapshot.savedAt} (${restoredQueue.mode}):`, queueState.activeQueue.length, 'active,', queueState.priorityQueue.length, 'priority, now playing', queueState.nowPlaying?.title);
+}
+
+restoreQueueState();
+
+// ==================== Auto-DJ ====================
+// Counts active-queue tracks played since the last wrap; once every track of the pass has
+// played, the strategy in playerSettings.autoDjStrategy replaces the ring with the next pass.
+let autoDjPassPlayed = 0;
+
+function getAutoDjStrategy() {
+  const strategy = store.get('playerSettings')?.autoDjStrategy;
+  return AutoDj.AUTO_DJ_STRATEGIES.includes(strategy) ? strategy : AutoDj.DEFAULT_AUTO_DJ_STRATEGY;
+}
+
+/**
+ * Call after the finished active-queue track has been recycled to the end of the ring
+ */
+function advanceAutoDjPass(justPlayed) {
+  autoDjPassPlayed++;
+  if (autoDjPassPlayed < queueState.activeQueue.length) return;
+  autoDjPassPlayed = 0;
+  const strategy = getAutoDjStrategy();
+  if (strategy === 'loop') return;
+  queueState.activeQueue = autoDj.buildNextPass(strategy, queueState.activeQueue, justPlayed);
+  console.log(`[main] Auto-DJ (${strategy}) built the next pass:`, queueState.activeQueue.length, 'tracks');
+}
+
+// A new play of the now-playing video (the caller broadcasts the state)
+function beginPlay(video) {
+  queueState.playId = (queueState.playId || 0) + 1;
+  autoDj.recordPlay(video);
+}
+
 // Helper to broadcast queue state to renderer
 function broadcastQueueState() {
+  persistQueueState();
   // Include currentVideo as alias for nowPlaying for renderer compatibility
   const stateToSend = {
     ...queueState,
@@ -381,6 +517,15 @@ function getAssetPath(...paths) {
   return path.join(process.resourcesPath, 'app', ...paths);
 }
 
+// Zone processes add the zone name to their window titles so their windows can be told apart
+function labelZoneWindow(window) {
+  if (!currentZone) return;
+  window.on('page-title-updated', (event, title) => {
+    event.preventDefault();
+    window.setTitle(`${title} - ${currentZone.name}`);
+  });
+}
+
 function createMainWindow() {
   const { width, height } = store.get('windowBounds');
   
@@ -405,6 +550,7 @@ function createMainWindow() {
     },
     show: false // Don't show until ready
   });
+  labelZoneWindow(mainWindow);
   
   // Show window when ready to prevent flash
   mainWindow.once('ready-to-show', () => {
@@ -556,6 +702,7 @@ function createFullscreenWindow(displayId, fullscreen = true) {
       webSecurity: !isDev // Disable webSecurity in dev mode to allow djamms:// protocol
     }
   });
+  labelZoneWindow(fullscreenWindow);
 
   if (isDev) {
     const fullscreenUrl = `${VITE_DEV_SERVER_URL}/fullscreen.html`;
@@ -615,6 +762,7 @@ function createAdminConsoleWindow() {
       preload: path.join(__dirname, 'preload.cjs')
     }
   });
+  labelZoneWindow(adminConsoleWindow);
 
   if (isDev) {
     adminConsoleWindow.loadURL(`${VITE_DEV_SERVER_URL}#/admin`);
@@ -667,7 +815,7 @@ function createApplicationMenu() {
               title: 'Select Playlists Directory'
             });
             if (!result.canceled && result.filePaths[0]) {
-              store.set('playlistsDirectory', result.filePaths[0]);
+              sharedStore.set('playlistsDirectory', result.filePaths[0]);
               if (mainWindow) {
                 mainWindow.webContents.send('playlists-directory-changed', result.filePaths[0]);
               }
@@ -793,6 +941,7 @@ ipcMain.on('queue-command', async (_event, command) => {
         queueState.activeQueue = [];
         queueState.priorityQueue = [];
         queueState.queueIndex = 0;
+        autoDjPassPlayed = 0;
         // Clear nowPlaying regardless of source (both queues are cleared)
         queueState.nowPlaying = null;
         queueState.nowPlayingSource = null;
@@ -845,6 +994,7 @@ ipcMain.on('queue-command', async (_event, command) => {
           queueState.nowPlaying = queueState.activeQueue[0];
           queueState.nowPlayingSource = 'active';
           queueState.isPlaying = true;
+          beginPlay(queueState.nowPlaying);
           
           console.log('[main] Moved video to index 0 and playing:', video?.title);
           if (fullscreenWindow) {
@@ -946,6 +1096,7 @@ ipcMain.on('queue-command', async (_event, command) => {
               const currentVideo = queueState.activeQueue.shift();
               queueState.activeQueue.push(currentVideo);
               console.log('[main] ♻️ Recycling active queue video (priority videos waiting):', currentVideo?.title);
+              advanceAutoDjPass(currentVideo);
             }
             
             // Step 2: Insert next priority video at index 0 (plays immediately)
@@ -958,6 +1109,7 @@ ipcMain.on('queue-command', async (_event, command) => {
             queueState.nowPlayingSource = 'priority';
             queueState.isPlaying = true;
             console.log('[main] 🎬 Playing priority video (consecutive):', priorityVideo.title);
+            beginPlay(priorityVideo);
             
             if (fullscreenWindow) {
               fullscreenWindow.webContents.send('control-player', { action: 'play', data: priorityVideo });
@@ -976,6 +1128,7 @@ ipcMain.on('queue-command', async (_event, command) => {
               const currentVideo = queueState.activeQueue.shift(); // Remove from index 0
               queueState.activeQueue.push(currentVideo); // Add to end (recycle)
               console.log('[main] ♻️ Recycled active queue video to end:', currentVideo?.title);
+              advanceAutoDjPass(currentVideo);
             }
             
             // Step 3: The new index 0 is now the next video to play
@@ -986,6 +1139,7 @@ ipcMain.on('queue-command', async (_event, command) => {
               queueState.nowPlayingSource = 'active';
               queueState.isPlaying = true;
               console.log('[main] 🎬 Next video (active queue):', nextVideo.title);
+              beginPlay(nextVideo);
               
               if (fullscreenWindow) {
                 fullscreenWindow.webContents.send('control-player', { action: 'play', data: nextVideo });
@@ -1005,6 +1159,7 @@ ipcMain.on('queue-command', async (_event, command) => {
           queueState.nowPlaying = priorityVideo;
           queueState.nowPlayingSource = 'priority';
           queueState.isPlaying = true;
+          beginPlay(priorityVideo);
           
           // Insert into active queue at index 0
           queueState.activeQueue.push(priorityVideo);
@@ -1042,6 +1197,14 @@ ipcMain.handle('get-queue-state', async () => {
     currentVideo: queueState.nowPlaying
   };
 });
+
+// What restoreQueueState() recovered on boot - the renderer resumes playback from this
+ipcMain.handle('get-restored-queue', async () => {
+  return {
+    ...restoredQueue,
+    state: { ...queueState, currentVideo: queueState.nowPlaying }
+  };
+});
 // ==================== IPC Handlers ====================
 
 // File System Operations
@@ -1050,107 +1213,103 @@ ipcMain.handle('select-playlists-directory', async () => {
   const result = await dialog.showOpenDialog(mainWindow, {
     title: 'Select Playlists Folder',
     properties: ['openDirectory'],
-    defaultPath: store.get('playlistsDirectory')
+    defaultPath: sharedStore.get('playlistsDirectory')
   });
   
   if (!result.canceled && result.filePaths.length > 0) {
     const newPath = result.filePaths[0];
-    store.set('playlistsDirectory', newPath);
+    sharedStore.set('playlistsDirectory', newPath);
     // Notify renderer of the change
     if (mainWindow) {
       mainWindow.webContents.send('playlists-directory-changed', newPath);
     }
     return { success: true, path: newPath };
   }
-  return { success: false, path: store.get('playlistsDirectory') };
+  return { success: false, path: sharedStore.get('playlistsDirectory') };
 });
 
 // Get current playlists directory path
 ipcMain.handle('get-playlists-directory', async () => {
-  return store.get('playlistsDirectory');
+  return sharedStore.get('playlistsDirectory');
 });
 
 // Set playlists directory path
 ipcMain.handle('set-playlists-directory', async (event, newPath) => {
   if (newPath && typeof newPath === 'string') {
-    store.set('playlistsDirectory', newPath);
+    sharedStore.set('playlistsDirectory', newPath);
     if (mainWindow) {
       mainWindow.webContents.send('playlists-directory-changed', newPath);
     }
     return { success: true, path: newPath };
   }
-  return { success: false, path: store.get('playlistsDirectory') };
+  return { success: false, path: sharedStore.get('playlistsDirectory') };
 });
 
+function getLibraryConfig() {
+  return LibraryRoots.normalizeLibraryConfig(sharedStore.get('library'), sharedStore.get('playlistsDirectory'));
+}
+
+// The watcher keeps the last scan current, so only the first call (or a changed config) reads every folder
+function getLibraryScan() {
+  const libraryConfig = getLibraryConfig();
+  if (!libraryWatcher.isWatching(libraryConfig)) {
+    libraryWatcher.start(libraryConfig);
+  }
+  return libraryWatcher;
+}
+
 ipcMain.handle('get-playlists', async () => {
-  const playlistsDir = store.get('playlistsDirectory');
+  const playlistsDir = sharedStore.get('playlistsDirectory');
   const playlists = {};
+  const gainTrims = sharedStore.get('trackGainTrims', {});
+  const libraryFiles = [];
 
   try {
-    if (!fs.existsSync(playlistsDir)) {
-      console.log('Playlists directory does not exist:', playlistsDir);
-      return { playlists: {}, playlistsDirectory: playlistsDir };
-    }
+    const libraryScan = getLibraryScan();
 
-    const entries = fs.readdirSync(playlistsDir, { withFileTypes: true });
-    
-    for (const entry of entries) {
-      if (entry.isDirectory()) {
-        const playlistPath = path.join(playlistsDir, entry.name);
-        const files = fs.readdirSync(playlistPath)
-          .filter(file => /\.(mp4|webm|mkv|avi|mov)$/i.test(file))
-          .map((file, index) => {
-            const filePath = path.join(playlistPath, file);
-            const stats = fs.statSync(filePath);
-            
-            // Parse filename format: "[Artist] - [Title] -- [YouTube_ID].mp4"
-            const nameWithoutExt = file.replace(/\.[^/.]+$/i, '');
-            
-            // Extract YouTube ID (after " -- ")
-            const doubleHyphenIndex = nameWithoutExt.lastIndexOf(' -- ');
-            let artist = null;
-            let title = nameWithoutExt;
-            let youtubeId = null;
-            
-            if (doubleHyphenIndex !== -1) {
-              youtubeId = nameWithoutExt.substring(doubleHyphenIndex + 4).trim();
-              const artistAndTitle = nameWithoutExt.substring(0, doubleHyphenIndex);
-              
-              // Extract Artist and Title (separated by " - ")
-              const singleHyphenIndex = artistAndTitle.indexOf(' - ');
-              if (singleHyphenIndex !== -1) {
-                artist = artistAndTitle.substring(0, singleHyphenIndex).trim();
-                title = artistAndTitle.substring(singleHyphenIndex + 3).trim();
-              } else {
-                title = artistAndTitle.trim();
-              }
-            } else {
-              // No YouTube ID, try to parse as "Artist - Title"
-              const singleHyphenIndex = nameWithoutExt.indexOf(' - ');
-              if (singleHyphenIndex !== -1) {
-                artist = nameWithoutExt.substring(0, singleHyphenIndex).trim();
-                title = nameWithoutExt.substring(singleHyphenIndex + 3).trim();
-              }
-            }
-
-            return {
-              id: `${entry.name}-${index}`,
-              title,
-              artist: artist || entry.name,
-              filename: file,
-              path: filePath,
-              src: `file://${filePath}`,
-              size: stats.size,
-              playlist: entry.name,
-              playlistDisplayName: entry.name.replace(/^PL[A-Za-z0-9_-]+[._]/, '')
-            };
-          })
-          .sort((a, b) => a.title.localeCompare(b.title));
-        
-        playlists[entry.name] = files;
-      }
+    for (const playlist of libraryScan.getPlaylistNames()) {
+      playlists[playlist] = [];
+    }
+    const indexInPlaylist = {};
+    for (const { playlist, playlistDisplayName, root, topFolder, file, filePath, stats, fileHash } of libraryScan.getFiles()) {
+      const index = indexInPlaylist[playlist] = (indexInPlaylist[playlist] ?? -1) + 1;
+      libraryFiles.push(filePath);
+
+      // Container tags where the file has them, "[Artist] - [Title] -- [YouTube_ID].mp4" otherwise
+      const { youtubeId, ...metadata } = MetadataExtractor.resolveVideoMetadata(
+        file,
+        topFolder,
+        metadataExtractor.getCached(filePath, stats)
+      );
+
+      playlists[playlist].push({
+        id: `${playlist}-${index}`,
+        ...metadata,
+        filename: file,
+        path: filePath,
+        src: `file://${filePath}`,
+        size: stats.size,
+        fileHash,
+        playlist,
+        playlistDisplayName,
+        libraryRoot: root,
+        // Cue points, loudness and duration from an earlier analysis (absent until the video has been played once)
+        ...(audioAnalyzer.getCached(filePath, stats) || {}),
+        // BPM and key from the library analysis job (absent until it has covered this file)
+        ...(musicAnalyzer.getCached(filePath, stats) || {}),
+        gainTrimDb: gainTrims[filePath] || 0
+      });
+    }
+    for (const videos of Object.values(playlists)) {
+      videos.sort((a, b) => a.title.localeCompare(b.title));
     }
 
+    lanServer.setLibrary(playlists);
+    autoDj.setLibrary(playlists);
+    // Read tags for new/changed files in the background - 'video-metadata-updated' lists the files that got them
+    metadataExtractor.extractLibrary(libraryFiles).catch((error) => {
+      console.error('[main] Metadata extraction failed:', error);
+    });
     return { playlists, playlistsDirectory: playlistsDir };
   } catch (error) {
     console.error('Error reading playlists:', error);
@@ -1158,13 +1317,44 @@ ipcMain.handle('get-playlists', async () => {
   }
 });
 
+ipcMain.handle('library-config-get', async () => {
+  return getLibraryConfig();
+});
+
+// Rescans straight away - the watcher's diff against the old roots arrives as 'library-changes'
+ipcMain.handle('library-config-set', async (event, config) => {
+  try {
+    const libraryConfig = LibraryRoots.normalizeLibraryConfig(config, sharedStore.get('playlistsDirectory'));
+    sharedStore.set('library', libraryConfig);
+    libraryWatcher.start(libraryConfig);
+    return { success: true, config: libraryConfig };
+  } catch (error) {
+    console.error('[main] Failed to save library roots:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+// Pick a folder for an extra library root (not saved until library-config-set)
+ipcMain.handle('select-library-root', async () => {
+  const result = await dialog.showOpenDialog(mainWindow, {
+    title: 'Add Library Folder',
+    properties: ['openDirectory']
+  });
+  if (!result.canceled && result.filePaths.length > 0) {
+    return { success: true, path: result.filePaths[0] };
+  }
+  return { success: false };
+});
+
 ipcMain.handle('get-video-metadata', async (event, filePath) => {
   try {
     const stats = fs.statSync(filePath);
+    const embedded = await metadataExtractor.extract(filePath);
     return {
       size: stats.size,
       created: stats.birthtime,
-      modified: stats.mtime
+      modified: stats.mtime,
+      ...MetadataExtractor.resolveVideoMetadata(path.basename(filePath), path.basename(path.dirname(filePath)), embedded)
     };
   } catch (error) {
     console.error('Error getting video metadata:', error);
@@ -1452,16 +1642,23 @@ ipcMain.on('renderer-log', (event, { level, args }) => {
 
 // Settings/Store Operations
 ipcMain.handle('get-setting', async (event, key) => {
-  return store.get(key);
+  return storeForSetting(key).get(key);
 });
 
 ipcMain.handle('set-setting', async (event, key, value) => {
-  store.set(key, value);
+  storeForSetting(key).set(key, value);
   return { success: true };
 });
 
 ipcMain.handle('get-all-settings', async () => {
-  return store.store;
+  if (!ZONE_ID) return store.store;
+  const shared = Object.fromEntries(SHARED_SETTING_KEYS.map(key => [key, sharedStore.get(key)]));
+  return { ...store.store, ...shared };
+});
+
+// App version, reported to the fleet dashboard
+ipcMain.handle('get-app-version', async () => {
+  return app.getVersion();
 });
 
 // Window Operations
@@ -1477,7 +1674,7 @@ ipcMain.handle('select-directory', async () => {
   });
   
   if (!result.canceled && result.filePaths[0]) {
-    store.set('playlistsDirectory', result.filePaths[0]);
+    sharedStore.set('playlistsDirectory', result.filePaths[0]);
     return { success: true, path: result.filePaths[0] };
   }
   return { success: false };
@@ -1485,6 +1682,15 @@ ipcMain.handle('select-directory', async () => {
 
 // Playback State Sync (between windows)
 ipcMain.on('playback-state-update', (event, state) => {
+  // Track the player window's position for the queue snapshot
+  if (fullscreenWindow && event.sender === fullscreenWindow.webContents && state && typeof state.currentTime === 'number') {
+    playbackPosition = { videoId: getVideoKey(state.currentVideo) || getVideoKey(queueState.nowPlaying), position: state.currentTime };
+    const now = Date.now();
+    if (now - lastPositionSaveTime >= POSITION_SAVE_INTERVAL_MS) {
+      lastPositionSaveTime = now;
+      persistQueueState();
+    }
+  }
   // Forward to fullscreen window if it exists
   if (fullscreenWindow && event.sender !== fullscreenWindow.webContents) {
     fullscreenWindow.webContents.send('playback-state-sync', state);
@@ -1519,6 +1725,347 @@ ipcMain.handle('clear-recent-searches', async () => {
   return [];
 });
 
+// ==================== Credit Input (Coin Acceptor / Bill Validator) ====================
+
+const CREDIT_RETRY_INTERVAL_MS = 30 * 1000;
+const CREDIT_ACK_TIMEOUT_MS = 60 * 1000; // Redeliver a credit the main window has not confirmed by then
+const creditDeliveredAt = new Map(); // credit id -> last delivery time
+let creditRetryTimer = null;
+
+// Forward credit input events to the main window, which owns the Supabase connection
+function sendCreditInputEvent(event) {
+  if (mainWindow && !mainWindow.isDestroyed()) {
+    mainWindow.webContents.send('credit-input-event', event);
+    return true;
+  }
+  return false;
+}
+
+// Credits are journaled before they are forwarded, and stay journaled until the main window
+// confirms the deposit - a failed deposit or a reloading window doesn't lose inserted money.
+// The deposit is keyed on the credit's id, so a redelivered credit is only counted once.
+function deliverCredit(entry) {
+  if (sendCreditInputEvent({ type: 'credit', id: entry.id, ...entry.payload, timestamp: new Date(entry.timestamp).toISOString() })) {
+    creditDeliveredAt.set(entry.id, Date.now());
+  }
+}
+
+function retryPendingCredits() {
+  for (const entry of creditJournal.snapshot().entries) {
+    const deliveredAt = creditDeliveredAt.get(entry.id);
+    if (!deliveredAt || Date.now() - deliveredAt >= CREDIT_ACK_TIMEOUT_MS) {
+      deliverCredit(entry);
+    }
+  }
+}
+
+creditInput.on('credit', (credit) => {
+  const entry = { id: crypto.randomUUID(), kind: 'credit', playerId: '', payload: credit, timestamp: Date.now() };
+  try {
+    creditJournal.append(entry);
+  } catch (error) {
+    console.error('[main] Failed to journal inserted credits:', error);
+  }
+  deliverCredit(entry);
+});
+creditInput.on('fault', (fault) => sendCreditInputEvent({ type: 'fault', ...fault, timestamp: new Date().toISOString() }));
+creditInput.on('status', (status) => sendCreditInputEvent({ type: 'status', status, timestamp: new Date().toISOString() }));
+
+ipcMain.handle('credit-input-get-status', async () => {
+  return { status: creditInput.getStatus(), config: creditInput.config };
+});
+
+ipcMain.handle('credit-input-list-ports', async () => {
+  try {
+    return await CreditInputManager.listPorts();
+  } catch (error) {
+    console.error('[main] Failed to list serial ports:', error);
+    return [];
+  }
+});
+
+ipcMain.handle('credit-input-configure', async (event, config) => {
+  try {
+    store.set('creditInput', config);
+    await creditInput.configure(config);
+    return { success: true, status: creditInput.getStatus() };
+  } catch (error) {
+    console.error('[main] Failed to configure credit input:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('credit-input-simulate', async (event, simulated) => {
+  return creditInput.simulate(simulated);
+});
+
+ipcMain.handle('credit-input-ack', async (event, id) => {
+  creditDeliveredAt.delete(id);
+  try {
+    creditJournal.remove([id]);
+    return { success: true, pending: creditJournal.pendingCount };
+  } catch (error) {
+    console.error('[main] Failed to remove confirmed credits from the journal:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+// ==================== Sync Journal (Offline Queue) ====================
+
+ipcMain.handle('sync-journal-load', async () => {
+  return syncJournal.snapshot();
+});
+
+ipcMain.handle('sync-journal-append', async (event, entry) => {
+  try {
+    syncJournal.append(entry);
+    return { success: true, pending: syncJournal.pendingCount };
+  } catch (error) {
+    console.error('[main] Failed to append to sync journal:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('sync-journal-remove', async (event, ids) => {
+  try {
+    syncJournal.remove(ids);
+    return { success: true, pending: syncJournal.pendingCount };
+  } catch (error) {
+    console.error('[main] Failed to remove sync journal entries:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('sync-journal-mark-processed', async (event, ids) => {
+  try {
+    syncJournal.markProcessed(ids);
+    return { success: true };
+  } catch (error) {
+    console.error('[main] Failed to record processed commands:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+// ==================== LAN Server ====================
+
+// Commands from LAN clients run in the main window, which owns the command handlers
+lanServer.on('command', (command) => {
+  if (!mainWindow || mainWindow.isDestroyed()) {
+    lanServer.resolveCommand(command.id, { success: false, error: 'Player is not ready' });
+    return;
+  }
+  mainWindow.webContents.send('lan-command', command);
+});
+
+lanServer.on('status', (status) => {
+  if (mainWindow && !mainWindow.isDestroyed()) {
+    mainWindow.webContents.send('lan-server-status', status);
+  }
+});
+
+ipcMain.on('lan-command-result', (event, { commandId, success, error }) => {
+  lanServer.resolveCommand(commandId, { success, error });
+});
+
+// ==================== Zones ====================
+
+if (zoneManager) {
+  zoneManager.on('status', (zones) => {
+    if (mainWindow && !mainWindow.isDestroyed()) {
+      mainWindow.webContents.send('zones-status', zones);
+    }
+  });
+}
+
+ipcMain.handle('zones-get', async () => {
+  return { current: currentZone, zones: zoneManager ? zoneManager.list() : [] };
+});
+
+ipcMain.handle('zones-save', async (event, zones) => {
+  if (!zoneManager) {
+    return { success: false, error: 'Zones are managed from the main player' };
+  }
+  try {
+    store.set('zones', zoneManager.configure(zones));
+    return { success: true, zones: zoneManager.list() };
+  } catch (error) {
+    console.error('[main] Failed to save zones:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.on('lan-publish-player-state', (event, state) => {
+  lanServer.setPlayerState(state);
+});
+
+// File paths the renderer's moderation blocks right now - Auto-DJ picks and LAN search skip them
+ipcMain.on('moderation-blocklist', (event, keys) => {
+  const blocked = Array.isArray(keys) ? keys.filter(key => typeof key === 'string') : [];
+  autoDj.setBlocked(blocked);
+  lanServer.setBlocked(blocked);
+});
+
+// Paired devices without their token hashes - the renderer never needs them
+function listLanDevices() {
+  return store.get('lanDevices', []).map(({ tokenHash, ...device }) => device);
+}
+
+ipcMain.handle('lan-server-get-status', async () => {
+  return { status: lanServer.getStatus(), config: lanServer.config, devices: listLanDevices() };
+});
+
+// The token is returned once, to be entered on the device; only its hash is kept
+ipcMain.handle('lan-server-pair-device', async (event, { name, role }) => {
+  if (!name || typeof name !== 'string' || !['kiosk', 'staff'].includes(role)) {
+    return { success: false, error: 'A device name and a kiosk or staff role are required' };
+  }
+  const token = crypto.randomBytes(24).toString('base64url');
+  const device = { id: crypto.randomUUID(), name: name.trim(), role, tokenHash: LanServer.hashDeviceToken(token), createdAt: new Date().toISOString() };
+  const devices = [...store.get('lanDevices', []), device];
+  store.set('lanDevices', devices);
+  lanServer.setDevices(devices);
+  return { success: true, token, devices: listLanDevices() };
+});
+
+ipcMain.handle('lan-server-revoke-device', async (event, deviceId) => {
+  const devices = store.get('lanDevices', []).filter(device => device.id !== deviceId);
+  store.set('lanDevices', devices);
+  lanServer.setDevices(devices);
+  return { success: true, devices: listLanDevices() };
+});
+
+ipcMain.handle('lan-server-configure', async (event, config) => {
+  try {
+    store.set('lanServer', config);
+    await lanServer.configure(config);
+    const status = lanServer.getStatus();
+    return status.status === 'error'
+      ? { success: false, status, error: status.lastError }
+      : { success: true, status };
+  } catch (error) {
+    console.error('[main] Failed to configure LAN server:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+// ==================== Audio Analysis ====================
+
+// Analyzed lazily: the player asks when a video starts or is preloaded as next
+ipcMain.handle('get-audio-analysis', async (event, filePath) => {
+  if (!filePath || !fs.existsSync(filePath)) {
+    return null;
+  }
+  const analysis = await audioAnalyzer.analyze(filePath);
+  if (!analysis) {
+    return null;
+  }
+  return { ...analysis, gainTrimDb: sharedStore.get('trackGainTrims', {})[filePath] || 0 };
+});
+
+// Manual per-track gain trim (dB) on top of loudness normalization
+ipcMain.handle('set-track-gain-trim', async (event, filePath, gainTrimDb) => {
+  try {
+    const trims = { ...sharedStore.get('trackGainTrims', {}) };
+    if (gainTrimDb) {
+      trims[filePath] = gainTrimDb;
+    } else {
+      delete trims[filePath];
+    }
+    sharedStore.set('trackGainTrims', trims);
+    return { success: true };
+  } catch (error) {
+    console.error('[main] Failed to save track gain trim:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+// ==================== Virtual Playlists ====================
+
+virtualPlaylists.on('changed', (playlists) => {
+  sharedStore.set('virtualPlaylists', playlists);
+  for (const window of [mainWindow, adminConsoleWindow]) {
+    if (window && !window.isDestroyed()) {
+      window.webContents.send('virtual-playlists-changed', playlists);
+    }
+  }
+});
+
+// Zones edit the same list - start from what is saved now, not from this process's copy
+function reloadVirtualPlaylists() {
+  virtualPlaylists.reload(sharedStore.get('virtualPlaylists'));
+}
+
+ipcMain.handle('virtual-playlists-get', async () => {
+  reloadVirtualPlaylists();
+  return virtualPlaylists.list();
+});
+
+ipcMain.handle('virtual-playlists-save', async (event, playlist) => {
+  try {
+    reloadVirtualPlaylists();
+    return { success: true, playlist: virtualPlaylists.save(playlist) };
+  } catch (error) {
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('virtual-playlists-delete', async (event, id) => {
+  reloadVirtualPlaylists();
+  return virtualPlaylists.remove(id)
+    ? { success: true }
+    : { success: false, error: 'Playlist not found' };
+});
+
+// ==================== Library Changes ====================
+// Diffs from the library watcher; the renderer syncs just those rows to local_videos
+
+libraryWatcher.on('changes', (changes) => {
+  for (const window of [mainWindow, adminConsoleWindow]) {
+    if (window && !window.isDestroyed()) {
+      window.webContents.send('library-changes', changes);
+    }
+  }
+});
+
+// ==================== Video Metadata ====================
+
+metadataExtractor.on('updated', (result) => {
+  if (mainWindow && !mainWindow.isDestroyed()) {
+    mainWindow.webContents.send('video-metadata-updated', result);
+  }
+});
+
+// ==================== Tempo & Key Analysis ====================
+
+musicAnalyzer.on('progress', (status) => {
+  if (mainWindow && !mainWindow.isDestroyed()) {
+    mainWindow.webContents.send('music-analysis-progress', status);
+  }
+});
+
+ipcMain.handle('music-analysis-get-status', async () => {
+  return musicAnalyzer.getStatus();
+});
+
+// Runs in the background; progress (and completion) arrives as 'music-analysis-progress'
+ipcMain.handle('music-analysis-start', async () => {
+  try {
+    const filePaths = getLibraryScan().getFiles().map(entry => entry.filePath);
+    musicAnalyzer.analyzeLibrary(filePaths).catch((error) => {
+      console.error('[main] Tempo & key analysis failed:', error);
+    });
+    return { success: true, status: musicAnalyzer.getStatus() };
+  } catch (error) {
+    console.error('[main] Failed to start tempo & key analysis:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('music-analysis-cancel', async () => {
+  musicAnalyzer.cancel();
+  return { success: true };
+});
+
 // ==================== App Lifecycle ====================
 
 app.whenReady().then(() => {
@@ -1527,6 +2074,21 @@ app.whenReady().then(() => {
   console.log('[Electron] ✅ App is ready, creating main window...');
   createMainWindow();
 
+  // Start coin acceptor / bill validator if configured
+  creditInput.start().catch((error) => {
+    console.error('[main] Failed to start credit input:', error);
+  });
+  creditRetryTimer = setInterval(retryPendingCredits, CREDIT_RETRY_INTERVAL_MS);
+
+  lanServer.start().catch((error) => {
+    console.error('[main] Failed to start LAN server:', error);
+  });
+
+  // Start the other zones' players
+  if (zoneManager) {
+    zoneManager.start();
+  }
+
   app.on('activate', () => {
     if (BrowserWindow.getAllWindows().length === 0) {
       console.log('[Electron] App activated, creating main window...');
@@ -1547,6 +2109,16 @@ app.on('window-all-closed', () => {
 
 app.on('before-quit', () => {
   // Clean up any resources
+  creditInput.stop().catch(() => {});
+  if (creditRetryTimer) clearInterval(creditRetryTimer);
+  lanServer.stop().catch(() => {});
+  if (zoneManager) zoneManager.stop();
+  audioAnalyzer.save();
+  musicAnalyzer.cancel();
+  musicAnalyzer.save();
+  metadataExtractor.save();
+  libraryWatcher.stop();
+  store.set('autoDjLastPlayed', autoDj.lastPlayed);
 });
 
 // Handle certificate errors in development
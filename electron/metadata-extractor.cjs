@@ -0,0 +1,370 @@
+/**
+ * MetadataExtractor - Embedded container metadata per video file
+ *
+ * Runs ffmpeg over a file without decoding anything and reads the header it prints:
+ * - tags:      title, artist (or album_artist), album, year (from date/year), genre
+ * - format:    duration (seconds), overall bitrate (kb/s)
+ * - video:     resolution ("1920x1080"), codec, fps - from the first real video stream
+ *              (cover art in mp4/mkv shows up as an "attached pic" stream and is skipped)
+ *
+ * The "Artist - Title -- YouTubeID" filename parse stays as the fallback for anything
+ * the container doesn't carry; metadataSources records where each field came from.
+ *
+ * Results are cached in a JSON file keyed by file path and checked against the
+ * file's size + mtime, like AudioAnalyzer. get-playlists uses whatever is cached and
+ * starts a background job for the rest; files that can't be read are remembered too,
+ * so they aren't retried until they change.
+ *
+ * Events:
+ * - 'updated' ({ extracted, failed, filePaths }) - a job finished and read new metadata for filePaths
+ */
+
+const fs = require('fs');
+const path = require('path');
+const { EventEmitter } = require('events');
+const ffmpeg = require('fluent-ffmpeg');
+
+// ffmpeg-static resolves inside app.asar when packaged; the binary is unpacked next to it
+try {
+  const ffmpegPath = require('ffmpeg-static');
+  if (ffmpegPath) {
+    ffmpeg.setFfmpegPath(ffmpegPath.replace('app.asar', 'app.asar.unpacked'));
+  }
+} catch (error) {
+  console.warn('[MetadataExtractor] ffmpeg-static not available, using ffmpeg from PATH');
+}
+
+const EXTRACT_TIMEOUT_MS = 30000;
+const SAVE_DELAY_MS = 2000;
+
+/**
+ * Artist/title from the "[Artist] - [Title] -- [YouTube_ID].mp4" naming convention
+ * (mirrors parseVideoFilename in src/utils/playlistHelpers.ts)
+ */
+function parseFilename(filename) {
+  const nameWithoutExt = filename.replace(/\.[^/.]+$/i, '');
+
+  // Extract YouTube ID (after " -- ")
+  const doubleHyphenIndex = nameWithoutExt.lastIndexOf(' -- ');
+  let artist = null;
+  let title = nameWithoutExt;
+  let youtubeId = null;
+
+  if (doubleHyphenIndex !== -1) {
+    youtubeId = nameWithoutExt.substring(doubleHyphenIndex + 4).trim();
+    const artistAndTitle = nameWithoutExt.substring(0, doubleHyphenIndex);
+
+    // Extract Artist and Title (separated by " - ")
+    const singleHyphenIndex = artistAndTitle.indexOf(' - ');
+    if (singleHyphenIndex !== -1) {
+      artist = artistAndTitle.substring(0, singleHyphenIndex).trim();
+      title = artistAndTitle.substring(singleHyphenIndex + 3).trim();
+    } else {
+      title = artistAndTitle.trim();
+    }
+  } else {
+    // No YouTube ID, try to parse as "Artist - Title"
+    const singleHyphenIndex = nameWithoutExt.indexOf(' - ');
+    if (singleHyphenIndex !== -1) {
+      artist = nameWithoutExt.substring(0, singleHyphenIndex).trim();
+      title = nameWithoutExt.substring(singleHyphenIndex + 3).trim();
+    }
+  }
+
+  return { artist, title, youtubeId };
+}
+
+/**
+ * Parse the input header ffmpeg prints to stderr. Tags are only taken from the container's
+ * own Metadata block (before the Duration line), not from per-stream blocks; keys are
+ * case-insensitive because mkv/webm tags are usually upper case.
+ */
+function parseProbeOutput(lines) {
+  const tags = {};
+  let inInput = false;
+  let inFormatMetadata = false;
+  let pastContainerTags = false;
+  let duration = null;
+  let bitrate = null;
+  let resolution = null;
+  let codec = null;
+  let fps = null;
+
+  for (const line of lines) {
+    if (/^\s*Input #0/.test(line)) {
+      inInput = true;
+      continue;
+    }
+    if (!inInput) continue;
+    if (/^\s*Output #/.test(line)) break;
+
+    const durationMatch = line.match(/Duration:\s*(?:(\d+):(\d+):(\d+(?:\.\d+)?)|N\/A)(?:.*?bitrate:\s*(\d+)\s*kb\/s)?/);
+    if (durationMatch) {
+      inFormatMetadata = false;
+      pastContainerTags = true;
+      if (durationMatch[1] !== undefined && duration === null) {
+        duration = Number(durationMatch[1]) * 3600 + Number(durationMatch[2]) * 60 + Number(durationMatch[3]);
+      }
+      if (durationMatch[4] !== undefined) {
+        bitrate = Number(durationMatch[4]);
+      }
+      continue;
+    }
+
+    if (/^\s*Metadata:\s*$/.test(line)) {
+      // Only the container block comes before the Duration line
+      inFormatMetadata = !pastContainerTags;
+      continue;
+    }
+
+    const videoMatch = line.match(/Stream #\d+:\d+.*?:\s*Video:\s*([A-Za-z0-9_]+)/);
+    if (videoMatch) {
+      inFormatMetadata = false;
+      pastContainerTags = true;
+      if (codec === null && !/attached pic/.test(line)) {
+        codec = videoMatch[1];
+        const sizeMatch = line.match(/\b(\d{2,5})x(\d{2,5})\b/);
+        resolution = sizeMatch ? `${sizeMatch[1]}x${sizeMatch[2]}` : null;
+        const fpsMatch = line.match(/(\d+(?:\.\d+)?)\s*fps/);
+        fps = fpsMatch ? Number(fpsMatch[1]) : null;
+      }
+      continue;
+    }
+    if (/Stream #/.test(line)) {
+      inFormatMetadata = false;
+      pastContainerTags = true;
+      continue;
+    }
+
+    if (inFormatMetadata) {
+      const tagMatch = line.match(/^\s*([A-Za-z0-9_-]+)\s*:\s(.*)$/);
+      if (tagMatch) {
+        const key = tagMatch[1].toLowerCase();
+        if (!(key in tags)) {
+          tags[key] = tagMatch[2].trim();
+        }
+      }
+    }
+  }
+
+  const yearMatch = (tags.date || tags.year || '').match(/\d{4}/);
+  return {
+    title: tags.title || null,
+    artist: tags.artist || tags.album_artist || null,
+    album: tags.album || null,
+    year: yearMatch ? Number(yearMatch[0]) : null,
+    genre: tags.genre || null,
+    duration: duration === null ? null : Math.round(duration * 100) / 100,
+    resolution,
+    codec,
+    bitrate,
+    fps
+  };
+}
+
+/**
+ * Combine container metadata with the filename parse. Title/artist fall back to the
+ * filename (and artist finally to the playlist folder); the rest only comes from the container.
+ * metadataSources has an entry for every field that ended up with a value.
+ */
+function resolveVideoMetadata(filename, folderName, embedded) {
+  const parsed = parseFilename(filename);
+  const metadata = {};
+  const metadataSources = {};
+
+  const title = embedded?.title || parsed.title;
+  metadata.title = title;
+  metadataSources.title = embedded?.title ? 'container' : 'filename';
+
+  if (embedded?.artist) {
+    metadata.artist = embedded.artist;
+    metadataSources.artist = 'container';
+  } else if (parsed.artist) {
+    metadata.artist = parsed.artist;
+    metadataSources.artist = 'filename';
+  } else {
+    metadata.artist = folderName;
+    metadataSources.artist = 'folder';
+  }
+
+  for (const field of ['album', 'year', 'genre', 'duration', 'resolution', 'codec', 'bitrate', 'fps']) {
+    const value = embedded?.[field];
+    if (value !== null && value !== undefined) {
+      metadata[field] = value;
+      metadataSources[field] = 'container';
+    }
+  }
+
+  return { ...metadata, youtubeId: parsed.youtubeId, metadataSources };
+}
+
+class MetadataExtractor extends EventEmitter {
+  /**
+   * @param {string} cachePath - Cache file, e.g. <userData>/video-metadata.json
+   */
+  constructor(cachePath) {
+    super();
+    this.cachePath = cachePath;
+    this.cache = {}; // filePath -> { fileHash, metadata | null, extractedAt }
+    this.job = null;
+    this.saveTimer = null;
+    this.load();
+  }
+
+  load() {
+    try {
+      this.cache = JSON.parse(fs.readFileSync(this.cachePath, 'utf8')) || {};
+    } catch (error) {
+      if (error.code !== 'ENOENT') {
+        console.warn('[MetadataExtractor] Ignoring unreadable metadata cache:', error.message);
+      }
+      this.cache = {};
+    }
+  }
+
+  scheduleSave() {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.save();
+    }, SAVE_DELAY_MS);
+  }
+
+  save() {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    try {
+      const tmpPath = `${this.cachePath}.tmp`;
+      fs.mkdirSync(path.dirname(this.cachePath), { recursive: true });
+      fs.writeFileSync(tmpPath, JSON.stringify(this.cache), 'utf8');
+      fs.renameSync(tmpPath, this.cachePath);
+    } catch (error) {
+      console.error('[MetadataExtractor] Failed to save metadata cache:', error.message);
+    }
+  }
+
+  static fileHash(stats) {
+    return `${stats.size}-${Math.floor(stats.mtimeMs)}`;
+  }
+
+  /**
+   * Whether the file has been read (successfully or not) since it last changed
+   */
+  isCurrent(filePath, stats) {
+    const entry = this.cache[filePath];
+    if (!entry) return false;
+    try {
+      return entry.fileHash === MetadataExtractor.fileHash(stats || fs.statSync(filePath));
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Cached container metadata for a file, or null if there is none for its current version
+   * @param {fs.Stats} [stats] - Pass when already known to skip the stat call
+   */
+  getCached(filePath, stats) {
+    return this.isCurrent(filePath, stats) ? this.cache[filePath].metadata : null;
+  }
+
+  /**
+   * Container metadata for one file, reading it first if needed (null when unreadable)
+   */
+  async extract(filePath) {
+    if (this.isCurrent(filePath)) {
+      return this.cache[filePath].metadata;
+    }
+    try {
+      return await this.runExtraction(filePath);
+    } catch (error) {
+      console.warn(`[MetadataExtractor] Could not read metadata from ${path.basename(filePath)}:`, error.message);
+      return null;
+    }
+  }
+
+  /**
+   * Read every file that isn't cached yet, one at a time, in the background. A job that
+   * is already running is returned instead of starting a second one; the next
+   * get-playlists picks up anything it didn't cover.
+   */
+  extractLibrary(filePaths) {
+    if (this.job) {
+      return this.job;
+    }
+    const pending = filePaths.filter(filePath => !this.isCurrent(filePath));
+    if (pending.length === 0) {
+      return Promise.resolve({ extracted: 0, failed: 0, filePaths: [] });
+    }
+
+    this.job = (async () => {
+      const filePaths = [];
+      let failed = 0;
+      for (const filePath of pending) {
+        try {
+          await this.runExtraction(filePath);
+          filePaths.push(filePath);
+        } catch (error) {
+          failed++;
+          console.warn(`[MetadataExtractor] Could not read metadata from ${path.basename(filePath)}:`, error.message);
+        }
+      }
+      this.save();
+      const result = { extracted: filePaths.length, failed, filePaths };
+      console.log(`[MetadataExtractor] Library job finished: ${result.extracted} read, ${failed} failed`);
+      if (result.extracted > 0) {
+        this.emit('updated', result);
+      }
+      return result;
+    })().finally(() => {
+      this.job = null;
+    });
+    return this.job;
+  }
+
+  runExtraction(filePath) {
+    const stats = fs.statSync(filePath);
+    const remember = (metadata) => {
+      this.cache[filePath] = {
+        fileHash: MetadataExtractor.fileHash(stats),
+        metadata,
+        extractedAt: new Date().toISOString()
+      };
+      this.scheduleSave();
+    };
+
+    return new Promise((resolve, reject) => {
+      const lines = [];
+      // -t 0 writes nothing; ffmpeg still prints the full input header
+      const command = ffmpeg(filePath)
+        .outputOptions(['-t', '0'])
+        .format('null')
+        .output(process.platform === 'win32' ? 'NUL' : '/dev/null')
+        .on('stderr', line => lines.push(line))
+        .on('error', error => {
+          clearTimeout(timer);
+          remember(null);
+          reject(error);
+        })
+        .on('end', () => {
+          clearTimeout(timer);
+          const metadata = parseProbeOutput(lines);
+          remember(metadata);
+          resolve(metadata);
+        });
+
+      const timer = setTimeout(() => {
+        command.kill('SIGKILL');
+      }, EXTRACT_TIMEOUT_MS);
+
+      command.run();
+    });
+  }
+}
+
+module.exports = MetadataExtractor;
+module.exports.parseFilename = parseFilename;
+module.exports.parseProbeOutput = parseProbeOutput;
+module.exports.resolveVideoMetadata = resolveVideoMetadata;
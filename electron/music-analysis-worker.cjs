@@ -0,0 +1,24 @@
+/**
+ * Worker thread for MusicAnalyzer - runs the tempo and key estimates (thousands of
+ * FFTs per file) away from the main process, which would otherwise stall IPC and
+ * window events for the length of every analysis
+ *
+ * Messages:
+ * - in:  { id, samples: Float32Array, sampleRate }
+ * - out: { id, analysis: { bpm, musicalKey, camelotKey } } | { id, error }
+ */
+
+const { parentPort } = require('worker_threads');
+const { estimateBpm, estimateKey } = require('./music-analyzer.cjs');
+
+parentPort.on('message', ({ id, samples, sampleRate }) => {
+  try {
+    const analysis = {
+      bpm: estimateBpm(samples, sampleRate),
+      ...(estimateKey(samples, sampleRate) || { musicalKey: null, camelotKey: null })
+    };
+    parentPort.postMessage({ id, analysis });
+  } catch (error) {
+    parentPort.postMessage({ id, error: error.message });
+  }
+});
@@ -0,0 +1,468 @@
+/**
+ * MusicAnalyzer - Offline tempo (BPM) and musical key analysis per video file
+ *
+ * Decodes a video's audio to low-rate mono PCM with ffmpeg and estimates:
+ * - bpm:        autocorrelation of a spectral-flux onset envelope, weighted towards
+ *               ~120 BPM to avoid half/double-time picks, folded into MIN_BPM-MAX_BPM
+ * - musicalKey: chromagram correlated against the Krumhansl-Kessler major/minor
+ *               profiles for all 24 keys, e.g. "A minor"
+ * - camelotKey: the same key on the Camelot wheel, e.g. "8A" - harmonic mixing
+ *               works on its numbers (see src/utils/harmonic.ts)
+ *
+ * Results are cached in a JSON file keyed by file path and checked against the
+ * file's size + mtime, like AudioAnalyzer. The library job analyzes every file that
+ * isn't cached yet, one at a time, and reports progress through 'progress' events.
+ * The estimates run in a worker thread (music-analysis-worker.cjs) that lives for
+ * the length of a job.
+ *
+ * Events:
+ * - 'progress' (getStatus() snapshot)
+ */
+
+const fs = require('fs');
+const path = require('path');
+const { EventEmitter } = require('events');
+const { Worker } = require('worker_threads');
+const ffmpeg = require('fluent-ffmpeg');
+
+// ffmpeg-static resolves inside app.asar when packaged; the binary is unpacked next to it
+try {
+  const ffmpegPath = require('ffmpeg-static');
+  if (ffmpegPath) {
+    ffmpeg.setFfmpegPath(ffmpegPath.replace('app.asar', 'app.asar.unpacked'));
+  }
+} catch (error) {
+  console.warn('[MusicAnalyzer] ffmpeg-static not available, using ffmpeg from PATH');
+}
+
+const SAMPLE_RATE = 11025;
+const MAX_ANALYSIS_SECONDS = 150; // Enough audio for a stable estimate without decoding whole concerts
+const MIN_ANALYSIS_SECONDS = 10;
+
+const MIN_BPM = 70;
+const MAX_BPM = 180;
+const ONSET_FRAME_SIZE = 512;
+const ONSET_HOP_SIZE = 128;
+const CHROMA_FRAME_SIZE = 4096;
+const CHROMA_MIN_HZ = 55;
+const CHROMA_MAX_HZ = 2000;
+
+const ANALYSIS_TIMEOUT_MS = 120000;
+const SAVE_DELAY_MS = 2000;
+
+const NOTE_NAMES = ['C', 'C#', 'D', 'Eb', 'E', 'F', 'F#', 'G', 'Ab', 'A', 'Bb', 'B'];
+
+// Krumhansl-Kessler key profiles, tonic first
+const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
+const MINOR_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.60, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
+
+/**
+ * In-place radix-2 FFT (re/im are Float64Arrays whose length is a power of two)
+ */
+function fft(re, im) {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = -2 * Math.PI / size;
+    const wRe = Math.cos(angle);
+    const wIm = Math.sin(angle);
+    for (let start = 0; start < n; start += size) {
+      let curRe = 1;
+      let curIm = 0;
+      for (let k = 0; k < size / 2; k++) {
+        const a = start + k;
+        const b = a + size / 2;
+        const tRe = re[b] * curRe - im[b] * curIm;
+        const tIm = re[b] * curIm + im[b] * curRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+        const nextRe = curRe * wRe - curIm * wIm;
+        curIm = curRe * wIm + curIm * wRe;
+        curRe = nextRe;
+      }
+    }
+  }
+}
+
+/**
+ * Magnitude spectra (first half of the bins) of Hann-windowed frames
+ */
+function* spectra(samples, frameSize, hopSize) {
+  const window = new Float64Array(frameSize);
+  for (let i = 0; i < frameSize; i++) {
+    window[i] = 0.5 - 0.5 * Math.cos(2 * Math.PI * i / (frameSize - 1));
+  }
+  const re = new Float64Array(frameSize);
+  const im = new Float64Array(frameSize);
+  const magnitudes = new Float64Array(frameSize / 2);
+  for (let start = 0; start + frameSize <= samples.length; start += hopSize) {
+    for (let i = 0; i < frameSize; i++) {
+      re[i] = samples[start + i] * window[i];
+      im[i] = 0;
+    }
+    fft(re, im);
+    for (let k = 0; k < frameSize / 2; k++) {
+      magnitudes[k] = Math.hypot(re[k], im[k]);
+    }
+    yield magnitudes;
+  }
+}
+
+/**
+ * Tempo in BPM (one decimal), or null when there's no clear pulse
+ */
+function estimateBpm(samples, sampleRate = SAMPLE_RATE) {
+  const frameRate = sampleRate / ONSET_HOP_SIZE;
+
+  // Onset envelope: positive change in log spectrum between frames
+  const envelope = [];
+  let previous = null;
+  for (const magnitudes of spectra(samples, ONSET_FRAME_SIZE, ONSET_HOP_SIZE)) {
+    const current = magnitudes.map(m => Math.log1p(m * 100));
+    if (previous) {
+      let flux = 0;
+      for (let k = 0; k < current.length; k++) {
+        flux += Math.max(0, current[k] - previous[k]);
+      }
+      envelope.push(flux);
+    }
+    previous = current;
+  }
+  if (envelope.length < frameRate * MIN_ANALYSIS_SECONDS) return null;
+
+  const mean = envelope.reduce((sum, v) => sum + v, 0) / envelope.length;
+  const centered = envelope.map(v => v - mean);
+
+  // Autocorrelation over beat periods from 40 to 240 BPM
+  const minLag = Math.floor(frameRate * 60 / 240);
+  const maxLag = Math.ceil(frameRate * 60 / 40);
+  const scores = new Float64Array(maxLag + 2);
+  for (let lag = minLag; lag <= maxLag + 1; lag++) {
+    let sum = 0;
+    for (let i = 0; i + lag < centered.length; i++) {
+      sum += centered[i] * centered[i + lag];
+    }
+    scores[lag] = sum / (centered.length - lag);
+  }
+
+  // Prefer periods near 120 BPM (log-Gaussian), so octave errors lose to the musical tempo
+  let bestLag = -1;
+  let bestScore = 0;
+  for (let lag = minLag + 1; lag <= maxLag; lag++) {
+    const bpm = 60 * frameRate / lag;
+    const weight = Math.exp(-0.5 * Math.pow(Math.log2(bpm / 120) / 0.9, 2));
+    const score = scores[lag] * weight;
+    if (score > bestScore && scores[lag] >= scores[lag - 1] && scores[lag] >= scores[lag + 1]) {
+      bestScore = score;
+      bestLag = lag;
+    }
+  }
+  if (bestLag < 0) return null;
+
+  // Parabolic interpolation between neighbouring lags
+  const a = scores[bestLag - 1];
+  const b = scores[bestLag];
+  const c = scores[bestLag + 1];
+  const denominator = a - 2 * b + c;
+  const offset = denominator === 0 ? 0 : 0.5 * (a - c) / denominator;
+
+  let bpm = 60 * frameRate / (bestLag + offset);
+  while (bpm < MIN_BPM) bpm *= 2;
+  while (bpm >= MAX_BPM) bpm /= 2;
+  return Math.round(bpm * 10) / 10;
+}
+
+function correlate(a, b) {
+  const meanA = a.reduce((sum, v) => sum + v, 0) / a.length;
+  const meanB = b.reduce((sum, v) => sum + v, 0) / b.length;
+  let numerator = 0;
+  let sumA = 0;
+  let sumB = 0;
+  for (let i = 0; i < a.length; i++) {
+    numerator += (a[i] - meanA) * (b[i] - meanB);
+    sumA += (a[i] - meanA) ** 2;
+    sumB += (b[i] - meanB) ** 2;
+  }
+  return sumA === 0 || sumB === 0 ? 0 : numerator / Math.sqrt(sumA * sumB);
+}
+
+/**
+ * Camelot wheel code for a key: C major is 8B, A minor (its relative) is 8A,
+ * and each step around the wheel is a fifth
+ */
+function toCamelot(tonic, mode) {
+  const majorTonic = mode === 'minor' ? (tonic + 3) % 12 : tonic;
+  const number = ((majorTonic * 7) % 12 + 7) % 12 + 1;
+  return `${number}${mode === 'minor' ? 'A' : 'B'}`;
+}
+
+/**
+ * Musical key from a 12-bin chroma vector (C first), or null when it has no energy
+ */
+function estimateKeyFromChroma(chroma) {
+  if (!chroma.some(v => v > 0)) return null;
+  let best = null;
+  for (let tonic = 0; tonic < 12; tonic++) {
+    const rotated = chroma.map((_, i) => chroma[(i + tonic) % 12]);
+    for (const [mode, profile] of [['major', MAJOR_PROFILE], ['minor', MINOR_PROFILE]]) {
+      const score = correlate(rotated, profile);
+      if (!best || score > best.score) {
+        best = { tonic, mode, score };
+      }
+    }
+  }
+  return {
+    musicalKey: `${NOTE_NAMES[best.tonic]} ${best.mode}`,
+    camelotKey: toCamelot(best.tonic, best.mode)
+  };
+}
+
+/**
+ * Musical key of decoded audio, or null when it's silent
+ */
+function estimateKey(samples, sampleRate = SAMPLE_RATE) {
+  const chroma = new Array(12).fill(0);
+  const binHz = sampleRate / CHROMA_FRAME_SIZE;
+  const minBin = Math.ceil(CHROMA_MIN_HZ / binHz);
+  const maxBin = Math.min(CHROMA_FRAME_SIZE / 2 - 1, Math.floor(CHROMA_MAX_HZ / binHz));
+  for (const magnitudes of spectra(samples, CHROMA_FRAME_SIZE, CHROMA_FRAME_SIZE)) {
+    for (let k = minBin; k <= maxBin; k++) {
+      const midi = 69 + 12 * Math.log2((k * binHz) / 440);
+      const pitchClass = ((Math.round(midi) % 12) + 12) % 12;
+      chroma[pitchClass] += magnitudes[k];
+    }
+  }
+  return estimateKeyFromChroma(chroma);
+}
+
+class MusicAnalyzer extends EventEmitter {
+  /**
+   * @param {string} cachePath - Cache file, e.g. <userData>/music-analysis.json
+   */
+  constructor(cachePath) {
+    super();
+    this.cachePath = cachePath;
+    this.cache = {}; // filePath -> { fileHash, bpm, musicalKey, camelotKey, analyzedAt }
+    this.saveTimer = null;
+    this.job = null; // { total, done, failed, current, cancelled }
+    this.worker = null;
+    this.workerRequests = new Map(); // id -> { resolve, reject }
+    this.nextWorkerRequestId = 1;
+    this.load();
+  }
+
+  load() {
+    try {
+      this.cache = JSON.parse(fs.readFileSync(this.cachePath, 'utf8')) || {};
+    } catch (error) {
+      if (error.code !== 'ENOENT') {
+        console.warn('[MusicAnalyzer] Ignoring unreadable analysis cache:', error.message);
+      }
+      this.cache = {};
+    }
+  }
+
+  scheduleSave() {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.save();
+    }, SAVE_DELAY_MS);
+  }
+
+  save() {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    try {
+      const tmpPath = `${this.cachePath}.tmp`;
+      fs.mkdirSync(path.dirname(this.cachePath), { recursive: true });
+      fs.writeFileSync(tmpPath, JSON.stringify(this.cache), 'utf8');
+      fs.renameSync(tmpPath, this.cachePath);
+    } catch (error) {
+      console.error('[MusicAnalyzer] Failed to save analysis cache:', error.message);
+    }
+  }
+
+  static fileHash(stats) {
+    return `${stats.size}-${Math.floor(stats.mtimeMs)}`;
+  }
+
+  /**
+   * Cached analysis for a file, or null if it hasn't been analyzed since it last changed
+   * @param {fs.Stats} [stats] - Pass when already known to skip the stat call
+   */
+  getCached(filePath, stats) {
+    const entry = this.cache[filePath];
+    if (!entry) return null;
+    try {
+      const current = stats || fs.statSync(filePath);
+      if (entry.fileHash !== MusicAnalyzer.fileHash(current)) return null;
+    } catch (error) {
+      return null;
+    }
+    const { fileHash, analyzedAt, ...analysis } = entry;
+    return analysis;
+  }
+
+  getStatus() {
+    if (!this.job) {
+      return { running: false, total: 0, done: 0, failed: 0, current: null };
+    }
+    const { total, done, failed, current, cancelled } = this.job;
+    return { running: !cancelled && done < total, total, done, failed, current };
+  }
+
+  /**
+   * Analyze every file that has no up-to-date result. Resolves with the final status;
+   * a job that is already running is returned instead of starting a second one.
+   */
+  analyzeLibrary(filePaths) {
+    if (this.job && this.getStatus().running) {
+      return this.job.promise;
+    }
+    const pending = filePaths.filter(filePath => !this.getCached(filePath));
+    const job = { total: pending.length, done: 0, failed: 0, current: null, cancelled: false };
+    this.job = job;
+    this.emit('progress', this.getStatus());
+
+    job.promise = (async () => {
+      for (const filePath of pending) {
+        if (job.cancelled) break;
+        job.current = path.basename(filePath);
+        this.emit('progress', this.getStatus());
+        try {
+          await this.runAnalysis(filePath);
+        } catch (error) {
+          job.failed++;
+          console.warn(`[MusicAnalyzer] Analysis failed for ${path.basename(filePath)}:`, error.message);
+        }
+        job.done++;
+      }
+      job.current = null;
+      this.stopWorker();
+      this.save();
+      const status = this.getStatus();
+      this.emit('progress', status);
+      console.log(`[MusicAnalyzer] Library job finished: ${job.done - job.failed}/${job.total} analyzed, ${job.failed} failed`);
+      return status;
+    })();
+    return job.promise;
+  }
+
+  cancel() {
+    if (this.job) {
+      this.job.cancelled = true;
+    }
+  }
+
+  // ==================== Worker ====================
+
+  getWorker() {
+    if (this.worker) return this.worker;
+
+    const worker = new Worker(path.join(__dirname, 'music-analysis-worker.cjs'));
+    worker.on('message', ({ id, analysis, error }) => {
+      const request = this.workerRequests.get(id);
+      if (!request) return;
+      this.workerRequests.delete(id);
+      if (error) {
+        request.reject(new Error(error));
+      } else {
+        request.resolve(analysis);
+      }
+    });
+    const fail = (error) => {
+      if (this.worker !== worker) return;
+      this.worker = null;
+      for (const request of this.workerRequests.values()) {
+        request.reject(error);
+      }
+      this.workerRequests.clear();
+    };
+    worker.on('error', fail);
+    worker.on('exit', code => fail(new Error(`Analysis worker exited with code ${code}`)));
+    this.worker = worker;
+    return worker;
+  }
+
+  stopWorker() {
+    if (!this.worker) return;
+    const worker = this.worker;
+    this.worker = null;
+    worker.terminate().catch(() => {});
+  }
+
+  /**
+   * Tempo and key of decoded samples, estimated in the worker (the buffer is transferred)
+   */
+  analyzeSamples(samples) {
+    return new Promise((resolve, reject) => {
+      const id = this.nextWorkerRequestId++;
+      this.workerRequests.set(id, { resolve, reject });
+      this.getWorker().postMessage({ id, samples, sampleRate: SAMPLE_RATE }, [samples.buffer]);
+    });
+  }
+
+  async runAnalysis(filePath) {
+    const stats = fs.statSync(filePath);
+
+    const samples = await new Promise((resolve, reject) => {
+      const chunks = [];
+      const command = ffmpeg(filePath)
+        .noVideo()
+        .audioChannels(1)
+        .audioFrequency(SAMPLE_RATE)
+        .duration(MAX_ANALYSIS_SECONDS)
+        .format('f32le')
+        .on('error', error => {
+          clearTimeout(timer);
+          reject(error);
+        })
+        .on('end', () => {
+          clearTimeout(timer);
+          const buffer = Buffer.concat(chunks);
+          if (buffer.length / 4 < SAMPLE_RATE * MIN_ANALYSIS_SECONDS) {
+            reject(new Error('Not enough audio to analyze'));
+            return;
+          }
+          // Own copy of the samples, so the buffer can be transferred to the worker
+          resolve(new Float32Array(buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + Math.floor(buffer.length / 4) * 4)));
+        });
+
+      const timer = setTimeout(() => {
+        command.kill('SIGKILL');
+        reject(new Error('Analysis timed out'));
+      }, ANALYSIS_TIMEOUT_MS);
+
+      command.pipe().on('data', chunk => chunks.push(chunk));
+    });
+
+    const analysis = await this.analyzeSamples(samples);
+    this.cache[filePath] = {
+      fileHash: MusicAnalyzer.fileHash(stats),
+      ...analysis,
+      analyzedAt: new Date().toISOString()
+    };
+    this.scheduleSave();
+    console.log(`[MusicAnalyzer] ${path.basename(filePath)}: ${analysis.bpm} BPM, ${analysis.musicalKey} (${analysis.camelotKey})`);
+    return analysis;
+  }
+}
+
+module.exports = MusicAnalyzer;
+module.exports.estimateBpm = estimateBpm;
+module.exports.estimateKey = estimateKey;
+module.exports.estimateKeyFromChroma = estimateKeyFromChroma;
+module.exports.toCamelot = toCamelot;
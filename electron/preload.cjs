@@ -9,10 +9,25 @@ contextBridge.exposeInMainWorld('electronAPI', {
   // Playlist/File Operations
   getPlaylists: () => ipcRenderer.invoke('get-playlists'),
   getVideoMetadata: (filePath) => ipcRenderer.invoke('get-video-metadata', filePath),
+  getAudioAnalysis: (filePath) => ipcRenderer.invoke('get-audio-analysis', filePath),
+  setTrackGainTrim: (filePath, gainTrimDb) => ipcRenderer.invoke('set-track-gain-trim', filePath, gainTrimDb),
   selectDirectory: () => ipcRenderer.invoke('select-directory'),
   selectPlaylistsDirectory: () => ipcRenderer.invoke('select-playlists-directory'),
   getPlaylistsDirectory: () => ipcRenderer.invoke('get-playlists-directory'),
   setPlaylistsDirectory: (path) => ipcRenderer.invoke('set-playlists-directory', path),
+  getLibraryConfig: () => ipcRenderer.invoke('library-config-get'),
+  setLibraryConfig: (config) => ipcRenderer.invoke('library-config-set', config),
+  selectLibraryRoot: () => ipcRenderer.invoke('select-library-root'),
+
+  // Virtual playlists (hand-built, independent of folders)
+  getVirtualPlaylists: () => ipcRenderer.invoke('virtual-playlists-get'),
+  saveVirtualPlaylist: (playlist) => ipcRenderer.invoke('virtual-playlists-save', playlist),
+  deleteVirtualPlaylist: (id) => ipcRenderer.invoke('virtual-playlists-delete', id),
+  onVirtualPlaylistsChanged: (callback) => {
+    const subscription = (_event, playlists) => callback(playlists);
+    ipcRenderer.on('virtual-playlists-changed', subscription);
+    return () => ipcRenderer.removeListener('virtual-playlists-changed', subscription);
+  },
   selectImageFile: () => ipcRenderer.invoke('select-image-file'),
 
   // Display Management
@@ -137,13 +152,85 @@ contextBridge.exposeInMainWorld('electronAPI', {
     return () => ipcRenderer.removeListener('queue-state', subscription);
   },
   getQueueState: () => ipcRenderer.invoke('get-queue-state'),
+  getRestoredQueue: () => ipcRenderer.invoke('get-restored-queue'),
 
   // Search
   getRecentSearches: () => ipcRenderer.invoke('get-recent-searches'),
   addRecentSearch: (query) => ipcRenderer.invoke('add-recent-search', query),
   clearRecentSearches: () => ipcRenderer.invoke('clear-recent-searches'),
 
+  // Credit Input (coin acceptor / bill validator)
+  getCreditInputStatus: () => ipcRenderer.invoke('credit-input-get-status'),
+  listCreditInputPorts: () => ipcRenderer.invoke('credit-input-list-ports'),
+  configureCreditInput: (config) => ipcRenderer.invoke('credit-input-configure', config),
+  simulateCreditInput: (event) => ipcRenderer.invoke('credit-input-simulate', event),
+  ackCreditInput: (id) => ipcRenderer.invoke('credit-input-ack', id),
+  onCreditInputEvent: (callback) => {
+    const subscription = (_event, data) => callback(data);
+    ipcRenderer.on('credit-input-event', subscription);
+    return () => ipcRenderer.removeListener('credit-input-event', subscription);
+  },
+
+  // Sync journal (offline Supabase queue persisted by the main process)
+  loadSyncJournal: () => ipcRenderer.invoke('sync-journal-load'),
+  appendSyncJournal: (entry) => ipcRenderer.invoke('sync-journal-append', entry),
+  removeSyncJournalEntries: (ids) => ipcRenderer.invoke('sync-journal-remove', ids),
+  markSyncJournalProcessed: (ids) => ipcRenderer.invoke('sync-journal-mark-processed', ids),
+
+  // LAN server (local fallback for web clients when Supabase is unreachable)
+  getLanServerStatus: () => ipcRenderer.invoke('lan-server-get-status'),
+  configureLanServer: (config) => ipcRenderer.invoke('lan-server-configure', config),
+  pairLanDevice: (name, role) => ipcRenderer.invoke('lan-server-pair-device', { name, role }),
+  revokeLanDevice: (deviceId) => ipcRenderer.invoke('lan-server-revoke-device', deviceId),
+  publishLanPlayerState: (state) => ipcRenderer.send('lan-publish-player-state', state),
+  setModerationBlocklist: (keys) => ipcRenderer.send('moderation-blocklist', keys),
+  sendLanCommandResult: (result) => ipcRenderer.send('lan-command-result', result),
+  onLanCommand: (callback) => {
+    const subscription = (_event, command) => callback(command);
+    ipcRenderer.on('lan-command', subscription);
+    return () => ipcRenderer.removeListener('lan-command', subscription);
+  },
+  onLanServerStatus: (callback) => {
+    const subscription = (_event, status) => callback(status);
+    ipcRenderer.on('lan-server-status', subscription);
+    return () => ipcRenderer.removeListener('lan-server-status', subscription);
+  },
+
+  // Zones (extra players run by the main instance, each with its own queue and display)
+  getZones: () => ipcRenderer.invoke('zones-get'),
+  saveZones: (zones) => ipcRenderer.invoke('zones-save', zones),
+  onZonesStatus: (callback) => {
+    const subscription = (_event, zones) => callback(zones);
+    ipcRenderer.on('zones-status', subscription);
+    return () => ipcRenderer.removeListener('zones-status', subscription);
+  },
+
+  // Tempo & key analysis (library job in the main process)
+  getMusicAnalysisStatus: () => ipcRenderer.invoke('music-analysis-get-status'),
+  startMusicAnalysis: () => ipcRenderer.invoke('music-analysis-start'),
+  cancelMusicAnalysis: () => ipcRenderer.invoke('music-analysis-cancel'),
+  onMusicAnalysisProgress: (callback) => {
+    const subscription = (_event, status) => callback(status);
+    ipcRenderer.on('music-analysis-progress', subscription);
+    return () => ipcRenderer.removeListener('music-analysis-progress', subscription);
+  },
+
+  // Embedded metadata (read in the background after get-playlists finds new files)
+  onVideoMetadataUpdated: (callback) => {
+    const subscription = (_event, result) => callback(result);
+    ipcRenderer.on('video-metadata-updated', subscription);
+    return () => ipcRenderer.removeListener('video-metadata-updated', subscription);
+  },
+
+  // Library watcher (files added/removed/renamed/modified in the playlists directory)
+  onLibraryChanges: (callback) => {
+    const subscription = (_event, changes) => callback(changes);
+    ipcRenderer.on('library-changes', subscription);
+    return () => ipcRenderer.removeListener('library-changes', subscription);
+  },
+
   // Platform info
+  getAppVersion: () => ipcRenderer.invoke('get-app-version'),
   platform: process.platform,
   isElectron: true
 });
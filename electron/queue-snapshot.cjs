@@ -0,0 +1,81 @@
+/**
+ * Queue snapshot - the copy of main.cjs's queueState kept in the store so a crash or
+ * restart comes back to the same queue
+ *
+ * playerSettings.queueRestoreMode picks what happens on boot:
+ * - 'resume':  the saved queues, current track at its last position
+ * - 'restart': the saved queues, current track from 0
+ * - 'fresh':   the snapshot is ignored
+ * A missing or unreadable snapshot, or one with an empty active queue, restores nothing.
+ */
+
+const QUEUE_RESTORE_MODES = ['resume', 'restart', 'fresh'];
+const DEFAULT_QUEUE_RESTORE_MODE = 'resume';
+
+function getVideoKey(video) {
+  return video ? (video.id || video.src) : null;
+}
+
+// Queue entries that survived the store - anything else is dropped
+function readVideos(list) {
+  return Array.isArray(list) ? list.filter(video => video && typeof video === 'object' && getVideoKey(video)) : [];
+}
+
+/**
+ * Snapshot to store for the current queue state
+ * @param {object} queueState - main.cjs queueState
+ * @param {{ videoId: string|null, position: number }} playbackPosition - last position the player window reported
+ */
+function buildQueueSnapshot(queueState, playbackPosition, savedAt = new Date()) {
+  // Position only belongs in the snapshot while the same track is still playing
+  const position = playbackPosition.videoId && playbackPosition.videoId === getVideoKey(queueState.nowPlaying)
+    ? playbackPosition.position
+    : 0;
+  return {
+    ...queueState,
+    playbackPosition: position,
+    savedAt: savedAt.toISOString()
+  };
+}
+
+/**
+ * Queue state to boot with
+ * @param {object} snapshot - what buildQueueSnapshot stored (or whatever the store holds)
+ * @param {string} [mode] - playerSettings.queueRestoreMode
+ * @returns {{ queueState: object|null, restoredQueue: { restored, mode, playbackPosition } }}
+ *   queueState is null when nothing is restored
+ */
+function restoreQueueSnapshot(snapshot, mode) {
+  const restoreMode = QUEUE_RESTORE_MODES.includes(mode) ? mode : DEFAULT_QUEUE_RESTORE_MODE;
+  const activeQueue = snapshot && typeof snapshot === 'object' ? readVideos(snapshot.activeQueue) : [];
+  if (restoreMode === 'fresh' || activeQueue.length === 0) {
+    return { queueState: null, restoredQueue: { restored: false, mode: restoreMode, playbackPosition: 0 } };
+  }
+
+  const nowPlaying = snapshot.nowPlaying && typeof snapshot.nowPlaying === 'object' ? snapshot.nowPlaying : null;
+  const savedPosition = Number.isFinite(snapshot.playbackPosition) && snapshot.playbackPosition > 0 ? snapshot.playbackPosition : 0;
+  return {
+    queueState: {
+      activeQueue,
+      priorityQueue: readVideos(snapshot.priorityQueue),
+      nowPlaying,
+      nowPlayingSource: nowPlaying ? snapshot.nowPlayingSource || null : null,
+      queueIndex: 0,
+      isPlaying: false, // The renderer starts playback once the player window is ready
+      playId: 0
+    },
+    restoredQueue: {
+      restored: true,
+      mode: restoreMode,
+      playbackPosition: restoreMode === 'resume' && nowPlaying ? savedPosition : 0
+    }
+  };
+}
+
+module.exports = {
+  QUEUE_RESTORE_MODES,
+  DEFAULT_QUEUE_RESTORE_MODE,
+  getVideoKey,
+  buildQueueSnapshot,
+  restoreQueueSnapshot
+};
@@ -0,0 +1,161 @@
+/**
+ * SyncJournal - On-disk journal for the player's offline Supabase sync queue
+ *
+ * The renderer's SupabaseService keeps two offline queues (incoming commands that
+ * arrived while disconnected, outgoing queue updates that could not be written)
+ * plus the set of command IDs it has already executed. All three live in memory,
+ * so the journal mirrors them to disk and hands them back on the next start.
+ *
+ * The file is append-only JSON lines, one operation per line:
+ * - { op: 'add', entry: { id, kind, playerId, payload, timestamp } }
+ * - { op: 'remove', ids: [...] }
+ * - { op: 'processed', ids: [...] }
+ *
+ * main.cjs keeps a second journal of the same format for inserted coin/bill credits.
+ *
+ * Replaying the lines rebuilds the current state. A torn last line (crash mid-write)
+ * is skipped and the file rewritten. The file is compacted to one line per live entry once enough
+ * operations have accumulated.
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+const MAX_PROCESSED_IDS = 500; // Same window SupabaseService keeps in memory
+const COMPACT_AFTER_OPS = 500;
+
+class SyncJournal {
+  /**
+   * @param {string} filePath - Journal file, e.g. <userData>/sync-journal.jsonl
+   */
+  constructor(filePath) {
+    this.filePath = filePath;
+    this.entries = new Map(); // id -> entry, insertion order = replay order
+    this.processedIds = [];
+    this.opsSinceCompact = 0;
+    this.load();
+  }
+
+  load() {
+    let text = '';
+    try {
+      text = fs.readFileSync(this.filePath, 'utf8');
+    } catch (error) {
+      if (error.code !== 'ENOENT') {
+        console.error('[SyncJournal] Failed to read journal:', error.message);
+      }
+      return;
+    }
+
+    let unreadable = 0;
+    for (const line of text.split('\n')) {
+      if (!line.trim()) continue;
+      let op;
+      try {
+        op = JSON.parse(line);
+      } catch (error) {
+        unreadable++;
+        continue;
+      }
+      this.applyOp(op);
+      this.opsSinceCompact++;
+    }
+    if (unreadable > 0) {
+      // Rewrite now so the next append doesn't land on the end of a torn line
+      console.warn(`[SyncJournal] Skipped ${unreadable} unreadable journal line(s)`);
+      this.compact();
+    }
+    console.log(`[SyncJournal] Loaded ${this.entries.size} pending entries, ${this.processedIds.length} processed command IDs`);
+  }
+
+  applyOp(op) {
+    switch (op.op) {
+      case 'add':
+        if (op.entry && op.entry.id) {
+          this.entries.set(op.entry.id, op.entry);
+        }
+        break;
+      case 'remove':
+        (op.ids || []).forEach(id => this.entries.delete(id));
+        break;
+      case 'processed': {
+        const known = new Set(this.processedIds);
+        (op.ids || []).forEach(id => {
+          if (!known.has(id)) {
+            known.add(id);
+            this.processedIds.push(id);
+          }
+        });
+        if (this.processedIds.length > MAX_PROCESSED_IDS) {
+          this.processedIds = this.processedIds.slice(-MAX_PROCESSED_IDS);
+        }
+        break;
+      }
+      default:
+        break;
+    }
+  }
+
+  /**
+   * Apply an operation and persist it
+   */
+  record(op) {
+    this.applyOp(op);
+    this.opsSinceCompact++;
+    if (this.opsSinceCompact >= COMPACT_AFTER_OPS) {
+      this.compact();
+      return;
+    }
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.appendFileSync(this.filePath, JSON.stringify(op) + '\n', 'utf8');
+  }
+
+  /**
+   * Rewrite the journal as the minimal set of operations (write-then-rename)
+   */
+  compact() {
+    const lines = Array.from(this.entries.values()).map(entry => JSON.stringify({ op: 'add', entry }));
+    if (this.processedIds.length > 0) {
+      lines.push(JSON.stringify({ op: 'processed', ids: this.processedIds }));
+    }
+    const tmpPath = `${this.filePath}.tmp`;
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(tmpPath, lines.length > 0 ? lines.join('\n') + '\n' : '', 'utf8');
+    fs.renameSync(tmpPath, this.filePath);
+    this.opsSinceCompact = lines.length;
+  }
+
+  /**
+   * Current journal contents in replay order (safe to send over IPC)
+   */
+  snapshot() {
+    return {
+      entries: Array.from(this.entries.values()),
+      processedCommandIds: [...this.processedIds]
+    };
+  }
+
+  /**
+   * @param {{ id: string, kind: 'command' | 'queue_update' | 'credit', playerId: string, payload: object, timestamp: number }} entry
+   */
+  append(entry) {
+    this.record({ op: 'add', entry });
+  }
+
+  remove(ids) {
+    const live = ids.filter(id => this.entries.has(id));
+    if (live.length === 0) return;
+    this.record({ op: 'remove', ids: live });
+  }
+
+  markProcessed(ids) {
+    if (ids.length === 0) return;
+    this.record({ op: 'processed', ids });
+  }
+
+  get pendingCount() {
+    return this.entries.size;
+  }
+}
+
+module.exports = SyncJournal;
@@ -0,0 +1,99 @@
+/**
+ * VirtualPlaylists - Playlists built by hand instead of from library folders
+ *
+ * Each playlist is an ordered list of video IDs (file paths, which survive rescans
+ * and match local_videos.file_path). The player owns the list - it is saved in the
+ * config store and mirrored to Supabase by the renderer so the web admin can edit it
+ * through commands. Names are unique (case-insensitive) so load_playlist can find
+ * a playlist by name. Zones share the saved list, so main.cjs reloads it before every
+ * read or change instead of trusting the copy in memory.
+ *
+ * Events:
+ * - 'changed' (playlists) - after every save or delete
+ */
+
+const crypto = require('crypto');
+const { EventEmitter } = require('events');
+
+const MAX_NAME_LENGTH = 100;
+
+function normalizeName(name) {
+  return typeof name === 'string' ? name.trim().slice(0, MAX_NAME_LENGTH) : '';
+}
+
+function normalizeVideoIds(videoIds) {
+  return Array.isArray(videoIds) ? videoIds.filter(id => typeof id === 'string' && id) : [];
+}
+
+class VirtualPlaylists extends EventEmitter {
+  /**
+   * @param {object[]} [saved] - Previously saved playlists
+   */
+  constructor(saved = []) {
+    super();
+    this.reload(saved);
+  }
+
+  /**
+   * Replace the playlists in memory with the saved ones (no 'changed' event)
+   */
+  reload(saved) {
+    this.playlists = Array.isArray(saved)
+      ? saved.filter(playlist => playlist && playlist.id && normalizeName(playlist.name))
+      : [];
+  }
+
+  list() {
+    return this.playlists;
+  }
+
+  get(id) {
+    return this.playlists.find(playlist => playlist.id === id) || null;
+  }
+
+  /**
+   * Create (no id, or an id not saved yet) or replace a playlist's name and videos
+   * (reordering is a save with the new order). Throws on a missing or duplicate name.
+   * @param {{ id?: string, name: string, videoIds: string[] }} input
+   */
+  save(input) {
+    const name = normalizeName(input?.name);
+    if (!name) {
+      throw new Error('Playlist name is required');
+    }
+    const existing = input.id ? this.get(input.id) : null;
+    const clash = this.playlists.find(playlist =>
+      playlist.name.toLowerCase() === name.toLowerCase() && playlist !== existing
+    );
+    if (clash) {
+      throw new Error(`A playlist named "${clash.name}" already exists`);
+    }
+
+    const now = new Date().toISOString();
+    const playlist = {
+      id: existing ? existing.id : (input.id || crypto.randomUUID()),
+      name,
+      videoIds: normalizeVideoIds(input.videoIds),
+      createdAt: existing ? existing.createdAt : now,
+      updatedAt: now
+    };
+    this.playlists = existing
+      ? this.playlists.map(other => other === existing ? playlist : other)
+      : [...this.playlists, playlist];
+    this.emit('changed', this.playlists);
+    return playlist;
+  }
+
+  /**
+   * @returns {boolean} false if there was no such playlist
+   */
+  remove(id) {
+    const before = this.playlists.length;
+    this.playlists = this.playlists.filter(playlist => playlist.id !== id);
+    if (this.playlists.length === before) return false;
+    this.emit('changed', this.playlists);
+    return true;
+  }
+}
+
+module.exports = VirtualPlaylists;
@@ -0,0 +1,193 @@
+/**
+ * ZoneManager - Extra playback zones (patio, back bar...) run from one installation
+ *
+ * The main instance is the first zone. Every other zone is a second copy of this app,
+ * started with --djamms-zone=<id>, which main.cjs points at its own userData folder
+ * (userData/zones/<id>). Each zone therefore has everything a single player has, and
+ * nothing is shared by accident: its own queue and now-playing, volume, player window on
+ * its own display, settings, and Supabase player ID for kiosks and commands. The library
+ * (roots, folder rules, virtual playlists, gain trims) stays shared with the main instance.
+ *
+ * The main instance starts the enabled zones at launch, restarts a zone that exits
+ * unexpectedly, and stops them all when it quits.
+ *
+ * Events:
+ * - 'status' (list() snapshot) - whenever a zone starts, stops or crashes
+ */
+
+const { spawn } = require('child_process');
+const { EventEmitter } = require('events');
+
+const ZONE_ARG_PREFIX = '--djamms-zone=';
+const MAIN_ZONE_ID = 'main';
+const RESTART_DELAY_MS = 5000;
+const MAX_QUICK_RESTARTS = 3;     // Give up on a zone that keeps crashing right after launch
+const QUICK_EXIT_MS = 30 * 1000;
+
+/**
+ * The zone this process runs, or null for the main instance
+ */
+function parseZoneArg(argv) {
+  const arg = argv.find(value => typeof value === 'string' && value.startsWith(ZONE_ARG_PREFIX));
+  const id = arg ? arg.slice(ZONE_ARG_PREFIX.length).trim() : '';
+  return id && id !== MAIN_ZONE_ID ? id : null;
+}
+
+function slugify(name) {
+  return String(name || '').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 32);
+}
+
+/**
+ * Fill in defaults and give every zone a unique, folder-safe ID derived from its name
+ */
+function normalizeZones(zones) {
+  const used = new Set([MAIN_ZONE_ID]);
+  return (Array.isArray(zones) ? zones : [])
+    .filter(zone => zone && String(zone.name || '').trim())
+    .map((zone) => {
+      const base = slugify(zone.id) || slugify(zone.name) || 'zone';
+      let id = base;
+      for (let n = 2; used.has(id); n++) id = `${base}-${n}`;
+      used.add(id);
+      return {
+        id,
+        name: String(zone.name).trim(),
+        playerId: String(zone.playerId || '').trim().toUpperCase(),
+        enabled: zone.enabled !== false
+      };
+    });
+}
+
+class ZoneManager extends EventEmitter {
+  /**
+   * @param zones Saved zone list (see normalizeZones)
+   * @param launch { command, args } - how to start another copy of this app
+   */
+  constructor(zones = [], launch = { command: process.execPath, args: process.argv.slice(1) }) {
+    super();
+    this.zones = normalizeZones(zones);
+    this.launch = launch;
+    this.processes = new Map(); // zoneId -> { child, startedAt, quickExits, restartTimer, status, lastError }
+    this.stopping = false;
+  }
+
+  /**
+   * Zones with their process status (safe to send over IPC)
+   */
+  list() {
+    return this.zones.map((zone) => {
+      const entry = this.processes.get(zone.id);
+      return {
+        ...zone,
+        status: entry ? entry.status : 'stopped', // 'running' | 'restarting' | 'stopped' | 'error'
+        pid: entry?.child ? entry.child.pid : null,
+        lastError: entry ? entry.lastError : null
+      };
+    });
+  }
+
+  /**
+   * Replace the zone list: stop removed/disabled zones, start new/enabled ones
+   * Zones whose player ID changed are restarted so they pick it up.
+   */
+  configure(zones) {
+    const previous = new Map(this.zones.map(zone => [zone.id, zone]));
+    this.zones = normalizeZones(zones);
+    const next = new Map(this.zones.map(zone => [zone.id, zone]));
+
+    for (const id of [...this.processes.keys()]) {
+      const zone = next.get(id);
+      if (!zone || !zone.enabled || zone.playerId !== previous.get(id)?.playerId) {
+        this.stopZone(id);
+      }
+    }
+    this.start();
+    return this.zones;
+  }
+
+  start() {
+    this.stopping = false;
+    for (const zone of this.zones) {
+      if (zone.enabled && !this.processes.get(zone.id)?.child) {
+        this.startZone(zone);
+      }
+    }
+    this.emitStatus();
+  }
+
+  startZone(zone, quickExits = 0) {
+    const args = [...this.launch.args.filter(arg => !arg.startsWith(ZONE_ARG_PREFIX)), `${ZONE_ARG_PREFIX}${zone.id}`];
+    const entry = { child: null, startedAt: Date.now(), quickExits, restartTimer: null, status: 'running', lastError: null };
+    this.processes.set(zone.id, entry);
+
+    try {
+      entry.child = spawn(this.launch.command, args, { stdio: 'ignore', env: process.env });
+    } catch (error) {
+      entry.status = 'error';
+      entry.lastError = error.message;
+      this.emitStatus();
+      return;
+    }
+    console.log(`[ZoneManager] Started zone "${zone.name}" (pid ${entry.child.pid})`);
+
+    entry.child.on('error', (error) => {
+      console.error(`[ZoneManager] Zone "${zone.name}" failed to start:`, error.message);
+      entry.lastError = error.message;
+    });
+
+    entry.child.on('exit', (code, signal) => {
+      entry.child = null;
+      if (this.processes.get(zone.id) !== entry) return; // Replaced or stopped on purpose
+      const current = this.zones.find(z => z.id === zone.id);
+      if (this.stopping || !current || !current.enabled) {
+        this.processes.delete(zone.id);
+        this.emitStatus();
+        return;
+      }
+
+      // Closing a zone's window quits it like the main app - bring it back unless it keeps crashing
+      const exits = Date.now() - entry.startedAt < QUICK_EXIT_MS ? entry.quickExits + 1 : 0;
+      if (exits >= MAX_QUICK_RESTARTS) {
+        entry.status = 'error';
+        entry.lastError = `Exited ${exits} times right after starting (${signal || `code ${code}`})`;
+        console.error(`[ZoneManager] Zone "${zone.name}" keeps exiting - not restarting`);
+        this.emitStatus();
+        return;
+      }
+      entry.status = 'restarting';
+      entry.restartTimer = setTimeout(() => {
+        if (this.processes.get(zone.id) === entry) this.startZone(current, exits);
+      }, RESTART_DELAY_MS);
+      this.emitStatus();
+    });
+
+    this.emitStatus();
+  }
+
+  stopZone(id) {
+    const entry = this.processes.get(id);
+    if (!entry) return;
+    this.processes.delete(id);
+    if (entry.restartTimer) clearTimeout(entry.restartTimer);
+    if (entry.child) {
+      entry.child.kill();
+    }
+    this.emitStatus();
+  }
+
+  stop() {
+    this.stopping = true;
+    for (const id of [...this.processes.keys()]) {
+      this.stopZone(id);
+    }
+  }
+
+  emitStatus() {
+    this.emit('status', this.list());
+  }
+}
+
+module.exports = ZoneManager;
+module.exports.parseZoneArg = parseZoneArg;
+module.exports.normalizeZones = normalizeZones;
+module.exports.MAIN_ZONE_ID = MAIN_ZONE_ID;
@@ -0,0 +1,75 @@
+// components/CommandPolicySettings.tsx
+// Which remote commands staff, kiosks and guests may send - owners can always send everything
+import React from 'react';
+import type { CommandType } from '../types/supabase';
+import { COMMAND_TYPES, CommandPolicy, DEFAULT_COMMAND_POLICY } from '../utils/commandPolicy';
+
+interface CommandPolicySettingsProps {
+  policy: CommandPolicy;
+  onChange: (policy: CommandPolicy) => void;
+}
+
+const ROLE_LABELS: Record<keyof CommandPolicy, string> = {
+  staff: 'Staff',
+  kiosk: 'Kiosk',
+  guest: 'Guest'
+};
+
+const ROLES = Object.keys(ROLE_LABELS) as (keyof CommandPolicy)[];
+
+const cellStyle: React.CSSProperties = {
+  padding: '4px 8px',
+  textAlign: 'center',
+  borderBottom: '1px solid var(--border-color)'
+};
+
+export const CommandPolicySettings: React.FC<CommandPolicySettingsProps> = ({ policy, onChange }) => {
+  const toggle = (role: keyof CommandPolicy, commandType: CommandType, allowed: boolean) => {
+    const types = policy[role].filter(type => type !== commandType);
+    onChange({ ...policy, [role]: allowed ? [...types, commandType] : types });
+  };
+
+  return (
+    <>
+      <div className="setting-item">
+        <label>Allowed Commands</label>
+        <button className="action-btn" onClick={() => onChange(DEFAULT_COMMAND_POLICY)}>
+          <span className="material-symbols-rounded">restart_alt</span>
+          Reset to Defaults
+        </button>
+      </div>
+      <span className="setting-hint" style={{ fontSize: '12px', color: 'var(--text-secondary)' }}>
+        Owner and staff are admin logins added to player_members; kiosks are paired devices; anyone else is a guest.
+        Rejected commands are marked failed with the reason.
+      </span>
+      <div style={{ maxHeight: '320px', overflowY: 'auto', marginTop: '8px' }}>
+        <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '13px' }}>
+          <thead>
+            <tr>
+              <th style={{ ...cellStyle, textAlign: 'left' }}>Command</th>
+              <th style={cellStyle}>Owner</th>
+              {ROLES.map(role => <th key={role} style={cellStyle}>{ROLE_LABELS[role]}</th>)}
+            </tr>
+          </thead>
+          <tbody>
+            {COMMAND_TYPES.map(commandType => (
+              <tr key={commandType}>
+                <td style={{ ...cellStyle, textAlign: 'left', fontFamily: 'monospace' }}>{commandType}</td>
+                <td style={cellStyle}><input type="checkbox" checked disabled /></td>
+                {ROLES.map(role => (
+                  <td key={role} style={cellStyle}>
+                    <input
+                      type="checkbox"
+                      checked={policy[role].includes(commandType)}
+                      onChange={(e) => toggle(role, commandType, e.target.checked)}
+                    />
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,205 @@
+// components/CreditInputSettings.tsx
+// Kiosk coin acceptor / bill validator configuration (Electron main process driver)
+import React, { useState, useEffect, useCallback } from 'react';
+import type { CreditInputConfig, CreditInputDriver, CreditInputStatus } from '../types/electron';
+
+const DRIVER_LABELS: Record<CreditInputDriver, string> = {
+  'pulse': 'Coin Mech (Pulse)',
+  'serial-bill': 'Bill Validator (Serial)',
+  'simulated': 'Simulated'
+};
+
+/** Format a mapping as "1=1, 2=2, 5=5" for editing */
+const formatMapping = (mapping: Record<string, number>): string =>
+  Object.entries(mapping).map(([key, credits]) => `${key}=${credits}`).join(', ');
+
+/** Parse "1=1, 2=2, 5=5" back into a mapping, ignoring malformed pairs */
+const parseMapping = (text: string): Record<string, number> => {
+  const mapping: Record<string, number> = {};
+  text.split(',').forEach(pair => {
+    const [key, value] = pair.split('=').map(part => part.trim());
+    const credits = Number(value);
+    if (key && Number.isInteger(Number(key)) && Number.isFinite(credits) && credits > 0) {
+      mapping[key] = credits;
+    }
+  });
+  return mapping;
+};
+
+export const CreditInputSettings: React.FC = () => {
+  const [config, setConfig] = useState<CreditInputConfig | null>(null);
+  const [status, setStatus] = useState<CreditInputStatus | null>(null);
+  const [ports, setPorts] = useState<Array<{ path: string; manufacturer: string | null }>>([]);
+  const [pulseText, setPulseText] = useState('');
+  const [channelText, setChannelText] = useState('');
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  // Load current config and follow status changes from the main process
+  useEffect(() => {
+    const api = window.electronAPI;
+    if (!api?.getCreditInputStatus) return;
+
+    api.getCreditInputStatus().then(({ status: currentStatus, config: currentConfig }) => {
+      setStatus(currentStatus);
+      setConfig(currentConfig);
+      setPulseText(formatMapping(currentConfig.pulseCredits));
+      setChannelText(formatMapping(currentConfig.channelCredits));
+    });
+
+    return api.onCreditInputEvent((event) => {
+      if (event.type === 'status') {
+        setStatus(event.status);
+      }
+    });
+  }, []);
+
+  const handleListPorts = useCallback(async () => {
+    const available = await window.electronAPI.listCreditInputPorts();
+    setPorts(available);
+  }, []);
+
+  const handleApply = useCallback(async () => {
+    if (!config) return;
+    const updated: CreditInputConfig = {
+      ...config,
+      pulseCredits: parseMapping(pulseText),
+      channelCredits: parseMapping(channelText)
+    };
+    setConfig(updated);
+    setPulseText(formatMapping(updated.pulseCredits));
+    setChannelText(formatMapping(updated.channelCredits));
+    const result = await window.electronAPI.configureCreditInput(updated);
+    setSaveError(result.success ? null : result.error || 'Failed to apply credit input settings');
+  }, [config, pulseText, channelText]);
+
+  if (!config) {
+    return null;
+  }
+
+  const needsPort = config.driver !== 'simulated';
+
+  return (
+    <>
+      {/* Coin Acceptor Status */}
+      <div className="setting-item">
+        <label>Coin Acceptor Status</label>
+        <span className={`status-indicator ${status?.status === 'connected' ? 'active' : ''}`} style={{ marginRight: '12px' }}>
+          {status?.status === 'connected'
+            ? `${DRIVER_LABELS[status.driver].toUpperCase()} CONNECTED`
+            : status?.status === 'connecting'
+              ? 'CONNECTING...'
+              : status?.status === 'error'
+                ? `ERROR: ${status.lastError}${status.reconnectAttempts > 0 ? ` - reconnecting (attempt ${status.reconnectAttempts})` : ''}`
+                : 'DISABLED'}
+        </span>
+      </div>
+
+      {/* Enable + Driver */}
+      <div className="setting-item">
+        <label>Credit Input Device</label>
+        <div className="search-radio-group" style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+          <button
+            className={`radio-btn ${!config.enabled ? 'active' : ''}`}
+            onClick={() => setConfig(prev => prev && ({ ...prev, enabled: false }))}
+          >
+            Off
+          </button>
+          {(Object.keys(DRIVER_LABELS) as CreditInputDriver[]).map(driver => (
+            <button
+              key={driver}
+              className={`radio-btn ${config.enabled && config.driver === driver ? 'active' : ''}`}
+              onClick={() => setConfig(prev => prev && ({ ...prev, enabled: true, driver }))}
+            >
+              {DRIVER_LABELS[driver]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Serial Port */}
+      {config.enabled && needsPort && (
+        <div className="setting-item">
+          <label>Serial Port</label>
+          <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+            <button className="action-btn" onClick={handleListPorts}>
+              <span className="material-symbols-rounded">usb</span>
+              List Available Devices
+            </button>
+            <select
+              className="setting-select"
+              value={config.portPath}
+              onChange={(e) => setConfig(prev => prev && ({ ...prev, portPath: e.target.value }))}
+              style={{ maxWidth: '300px' }}
+            >
+              <option value="">Select a device...</option>
+              {config.portPath && !ports.some(p => p.path === config.portPath) && (
+                <option value={config.portPath}>{config.portPath}</option>
+              )}
+              {ports.map(port => (
+                <option key={port.path} value={port.path}>
+                  {port.path}{port.manufacturer ? ` (${port.manufacturer})` : ''}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+      )}
+
+      {/* Coin / Bill to Credit Mappings */}
+      {config.enabled && (
+        <>
+          <div className="setting-item">
+            <label>Credit Kiosk ID</label>
+            <input
+              type="text"
+              className="setting-input"
+              value={config.kioskId}
+              onChange={(e) => setConfig(prev => prev && ({ ...prev, kioskId: e.target.value.trim() }))}
+              placeholder="main"
+              style={{ maxWidth: '300px' }}
+            />
+          </div>
+          <div className="setting-item">
+            <label>Coin Credits <span style={{ color: 'var(--text-secondary)', fontSize: '11px' }}>(pulses=credits)</span></label>
+            <input
+              type="text"
+              className="setting-input"
+              value={pulseText}
+              onChange={(e) => setPulseText(e.target.value)}
+              placeholder="1=1, 2=2, 5=5"
+              style={{ maxWidth: '300px' }}
+            />
+          </div>
+          <div className="setting-item">
+            <label>Bill Credits <span style={{ color: 'var(--text-secondary)', fontSize: '11px' }}>(channel=credits)</span></label>
+            <input
+              type="text"
+              className="setting-input"
+              value={channelText}
+              onChange={(e) => setChannelText(e.target.value)}
+              placeholder="1=5, 2=10, 3=20"
+              style={{ maxWidth: '300px' }}
+            />
+          </div>
+        </>
+      )}
+
+      <div className="setting-item">
+        <label></label>
+        <button
+          className="action-btn"
+          onClick={handleApply}
+          disabled={config.enabled && needsPort && !config.portPath}
+        >
+          <span className="material-symbols-rounded">link</span>
+          Apply
+        </button>
+        {saveError && (
+          <span style={{ marginLeft: '12px', color: 'var(--error)', fontSize: '12px' }}>{saveError}</span>
+        )}
+      </div>
+    </>
+  );
+};
+
+export default CreditInputSettings;
@@ -1,7 +1,37 @@
 // components/CrossfadeSettings.tsx
-// User interface for selecting crossfade mode and duration
+// User interface for selecting crossfade mode, duration, curve and transition style
 import React, { useState, useEffect } from 'react';
 import { CrossfadeMode } from '../types';
+import { CrossfadeOptions, CrossfadeCurve, TransitionStyle, DEFAULT_CROSSFADE_OPTIONS } from '../utils/crossfade';
+
+const MODE_LABELS: Record<CrossfadeMode, string> = {
+  manual: 'Manual',
+  seamless: 'Seamless',
+  djmix: 'DJ Mix'
+};
+
+const CURVE_LABELS: Record<CrossfadeCurve, string> = {
+  'linear': 'Linear',
+  'equal-power': 'Equal power',
+  'logarithmic': 'Logarithmic',
+  's-curve': 'S-curve'
+};
+
+const STYLE_LABELS: Record<TransitionStyle, string> = {
+  'dissolve': 'Dissolve',
+  'dip-to-black': 'Dip to black',
+  'slide': 'Slide'
+};
+
+const selectStyle: React.CSSProperties = {
+  flex: 1,
+  padding: '6px 8px',
+  background: '#1f1f1f',
+  color: '#fff',
+  border: '1px solid #333',
+  borderRadius: '4px',
+  fontSize: '13px'
+};
 
 interface CrossfadeSettingsProps {
   /** Current crossfade mode */
@@ -12,6 +42,10 @@ interface CrossfadeSettingsProps {
   onModeChange?: (mode: CrossfadeMode) => void;
   /** Callback when duration changes */
   onDurationChange?: (duration: number) => void;
+  /** Current curve, audio/video fade durations and visual style for overlap transitions */
+  initialOptions?: CrossfadeOptions;
+  /** Callback when any transition option changes */
+  onOptionsChange?: (options: CrossfadeOptions) => void;
   /** Compact mode for smaller spaces */
   compact?: boolean;
 }
@@ -21,10 +55,15 @@ export const CrossfadeSettings: React.FC<CrossfadeSettingsProps> = ({
   initialDuration = 2.0,
   onModeChange,
   onDurationChange,
+  initialOptions = DEFAULT_CROSSFADE_OPTIONS,
+  onOptionsChange,
   compact = false
 }) => {
   const [mode, setMode] = useState<CrossfadeMode>(initialMode);
   const [duration, setDuration] = useState(initialDuration);
+  const [options, setOptions] = useState<CrossfadeOptions>(initialOptions);
+  const overlaps = mode !== 'manual';
+  const overlapDuration = Math.max(options.audioDuration, options.videoDuration);
 
   // Sync with external changes
   useEffect(() => {
@@ -35,6 +74,10 @@ export const CrossfadeSettings: React.FC<CrossfadeSettingsProps> = ({
     setDuration(initialDuration);
   }, [initialDuration]);
 
+  useEffect(() => {
+    setOptions(initialOptions);
+  }, [initialOptions]);
+
   const handleModeChange = (newMode: CrossfadeMode) => {
     setMode(newMode);
     onModeChange?.(newMode);
@@ -46,6 +89,60 @@ export const CrossfadeSettings: React.FC<CrossfadeSettingsProps> = ({
     onDurationChange?.(newDuration);
   };
 
+  const updateOption = <K extends keyof CrossfadeOptions>(key: K, value: CrossfadeOptions[K]) => {
+    const newOptions = { ...options, [key]: value };
+    setOptions(newOptions);
+    onOptionsChange?.(newOptions);
+  };
+
+  const renderTransitionControls = (labelWidth: string) => (
+    <>
+      <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+        <span style={{ color: '#aaa', fontSize: '14px', minWidth: labelWidth }}>Curve:</span>
+        <select
+          value={options.curve}
+          onChange={(e) => updateOption('curve', e.target.value as CrossfadeCurve)}
+          style={selectStyle}
+        >
+          {(Object.keys(CURVE_LABELS) as CrossfadeCurve[]).map(curve => (
+            <option key={curve} value={curve}>{CURVE_LABELS[curve]}</option>
+          ))}
+        </select>
+      </div>
+      <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+        <span style={{ color: '#aaa', fontSize: '14px', minWidth: labelWidth }}>Style:</span>
+        <select
+          value={options.style}
+          onChange={(e) => updateOption('style', e.target.value as TransitionStyle)}
+          style={selectStyle}
+        >
+          {(Object.keys(STYLE_LABELS) as TransitionStyle[]).map(style => (
+            <option key={style} value={style}>{STYLE_LABELS[style]}</option>
+          ))}
+        </select>
+      </div>
+      {(['audioDuration', 'videoDuration'] as const).map(key => (
+        <div key={key} style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+          <span style={{ color: '#aaa', fontSize: '14px', minWidth: labelWidth }}>
+            {key === 'audioDuration' ? 'Audio fade:' : 'Video fade:'}
+          </span>
+          <input
+            type="range"
+            min="0.5"
+            max="10"
+            step="0.5"
+            value={options[key]}
+            onChange={(e) => updateOption(key, parseFloat(e.target.value))}
+            style={{ flex: 1 }}
+          />
+          <span style={{ color: '#fff', fontSize: '14px', minWidth: '40px' }}>
+            {options[key].toFixed(1)}s
+          </span>
+        </div>
+      ))}
+    </>
+  );
+
   if (compact) {
     return (
       <div className="crossfade-settings-compact" style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
@@ -53,41 +150,30 @@ export const CrossfadeSettings: React.FC<CrossfadeSettingsProps> = ({
         <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
           <span style={{ color: '#aaa', fontSize: '14px', minWidth: '80px' }}>Mode:</span>
           <div style={{ display: 'flex', gap: '8px' }}>
-            <button
-              onClick={() => handleModeChange('manual')}
-              style={{
-                padding: '6px 12px',
-                background: mode === 'manual' ? '#ff1e56' : '#1f1f1f',
-                color: mode === 'manual' ? '#fff' : '#aaa',
-                border: '1px solid #333',
-                borderRadius: '4px',
-                cursor: 'pointer',
-                fontSize: '13px'
-              }}
-            >
-              Manual
-            </button>
-            <button
-              onClick={() => handleModeChange('seamless')}
-              style={{
-                padding: '6px 12px',
-                background: mode === 'seamless' ? '#ff1e56' : '#1f1f1f',
-                color: mode === 'seamless' ? '#fff' : '#aaa',
-                border: '1px solid #333',
-                borderRadius: '4px',
-                cursor: 'pointer',
-                fontSize: '13px'
-              }}
-            >
-              Seamless
-            </button>
+            {(Object.keys(MODE_LABELS) as CrossfadeMode[]).map(m => (
+              <button
+                key={m}
+                onClick={() => handleModeChange(m)}
+                style={{
+                  padding: '6px 12px',
+                  background: mode === m ? '#ff1e56' : '#1f1f1f',
+                  color: mode === m ? '#fff' : '#aaa',
+                  border: '1px solid #333',
+                  borderRadius: '4px',
+                  cursor: 'pointer',
+                  fontSize: '13px'
+                }}
+              >
+                {MODE_LABELS[m]}
+              </button>
+            ))}
           </div>
         </div>
 
         {/* Duration Slider */}
         <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
           <span style={{ color: '#aaa', fontSize: '14px', minWidth: '80px' }}>
-            {mode === 'seamless' ? 'Overlap:' : 'Fade:'}
+            Skip fade:
           </span>
           <input
             type="range"
@@ -102,6 +188,9 @@ export const CrossfadeSettings: React.FC<CrossfadeSettingsProps> = ({
             {duration.toFixed(1)}s
           </span>
         </div>
+
+        {/* Overlap transition */}
+        {overlaps && renderTransitionControls('80px')}
       </div>
     );
   }
@@ -183,18 +272,46 @@ export const CrossfadeSettings: React.FC<CrossfadeSettingsProps> = ({
               </div>
             </div>
           </label>
+
+          {/* DJ Mix Mode Option */}
+          <label 
+            style={{ 
+              display: 'flex', 
+              alignItems: 'flex-start', 
+              padding: '12px', 
+              background: mode === 'djmix' ? '#1f1f1f' : '#0f0f0f',
+              border: mode === 'djmix' ? '2px solid #ff1e56' : '2px solid transparent',
+              borderRadius: '8px',
+              cursor: 'pointer',
+              transition: 'all 0.2s'
+            }}
+          >
+            <input
+              type="radio"
+              name="crossfade-mode"
+              value="djmix"
+              checked={mode === 'djmix'}
+              onChange={() => handleModeChange('djmix')}
+              style={{ marginRight: '12px', marginTop: '2px' }}
+            />
+            <div>
+              <div style={{ fontWeight: '500', marginBottom: '4px' }}>DJ Mix Mode</div>
+              <div style={{ fontSize: '13px', color: '#aaa', lineHeight: '1.4' }}>
+                Same overlap as seamless, but the next track is brought up to full level
+                before the current one is pulled down - both play together mid-mix.
+              </div>
+            </div>
+          </label>
         </div>
       </div>
 
       {/* Crossfade Duration */}
       <div>
         <h4 style={{ margin: '0 0 12px 0', fontSize: '14px', color: '#aaa', fontWeight: '500' }}>
-          {mode === 'seamless' ? 'Crossfade Overlap Duration' : 'Skip Fade Duration'}
+          Skip Fade Duration
         </h4>
         <p style={{ margin: '0 0 12px 0', fontSize: '13px', color: '#666' }}>
-          {mode === 'seamless' 
-            ? 'How many seconds before the current video ends to start the next video.'
-            : 'How long the fade-out takes when you skip a video.'}
+          How long the fade-out takes when you skip a video.
         </p>
         
         <div style={{ display: 'flex', alignItems: 'center', gap: '12px' }}>
@@ -232,6 +349,21 @@ export const CrossfadeSettings: React.FC<CrossfadeSettingsProps> = ({
         </div>
       </div>
 
+      {/* Overlap Transition */}
+      {overlaps && (
+        <div style={{ marginTop: '20px' }}>
+          <h4 style={{ margin: '0 0 12px 0', fontSize: '14px', color: '#aaa', fontWeight: '500' }}>
+            Transition
+          </h4>
+          <p style={{ margin: '0 0 12px 0', fontSize: '13px', color: '#666' }}>
+            How the overlap sounds and looks. The next video starts as long before the current one ends as the longer of the two fades.
+          </p>
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
+            {renderTransitionControls('90px')}
+          </div>
+        </div>
+      )}
+
       {/* Visual Preview */}
       <div style={{ marginTop: '20px', padding: '12px', background: '#0f0f0f', borderRadius: '8px' }}>
         <div style={{ fontSize: '12px', color: '#666', marginBottom: '8px', fontWeight: '500' }}>
@@ -244,7 +376,7 @@ export const CrossfadeSettings: React.FC<CrossfadeSettingsProps> = ({
           borderRadius: '4px',
           overflow: 'hidden'
         }}>
-          {mode === 'seamless' ? (
+          {overlaps ? (
             <>
               {/* Current video (fading out) */}
               <div style={{
@@ -252,7 +384,7 @@ export const CrossfadeSettings: React.FC<CrossfadeSettingsProps> = ({
                 left: 0,
                 top: 0,
                 bottom: 0,
-                width: `${50 + (duration / 5) * 20}%`,
+                width: `${50 + (overlapDuration / 10) * 20}%`,
                 background: 'linear-gradient(90deg, #ff1e56 0%, #ff1e56 60%, transparent 100%)',
                 borderRadius: '4px 0 0 4px'
               }} />
@@ -262,7 +394,7 @@ export const CrossfadeSettings: React.FC<CrossfadeSettingsProps> = ({
                 right: 0,
                 top: 0,
                 bottom: 0,
-                width: `${50 + (duration / 5) * 20}%`,
+                width: `${50 + (overlapDuration / 10) * 20}%`,
                 background: 'linear-gradient(90deg, transparent 0%, #3b82f6 40%, #3b82f6 100%)',
                 borderRadius: '0 4px 4px 0'
               }} />
@@ -279,7 +411,7 @@ export const CrossfadeSettings: React.FC<CrossfadeSettingsProps> = ({
                 padding: '2px 6px',
                 borderRadius: '3px'
               }}>
-                {duration.toFixed(1)}s overlap
+                {overlapDuration.toFixed(1)}s overlap
               </div>
             </>
           ) : (
@@ -340,9 +472,11 @@ export const CrossfadeSettings: React.FC<CrossfadeSettingsProps> = ({
         <div style={{ display: 'flex', alignItems: 'flex-start', gap: '8px' }}>
           <span style={{ fontSize: '16px' }}>💡</span>
           <span>
-            {mode === 'seamless' 
-              ? 'Seamless mode is perfect for continuous DJ sets where you want smooth transitions between tracks.'
-              : 'Manual mode gives you precise control - each video plays completely before the next begins.'}
+            {mode === 'djmix'
+              ? 'DJ Mix mode blends tracks like a mixer - pair it with the S-curve or equal power curve for full-sounding mixes.'
+              : mode === 'seamless' 
+                ? 'Seamless mode is perfect for continuous DJ sets where you want smooth transitions between tracks.'
+                : 'Manual mode gives you precise control - each video plays completely before the next begins.'}
           </span>
         </div>
       </div>
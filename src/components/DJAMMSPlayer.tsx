@@ -8,6 +8,7 @@ import { ProgressBar } from './ProgressBar';
 import { useVideoPlayer } from '../hooks/useVideoPlayer';
 import { useKeyboardControls } from '../hooks/useKeyboardControls';
 import { Video, CrossfadeMode } from '../types';
+import { CrossfadeOptions } from '../utils/crossfade';
 
 interface DJAMMSPlayerProps {
   width?: number;
@@ -20,8 +21,14 @@ interface DJAMMSPlayerProps {
   volume?: number;
   showLoadingOverlay?: boolean;
   enableAudioNormalization?: boolean;
-  /** Crossfade mode: 'manual' (clean cut) or 'seamless' (overlap) */
+  /** Loudness (LUFS) that normalization aims for */
+  targetLoudness?: number;
+  /** Crossfade mode: 'manual' (clean cut), 'seamless' (overlap) or 'djmix' (overlap, both tracks full level mid-mix) */
   crossfadeMode?: CrossfadeMode;
+  /** Curve, audio/video fade durations and visual style for overlap transitions */
+  crossfadeOptions?: CrossfadeOptions;
+  /** Audio output device ID (setSinkId); '' or omitted = system default */
+  audioOutputDeviceId?: string;
   /** Duration in seconds for crossfade/skip fade (1-5s recommended) */
   crossfadeDuration?: number;
   /** @deprecated Use crossfadeDuration instead */
@@ -57,8 +64,11 @@ export const DJAMMSPlayer = forwardRef<DJAMMSPlayerRef, DJAMMSPlayerProps>(({
   volume = 0.7,
   showLoadingOverlay = false,
   enableAudioNormalization = false,
+  targetLoudness,
   crossfadeMode = 'manual',
   crossfadeDuration,
+  crossfadeOptions,
+  audioOutputDeviceId,
   fadeDuration = 2.0, // Legacy prop
   onVideoEnd,
   onSkip,
@@ -99,9 +109,17 @@ export const DJAMMSPlayer = forwardRef<DJAMMSPlayerRef, DJAMMSPlayerProps>(({
     crossfadeDuration: effectiveDuration,
     onVideoEnd,
     onError,
-    enableAudioNormalization
+    enableAudioNormalization,
+    targetLoudness,
+    crossfadeOptions,
+    audioOutputDeviceId
   });
 
+  // The hook only reads crossfadeMode on mount; follow later prop changes
+  useEffect(() => {
+    setCrossfadeMode(crossfadeMode);
+  }, [crossfadeMode, setCrossfadeMode]);
+
   useEffect(() => {
     onStateChange?.({ currentVideo, currentTime, duration, isPlaying });
   }, [currentVideo, currentTime, duration, isPlaying, onStateChange]);
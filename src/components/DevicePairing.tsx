@@ -0,0 +1,303 @@
+// components/DevicePairing.tsx
+// Pair kiosks and admin browsers with one-time codes, and manage the paired devices
+import React, { useCallback, useEffect, useState } from 'react';
+import QRCode from 'qrcode';
+import { getSupabaseService } from '../services/SupabaseService';
+import type { KioskDevice, KioskDeviceRole, KioskPairingCode } from '../types/supabase';
+
+interface DevicePairingProps {
+  playerId: string;
+}
+
+// Where a scanned QR code should open - the kiosk / web admin URL, saved in the player's settings
+type PairingUrls = Record<KioskDeviceRole, string>;
+
+const ROLE_LABELS: Record<KioskDeviceRole, string> = {
+  kiosk: 'Kiosk',
+  staff: 'Admin Browser'
+};
+
+// While a code is showing, check this often whether a device has claimed it
+const PAIRING_POLL_MS = 5000;
+
+const buttonStyle: React.CSSProperties = {
+  padding: '6px 12px',
+  backgroundColor: '#000000',
+  color: 'var(--text-primary)',
+  border: '1px solid var(--border-color)',
+  borderRadius: '4px',
+  cursor: 'pointer',
+  fontSize: '12px',
+  fontWeight: 600
+};
+
+const inputStyle: React.CSSProperties = {
+  padding: '6px 8px',
+  borderRadius: '4px',
+  border: '1px solid var(--border-color)',
+  background: 'var(--bg-primary)',
+  color: 'var(--text-primary)',
+  fontSize: '13px'
+};
+
+function pairingLink(baseUrl: string, code: string): string | null {
+  if (!baseUrl.trim()) return null;
+  try {
+    const url = new URL(baseUrl.trim());
+    url.searchParams.set('pair', code);
+    return url.toString();
+  } catch {
+    return null;
+  }
+}
+
+export const DevicePairing: React.FC<DevicePairingProps> = ({ playerId }) => {
+  const [devices, setDevices] = useState<KioskDevice[]>([]);
+  const [pairing, setPairing] = useState<KioskPairingCode | null>(null);
+  const [pairedBefore, setPairedBefore] = useState(0); // Device count when the code was created
+  const [qrDataUrl, setQrDataUrl] = useState<string | null>(null);
+  const [pairingUrls, setPairingUrls] = useState<PairingUrls>({ kiosk: '', staff: '' });
+  const [secondsLeft, setSecondsLeft] = useState(0);
+  const [editing, setEditing] = useState<{ id: string; name: string } | null>(null);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  // Shown until the owner registers this machine for the player ID
+  const [registration, setRegistration] = useState<{ email: string; password: string } | null>(null);
+
+  const run = useCallback(async (action: () => Promise<void>) => {
+    setMessage(null);
+    try {
+      await action();
+    } catch (err) {
+      const text = err instanceof Error ? err.message : String(err);
+      setMessage({ text, isError: true });
+      if (text.includes('not registered')) {
+        setRegistration(prev => prev ?? { email: '', password: '' });
+      }
+    }
+  }, []);
+
+  const loadDevices = useCallback(async () => {
+    const list = await getSupabaseService().getKioskDevices();
+    setDevices(list);
+    return list;
+  }, []);
+
+  useEffect(() => {
+    setPairing(null);
+    setRegistration(null);
+    run(async () => { await loadDevices(); });
+  }, [playerId, loadDevices, run]);
+
+  useEffect(() => {
+    window.electronAPI?.getSetting<PairingUrls | undefined>('pairingUrls').then((saved) => {
+      if (saved) setPairingUrls(prev => ({ ...prev, ...saved }));
+    });
+  }, []);
+
+  const updatePairingUrl = (role: KioskDeviceRole, url: string) => {
+    const updated = { ...pairingUrls, [role]: url };
+    setPairingUrls(updated);
+    window.electronAPI?.setSetting('pairingUrls', updated);
+  };
+
+  // Count down, and watch for the device that claims the code
+  useEffect(() => {
+    if (!pairing) return;
+    const expiresAt = new Date(pairing.expires_at).getTime();
+    const tick = () => {
+      const left = Math.max(0, Math.round((expiresAt - Date.now()) / 1000));
+      setSecondsLeft(left);
+      if (left === 0) setPairing(null);
+    };
+    tick();
+    const countdown = setInterval(tick, 1000);
+    const poll = setInterval(async () => {
+      const list = await loadDevices().catch(() => null);
+      if (list && list.length > pairedBefore) {
+        setPairing(null);
+        setMessage({ text: `Paired "${list[0].name}"`, isError: false });
+      }
+    }, PAIRING_POLL_MS);
+    return () => {
+      clearInterval(countdown);
+      clearInterval(poll);
+    };
+  }, [pairing, pairedBefore, loadDevices]);
+
+  const link = pairing ? pairingLink(pairingUrls[pairing.role], pairing.code) : null;
+
+  useEffect(() => {
+    setQrDataUrl(null);
+    if (!link) return;
+    let cancelled = false;
+    QRCode.toDataURL(link, { width: 180, margin: 1 }).then((dataUrl) => {
+      if (!cancelled) setQrDataUrl(dataUrl);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [link]);
+
+  const startPairing = (role: KioskDeviceRole) => run(async () => {
+    const code = await getSupabaseService().createPairingCode(role);
+    setPairedBefore(devices.length);
+    setPairing(code);
+  });
+
+  const register = () => run(async () => {
+    if (!registration) return;
+    await getSupabaseService().registerPlayerKey(registration.email, registration.password);
+    setRegistration(null);
+    await loadDevices();
+    setMessage({ text: `Registered this machine for ${playerId}`, isError: false });
+  });
+
+  const saveName = () => run(async () => {
+    if (!editing || !editing.name.trim()) return;
+    await getSupabaseService().renameKioskDevice(editing.id, editing.name.trim());
+    setEditing(null);
+    await loadDevices();
+  });
+
+  const revoke = (device: KioskDevice) => {
+    if (!window.confirm(`Revoke "${device.name}"? Its commands will be treated as a guest's until it is paired again.`)) return;
+    run(async () => {
+      await getSupabaseService().revokeKioskDevice(device.id);
+      await loadDevices();
+    });
+  };
+
+  return (
+    <div style={{
+      backgroundColor: 'var(--bg-secondary)',
+      border: '1px solid var(--border-color)',
+      borderRadius: '8px',
+      padding: '16px',
+      marginBottom: '20px'
+    }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '12px' }}>
+        <span style={{ fontWeight: 600 }}>Paired Devices:</span>
+        <span style={{ color: 'var(--text-secondary)', fontSize: '12px' }}>
+          {devices.filter(device => !device.revoked_at).length} active
+        </span>
+        <div style={{ marginLeft: 'auto', display: 'flex', gap: '8px' }}>
+          {(Object.keys(ROLE_LABELS) as KioskDeviceRole[]).map(role => (
+            <button key={role} style={buttonStyle} onClick={() => startPairing(role)}>
+              PAIR {ROLE_LABELS[role].toUpperCase()}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {pairing && (
+        <div style={{ display: 'flex', alignItems: 'center', gap: '24px', marginBottom: '12px', flexWrap: 'wrap' }}>
+          {qrDataUrl && <img src={qrDataUrl} alt={`Pairing QR code ${pairing.code}`} width={180} height={180} />}
+          <div>
+            <div style={{ color: 'var(--text-secondary)', fontSize: '12px' }}>
+              Enter on the {ROLE_LABELS[pairing.role].toLowerCase()}{qrDataUrl ? ' or scan' : ''}:
+            </div>
+            <div style={{ fontFamily: 'monospace', fontSize: '40px', fontWeight: 700, letterSpacing: '8px' }}>
+              {pairing.code}
+            </div>
+            <div style={{ color: 'var(--text-secondary)', fontSize: '12px', marginBottom: '8px' }}>
+              Expires in {Math.floor(secondsLeft / 60)}:{String(secondsLeft % 60).padStart(2, '0')} - works once
+            </div>
+            <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+              <input
+                type="url"
+                style={{ ...inputStyle, width: '260px' }}
+                placeholder={`${ROLE_LABELS[pairing.role]} URL for the QR code`}
+                value={pairingUrls[pairing.role]}
+                onChange={(e) => updatePairingUrl(pairing.role, e.target.value)}
+              />
+              <button style={buttonStyle} onClick={() => setPairing(null)}>CANCEL</button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {registration && (
+        <div style={{ display: 'flex', gap: '8px', alignItems: 'center', marginBottom: '12px', flexWrap: 'wrap' }}>
+          <span style={{ color: 'var(--text-secondary)', fontSize: '12px' }}>Owner sign-in:</span>
+          <input
+            type="email"
+            style={inputStyle}
+            placeholder="Owner email"
+            value={registration.email}
+            onChange={(e) => setRegistration({ ...registration, email: e.target.value })}
+          />
+          <input
+            type="password"
+            style={inputStyle}
+            placeholder="Password"
+            value={registration.password}
+            onChange={(e) => setRegistration({ ...registration, password: e.target.value })}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') register();
+            }}
+          />
+          <button style={buttonStyle} onClick={register} disabled={!registration.email.trim() || !registration.password}>
+            REGISTER THIS MACHINE
+          </button>
+        </div>
+      )}
+
+      {message && (
+        <p style={{ color: message.isError ? '#FF4444' : '#00FF00', fontSize: '12px', margin: '0 0 8px' }}>
+          {message.text}
+        </p>
+      )}
+
+      {devices.length > 0 && (
+        <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '12px' }}>
+          <thead>
+            <tr style={{ borderBottom: '1px solid var(--border-color)', color: 'var(--text-secondary)' }}>
+              <th style={{ textAlign: 'left', padding: '6px' }}>NAME</th>
+              <th style={{ textAlign: 'left', padding: '6px' }}>ROLE</th>
+              <th style={{ textAlign: 'left', padding: '6px' }}>LAST SEEN</th>
+              <th style={{ padding: '6px' }} />
+            </tr>
+          </thead>
+          <tbody>
+            {devices.map(device => (
+              <tr key={device.id} style={{ borderBottom: '1px solid var(--border-color)', opacity: device.revoked_at ? 0.5 : 1 }}>
+                <td style={{ padding: '6px' }}>
+                  {editing?.id === device.id ? (
+                    <input
+                      style={inputStyle}
+                      value={editing.name}
+                      onChange={(e) => setEditing({ id: device.id, name: e.target.value })}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') saveName();
+                        if (e.key === 'Escape') setEditing(null);
+                      }}
+                      autoFocus
+                    />
+                  ) : device.name}
+                </td>
+                <td style={{ padding: '6px' }}>{device.role === 'staff' ? 'Staff' : 'Kiosk'}</td>
+                <td style={{ padding: '6px', color: 'var(--text-secondary)' }}>
+                  {device.revoked_at
+                    ? `Revoked ${new Date(device.revoked_at).toLocaleDateString()}`
+                    : device.last_seen_at ? new Date(device.last_seen_at).toLocaleString() : 'Never'}
+                </td>
+                <td style={{ padding: '6px', textAlign: 'right', whiteSpace: 'nowrap' }}>
+                  {editing?.id === device.id ? (
+                    <button style={buttonStyle} onClick={saveName}>SAVE</button>
+                  ) : (
+                    <button style={buttonStyle} onClick={() => setEditing({ id: device.id, name: device.name })}>RENAME</button>
+                  )}
+                  {!device.revoked_at && (
+                    <button style={{ ...buttonStyle, marginLeft: '6px', color: '#FF4444', borderColor: '#FF4444' }} onClick={() => revoke(device)}>
+                      REVOKE
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
@@ -1,7 +1,8 @@
 // components/FullscreenPlayer.tsx - THE ONLY PLAYER - handles all audio/video playback
 import React, { useRef, useEffect, useState, forwardRef, useImperativeHandle } from 'react';
 import { DJAMMSPlayer, DJAMMSPlayerRef } from './DJAMMSPlayer';
-import { Video } from '../types';
+import { Video, CrossfadeMode } from '../types';
+import { CrossfadeOptions } from '../utils/crossfade';
 import { cleanVideoTitle } from '../utils/playlistHelpers';
 import { ComingUpTicker } from './ComingUpTicker';
 
@@ -35,8 +36,12 @@ interface FullscreenPlayerProps {
   onError?: (error: string) => void; // Called when video errors occur
   onStateChange: (state: { currentVideo: Video | null, currentTime: number, duration: number, isPlaying: boolean }) => void;
   enableAudioNormalization: boolean;
+  targetLoudness?: number;
   preloadVideo?: Video | null;
   fadeDuration?: number;
+  crossfadeMode?: CrossfadeMode;
+  crossfadeOptions?: CrossfadeOptions;
+  audioOutputDeviceId?: string; // '' = system default
   seekToPosition?: number | null; // When set, seek to this position (seconds)
   onSeekComplete?: () => void; // Called after seek completes
   overlaySettings?: OverlaySettings; // Player overlay settings
@@ -64,8 +69,12 @@ export const FullscreenPlayer = forwardRef<FullscreenPlayerRef, FullscreenPlayer
   onError,
   onStateChange,
   enableAudioNormalization,
+  targetLoudness,
   preloadVideo,
   fadeDuration,
+  crossfadeMode,
+  crossfadeOptions,
+  audioOutputDeviceId,
   seekToPosition,
   onSeekComplete,
   overlaySettings,
@@ -372,10 +381,14 @@ export const FullscreenPlayer = forwardRef<FullscreenPlayerRef, FullscreenPlayer
         autoPlay={true}
         volume={volume}
         fadeDuration={fadeDuration}
+        crossfadeMode={crossfadeMode}
+        crossfadeOptions={crossfadeOptions}
+        audioOutputDeviceId={audioOutputDeviceId}
         onVideoEnd={onVideoEnd}
         onError={onError}
         onStateChange={handleStateChange}
         enableAudioNormalization={enableAudioNormalization}
+        targetLoudness={targetLoudness}
       />
       
       {/* Now Playing Overlay */}
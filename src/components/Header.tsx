@@ -19,6 +19,7 @@ interface HeaderProps {
   onSearchClear: () => void;
   onMenuToggle: () => void;
   searchQuery?: string;
+  pendingSyncCount?: number; // Offline changes waiting to reach Supabase
 }
 
 export const Header: React.FC<HeaderProps> = ({
@@ -35,7 +36,8 @@ export const Header: React.FC<HeaderProps> = ({
   onSearch,
   onSearchClear,
   onMenuToggle,
-  searchQuery = ''
+  searchQuery = '',
+  pendingSyncCount = 0
 }) => {
   const [localSearch, setLocalSearch] = useState(searchQuery);
   const [isMuted, setIsMuted] = useState(false);
@@ -114,6 +116,13 @@ export const Header: React.FC<HeaderProps> = ({
       {/* Logo */}
       <div className="header-logo no-drag">DJAMMS</div>
 
+      {/* Pending Sync */}
+      {pendingSyncCount > 0 && (
+        <span className="sync-pending-badge no-drag" title="Changes made while offline - sent when the connection returns">
+          {pendingSyncCount} pending sync
+        </span>
+      )}
+
       {/* Now Playing Info */}
       <div className="header-now-playing no-drag">
         <div className="now-playing-thumbnail">
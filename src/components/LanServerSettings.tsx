@@ -0,0 +1,227 @@
+// components/LanServerSettings.tsx
+// Local LAN server that kiosks and web admin fall back to when Supabase is unreachable
+// Only devices paired here (with the token shown once) can use it
+import React, { useState, useEffect, useCallback } from 'react';
+import type { LanDevice, LanServerConfig, LanServerStatus } from '../types/electron';
+
+export const LanServerSettings: React.FC = () => {
+  const [config, setConfig] = useState<LanServerConfig | null>(null);
+  const [status, setStatus] = useState<LanServerStatus | null>(null);
+  const [portText, setPortText] = useState('');
+  const [originsText, setOriginsText] = useState('');
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [devices, setDevices] = useState<LanDevice[]>([]);
+  const [deviceName, setDeviceName] = useState('');
+  const [deviceRole, setDeviceRole] = useState<LanDevice['role']>('kiosk');
+  const [pairedToken, setPairedToken] = useState<{ name: string; token: string } | null>(null);
+  const [pairError, setPairError] = useState<string | null>(null);
+
+  // Load current config and follow status changes from the main process
+  useEffect(() => {
+    const api = window.electronAPI;
+    if (!api?.getLanServerStatus) return;
+
+    api.getLanServerStatus().then(({ status: currentStatus, config: currentConfig, devices: pairedDevices }) => {
+      setStatus(currentStatus);
+      setConfig(currentConfig);
+      setPortText(String(currentConfig.port));
+      setOriginsText((currentConfig.allowedOrigins || []).join(', '));
+      setDevices(pairedDevices || []);
+    });
+
+    return api.onLanServerStatus(setStatus);
+  }, []);
+
+  const handleApply = useCallback(async () => {
+    if (!config) return;
+    const port = Number(portText);
+    if (!Number.isInteger(port) || port < 1024 || port > 65535) {
+      setSaveError('Port must be a number between 1024 and 65535');
+      return;
+    }
+    const allowedOrigins = originsText.split(',').map(origin => origin.trim().replace(/\/+$/, '')).filter(Boolean);
+    if (allowedOrigins.some(origin => !/^https?:\/\/[^/]+$/.test(origin))) {
+      setSaveError('Origins look like http://192.168.1.20:5173 (no path)');
+      return;
+    }
+    const updated: LanServerConfig = { ...config, port, allowedOrigins };
+    setConfig(updated);
+    const result = await window.electronAPI.configureLanServer(updated);
+    if (result.status) {
+      setStatus(result.status);
+    }
+    setSaveError(result.success ? null : result.error || 'Failed to apply LAN server settings');
+  }, [config, portText, originsText]);
+
+  const handlePair = useCallback(async () => {
+    const name = deviceName.trim();
+    if (!name) {
+      setPairError('Enter a name for the device');
+      return;
+    }
+    const result = await window.electronAPI.pairLanDevice(name, deviceRole);
+    if (!result.success || !result.token) {
+      setPairError(result.error || 'Failed to pair the device');
+      return;
+    }
+    setDevices(result.devices || []);
+    setPairedToken({ name, token: result.token });
+    setDeviceName('');
+    setPairError(null);
+  }, [deviceName, deviceRole]);
+
+  const handleRevoke = useCallback(async (device: LanDevice) => {
+    if (!window.confirm(`Revoke "${device.name}"? It will no longer reach the player over the LAN.`)) return;
+    const result = await window.electronAPI.revokeLanDevice(device.id);
+    setDevices(result.devices);
+  }, []);
+
+  if (!config) {
+    return null;
+  }
+
+  return (
+    <>
+      {/* LAN Server Status */}
+      <div className="setting-item">
+        <label>LAN Server Status</label>
+        <span className={`status-indicator ${status?.status === 'listening' ? 'active' : ''}`} style={{ marginRight: '12px' }}>
+          {status?.status === 'listening'
+            ? `LISTENING (${status.clients} ${status.clients === 1 ? 'client' : 'clients'})`
+            : status?.status === 'error'
+              ? `ERROR: ${status.lastError}`
+              : 'DISABLED'}
+        </span>
+      </div>
+
+      {/* Enable */}
+      <div className="setting-item">
+        <label>LAN Fallback</label>
+        <div className="search-radio-group" style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+          <button
+            className={`radio-btn ${!config.enabled ? 'active' : ''}`}
+            onClick={() => setConfig(prev => prev && ({ ...prev, enabled: false }))}
+          >
+            Off
+          </button>
+          <button
+            className={`radio-btn ${config.enabled ? 'active' : ''}`}
+            onClick={() => setConfig(prev => prev && ({ ...prev, enabled: true }))}
+          >
+            On
+          </button>
+        </div>
+      </div>
+
+      {config.enabled && (
+        <>
+          <div className="setting-item">
+            <label>Port</label>
+            <input
+              type="text"
+              className="setting-input"
+              value={portText}
+              onChange={(e) => setPortText(e.target.value.trim())}
+              placeholder="3457"
+              style={{ maxWidth: '120px' }}
+            />
+          </div>
+
+          <div className="setting-item">
+            <label>Web Kiosk / Admin Origins</label>
+            <input
+              type="text"
+              className="setting-input"
+              value={originsText}
+              onChange={(e) => setOriginsText(e.target.value)}
+              placeholder="http://192.168.1.20:5173, http://192.168.1.20:5174"
+              title="Browser pages allowed to call the LAN server, comma separated"
+            />
+          </div>
+        </>
+      )}
+
+      {status?.status === 'listening' && status.urls.length > 0 && (
+        <div className="setting-item">
+          <label>Kiosk / Admin Address</label>
+          <span style={{ fontSize: '13px', color: 'var(--text-secondary)' }}>
+            {status.urls.join(', ')}
+          </span>
+        </div>
+      )}
+
+      {config.enabled && (
+        <>
+          <div className="setting-item">
+            <label>Paired Devices</label>
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+              {devices.length === 0 && (
+                <span style={{ fontSize: '13px', color: 'var(--text-secondary)' }}>None yet - unpaired devices are refused</span>
+              )}
+              {devices.map(device => (
+                <div key={device.id} style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '13px' }}>
+                  <span>{device.name}</span>
+                  <span style={{ color: 'var(--text-secondary)' }}>{device.role}</span>
+                  <button className="action-btn" onClick={() => handleRevoke(device)}>Revoke</button>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="setting-item">
+            <label>Pair Device</label>
+            <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+              <input
+                type="text"
+                className="setting-input"
+                value={deviceName}
+                onChange={(e) => setDeviceName(e.target.value)}
+                placeholder="Bar kiosk"
+                style={{ maxWidth: '180px' }}
+              />
+              <select
+                className="setting-select"
+                value={deviceRole}
+                onChange={(e) => setDeviceRole(e.target.value as LanDevice['role'])}
+                style={{ maxWidth: '120px' }}
+              >
+                <option value="kiosk">Kiosk</option>
+                <option value="staff">Staff</option>
+              </select>
+              <button className="action-btn" onClick={handlePair}>
+                <span className="material-symbols-rounded">link</span>
+                Pair
+              </button>
+            </div>
+            {pairError && (
+              <span style={{ marginLeft: '12px', color: 'var(--error)', fontSize: '12px' }}>{pairError}</span>
+            )}
+          </div>
+
+          {pairedToken && (
+            <div className="setting-item">
+              <label>Token for {pairedToken.name}</label>
+              <span style={{ fontSize: '13px', fontFamily: 'monospace', userSelect: 'all' }}>{pairedToken.token}</span>
+              <span style={{ marginLeft: '12px', fontSize: '12px', color: 'var(--text-secondary)' }}>
+                Enter it on the device now - it is not shown again
+              </span>
+            </div>
+          )}
+        </>
+      )}
+
+      <div className="setting-item">
+        <label></label>
+        <button className="action-btn" onClick={handleApply}>
+          <span className="material-symbols-rounded">lan</span>
+          Apply
+        </button>
+        {saveError && (
+          <span style={{ marginLeft: '12px', color: 'var(--error)', fontSize: '12px' }}>{saveError}</span>
+        )}
+      </div>
+    </>
+  );
+};
+
+export default LanServerSettings;
@@ -0,0 +1,193 @@
+// components/LibraryRootsSettings.tsx
+// Library roots (the playlists folder plus extra folders/drives), nested-folder scanning,
+// ignore patterns and which folder level names each playlist
+import React, { useState, useEffect, useCallback } from 'react';
+import type { LibraryConfig, LibraryRoot, PlaylistNaming } from '../types/electron';
+
+const MAX_SCAN_DEPTH = 8; // Same limit as electron/library-roots.cjs
+const PRIMARY_ROOT_ID = 'primary';
+
+const inputStyle: React.CSSProperties = { maxWidth: '160px' };
+
+export const LibraryRootsSettings: React.FC = () => {
+  const [config, setConfig] = useState<LibraryConfig | null>(null);
+  const [ignoreText, setIgnoreText] = useState('');
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    const api = window.electronAPI;
+    if (!api?.getLibraryConfig) return;
+
+    api.getLibraryConfig().then((currentConfig) => {
+      setConfig(currentConfig);
+      setIgnoreText(currentConfig.ignorePatterns.join('\n'));
+    });
+  }, []);
+
+  const updateRoot = useCallback((id: string, changes: Partial<LibraryRoot>) => {
+    setSaved(false);
+    setConfig(prev => prev && ({
+      ...prev,
+      roots: prev.roots.map(root => {
+        if (root.id !== id) return root;
+        const updated = { ...root, ...changes };
+        // The naming level can't be deeper than what is scanned
+        return { ...updated, playlistDepth: Math.min(updated.playlistDepth, updated.maxDepth) };
+      })
+    }));
+  }, []);
+
+  const handleAddRoot = useCallback(async () => {
+    const result = await window.electronAPI.selectLibraryRoot();
+    if (!result.success || !result.path) return;
+    const folderPath = result.path;
+    setSaved(false);
+    setConfig(prev => prev && ({
+      ...prev,
+      roots: [...prev.roots, {
+        id: `root-${Date.now()}`,
+        path: folderPath,
+        label: folderPath.split(/[\\/]/).filter(Boolean).pop() || folderPath,
+        enabled: true,
+        maxDepth: 1,
+        playlistDepth: 1,
+        playlistNaming: 'folder'
+      }]
+    }));
+  }, []);
+
+  const handleRemoveRoot = useCallback((id: string) => {
+    setSaved(false);
+    setConfig(prev => prev && ({ ...prev, roots: prev.roots.filter(root => root.id !== id) }));
+  }, []);
+
+  // Saving rescans the library; the watcher reports what moved in or out as library changes
+  const handleApply = useCallback(async () => {
+    if (!config) return;
+    const ignorePatterns = ignoreText.split(/[\n,]/).map(pattern => pattern.trim()).filter(Boolean);
+    const result = await window.electronAPI.setLibraryConfig({ ...config, ignorePatterns });
+    if (result.success && result.config) {
+      setConfig(result.config);
+      setIgnoreText(result.config.ignorePatterns.join('\n'));
+    }
+    setSaved(result.success);
+    setSaveError(result.success ? null : result.error || 'Failed to save library folders');
+  }, [config, ignoreText]);
+
+  if (!config) {
+    return null;
+  }
+
+  const depthOptions = (max: number) => Array.from({ length: max }, (_, index) => index + 1);
+
+  return (
+    <>
+      {config.roots.map(root => (
+        <div
+          key={root.id}
+          className="setting-item"
+          style={{ flexWrap: 'wrap', gap: '8px', opacity: root.enabled ? 1 : 0.6 }}
+        >
+          <input
+            type="text"
+            className="setting-input"
+            value={root.label}
+            onChange={(e) => updateRoot(root.id, { label: e.target.value })}
+            placeholder="Label"
+            style={inputStyle}
+          />
+          <span
+            style={{ fontSize: '12px', color: 'var(--text-secondary)', flex: '1 1 200px', overflow: 'hidden', textOverflow: 'ellipsis' }}
+            title={root.path}
+          >
+            {root.id === PRIMARY_ROOT_ID ? 'Playlists Folder (above)' : root.path}
+          </span>
+          <div className="search-radio-group" style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+            <button
+              className={`radio-btn ${!root.enabled ? 'active' : ''}`}
+              onClick={() => updateRoot(root.id, { enabled: false })}
+            >
+              Off
+            </button>
+            <button
+              className={`radio-btn ${root.enabled ? 'active' : ''}`}
+              onClick={() => updateRoot(root.id, { enabled: true })}
+            >
+              On
+            </button>
+          </div>
+          <select
+            className="setting-select"
+            value={root.maxDepth}
+            onChange={(e) => updateRoot(root.id, { maxDepth: Number(e.target.value) })}
+            title="How many folder levels below this root are scanned"
+          >
+            {depthOptions(MAX_SCAN_DEPTH).map(depth => (
+              <option key={depth} value={depth}>{depth === 1 ? 'Scan 1 level' : `Scan ${depth} levels`}</option>
+            ))}
+          </select>
+          <select
+            className="setting-select"
+            value={root.playlistDepth}
+            onChange={(e) => updateRoot(root.id, { playlistDepth: Number(e.target.value) })}
+            title="Which folder level names the playlist (files above it use their own folder)"
+          >
+            {depthOptions(root.maxDepth).map(depth => (
+              <option key={depth} value={depth}>{`Playlist from level ${depth}`}</option>
+            ))}
+          </select>
+          <select
+            className="setting-select"
+            value={root.playlistNaming}
+            onChange={(e) => updateRoot(root.id, { playlistNaming: e.target.value as PlaylistNaming })}
+            title="Name the playlist after that folder only, or after every folder down to it"
+          >
+            <option value="folder">Folder name</option>
+            <option value="path">Folder path</option>
+          </select>
+          {root.id !== PRIMARY_ROOT_ID && (
+            <button className="action-btn" onClick={() => handleRemoveRoot(root.id)} title="Remove library folder">
+              <span className="material-symbols-rounded">delete</span>
+            </button>
+          )}
+        </div>
+      ))}
+
+      <div className="setting-item">
+        <label>Ignore</label>
+        <textarea
+          className="setting-input"
+          value={ignoreText}
+          onChange={(e) => {
+            setSaved(false);
+            setIgnoreText(e.target.value);
+          }}
+          placeholder={'One pattern per line, e.g.\n._*\nExtras\nRock/Live'}
+          rows={3}
+          style={{ maxWidth: '280px', resize: 'vertical' }}
+        />
+      </div>
+
+      <div className="setting-item">
+        <label></label>
+        <button className="action-btn" onClick={handleAddRoot}>
+          <span className="material-symbols-rounded">create_new_folder</span>
+          Add Library Folder
+        </button>
+        <button className="action-btn" onClick={handleApply} style={{ marginLeft: '8px' }}>
+          <span className="material-symbols-rounded">save</span>
+          Apply
+        </button>
+        {saved && !saveError && (
+          <span style={{ marginLeft: '12px', fontSize: '12px', color: 'var(--text-secondary)' }}>Library rescanned</span>
+        )}
+        {saveError && (
+          <span style={{ marginLeft: '12px', color: 'var(--error)', fontSize: '12px' }}>{saveError}</span>
+        )}
+      </div>
+    </>
+  );
+};
+
+export default LibraryRootsSettings;
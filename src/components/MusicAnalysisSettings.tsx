@@ -0,0 +1,85 @@
+// components/MusicAnalysisSettings.tsx
+// Library-wide tempo (BPM) and musical key analysis, run by the main process
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import type { MusicAnalysisStatus } from '../types/electron';
+
+interface MusicAnalysisSettingsProps {
+  /** Called when a job finishes, so the library can be reloaded with the new BPM/key */
+  onComplete?: () => void;
+}
+
+export const MusicAnalysisSettings: React.FC<MusicAnalysisSettingsProps> = ({ onComplete }) => {
+  const [status, setStatus] = useState<MusicAnalysisStatus | null>(null);
+  const [startError, setStartError] = useState<string | null>(null);
+  const wasRunningRef = useRef(false);
+  const onCompleteRef = useRef(onComplete);
+  onCompleteRef.current = onComplete;
+
+  // Load current status and follow job progress from the main process
+  useEffect(() => {
+    const api = window.electronAPI;
+    if (!api?.getMusicAnalysisStatus) return;
+
+    const handleStatus = (next: MusicAnalysisStatus) => {
+      if (wasRunningRef.current && !next.running && next.done > next.failed) {
+        onCompleteRef.current?.();
+      }
+      wasRunningRef.current = next.running;
+      setStatus(next);
+    };
+
+    api.getMusicAnalysisStatus().then(handleStatus);
+    return api.onMusicAnalysisProgress(handleStatus);
+  }, []);
+
+  const handleStart = useCallback(async () => {
+    const result = await window.electronAPI.startMusicAnalysis();
+    if (result.status) {
+      wasRunningRef.current = result.status.running;
+      setStatus(result.status);
+    }
+    setStartError(result.success ? null : result.error || 'Failed to start analysis');
+  }, []);
+
+  const handleCancel = useCallback(() => {
+    window.electronAPI.cancelMusicAnalysis();
+  }, []);
+
+  if (!status) {
+    return null;
+  }
+
+  return (
+    <div className="setting-item">
+      <label>Tempo &amp; key analysis</label>
+      {status.running ? (
+        <>
+          <span style={{ fontSize: '13px', color: 'var(--text-secondary)', marginRight: '12px' }}>
+            {status.done}/{status.total}{status.current ? ` - ${status.current}` : ''}
+          </span>
+          <button className="action-btn" onClick={handleCancel}>
+            <span className="material-symbols-rounded">stop</span>
+            Stop
+          </button>
+        </>
+      ) : (
+        <>
+          <button className="action-btn" onClick={handleStart}>
+            <span className="material-symbols-rounded">graphic_eq</span>
+            Analyze Library
+          </button>
+          {status.total > 0 && (
+            <span style={{ marginLeft: '12px', fontSize: '12px', color: 'var(--text-secondary)' }}>
+              Last run: {status.done - status.failed} analyzed{status.failed > 0 ? `, ${status.failed} failed` : ''}
+            </span>
+          )}
+        </>
+      )}
+      {startError && (
+        <span style={{ marginLeft: '12px', color: 'var(--error)', fontSize: '12px' }}>{startError}</span>
+      )}
+    </div>
+  );
+};
+
+export default MusicAnalysisSettings;
@@ -0,0 +1,173 @@
+// components/PlaylistScheduleSettings.tsx
+// Weekly playlist schedule (dayparting) editor for the Settings tab
+import React from 'react';
+import { getPlaylistDisplayName } from '../utils/playlistHelpers';
+import {
+  PlaylistSchedule,
+  PlaylistScheduleSlot,
+  PriorityRequestHandling,
+  createScheduleSlot,
+  getActiveScheduleSlot
+} from '../utils/playlistSchedule';
+
+interface PlaylistScheduleSettingsProps {
+  schedule: PlaylistSchedule;
+  playlistNames: string[];
+  onChange: (schedule: PlaylistSchedule) => void;
+}
+
+const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const inputStyle: React.CSSProperties = {
+  padding: '6px 8px',
+  borderRadius: '4px',
+  border: '1px solid var(--border-color)',
+  background: 'var(--bg-secondary)',
+  color: 'var(--text-primary)',
+  fontSize: '14px'
+};
+
+export const PlaylistScheduleSettings: React.FC<PlaylistScheduleSettingsProps> = ({
+  schedule,
+  playlistNames,
+  onChange
+}) => {
+  const activeSlot = getActiveScheduleSlot(schedule);
+
+  const updateSlot = (id: string, changes: Partial<PlaylistScheduleSlot>) => {
+    onChange({
+      ...schedule,
+      slots: schedule.slots.map(slot => (slot.id === id ? { ...slot, ...changes } : slot))
+    });
+  };
+
+  const toggleDay = (slot: PlaylistScheduleSlot, day: number) => {
+    const days = slot.days.includes(day)
+      ? slot.days.filter(d => d !== day)
+      : [...slot.days, day].sort((a, b) => a - b);
+    updateSlot(slot.id, { days });
+  };
+
+  const addSlot = () => {
+    onChange({ ...schedule, slots: [...schedule.slots, createScheduleSlot(playlistNames[0] || '')] });
+  };
+
+  const removeSlot = (id: string) => {
+    onChange({ ...schedule, slots: schedule.slots.filter(slot => slot.id !== id) });
+  };
+
+  return (
+    <>
+      <div className="setting-item">
+        <label>Playlist Schedule</label>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '12px' }}>
+          <div className="search-radio-group" style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+            <button
+              className={`radio-btn ${!schedule.enabled ? 'active' : ''}`}
+              onClick={() => onChange({ ...schedule, enabled: false })}
+            >
+              Off
+            </button>
+            <button
+              className={`radio-btn ${schedule.enabled ? 'active' : ''}`}
+              onClick={() => onChange({ ...schedule, enabled: true })}
+            >
+              On
+            </button>
+          </div>
+          <span className="setting-hint" style={{ fontSize: '12px', color: 'var(--text-secondary)' }}>
+            {activeSlot
+              ? `Now: ${getPlaylistDisplayName(activeSlot.playlistName)} until ${activeSlot.endTime}`
+              : 'Outside scheduled slots the current playlist keeps playing'}
+          </span>
+        </div>
+      </div>
+
+      {schedule.slots.map(slot => (
+        <div
+          key={slot.id}
+          className="setting-item"
+          style={{ flexWrap: 'wrap', gap: '8px', opacity: schedule.enabled ? 1 : 0.6 }}
+        >
+          <select
+            className="setting-select"
+            value={slot.playlistName}
+            onChange={(e) => updateSlot(slot.id, { playlistName: e.target.value })}
+            style={{ maxWidth: '220px' }}
+          >
+            {slot.playlistName && !playlistNames.includes(slot.playlistName) && (
+              <option value={slot.playlistName}>{getPlaylistDisplayName(slot.playlistName)} (missing)</option>
+            )}
+            {playlistNames.map(name => (
+              <option key={name} value={name}>{getPlaylistDisplayName(name)}</option>
+            ))}
+          </select>
+          <div style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+            {DAY_LABELS.map((label, day) => (
+              <button
+                key={label}
+                className={`radio-btn ${slot.days.includes(day) ? 'active' : ''}`}
+                onClick={() => toggleDay(slot, day)}
+                style={{ padding: '4px 6px', fontSize: '12px' }}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+            <input
+              type="time"
+              value={slot.startTime}
+              onChange={(e) => updateSlot(slot.id, { startTime: e.target.value })}
+              style={inputStyle}
+            />
+            <span style={{ color: 'var(--text-secondary)', fontSize: '13px' }}>to</span>
+            <input
+              type="time"
+              value={slot.endTime}
+              onChange={(e) => updateSlot(slot.id, { endTime: e.target.value })}
+              style={inputStyle}
+              title="An end time at or before the start runs past midnight"
+            />
+          </div>
+          <label style={{ display: 'flex', alignItems: 'center', gap: '4px', fontSize: '13px' }}>
+            <input
+              type="checkbox"
+              checked={slot.shuffle}
+              onChange={(e) => updateSlot(slot.id, { shuffle: e.target.checked })}
+            />
+            Shuffle
+          </label>
+          <label style={{ display: 'flex', alignItems: 'center', gap: '4px', fontSize: '13px' }}>
+            <input
+              type="checkbox"
+              checked={slot.finishCurrentSong}
+              onChange={(e) => updateSlot(slot.id, { finishCurrentSong: e.target.checked })}
+            />
+            Finish current song
+          </label>
+          <select
+            className="setting-select"
+            value={slot.priorityRequests}
+            onChange={(e) => updateSlot(slot.id, { priorityRequests: e.target.value as PriorityRequestHandling })}
+            title="Pending kiosk requests when this slot starts"
+          >
+            <option value="keep">Keep requests</option>
+            <option value="drop">Drop requests</option>
+          </select>
+          <button className="action-btn" onClick={() => removeSlot(slot.id)} title="Remove slot">
+            <span className="material-symbols-rounded">delete</span>
+          </button>
+        </div>
+      ))}
+
+      <div className="setting-item">
+        <label>{schedule.slots.length === 1 ? '1 slot' : `${schedule.slots.length} slots`}</label>
+        <button className="action-btn" onClick={addSlot} disabled={playlistNames.length === 0}>
+          <span className="material-symbols-rounded">add</span>
+          Add Slot
+        </button>
+      </div>
+    </>
+  );
+};
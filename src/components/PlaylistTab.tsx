@@ -1,110 +1,319 @@
 // components/PlaylistTab.tsx
-import React from 'react';
-import { Video } from '../types';
-import { cleanVideoTitle } from '../utils/playlistHelpers';
+// Virtual playlist editor - hand-built playlists of library videos, independent of folders.
+// Shared by the player and the admin consoles; the caller decides where saves go.
+import React, { useState, useMemo, useRef, useEffect } from 'react';
+import type { Video, VirtualPlaylist, VirtualPlaylistInput } from '../types';
+import { cleanVideoTitle, getDisplayArtist } from '../utils/playlistHelpers';
+import {
+  getVirtualPlaylistVideoId,
+  findVirtualPlaylistVideos,
+  parsePlaylistFile,
+  downloadVirtualPlaylist,
+  PlaylistFileFormat
+} from '../utils/virtualPlaylists';
 
 interface PlaylistTabProps {
-  playlist: Video[];
-  currentIndex: number;
-  currentVideo: Video | null;
-  onPlayVideo: (index: number) => void;
-  onRemoveFromQueue: (videoId: string) => void;
+  virtualPlaylists: VirtualPlaylist[];
+  library: Record<string, Video[]>;
+  onSave: (playlist: VirtualPlaylistInput) => Promise<void>; // Throw to show the error
+  onDelete: (id: string) => Promise<void>;
+  onLoad: (playlist: VirtualPlaylist) => void;
 }
 
+const MAX_SEARCH_RESULTS = 50;
+
 export const PlaylistTab: React.FC<PlaylistTabProps> = ({
-  playlist,
-  currentIndex,
-  currentVideo,
-  onPlayVideo,
-  onRemoveFromQueue
+  virtualPlaylists,
+  library,
+  onSave,
+  onDelete,
+  onLoad
 }) => {
-  if (playlist.length === 0) {
-    return (
-      <div className="demo-section">
-        <h2>Playlist</h2>
-        <p>No playlist loaded. Select a playlist from the dropdown above.</p>
-      </div>
-    );
-  }
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<VirtualPlaylistInput | null>(null);
+  const [search, setSearch] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [awaitingName, setAwaitingName] = useState<string | null>(null); // New playlist to select once the list has it
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
-  // Reorder playlist so current playing song is at the top
-  const reorderedPlaylist = React.useMemo(() => {
-    if (currentIndex < 0 || currentIndex >= playlist.length) {
-      return playlist.map((video, index) => ({ video, originalIndex: index }));
+  const selected = virtualPlaylists.find((playlist: VirtualPlaylist) => playlist.id === selectedId) || null;
+  // Unsaved edits win over the stored playlist
+  const editing: VirtualPlaylistInput | null = draft || selected;
+  const isDirty = draft !== null;
+
+  useEffect(() => {
+    if (!awaitingName) return;
+    const created = virtualPlaylists.find((playlist: VirtualPlaylist) => playlist.name.toLowerCase() === awaitingName.toLowerCase());
+    if (created) {
+      setSelectedId(created.id);
+      setAwaitingName(null);
     }
+  }, [awaitingName, virtualPlaylists]);
+
+  const allVideos = useMemo(() => Object.values(library).flat(), [library]);
 
-    const result = [];
-    // Add current song and everything after it
-    for (let i = currentIndex; i < playlist.length; i++) {
-      result.push({ video: playlist[i], originalIndex: i });
+  // One row per stored ID, so files that left the library can still be removed
+  const editingVideos = useMemo(
+    () => (editing ? findVirtualPlaylistVideos(editing.videoIds, library) : []),
+    [editing, library]
+  );
+
+  const searchResults = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    if (!query) return [];
+    return allVideos
+      .filter((video: Video) => `${video.title} ${video.artist || ''}`.toLowerCase().includes(query))
+      .slice(0, MAX_SEARCH_RESULTS);
+  }, [allVideos, search]);
+
+  const runAction = async (action: () => Promise<void>, success?: string) => {
+    setError(null);
+    setNotice(null);
+    try {
+      await action();
+      if (success) setNotice(success);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
     }
-    // Add everything before current song
-    for (let i = 0; i < currentIndex; i++) {
-      result.push({ video: playlist[i], originalIndex: i });
+  };
+
+  const selectPlaylist = (id: string | null) => {
+    setSelectedId(id);
+    setDraft(null);
+    setError(null);
+    setNotice(null);
+  };
+
+  const updateDraft = (changes: Partial<VirtualPlaylistInput>) => {
+    if (!editing) return;
+    setDraft({ id: editing.id, name: editing.name, videoIds: editing.videoIds, ...changes });
+  };
+
+  const moveVideo = (index: number, offset: number) => {
+    if (!editing) return;
+    const target = index + offset;
+    if (target < 0 || target >= editing.videoIds.length) return;
+    const videoIds = [...editing.videoIds];
+    [videoIds[index], videoIds[target]] = [videoIds[target], videoIds[index]];
+    updateDraft({ videoIds });
+  };
+
+  const handleNew = () => {
+    setSelectedId(null);
+    setDraft({ name: '', videoIds: [] });
+    setError(null);
+    setNotice(null);
+  };
+
+  const handleSave = () => runAction(async () => {
+    if (!draft) return;
+    await onSave(draft);
+    if (!draft.id) setAwaitingName(draft.name.trim());
+    setDraft(null);
+  }, 'Playlist saved');
+
+  const handleDelete = () => runAction(async () => {
+    if (!selected || !window.confirm(`Delete the playlist "${selected.name}"?`)) return;
+    await onDelete(selected.id);
+    selectPlaylist(null);
+  });
+
+  // Imported playlists are saved straight away as new playlists
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    let parsed: ReturnType<typeof parsePlaylistFile>;
+    try {
+      parsed = parsePlaylistFile(await file.text(), file.name, library);
+    } catch (err) {
+      setError(`Could not read ${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+      return;
     }
-    return result;
-  }, [playlist, currentIndex]);
+    const missing = parsed.missing.length > 0 ? ` (${parsed.missing.length} not found in the library)` : '';
+    await runAction(
+      () => onSave({ name: parsed.name, videoIds: parsed.videoIds }),
+      `Imported "${parsed.name}" with ${parsed.videoIds.length} videos${missing}`
+    );
+  };
+
+  const handleExport = (format: PlaylistFileFormat) => {
+    if (selected) downloadVirtualPlaylist(selected, library, format);
+  };
 
   return (
-    <div className="demo-section">
-      <h2>Playlist</h2>
-
-      <div style={{ maxHeight: '400px', overflowY: 'auto' }}>
-        {reorderedPlaylist.map(({ video, originalIndex }, displayIndex) => (
-          <div
-            key={`${video.id}-${originalIndex}`}
-            style={{
-              padding: '8px',
-              borderBottom: '1px solid #eee',
-              backgroundColor: currentVideo && video.id === currentVideo.id ? '#e3f2fd' : 'transparent',
-              display: 'flex',
-              justifyContent: 'space-between',
-              alignItems: 'center'
-            }}
+    <div className="tab-content active">
+      <div className="tab-header">
+        <h1>Playlists</h1>
+        <div className="tab-actions">
+          <button className="action-btn" onClick={handleNew}>
+            <span className="material-symbols-rounded">playlist_add</span>
+            New Playlist
+          </button>
+          <button className="action-btn" onClick={() => fileInputRef.current?.click()}>
+            <span className="material-symbols-rounded">file_open</span>
+            Import M3U / JSON
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".m3u,.m3u8,.json"
+            style={{ display: 'none' }}
+            onChange={handleImport}
+          />
+        </div>
+      </div>
+
+      <div className="search-radio-group" style={{ display: 'flex', flexWrap: 'wrap', gap: '6px', padding: '0 16px 12px' }}>
+        {virtualPlaylists.length === 0 && !draft && (
+          <span style={{ color: 'var(--text-secondary)', fontSize: '13px' }}>
+            No playlists yet - create one or import an M3U/JSON file.
+          </span>
+        )}
+        {virtualPlaylists.map((playlist: VirtualPlaylist) => (
+          <button
+            key={playlist.id}
+            className={`radio-btn ${playlist.id === selectedId ? 'active' : ''}`}
+            onClick={() => selectPlaylist(playlist.id)}
           >
-            <span style={{ flex: 1 }}>
-              {originalIndex + 1}. {cleanVideoTitle(video.title)}{video.artist !== 'Unknown Artist' ? ` by ${video.artist}` : ''}
-              {currentVideo && video.id === currentVideo.id && (
-                <span style={{ color: '#1976d2', fontWeight: 'bold', marginLeft: '8px' }}>
-                  (NOW PLAYING)
-                </span>
-              )}
-            </span>
-            <div style={{ display: 'flex', gap: '5px' }}>
-              <button
-                onClick={() => onPlayVideo(originalIndex)}
-                style={{
-                  background: 'green',
-                  color: 'white',
-                  border: 'none',
-                  borderRadius: '4px',
-                  padding: '4px 8px',
-                  cursor: 'pointer',
-                  fontSize: '14px'
-                }}
-                title="Play this video"
-              >
-                ▶️
+            {playlist.name} ({playlist.videoIds.length})
+          </button>
+        ))}
+      </div>
+
+      {error && <p style={{ color: 'var(--error)', padding: '0 16px' }}>{error}</p>}
+      {notice && <p style={{ color: 'var(--text-secondary)', padding: '0 16px' }}>{notice}</p>}
+
+      {editing && (
+        <>
+          <div className="setting-item" style={{ display: 'flex', alignItems: 'center', gap: '8px', flexWrap: 'wrap', padding: '0 16px 12px' }}>
+            <input
+              type="text"
+              className="search-input"
+              style={{ flex: '1 1 200px' }}
+              placeholder="Playlist name"
+              value={editing.name}
+              onChange={(e) => updateDraft({ name: e.target.value })}
+            />
+            <button className="action-btn" onClick={handleSave} disabled={!isDirty || !editing.name.trim()}>
+              <span className="material-symbols-rounded">save</span>
+              Save
+            </button>
+            {isDirty && (
+              <button className="action-btn" onClick={() => setDraft(null)}>
+                <span className="material-symbols-rounded">undo</span>
+                Revert
               </button>
+            )}
+            {selected && (
+              <>
+                <button className="action-btn" onClick={() => onLoad(selected)} disabled={isDirty || selected.videoIds.length === 0}>
+                  <span className="material-symbols-rounded">play_arrow</span>
+                  Load
+                </button>
+                <button className="action-btn" onClick={() => handleExport('m3u8')} disabled={isDirty}>
+                  <span className="material-symbols-rounded">download</span>
+                  M3U8
+                </button>
+                <button className="action-btn" onClick={() => handleExport('json')} disabled={isDirty}>
+                  <span className="material-symbols-rounded">download</span>
+                  JSON
+                </button>
+                <button className="action-btn" onClick={handleDelete}>
+                  <span className="material-symbols-rounded">delete</span>
+                  Delete
+                </button>
+              </>
+            )}
+          </div>
+
+          <div className="table-container">
+            <table className="media-table">
+              <thead>
+                <tr>
+                  <th className="col-index">#</th>
+                  <th className="col-title">Title</th>
+                  <th className="col-artist">Artist</th>
+                  <th>Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {editingVideos.length === 0 ? (
+                  <tr className="empty-state">
+                    <td colSpan={4}>Search the library below to add videos.</td>
+                  </tr>
+                ) : (
+                  editingVideos.map((video: Video | null, index: number) => (
+                    <tr key={`${editing.videoIds[index]}-${index}`}>
+                      <td className="col-index">{index + 1}</td>
+                      {video ? (
+                        <>
+                          <td className="col-title">{cleanVideoTitle(video.title)}</td>
+                          <td>{getDisplayArtist(video.artist)}</td>
+                        </>
+                      ) : (
+                        <td colSpan={2} style={{ color: 'var(--text-secondary)' }} title={editing.videoIds[index]}>
+                          Missing: {editing.videoIds[index].split(/[\\/]/).pop()}
+                        </td>
+                      )}
+                      <td>
+                        <button className="action-btn" onClick={() => moveVideo(index, -1)} disabled={index === 0} title="Move up">
+                          <span className="material-symbols-rounded">arrow_upward</span>
+                        </button>
+                        <button className="action-btn" onClick={() => moveVideo(index, 1)} disabled={index === editingVideos.length - 1} title="Move down">
+                          <span className="material-symbols-rounded">arrow_downward</span>
+                        </button>
+                        <button
+                          className="action-btn"
+                          onClick={() => updateDraft({ videoIds: editing.videoIds.filter((_id: string, i: number) => i !== index) })}
+                          title="Remove from playlist"
+                        >
+                          <span className="material-symbols-rounded">close</span>
+                        </button>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="search-header" style={{ padding: '12px 16px' }}>
+            <div className="search-input-container">
+              <span className="material-symbols-rounded search-icon">search</span>
+              <input
+                type="text"
+                placeholder="Find videos to add…"
+                className="search-input"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+              />
+            </div>
+          </div>
+          {searchResults.map((video: Video) => (
+            <div
+              key={getVirtualPlaylistVideoId(video)}
+              className="setting-item"
+              style={{ display: 'flex', alignItems: 'center', gap: '8px', padding: '4px 16px' }}
+            >
+              <span style={{ flex: 1 }}>
+                {cleanVideoTitle(video.title)}
+                <span style={{ color: 'var(--text-secondary)' }}> - {getDisplayArtist(video.artist)}</span>
+              </span>
               <button
-                onClick={() => onRemoveFromQueue(video.id)}
-                style={{
-                  background: 'red',
-                  color: 'white',
-                  border: 'none',
-                  borderRadius: '4px',
-                  padding: '4px 8px',
-                  cursor: 'pointer',
-                  fontSize: '14px'
-                }}
-                title="Remove from queue"
+                className="action-btn"
+                onClick={() => updateDraft({ videoIds: [...editing.videoIds, getVirtualPlaylistVideoId(video)] })}
+                title="Add to playlist"
               >
-                🗑️
+                <span className="material-symbols-rounded">add</span>
               </button>
             </div>
-          </div>
-        ))}
-      </div>
+          ))}
+        </>
+      )}
     </div>
   );
-};
\ No newline at end of file
+};
+
+export default PlaylistTab;
@@ -7,10 +7,12 @@ import {
   MIN_PLAYER_ID_LENGTH 
 } from '../utils/playerUtils';
 import { CrossfadeMode } from '../types';
+import { MIN_TARGET_LOUDNESS, MAX_TARGET_LOUDNESS } from '../utils/loudness';
 
 interface Settings {
   autoShufflePlaylists: boolean;
   normalizeAudioLevels: boolean;
+  targetLoudness: number; // LUFS
   enableFullscreenPlayer: boolean;
   fadeDuration: number;
   crossfadeMode: CrossfadeMode;
@@ -410,7 +412,7 @@ export const SettingsTab: React.FC<SettingsTabProps> = ({
           <div className="settings-item-info">
             <div className="settings-item-label">Normalize Audio Levels</div>
             <div className="settings-item-description">
-              Apply volume normalization for consistent audio levels across tracks
+              Bring every track to the same measured loudness before it starts playing
             </div>
           </div>
           <div
@@ -426,6 +428,38 @@ export const SettingsTab: React.FC<SettingsTabProps> = ({
             }}
           />
         </div>
+
+        {/* Target Loudness */}
+        {settings.normalizeAudioLevels && (
+          <div className="settings-item">
+            <div className="settings-item-info">
+              <div className="settings-item-label">Target Loudness</div>
+              <div className="settings-item-description">
+                Integrated loudness each track is normalized to (louder venues: -10 to -12, quieter: -16 to -18)
+              </div>
+            </div>
+            <div style={{ display: 'flex', alignItems: 'center', gap: '12px' }}>
+              <input
+                type="range"
+                className="settings-slider"
+                min={MIN_TARGET_LOUDNESS}
+                max={MAX_TARGET_LOUDNESS}
+                step={1}
+                value={settings.targetLoudness}
+                onChange={(e) => onUpdateSetting('targetLoudness', parseFloat(e.target.value))}
+              />
+              <span style={{ 
+                minWidth: '64px', 
+                textAlign: 'right',
+                color: 'var(--yt-text-primary)',
+                fontSize: '14px',
+                fontWeight: 500
+              }}>
+                {settings.targetLoudness} LUFS
+              </span>
+            </div>
+          </div>
+        )}
       </div>
 
       {/* Display Section */}
@@ -1,7 +1,7 @@
 // src/components/Sidebar.tsx
 import React from 'react';
 
-export type TabId = 'queue' | 'search' | 'browse' | 'settings' | 'tools';
+export type TabId = 'queue' | 'search' | 'browse' | 'playlists' | 'settings' | 'tools' | 'fleet';
 
 interface SidebarProps {
   collapsed: boolean;
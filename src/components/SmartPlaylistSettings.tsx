@@ -0,0 +1,353 @@
+// components/SmartPlaylistSettings.tsx
+// Smart playlist (rule-based playlist) editor for the Settings tab
+import React, { useEffect, useState } from 'react';
+import type { Video } from '../types';
+import type {
+  SmartPlaylist,
+  SmartPlaylistField,
+  SmartPlaylistInput,
+  SmartPlaylistRule,
+  SmartPlaylistSort
+} from '../types/supabase';
+import { getPlaylistDisplayName } from '../utils/playlistHelpers';
+import { describeSmartPlaylistRule } from '../utils/smartPlaylists';
+
+interface SmartPlaylistSettingsProps {
+  smartPlaylists: SmartPlaylist[];
+  smartPlaylistVideos: Record<string, Video[]>;
+  playlistNames: string[]; // Folder playlists, for "playlist folder is" rules
+  enabled: boolean; // Rules live in Supabase
+  onSave: (playlist: SmartPlaylistInput) => Promise<void>; // Throw to show the error
+  onDelete: (id: string) => Promise<void>;
+}
+
+const FIELD_LABELS: Record<SmartPlaylistField, string> = {
+  artist: 'Artist is',
+  playlist: 'Playlist folder is',
+  play_count: 'Play count',
+  duration: 'Duration',
+  last_played: 'Not played in the last',
+  karaoke: 'Karaoke'
+};
+
+const SORT_LABELS: Record<SmartPlaylistSort, string> = {
+  title: 'Title',
+  artist: 'Artist',
+  play_count: 'Most played',
+  last_played: 'Longest unplayed'
+};
+
+const inputStyle: React.CSSProperties = {
+  padding: '6px 8px',
+  borderRadius: '4px',
+  border: '1px solid var(--border-color)',
+  background: 'var(--bg-secondary)',
+  color: 'var(--text-primary)',
+  fontSize: '14px'
+};
+
+function createRule(field: SmartPlaylistField): SmartPlaylistRule {
+  switch (field) {
+    case 'artist': return { field, operator: 'in', values: [] };
+    case 'playlist': return { field, operator: 'in', values: [] };
+    case 'play_count': return { field, operator: 'gt', value: 10 };
+    case 'duration': return { field, operator: 'lt', value: 5 * 60 };
+    case 'last_played': return { field, operator: 'not_within_days', value: 7 };
+    case 'karaoke': return { field, operator: 'exclude' };
+  }
+}
+
+// Artist lists are edited as comma-separated text, so blanks are only dropped on save
+function cleanRule(rule: SmartPlaylistRule): SmartPlaylistRule {
+  return rule.field === 'artist' || rule.field === 'playlist'
+    ? { ...rule, values: rule.values.map(value => value.trim()).filter(Boolean) }
+    : rule;
+}
+
+const newPlaylist = (): SmartPlaylistInput => ({
+  name: '',
+  rules: [createRule('karaoke')],
+  match_mode: 'all',
+  sort_by: 'title',
+  max_videos: null
+});
+
+export const SmartPlaylistSettings: React.FC<SmartPlaylistSettingsProps> = ({
+  smartPlaylists,
+  smartPlaylistVideos,
+  playlistNames,
+  enabled,
+  onSave,
+  onDelete
+}) => {
+  const [draft, setDraft] = useState<SmartPlaylistInput | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Drop the draft if its playlist was deleted elsewhere
+  useEffect(() => {
+    if (draft?.id && !smartPlaylists.some(playlist => playlist.id === draft.id)) {
+      setDraft(null);
+    }
+  }, [draft, smartPlaylists]);
+
+  const edit = (playlist: SmartPlaylistInput | null) => {
+    setDraft(playlist);
+    setError(null);
+  };
+
+  const update = (changes: Partial<SmartPlaylistInput>) => {
+    if (draft) setDraft({ ...draft, ...changes });
+  };
+
+  const updateRule = (index: number, rule: SmartPlaylistRule) => {
+    if (draft) update({ rules: draft.rules.map((existing, i) => (i === index ? rule : existing)) });
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    setSaving(true);
+    setError(null);
+    try {
+      await action();
+      setDraft(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSave = () => run(() => onSave({ ...draft!, rules: draft!.rules.map(cleanRule) }));
+
+  const handleDelete = () => {
+    if (!draft?.id || !window.confirm(`Delete the smart playlist "${draft.name}"?`)) return;
+    run(() => onDelete(draft.id!));
+  };
+
+  const renderRuleInputs = (rule: SmartPlaylistRule, index: number) => {
+    switch (rule.field) {
+      case 'artist':
+        return (
+          <input
+            type="text"
+            style={{ ...inputStyle, flex: '1 1 180px' }}
+            placeholder="Artists, comma separated"
+            value={rule.values.join(',')}
+            onChange={(e) => updateRule(index, { ...rule, values: e.target.value.split(',') })}
+          />
+        );
+      case 'playlist':
+        return (
+          <select
+            multiple
+            className="setting-select"
+            size={Math.min(4, Math.max(2, playlistNames.length))}
+            value={rule.values}
+            onChange={(e) => updateRule(index, { ...rule, values: Array.from(e.target.selectedOptions, option => option.value) })}
+            style={{ flex: '1 1 180px' }}
+          >
+            {playlistNames.map(name => (
+              <option key={name} value={name}>{getPlaylistDisplayName(name)}</option>
+            ))}
+          </select>
+        );
+      case 'play_count':
+        return (
+          <>
+            <select
+              className="setting-select"
+              value={rule.operator}
+              onChange={(e) => updateRule(index, { ...rule, operator: e.target.value as 'gt' | 'lt' })}
+            >
+              <option value="gt">more than</option>
+              <option value="lt">fewer than</option>
+            </select>
+            <input
+              type="number"
+              min={0}
+              style={{ ...inputStyle, width: '80px' }}
+              value={rule.value}
+              onChange={(e) => updateRule(index, { ...rule, value: Math.max(0, Number(e.target.value) || 0) })}
+            />
+            <span style={{ fontSize: '13px' }}>plays</span>
+          </>
+        );
+      case 'duration':
+        return (
+          <>
+            <select
+              className="setting-select"
+              value={rule.operator}
+              onChange={(e) => updateRule(index, { ...rule, operator: e.target.value as 'gt' | 'lt' })}
+            >
+              <option value="lt">shorter than</option>
+              <option value="gt">longer than</option>
+            </select>
+            <input
+              type="number"
+              min={0}
+              step={0.5}
+              style={{ ...inputStyle, width: '80px' }}
+              value={rule.value / 60}
+              onChange={(e) => updateRule(index, { ...rule, value: Math.round(Math.max(0, Number(e.target.value) || 0) * 60) })}
+            />
+            <span style={{ fontSize: '13px' }}>min</span>
+          </>
+        );
+      case 'last_played':
+        return (
+          <>
+            <input
+              type="number"
+              min={1}
+              style={{ ...inputStyle, width: '80px' }}
+              value={rule.value}
+              onChange={(e) => updateRule(index, { ...rule, value: Math.max(1, Number(e.target.value) || 1) })}
+            />
+            <span style={{ fontSize: '13px' }}>days</span>
+          </>
+        );
+      case 'karaoke':
+        return (
+          <select
+            className="setting-select"
+            value={rule.operator}
+            onChange={(e) => updateRule(index, { ...rule, operator: e.target.value as 'exclude' | 'only' })}
+          >
+            <option value="exclude">excluded</option>
+            <option value="only">only</option>
+          </select>
+        );
+    }
+  };
+
+  if (!enabled) {
+    return (
+      <div className="setting-item">
+        <label>Smart Playlists</label>
+        <span className="setting-hint" style={{ fontSize: '12px', color: 'var(--text-secondary)' }}>
+          Available once connected to Supabase
+        </span>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="setting-item" style={{ flexWrap: 'wrap', gap: '6px' }}>
+        <div className="search-radio-group" style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '6px' }}>
+          {smartPlaylists.map(playlist => (
+            <button
+              key={playlist.id}
+              className={`radio-btn ${draft?.id === playlist.id ? 'active' : ''}`}
+              onClick={() => edit(playlist)}
+              title={playlist.rules.map(describeSmartPlaylistRule).join(playlist.match_mode === 'any' ? ' or ' : ' and ')}
+            >
+              {playlist.name} ({smartPlaylistVideos[playlist.name]?.length ?? 0})
+            </button>
+          ))}
+        </div>
+        <button className="action-btn" onClick={() => edit(newPlaylist())}>
+          <span className="material-symbols-rounded">add</span>
+          New Smart Playlist
+        </button>
+      </div>
+
+      {error && <p style={{ color: 'var(--error)', fontSize: '13px' }}>{error}</p>}
+
+      {draft && (
+        <>
+          <div className="setting-item" style={{ flexWrap: 'wrap', gap: '8px' }}>
+            <input
+              type="text"
+              style={{ ...inputStyle, flex: '1 1 200px' }}
+              placeholder="Playlist name"
+              value={draft.name}
+              onChange={(e) => update({ name: e.target.value })}
+            />
+            <div className="search-radio-group" style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+              <button
+                className={`radio-btn ${draft.match_mode === 'all' ? 'active' : ''}`}
+                onClick={() => update({ match_mode: 'all' })}
+              >
+                Match all
+              </button>
+              <button
+                className={`radio-btn ${draft.match_mode === 'any' ? 'active' : ''}`}
+                onClick={() => update({ match_mode: 'any' })}
+              >
+                Match any
+              </button>
+            </div>
+          </div>
+
+          {draft.rules.map((rule, index) => (
+            <div key={index} className="setting-item" style={{ flexWrap: 'wrap', gap: '8px' }}>
+              <select
+                className="setting-select"
+                value={rule.field}
+                onChange={(e) => updateRule(index, createRule(e.target.value as SmartPlaylistField))}
+              >
+                {(Object.keys(FIELD_LABELS) as SmartPlaylistField[]).map(field => (
+                  <option key={field} value={field}>{FIELD_LABELS[field]}</option>
+                ))}
+              </select>
+              {renderRuleInputs(rule, index)}
+              <button
+                className="action-btn"
+                onClick={() => update({ rules: draft.rules.filter((_rule, i) => i !== index) })}
+                title="Remove rule"
+              >
+                <span className="material-symbols-rounded">delete</span>
+              </button>
+            </div>
+          ))}
+
+          <div className="setting-item" style={{ flexWrap: 'wrap', gap: '8px' }}>
+            <button className="action-btn" onClick={() => update({ rules: [...draft.rules, createRule('artist')] })}>
+              <span className="material-symbols-rounded">add</span>
+              Add Rule
+            </button>
+            <select
+              className="setting-select"
+              value={draft.sort_by}
+              onChange={(e) => update({ sort_by: e.target.value as SmartPlaylistSort })}
+              title="Order when loaded"
+            >
+              {(Object.keys(SORT_LABELS) as SmartPlaylistSort[]).map(sort => (
+                <option key={sort} value={sort}>Sort: {SORT_LABELS[sort]}</option>
+              ))}
+            </select>
+            <input
+              type="number"
+              min={1}
+              style={{ ...inputStyle, width: '100px' }}
+              placeholder="No limit"
+              title="Maximum videos"
+              value={draft.max_videos ?? ''}
+              onChange={(e) => update({ max_videos: Number(e.target.value) > 0 ? Math.round(Number(e.target.value)) : null })}
+            />
+            <button className="action-btn" onClick={handleSave} disabled={saving || !draft.name.trim()}>
+              <span className="material-symbols-rounded">save</span>
+              Save
+            </button>
+            <button className="action-btn" onClick={() => edit(null)} disabled={saving}>
+              Cancel
+            </button>
+            {draft.id && (
+              <button className="action-btn" onClick={handleDelete} disabled={saving}>
+                <span className="material-symbols-rounded">delete</span>
+                Delete
+              </button>
+            )}
+          </div>
+          <span className="setting-hint" style={{ fontSize: '12px', color: 'var(--text-secondary)' }}>
+            {draft.rules.length === 0
+              ? 'No rules - the whole library'
+              : draft.rules.map(describeSmartPlaylistRule).join(draft.match_mode === 'any' ? ' or ' : ' and ')}
+          </span>
+        </>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,165 @@
+// components/ZonesSettings.tsx
+// Extra zones (patio, back bar...) - each runs its own player with its own queue, display and player ID
+import React, { useState, useEffect, useCallback } from 'react';
+import type { ZoneConfig, ZoneStatus } from '../types/electron';
+
+const STATUS_LABELS: Record<ZoneStatus['status'], string> = {
+  running: 'RUNNING',
+  restarting: 'RESTARTING',
+  stopped: 'STOPPED',
+  error: 'ERROR'
+};
+
+export const ZonesSettings: React.FC = () => {
+  const [currentZone, setCurrentZone] = useState<ZoneConfig | null>(null);
+  const [zones, setZones] = useState<ZoneStatus[]>([]);
+  const [drafts, setDrafts] = useState<Partial<ZoneConfig>[] | null>(null); // Unsaved edits
+  const [newZoneName, setNewZoneName] = useState('');
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [loaded, setLoaded] = useState(false);
+
+  // Load zones and follow their status from the main process
+  useEffect(() => {
+    const api = window.electronAPI;
+    if (!api?.getZones) return;
+
+    api.getZones().then(({ current, zones: currentZones }) => {
+      setCurrentZone(current);
+      setZones(currentZones);
+      setLoaded(true);
+    });
+
+    return api.onZonesStatus(setZones);
+  }, []);
+
+  const editing = drafts ?? zones;
+
+  const updateDraft = (index: number, changes: Partial<ZoneConfig>) => {
+    setDrafts(editing.map((zone, i) => (i === index ? { ...zone, ...changes } : zone)));
+  };
+
+  const save = useCallback(async (updated: Partial<ZoneConfig>[]) => {
+    const result = await window.electronAPI.saveZones(updated.map(({ id, name, playerId, enabled }) => ({ id, name, playerId, enabled })));
+    if (result.zones) {
+      setZones(result.zones);
+    }
+    if (result.success) {
+      setDrafts(null);
+    }
+    setSaveError(result.success ? null : result.error || 'Failed to save zones');
+  }, []);
+
+  const handleAdd = () => {
+    const name = newZoneName.trim();
+    if (!name) return;
+    setNewZoneName('');
+    save([...editing, { name, playerId: '', enabled: true }]);
+  };
+
+  const handleRemove = (zone: Partial<ZoneConfig>) => {
+    if (!window.confirm(`Remove zone "${zone.name}"? Its player stops; its settings stay on disk if you add it again.`)) return;
+    save(editing.filter(z => z !== zone));
+  };
+
+  if (!loaded) {
+    return null;
+  }
+
+  // Zone players are managed from the main player
+  if (currentZone) {
+    return (
+      <div className="setting-item">
+        <label>Zone</label>
+        <span style={{ fontSize: '13px', color: 'var(--text-secondary)' }}>
+          This player is the &quot;{currentZone.name}&quot; zone. Add, rename or remove zones from the main player.
+        </span>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <span className="setting-hint" style={{ fontSize: '12px', color: 'var(--text-secondary)' }}>
+        Each zone opens its own player window with its own queue, volume, display and Player ID, so kiosks
+        and the web admin can control it separately. The music library is shared. Set the zone&apos;s display
+        and Player ID in its own Settings; a Player ID entered here replaces it when the zone starts.
+      </span>
+
+      {editing.map((zone, index) => {
+        const status = zones.find(z => z.id === zone.id);
+        return (
+          <div className="setting-item" key={zone.id || `new-${index}`}>
+            <input
+              type="text"
+              className="setting-input"
+              value={zone.name || ''}
+              onChange={(e) => updateDraft(index, { name: e.target.value })}
+              style={{ maxWidth: '160px' }}
+            />
+            <input
+              type="text"
+              className="setting-input"
+              value={zone.playerId || ''}
+              onChange={(e) => updateDraft(index, { playerId: e.target.value.toUpperCase() })}
+              placeholder="Player ID"
+              style={{ maxWidth: '160px', marginLeft: '8px' }}
+            />
+            <div className="search-radio-group" style={{ display: 'flex', alignItems: 'center', gap: '6px', marginLeft: '8px' }}>
+              <button
+                className={`radio-btn ${!zone.enabled ? 'active' : ''}`}
+                onClick={() => updateDraft(index, { enabled: false })}
+              >
+                Off
+              </button>
+              <button
+                className={`radio-btn ${zone.enabled ? 'active' : ''}`}
+                onClick={() => updateDraft(index, { enabled: true })}
+              >
+                On
+              </button>
+            </div>
+            <span
+              className={`status-indicator ${status?.status === 'running' ? 'active' : ''}`}
+              style={{ marginLeft: '12px' }}
+              title={status?.lastError || undefined}
+            >
+              {status ? STATUS_LABELS[status.status] : 'NOT SAVED'}
+            </span>
+            <button className="action-btn" style={{ marginLeft: '8px' }} onClick={() => handleRemove(zone)}>
+              <span className="material-symbols-rounded">delete</span>
+            </button>
+          </div>
+        );
+      })}
+
+      <div className="setting-item">
+        <input
+          type="text"
+          className="setting-input"
+          value={newZoneName}
+          onChange={(e) => setNewZoneName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleAdd();
+          }}
+          placeholder="New zone name (e.g. Patio)"
+          style={{ maxWidth: '240px' }}
+        />
+        <button className="action-btn" style={{ marginLeft: '8px' }} onClick={handleAdd} disabled={!newZoneName.trim()}>
+          <span className="material-symbols-rounded">add</span>
+          Add Zone
+        </button>
+        {drafts && (
+          <button className="action-btn" style={{ marginLeft: '8px' }} onClick={() => save(drafts)}>
+            <span className="material-symbols-rounded">save</span>
+            Apply
+          </button>
+        )}
+        {saveError && (
+          <span style={{ marginLeft: '12px', color: 'var(--error)', fontSize: '12px' }}>{saveError}</span>
+        )}
+      </div>
+    </>
+  );
+};
+
+export default ZonesSettings;
@@ -3,10 +3,13 @@ import { Sidebar, TabId } from '../Sidebar';
 import { QueueManager } from './shared/QueueManager';
 import { SearchInterface } from './shared/SearchInterface';
 import { SettingsPanel } from './shared/SettingsPanel';
+import { AdminSignIn } from './shared/AdminSignIn';
+import { FleetDashboard } from './shared/FleetDashboard';
+import { PlaylistTab } from '../PlaylistTab';
 import { unifiedAPI } from '../../services/UnifiedAPI';
 import { getPlaylistDisplayName } from '../../utils/playlistHelpers';
-import type { SupabasePlayerState } from '../../types/supabase';
-import type { Video } from '../../types';
+import type { SupabasePlayerState, LibraryChangeEntry } from '../../types/supabase';
+import type { Video, VirtualPlaylist, VirtualPlaylistInput } from '../../types';
 
 // Admin Dashboard Components
 const SystemStatusCard = ({ title, status, value, icon, color = 'blue' }: {
@@ -40,11 +43,11 @@ const SystemStatusCard = ({ title, status, value, icon, color = 'blue' }: {
   </div>
 );
 
-const ActivityFeed = ({ activities }: { activities: Array<{ time: string; action: string; user: string }> }) => (
+const ActivityFeed = ({ title, activities }: { title: string; activities: Array<{ time: string; action: string; user: string }> }) => (
   <div className="bg-ytm-surface rounded-lg p-6 border border-ytm-divider">
     <h3 className="text-lg font-semibold text-ytm-text mb-4 flex items-center">
       <span className="material-symbols-rounded mr-2">history</span>
-      Recent Activity
+      {title}
     </h3>
     {activities.length === 0 ? (
       <div className="text-center py-8">
@@ -69,6 +72,18 @@ const ActivityFeed = ({ activities }: { activities: Array<{ time: string; action
   </div>
 );
 
+const MAX_LIBRARY_CHANGES = 20;
+
+const describeLibraryChange = (entry: LibraryChangeEntry): string => {
+  const playlist = entry.playlist ? getPlaylistDisplayName(entry.playlist) : 'the library';
+  switch (entry.change_type) {
+    case 'added': return `added to ${playlist}`;
+    case 'removed': return `removed from ${playlist}`;
+    case 'modified': return `changed in ${playlist}`;
+    case 'renamed': return `renamed or moved to ${playlist} (was ${entry.previous_path?.split(/[\\/]/).pop() || 'unknown'})`;
+  }
+};
+
 const QuickActions = ({ onAction }: { onAction: (action: string) => void }) => (
   <div className="bg-ytm-surface rounded-lg p-6 border border-ytm-divider">
     <h3 className="text-lg font-semibold text-ytm-text mb-4 flex items-center">
@@ -108,11 +123,17 @@ export const AdminWindow: React.FC = () => {
   // Admin-specific state
   const [playerState, setPlayerState] = useState<SupabasePlayerState | null>(null);
   const [playlists, setPlaylists] = useState<Record<string, Video[]>>({});
+  const [virtualPlaylists, setVirtualPlaylists] = useState<VirtualPlaylist[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  // Activity feed - empty for now (can be populated with real activity data in the future)
-  const activities: Array<{ time: string; action: string; user: string }> = [];
+  // Activity feed - files the player's library watcher saw change, newest first
+  const [libraryChanges, setLibraryChanges] = useState<LibraryChangeEntry[]>([]);
+  const activities = libraryChanges.map((entry: LibraryChangeEntry) => ({
+    time: new Date(entry.detected_at).toLocaleString(),
+    action: describeLibraryChange(entry),
+    user: entry.title || entry.file_path.split(/[\\/]/).pop() || entry.file_path
+  }));
 
   const handleQuickAction = async (action: string) => {
     try {
@@ -184,6 +205,20 @@ export const AdminWindow: React.FC = () => {
     return unsubscribe;
   }, []);
 
+  // Library changes: recent history, then live entries on top
+  useEffect(() => {
+    unifiedAPI.getRecentLibraryChanges(MAX_LIBRARY_CHANGES).then(setLibraryChanges);
+    return unifiedAPI.subscribeToLibraryChanges((entries) => {
+      setLibraryChanges((prev: LibraryChangeEntry[]) => [...entries, ...prev].slice(0, MAX_LIBRARY_CHANGES));
+    });
+  }, []);
+
+  // Virtual playlists - the player stores them; edits go through it and come back via the subscription
+  useEffect(() => {
+    unifiedAPI.getVirtualPlaylists().then(setVirtualPlaylists);
+    return unifiedAPI.subscribeToVirtualPlaylists(setVirtualPlaylists);
+  }, []);
+
   const handleCommand = async (command: string, data?: any) => {
     try {
       await unifiedAPI.sendCommand(command, data);
@@ -317,6 +352,19 @@ export const AdminWindow: React.FC = () => {
             />
           </div>
         );
+      case 'playlists':
+        return (
+          <PlaylistTab
+            virtualPlaylists={virtualPlaylists}
+            library={playlists}
+            onSave={(playlist: VirtualPlaylistInput) => unifiedAPI.saveVirtualPlaylist(playlist)}
+            onDelete={(id: string) => unifiedAPI.deleteVirtualPlaylist(id)}
+            onLoad={async (playlist: VirtualPlaylist) => {
+              await handleCommand('load_playlist', { playlistName: playlist.name, virtualPlaylistId: playlist.id });
+              setActiveTab('queue');
+            }}
+          />
+        );
       case 'settings':
         return (
           <div className="tab-content active">
@@ -325,6 +373,8 @@ export const AdminWindow: React.FC = () => {
             </div>
           </div>
         );
+      case 'fleet':
+        return <FleetDashboard />;
       case 'tools':
         return (
           <div className="tab-content active">
@@ -420,6 +470,9 @@ export const AdminWindow: React.FC = () => {
               </span>
             </div>
 
+            {/* Admin login - commands are authorized by the player per role */}
+            {unifiedAPI.requiresSignIn && <AdminSignIn />}
+
             {/* System Status Indicators */}
             <div className="flex items-center space-x-4">
               <div className="flex items-center space-x-1 text-sm">
@@ -556,8 +609,11 @@ export const AdminWindow: React.FC = () => {
               {[
                 { id: 'queue' as TabId, label: 'Queue Management', icon: 'queue_music' },
                 { id: 'search' as TabId, label: 'Search & Browse', icon: 'search' },
+                { id: 'playlists' as TabId, label: 'Playlists', icon: 'playlist_add' },
                 { id: 'settings' as TabId, label: 'System Settings', icon: 'settings' },
-                { id: 'tools' as TabId, label: 'Admin Tools', icon: 'build' }
+                { id: 'tools' as TabId, label: 'Admin Tools', icon: 'build' },
+                // Fleet lists every player of the signed-in login - the web admin only
+                ...(unifiedAPI.requiresSignIn ? [{ id: 'fleet' as TabId, label: 'Fleet', icon: 'hub' }] : [])
               ].map(item => (
                 <button
                   key={item.id}
@@ -702,7 +758,7 @@ export const AdminWindow: React.FC = () => {
 
                   {/* Activity Feed */}
                   <div className="lg:col-span-2">
-                    <ActivityFeed activities={activities} />
+                    <ActivityFeed title="Library Changes" activities={activities} />
                   </div>
                 </div>
 
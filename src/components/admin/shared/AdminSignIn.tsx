@@ -0,0 +1,154 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { unifiedAPI } from '../../../services/UnifiedAPI';
+
+// Pairing code from the player's QR code (?pair=ABC234) - removed from the address bar once read
+function takePairingCodeFromUrl(): string | null {
+  const url = new URL(window.location.href);
+  const code = url.searchParams.get('pair');
+  if (!code) return null;
+  url.searchParams.delete('pair');
+  window.history.replaceState(null, '', url.toString());
+  return code.trim();
+}
+
+// Header sign-in for the web admin - signed out and unpaired, the player treats its commands as a guest's
+export const AdminSignIn: React.FC = () => {
+  const [email, setEmail] = useState<string | null>(null);
+  const [paired, setPaired] = useState(unifiedAPI.isPairedDevice);
+  const [showForm, setShowForm] = useState(false);
+  const [formEmail, setFormEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [pairingCode, setPairingCode] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => unifiedAPI.subscribeToSession(setEmail), []);
+
+  const run = useCallback(async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      setShowForm(true);
+    } finally {
+      setBusy(false);
+    }
+  }, []);
+
+  // Reload so every subscription follows the paired player
+  const pair = useCallback((code: string) => run(async () => {
+    await unifiedAPI.pairDevice(code);
+    window.location.reload();
+  }), [run]);
+
+  // The code is removed from the URL as it is read, so it is claimed once
+  useEffect(() => {
+    const code = takePairingCodeFromUrl();
+    if (code) pair(code);
+  }, [pair]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      await unifiedAPI.signIn(formEmail, password);
+      setPassword('');
+      setShowForm(false);
+    });
+  };
+
+  const handlePair = (e: React.FormEvent) => {
+    e.preventDefault();
+    pair(pairingCode);
+  };
+
+  if (email) {
+    return (
+      <div className="flex items-center space-x-2 text-sm">
+        <span className="material-symbols-rounded text-green-400">verified_user</span>
+        <span className="text-ytm-text-secondary">{email}</span>
+        <button onClick={() => unifiedAPI.signOut()} className="text-ytm-text-secondary hover:text-ytm-text underline">
+          Sign out
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative flex items-center space-x-2">
+      {paired && (
+        <div className="flex items-center space-x-2 text-sm">
+          <span className="material-symbols-rounded text-green-400">devices</span>
+          <span className="text-ytm-text-secondary">Paired device</span>
+          <button
+            onClick={() => {
+              unifiedAPI.unpairDevice();
+              setPaired(false);
+            }}
+            className="text-ytm-text-secondary hover:text-ytm-text underline"
+          >
+            Unpair
+          </button>
+        </div>
+      )}
+      <button
+        onClick={() => setShowForm(!showForm)}
+        className={`flex items-center space-x-1 text-sm ${paired ? 'text-ytm-text-secondary hover:text-ytm-text' : 'text-yellow-400 hover:text-yellow-300'}`}
+        title="Commands from a signed-out, unpaired console are only allowed what guests may do"
+      >
+        <span className="material-symbols-rounded">login</span>
+        <span>Sign in</span>
+      </button>
+      {showForm && (
+        <div className="absolute right-0 top-full mt-2 w-72 p-4 space-y-3 bg-ytm-surface border border-ytm-divider rounded-lg shadow-lg z-50">
+          <form onSubmit={handleSubmit} className="space-y-3">
+            <input
+              type="email"
+              value={formEmail}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setFormEmail(e.target.value)}
+              placeholder="Email"
+              autoComplete="username"
+              className="w-full px-3 py-2 bg-ytm-surface-hover border border-ytm-divider rounded text-ytm-text"
+            />
+            <input
+              type="password"
+              value={password}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPassword(e.target.value)}
+              placeholder="Password"
+              autoComplete="current-password"
+              className="w-full px-3 py-2 bg-ytm-surface-hover border border-ytm-divider rounded text-ytm-text"
+            />
+            <button
+              type="submit"
+              disabled={busy || !formEmail.trim() || !password}
+              className="w-full py-2 bg-ytm-accent text-white rounded font-medium disabled:opacity-50"
+            >
+              {busy ? 'Signing in…' : 'Sign in'}
+            </button>
+          </form>
+          <form onSubmit={handlePair} className="pt-3 space-y-2 border-t border-ytm-divider">
+            <p className="text-xs text-ytm-text-secondary">Or enter a pairing code from the Connections tab on the player</p>
+            <div className="flex space-x-2">
+              <input
+                value={pairingCode}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPairingCode(e.target.value.toUpperCase())}
+                placeholder="ABC234"
+                maxLength={6}
+                className="flex-1 min-w-0 px-3 py-2 bg-ytm-surface-hover border border-ytm-divider rounded text-ytm-text font-mono tracking-widest"
+              />
+              <button
+                type="submit"
+                disabled={busy || pairingCode.trim().length !== 6}
+                className="px-3 py-2 bg-ytm-surface-hover border border-ytm-divider text-ytm-text rounded font-medium disabled:opacity-50"
+              >
+                Pair
+              </button>
+            </div>
+          </form>
+          {error && <p className="text-sm text-red-400">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,307 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { unifiedAPI } from '../../../services/UnifiedAPI';
+import { buildFleetCommand, formatHeartbeatAge, getFleetHealth, FleetCommandDraft, FleetCommandType, FleetHealth } from '../../../utils/fleet';
+import type { FleetPlayer } from '../../../types/supabase';
+
+const REFRESH_INTERVAL_MS = 30000; // Players heartbeat every 30s
+
+const HEALTH_COLORS: Record<FleetHealth, string> = {
+  ok: 'bg-green-400',
+  errors: 'bg-yellow-400',
+  offline: 'bg-red-500'
+};
+
+const COMMAND_OPTIONS: Array<{ value: FleetCommandType; label: string }> = [
+  { value: 'load_playlist', label: 'Load playlist' },
+  { value: 'settings_update', label: 'Update settings' },
+  { value: 'setVolume', label: 'Set volume' },
+  { value: 'pause', label: 'Pause' },
+  { value: 'resume', label: 'Resume' },
+  { value: 'skip', label: 'Skip' },
+  { value: 'queue_shuffle', label: 'Shuffle queue' }
+];
+
+type SendResult = { playerId: string; success: boolean; error?: string };
+
+const inputClass = 'px-3 py-2 bg-ytm-surface-hover border border-ytm-divider rounded text-ytm-text';
+
+// Every player the signed-in admin is a member of, with one command sent to a selected group
+export const FleetDashboard: React.FC = () => {
+  const [email, setEmail] = useState<string | null>(null);
+  const [players, setPlayers] = useState<FleetPlayer[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [draft, setDraft] = useState<FleetCommandDraft>({
+    type: 'load_playlist',
+    playlistName: '',
+    shuffle: true,
+    settingsJson: '{\n  "autoDjStrategy": "shuffle-on-wrap",\n  "harmonicAutoFill": true\n}',
+    volume: 70
+  });
+  const [sending, setSending] = useState(false);
+  const [draftError, setDraftError] = useState<string | null>(null);
+  const [results, setResults] = useState<SendResult[] | null>(null);
+
+  useEffect(() => unifiedAPI.subscribeToSession(setEmail), []);
+
+  const refresh = useCallback(async () => {
+    setPlayers(await unifiedAPI.getFleet());
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    if (!email) {
+      setPlayers([]);
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    refresh();
+    const interval = setInterval(refresh, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [email, refresh]);
+
+  const toggle = (playerId: string) => {
+    const next = new Set(selected);
+    if (next.has(playerId)) {
+      next.delete(playerId);
+    } else {
+      next.add(playerId);
+    }
+    setSelected(next);
+  };
+
+  const selectWhere = (predicate: (player: FleetPlayer) => boolean) => {
+    setSelected(new Set(players.filter(predicate).map(player => player.player_id)));
+  };
+
+  // Reload so every subscription follows the chosen player
+  const openPlayer = (playerId: string) => {
+    unifiedAPI.switchPlayer(playerId);
+    const url = new URL(window.location.href);
+    url.searchParams.delete('playerId');
+    window.location.replace(url.toString());
+  };
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    let built;
+    try {
+      built = buildFleetCommand(draft);
+    } catch (err) {
+      setDraftError(err instanceof Error ? err.message : String(err));
+      return;
+    }
+    const playerIds = players.map(player => player.player_id).filter(id => selected.has(id));
+    if (!window.confirm(`Send "${COMMAND_OPTIONS.find(option => option.value === draft.type)?.label}" to ${playerIds.length} player(s)?`)) return;
+
+    setDraftError(null);
+    setResults(null);
+    setSending(true);
+    try {
+      setResults(await unifiedAPI.sendCommandToPlayers(built.command, built.data, playerIds));
+    } catch (err) {
+      setDraftError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSending(false);
+      refresh();
+    }
+  };
+
+  if (!email) {
+    return (
+      <div className="max-w-md mx-auto mt-12 text-center text-ytm-text-secondary">
+        <span className="material-symbols-rounded text-5xl mb-4 block">hub</span>
+        <p>Sign in with an admin login to see every player you own or staff.</p>
+      </div>
+    );
+  }
+
+  const onlineCount = players.filter(player => player.is_online).length;
+
+  return (
+    <div className="max-w-7xl mx-auto space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-ytm-text mb-1">Fleet</h2>
+          <p className="text-ytm-text-secondary">
+            {players.length} player(s), {onlineCount} online. Updates every 30 seconds.
+          </p>
+        </div>
+        <button
+          onClick={refresh}
+          className="flex items-center space-x-1 px-3 py-2 bg-ytm-surface-hover border border-ytm-divider text-ytm-text rounded"
+        >
+          <span className="material-symbols-rounded">refresh</span>
+          <span>Refresh</span>
+        </button>
+      </div>
+
+      <div className="bg-ytm-surface border border-ytm-divider rounded-lg overflow-x-auto">
+        <table className="w-full text-sm text-left">
+          <thead className="text-ytm-text-secondary border-b border-ytm-divider">
+            <tr>
+              <th className="p-3 w-8">
+                <input
+                  type="checkbox"
+                  checked={players.length > 0 && selected.size === players.length}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => selectWhere(() => e.target.checked)}
+                  title="Select all"
+                />
+              </th>
+              <th className="p-3">Player</th>
+              <th className="p-3">Now Playing</th>
+              <th className="p-3">Queue</th>
+              <th className="p-3">Last Heartbeat</th>
+              <th className="p-3">Version</th>
+              <th className="p-3">Errors</th>
+              <th className="p-3"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {loading && players.length === 0 ? (
+              <tr><td colSpan={8} className="p-6 text-center text-ytm-text-secondary">Loading players…</td></tr>
+            ) : players.length === 0 ? (
+              <tr><td colSpan={8} className="p-6 text-center text-ytm-text-secondary">This login is not a member of any player yet.</td></tr>
+            ) : players.map(player => {
+              const health = getFleetHealth(player);
+              return (
+                <tr key={player.player_id} className="border-b border-ytm-divider last:border-0">
+                  <td className="p-3">
+                    <input type="checkbox" checked={selected.has(player.player_id)} onChange={() => toggle(player.player_id)} />
+                  </td>
+                  <td className="p-3">
+                    <div className="flex items-center space-x-2">
+                      <span className={`inline-block w-2 h-2 rounded-full ${HEALTH_COLORS[health]}`} title={health} />
+                      <div>
+                        <div className="text-ytm-text font-medium">{player.name || player.player_id}</div>
+                        <div className="text-xs text-ytm-text-secondary font-mono">{player.player_id} · {player.role}</div>
+                      </div>
+                    </div>
+                  </td>
+                  <td className="p-3 text-ytm-text">
+                    {player.is_online && player.now_playing_video
+                      ? `${player.now_playing_video.title}${player.now_playing_video.artist ? ` - ${player.now_playing_video.artist}` : ''}`
+                      : <span className="text-ytm-text-secondary">{player.is_online ? 'Nothing playing' : 'Offline'}</span>}
+                  </td>
+                  <td className="p-3 text-ytm-text">
+                    {player.queue_depth}
+                    {player.priority_depth > 0 && <span className="text-ytm-text-secondary"> (+{player.priority_depth} requests)</span>}
+                  </td>
+                  <td className="p-3 text-ytm-text-secondary" title={player.last_heartbeat || undefined}>
+                    {formatHeartbeatAge(player.last_heartbeat)}
+                  </td>
+                  <td className="p-3 text-ytm-text-secondary">{player.app_version || 'unknown'}</td>
+                  <td
+                    className={`p-3 ${health === 'errors' ? 'text-yellow-400' : 'text-ytm-text-secondary'}`}
+                    title={player.last_error ? `Last error: ${player.last_error}` : undefined}
+                  >
+                    {player.error_count} playback · {player.failed_commands} commands
+                  </td>
+                  <td className="p-3 text-right">
+                    <button
+                      onClick={() => openPlayer(player.player_id)}
+                      disabled={player.player_id === unifiedAPI.currentPlayerId}
+                      className="text-ytm-text-secondary hover:text-ytm-text underline disabled:no-underline disabled:opacity-50"
+                    >
+                      {player.player_id === unifiedAPI.currentPlayerId ? 'Current' : 'Open'}
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <form onSubmit={handleSend} className="bg-ytm-surface border border-ytm-divider rounded-lg p-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-ytm-text">Send to selected players</h3>
+          <div className="flex items-center space-x-3 text-sm">
+            <button type="button" onClick={() => selectWhere(player => player.is_online)} className="text-ytm-text-secondary hover:text-ytm-text underline">
+              Select online
+            </button>
+            <button type="button" onClick={() => setSelected(new Set())} className="text-ytm-text-secondary hover:text-ytm-text underline">
+              Clear
+            </button>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <select
+            value={draft.type}
+            onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setDraft({ ...draft, type: e.target.value as FleetCommandType })}
+            className={inputClass}
+          >
+            {COMMAND_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+
+          {draft.type === 'load_playlist' && (
+            <>
+              <input
+                value={draft.playlistName}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDraft({ ...draft, playlistName: e.target.value })}
+                placeholder="Playlist name (as it appears on each player)"
+                className={`${inputClass} flex-1 min-w-0`}
+              />
+              <label className="flex items-center space-x-2 text-sm text-ytm-text">
+                <input
+                  type="checkbox"
+                  checked={draft.shuffle}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDraft({ ...draft, shuffle: e.target.checked })}
+                />
+                <span>Shuffle</span>
+              </label>
+            </>
+          )}
+
+          {draft.type === 'setVolume' && (
+            <label className="flex items-center space-x-2 text-sm text-ytm-text">
+              <input
+                type="range"
+                min="0"
+                max="100"
+                value={draft.volume}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDraft({ ...draft, volume: parseInt(e.target.value) })}
+              />
+              <span className="w-10 text-right">{draft.volume}%</span>
+            </label>
+          )}
+        </div>
+
+        {draft.type === 'settings_update' && (
+          <textarea
+            value={draft.settingsJson}
+            onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setDraft({ ...draft, settingsJson: e.target.value })}
+            rows={4}
+            className={`${inputClass} w-full font-mono text-sm`}
+            title="Player settings the web admin may change, e.g. autoDjStrategy, crossfadeMode, fadeDuration"
+          />
+        )}
+
+        <div className="flex items-center space-x-3">
+          <button
+            type="submit"
+            disabled={sending || selected.size === 0}
+            className="px-4 py-2 bg-ytm-accent text-white rounded font-medium disabled:opacity-50"
+          >
+            {sending ? 'Sending…' : `Send to ${selected.size} player(s)`}
+          </button>
+          {draftError && <span className="text-sm text-red-400">{draftError}</span>}
+        </div>
+
+        {results && (
+          <ul className="text-sm space-y-1">
+            {results.map(result => (
+              <li key={result.playerId} className={result.success ? 'text-green-400' : 'text-red-400'}>
+                {result.playerId}: {result.success ? 'done' : result.error || 'failed'}
+              </li>
+            ))}
+          </ul>
+        )}
+      </form>
+    </div>
+  );
+};
@@ -1,6 +1,15 @@
 import React, { useState } from 'react';
 import { unifiedAPI } from '../../../services/UnifiedAPI';
 import { usePlatformFeatures } from '../../../hooks/usePlatformFeatures';
+import type { AutoDjStrategy } from '../../../types';
+
+const AUTO_DJ_LABELS: Record<AutoDjStrategy, string> = {
+  'loop': 'Loop the queue',
+  'shuffle-on-wrap': 'Reshuffle the queue',
+  'weighted-random': 'Random from the library',
+  'more-like-last-request': 'More like the last kiosk request',
+  'least-recently-played': 'Least recently played'
+};
 
 interface SettingsPanelProps {
   onCommand: (command: string, data?: any) => Promise<void>;
@@ -12,7 +21,8 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ onCommand }) => {
     autoShuffle: false,
     crossfadeEnabled: true,
     crossfadeDuration: 3,
-    volume: 80
+    volume: 80,
+    autoDjStrategy: 'loop' as AutoDjStrategy
   });
 
   const handleSettingChange = async (setting: string, value: any) => {
@@ -21,6 +31,12 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ onCommand }) => {
     await onCommand('setting_update', { setting, value });
   };
 
+  // Applied by the player itself (settings_update command), so it persists there
+  const handleAutoDjStrategyChange = async (autoDjStrategy: AutoDjStrategy) => {
+    setSettings({ ...settings, autoDjStrategy });
+    await onCommand('settings_update', { settings: { autoDjStrategy } });
+  };
+
   const handlePlayerIdChange = (playerId: string) => {
     if (typeof window !== 'undefined') {
       localStorage.setItem('djamms_player_id', playerId);
@@ -93,6 +109,22 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ onCommand }) => {
                 className="w-full h-2 bg-ytm-surface-hover rounded-lg appearance-none cursor-pointer"
               />
             </div>
+
+            <div>
+              <label htmlFor="autoDjStrategy" className="block text-sm font-medium text-ytm-text mb-2">
+                When the queue runs out
+              </label>
+              <select
+                id="autoDjStrategy"
+                value={settings.autoDjStrategy}
+                onChange={(e) => handleAutoDjStrategyChange(e.target.value as AutoDjStrategy)}
+                className="w-full px-3 py-2 border border-ytm-divider rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-ytm-accent focus:border-transparent bg-ytm-surface text-ytm-text"
+              >
+                {(Object.keys(AUTO_DJ_LABELS) as AutoDjStrategy[]).map(strategy => (
+                  <option key={strategy} value={strategy}>{AUTO_DJ_LABELS[strategy]}</option>
+                ))}
+              </select>
+            </div>
           </div>
         </div>
 
@@ -13,6 +13,15 @@ export { TabNavigation } from './TabNavigation';
 export { PlaylistTab } from './PlaylistTab';
 export { SettingsTab } from './SettingsTab';
 export { CrossfadeSettings } from './CrossfadeSettings';
+export { CreditInputSettings } from './CreditInputSettings';
+export { LanServerSettings } from './LanServerSettings';
+export { ZonesSettings } from './ZonesSettings';
+export { MusicAnalysisSettings } from './MusicAnalysisSettings';
+export { LibraryRootsSettings } from './LibraryRootsSettings';
+export { PlaylistScheduleSettings } from './PlaylistScheduleSettings';
+export { SmartPlaylistSettings } from './SmartPlaylistSettings';
+export { CommandPolicySettings } from './CommandPolicySettings';
+export { DevicePairing } from './DevicePairing';
 export { FullscreenPlayer } from './FullscreenPlayer';
 export type { FullscreenPlayerRef } from './FullscreenPlayer';
 
@@ -1,11 +1,13 @@
 /**
  * Connections Tab Component
- * Shows connection status and IO event logs
+ * Shows connection status, paired devices and IO event logs
  */
 
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { getIOLogger, IOEvent, IOEventType, IOLogSession } from '../../services/IOLogger';
 import { getSupabaseService } from '../../services/SupabaseService';
+import { DevicePairing } from '../DevicePairing';
+import type { CreditInputEvent, CreditInputSimulation, CreditInputStatus, LanServerStatus } from '../../types/electron';
 
 interface ConnectionsTabProps {
   playerId: string;
@@ -17,6 +19,8 @@ interface ConnectionStatus {
   webKiosk: { status: 'online' | 'offline'; ip?: string };
 }
 
+type CreditInputFault = Extract<CreditInputEvent, { type: 'fault' }>;
+
 export const ConnectionsTab: React.FC<ConnectionsTabProps> = ({ playerId }) => {
   const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>({
     supabase: 'offline',
@@ -24,11 +28,14 @@ export const ConnectionsTab: React.FC<ConnectionsTabProps> = ({ playerId }) => {
     webKiosk: { status: 'offline' }
   });
   const [events, setEvents] = useState<IOEvent[]>([]);
-  const [filters, setFilters] = useState<Set<IOEventType>>(new Set(['supabase', 'web-admin', 'web-kiosk', 'error']));
+  const [filters, setFilters] = useState<Set<IOEventType>>(new Set(['supabase', 'web-admin', 'web-kiosk', 'credit-input', 'error']));
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [sessions, setSessions] = useState<IOLogSession[]>([]);
   const [selectedSession, setSelectedSession] = useState<string>('current');
   const [isLoadingSessions, setIsLoadingSessions] = useState(false);
+  const [creditInputStatus, setCreditInputStatus] = useState<CreditInputStatus | null>(null);
+  const [lastCreditInputFault, setLastCreditInputFault] = useState<CreditInputFault | null>(null);
+  const [lanServerStatus, setLanServerStatus] = useState<LanServerStatus | null>(null);
   const consoleRef = useRef<HTMLDivElement>(null);
   const ioLogger = getIOLogger();
 
@@ -67,6 +74,37 @@ export const ConnectionsTab: React.FC<ConnectionsTabProps> = ({ playerId }) => {
     }
   }, [filters, ioLogger, selectedSession]);
 
+  // Follow coin acceptor / bill validator status (Electron only)
+  useEffect(() => {
+    const api = window.electronAPI;
+    if (!api?.getCreditInputStatus) return;
+
+    api.getCreditInputStatus().then(({ status }) => setCreditInputStatus(status));
+    return api.onCreditInputEvent((event) => {
+      if (event.type === 'status') {
+        setCreditInputStatus(event.status);
+      } else if (event.type === 'fault') {
+        setLastCreditInputFault(event);
+      }
+    });
+  }, []);
+
+  // Follow the LAN fallback server (Electron only)
+  useEffect(() => {
+    const api = window.electronAPI;
+    if (!api?.getLanServerStatus) return;
+
+    api.getLanServerStatus().then(({ status }) => setLanServerStatus(status));
+    return api.onLanServerStatus(setLanServerStatus);
+  }, []);
+
+  const simulateCreditInput = useCallback(async (event: CreditInputSimulation) => {
+    const result = await window.electronAPI.simulateCreditInput(event);
+    if (!result.success) {
+      console.warn('[ConnectionsTab] Credit input simulation failed:', result.error);
+    }
+  }, []);
+
   // Check Supabase connection status
   const checkSupabaseStatus = useCallback(() => {
     const supabaseService = getSupabaseService();
@@ -273,6 +311,8 @@ export const ConnectionsTab: React.FC<ConnectionsTabProps> = ({ playerId }) => {
         return '#FFFF90'; // Light Yellow
       case 'web-kiosk':
         return '#90C7FF'; // Light Blue
+      case 'credit-input':
+        return '#FFB347'; // Light Orange
       case 'error':
         return '#FF4444'; // Bright Red
       default:
@@ -344,6 +384,74 @@ export const ConnectionsTab: React.FC<ConnectionsTabProps> = ({ playerId }) => {
           </span>
         </div>
 
+        {lanServerStatus?.enabled && (
+          <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+            <span style={{ fontWeight: 600 }}>LAN Server:</span>
+            <span style={{
+              color: lanServerStatus.status === 'listening' ? '#00FF00' : '#FF0000',
+              fontWeight: 600
+            }}>
+              {lanServerStatus.status === 'listening' ? `PORT ${lanServerStatus.port}` : lanServerStatus.status.toUpperCase()}
+            </span>
+            <span style={{ color: 'var(--text-secondary)', fontSize: '12px' }}>
+              {lanServerStatus.status === 'error'
+                ? lanServerStatus.lastError
+                : `${lanServerStatus.clients} connected, ${lanServerStatus.commandsHandled} commands`}
+            </span>
+          </div>
+        )}
+
+        {creditInputStatus?.enabled && (
+          <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+            <span style={{ fontWeight: 600 }}>Credit Input:</span>
+            <span style={{
+              color: creditInputStatus.status === 'connected' ? '#00FF00' : '#FF0000',
+              fontWeight: 600
+            }}>
+              {creditInputStatus.driver.toUpperCase()} {creditInputStatus.status.toUpperCase()}
+            </span>
+            <span style={{ color: 'var(--text-secondary)', fontSize: '12px' }}>
+              +{creditInputStatus.creditsThisSession} credits, {creditInputStatus.faultCount} faults
+            </span>
+            {lastCreditInputFault && (
+              <span style={{
+                color: lastCreditInputFault.kind === 'jam' || lastCreditInputFault.kind === 'tamper' ? '#FF4444' : '#FFB347',
+                fontWeight: lastCreditInputFault.kind === 'jam' || lastCreditInputFault.kind === 'tamper' ? 600 : 400,
+                fontSize: '12px'
+              }}>
+                {lastCreditInputFault.kind.toUpperCase()}: {lastCreditInputFault.message} ({formatTime(new Date(lastCreditInputFault.timestamp))})
+              </span>
+            )}
+            {creditInputStatus.driver === 'simulated' && creditInputStatus.status === 'connected' && (
+              <div style={{ display: 'flex', gap: '4px' }}>
+                {([
+                  { label: 'COIN', event: { type: 'coin', pulses: 1 } },
+                  { label: 'BILL', event: { type: 'bill', channel: 1 } },
+                  { label: 'JAM', event: { type: 'jam' } },
+                  { label: 'TAMPER', event: { type: 'tamper' } }
+                ] as Array<{ label: string; event: CreditInputSimulation }>).map(({ label, event }) => (
+                  <button
+                    key={label}
+                    onClick={() => simulateCreditInput(event)}
+                    style={{
+                      padding: '4px 8px',
+                      backgroundColor: '#000000',
+                      color: '#FFB347',
+                      border: '1px solid #FFB347',
+                      borderRadius: '4px',
+                      cursor: 'pointer',
+                      fontSize: '11px',
+                      fontWeight: 600
+                    }}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
         <button
           onClick={pingEndpoints}
           disabled={isRefreshing}
@@ -362,9 +470,12 @@ export const ConnectionsTab: React.FC<ConnectionsTabProps> = ({ playerId }) => {
         </button>
       </div>
 
+      {/* Kiosk / admin browser pairing */}
+      <DevicePairing playerId={playerId} />
+
       {/* Filter Buttons */}
       <div style={{ display: 'flex', gap: '8px', marginBottom: '12px' }}>
-        {(['supabase', 'web-admin', 'web-kiosk', 'error'] as IOEventType[]).map(type => {
+        {(['supabase', 'web-admin', 'web-kiosk', 'credit-input', 'error'] as IOEventType[]).map(type => {
           const isActive = filters.has(type);
           return (
             <button
@@ -384,6 +495,7 @@ export const ConnectionsTab: React.FC<ConnectionsTabProps> = ({ playerId }) => {
             >
               {type === 'web-admin' ? 'WEB ADMIN' : 
                type === 'web-kiosk' ? 'WEB KIOSK' : 
+               type === 'credit-input' ? 'CREDIT INPUT' : 
                type.toUpperCase()}
             </button>
           );
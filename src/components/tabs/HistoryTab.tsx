@@ -0,0 +1,99 @@
+// src/components/tabs/HistoryTab.tsx
+import React, { useState, useEffect, useCallback } from 'react';
+import { getSupabaseService } from '../../services/SupabaseService';
+import type { PlayHistoryEntry } from '../../types/supabase';
+import { cleanVideoTitle, getDisplayArtist, formatDuration } from '../../utils/playlistHelpers';
+import { getTransitionLabel, playHistoryToCsv } from '../../utils/playHistory';
+
+interface HistoryTabProps {
+  supabaseInitialized: boolean;
+}
+
+const HISTORY_LIMIT = 500;
+
+export const HistoryTab: React.FC<HistoryTabProps> = ({ supabaseInitialized }) => {
+  const [entries, setEntries] = useState<PlayHistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadHistory = useCallback(async () => {
+    setIsLoading(true);
+    const history = await getSupabaseService().getPlayHistory(HISTORY_LIMIT);
+    setEntries(history);
+    setIsLoading(false);
+  }, []);
+
+  // Load history and prepend plays as this player records them
+  useEffect(() => {
+    if (!supabaseInitialized) return;
+    loadHistory();
+    return getSupabaseService().onPlayRecorded((entry) => {
+      setEntries(prev => [entry, ...prev].slice(0, HISTORY_LIMIT));
+    });
+  }, [supabaseInitialized, loadHistory]);
+
+  const handleExportCsv = useCallback(() => {
+    const blob = new Blob([playHistoryToCsv(entries)], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `djamms-play-history-${new Date().toISOString().slice(0, 10)}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }, [entries]);
+
+  return (
+    <div className="tab-content active">
+      <div className="tab-header">
+        <h1>History</h1>
+        <div className="tab-actions">
+          <button className="action-btn" onClick={loadHistory} disabled={!supabaseInitialized || isLoading}>
+            <span className="material-symbols-rounded">refresh</span>
+            {isLoading ? 'Loading...' : 'Refresh'}
+          </button>
+          <button className="action-btn" onClick={handleExportCsv} disabled={entries.length === 0}>
+            <span className="material-symbols-rounded">download</span>
+            Export CSV
+          </button>
+        </div>
+      </div>
+      <div className="table-container">
+        <table className="media-table">
+          <thead>
+            <tr>
+              <th className="col-index">Time</th>
+              <th className="col-title">Title</th>
+              <th className="col-artist">Artist</th>
+              <th className="col-duration">Played</th>
+              <th>Transition</th>
+              <th>Source</th>
+            </tr>
+          </thead>
+          <tbody>
+            {entries.length === 0 ? (
+              <tr className="empty-state">
+                <td colSpan={6}>
+                  {supabaseInitialized ? 'Nothing has played yet.' : 'Play history is available once connected to Supabase.'}
+                </td>
+              </tr>
+            ) : (
+              entries.map(entry => (
+                <tr key={entry.id} className={entry.counts_toward_charts ? '' : 'played'}>
+                  <td>{new Date(entry.started_at || entry.played_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</td>
+                  <td className="col-title">{cleanVideoTitle(entry.title || entry.file_path.split('/').pop() || '')}</td>
+                  <td>{getDisplayArtist(entry.artist)}</td>
+                  <td>{formatDuration(entry.seconds_played ?? undefined)}</td>
+                  <td>{getTransitionLabel(entry.transition_reason)}</td>
+                  <td>
+                    {entry.requested_by_kiosk
+                      ? `Kiosk: ${entry.requested_by_kiosk}`
+                      : entry.from_priority ? 'Priority' : 'Playlist'}
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
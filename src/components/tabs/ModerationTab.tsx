@@ -0,0 +1,283 @@
+// src/components/tabs/ModerationTab.tsx
+import React, { useState, useEffect, useCallback } from 'react';
+import { getSupabaseService } from '../../services/SupabaseService';
+import type { SupabaseLocalVideo, ContentStatus, ContentPolicy } from '../../types/supabase';
+import { cleanVideoTitle, getDisplayArtist } from '../../utils/playlistHelpers';
+
+interface ModerationTabProps {
+  supabaseInitialized: boolean;
+  onModerationChanged?: () => void; // Re-read the decisions the player enforces
+}
+
+type StatusFilter = ContentStatus | 'all';
+
+type PolicyForm = Omit<ContentPolicy, 'player_id' | 'updated_at'>;
+
+const QUEUE_LIMIT = 200;
+
+const STATUS_FILTERS: Array<{ id: StatusFilter; label: string }> = [
+  { id: 'pending', label: 'Pending' },
+  { id: 'approved', label: 'Approved' },
+  { id: 'rejected', label: 'Rejected' },
+  { id: 'all', label: 'All' }
+];
+
+const STATUS_COLORS: Record<ContentStatus, string> = {
+  pending: 'var(--text-secondary)',
+  approved: '#4CAF50',
+  rejected: 'var(--error)'
+};
+
+const DEFAULT_POLICY: PolicyForm = {
+  hide_explicit_daytime: false,
+  daytime_start: '06:00',
+  daytime_end: '21:00',
+  timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC'
+};
+
+export const ModerationTab: React.FC<ModerationTabProps> = ({ supabaseInitialized, onModerationChanged }) => {
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('pending');
+  const [search, setSearch] = useState('');
+  const [videos, setVideos] = useState<SupabaseLocalVideo[]>([]);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [notes, setNotes] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [policy, setPolicy] = useState<PolicyForm>(DEFAULT_POLICY);
+  const [policySaved, setPolicySaved] = useState(true);
+
+  const loadQueue = useCallback(async () => {
+    setIsLoading(true);
+    const queue = await getSupabaseService().getModerationQueue(statusFilter, search, QUEUE_LIMIT);
+    setVideos(queue);
+    setSelectedIds(new Set());
+    setIsLoading(false);
+  }, [statusFilter, search]);
+
+  // Reload when the filter changes (search is debounced)
+  useEffect(() => {
+    if (!supabaseInitialized) return;
+    const timeoutId = setTimeout(loadQueue, 300);
+    return () => clearTimeout(timeoutId);
+  }, [supabaseInitialized, loadQueue]);
+
+  useEffect(() => {
+    if (!supabaseInitialized) return;
+    getSupabaseService().getContentPolicy().then(saved => {
+      if (!saved) return;
+      setPolicy({
+        hide_explicit_daytime: saved.hide_explicit_daytime,
+        daytime_start: saved.daytime_start.slice(0, 5), // TIME comes back as HH:MM:SS
+        daytime_end: saved.daytime_end.slice(0, 5),
+        timezone: saved.timezone
+      });
+    });
+  }, [supabaseInitialized]);
+
+  const applyDecision = useCallback(async (
+    ids: string[],
+    update: { status?: ContentStatus; isExplicit?: boolean }
+  ) => {
+    setError(null);
+    try {
+      await getSupabaseService().moderateVideos(ids, { ...update, notes: notes.trim() || undefined });
+      setNotes('');
+      onModerationChanged?.();
+      await loadQueue();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Moderation update failed');
+    }
+  }, [notes, loadQueue, onModerationChanged]);
+
+  const handleSavePolicy = useCallback(async () => {
+    setError(null);
+    try {
+      await getSupabaseService().setContentPolicy(policy);
+      setPolicySaved(true);
+      onModerationChanged?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save explicit content hours');
+    }
+  }, [policy, onModerationChanged]);
+
+  const updatePolicy = (changes: Partial<PolicyForm>) => {
+    setPolicy(prev => ({ ...prev, ...changes }));
+    setPolicySaved(false);
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const allSelected = videos.length > 0 && selectedIds.size === videos.length;
+  const selected = Array.from(selectedIds);
+
+  return (
+    <div className="tab-content active">
+      <div className="tab-header">
+        <h1>Moderation</h1>
+        <div className="tab-actions">
+          <button className="action-btn" onClick={loadQueue} disabled={!supabaseInitialized || isLoading}>
+            <span className="material-symbols-rounded">refresh</span>
+            {isLoading ? 'Loading...' : 'Refresh'}
+          </button>
+        </div>
+      </div>
+
+      {/* Explicit content hours - enforced server-side by search and the kiosk */}
+      <div className="setting-item" style={{ display: 'flex', alignItems: 'center', gap: '12px', flexWrap: 'wrap', padding: '0 16px 12px' }}>
+        <label style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+          <input
+            type="checkbox"
+            checked={policy.hide_explicit_daytime}
+            onChange={(e) => updatePolicy({ hide_explicit_daytime: e.target.checked })}
+          />
+          Hide explicit tracks from
+        </label>
+        <input
+          type="time"
+          value={policy.daytime_start}
+          onChange={(e) => updatePolicy({ daytime_start: e.target.value })}
+        />
+        <span>to</span>
+        <input
+          type="time"
+          value={policy.daytime_end}
+          onChange={(e) => updatePolicy({ daytime_end: e.target.value })}
+        />
+        <input
+          type="text"
+          className="search-input"
+          style={{ width: '180px' }}
+          value={policy.timezone}
+          onChange={(e) => updatePolicy({ timezone: e.target.value })}
+          title="Venue time zone (IANA name)"
+        />
+        <button className="action-btn" onClick={handleSavePolicy} disabled={!supabaseInitialized || policySaved}>
+          <span className="material-symbols-rounded">save</span>
+          {policySaved ? 'Saved' : 'Save'}
+        </button>
+      </div>
+
+      <div className="search-header" style={{ flexDirection: 'row', flexWrap: 'wrap', gap: '12px', alignItems: 'center' }}>
+        <div className="search-input-container" style={{ flex: '1 1 240px', minWidth: '200px' }}>
+          <span className="material-symbols-rounded search-icon">search</span>
+          <input
+            type="text"
+            placeholder="Filter by title or artist…"
+            className="search-input"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+          />
+        </div>
+        <div className="search-radio-group" style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+          {STATUS_FILTERS.map(filter => (
+            <button
+              key={filter.id}
+              className={`radio-btn ${statusFilter === filter.id ? 'active' : ''}`}
+              onClick={() => setStatusFilter(filter.id)}
+            >
+              {filter.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Bulk actions apply to the selected rows */}
+      <div style={{ display: 'flex', alignItems: 'center', gap: '8px', flexWrap: 'wrap', padding: '8px 16px' }}>
+        <span style={{ color: 'var(--text-secondary)', fontSize: '13px' }}>{selected.length} selected</span>
+        <input
+          type="text"
+          className="search-input"
+          style={{ flex: '1 1 200px' }}
+          placeholder="Moderation note (optional)"
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+        />
+        <button className="action-btn" disabled={selected.length === 0} onClick={() => applyDecision(selected, { status: 'approved' })}>
+          <span className="material-symbols-rounded">check</span>
+          Approve
+        </button>
+        <button className="action-btn" disabled={selected.length === 0} onClick={() => applyDecision(selected, { status: 'rejected' })}>
+          <span className="material-symbols-rounded">block</span>
+          Reject
+        </button>
+        <button className="action-btn" disabled={selected.length === 0} onClick={() => applyDecision(selected, { isExplicit: true })}>
+          <span className="material-symbols-rounded">explicit</span>
+          Mark Explicit
+        </button>
+        <button className="action-btn" disabled={selected.length === 0} onClick={() => applyDecision(selected, { isExplicit: false })}>
+          Clear Explicit
+        </button>
+      </div>
+
+      {error && (
+        <p style={{ color: 'var(--error)', padding: '0 16px' }}>{error}</p>
+      )}
+
+      <div className="table-container">
+        <table className="media-table">
+          <thead>
+            <tr>
+              <th className="col-index">
+                <input
+                  type="checkbox"
+                  checked={allSelected}
+                  onChange={() => setSelectedIds(allSelected ? new Set() : new Set(videos.map(video => video.id)))}
+                />
+              </th>
+              <th className="col-title">Title</th>
+              <th className="col-artist">Artist</th>
+              <th>Status</th>
+              <th>Notes</th>
+              <th>Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {videos.length === 0 ? (
+              <tr className="empty-state">
+                <td colSpan={6}>
+                  {supabaseInitialized ? 'No tracks match this filter.' : 'Moderation is available once connected to Supabase.'}
+                </td>
+              </tr>
+            ) : (
+              videos.map(video => {
+                const status = video.content_status || 'pending';
+                return (
+                  <tr key={video.id}>
+                    <td>
+                      <input type="checkbox" checked={selectedIds.has(video.id)} onChange={() => toggleSelected(video.id)} />
+                    </td>
+                    <td className="col-title">
+                      {cleanVideoTitle(video.title)}
+                      {video.is_explicit && <span title="Explicit" style={{ marginLeft: '6px', color: 'var(--error)', fontWeight: 'bold' }}>E</span>}
+                    </td>
+                    <td>{getDisplayArtist(video.artist)}</td>
+                    <td style={{ color: STATUS_COLORS[status], textTransform: 'capitalize' }}>{status}</td>
+                    <td style={{ color: 'var(--text-secondary)' }}>{video.moderation_notes || ''}</td>
+                    <td style={{ whiteSpace: 'nowrap' }}>
+                      <button className="action-btn" disabled={status === 'approved'} onClick={() => applyDecision([video.id], { status: 'approved' })} title="Approve">
+                        <span className="material-symbols-rounded">check</span>
+                      </button>
+                      <button className="action-btn" disabled={status === 'rejected'} onClick={() => applyDecision([video.id], { status: 'rejected' })} title="Reject">
+                        <span className="material-symbols-rounded">block</span>
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -11,8 +11,16 @@ interface QueueTabProps {
   playbackTime: number;
   playbackDuration: number;
   onQueueItemClick: (index: number) => void;
+  suggestions?: Video[]; // Harmonic "good next tracks" for the current video
+  onPlaySuggestionNext?: (video: Video) => void;
 }
 
+// "128 BPM · 8A" - blank when the track hasn't been analyzed
+const formatTempoAndKey = (video: Video): string =>
+  [typeof video.bpm === 'number' ? `${Math.round(video.bpm)} BPM` : null, video.camelotKey]
+    .filter(Boolean)
+    .join(' · ');
+
 export const QueueTab: React.FC<QueueTabProps> = ({
   queue,
   queueIndex,
@@ -20,7 +28,9 @@ export const QueueTab: React.FC<QueueTabProps> = ({
   currentVideo,
   playbackTime,
   playbackDuration,
-  onQueueItemClick
+  onQueueItemClick,
+  suggestions = [],
+  onPlaySuggestionNext
 }) => {
   return (
     <div className="tab-content active">
@@ -40,6 +50,11 @@ export const QueueTab: React.FC<QueueTabProps> = ({
                 <div className="now-playing-title">{cleanVideoTitle(currentVideo.title)}</div>
                 <div className="now-playing-artist">{getDisplayArtist(currentVideo.artist)}</div>
                 <div className="now-playing-playlist">{currentVideo.playlistDisplayName || getPlaylistDisplayName(currentVideo.playlist || '')}</div>
+                {formatTempoAndKey(currentVideo) && (
+                  <div className="now-playing-tempo-key" title={currentVideo.musicalKey || undefined}>
+                    {formatTempoAndKey(currentVideo)}
+                  </div>
+                )}
               </div>
               <div className="now-playing-progress">
                 <span className="time-elapsed">
@@ -59,6 +74,35 @@ export const QueueTab: React.FC<QueueTabProps> = ({
           </div>
         )}
 
+        {/* Good Next Tracks Section - compatible key, similar tempo */}
+        {suggestions.length > 0 && (
+          <div className="queue-section suggestions-section">
+            <div className="queue-section-header suggestions">
+              <span className="material-symbols-rounded">auto_awesome</span>
+              GOOD NEXT TRACKS
+            </div>
+            <table className="media-table">
+              <tbody>
+                {suggestions.map((track) => (
+                  <tr
+                    key={`suggestion-${track.id}`}
+                    onClick={() => onPlaySuggestionNext?.(track)}
+                    title="Play next"
+                  >
+                    <td className="col-index">
+                      <span className="material-symbols-rounded">playlist_add</span>
+                    </td>
+                    <td className="col-title">{cleanVideoTitle(track.title)}</td>
+                    <td>{getDisplayArtist(track.artist)}</td>
+                    <td title={track.musicalKey || undefined}>{formatTempoAndKey(track)}</td>
+                    <td>{track.playlistDisplayName || getPlaylistDisplayName(track.playlist || '')}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
         {/* Priority Queue Section */}
         {priorityQueue.length > 0 && (
           <div className="queue-section priority-queue-section">
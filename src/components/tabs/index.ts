@@ -2,4 +2,6 @@
 export { QueueTab } from './QueueTab';
 export { SearchTab } from './SearchTab';
 export { ConnectionsTab } from './ConnectionsTab';
+export { HistoryTab } from './HistoryTab';
+export { ModerationTab } from './ModerationTab';
 
@@ -54,6 +54,9 @@ export const DEFAULT_PLAYER_ID = 'DJAMMS_DEMO';
 // Minimum length for Player ID
 export const MIN_PLAYER_ID_LENGTH = 6;
 
+// Kiosk ID used for the credit ledger when a player only has a single kiosk
+export const DEFAULT_KIOSK_ID = 'main';
+
 /**
  * Get the Supabase configuration
  * @param playerId - Optional player ID override
@@ -77,3 +80,6 @@ export const STATE_SYNC_DEBOUNCE = 300; // 300ms debounce for better responsiven
 
 // Maximum age for pending commands before considered expired (5 minutes)
 export const COMMAND_EXPIRY_MS = 5 * 60 * 1000;
+
+// Minimum seconds a track must play before it counts towards Top Charts (or half its length, if shorter)
+export const PLAY_COUNT_MIN_SECONDS = 30;
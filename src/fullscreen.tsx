@@ -3,10 +3,14 @@ import React, { useState, useEffect, useRef, useMemo } from 'react'
 import ReactDOM from 'react-dom/client'
 import { FullscreenPlayer } from './components'
 import { FullscreenPlayerRef } from './components/FullscreenPlayer'
-import { Video } from './types'
+import { Video, CrossfadeMode } from './types'
 import { useSupabase } from './hooks/useSupabase'
 import { getSupabaseService } from './services/SupabaseService'
 import { QueueVideoItem } from './types/supabase'
+import { DEFAULT_TARGET_LOUDNESS } from './utils/loudness'
+import { CrossfadeCurve, TransitionStyle, DEFAULT_CROSSFADE_OPTIONS } from './utils/crossfade'
+import { AudioOutputDevice } from './utils/audioOutput'
+import { useAudioOutputDevice } from './hooks/useAudioOutputDevice'
 
 // Overlay settings type
 interface OverlaySettings {
@@ -35,10 +39,25 @@ function FullscreenApp() {
   const [duration, setDuration] = useState(0)
   const [volume, setVolume] = useState(0.7)
   const [enableAudioNormalization, setEnableAudioNormalization] = useState(false)
+  const [targetLoudness, setTargetLoudness] = useState<number>(DEFAULT_TARGET_LOUDNESS)
   const [preloadVideo, setPreloadVideo] = useState<Video | null>(null)
   const [pendingPreload, setPendingPreload] = useState<Video | null>(null)
   const [fadeDuration, setFadeDuration] = useState<number>(2.0)
+  const [crossfadeMode, setCrossfadeMode] = useState<CrossfadeMode>('manual')
+  const [crossfadeCurve, setCrossfadeCurve] = useState<CrossfadeCurve>(DEFAULT_CROSSFADE_OPTIONS.curve)
+  const [audioFadeDuration, setAudioFadeDuration] = useState<number>(DEFAULT_CROSSFADE_OPTIONS.audioDuration)
+  const [videoFadeDuration, setVideoFadeDuration] = useState<number>(DEFAULT_CROSSFADE_OPTIONS.videoDuration)
+  const [transitionStyle, setTransitionStyle] = useState<TransitionStyle>(DEFAULT_CROSSFADE_OPTIONS.style)
+  const crossfadeOptions = useMemo(() => ({
+    curve: crossfadeCurve,
+    audioDuration: audioFadeDuration,
+    videoDuration: videoFadeDuration,
+    style: transitionStyle
+  }), [crossfadeCurve, audioFadeDuration, videoFadeDuration, transitionStyle])
   const [seekToPosition, setSeekToPosition] = useState<number | null>(null)
+  // Chosen output device (saved with the player settings) - the default output while it is unplugged
+  const [audioOutputDevice, setAudioOutputDevice] = useState<AudioOutputDevice | null>(null)
+  const { activeDeviceId: audioOutputDeviceId } = useAudioOutputDevice(audioOutputDevice)
   
   // Overlay settings - defaults match PlayerWindow
   const [overlaySettings, setOverlaySettings] = useState<OverlaySettings>({
@@ -96,8 +115,29 @@ function FullscreenApp() {
           const savedNormalize = await (window as any).electronAPI.getSetting('normalizeAudioLevels')
           if (savedNormalize !== undefined) setEnableAudioNormalization(savedNormalize)
           
+          const savedTargetLoudness = await (window as any).electronAPI.getSetting('targetLoudness')
+          if (typeof savedTargetLoudness === 'number') setTargetLoudness(savedTargetLoudness)
+          
           const savedFadeDuration = await (window as any).electronAPI.getSetting('fadeDuration')
           if (savedFadeDuration !== undefined) setFadeDuration(savedFadeDuration)
+          
+          const savedCrossfadeMode = await (window as any).electronAPI.getSetting('crossfadeMode')
+          if (savedCrossfadeMode) setCrossfadeMode(savedCrossfadeMode)
+          
+          const savedCurve = await (window as any).electronAPI.getSetting('crossfadeCurve')
+          if (savedCurve) setCrossfadeCurve(savedCurve)
+          
+          const savedAudioFade = await (window as any).electronAPI.getSetting('audioFadeDuration')
+          if (typeof savedAudioFade === 'number') setAudioFadeDuration(savedAudioFade)
+          
+          const savedVideoFade = await (window as any).electronAPI.getSetting('videoFadeDuration')
+          if (typeof savedVideoFade === 'number') setVideoFadeDuration(savedVideoFade)
+          
+          const savedStyle = await (window as any).electronAPI.getSetting('transitionStyle')
+          if (savedStyle) setTransitionStyle(savedStyle)
+
+          const savedPlayerSettings = await (window as any).electronAPI.getSetting('playerSettings')
+          if (savedPlayerSettings?.audioOutputDevice) setAudioOutputDevice(savedPlayerSettings.audioOutputDevice)
         } catch (error) {
           console.error('Failed to load settings:', error)
         }
@@ -230,7 +270,14 @@ function FullscreenApp() {
             if (data) {
               if (typeof data.fadeDuration === 'number') setFadeDuration(data.fadeDuration)
               if (typeof data.enableAudioNormalization === 'boolean') setEnableAudioNormalization(data.enableAudioNormalization)
+              if (typeof data.targetLoudness === 'number') setTargetLoudness(data.targetLoudness)
               if (typeof data.volume === 'number') setVolume(data.volume)
+              if (data.crossfadeMode) setCrossfadeMode(data.crossfadeMode)
+              if (data.crossfadeCurve) setCrossfadeCurve(data.crossfadeCurve)
+              if (typeof data.audioFadeDuration === 'number') setAudioFadeDuration(data.audioFadeDuration)
+              if (typeof data.videoFadeDuration === 'number') setVideoFadeDuration(data.videoFadeDuration)
+              if (data.transitionStyle) setTransitionStyle(data.transitionStyle)
+              if ('audioOutputDevice' in data) setAudioOutputDevice(data.audioOutputDevice)
             }
           } catch (error) {
             console.warn('Failed to apply settings update', error)
@@ -467,7 +514,8 @@ function FullscreenApp() {
         currentTime: currentTime,
         duration: duration,
         isPlaying: false,
-        volume: volume
+        volume: volume,
+        error // Counted by the main window for the fleet dashboard
       });
     }
   }
@@ -519,8 +567,12 @@ function FullscreenApp() {
       onError={handleVideoError}
       onStateChange={handleStateChange}
       enableAudioNormalization={enableAudioNormalization}
+      targetLoudness={targetLoudness}
       preloadVideo={preloadVideo}
       fadeDuration={fadeDuration}
+      crossfadeMode={crossfadeMode}
+      crossfadeOptions={crossfadeOptions}
+      audioOutputDeviceId={audioOutputDeviceId}
       seekToPosition={seekToPosition}
       onSeekComplete={handleSeekComplete}
       overlaySettings={overlaySettings}
@@ -0,0 +1,49 @@
+// src/hooks/useAudioOutputDevice.ts - Available audio outputs and where the chosen one is routed
+
+import { useState, useEffect, useCallback } from 'react';
+import { AudioOutputDevice, listAudioOutputDevices, resolveAudioOutput } from '../utils/audioOutput';
+
+export interface UseAudioOutputDeviceReturn {
+  devices: AudioOutputDevice[];
+  activeDeviceId: string; // '' = system default
+  missing: boolean;       // A device is chosen but not plugged in - playing through the default instead
+  refreshDevices: () => Promise<void>;
+}
+
+/**
+ * Follows device changes, so the player falls back to the default output when the
+ * chosen device is unplugged and switches back when it returns
+ */
+export function useAudioOutputDevice(chosen: AudioOutputDevice | null | undefined): UseAudioOutputDeviceReturn {
+  const [devices, setDevices] = useState<AudioOutputDevice[]>([]);
+  const [loaded, setLoaded] = useState(false);
+
+  const refreshDevices = useCallback(async () => {
+    try {
+      setDevices(await listAudioOutputDevices());
+    } catch (error) {
+      console.warn('[useAudioOutputDevice] Could not list audio outputs:', error);
+      setDevices([]);
+    } finally {
+      setLoaded(true);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshDevices();
+    const mediaDevices = typeof navigator !== 'undefined' ? navigator.mediaDevices : undefined;
+    if (!mediaDevices?.addEventListener) return;
+    mediaDevices.addEventListener('devicechange', refreshDevices);
+    return () => mediaDevices.removeEventListener('devicechange', refreshDevices);
+  }, [refreshDevices]);
+
+  const resolved = resolveAudioOutput(chosen, devices);
+
+  return {
+    devices,
+    activeDeviceId: resolved?.deviceId ?? '',
+    // Not reported until the first listing, so startup doesn't flag a missing device
+    missing: loaded && !!chosen?.deviceId && !resolved,
+    refreshDevices
+  };
+}
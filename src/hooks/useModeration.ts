@@ -0,0 +1,85 @@
+// hooks/useModeration.ts
+// Moderation decisions enforced on the player itself - queue requests, search, smart playlists and the Auto-DJ
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Video } from '../types';
+import { getSupabaseService } from '../services/SupabaseService';
+import { EMPTY_MODERATION_SNAPSHOT, ModerationSnapshot, getBlockedVideoKeys, getModerationKey } from '../utils/moderation';
+import { logger } from '../utils/logger';
+
+interface ModerationConfig {
+  enabled: boolean; // Only read Supabase once it is initialized
+}
+
+// Re-read decisions and re-check the daytime explicit window this often
+const REFRESH_INTERVAL_MS = 60 * 1000;
+const SNAPSHOT_SETTING = 'moderationSnapshot';
+
+function sameKeys(a: Set<string>, b: Set<string>): boolean {
+  return a.size === b.size && [...a].every(key => b.has(key));
+}
+
+/**
+ * Keeps the last moderation snapshot (saved, so it survives restarts and applies offline)
+ * and the set of file paths that are blocked right now
+ *
+ * isVideoAllowed() reads from a ref, so it is safe to call from command handlers registered once.
+ * The blocked paths are also sent to the main process for Auto-DJ picks and LAN search.
+ */
+export function useModeration(config: ModerationConfig) {
+  const { enabled } = config;
+  const isElectron = typeof window !== 'undefined' && !!window.electronAPI;
+  const [snapshot, setSnapshot] = useState<ModerationSnapshot>(EMPTY_MODERATION_SNAPSHOT);
+  const [blockedKeys, setBlockedKeys] = useState<Set<string>>(() => new Set());
+  const blockedKeysRef = useRef(blockedKeys);
+  blockedKeysRef.current = blockedKeys;
+
+  // The saved snapshot applies until Supabase answers (or for as long as it can't)
+  useEffect(() => {
+    if (!isElectron) return;
+    window.electronAPI.getSetting<ModerationSnapshot | undefined>(SNAPSHOT_SETTING).then((saved) => {
+      if (saved && Array.isArray(saved.rejected)) {
+        setSnapshot(current => current.fetchedAt ? current : saved);
+      }
+    });
+  }, [isElectron]);
+
+  const refreshModeration = useCallback(async () => {
+    const fresh = await getSupabaseService().getModerationSnapshot();
+    if (!fresh) return;
+    setSnapshot(fresh);
+    if (isElectron) {
+      window.electronAPI.setSetting(SNAPSHOT_SETTING, fresh);
+    }
+    logger.debug(`[useModeration] ${fresh.rejected.length} rejected, ${fresh.explicit.length} explicit`);
+  }, [isElectron]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    refreshModeration();
+    const interval = setInterval(refreshModeration, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [enabled, refreshModeration]);
+
+  // Re-evaluate on each snapshot and every minute (the explicit window opens and closes by the clock)
+  useEffect(() => {
+    const update = () => {
+      const next = getBlockedVideoKeys(snapshot, new Date());
+      setBlockedKeys(current => sameKeys(current, next) ? current : next);
+    };
+    update();
+    const interval = setInterval(update, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [snapshot]);
+
+  useEffect(() => {
+    if (!isElectron) return;
+    window.electronAPI.setModerationBlocklist([...blockedKeys]);
+  }, [isElectron, blockedKeys]);
+
+  const isVideoAllowed = useCallback((video: Video): boolean => {
+    return !blockedKeysRef.current.has(getModerationKey(video));
+  }, []);
+
+  return { blockedKeys, isVideoAllowed, refreshModeration };
+}
@@ -0,0 +1,91 @@
+// hooks/usePlayHistory.ts
+// Records every now-playing change in the play history log
+
+import { useCallback, useEffect, useRef } from 'react';
+import { Video, TransitionReason } from '../types';
+import { getSupabaseService } from '../services/SupabaseService';
+
+interface PlayHistoryConfig {
+  currentVideo: Video | null;
+  playId: number; // Changes on every play start - a video played twice in a row is two plays
+  isFromPriorityQueue: boolean;
+  playbackTime: number;
+  playbackDuration: number;
+  enabled: boolean; // Only record once Supabase is initialized
+}
+
+interface ActivePlay {
+  video: Video;
+  key: string; // playId + video
+  startedAt: string;
+  fromPriority: boolean;
+  secondsPlayed: number;
+  duration: number;
+}
+
+/**
+ * Tracks the video that is currently playing and records it when it is replaced
+ *
+ * The transition reason defaults to 'natural_end'. Call markTransition() just before
+ * triggering a skip, manual next or error advance so the outgoing play is labelled correctly.
+ */
+export function usePlayHistory(config: PlayHistoryConfig) {
+  const { currentVideo, playId, isFromPriorityQueue, playbackTime, playbackDuration, enabled } = config;
+  const activePlayRef = useRef<ActivePlay | null>(null);
+  const transitionReasonRef = useRef<TransitionReason | null>(null);
+  const enabledRef = useRef(enabled);
+  enabledRef.current = enabled;
+  const isFromPriorityRef = useRef(isFromPriorityQueue);
+  isFromPriorityRef.current = isFromPriorityQueue;
+
+  const markTransition = useCallback((reason: TransitionReason) => {
+    transitionReasonRef.current = reason;
+  }, []);
+
+  // New play started: record the outgoing play, start tracking the new one
+  useEffect(() => {
+    const videoId = currentVideo ? (currentVideo.id || currentVideo.src) : null;
+    const key = videoId ? `${playId}:${videoId}` : null;
+    const previous = activePlayRef.current;
+    if (previous && previous.key === key) return;
+
+    if (previous && enabledRef.current) {
+      getSupabaseService().recordVideoPlay(previous.video, {
+        startedAt: previous.startedAt,
+        secondsPlayed: previous.secondsPlayed,
+        duration: previous.duration,
+        transitionReason: transitionReasonRef.current || 'natural_end',
+        fromPriority: previous.fromPriority
+      });
+    }
+    transitionReasonRef.current = null;
+
+    activePlayRef.current = currentVideo && key ? {
+      video: currentVideo,
+      key,
+      startedAt: new Date().toISOString(),
+      fromPriority: isFromPriorityRef.current,
+      secondsPlayed: 0,
+      duration: currentVideo.duration || 0
+    } : null;
+  }, [currentVideo, playId]);
+
+  // The source can arrive after the video itself
+  useEffect(() => {
+    if (activePlayRef.current) {
+      activePlayRef.current.fromPriority = isFromPriorityQueue;
+    }
+  }, [isFromPriorityQueue]);
+
+  // Latest reported position is what gets recorded when the video changes
+  useEffect(() => {
+    const active = activePlayRef.current;
+    if (!active) return;
+    active.secondsPlayed = playbackTime;
+    if (playbackDuration > 0) {
+      active.duration = playbackDuration;
+    }
+  }, [playbackTime, playbackDuration]);
+
+  return { markTransition };
+}
@@ -4,6 +4,7 @@ import { Video } from '../types';
 import { localSearchService } from '../services';
 import { getSupabaseService } from '../services';
 import { logger } from '../utils/logger';
+import { useSmartPlaylists } from './useSmartPlaylists';
 
 interface UsePlaylistManagementOptions {
   isElectron: boolean;
@@ -216,8 +217,16 @@ export const usePlaylistManagement = (options: UsePlaylistManagementOptions) =>
     };
   }, [isElectron, supabaseInitialized, onProgress]);
 
+  // Smart playlists sit alongside the folder playlists and re-evaluate after each re-index
+  const { smartPlaylists, smartPlaylistVideos, saveSmartPlaylist, deleteSmartPlaylist, refreshSmartPlaylists } = useSmartPlaylists({
+    library: playlists,
+    enabled: supabaseInitialized && !isProcessing
+  });
+
   return {
     playlists,
+    smartPlaylists,
+    smartPlaylistVideos,
     activePlaylist,
     selectedPlaylist,
     isProcessing,
@@ -227,6 +236,9 @@ export const usePlaylistManagement = (options: UsePlaylistManagementOptions) =>
     setActivePlaylist,
     setSelectedPlaylist,
     refreshPlaylists,
+    saveSmartPlaylist,
+    deleteSmartPlaylist,
+    refreshSmartPlaylists,
     waitForIndexingComplete,
     findDefaultPlaylist
   };
@@ -0,0 +1,46 @@
+// hooks/usePlaylistSchedule.ts
+// Applies the weekly playlist schedule (dayparting) while the player is running
+
+import { useEffect, useRef } from 'react';
+import { getActiveScheduleSlot, PlaylistSchedule, PlaylistScheduleSlot } from '../utils/playlistSchedule';
+
+interface PlaylistScheduleConfig {
+  schedule: PlaylistSchedule;
+  onSlotStart: (slot: PlaylistScheduleSlot) => void;
+  enabled: boolean; // Only apply once playlists are loaded and the queue is ready
+}
+
+const CHECK_INTERVAL_MS = 30 * 1000;
+
+/**
+ * Calls onSlotStart() when a schedule slot becomes active
+ *
+ * Each slot fires once per occurrence: editing or re-saving the schedule does not reload
+ * the playlist that is already running. If the player starts inside a slot, that slot is
+ * applied once ready. Outside every slot the current queue is left alone.
+ */
+export function usePlaylistSchedule(config: PlaylistScheduleConfig) {
+  const { schedule, onSlotStart, enabled } = config;
+  const activeSlotIdRef = useRef<string | null>(null);
+  const onSlotStartRef = useRef(onSlotStart);
+  onSlotStartRef.current = onSlotStart;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const check = () => {
+      const slot = getActiveScheduleSlot(schedule);
+      if (!slot) {
+        activeSlotIdRef.current = null;
+        return;
+      }
+      if (slot.id === activeSlotIdRef.current) return;
+      activeSlotIdRef.current = slot.id;
+      onSlotStartRef.current(slot);
+    };
+
+    check();
+    const intervalId = setInterval(check, CHECK_INTERVAL_MS);
+    return () => clearInterval(intervalId);
+  }, [schedule, enabled]);
+}
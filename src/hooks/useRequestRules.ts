@@ -0,0 +1,63 @@
+// hooks/useRequestRules.ts
+// Enforces the kiosk anti-repeat rules against recent play history and the pending queue
+
+import { useCallback, useEffect, useRef } from 'react';
+import { Video } from '../types';
+import type { PlayHistoryEntry } from '../types/supabase';
+import { getSupabaseService } from '../services/SupabaseService';
+import { checkRequestRules, RequestRules } from '../utils/requestRules';
+
+interface RequestRulesConfig {
+  rules: RequestRules;
+  currentVideo: Video | null;
+  priorityQueue: Video[];
+  enabled: boolean; // Only load history once Supabase is initialized
+}
+
+const HISTORY_LIMIT = 500;
+const MIN_HISTORY_WINDOW_MINUTES = 60; // Artist limit always looks back one hour
+
+/**
+ * Keeps a rolling window of recent plays and exposes checkRequest()
+ *
+ * checkRequest() returns a human-readable rejection reason, or null when the request is allowed.
+ * It reads from refs, so it is safe to call from command handlers registered once.
+ */
+export function useRequestRules(config: RequestRulesConfig) {
+  const { rules, currentVideo, priorityQueue, enabled } = config;
+  const recentPlaysRef = useRef<PlayHistoryEntry[]>([]);
+  const rulesRef = useRef(rules);
+  const currentVideoRef = useRef(currentVideo);
+  const priorityQueueRef = useRef(priorityQueue);
+  rulesRef.current = rules;
+  currentVideoRef.current = currentVideo;
+  priorityQueueRef.current = priorityQueue;
+
+  const windowMinutes = Math.max(rules.repeatWindowMinutes, MIN_HISTORY_WINDOW_MINUTES);
+
+  // Load the history window, then keep it current as this player records plays
+  useEffect(() => {
+    if (!enabled) return;
+    const service = getSupabaseService();
+    const since = new Date(Date.now() - windowMinutes * 60 * 1000).toISOString();
+    service.getPlayHistory(HISTORY_LIMIT, since).then(history => {
+      recentPlaysRef.current = history;
+    });
+    return service.onPlayRecorded((entry) => {
+      const cutoff = Date.now() - windowMinutes * 60 * 1000;
+      recentPlaysRef.current = [entry, ...recentPlaysRef.current]
+        .filter(play => new Date(play.played_at).getTime() >= cutoff)
+        .slice(0, HISTORY_LIMIT);
+    });
+  }, [enabled, windowMinutes]);
+
+  const checkRequest = useCallback((video: Video, kioskId: string): string | null => {
+    return checkRequestRules(video, kioskId, rulesRef.current, {
+      nowPlaying: currentVideoRef.current,
+      priorityQueue: priorityQueueRef.current,
+      recentPlays: recentPlaysRef.current
+    });
+  }, []);
+
+  return { checkRequest };
+}
@@ -7,12 +7,15 @@ import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { Video } from '../types';
 import { localSearchService, getSupabaseService } from '../services';
 import { logger } from '../utils/logger';
+import { getModerationKey } from '../utils/moderation';
 
 interface UseSearchOptions {
   playlists: Record<string, Video[]>;
+  smartPlaylistVideos?: Record<string, Video[]>; // Smart playlists can be selected like folder playlists
   selectedPlaylist: string | null;
   supabaseInitialized: boolean;
   playerId: string;
+  blockedKeys?: Set<string>; // Moderation - blocked tracks are left out of every result
 }
 
 interface UseSearchReturn {
@@ -37,9 +40,11 @@ interface UseSearchReturn {
 
 export const useSearch = ({
   playlists,
+  smartPlaylistVideos,
   selectedPlaylist,
   supabaseInitialized,
-  playerId
+  playerId,
+  blockedKeys
 }: UseSearchOptions): UseSearchReturn => {
   const [searchQuery, setSearchQuery] = useState('');
   const [searchScope, setSearchScope] = useState('all');
@@ -96,13 +101,16 @@ export const useSearch = ({
 
   // Perform search
   useEffect(() => {
+    const allowed = (videos: Video[]): Video[] =>
+      blockedKeys && blockedKeys.size > 0 ? videos.filter(video => !blockedKeys.has(getModerationKey(video))) : videos;
+
     const performSearch = async () => {
       setSearchLoading(true);
       
       try {
         // If searching in a specific playlist
         if (searchScope === 'playlist' && selectedPlaylist) {
-          const playlistVideos = playlists[selectedPlaylist] || [];
+          const playlistVideos = allowed(playlists[selectedPlaylist] || smartPlaylistVideos?.[selectedPlaylist] || []);
           let results = playlistVideos;
           
           if (searchQuery.trim()) {
@@ -117,7 +125,7 @@ export const useSearch = ({
         }
         // Local search (fallback or when Supabase not available)
         else if (!supabaseInitialized || searchScope !== 'all') {
-          const allVideos = Object.values(playlists).flat();
+          const allVideos = allowed(Object.values(playlists).flat());
           let results = filterByScope(allVideos, searchScope);
           
           if (searchQuery.trim()) {
@@ -141,10 +149,10 @@ export const useSearch = ({
               let results: Video[] = [];
               if (searchQuery.trim()) {
                 // User has entered a search query - perform search
-                results = await supabase.searchVideos(searchQuery, searchScope, searchLimit, 0);
+                results = allowed(await supabase.searchVideos(searchQuery, searchScope, searchLimit, 0));
               } else {
                 // No search query - browse all videos (browse mode)
-                results = await supabase.browseVideos(searchScope, dbSortBy, 'asc', searchLimit, 0);
+                results = allowed(await supabase.browseVideos(searchScope, dbSortBy, 'asc', searchLimit, 0));
               }
               
               // If Supabase browse/search returned empty and we have playlists, fall back to local
@@ -183,7 +191,7 @@ export const useSearch = ({
               }
               
               // Fall back to local search
-              const allVideos = Object.values(playlists).flat();
+              const allVideos = allowed(Object.values(playlists).flat());
               let results = filterByScope(allVideos, searchScope);
               
               if (searchQuery.trim()) {
@@ -198,7 +206,7 @@ export const useSearch = ({
             }
           } else {
             // Supabase not initialized or RPC unavailable - use local search
-            const allVideos = Object.values(playlists).flat();
+            const allVideos = allowed(Object.values(playlists).flat());
             let results = filterByScope(allVideos, searchScope);
             
             if (searchQuery.trim()) {
@@ -224,7 +232,7 @@ export const useSearch = ({
     // Debounce search (but always perform it, even with empty query for browse mode)
     const timeoutId = setTimeout(performSearch, searchQuery.trim() ? 300 : 0); // No debounce for browse mode
     return () => clearTimeout(timeoutId);
-  }, [searchQuery, searchScope, searchSort, searchLimit, selectedPlaylist, playlists, supabaseInitialized, filterByScope, sortResults]);
+  }, [searchQuery, searchScope, searchSort, searchLimit, selectedPlaylist, playlists, smartPlaylistVideos, supabaseInitialized, blockedKeys, filterByScope, sortResults]);
 
   return {
     searchQuery,
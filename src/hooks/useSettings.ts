@@ -5,13 +5,14 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { logger } from '../utils/logger';
+import { CrossfadeMode } from '../types';
 
 interface PlayerSettings {
   autoShufflePlaylists: boolean;
   normalizeAudioLevels: boolean;
   enableFullscreenPlayer: boolean;
   fadeDuration: number;
-  crossfadeMode: 'manual' | 'seamless';
+  crossfadeMode: CrossfadeMode;
   playerDisplayId: number | null;
   playerFullscreen: boolean;
   playlistsDirectory: string;
@@ -20,7 +21,6 @@ interface PlayerSettings {
 interface KioskSettings {
   mode: 'freeplay' | 'credits';
   uiMode: 'classic' | 'jukebox';
-  creditBalance: number;
   searchAllMusic: boolean;
   searchYoutube: boolean;
 }
@@ -82,7 +82,6 @@ export const useSettings = ({ isElectron }: UseSettingsOptions): UseSettingsRetu
   const [kioskSettings, setKioskSettings] = useState<KioskSettings>({
     mode: 'freeplay',
     uiMode: 'classic',
-    creditBalance: 0,
     searchAllMusic: true,
     searchYoutube: false
   });
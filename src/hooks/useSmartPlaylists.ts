@@ -0,0 +1,88 @@
+// hooks/useSmartPlaylists.ts
+// Smart playlist rules from Supabase, evaluated against the indexed library
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Video } from '../types';
+import type { SmartPlaylist, SmartPlaylistInput, SupabaseLocalVideo } from '../types/supabase';
+import { getSupabaseService } from '../services/SupabaseService';
+import { evaluateSmartPlaylist } from '../utils/smartPlaylists';
+import { getModerationKey } from '../utils/moderation';
+import { logger } from '../utils/logger';
+
+interface SmartPlaylistsConfig {
+  library: Record<string, Video[]>;
+  blockedKeys?: Set<string>; // Moderation - blocked tracks never match
+  enabled: boolean; // Supabase initialized and not indexing - local_videos must be current
+}
+
+// The column is file_path; older rows and types call it path
+function rowPath(row: SupabaseLocalVideo): string {
+  return row.path || (row as SupabaseLocalVideo & { file_path?: string }).file_path || '';
+}
+
+/**
+ * Loads this player's smart playlists and the local_videos rows they run against
+ *
+ * Both are re-read whenever the library changes (once indexing has finished), so the
+ * playlists follow added and removed files. Matches are mapped back to library videos
+ * by path, so they play like any folder playlist.
+ */
+export function useSmartPlaylists(config: SmartPlaylistsConfig) {
+  const { library, blockedKeys, enabled } = config;
+  const [smartPlaylists, setSmartPlaylists] = useState<SmartPlaylist[]>([]);
+  const [indexedVideos, setIndexedVideos] = useState<SupabaseLocalVideo[]>([]);
+
+  const refreshSmartPlaylists = useCallback(async () => {
+    const supabaseService = getSupabaseService();
+    const [definitions, rows] = await Promise.all([
+      supabaseService.getSmartPlaylists(),
+      supabaseService.getAvailableLocalVideos()
+    ]);
+    setSmartPlaylists(definitions);
+    setIndexedVideos(rows.map(row => ({ ...row, path: rowPath(row) })));
+    logger.debug(`[useSmartPlaylists] Loaded ${definitions.length} smart playlists over ${rows.length} videos`);
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) return;
+    refreshSmartPlaylists();
+  }, [enabled, library, refreshSmartPlaylists]);
+
+  const smartPlaylistVideos = useMemo(() => {
+    const byPath = new Map<string, Video>();
+    for (const videos of Object.values(library)) {
+      for (const video of videos) {
+        const path = video.path || video.file_path || video.src;
+        if (path && !byPath.has(path)) byPath.set(path, video);
+      }
+    }
+
+    const now = Date.now();
+    const result: Record<string, Video[]> = {};
+    for (const playlist of smartPlaylists) {
+      result[playlist.name] = evaluateSmartPlaylist(playlist, indexedVideos, now)
+        .map(row => byPath.get(row.path))
+        .filter((video): video is Video => video !== undefined && !blockedKeys?.has(getModerationKey(video)));
+    }
+    return result;
+  }, [smartPlaylists, indexedVideos, library, blockedKeys]);
+
+  // Throw on failure so the editor can show the reason
+  const saveSmartPlaylist = useCallback(async (playlist: SmartPlaylistInput): Promise<void> => {
+    await getSupabaseService().saveSmartPlaylist(playlist);
+    await refreshSmartPlaylists();
+  }, [refreshSmartPlaylists]);
+
+  const deleteSmartPlaylist = useCallback(async (id: string): Promise<void> => {
+    await getSupabaseService().deleteSmartPlaylist(id);
+    await refreshSmartPlaylists();
+  }, [refreshSmartPlaylists]);
+
+  return {
+    smartPlaylists,
+    smartPlaylistVideos,
+    saveSmartPlaylist,
+    deleteSmartPlaylist,
+    refreshSmartPlaylists
+  };
+}
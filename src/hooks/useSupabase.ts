@@ -12,14 +12,19 @@ import { useEffect, useRef, useCallback, useState } from 'react';
 import { getSupabaseService } from '../services/SupabaseService';
 import { 
   CommandType, 
+  CommandRole,
   SupabaseCommand,
   VolumeCommandPayload,
   SeekCommandPayload,
   QueueAddCommandPayload,
   LoadPlaylistCommandPayload,
+  KioskAddCreditsCommandPayload,
+  KioskClearCreditsCommandPayload,
+  VirtualPlaylistSaveCommandPayload,
+  VirtualPlaylistDeleteCommandPayload,
   QueueVideoItem
 } from '../types/supabase';
-import { Video } from '../types';
+import { Video, VirtualPlaylistInput } from '../types';
 
 export interface UseSupabaseOptions {
   /** Player ID (defaults to electron-player-1) */
@@ -39,11 +44,12 @@ export interface UseSupabaseOptions {
   /** Callback when a seek command is received */
   onSeekTo?: (position: number) => void;
   /** Callback when a queue add command is received */
-  onQueueAdd?: (video: QueueVideoItem, queueType: 'active' | 'priority') => void;
+  onQueueAdd?: (video: QueueVideoItem, queueType: 'active' | 'priority', kioskId?: string, request?: { commandId: string; issuerRole: CommandRole }) => void | Promise<void>; // Throw to reject the request
   /** Callback when a queue shuffle command is received */
+  onQueueClear?: () => void;
   onQueueShuffle?: () => void;
   /** Callback when a load playlist command is received */
-  onLoadPlaylist?: (playlistName: string, shuffle?: boolean) => void;
+  onLoadPlaylist?: (playlistName: string, shuffle?: boolean, virtualPlaylistId?: string) => void;
   /** Callback when a queue move command is received */
   onQueueMove?: (fromIndex: number, toIndex: number) => void;
   /** Callback when a queue remove command is received */
@@ -58,6 +64,12 @@ export interface UseSupabaseOptions {
   onOverlaySettingsUpdate?: (settings: Record<string, unknown>) => void;
   /** Callback when kiosk settings update command is received */
   onKioskSettingsUpdate?: (settings: Record<string, unknown>) => void;
+  /** Callback when a player settings update command is received (throw to reject it) */
+  onSettingsUpdate?: (settings: Record<string, unknown>) => void;
+  /** Callback when a virtual playlist is created or edited remotely (throw to reject it) */
+  onVirtualPlaylistSave?: (playlist: VirtualPlaylistInput) => void | Promise<void>;
+  /** Callback when a virtual playlist is deleted remotely (throw to reject it) */
+  onVirtualPlaylistDelete?: (id: string) => void | Promise<void>;
 }
 
 export interface UseSupabaseReturn {
@@ -65,6 +77,8 @@ export interface UseSupabaseReturn {
   isInitialized: boolean;
   /** Whether connected and online */
   isOnline: boolean;
+  /** Queued commands and queue updates waiting to sync (persisted across restarts in Electron) */
+  pendingSyncCount: number;
   /** Initialize the Supabase service */
   initialize: () => Promise<boolean>;
   /** Shutdown the Supabase service */
@@ -93,6 +107,7 @@ export function useSupabase(options: UseSupabaseOptions = {}): UseSupabaseReturn
     onSetVolume,
     onSeekTo,
     onQueueAdd,
+    onQueueClear,
     onQueueShuffle,
     onLoadPlaylist,
     onQueueMove,
@@ -101,11 +116,15 @@ export function useSupabase(options: UseSupabaseOptions = {}): UseSupabaseReturn
     onPlayerFullscreenToggle,
     onPlayerRefresh,
     onOverlaySettingsUpdate,
-    onKioskSettingsUpdate
+    onKioskSettingsUpdate,
+    onSettingsUpdate,
+    onVirtualPlaylistSave,
+    onVirtualPlaylistDelete
   } = options;
 
   const [isInitialized, setIsInitialized] = useState(false);
   const [isOnline, setIsOnline] = useState(false);
+  const [pendingSyncCount, setPendingSyncCount] = useState(0);
   const serviceRef = useRef(getSupabaseService());
   const handlersRegisteredRef = useRef(false);
   
@@ -118,6 +137,7 @@ export function useSupabase(options: UseSupabaseOptions = {}): UseSupabaseReturn
     onSetVolume,
     onSeekTo,
     onQueueAdd,
+    onQueueClear,
     onQueueShuffle,
     onLoadPlaylist,
     onQueueMove,
@@ -126,7 +146,10 @@ export function useSupabase(options: UseSupabaseOptions = {}): UseSupabaseReturn
     onPlayerFullscreenToggle,
     onPlayerRefresh,
     onOverlaySettingsUpdate,
-    onKioskSettingsUpdate
+    onKioskSettingsUpdate,
+    onSettingsUpdate,
+    onVirtualPlaylistSave,
+    onVirtualPlaylistDelete
   });
   
   // Update callbacks ref when they change (but don't trigger effect)
@@ -139,6 +162,7 @@ export function useSupabase(options: UseSupabaseOptions = {}): UseSupabaseReturn
       onSetVolume,
       onSeekTo,
       onQueueAdd,
+      onQueueClear,
       onQueueShuffle,
       onLoadPlaylist,
       onQueueMove,
@@ -147,9 +171,12 @@ export function useSupabase(options: UseSupabaseOptions = {}): UseSupabaseReturn
       onPlayerFullscreenToggle,
       onPlayerRefresh,
       onOverlaySettingsUpdate,
-      onKioskSettingsUpdate
+      onKioskSettingsUpdate,
+      onSettingsUpdate,
+      onVirtualPlaylistSave,
+      onVirtualPlaylistDelete
     };
-  }, [onPlay, onPause, onResume, onSkip, onSetVolume, onSeekTo, onQueueAdd, onQueueShuffle, onLoadPlaylist, onQueueMove, onQueueRemove, onPlayerWindowToggle, onPlayerFullscreenToggle, onPlayerRefresh, onOverlaySettingsUpdate, onKioskSettingsUpdate]);
+  }, [onPlay, onPause, onResume, onSkip, onSetVolume, onSeekTo, onQueueAdd, onQueueClear, onQueueShuffle, onLoadPlaylist, onQueueMove, onQueueRemove, onPlayerWindowToggle, onPlayerFullscreenToggle, onPlayerRefresh, onOverlaySettingsUpdate, onKioskSettingsUpdate, onSettingsUpdate, onVirtualPlaylistSave, onVirtualPlaylistDelete]);
 
   // Initialize the service
   const initialize = useCallback(async (): Promise<boolean> => {
@@ -259,12 +286,20 @@ export function useSupabase(options: UseSupabaseOptions = {}): UseSupabaseReturn
         console.log(`[useSupabase] 🎯 queue_add handler called with command:`, cmd.id, cmd.command_type);
         const payload = cmd.command_data as QueueAddCommandPayload;
         console.log(`[useSupabase] 🎯 queue_add payload:`, payload);
-        callbacks.onQueueAdd?.(payload.video, payload.queueType);
+        // The requesting kiosk is the paired device that sent the command, never one named in the payload
+        const kioskId = cmd.issuer_role === 'kiosk' && cmd.issuer_id ? cmd.issuer_id : undefined;
+        // Returned so a rejection (e.g. kiosk request rules) fails the command with its reason
+        return callbacks.onQueueAdd?.(payload.video, payload.queueType, kioskId, { commandId: cmd.id, issuerRole: cmd.issuer_role || 'guest' });
       });
     } else {
       console.warn(`[useSupabase] ⚠️ onQueueAdd handler not provided - queue_add commands will not be processed`);
     }
 
+    // Queue clear command
+    if (callbacks.onQueueClear) {
+      service.onCommand('queue_clear', () => callbacks.onQueueClear?.());
+    }
+
     // Queue shuffle command
     if (callbacks.onQueueShuffle) {
       service.onCommand('queue_shuffle', () => callbacks.onQueueShuffle?.());
@@ -274,7 +309,7 @@ export function useSupabase(options: UseSupabaseOptions = {}): UseSupabaseReturn
     if (callbacks.onLoadPlaylist) {
       service.onCommand('load_playlist', (cmd) => {
         const payload = cmd.command_data as LoadPlaylistCommandPayload;
-        callbacks.onLoadPlaylist?.(payload.playlistName, payload.shuffle);
+        callbacks.onLoadPlaylist?.(payload.playlistName, payload.shuffle, payload.virtualPlaylistId);
       });
     }
 
@@ -331,6 +366,40 @@ export function useSupabase(options: UseSupabaseOptions = {}): UseSupabaseReturn
       });
     }
 
+    // Player settings update command
+    if (callbacks.onSettingsUpdate) {
+      service.onCommand('settings_update', (cmd) => {
+        const payload = cmd.command_data as { settings: Record<string, unknown> };
+        callbacks.onSettingsUpdate?.(payload.settings);
+      });
+    }
+
+    // Virtual playlist commands (the player owns the playlists and mirrors them back)
+    if (callbacks.onVirtualPlaylistSave) {
+      service.onCommand('virtual_playlist_save', async (cmd) => {
+        const payload = cmd.command_data as VirtualPlaylistSaveCommandPayload;
+        await callbacks.onVirtualPlaylistSave?.(payload.playlist);
+      });
+    }
+
+    if (callbacks.onVirtualPlaylistDelete) {
+      service.onCommand('virtual_playlist_delete', async (cmd) => {
+        const payload = cmd.command_data as VirtualPlaylistDeleteCommandPayload;
+        await callbacks.onVirtualPlaylistDelete?.(payload.id);
+      });
+    }
+
+    // Kiosk credit commands - always registered, the service writes straight to the credit ledger
+    service.onCommand('kiosk_add_credits', async (cmd) => {
+      const payload = cmd.command_data as KioskAddCreditsCommandPayload;
+      await service.applyKioskCredits(payload.kioskId, 'deposit', payload.amount, payload.source || cmd.issued_by, payload.creditEventId || cmd.id);
+    });
+
+    service.onCommand('kiosk_clear_credits', async (cmd) => {
+      const payload = cmd.command_data as KioskClearCreditsCommandPayload;
+      await service.applyKioskCredits(payload.kioskId, 'clear', 0, cmd.issued_by);
+    });
+
     handlersRegisteredRef.current = true;
     console.log(`[useSupabase] ✅ All command handlers registered`);
   }, [isInitialized, playerId]); // Only depend on isInitialized and playerId
@@ -348,6 +417,11 @@ export function useSupabase(options: UseSupabaseOptions = {}): UseSupabaseReturn
     };
   }, [isInitialized]);
 
+  // Track the offline queue - not gated on isInitialized, restored items exist before connecting
+  useEffect(() => {
+    return serviceRef.current.onPendingSyncChange(setPendingSyncCount);
+  }, []);
+
   // Auto-initialize on mount and when playerId changes
   const hasInitializedRef = useRef(false);
   const lastAutoInitRef = useRef(false);
@@ -382,6 +456,7 @@ export function useSupabase(options: UseSupabaseOptions = {}): UseSupabaseReturn
   return {
     isInitialized,
     isOnline,
+    pendingSyncCount,
     initialize,
     shutdown,
     syncState
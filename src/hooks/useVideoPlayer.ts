@@ -2,12 +2,17 @@
 // REFACTORED: Supports both Manual and Seamless crossfade modes
 // Manual: Videos play to completion, next starts immediately (clean cut)
 // Seamless: Next video starts X seconds before current ends (overlap crossfade)
+// DJ mix: Same overlap, but both tracks play at full level mid-transition
 
 import { useState, useRef, useCallback, useEffect } from 'react';
 import { Video, PlayerState, VideoRefs, CrossfadeMode, TransitionReason } from '../types';
 import { createIPCAdapter } from '../utils/ipc';
 import { logger } from '../utils/logger';
 import { getSupabaseService } from '../services/SupabaseService';
+import { CuePoints, resolveCuePoints, getCrossfadeStartTime } from '../utils/cuePoints';
+import { LoudnessInfo, DEFAULT_TARGET_LOUDNESS, getNormalizationGainDb, dbToGain } from '../utils/loudness';
+import { CrossfadeOptions, crossfade, fadeOutGain } from '../utils/crossfade';
+import { applyAudioOutput } from '../utils/audioOutput';
 
 // ============================================================================
 // TYPES (local to this module for backwards compatibility)
@@ -21,9 +26,34 @@ interface VideoPlayerConfig {
   onVideoEnd?: () => void;
   onError?: (error: string) => void;
   enableAudioNormalization?: boolean;
+  targetLoudness?: number; // LUFS that normalization aims for
+  crossfadeOptions?: CrossfadeOptions; // Curve, audio/video durations and style of overlap transitions
+  audioOutputDeviceId?: string; // Output device (setSinkId); '' = system default
   fadeDuration?: number; // DEPRECATED: use crossfadeDuration instead
 }
 
+// Per-file analysis from the main process (see electron/audio-analyzer.cjs)
+type TrackAnalysis = CuePoints & LoudnessInfo;
+
+/**
+ * Track analysis is looked up by file path (the cache in the main process is keyed the same way)
+ */
+function getTrackKey(video: Video): string {
+  return video.path || video.file_path || video.src;
+}
+
+/**
+ * Start a just-loaded element at a position once its duration is known
+ * (kept a second short of the end so a stale position can't end the track at once)
+ */
+function seekOnLoadedMetadata(element: HTMLVideoElement, position: number): void {
+  element.addEventListener('loadedmetadata', () => {
+    const end = Number.isFinite(element.duration) ? Math.max(0, element.duration - 1) : position;
+    element.currentTime = Math.min(position, end);
+    logger.debug(`[PLAY] Starting at ${element.currentTime}s`);
+  }, { once: true });
+}
+
 // ============================================================================
 // MAIN HOOK
 // ============================================================================
@@ -37,12 +67,20 @@ export function useVideoPlayer(config: VideoPlayerConfig) {
     fadeDuration: legacyFadeDuration, // Support legacy prop
     onVideoEnd,
     onError,
-    enableAudioNormalization = false
+    enableAudioNormalization = false,
+    targetLoudness = DEFAULT_TARGET_LOUDNESS,
+    crossfadeOptions,
+    audioOutputDeviceId = ''
   } = config;
 
   // Use crossfadeDuration or fall back to legacy fadeDuration
   const crossfadeDuration = configCrossfadeDuration ?? legacyFadeDuration ?? 2.0;
 
+  // Overlap transitions last as long as the longer of their audio and video fades
+  const overlapDuration = crossfadeOptions
+    ? Math.max(crossfadeOptions.audioDuration, crossfadeOptions.videoDuration)
+    : crossfadeDuration;
+
   // ============================================================================
   // REFS - Video Elements
   // ============================================================================
@@ -112,6 +150,10 @@ export function useVideoPlayer(config: VideoPlayerConfig) {
   // Track if we're currently in a crossfade transition
   const isCrossfadingRef = useRef(false);
   
+  // Analysis per video (file path -> cue points + loudness) and the key of the video now playing
+  const trackAnalysisRef = useRef<Map<string, TrackAnalysis>>(new Map());
+  const currentTrackKeyRef = useRef<string | null>(null);
+  
   // Retry tracking
   const retryCountRef = useRef(0);
   
@@ -122,69 +164,89 @@ export function useVideoPlayer(config: VideoPlayerConfig) {
   // IPC adapter
   const ipcAdapter = createIPCAdapter(true);
 
-  // Refs for audio normalization
+  // Refs for audio normalization - each video element is routed through its own gain node
   const audioContextRef = useRef<AudioContext | null>(null);
-  const analyserRef = useRef<AnalyserNode | null>(null);
-  const normalizationFactorRef = useRef(1.0);
-  const isAnalyzingRef = useRef(false);
+  const gainNodesRef = useRef<Map<HTMLVideoElement, GainNode>>(new Map());
+  const enableAudioNormalizationRef = useRef(enableAudioNormalization);
+  const targetLoudnessRef = useRef(targetLoudness);
+  const audioOutputDeviceIdRef = useRef(audioOutputDeviceId);
 
   // ============================================================================
   // AUDIO NORMALIZATION (optional feature)
   // ============================================================================
 
-  const initializeAudioAnalysis = useCallback(() => {
-    if (!enableAudioNormalization || audioContextRef.current) return;
-    
-    const activeVideo = getActiveVideo();
-    if (!activeVideo) return;
+  /**
+   * Gain node for a video element, created the first time normalization needs it
+   * (once routed through Web Audio, an element stays routed)
+   */
+  const getGainNode = useCallback((element: HTMLVideoElement): GainNode | null => {
+    const existing = gainNodesRef.current.get(element);
+    if (existing || !enableAudioNormalizationRef.current) return existing || null;
 
     try {
-      audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
-      const source = audioContextRef.current.createMediaElementSource(activeVideo);
-      analyserRef.current = audioContextRef.current.createAnalyser();
-      analyserRef.current.fftSize = 2048;
-      source.connect(analyserRef.current);
-      analyserRef.current.connect(audioContextRef.current.destination);
+      if (!audioContextRef.current) {
+        audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
+        if (audioOutputDeviceIdRef.current) {
+          applyAudioOutput(audioContextRef.current, audioOutputDeviceIdRef.current);
+        }
+      }
+      const context = audioContextRef.current;
+      const source = context.createMediaElementSource(element);
+      const gainNode = context.createGain();
+      source.connect(gainNode);
+      gainNode.connect(context.destination);
+      gainNodesRef.current.set(element, gainNode);
+      return gainNode;
     } catch (error) {
       console.warn('[useVideoPlayer] Web Audio API not supported:', error);
+      return null;
     }
-  }, [enableAudioNormalization, getActiveVideo]);
+  }, []);
 
-  const calculateRMS = useCallback((buffer: Uint8Array): number => {
-    let sum = 0;
-    for (let i = 0; i < buffer.length; i++) {
-      const sample = (buffer[i] - 128) / 128;
-      sum += sample * sample;
+  /**
+   * Set an element's gain for the track loaded into it. Called before playback starts;
+   * smooth ramps instead when the analysis arrives or settings change mid-track.
+   */
+  const applyTrackGain = useCallback((element: HTMLVideoElement, smooth: boolean = false) => {
+    const gainNode = getGainNode(element);
+    if (!gainNode || !audioContextRef.current) return;
+
+    const trackKey = element.dataset.trackKey;
+    const gainDb = enableAudioNormalizationRef.current
+      ? getNormalizationGainDb(trackKey ? trackAnalysisRef.current.get(trackKey) : null, targetLoudnessRef.current)
+      : 0;
+    const now = audioContextRef.current.currentTime;
+    gainNode.gain.cancelScheduledValues(now);
+    if (smooth) {
+      gainNode.gain.setTargetAtTime(dbToGain(gainDb), now, 0.3);
+    } else {
+      gainNode.gain.setValueAtTime(dbToGain(gainDb), now);
     }
-    return Math.sqrt(sum / buffer.length);
-  }, []);
+    logger.debug(`[LOUDNESS] ${trackKey}: ${gainDb.toFixed(1)} dB`);
+  }, [getGainNode]);
 
-  const analyzeVolume = useCallback(() => {
-    if (!enableAudioNormalization || !analyserRef.current || isAnalyzingRef.current) return;
-
-    isAnalyzingRef.current = true;
-    const bufferLength = analyserRef.current.frequencyBinCount;
-    const dataArray = new Uint8Array(bufferLength);
-    const targetRMS = 0.1;
-    let totalRMS = 0;
-    let sampleCount = 0;
-
-    const analyze = () => {
-      if (sampleCount >= 60) {
-        const averageRMS = totalRMS / sampleCount;
-        normalizationFactorRef.current = Math.max(0.1, Math.min(2.0, targetRMS / averageRMS));
-        isAnalyzingRef.current = false;
-        return;
-      }
+  // Re-apply to both elements when the normalization settings change
+  useEffect(() => {
+    enableAudioNormalizationRef.current = enableAudioNormalization;
+    targetLoudnessRef.current = targetLoudness;
+    [videoARef.current, videoBRef.current].forEach(element => {
+      if (element) applyTrackGain(element, true);
+    });
+  }, [enableAudioNormalization, targetLoudness, applyTrackGain, videoARef, videoBRef]);
 
-      analyserRef.current!.getByteTimeDomainData(dataArray);
-      totalRMS += calculateRMS(dataArray);
-      sampleCount++;
-      requestAnimationFrame(analyze);
-    };
+  // ============================================================================
+  // AUDIO OUTPUT DEVICE
+  // ============================================================================
 
-    analyze();
-  }, [enableAudioNormalization, calculateRMS]);
+  // Elements routed through Web Audio play through the context, so both are switched
+  useEffect(() => {
+    audioOutputDeviceIdRef.current = audioOutputDeviceId;
+    [videoARef.current, videoBRef.current].forEach(element => {
+      applyAudioOutput(element, audioOutputDeviceId);
+    });
+    applyAudioOutput(audioContextRef.current, audioOutputDeviceId);
+    logger.debug(`[useVideoPlayer] Audio output: ${audioOutputDeviceId || 'system default'}`);
+  }, [audioOutputDeviceId, videoARef, videoBRef]);
 
   // ============================================================================
   // INITIALIZATION
@@ -289,12 +351,52 @@ export function useVideoPlayer(config: VideoPlayerConfig) {
     
   }, [currentVideo, onVideoEnd, ipcAdapter]);
 
+  /**
+   * Make cue points and loudness available for a video: from the playlist scan if it
+   * was already analyzed, then from the main process (analyzes it on first request,
+   * and has the latest manual gain trim). Elements already holding the video pick up
+   * the new gain as soon as it arrives.
+   */
+  const loadTrackAnalysis = useCallback((video: Video) => {
+    const key = getTrackKey(video);
+    if (!key) return;
+
+    if (!trackAnalysisRef.current.has(key) && typeof video.cueIn === 'number' && typeof video.cueOut === 'number') {
+      trackAnalysisRef.current.set(key, {
+        cueIn: video.cueIn,
+        cueOut: video.cueOut,
+        duration: video.duration || video.cueOut,
+        integratedLufs: video.integratedLufs,
+        truePeakDb: video.truePeakDb,
+        gainTrimDb: video.gainTrimDb
+      });
+    }
+
+    const filePath = video.path || video.file_path;
+    const api = typeof window !== 'undefined' ? (window as any).electronAPI : null;
+    if (!filePath || !api?.getAudioAnalysis) return;
+
+    api.getAudioAnalysis(filePath)
+      .then((analysis: TrackAnalysis | null) => {
+        if (!analysis) return;
+        trackAnalysisRef.current.set(key, analysis);
+        logger.debug(`[ANALYSIS] ${video.title}: in ${analysis.cueIn}s, out ${analysis.cueOut}s, ${analysis.integratedLufs} LUFS`);
+        [videoARef.current, videoBRef.current].forEach(element => {
+          if (element?.dataset.trackKey === key) applyTrackGain(element, true);
+        });
+      })
+      .catch((error: unknown) => {
+        logger.debug('[ANALYSIS] Audio analysis unavailable:', error);
+      });
+  }, [applyTrackGain, videoARef, videoBRef]);
+
   /**
    * Check if we should trigger early crossfade in seamless mode
+   * Uses the video's cue-out when known, so silent tails and long fade-outs are skipped
    */
   const checkEarlyCrossfade = useCallback((video: HTMLVideoElement) => {
-    // Only in seamless mode
-    if (crossfadeModeRef.current !== 'seamless') return;
+    // Only in overlapping modes (seamless / DJ mix)
+    if (crossfadeModeRef.current === 'manual') return;
     
     // Only for active video
     if (video !== getActiveVideo()) return;
@@ -302,15 +404,21 @@ export function useVideoPlayer(config: VideoPlayerConfig) {
     // Don't trigger if already triggered or if currently transitioning
     if (earlyCrossfadeTriggeredRef.current || transitionLockRef.current) return;
     
-    const remainingTime = video.duration - video.currentTime;
+    if (!(video.duration > 0)) return;
     
-    // Trigger when remaining time <= crossfade duration
-    if (remainingTime > 0 && remainingTime <= crossfadeDuration && video.duration > 0) {
-      logger.debug(`[SEAMLESS] Early crossfade trigger: ${remainingTime.toFixed(2)}s remaining`);
+    const cues = resolveCuePoints(
+      currentTrackKeyRef.current ? trackAnalysisRef.current.get(currentTrackKeyRef.current) : null,
+      video.duration
+    );
+    const remainingTime = cues.cueOut - video.currentTime;
+    
+    // Trigger once playback reaches the point where the crossfade ends at cue-out
+    if (video.currentTime >= getCrossfadeStartTime(cues, overlapDuration) && video.currentTime < video.duration) {
+      logger.debug(`[SEAMLESS] Early crossfade trigger: ${remainingTime.toFixed(2)}s before cue-out (${cues.cueOut.toFixed(2)}s)`);
       earlyCrossfadeTriggeredRef.current = true;
       transitionToNext('early_crossfade');
     }
-  }, [crossfadeDuration, transitionToNext, getActiveVideo]);
+  }, [overlapDuration, transitionToNext, getActiveVideo]);
 
   // ============================================================================
   // VIDEO EVENT HANDLERS - Named functions for proper cleanup
@@ -377,8 +485,8 @@ export function useVideoPlayer(config: VideoPlayerConfig) {
       return;
     }
     
-    // In seamless mode, if early crossfade already triggered, don't trigger again
-    if (crossfadeModeRef.current === 'seamless' && earlyCrossfadeTriggeredRef.current) {
+    // In seamless / DJ mix mode, if early crossfade already triggered, don't trigger again
+    if (crossfadeModeRef.current !== 'manual' && earlyCrossfadeTriggeredRef.current) {
       logger.debug('[EVENT] Video ended - early crossfade already handled');
       return;
     }
@@ -432,10 +540,6 @@ export function useVideoPlayer(config: VideoPlayerConfig) {
         });
       }
 
-      // Reset audio normalization state
-      normalizationFactorRef.current = 1.0;
-      isAnalyzingRef.current = false;
-
       // Force audio output check by creating and resuming a temporary audio context
       // This can help restore audio output that gets disabled after errors
       if (typeof window !== 'undefined' && 'AudioContext' in window) {
@@ -823,8 +927,13 @@ export function useVideoPlayer(config: VideoPlayerConfig) {
     setIsLoading(true);
     isLoadingRef.current = true;
     
-    // Set video source
+    // Set video source and its loudness gain before anything is audible
     activeVideo.src = videoSrc;
+    activeVideo.dataset.trackKey = getTrackKey(video);
+    applyTrackGain(activeVideo);
+    if (video.startPosition && video.startPosition > 0) {
+      seekOnLoadedMetadata(activeVideo, video.startPosition);
+    }
     activeVideo.style.opacity = '1';
     activeVideo.style.zIndex = '10';
     activeVideo.volume = volume;
@@ -889,12 +998,6 @@ export function useVideoPlayer(config: VideoPlayerConfig) {
           setIsPlaying(true);
           setIsLoading(false);
           isLoadingRef.current = false;
-
-          // Initialize audio analysis if enabled
-          if (enableAudioNormalization) {
-            initializeAudioAnalysis();
-            setTimeout(() => analyzeVolume(), 500);
-          }
         })
         .catch(error => {
           if (error.name === 'AbortError') {
@@ -915,7 +1018,7 @@ export function useVideoPlayer(config: VideoPlayerConfig) {
             .catch(e => handleVideoError(activeVideo, e));
         });
     }
-  }, [volume, getVideoSource, getActiveVideo, getInactiveVideo, handleVideoError, enableAudioNormalization, initializeAudioAnalysis, analyzeVolume, setIsLoading, setError]);
+  }, [volume, getVideoSource, getActiveVideo, getInactiveVideo, handleVideoError, applyTrackGain, setIsLoading, setError]);
 
   /**
    * Play video in seamless mode (crossfade from current video)
@@ -959,9 +1062,23 @@ export function useVideoPlayer(config: VideoPlayerConfig) {
     setIsLoading(true);
     isLoadingRef.current = true;
     
-    // Load next video into inactive element
+    // Load next video into inactive element, starting at its cue-in (skips leading silence)
+    // with its loudness gain already set
     nextActive.src = videoSrc;
-    nextActive.volume = volume;
+    nextActive.dataset.trackKey = getTrackKey(video);
+    applyTrackGain(nextActive);
+    const nextCues = trackAnalysisRef.current.get(getTrackKey(video));
+    if (video.startPosition && video.startPosition > 0) {
+      seekOnLoadedMetadata(nextActive, video.startPosition);
+    } else if (nextCues) {
+      const { cueIn } = resolveCuePoints(nextCues, nextCues.duration);
+      if (cueIn > 0) {
+        nextActive.currentTime = cueIn;
+        logger.debug(`[SEAMLESS] Starting next video at cue-in ${cueIn}s`);
+      }
+    }
+    // Silent until the crossfade brings it up (unless there's no curve to follow)
+    nextActive.volume = crossfadeOptions ? 0 : volume;
     nextActive.style.zIndex = '5'; // Below current but visible during transition
     
     // Add error listener to catch loading errors
@@ -1000,16 +1117,13 @@ export function useVideoPlayer(config: VideoPlayerConfig) {
         .then(() => {
           logger.debug('[SEAMLESS] Next video loaded, starting crossfade');
           
-          // Crossfade: fade out current, fade in next
-          currentActive.style.opacity = '0';
-          currentActive.style.zIndex = '0';
-          nextActive.style.opacity = '1';
-          nextActive.style.zIndex = '10';
-          
-          // After crossfade duration, stop the old video
-          setTimeout(() => {
+          const finishCrossfade = () => {
             currentActive.pause();
             currentActive.currentTime = 0;
+            currentActive.style.zIndex = '0';
+            nextActive.style.opacity = '1';
+            nextActive.style.zIndex = '10';
+            nextActive.volume = volume;
             
             // Swap active/inactive
             swapActiveVideo();
@@ -1019,7 +1133,30 @@ export function useVideoPlayer(config: VideoPlayerConfig) {
             setIsLoading(false);
             isLoadingRef.current = false;
             logger.debug('[SEAMLESS] Crossfade complete');
-          }, crossfadeDuration * 1000);
+          };
+          
+          if (crossfadeOptions) {
+            // Audio follows the selected curve, picture follows the selected style
+            crossfade(currentActive, nextActive, {
+              duration: overlapDuration * 1000,
+              audioDuration: crossfadeOptions.audioDuration * 1000,
+              videoDuration: crossfadeOptions.videoDuration * 1000,
+              curve: crossfadeOptions.curve,
+              style: crossfadeOptions.style,
+              mix: crossfadeModeRef.current === 'djmix' ? 'djmix' : 'crossfade',
+              targetVolume: volume
+            }).then(finishCrossfade);
+            return;
+          }
+          
+          // Crossfade: fade out current, fade in next
+          currentActive.style.opacity = '0';
+          currentActive.style.zIndex = '0';
+          nextActive.style.opacity = '1';
+          nextActive.style.zIndex = '10';
+          
+          // After crossfade duration, stop the old video
+          setTimeout(finishCrossfade, crossfadeDuration * 1000);
         })
         .catch(error => {
           isCrossfadingRef.current = false;
@@ -1034,7 +1171,7 @@ export function useVideoPlayer(config: VideoPlayerConfig) {
           playVideoManual(video);
         });
     }
-  }, [volume, crossfadeDuration, getVideoSource, getActiveVideo, getInactiveVideo, swapActiveVideo, playVideoManual, handleVideoError, setIsLoading, setError]);
+  }, [volume, crossfadeDuration, overlapDuration, crossfadeOptions, getVideoSource, getActiveVideo, getInactiveVideo, swapActiveVideo, playVideoManual, handleVideoError, applyTrackGain, setIsLoading, setError]);
 
   /**
    * Main play video function - routes to appropriate mode
@@ -1055,27 +1192,27 @@ export function useVideoPlayer(config: VideoPlayerConfig) {
       earlyCrossfadeTriggeredRef.current = false;
       currentVideoIdRef.current = videoId;
     }
+    currentTrackKeyRef.current = getTrackKey(video);
+    loadTrackAnalysis(video);
     
     isLoadingRef.current = true;
     lastPlayRequestRef.current = videoId;
     retryCountRef.current = 0;
-    normalizationFactorRef.current = 1.0;
-    isAnalyzingRef.current = false;
     
     setCurrentVideo(video);
     setIsLoading(true);
     setError(null);
     
     // Route to appropriate play mode
-    if (crossfadeModeRef.current === 'seamless' && isPlaying && !transitionLockRef.current) {
-      // Seamless mode + already playing = crossfade
+    if (crossfadeModeRef.current !== 'manual' && isPlaying && !transitionLockRef.current) {
+      // Seamless / DJ mix mode + already playing = crossfade
       playVideoSeamless(video);
     } else {
       // Manual mode OR first video OR transitioning = direct play
       playVideoManual(video);
     }
     
-  }, [isPlaying, playVideoManual, playVideoSeamless]);
+  }, [isPlaying, playVideoManual, playVideoSeamless, loadTrackAnalysis]);
 
   // ============================================================================
   // SKIP FUNCTION - User-initiated skip with fade-out
@@ -1121,7 +1258,7 @@ export function useVideoPlayer(config: VideoPlayerConfig) {
       const elapsed = Date.now() - fadeStart;
       const progress = Math.min(elapsed / fadeDurationMs, 1);
 
-      activeVideo.volume = startVolume * (1 - progress);
+      activeVideo.volume = startVolume * fadeOutGain(progress, crossfadeOptions?.curve ?? 'linear');
       activeVideo.style.opacity = (startOpacity * (1 - progress)).toString();
 
       if (progress < 1) {
@@ -1166,7 +1303,7 @@ export function useVideoPlayer(config: VideoPlayerConfig) {
 
     requestAnimationFrame(fadeStep);
     
-  }, [volume, crossfadeDuration, getActiveVideo, currentVideo, onVideoEnd, ipcAdapter]);
+  }, [volume, crossfadeDuration, crossfadeOptions, getActiveVideo, currentVideo, onVideoEnd, ipcAdapter]);
 
   // Alias for backwards compatibility
   const skipWithFade = skip;
@@ -1515,13 +1652,14 @@ export function useVideoPlayer(config: VideoPlayerConfig) {
     try {
       const videoSrc = getVideoSource(video);
       logger.debug(`[PRELOAD] Preloading: ${video.title}`);
+      loadTrackAnalysis(video);
       inactiveVideo.src = videoSrc;
       inactiveVideo.preload = 'auto';
       inactiveVideo.load();
     } catch (error) {
       console.warn('[PRELOAD] Failed:', error);
     }
-  }, [getInactiveVideo, getVideoSource]);
+  }, [getInactiveVideo, getVideoSource, loadTrackAnalysis]);
 
   // ============================================================================
   // RETURN API
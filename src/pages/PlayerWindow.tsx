@@ -1,14 +1,33 @@
 // src/pages/PlayerWindow.tsx
 import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
-import { Video } from '../types';
+import { Video, CrossfadeMode, AutoDjStrategy, VirtualPlaylist, VirtualPlaylistInput } from '../types';
 import { localSearchService, SearchResult, getSupabaseService } from '../services';
-import { getPlaylistDisplayName, getDisplayArtist, cleanVideoTitle, formatDuration } from '../utils/playlistHelpers';
+import { getIOLogger } from '../services/IOLogger';
+import { getPlaylistDisplayName, getDisplayArtist, cleanVideoTitle, formatDuration, describeMetadataSources, formatVideoDetails } from '../utils/playlistHelpers';
 import { shuffleArray } from '../utils/arrayUtils';
 import { useSupabase } from '../hooks/useSupabase';
 import { usePlayerState } from '../hooks/usePlayerState';
 import { usePlaylistManagement } from '../hooks/usePlaylistManagement';
 import { useSearch } from '../hooks/useSearch';
-import { QueueVideoItem } from '../types/supabase';
+import { usePlayHistory } from '../hooks/usePlayHistory';
+import { useRequestRules } from '../hooks/useRequestRules';
+import { useModeration } from '../hooks/useModeration';
+import { usePlaylistSchedule } from '../hooks/usePlaylistSchedule';
+import { useSmartPlaylists } from '../hooks/useSmartPlaylists';
+import { useAudioOutputDevice } from '../hooks/useAudioOutputDevice';
+import { DEFAULT_REQUEST_RULES } from '../utils/requestRules';
+import { DEFAULT_PLAYLIST_SCHEDULE, PlaylistSchedule, PlaylistScheduleSlot } from '../utils/playlistSchedule';
+import { CommandPolicy, DEFAULT_COMMAND_POLICY, normalizeCommandPolicy } from '../utils/commandPolicy';
+import { DEFAULT_TARGET_LOUDNESS, MIN_TARGET_LOUDNESS, MAX_TARGET_LOUDNESS } from '../utils/loudness';
+import { CrossfadeCurve, TransitionStyle, DEFAULT_CROSSFADE_OPTIONS } from '../utils/crossfade';
+import { AudioOutputDevice } from '../utils/audioOutput';
+import { getHarmonicSuggestions, planHarmonicAutoFill } from '../utils/harmonic';
+import { resolveVirtualPlaylist } from '../utils/virtualPlaylists';
+import { validateRemoteSettings } from '../utils/remoteSettings';
+import { getModerationKey } from '../utils/moderation';
+import { QueueVideoItem, CommandRole } from '../types/supabase';
+import { DEFAULT_KIOSK_ID } from '../config/supabase';
+import type { CreditInputEvent, LibraryChanges, VideoAudioAnalysis } from '../types/electron';
 import { 
   getPlayerId, 
   setPlayerId as storePlayerId,
@@ -22,9 +41,18 @@ import {
   MAX_PLAYER_ID_LENGTH
 } from '../utils/playerUtils';
 import { useVideoPlayer } from '../hooks/useVideoPlayer';
-import { QueueTab, SearchTab, ConnectionsTab } from '../components/tabs';
+import { QueueTab, SearchTab, ConnectionsTab, HistoryTab, ModerationTab } from '../components/tabs';
 import { SettingsTab } from '../components/SettingsTab';
 import { ToolsTab } from '../components/ToolsTab';
+import { CreditInputSettings } from '../components/CreditInputSettings';
+import { LanServerSettings } from '../components/LanServerSettings';
+import { ZonesSettings } from '../components/ZonesSettings';
+import { MusicAnalysisSettings } from '../components/MusicAnalysisSettings';
+import { LibraryRootsSettings } from '../components/LibraryRootsSettings';
+import { PlaylistTab } from '../components/PlaylistTab';
+import { PlaylistScheduleSettings } from '../components/PlaylistScheduleSettings';
+import { CommandPolicySettings } from '../components/CommandPolicySettings';
+import { SmartPlaylistSettings } from '../components/SmartPlaylistSettings';
 
 interface PlayerWindowProps {
   className?: string;
@@ -39,17 +67,29 @@ interface DisplayInfo {
   isPrimary: boolean;
 }
 
-type TabId = 'queue' | 'search' | 'settings' | 'tools' | 'connections';
+type TabId = 'queue' | 'search' | 'playlists' | 'history' | 'moderation' | 'settings' | 'tools' | 'connections';
 
 // Navigation items configuration
 const navItems: { id: TabId; icon: string; label: string }[] = [
   { id: 'queue', icon: 'queue_music', label: 'Queue' },
   { id: 'search', icon: 'search', label: 'Search' },
+  { id: 'playlists', icon: 'playlist_add', label: 'Playlists' },
+  { id: 'history', icon: 'history', label: 'History' },
+  { id: 'moderation', icon: 'verified_user', label: 'Moderation' },
   { id: 'settings', icon: 'settings', label: 'Settings' },
   { id: 'tools', icon: 'build', label: 'Tools' },
   { id: 'connections', icon: 'hub', label: 'Connections' },
 ];
 
+// Auto-DJ strategies - what the main process does once every queued track has played
+const autoDjOptions: { value: AutoDjStrategy; label: string; title: string }[] = [
+  { value: 'loop', label: 'Loop', title: 'Play the same tracks again in the same order' },
+  { value: 'shuffle-on-wrap', label: 'Reshuffle', title: 'Play the same tracks again in a new order, never repeating the last one straight away' },
+  { value: 'weighted-random', label: 'Library random', title: 'Random tracks from the whole library, favouring ones not heard for a while' },
+  { value: 'more-like-last-request', label: 'Like last request', title: 'Tracks from the playlist or artist of the last kiosk request' },
+  { value: 'least-recently-played', label: 'Least played', title: 'The library tracks that have gone longest without playing' },
+];
+
 // Player ID Setting Component (inline for simplicity)
 interface PlayerIdSettingProps {
   playerId: string;
@@ -243,6 +283,17 @@ const PlayerIdSetting: React.FC<PlayerIdSettingProps> = ({ playerId, onPlayerIdC
   );
 };
 
+// Give back the credits paid for kiosk requests that leave the queue without playing
+function refundKioskRequests(videos: Video[], reason: string): void {
+  videos.forEach((video) => {
+    if (!video.creditCharge) return;
+    const { kioskId, commandId } = video.creditCharge;
+    getSupabaseService().refundKioskRequest(kioskId, commandId, `${reason}: ${video.title}`).catch((error) => {
+      console.warn('[PlayerWindow] Failed to refund kiosk request:', video.title, error);
+    });
+  });
+}
+
 export const PlayerWindow: React.FC<PlayerWindowProps> = ({ className = '' }) => {
   // Player state (synced from Player Window via IPC)
   const [currentVideo, setCurrentVideo] = useState<Video | null>(null);
@@ -253,6 +304,8 @@ export const PlayerWindow: React.FC<PlayerWindowProps> = ({ className = '' }) =>
 
   // Playlist/Queue state
   const [playlists, setPlaylists] = useState<Record<string, Video[]>>({});
+  const [virtualPlaylists, setVirtualPlaylists] = useState<VirtualPlaylist[]>([]); // Hand-built, stored by the main process
+  const virtualPlaylistsLoadedRef = useRef(false);
   const [activePlaylist, setActivePlaylist] = useState<string>('');
   const [selectedPlaylist, setSelectedPlaylist] = useState<string | null>(null);
   const [queue, setQueue] = useState<Video[]>([]);
@@ -273,16 +326,20 @@ export const PlayerWindow: React.FC<PlayerWindowProps> = ({ className = '' }) =>
   const [showSkipConfirmDialog, setShowSkipConfirmDialog] = useState(false);
   const [showResetDialog, setShowResetDialog] = useState(false);
   const [showPlayerIdAlert, setShowPlayerIdAlert] = useState(false);
+  const [showAudioOutputAlert, setShowAudioOutputAlert] = useState(false);
   const [needsPlayerId, setNeedsPlayerId] = useState(false);
   const [showDefaultPlaylistAlert, setShowDefaultPlaylistAlert] = useState(false);
   const [defaultPlaylistName, setDefaultPlaylistName] = useState<string | null>(null);
   
   // Track if current video is from priority queue (for skip confirmation)
   const [isFromPriorityQueue, setIsFromPriorityQueue] = useState(false);
+  const [nowPlayingPlayId, setNowPlayingPlayId] = useState(0); // Main process play counter - see usePlayHistory
   
   // Popover state for search video click
   const [popoverVideo, setPopoverVideo] = useState<Video | null>(null);
   const [popoverPosition, setPopoverPosition] = useState({ x: 0, y: 0 });
+  const [popoverAnalysis, setPopoverAnalysis] = useState<VideoAudioAnalysis | null>(null);
+  const popoverAnalysisPathRef = useRef<string | null>(null);
   
   // Processing progress state
   const [isProcessing, setIsProcessing] = useState(false);
@@ -295,27 +352,43 @@ export const PlayerWindow: React.FC<PlayerWindowProps> = ({ className = '' }) =>
   // Settings
   const [settings, setSettings] = useState({
     autoShufflePlaylists: true,
+    harmonicAutoFill: false,
+    autoDjStrategy: 'loop' as AutoDjStrategy,
     normalizeAudioLevels: false,
+    targetLoudness: DEFAULT_TARGET_LOUDNESS,
     enableFullscreenPlayer: true,
     fadeDuration: 2.0,
-    crossfadeMode: 'manual' as 'manual' | 'seamless',
+    crossfadeMode: 'manual' as CrossfadeMode,
+    crossfadeCurve: DEFAULT_CROSSFADE_OPTIONS.curve as CrossfadeCurve,
+    audioFadeDuration: DEFAULT_CROSSFADE_OPTIONS.audioDuration,
+    videoFadeDuration: DEFAULT_CROSSFADE_OPTIONS.videoDuration,
+    transitionStyle: DEFAULT_CROSSFADE_OPTIONS.style as TransitionStyle,
     playerDisplayId: null as number | null,
+    audioOutputDevice: null as AudioOutputDevice | null, // null = system default
     playerFullscreen: false,
     playlistsDirectory: '/Users/mikeclarkin/Music/DJAMMS/PLAYLISTS',
-    forceAutoPlay: false
+    forceAutoPlay: false,
+    queueRestoreMode: 'resume' as 'resume' | 'restart' | 'fresh'
   });
+  // Output devices for the Player Window, and whether the chosen one is unplugged
+  const audioOutput = useAudioOutputDevice(settings.audioOutputDevice);
 
   // Kiosk settings state
   const [kioskSettings, setKioskSettings] = useState({
     mode: 'freeplay' as 'freeplay' | 'credits',
+    creditsPerRequest: 1, // What a kiosk request costs in credits mode - charged by the player, shown on kiosks
     uiMode: 'classic' as 'classic' | 'jukebox', // UI style: classic (SearchInterface) or jukebox (JukeboxSearchMode)
-    creditBalance: 0,
     searchAllMusic: true,
-    searchYoutube: false
+    searchYoutube: false,
+    requestRules: DEFAULT_REQUEST_RULES
   });
-  const [kioskSerialStatus, setKioskSerialStatus] = useState<'disconnected' | 'connected'>('disconnected');
-  const [kioskAvailableSerialDevices, setKioskAvailableSerialDevices] = useState<string[]>([]);
-  const [kioskSelectedSerialDevice, setKioskSelectedSerialDevice] = useState<string>('');
+  const kioskSettingsRef = useRef(kioskSettings); // Read by the queue_add handler
+  // Weekly playlist schedule (dayparting) - stored with the player, applied by usePlaylistSchedule
+  const [playlistSchedule, setPlaylistSchedule] = useState<PlaylistSchedule>(DEFAULT_PLAYLIST_SCHEDULE);
+  // Which remote commands each role may send - enforced by SupabaseService before any handler runs
+  const [commandPolicy, setCommandPolicy] = useState<CommandPolicy>(DEFAULT_COMMAND_POLICY);
+  // Kiosk credit balance - read from the server-side ledger, never stored locally
+  const [kioskCreditBalance, setKioskCreditBalance] = useState(0);
 
   // Player overlay settings state - default watermark is Obie_neon_no_BG.png in public folder
   const [overlaySettings, setOverlaySettings] = useState({
@@ -348,6 +421,7 @@ export const PlayerWindow: React.FC<PlayerWindowProps> = ({ className = '' }) =>
   
   // Debounce refs to prevent infinite loop on rapid video end events
   const lastPlayNextTimeRef = useRef(0);
+  const pendingScheduleSlotRef = useRef<PlaylistScheduleSlot | null>(null); // Slot waiting for the current song to finish
   const lastAdvancedFromVideoRef = useRef<string | null>(null); // Track which video we advanced FROM
   const currentVideoRef = useRef<Video | null>(null); // Ref for current video (for debounce check)
   const lastPlayedVideoIdRef = useRef<string | null>(null);
@@ -381,6 +455,10 @@ export const PlayerWindow: React.FC<PlayerWindowProps> = ({ className = '' }) =>
     settingsRef.current = settings;
   }, [settings]);
 
+  useEffect(() => {
+    kioskSettingsRef.current = kioskSettings;
+  }, [kioskSettings]);
+
   // Check if we're in Electron (check multiple ways for reliability)
   const isElectron = typeof window !== 'undefined' && (
     !!(window as any).electronAPI ||
@@ -394,6 +472,12 @@ export const PlayerWindow: React.FC<PlayerWindowProps> = ({ className = '' }) =>
     
     const init = async () => {
       try {
+        // A zone started by the main player takes the Player ID assigned to it there
+        const zones = await window.electronAPI?.getZones?.();
+        if (zones?.current?.playerId) {
+          storePlayerId(zones.current.playerId);
+        }
+
         // Check for stored ID first
         const storedId = getPlayerId();
         if (storedId && storedId.trim() !== '' && storedId.trim() !== 'DJAMMS_DEMO') {
@@ -431,10 +515,49 @@ export const PlayerWindow: React.FC<PlayerWindowProps> = ({ className = '' }) =>
     init();
   }, [isElectron]);
 
+  // Tracks for a playlist name - folder playlists (may have YouTube ID prefix) first, then virtual
+  // and smart playlists by name. A virtual playlist ID wins over the name. Only folder playlists
+  // are shuffled on load; the others keep their own order.
+  const findPlaylistTracks = (playlistName: string, virtualPlaylistId?: string): { name: string; tracks: Video[]; keepOrder: boolean } | null => {
+    const playlistKey = virtualPlaylistId ? undefined : playlists[playlistName] ? playlistName : Object.keys(playlists).find(key =>
+      key.includes(playlistName)
+    );
+    if (playlistKey && Array.isArray(playlists[playlistKey])) {
+      return { name: playlistKey, tracks: playlists[playlistKey], keepOrder: false };
+    }
+    const virtualPlaylist = virtualPlaylistId
+      ? virtualPlaylists.find(playlist => playlist.id === virtualPlaylistId)
+      : virtualPlaylists.find(playlist => playlist.name.toLowerCase() === playlistName.toLowerCase());
+    if (virtualPlaylist) {
+      return { name: virtualPlaylist.name, tracks: resolveVirtualPlaylist(virtualPlaylist, playlists), keepOrder: true };
+    }
+    const smartPlaylist = virtualPlaylistId
+      ? undefined
+      : smartPlaylists.find(playlist => playlist.name.toLowerCase() === playlistName.toLowerCase());
+    return smartPlaylist
+      ? { name: smartPlaylist.name, tracks: smartPlaylistVideos[smartPlaylist.name] || [], keepOrder: true }
+      : null;
+  };
+
+  // Throw on failure so remote commands are marked failed and the editor shows the reason
+  const handleSaveVirtualPlaylist = async (playlist: VirtualPlaylistInput): Promise<void> => {
+    const result = await (window as any).electronAPI.saveVirtualPlaylist(playlist);
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to save playlist');
+    }
+  };
+
+  const handleDeleteVirtualPlaylist = async (id: string): Promise<void> => {
+    const result = await (window as any).electronAPI.deleteVirtualPlaylist(id);
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to delete playlist');
+    }
+  };
+
   // Supabase integration - listen for remote commands from Web Admin / Kiosk
   // This runs in the main window so commands are received even without Player Window open
   // Initialize Supabase with Player ID (even if it's "DJAMMS_DEMO" - allows app to continue)
-  const { isInitialized: supabaseInitialized, isOnline: supabaseOnline, syncState } = useSupabase({
+  const { isInitialized: supabaseInitialized, isOnline: supabaseOnline, pendingSyncCount, syncState } = useSupabase({
     playerId: playerId && playerId.trim() !== '' ? playerId : DEFAULT_PLAYER_ID, // Pass player ID (use default if not set)
     autoInit: !!(isElectron && playerIdInitialized), // Initialize if Player ID is initialized (including DJAMMS_DEMO)
     onPlay: (video?: QueueVideoItem, queueIndex?: number) => {
@@ -509,6 +632,7 @@ export const PlayerWindow: React.FC<PlayerWindowProps> = ({ className = '' }) =>
       if (isElectron && playerReadyRef.current) {
         console.log('[PlayerWindow] Web Admin skip - requesting next video (priority queue checked first)');
         // Send 'next' command directly to main process - it handles priority queue correctly
+        markTransition('user_skip');
         (window as any).electronAPI.sendQueueCommand?.({ action: 'next' });
       } else {
         console.warn('[PlayerWindow] Web Admin skip ignored - player not ready or not Electron');
@@ -528,7 +652,7 @@ export const PlayerWindow: React.FC<PlayerWindowProps> = ({ className = '' }) =>
         (window as any).electronAPI.controlPlayerWindow('seekTo', position);
       }
     },
-    onQueueAdd: async (video: QueueVideoItem, queueType: 'active' | 'priority') => {
+    onQueueAdd: async (video: QueueVideoItem, queueType: 'active' | 'priority', kioskId?: string, request?: { commandId: string; issuerRole: CommandRole }) => {
       console.log('[PlayerWindow] ✅ Supabase queue_add command received:', video.title, queueType);
       const videoToAdd: Video = {
         id: video.id,
@@ -538,19 +662,43 @@ export const PlayerWindow: React.FC<PlayerWindowProps> = ({ className = '' }) =>
         path: video.path,
         playlist: video.playlist,
         playlistDisplayName: video.playlistDisplayName,
-        duration: video.duration
+        duration: video.duration,
+        requestedByKiosk: kioskId
       };
+      // Moderation applies whoever sent the request (kiosk, web admin or LAN) and whatever they searched
+      if (!isVideoAllowed(videoToAdd)) {
+        throw new Error('This track is not available right now');
+      }
+      // Kiosk requests must pass the anti-repeat rules - the reason is returned to the kiosk
+      if (kioskId) {
+        const rejection = checkRequest(videoToAdd, kioskId);
+        if (rejection) {
+          throw new Error(rejection);
+        }
+      }
+      // In credits mode every kiosk request is paid before it is queued, at the player's price, by the
+      // paired device that sent it. Re-delivered commands return the original charge.
+      if (request && kioskSettingsRef.current.mode === 'credits') {
+        if (kioskId) {
+          const cost = Math.max(1, Math.round(kioskSettingsRef.current.creditsPerRequest || 1));
+          await getSupabaseService().chargeKioskRequest(kioskId, cost, request.commandId, videoToAdd.title);
+          videoToAdd.creditCharge = { kioskId, commandId: request.commandId, credits: cost };
+        } else if (request.issuerRole === 'guest') {
+          throw new Error('Pair this kiosk with the player to request songs');
+        }
+      }
       if (queueType === 'priority') {
-        // Check if video already exists in priority queue (prevent duplicates)
+        // Check if video already exists in priority queue (prevent duplicates) - a duplicate that was
+        // already paid for gets its credits back
         const videoId = videoToAdd.id || videoToAdd.src;
-        setPriorityQueue(prev => {
-          const alreadyExists = prev.some(v => (v.id || v.src) === videoId);
-          if (alreadyExists) {
-            console.log('[PlayerWindow] ⚠️ Video already in priority queue, skipping duplicate:', videoToAdd.title);
-            return prev; // Don't add duplicate
-          }
-          return [...prev, videoToAdd];
-        });
+        if (priorityQueueRef.current.some(v => (v.id || v.src) === videoId)) {
+          console.log('[PlayerWindow] ⚠️ Video already in priority queue, skipping duplicate:', videoToAdd.title);
+          refundKioskRequests([videoToAdd], 'Already requested');
+          return;
+        }
+        // Updated now, so a second request for the same video arriving before the next render is caught too
+        priorityQueueRef.current = [...priorityQueueRef.current, videoToAdd];
+        setPriorityQueue(prev => [...prev, videoToAdd]);
         // IMPORTANT: Also add to main process queue state (source of truth for playback)
         // Main process will also check for duplicates
         if (isElectron) {
@@ -575,6 +723,9 @@ export const PlayerWindow: React.FC<PlayerWindowProps> = ({ className = '' }) =>
         }
       }
     },
+    onQueueClear: () => {
+      handleClearQueue();
+    },
     onQueueShuffle: () => {
       console.log('[PlayerWindow] Supabase queue_shuffle command received');
       
@@ -628,19 +779,15 @@ export const PlayerWindow: React.FC<PlayerWindowProps> = ({ className = '' }) =>
         return newQueue;
       });
     },
-    onLoadPlaylist: (playlistName: string, shuffle?: boolean) => {
-      console.log('[PlayerWindow] Supabase load_playlist command received:', playlistName, shuffle);
-      // Find the playlist (may have YouTube ID prefix)
-      const playlistKey = Object.keys(playlists).find(key => 
-        key === playlistName || key.includes(playlistName)
-      );
-      if (playlistKey && playlists[playlistKey]) {
-        const playlistTracks = playlists[playlistKey];
-        const shouldShuffle = shuffle ?? settings.autoShufflePlaylists;
-        const finalTracks = Array.isArray(playlistTracks)
-          ? (shouldShuffle ? shuffleArray(playlistTracks) : [...playlistTracks])
-          : [];
-        setActivePlaylist(playlistKey);
+    onLoadPlaylist: (playlistName: string, shuffle?: boolean, virtualPlaylistId?: string) => {
+      console.log('[PlayerWindow] Supabase load_playlist command received:', playlistName, shuffle, virtualPlaylistId);
+      const found = findPlaylistTracks(playlistName, virtualPlaylistId);
+      if (found) {
+        const playlistTracks = found.tracks;
+        // Virtual playlists keep their hand-built order unless shuffle is asked for
+        const shouldShuffle = shuffle ?? (found.keepOrder ? false : settings.autoShufflePlaylists);
+        const finalTracks = shouldShuffle ? shuffleArray(playlistTracks) : [...playlistTracks];
+        setActivePlaylist(found.name);
         
         // Load playlist into main process queue
         if (isElectron && finalTracks.length > 0) {
@@ -764,7 +911,26 @@ export const PlayerWindow: React.FC<PlayerWindowProps> = ({ className = '' }) =>
           return newQueue;
         });
       }
-    }
+    },
+    onSettingsUpdate: (remoteSettings: Record<string, unknown>) => {
+      const { updates, rejected } = validateRemoteSettings(remoteSettings);
+      if (rejected.length > 0) {
+        // Reported back to the sender - the command is marked failed and nothing is applied
+        throw new Error(`Unsupported or out-of-range player settings: ${rejected.join(', ')}`);
+      }
+      if (Object.keys(updates).length === 0) {
+        throw new Error('No player settings to change');
+      }
+      setSettings(prev => ({ ...prev, ...updates }));
+      if (isElectron) {
+        Object.entries(updates).forEach(([key, value]) => (window as any).electronAPI.setSetting(key, value));
+        (window as any).electronAPI.setSetting('playerSettings', { ...settings, ...updates }).catch((err: any) => {
+          console.error('[PlayerWindow] Failed to save player settings:', err);
+        });
+      }
+    },
+    onVirtualPlaylistSave: (playlist: VirtualPlaylistInput) => handleSaveVirtualPlaylist(playlist),
+    onVirtualPlaylistDelete: (id: string) => handleDeleteVirtualPlaylist(id)
   });
 
   // ⚠️ DISABLED: Electron Player should NOT subscribe to its own queue updates
@@ -782,6 +948,119 @@ export const PlayerWindow: React.FC<PlayerWindowProps> = ({ className = '' }) =>
     }
   }, [supabaseInitialized, isElectron]);
 
+  // Virtual playlists - load from the main process and follow changes made here or by remote commands
+  useEffect(() => {
+    if (!isElectron) return;
+    const api = (window as any).electronAPI;
+    api.getVirtualPlaylists?.().then((saved: VirtualPlaylist[]) => {
+      virtualPlaylistsLoadedRef.current = true;
+      setVirtualPlaylists(saved);
+    });
+    return api.onVirtualPlaylistsChanged?.(setVirtualPlaylists);
+  }, [isElectron]);
+
+  // Mirror them to Supabase so the web admin can list them (not before the first load, which would wipe the mirror)
+  useEffect(() => {
+    if (!supabaseInitialized || !virtualPlaylistsLoadedRef.current) return;
+    getSupabaseService().syncVirtualPlaylists(virtualPlaylists);
+  }, [supabaseInitialized, playerId, virtualPlaylists]);
+
+  // Keep the command policy in the service that authorizes incoming commands
+  useEffect(() => {
+    getSupabaseService().setCommandPolicy(commandPolicy);
+  }, [commandPolicy]);
+
+  // Kiosks show free play or credits, and the price, as set here
+  useEffect(() => {
+    getSupabaseService().setKioskSettings({
+      mode: kioskSettings.mode,
+      creditsPerRequest: Math.max(1, Math.round(kioskSettings.creditsPerRequest || 1))
+    });
+  }, [kioskSettings.mode, kioskSettings.creditsPerRequest]);
+
+  // Kiosk credit balance - load from the ledger and follow live changes
+  useEffect(() => {
+    if (!supabaseInitialized) return;
+    const supabaseService = getSupabaseService();
+    supabaseService.getKioskCredits().then(setKioskCreditBalance);
+    return supabaseService.onKioskCreditsChange((kioskId, balance) => {
+      if (kioskId === DEFAULT_KIOSK_ID) {
+        setKioskCreditBalance(balance);
+      }
+    });
+  }, [supabaseInitialized, playerId]);
+
+  const handleKioskCredits = useCallback(async (entryType: 'deposit' | 'clear', amount: number = 0) => {
+    try {
+      const balance = await getSupabaseService().applyKioskCredits(DEFAULT_KIOSK_ID, entryType, amount, 'electron-player');
+      setKioskCreditBalance(balance);
+    } catch (error) {
+      console.error('[PlayerWindow] Kiosk credit update failed:', error);
+    }
+  }, []);
+
+  // Play history - records each now-playing change (skip/next/error handlers label the transition)
+  const { markTransition } = usePlayHistory({
+    currentVideo,
+    playId: nowPlayingPlayId,
+    isFromPriorityQueue,
+    playbackTime,
+    playbackDuration,
+    enabled: supabaseInitialized
+  });
+
+  // Moderation - rejected tracks, and explicit ones during the daytime policy, can't be queued,
+  // searched, or picked by smart playlists and the Auto-DJ
+  const { blockedKeys: moderationBlockedKeys, isVideoAllowed, refreshModeration } = useModeration({
+    enabled: supabaseInitialized
+  });
+
+  // Kiosk request rules - checked by the queue_add handler above
+  const { checkRequest } = useRequestRules({
+    rules: kioskSettings.requestRules,
+    currentVideo,
+    priorityQueue,
+    enabled: supabaseInitialized
+  });
+
+  // Coin acceptor / bill validator - turn hardware credits into kiosk_add_credits commands
+  // Main journals each credit and redelivers it until we ack the deposit (the event id makes a retry a no-op)
+  useEffect(() => {
+    if (!isElectron) return;
+    const electronAPI = (window as any).electronAPI;
+    if (!electronAPI?.onCreditInputEvent) return;
+
+    return electronAPI.onCreditInputEvent(async (event: CreditInputEvent) => {
+      if (event.type === 'credit') {
+        getIOLogger().logReceived('credit-input', JSON.stringify({
+          credits: event.credits,
+          kioskId: event.kioskId,
+          detail: event.detail
+        }, null, 2), event.source);
+        const result = await getSupabaseService().executeLocalCommand(
+          'kiosk_add_credits',
+          { amount: event.credits, kioskId: event.kioskId, source: 'coin-acceptor', creditEventId: event.id },
+          'coin-acceptor'
+        );
+        if (result.success) {
+          await electronAPI.ackCreditInput?.(event.id);
+        } else {
+          console.error('[PlayerWindow] Failed to add coin acceptor credits (will retry):', result.error);
+          getIOLogger().logError('credit-input', result.error || 'kiosk_add_credits failed', event.source);
+        }
+      } else if (event.type === 'fault') {
+        getIOLogger().logError('credit-input', `${event.kind.toUpperCase()}: ${event.message}`, `credit-input:${event.kind}`);
+      }
+    });
+  }, [isElectron]);
+
+  // Smart playlists - rules stored in Supabase, re-evaluated whenever the library is re-indexed
+  const { smartPlaylists, smartPlaylistVideos, saveSmartPlaylist, deleteSmartPlaylist, refreshSmartPlaylists } = useSmartPlaylists({
+    library: playlists,
+    blockedKeys: moderationBlockedKeys,
+    enabled: supabaseInitialized && !isProcessing
+  });
+
   // Search state - now managed by useSearch hook (called after playerId and supabaseInitialized are available)
   const {
     searchQuery,
@@ -798,9 +1077,11 @@ export const PlayerWindow: React.FC<PlayerWindowProps> = ({ className = '' }) =>
     handleScopeChange
   } = useSearch({
     playlists,
+    smartPlaylistVideos,
     selectedPlaylist,
     supabaseInitialized: supabaseInitialized,
-    playerId: playerId || DEFAULT_PLAYER_ID
+    playerId: playerId || DEFAULT_PLAYER_ID,
+    blockedKeys: moderationBlockedKeys
   });
 
   const videoARef = useRef<HTMLVideoElement>(null);
@@ -1075,10 +1356,16 @@ export const PlayerWindow: React.FC<PlayerWindowProps> = ({ className = '' }) =>
             const savedDisplayId = await (window as any).electronAPI.getSetting('playerDisplayId');
             const savedFullscreen = await (window as any).electronAPI.getSetting('playerWindowFullscreen');
             const savedAutoShuffle = await (window as any).electronAPI.getSetting('autoShufflePlaylists');
+            const savedHarmonicAutoFill = await window.electronAPI.getSetting<boolean | undefined>('harmonicAutoFill');
+            const savedAutoDjStrategy = await (window as any).electronAPI.getSetting('autoDjStrategy');
             const savedNormalize = await (window as any).electronAPI.getSetting('normalizeAudioLevels');
             const savedEnablePlayer = await (window as any).electronAPI.getSetting('enableFullscreenPlayer');
             const savedFadeDuration = await (window as any).electronAPI.getSetting('fadeDuration');
             const savedCrossfadeMode = await (window as any).electronAPI.getSetting('crossfadeMode');
+            const savedCrossfadeCurve = await (window as any).electronAPI.getSetting('crossfadeCurve');
+            const savedAudioFade = await (window as any).electronAPI.getSetting('audioFadeDuration');
+            const savedVideoFade = await (window as any).electronAPI.getSetting('videoFadeDuration');
+            const savedTransitionStyle = await (window as any).electronAPI.getSetting('transitionStyle');
             const savedForceAutoPlay = await (window as any).electronAPI.getSetting('forceAutoPlay');
             const savedPlaylistsDir = await (window as any).electronAPI.getPlaylistsDirectory();
             
@@ -1087,10 +1374,16 @@ export const PlayerWindow: React.FC<PlayerWindowProps> = ({ className = '' }) =>
               playerDisplayId: savedDisplayId ?? s.playerDisplayId,
               playerFullscreen: savedFullscreen ?? s.playerFullscreen,
               autoShufflePlaylists: savedAutoShuffle ?? s.autoShufflePlaylists,
+              harmonicAutoFill: savedHarmonicAutoFill ?? s.harmonicAutoFill,
+              autoDjStrategy: savedAutoDjStrategy ?? s.autoDjStrategy,
               normalizeAudioLevels: savedNormalize ?? s.normalizeAudioLevels,
               enableFullscreenPlayer: savedEnablePlayer ?? s.enableFullscreenPlayer,
               fadeDuration: savedFadeDuration ?? s.fadeDuration,
               crossfadeMode: savedCrossfadeMode ?? s.crossfadeMode,
+              crossfadeCurve: savedCrossfadeCurve ?? s.crossfadeCurve,
+              audioFadeDuration: savedAudioFade ?? s.audioFadeDuration,
+              videoFadeDuration: savedVideoFade ?? s.videoFadeDuration,
+              transitionStyle: savedTransitionStyle ?? s.transitionStyle,
               forceAutoPlay: savedForceAutoPlay ?? s.forceAutoPlay,
               playlistsDirectory: savedPlaylistsDir ?? s.playlistsDirectory
             }));
@@ -1146,47 +1439,72 @@ export const PlayerWindow: React.FC<PlayerWindowProps> = ({ className = '' }) =>
             console.log('[PlayerWindow] Loaded saved kiosk settings:', savedKioskSettings);
             setKioskSettings(prev => ({ ...prev, ...savedKioskSettings }));
           }
+
+          // Load saved playlist schedule
+          const savedPlaylistSchedule = await (window as any).electronAPI.getSetting('playlistSchedule');
+          if (savedPlaylistSchedule) {
+            setPlaylistSchedule({ ...DEFAULT_PLAYLIST_SCHEDULE, ...savedPlaylistSchedule });
+          }
+
+          // Load saved command policy
+          const savedCommandPolicy = await (window as any).electronAPI.getSetting('commandPolicy');
+          if (savedCommandPolicy) {
+            setCommandPolicy(normalizeCommandPolicy(savedCommandPolicy));
+          }
+
+          // Load (or create) the key that proves this machine owns its player ID when pairing devices
+          let playerKey = await (window as any).electronAPI.getSetting('playerKey');
+          if (!playerKey) {
+            playerKey = (crypto.randomUUID() + crypto.randomUUID()).replace(/-/g, '');
+            await (window as any).electronAPI.setSetting('playerKey', playerKey);
+          }
+          getSupabaseService().setPlayerKey(playerKey);
+
+          const appVersion = await (window as any).electronAPI.getAppVersion?.();
+          if (appVersion) {
+            getSupabaseService().setAppVersion(appVersion);
+          }
           
-          // Load saved queue state (active queue, priority queue, queueIndex, currentVideo)
+          // Restore the queue the main process recovered from its last snapshot (crash or restart).
+          // savedQueueState is only used for the active playlist name now.
+          const restoredQueue = await (window as any).electronAPI.getRestoredQueue?.();
           const savedQueueState = await (window as any).electronAPI.getSetting('savedQueueState');
-          if (savedQueueState && savedQueueState.activeQueue && savedQueueState.activeQueue.length > 0) {
-            console.log('[PlayerWindow] Restoring saved queue state:', {
-              activeQueueLength: savedQueueState.activeQueue.length,
-              priorityQueueLength: savedQueueState.priorityQueue?.length || 0,
-              queueIndex: savedQueueState.queueIndex,
-              currentVideo: savedQueueState.currentVideo?.title,
-              wasPlaying: savedQueueState.isPlaying
+          if (restoredQueue?.restored) {
+            const { activeQueue: restoredActive, priorityQueue: restoredPriority, nowPlaying: restoredNowPlaying } = restoredQueue.state;
+            console.log('[PlayerWindow] Restoring queue snapshot:', {
+              mode: restoredQueue.mode,
+              activeQueueLength: restoredActive.length,
+              priorityQueueLength: restoredPriority.length,
+              currentVideo: restoredNowPlaying?.title,
+              playbackPosition: restoredQueue.playbackPosition
             });
-            setQueue(savedQueueState.activeQueue);
-            setQueueIndex(savedQueueState.queueIndex || 0);
-            setPriorityQueue(savedQueueState.priorityQueue || []);
+            setQueue(restoredActive);
+            setQueueIndex(0);
+            setPriorityQueue(restoredPriority);
             // Mark that we have a non-empty queue (allows syncing to Supabase)
-            if (savedQueueState.activeQueue && savedQueueState.activeQueue.length > 0) {
-              syncStateRef.current.lastSyncedHash = JSON.stringify({
-                activeQueue: savedQueueState.activeQueue.map((v: Video) => v.id),
-                priorityQueue: (savedQueueState.priorityQueue || []).map((v: Video) => v.id),
-                queueIndex: savedQueueState.queueIndex || 0
-              });
-            }
-            if (savedQueueState.currentVideo) {
-              setCurrentVideo(savedQueueState.currentVideo);
+            syncStateRef.current.lastSyncedHash = JSON.stringify({
+              activeQueue: restoredActive.map((v: Video) => v.id),
+              priorityQueue: restoredPriority.map((v: Video) => v.id),
+              queueIndex: 0
+            });
+            if (restoredNowPlaying) {
+              setCurrentVideo(restoredNowPlaying);
             }
-            if (savedQueueState.activePlaylist) {
+            if (savedQueueState?.activePlaylist) {
               setActivePlaylist(savedQueueState.activePlaylist);
             }
             // Always start playback on startup if there's a saved queue (even if it wasn't playing)
             // Wait for indexing to complete first
             waitForIndexingComplete().then(() => {
-              console.log('[PlayerWindow] Indexing complete - starting playback from saved queue');
               setTimeout(() => {
-                // If there's a current video, play it
-                if (savedQueueState.currentVideo) {
-                  console.log('[PlayerWindow] Playing saved current video:', savedQueueState.currentVideo.title);
-                  (window as any).electronAPI.controlPlayerWindow('play', savedQueueState.currentVideo);
+                if (restoredNowPlaying) {
+                  // 'resume' continues the track where it was, 'restart' plays it from the top
+                  (window as any).electronAPI.controlPlayerWindow('play', restoredQueue.playbackPosition > 0
+                    ? { ...restoredNowPlaying, startPosition: restoredQueue.playbackPosition }
+                    : restoredNowPlaying);
                   setIsPlaying(true);
-                } else if (savedQueueState.activeQueue && savedQueueState.activeQueue.length > 0) {
+                } else {
                   // No current video - trigger SKIP once to start playback of next song in active_queue
-                  console.log('[PlayerWindow] No saved current video - triggering SKIP to start playback');
                   (window as any).electronAPI.sendQueueCommand?.({ action: 'next' });
                 }
               }, 500);
@@ -1466,6 +1784,7 @@ export const PlayerWindow: React.FC<PlayerWindowProps> = ({ className = '' }) =>
   const sendSkipCommand = useCallback(() => {
     console.log('[PlayerWindow] Sending skip command to Player Window');
     isCommandPendingRef.current = true;
+    markTransition('user_skip');
     if (isElectron) {
       (window as any).electronAPI.controlPlayerWindow('skip');
     }
@@ -1474,7 +1793,7 @@ export const PlayerWindow: React.FC<PlayerWindowProps> = ({ className = '' }) =>
     setTimeout(() => {
       isCommandPendingRef.current = false;
     }, 3000);
-  }, [isElectron]);
+  }, [isElectron, markTransition]);
 
   const skipTrack = () => {
     if (!playerReady) return; // Ignore until player is ready
@@ -1497,6 +1816,7 @@ export const PlayerWindow: React.FC<PlayerWindowProps> = ({ className = '' }) =>
   };
 
   const playNext = () => {
+    markTransition('manual_next');
     playNextVideo();
   };
 
@@ -1569,6 +1889,68 @@ export const PlayerWindow: React.FC<PlayerWindowProps> = ({ className = '' }) =>
     }
   }, [isElectron]);
 
+  // Replace the queue with a scheduled playlist and start it now
+  const loadScheduledPlaylist = useCallback((slot: PlaylistScheduleSlot) => {
+    const playlistKey = Object.keys(playlists).find(key =>
+      key === slot.playlistName || key.includes(slot.playlistName)
+    );
+    const playlistTracks = playlistKey ? playlists[playlistKey] : [];
+    if (!playlistKey || !isElectron || playlistTracks.length === 0) {
+      console.warn('[PlayerWindow] Scheduled playlist not found or empty:', slot.playlistName);
+      return;
+    }
+
+    const finalTracks = slot.shuffle ? shuffleArray(playlistTracks) : [...playlistTracks];
+    const keptRequests = slot.priorityRequests === 'keep' ? priorityQueue : [];
+    if (slot.priorityRequests !== 'keep') {
+      refundKioskRequests(priorityQueue, 'Dropped by the playlist schedule');
+    }
+
+    // clear_queue empties both queues in the main process - re-add the requests being kept
+    const api = (window as any).electronAPI;
+    api.sendQueueCommand?.({ action: 'clear_queue' });
+    finalTracks.forEach((video) => {
+      api.sendQueueCommand?.({ action: 'add_to_queue', payload: { video } });
+    });
+    keptRequests.forEach((video) => {
+      api.sendQueueCommand?.({ action: 'add_to_priority_queue', payload: { video } });
+    });
+
+    // Kept requests still play before the new playlist: 'next' plays the priority queue first
+    setTimeout(() => {
+      api.sendQueueCommand?.(keptRequests.length > 0
+        ? { action: 'next' }
+        : { action: 'play_at_index', payload: { index: 0 } });
+    }, 100);
+
+    setActivePlaylist(playlistKey);
+    setQueue(finalTracks);
+    setQueueIndex(0);
+    setPriorityQueue(keptRequests);
+    syncStateRef.current.lastSyncedHash = JSON.stringify({
+      activeQueue: finalTracks.map(v => v.id),
+      priorityQueue: keptRequests.map(v => v.id),
+      queueIndex: 0
+    });
+  }, [playlists, isElectron, priorityQueue]);
+
+  // Switch now, or wait for playNextVideo() when the slot lets the current song finish
+  const handleScheduleSlotStart = useCallback((slot: PlaylistScheduleSlot) => {
+    if (slot.finishCurrentSong && isPlaying && currentVideo) {
+      pendingScheduleSlotRef.current = slot;
+      return;
+    }
+    pendingScheduleSlotRef.current = null;
+    markTransition('scheduled');
+    loadScheduledPlaylist(slot);
+  }, [isPlaying, currentVideo, loadScheduledPlaylist, markTransition]);
+
+  usePlaylistSchedule({
+    schedule: playlistSchedule,
+    onSlotStart: handleScheduleSlotStart,
+    enabled: isElectron && playerReady && Object.keys(playlists).length > 0
+  });
+
   // Request next video from main orchestrator (source of truth)
   const playNextVideo = useCallback(() => {
     // DEBOUNCE: Prevent rapid-fire calls
@@ -1579,6 +1961,14 @@ export const PlayerWindow: React.FC<PlayerWindowProps> = ({ className = '' }) =>
       return;
     }
     lastPlayNextTimeRef.current = now;
+
+    // A schedule slot was waiting for this song to finish - switch playlists instead of advancing
+    const scheduledSlot = pendingScheduleSlotRef.current;
+    if (scheduledSlot) {
+      pendingScheduleSlotRef.current = null;
+      loadScheduledPlaylist(scheduledSlot);
+      return;
+    }
     
     // Log current state before requesting next video
     console.log('[PlayerWindow] 🎬 Requesting next video from orchestrator');
@@ -1596,7 +1986,7 @@ export const PlayerWindow: React.FC<PlayerWindowProps> = ({ className = '' }) =>
     if (isElectron) {
       (window as any).electronAPI.sendQueueCommand?.({ action: 'next' });
     }
-  }, [isElectron, currentVideo, isFromPriorityQueue]);
+  }, [isElectron, currentVideo, isFromPriorityQueue, loadScheduledPlaylist]);
 
   const toggleShuffle = () => {
     if (!playerReady || !isElectron) return;
@@ -1608,9 +1998,10 @@ export const PlayerWindow: React.FC<PlayerWindowProps> = ({ className = '' }) =>
   const playVideoAtIndex = useCallback((index: number) => {
     // Request main orchestrator to play at index - it will broadcast state update
     if (isElectron) {
+      markTransition('manual_next');
       (window as any).electronAPI.sendQueueCommand?.({ action: 'play_at_index', payload: { index } });
     }
-  }, [isElectron]);
+  }, [isElectron, markTransition]);
 
   // Show confirmation dialog before playing from queue
   const handleQueueItemClick = useCallback((index: number) => {
@@ -1682,10 +2073,10 @@ export const PlayerWindow: React.FC<PlayerWindowProps> = ({ className = '' }) =>
     if (playlistToLoad) {
       setActivePlaylist(playlistToLoad);
       setSelectedPlaylist(null);
-      const playlistTracks = playlists[playlistToLoad] || [];
-      const finalTracks = Array.isArray(playlistTracks)
-        ? (settings.autoShufflePlaylists ? shuffleArray(playlistTracks) : [...playlistTracks])
-        : [];
+      const found = findPlaylistTracks(playlistToLoad);
+      const playlistTracks = found?.tracks || [];
+      const shouldShuffle = found?.keepOrder ? false : settings.autoShufflePlaylists;
+      const finalTracks = shouldShuffle ? shuffleArray(playlistTracks) : [...playlistTracks];
       
       // Clear the main process queue first, then add all videos
       if (isElectron && finalTracks.length > 0) {
@@ -1778,16 +2169,24 @@ export const PlayerWindow: React.FC<PlayerWindowProps> = ({ className = '' }) =>
     });
   }, [playlists]);
   
+  // What harmonic suggestions and fills may pick from
+  const moderatedVideos = useMemo(
+    () => allVideos.filter(video => !moderationBlockedKeys.has(getModerationKey(video))),
+    [allVideos, moderationBlockedKeys]
+  );
+
   const getAllVideos = (): Video[] => allVideos;
   const getSearchResults = (): Video[] => searchResults;
 
   // Queue management via IPC (main orchestrator is source of truth)
   const handleClearQueue = () => {
     if (!isElectron) return;
+    refundKioskRequests(priorityQueueRef.current, 'Queue cleared');
     // Clear both active queue and priority queue
     (window as any).electronAPI.sendQueueCommand?.({ action: 'clear_queue' });
     // Also clear local state
     setQueue([]);
+    priorityQueueRef.current = [];
     setPriorityQueue([]);
     setQueueIndex(0);
   };
@@ -1797,12 +2196,61 @@ export const PlayerWindow: React.FC<PlayerWindowProps> = ({ className = '' }) =>
     (window as any).electronAPI.sendQueueCommand?.({ action: 'add_to_queue', payload: { video } });
   };
 
+  // Harmonic "good next tracks" - queued videos may predate the tempo & key analysis,
+  // so the now-playing video is looked up in the library for its BPM/key
+  const harmonicSuggestions = useMemo(() => {
+    if (!currentVideo) return [];
+    const analyzed = allVideos.find(v => v.path && v.path === currentVideo.path) || currentVideo;
+    return getHarmonicSuggestions(analyzed, moderatedVideos, { limit: 8, exclude: [...queue, ...priorityQueue] });
+  }, [currentVideo, allVideos, moderatedVideos, queue, priorityQueue]);
+
+  // Add to the end of the active queue, then move it to index 1 (up next)
+  const handlePlaySuggestionNext = useCallback((video: Video) => {
+    if (!isElectron) return;
+    const api = (window as any).electronAPI;
+    api.sendQueueCommand?.({ action: 'add_to_queue', payload: { video } });
+    api.sendQueueCommand?.({ action: 'move_queue_item', payload: { fromIndex: queue.length, toIndex: 1 } });
+  }, [isElectron, queue.length]);
+
+  // Harmonic auto-fill: when few tracks are left in the active queue, append a chain of
+  // tracks that mix well after the last one
+  const lastHarmonicFillSeedRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!isElectron || !settings.harmonicAutoFill) return;
+    const fill = planHarmonicAutoFill(queue, priorityQueue, moderatedVideos, allVideos);
+    if (!fill || lastHarmonicFillSeedRef.current === fill.seedKey) return; // Already tried from this state
+    lastHarmonicFillSeedRef.current = fill.seedKey;
+
+    fill.picks.forEach(video => {
+      window.electronAPI.sendQueueCommand({ action: 'add_to_queue', payload: { video } });
+    });
+  }, [isElectron, settings.harmonicAutoFill, queue, priorityQueue, allVideos, moderatedVideos]);
+
   // Video click handler for search - opens popover to add to priority queue
   const handleVideoClick = useCallback((video: Video, event: React.MouseEvent) => {
     event.stopPropagation();
     setPopoverVideo(video);
     setPopoverPosition({ x: event.clientX, y: event.clientY });
-  }, []);
+    setPopoverAnalysis(null);
+
+    // Measured loudness and manual trim for the track (measures it now if it never played)
+    const filePath = video.path || video.file_path || null;
+    popoverAnalysisPathRef.current = filePath;
+    if (isElectron && filePath) {
+      (window as any).electronAPI.getAudioAnalysis(filePath).then((analysis: VideoAudioAnalysis | null) => {
+        if (popoverAnalysisPathRef.current === filePath) setPopoverAnalysis(analysis);
+      });
+    }
+  }, [isElectron]);
+
+  // Per-track gain trim (from popover) - applies the next time the track starts
+  const handleAdjustGainTrim = useCallback((deltaDb: number) => {
+    const filePath = popoverVideo?.path || popoverVideo?.file_path;
+    if (!isElectron || !filePath || !popoverAnalysis) return;
+    const gainTrimDb = Math.max(-12, Math.min(12, Math.round((popoverAnalysis.gainTrimDb + deltaDb) * 2) / 2));
+    setPopoverAnalysis({ ...popoverAnalysis, gainTrimDb });
+    (window as any).electronAPI.setTrackGainTrim(filePath, gainTrimDb);
+  }, [isElectron, popoverVideo, popoverAnalysis]);
 
   // Add video to priority queue (from popover)
   const handleAddToPriorityQueue = useCallback(() => {
@@ -1885,6 +2333,26 @@ export const PlayerWindow: React.FC<PlayerWindowProps> = ({ className = '' }) =>
     });
   }, [isElectron]);
 
+  // Save the playlist schedule immediately so it survives restarts
+  const handleUpdatePlaylistSchedule = useCallback((schedule: PlaylistSchedule) => {
+    setPlaylistSchedule(schedule);
+    if (isElectron) {
+      (window as any).electronAPI.setSetting('playlistSchedule', schedule).catch((err: any) => {
+        console.error('[PlayerWindow] Failed to save playlist schedule:', err);
+      });
+    }
+  }, [isElectron]);
+
+  // Save the command policy immediately - it takes effect on the next command
+  const handleUpdateCommandPolicy = useCallback((policy: CommandPolicy) => {
+    setCommandPolicy(policy);
+    if (isElectron) {
+      (window as any).electronAPI.setSetting('commandPolicy', policy).catch((err: any) => {
+        console.error('[PlayerWindow] Failed to save command policy:', err);
+      });
+    }
+  }, [isElectron]);
+
   // Video end handler - called when Player Window notifies us video ended
   // Uses refs to avoid stale closure issues with IPC listener
   const queueRef = useRef(queue);
@@ -1970,6 +2438,7 @@ export const PlayerWindow: React.FC<PlayerWindowProps> = ({ className = '' }) =>
       });
       // If video failed to play, still advance to next (don't get stuck)
       // But add a small delay to ensure cleanup is complete
+      markTransition('error');
       setTimeout(() => {
         playNextVideo();
       }, 100);
@@ -1981,6 +2450,7 @@ export const PlayerWindow: React.FC<PlayerWindowProps> = ({ className = '' }) =>
         src: currentVideo?.src
       });
       // If video has 0 duration, advance to next with delay
+      markTransition('error');
       setTimeout(() => {
         playNextVideo();
       }, 100);
@@ -1992,7 +2462,7 @@ export const PlayerWindow: React.FC<PlayerWindowProps> = ({ className = '' }) =>
     playNextVideo();
     // Note: Preloading of next video is handled automatically by the useEffect
     // that watches nextVideoToPreload, which updates when queue advances
-  }, [playNextVideo, currentVideo, playbackDuration, playbackTime]);
+  }, [playNextVideo, currentVideo, playbackDuration, playbackTime, markTransition]);
 
   // Set up IPC listener to receive video end events from Player Window
   useEffect(() => {
@@ -2023,6 +2493,10 @@ export const PlayerWindow: React.FC<PlayerWindowProps> = ({ className = '' }) =>
         if (typeof state.duration === 'number') {
           setPlaybackDuration(state.duration);
         }
+        // Playback errors are reported to the fleet dashboard
+        if (typeof state.error === 'string') {
+          getSupabaseService().recordError(state.video?.title ? `${state.video.title}: ${state.error}` : state.error);
+        }
       }
     });
 
@@ -2273,6 +2747,7 @@ export const PlayerWindow: React.FC<PlayerWindowProps> = ({ className = '' }) =>
           setIsPlaying(state.isPlaying);
         }
         if (state.nowPlayingSource) setIsFromPriorityQueue(state.nowPlayingSource === 'priority');
+        if (typeof state.playId === 'number') setNowPlayingPlayId(state.playId);
       }
     });
     
@@ -2442,6 +2917,41 @@ export const PlayerWindow: React.FC<PlayerWindowProps> = ({ className = '' }) =>
     (window as any).electronAPI.setSetting('overlaySettings', overlaySettings);
   }, [isElectron, overlaySettings]);
 
+  // Sync loudness normalization settings to Player Window when they change
+  useEffect(() => {
+    if (!isElectron) return;
+    (window as any).electronAPI.controlPlayerWindow('updateSettings', {
+      enableAudioNormalization: settings.normalizeAudioLevels,
+      targetLoudness: settings.targetLoudness
+    });
+  }, [isElectron, settings.normalizeAudioLevels, settings.targetLoudness]);
+
+  // Sync crossfade/transition settings to Player Window when they change
+  useEffect(() => {
+    if (!isElectron) return;
+    (window as any).electronAPI.controlPlayerWindow('updateSettings', {
+      fadeDuration: settings.fadeDuration,
+      crossfadeMode: settings.crossfadeMode,
+      crossfadeCurve: settings.crossfadeCurve,
+      audioFadeDuration: settings.audioFadeDuration,
+      videoFadeDuration: settings.videoFadeDuration,
+      transitionStyle: settings.transitionStyle
+    });
+  }, [isElectron, settings.fadeDuration, settings.crossfadeMode, settings.crossfadeCurve, settings.audioFadeDuration, settings.videoFadeDuration, settings.transitionStyle]);
+
+  // Sync the audio output device to Player Window - it falls back to the default output on its own
+  useEffect(() => {
+    if (!isElectron) return;
+    (window as any).electronAPI.controlPlayerWindow('updateSettings', {
+      audioOutputDevice: settings.audioOutputDevice
+    });
+  }, [isElectron, settings.audioOutputDevice]);
+
+  // Alert when the chosen output device disappears (and clear it when the device is back)
+  useEffect(() => {
+    setShowAudioOutputAlert(audioOutput.missing);
+  }, [audioOutput.missing]);
+
   // Save kiosk settings when they change
   useEffect(() => {
     if (!isElectron) return;
@@ -2742,6 +3252,38 @@ export const PlayerWindow: React.FC<PlayerWindowProps> = ({ className = '' }) =>
     }
   }, [isElectron, supabaseInitialized]);
 
+  // Reload the library without a full Supabase re-index (the caller syncs just what changed)
+  const reloadLibrary = useCallback(async (): Promise<Record<string, Video[]>> => {
+    const { playlists: newPlaylists } = await (window as any).electronAPI.getPlaylists();
+    setPlaylists(newPlaylists || {});
+    localSearchService.indexVideos(newPlaylists || {});
+    return newPlaylists || {};
+  }, []);
+
+  // Container tags are read in the background after a library scan - reload and upsert those files
+  useEffect(() => {
+    if (!isElectron) return;
+    return (window as any).electronAPI.onVideoMetadataUpdated?.(async (result: { filePaths: string[] }) => {
+      const newPlaylists = await reloadLibrary();
+      if (!supabaseInitialized) return;
+      const extracted = new Set(result.filePaths);
+      const videos = Object.values(newPlaylists).flat().filter(video => extracted.has(video.path || video.src));
+      getSupabaseService().upsertLocalVideos(videos);
+    });
+  }, [isElectron, supabaseInitialized, reloadLibrary]);
+
+  // The library watcher saw files change on disk - reload and sync only the changed rows
+  useEffect(() => {
+    if (!isElectron) return;
+    return (window as any).electronAPI.onLibraryChanges?.(async (changes: LibraryChanges) => {
+      const newPlaylists = await reloadLibrary();
+      if (supabaseInitialized) {
+        await getSupabaseService().applyLibraryChanges(changes, newPlaylists);
+        refreshSmartPlaylists(); // The reload re-evaluated them before these rows were written
+      }
+    });
+  }, [isElectron, supabaseInitialized, reloadLibrary, refreshSmartPlaylists]);
+
   const handleReindexMusicDatabase = useCallback(async () => {
     if (isElectron && supabaseInitialized) {
       console.log('[PlayerWindow] Manual re-index of music database requested');
@@ -2774,10 +3316,18 @@ export const PlayerWindow: React.FC<PlayerWindowProps> = ({ className = '' }) =>
         playerDisplayId: null,
         playerWindowFullscreen: false,
         autoShufflePlaylists: true,
+        harmonicAutoFill: false,
+        autoDjStrategy: 'loop',
         normalizeAudioLevels: false,
+        targetLoudness: DEFAULT_TARGET_LOUDNESS,
+        trackGainTrims: {},
         enableFullscreenPlayer: true,
         fadeDuration: 3,
         crossfadeMode: 'manual',
+        crossfadeCurve: DEFAULT_CROSSFADE_OPTIONS.curve,
+        audioFadeDuration: DEFAULT_CROSSFADE_OPTIONS.audioDuration,
+        videoFadeDuration: DEFAULT_CROSSFADE_OPTIONS.videoDuration,
+        transitionStyle: DEFAULT_CROSSFADE_OPTIONS.style,
         overlaySettings: {
           showNowPlaying: true,
           showUpcoming: true,
@@ -2791,12 +3341,17 @@ export const PlayerWindow: React.FC<PlayerWindowProps> = ({ className = '' }) =>
         },
         kioskSettings: {
           mode: 'freeplay',
+          creditsPerRequest: 1,
           uiMode: 'classic',
           searchAllMusic: true,
-          searchYoutube: false
+          searchYoutube: false,
+          requestRules: DEFAULT_REQUEST_RULES
         },
+        playlistSchedule: DEFAULT_PLAYLIST_SCHEDULE,
+        commandPolicy: DEFAULT_COMMAND_POLICY,
         activePlaylist: null,
-        savedQueueState: null
+        savedQueueState: null,
+        queueSnapshot: null
       };
 
       // Reset Player ID to default (DJAMMS_DEMO) instead of clearing
@@ -2821,14 +3376,23 @@ export const PlayerWindow: React.FC<PlayerWindowProps> = ({ className = '' }) =>
       // Reset local state
       setSettings({
         autoShufflePlaylists: true,
+        harmonicAutoFill: false,
+        autoDjStrategy: 'loop',
         normalizeAudioLevels: false,
+        targetLoudness: DEFAULT_TARGET_LOUDNESS,
         enableFullscreenPlayer: true,
         fadeDuration: 3,
         crossfadeMode: 'manual',
+        crossfadeCurve: DEFAULT_CROSSFADE_OPTIONS.curve,
+        audioFadeDuration: DEFAULT_CROSSFADE_OPTIONS.audioDuration,
+        videoFadeDuration: DEFAULT_CROSSFADE_OPTIONS.videoDuration,
+        transitionStyle: DEFAULT_CROSSFADE_OPTIONS.style,
         playerDisplayId: null,
+        audioOutputDevice: null,
         playerFullscreen: false,
         playlistsDirectory: '/Users/mikeclarkin/Music/DJAMMS/PLAYLISTS',
-        forceAutoPlay: false
+        forceAutoPlay: false,
+        queueRestoreMode: 'resume'
       });
 
       // Delete player profile from Supabase if connected
@@ -2958,6 +3522,26 @@ export const PlayerWindow: React.FC<PlayerWindowProps> = ({ className = '' }) =>
                 ? `${getDisplayArtist(popoverVideo.artist)} - ${cleanVideoTitle(popoverVideo.title)}` 
                 : cleanVideoTitle(popoverVideo.title)}
             </div>
+            {formatVideoDetails(popoverVideo) && (
+              <div className="popover-details">{formatVideoDetails(popoverVideo)}</div>
+            )}
+            {popoverVideo.metadataSources && (
+              <div className="popover-metadata-sources">{describeMetadataSources(popoverVideo.metadataSources)}</div>
+            )}
+            {popoverAnalysis && (
+              <div className="popover-loudness">
+                <span>
+                  {popoverAnalysis.integratedLufs !== null
+                    ? `${popoverAnalysis.integratedLufs.toFixed(1)} LUFS · peak ${popoverAnalysis.truePeakDb?.toFixed(1) ?? '—'} dBTP`
+                    : 'Loudness not measured'}
+                </span>
+                <span className="popover-trim">
+                  <button className="popover-trim-btn" onClick={() => handleAdjustGainTrim(-0.5)} title="Lower this track">−</button>
+                  <span>Trim {popoverAnalysis.gainTrimDb > 0 ? '+' : ''}{popoverAnalysis.gainTrimDb.toFixed(1)} dB</span>
+                  <button className="popover-trim-btn" onClick={() => handleAdjustGainTrim(0.5)} title="Raise this track">+</button>
+                </span>
+              </div>
+            )}
             <div className="popover-subtitle">Add to Priority Queue?</div>
           </div>
           <div className="popover-actions">
@@ -2972,6 +3556,11 @@ export const PlayerWindow: React.FC<PlayerWindowProps> = ({ className = '' }) =>
       <header className="top-header">
         <div className="header-left">
           <img src="/icon.png" alt="DJAMMS" className="app-logo" style={{ height: '40px', width: 'auto' }} />
+          {pendingSyncCount > 0 && (
+            <span className="sync-pending-badge" title="Changes made while offline - sent when the connection returns">
+              {pendingSyncCount} pending sync
+            </span>
+          )}
         </div>
         
         <div className="header-center">
@@ -3141,6 +3730,38 @@ export const PlayerWindow: React.FC<PlayerWindowProps> = ({ className = '' }) =>
                   ))
                 )}
               </div>
+              {smartPlaylists.length > 0 && (
+                <>
+                  <div className="playlist-header" title="Rule-based playlists - edit the rules in Settings">
+                    <span className="playlist-header-label">SMART PLAYLISTS</span>
+                  </div>
+                  <div className="playlist-list">
+                    {smartPlaylists.map(playlist => (
+                      <div
+                        key={playlist.id}
+                        className={`playlist-item ${selectedPlaylist === playlist.name ? 'selected' : ''}`}
+                        onClick={() => handlePlaylistClick(playlist.name)}
+                        onMouseEnter={() => setHoveredPlaylist(playlist.name)}
+                        onMouseLeave={() => setHoveredPlaylist(null)}
+                      >
+                        <span className="material-symbols-rounded playlist-icon">auto_awesome</span>
+                        <span className="playlist-name">
+                          {selectedPlaylist === playlist.name ? `Selected: ${playlist.name}` : playlist.name}
+                        </span>
+                        {hoveredPlaylist === playlist.name && (smartPlaylistVideos[playlist.name]?.length ?? 0) > 0 && (
+                          <button
+                            className="playlist-play-btn"
+                            onClick={(e) => handlePlayButtonClick(e, playlist.name)}
+                          >
+                            <span className="material-symbols-rounded">play_arrow</span>
+                          </button>
+                        )}
+                        <span className="playlist-count">{smartPlaylistVideos[playlist.name]?.length ?? 0}</span>
+                      </div>
+                    ))}
+                  </div>
+                </>
+              )}
             </div>
           </nav>
         </aside>
@@ -3157,6 +3778,8 @@ export const PlayerWindow: React.FC<PlayerWindowProps> = ({ className = '' }) =>
               playbackTime={playbackTime}
               playbackDuration={playbackDuration}
               onQueueItemClick={handleQueueItemClick}
+              suggestions={harmonicSuggestions}
+              onPlaySuggestionNext={handlePlaySuggestionNext}
             />
           )}
 
@@ -3180,6 +3803,30 @@ export const PlayerWindow: React.FC<PlayerWindowProps> = ({ className = '' }) =>
             />
           )}
 
+          {/* History Tab */}
+          {currentTab === 'history' && (
+            <HistoryTab supabaseInitialized={supabaseInitialized} />
+          )}
+
+          {/* Moderation Tab */}
+          {currentTab === 'moderation' && (
+            <ModerationTab supabaseInitialized={supabaseInitialized} onModerationChanged={refreshModeration} />
+          )}
+
+          {/* Playlists Tab - virtual playlists */}
+          {currentTab === 'playlists' && (
+            <PlaylistTab
+              virtualPlaylists={virtualPlaylists}
+              library={playlists}
+              onSave={handleSaveVirtualPlaylist}
+              onDelete={handleDeleteVirtualPlaylist}
+              onLoad={(playlist: VirtualPlaylist) => {
+                setPlaylistToLoad(playlist.name);
+                setShowLoadDialog(true);
+              }}
+            />
+          )}
+
           {/* Settings Tab */}
           {currentTab === 'settings' && (
             <div className="tab-content active">
@@ -3217,6 +3864,22 @@ export const PlayerWindow: React.FC<PlayerWindowProps> = ({ className = '' }) =>
                     }}
                   />
                 </div>
+
+                {/* LAN Server Section - kiosks and web admin fall back to it when Supabase is unreachable */}
+                {isElectron && (
+                  <div className="settings-section">
+                    <h2><span className="section-icon">📡</span> LAN Server</h2>
+                    <LanServerSettings />
+                  </div>
+                )}
+
+                {/* Zones Section - extra players for other rooms, started from this one */}
+                {isElectron && (
+                  <div className="settings-section">
+                    <h2><span className="section-icon">🏠</span> Zones</h2>
+                    <ZonesSettings />
+                  </div>
+                )}
                 
                 {/* Library Settings Section */}
                 <div className="settings-section">
@@ -3270,6 +3933,12 @@ export const PlayerWindow: React.FC<PlayerWindowProps> = ({ className = '' }) =>
                       </button>
                     </div>
                   </div>
+                  {isElectron && (
+                    <LibraryRootsSettings />
+                  )}
+                  {isElectron && (
+                    <MusicAnalysisSettings onComplete={handleRefreshPlaylists} />
+                  )}
                 </div>
 
                 <div className="settings-section">
@@ -3291,8 +3960,87 @@ export const PlayerWindow: React.FC<PlayerWindowProps> = ({ className = '' }) =>
                       >
                         Seamless
                       </button>
+                      <button
+                        className={`mode-btn ${settings.crossfadeMode === 'djmix' ? 'active' : ''}`}
+                        onClick={() => handleUpdateSetting('crossfadeMode', 'djmix')}
+                        title="Next video comes up to full level before the current one is pulled down"
+                      >
+                        DJ Mix
+                      </button>
                     </div>
                   </div>
+                  {settings.crossfadeMode !== 'manual' && (
+                    <>
+                      <div className="setting-item">
+                        <label>Crossfade curve</label>
+                        <div className="crossfade-mode-selector">
+                          {([
+                            ['equal-power', 'Equal power', 'Constant loudness through the overlap'],
+                            ['logarithmic', 'Log', 'Even fade to the ear'],
+                            ['s-curve', 'S-curve', 'Holds each track near full level longer'],
+                            ['linear', 'Linear', 'Straight line - dips mid-overlap']
+                          ] as [CrossfadeCurve, string, string][]).map(([curve, label, title]) => (
+                            <button
+                              key={curve}
+                              className={`mode-btn ${settings.crossfadeCurve === curve ? 'active' : ''}`}
+                              onClick={() => handleUpdateSetting('crossfadeCurve', curve)}
+                              title={title}
+                            >
+                              {label}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                      <div className="setting-item">
+                        <label>Transition style</label>
+                        <div className="crossfade-mode-selector">
+                          {([
+                            ['dissolve', 'Dissolve'],
+                            ['dip-to-black', 'Dip to black'],
+                            ['slide', 'Slide']
+                          ] as [TransitionStyle, string][]).map(([style, label]) => (
+                            <button
+                              key={style}
+                              className={`mode-btn ${settings.transitionStyle === style ? 'active' : ''}`}
+                              onClick={() => handleUpdateSetting('transitionStyle', style)}
+                            >
+                              {label}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                      <div className="setting-item">
+                        <label>Audio fade</label>
+                        <div className="crossfade-slider-container">
+                          <input 
+                            type="range" 
+                            className="crossfade-slider" 
+                            value={settings.audioFadeDuration}
+                            onChange={(e) => handleUpdateSetting('audioFadeDuration', Number(e.target.value))}
+                            min="0.5" 
+                            max="10" 
+                            step="0.5"
+                          />
+                          <span className="crossfade-value">{settings.audioFadeDuration.toFixed(1)}s</span>
+                        </div>
+                      </div>
+                      <div className="setting-item">
+                        <label>Video fade</label>
+                        <div className="crossfade-slider-container">
+                          <input 
+                            type="range" 
+                            className="crossfade-slider" 
+                            value={settings.videoFadeDuration}
+                            onChange={(e) => handleUpdateSetting('videoFadeDuration', Number(e.target.value))}
+                            min="0.5" 
+                            max="10" 
+                            step="0.5"
+                          />
+                          <span className="crossfade-value">{settings.videoFadeDuration.toFixed(1)}s</span>
+                        </div>
+                      </div>
+                    </>
+                  )}
                   <div className="setting-item">
                     <label>Auto-shuffle playlists</label>
                     <input 
@@ -3302,7 +4050,32 @@ export const PlayerWindow: React.FC<PlayerWindowProps> = ({ className = '' }) =>
                     />
                   </div>
                   <div className="setting-item">
-                    <label>{settings.crossfadeMode === 'seamless' ? 'Crossfade overlap' : 'Skip fade duration'}</label>
+                    <label title="When fewer than 3 tracks are left, add tracks in a compatible key and similar tempo (needs tempo & key analysis)">
+                      Harmonic auto-fill
+                    </label>
+                    <input 
+                      type="checkbox" 
+                      checked={settings.harmonicAutoFill}
+                      onChange={(e) => handleUpdateSetting('harmonicAutoFill', e.target.checked)}
+                    />
+                  </div>
+                  <div className="setting-item">
+                    <label title="What plays once every track in the queue has played">When the queue runs out</label>
+                    <div className="search-radio-group" style={{ display: 'flex', alignItems: 'center', gap: '6px', flexWrap: 'wrap' }}>
+                      {autoDjOptions.map(option => (
+                        <button
+                          key={option.value}
+                          className={`radio-btn ${settings.autoDjStrategy === option.value ? 'active' : ''}`}
+                          onClick={() => handleUpdateSetting('autoDjStrategy', option.value)}
+                          title={option.title}
+                        >
+                          {option.label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="setting-item">
+                    <label>Skip fade duration</label>
                     <div className="crossfade-slider-container">
                       <input 
                         type="range" 
@@ -3324,6 +4097,78 @@ export const PlayerWindow: React.FC<PlayerWindowProps> = ({ className = '' }) =>
                       onChange={(e) => handleUpdateSetting('normalizeAudioLevels', e.target.checked)}
                     />
                   </div>
+                  {settings.normalizeAudioLevels && (
+                    <div className="setting-item">
+                      <label>Target loudness</label>
+                      <div className="crossfade-slider-container">
+                        <input 
+                          type="range" 
+                          className="crossfade-slider" 
+                          value={settings.targetLoudness}
+                          onChange={(e) => handleUpdateSetting('targetLoudness', Number(e.target.value))}
+                          min={MIN_TARGET_LOUDNESS} 
+                          max={MAX_TARGET_LOUDNESS} 
+                          step="1"
+                        />
+                        <span className="crossfade-value">{settings.targetLoudness} LUFS</span>
+                      </div>
+                    </div>
+                  )}
+                  <div className="setting-item">
+                    <label>On restart</label>
+                    <div className="search-radio-group" style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+                      <button
+                        className={`radio-btn ${settings.queueRestoreMode === 'resume' ? 'active' : ''}`}
+                        onClick={() => handleUpdateSetting('queueRestoreMode', 'resume')}
+                        title="Restore the queue and continue the current song where it left off"
+                      >
+                        Resume
+                      </button>
+                      <button
+                        className={`radio-btn ${settings.queueRestoreMode === 'restart' ? 'active' : ''}`}
+                        onClick={() => handleUpdateSetting('queueRestoreMode', 'restart')}
+                        title="Restore the queue and play the current song from the beginning"
+                      >
+                        Restart track
+                      </button>
+                      <button
+                        className={`radio-btn ${settings.queueRestoreMode === 'fresh' ? 'active' : ''}`}
+                        onClick={() => handleUpdateSetting('queueRestoreMode', 'fresh')}
+                        title="Ignore the saved queue and load the last playlist"
+                      >
+                        Start fresh
+                      </button>
+                    </div>
+                  </div>
+                </div>
+
+                <div className="settings-section">
+                  <h2><span className="section-icon">🗓️</span> Playlist Schedule</h2>
+                  <PlaylistScheduleSettings
+                    schedule={playlistSchedule}
+                    playlistNames={Object.keys(playlists)}
+                    onChange={handleUpdatePlaylistSchedule}
+                  />
+                </div>
+
+                <div className="settings-section">
+                  <h2><span className="section-icon">✨</span> Smart Playlists</h2>
+                  <SmartPlaylistSettings
+                    smartPlaylists={smartPlaylists}
+                    smartPlaylistVideos={smartPlaylistVideos}
+                    playlistNames={Object.keys(playlists)}
+                    enabled={supabaseInitialized}
+                    onSave={saveSmartPlaylist}
+                    onDelete={deleteSmartPlaylist}
+                  />
+                </div>
+
+                <div className="settings-section">
+                  <h2><span className="section-icon">🔐</span> Remote Access</h2>
+                  <CommandPolicySettings
+                    policy={commandPolicy}
+                    onChange={handleUpdateCommandPolicy}
+                  />
                 </div>
 
                 <div className="settings-section player-display-section">
@@ -3404,6 +4249,38 @@ export const PlayerWindow: React.FC<PlayerWindowProps> = ({ className = '' }) =>
                       </div>
                     </div>
 
+                    {/* Audio Output Selection */}
+                    <div className="setting-item">
+                      <label>Audio Output</label>
+                      <div className="display-selector">
+                        <select
+                          className="setting-select"
+                          value={settings.audioOutputDevice?.deviceId ?? ''}
+                          onChange={(e) => {
+                            const device = audioOutput.devices.find(d => d.deviceId === e.target.value);
+                            handleUpdateSetting('audioOutputDevice', device ? { deviceId: device.deviceId, label: device.label } : null);
+                          }}
+                        >
+                          <option value="">System Default</option>
+                          {audioOutput.missing && settings.audioOutputDevice && (
+                            <option value={settings.audioOutputDevice.deviceId}>
+                              {settings.audioOutputDevice.label} (disconnected)
+                            </option>
+                          )}
+                          {audioOutput.devices.map((device) => (
+                            <option key={device.deviceId} value={device.deviceId}>
+                              {device.label}
+                            </option>
+                          ))}
+                        </select>
+                        <small className="display-info">
+                          {audioOutput.missing
+                            ? 'Disconnected - playing through the system default until it is back'
+                            : `${audioOutput.devices.length} output(s) available`}
+                        </small>
+                      </div>
+                    </div>
+
                     {/* Fullscreen Toggle */}
                     <div className="setting-item">
                       <label>Fullscreen Player</label>
@@ -3939,6 +4816,24 @@ export const PlayerWindow: React.FC<PlayerWindowProps> = ({ className = '' }) =>
                     </div>
                   </div>
 
+                  {/* Price of a kiosk request - the player charges it, kiosks only display it */}
+                  {kioskSettings.mode === 'credits' && (
+                    <div className="setting-item">
+                      <label>Credits per Request</label>
+                      <input
+                        type="number"
+                        min="1"
+                        max="20"
+                        value={kioskSettings.creditsPerRequest}
+                        onChange={(e) => {
+                          const value = Math.min(20, Math.max(1, parseInt(e.target.value) || 1));
+                          setKioskSettings(prev => ({ ...prev, creditsPerRequest: value }));
+                        }}
+                        style={{ width: '55px', padding: '6px 8px', borderRadius: '4px', border: '1px solid var(--border-color)', background: 'var(--bg-secondary)', color: 'var(--text-primary)', fontSize: '14px' }}
+                      />
+                    </div>
+                  )}
+
                   {/* Kiosk UI Style Toggle */}
                   <div className="setting-item">
                     <label>Kiosk UI Style</label>
@@ -3961,6 +4856,58 @@ export const PlayerWindow: React.FC<PlayerWindowProps> = ({ className = '' }) =>
                     </span>
                   </div>
 
+                  {/* Kiosk Request Rules - enforced by the player, 0 disables a rule */}
+                  <div className="setting-item">
+                    <label>Request Limits</label>
+                    <div style={{ display: 'flex', alignItems: 'center', gap: '16px', flexWrap: 'wrap' }}>
+                      <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+                        <span style={{ color: 'var(--text-secondary)', fontSize: '13px' }}>No repeat within (min):</span>
+                        <input
+                          type="number"
+                          min="0"
+                          max="1440"
+                          value={kioskSettings.requestRules.repeatWindowMinutes}
+                          onChange={(e) => {
+                            const value = Math.min(1440, Math.max(0, parseInt(e.target.value) || 0));
+                            setKioskSettings(prev => ({ ...prev, requestRules: { ...prev.requestRules, repeatWindowMinutes: value } }));
+                          }}
+                          style={{ width: '55px', padding: '6px 8px', borderRadius: '4px', border: '1px solid var(--border-color)', background: 'var(--bg-secondary)', color: 'var(--text-primary)', fontSize: '14px' }}
+                        />
+                      </div>
+                      <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+                        <span style={{ color: 'var(--text-secondary)', fontSize: '13px' }}>Songs per artist / hour:</span>
+                        <input
+                          type="number"
+                          min="0"
+                          max="20"
+                          value={kioskSettings.requestRules.maxSongsPerArtistPerHour}
+                          onChange={(e) => {
+                            const value = Math.min(20, Math.max(0, parseInt(e.target.value) || 0));
+                            setKioskSettings(prev => ({ ...prev, requestRules: { ...prev.requestRules, maxSongsPerArtistPerHour: value } }));
+                          }}
+                          style={{ width: '55px', padding: '6px 8px', borderRadius: '4px', border: '1px solid var(--border-color)', background: 'var(--bg-secondary)', color: 'var(--text-primary)', fontSize: '14px' }}
+                        />
+                      </div>
+                      <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+                        <span style={{ color: 'var(--text-secondary)', fontSize: '13px' }}>Pending per kiosk:</span>
+                        <input
+                          type="number"
+                          min="0"
+                          max="20"
+                          value={kioskSettings.requestRules.maxPendingPerKiosk}
+                          onChange={(e) => {
+                            const value = Math.min(20, Math.max(0, parseInt(e.target.value) || 0));
+                            setKioskSettings(prev => ({ ...prev, requestRules: { ...prev.requestRules, maxPendingPerKiosk: value } }));
+                          }}
+                          style={{ width: '55px', padding: '6px 8px', borderRadius: '4px', border: '1px solid var(--border-color)', background: 'var(--bg-secondary)', color: 'var(--text-primary)', fontSize: '14px' }}
+                        />
+                      </div>
+                    </div>
+                    <span className="setting-hint" style={{ marginLeft: '12px', fontSize: '12px', color: 'var(--text-secondary)' }}>
+                      0 = no limit
+                    </span>
+                  </div>
+
                   {/* Kiosk Balance */}
                   <div className="setting-item">
                     <label>Kiosk Balance</label>
@@ -3971,83 +4918,35 @@ export const PlayerWindow: React.FC<PlayerWindowProps> = ({ className = '' }) =>
                         color: 'var(--accent-primary)',
                         minWidth: '60px'
                       }}>
-                        {kioskSettings.creditBalance} Credits
+                        {kioskCreditBalance} Credits
                       </span>
                       <button 
                         className="action-btn"
-                        onClick={() => setKioskSettings(prev => ({ ...prev, creditBalance: prev.creditBalance + 1 }))}
+                        disabled={!supabaseInitialized}
+                        onClick={() => handleKioskCredits('deposit', 1)}
                       >
                         +1
                       </button>
                       <button 
                         className="action-btn"
-                        onClick={() => setKioskSettings(prev => ({ ...prev, creditBalance: prev.creditBalance + 3 }))}
+                        disabled={!supabaseInitialized}
+                        onClick={() => handleKioskCredits('deposit', 3)}
                       >
                         +3
                       </button>
                       <button 
                         className="action-btn"
                         style={{ backgroundColor: 'var(--error)' }}
-                        onClick={() => setKioskSettings(prev => ({ ...prev, creditBalance: 0 }))}
+                        disabled={!supabaseInitialized}
+                        onClick={() => handleKioskCredits('clear')}
                       >
                         Clear (0)
                       </button>
                     </div>
                   </div>
 
-                  {/* Kiosk Coin Acceptor Status */}
-                  <div className="setting-item">
-                    <label>Coin Acceptor Status</label>
-                    <span className={`status-indicator ${kioskSerialStatus === 'connected' ? 'active' : ''}`} style={{ marginRight: '12px' }}>
-                      {kioskSerialStatus === 'connected' ? 'SERIAL DEVICE CONNECTED' : 'SERIAL DEVICE DISCONNECTED'}
-                    </span>
-                  </div>
-
-                  {/* Serial Device Selection */}
-                  <div className="setting-item">
-                    <label>Serial Devices</label>
-                    <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
-                      <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
-                        <button 
-                          className="action-btn"
-                          onClick={() => {
-                            // TODO: Send command via Supabase to Kiosk to enumerate serial devices
-                            console.log('[Kiosk] Requesting serial device list from Kiosk...');
-                            // Placeholder - will be populated by Kiosk via Supabase
-                            setKioskAvailableSerialDevices(['COM1', 'COM3', '/dev/ttyUSB0']);
-                          }}
-                        >
-                          <span className="material-symbols-rounded">usb</span>
-                          List Available Devices
-                        </button>
-                      </div>
-                      <select 
-                        className="setting-select"
-                        value={kioskSelectedSerialDevice}
-                        onChange={(e) => setKioskSelectedSerialDevice(e.target.value)}
-                        style={{ maxWidth: '300px' }}
-                      >
-                        <option value="">Select a device...</option>
-                        {kioskAvailableSerialDevices.map((device) => (
-                          <option key={device} value={device}>{device}</option>
-                        ))}
-                      </select>
-                      <button 
-                        className="action-btn"
-                        onClick={() => {
-                          if (kioskSelectedSerialDevice) {
-                            // TODO: Send command via Supabase to Kiosk to connect to selected device
-                            console.log('[Kiosk] Requesting connection to:', kioskSelectedSerialDevice);
-                            // Kiosk will update status via Supabase after attempting connection
-                          }
-                        }}
-                        disabled={!kioskSelectedSerialDevice}
-                      >
-                        <span className="material-symbols-rounded">link</span>
-                        Connect to Selected Device
-                      </button>
-                    </div>
-                  </div>
+                  {/* Kiosk Coin Acceptor / Bill Validator */}
+                  {isElectron && <CreditInputSettings />}
 
                   {/* Kiosk Search Mode */}
                   <div className="setting-item">
@@ -4295,6 +5194,33 @@ export const PlayerWindow: React.FC<PlayerWindowProps> = ({ className = '' }) =>
         </div>
       )}
 
+      {/* Audio Output Disconnected Alert */}
+      {showAudioOutputAlert && settings.audioOutputDevice && (
+        <div style={{
+          position: 'fixed',
+          top: '16px',
+          left: '50%',
+          transform: 'translateX(-50%)',
+          display: 'flex',
+          alignItems: 'center',
+          gap: '12px',
+          padding: '12px 16px',
+          backgroundColor: 'var(--bg-primary)',
+          border: '1px solid var(--error)',
+          borderRadius: '8px',
+          boxShadow: '0 8px 32px rgba(0, 0, 0, 0.3)',
+          zIndex: 10000
+        }}>
+          <span className="material-symbols-rounded" style={{ color: 'var(--error)' }}>speaker</span>
+          <span style={{ fontSize: '14px', color: 'var(--text-primary)' }}>
+            Audio output &quot;{settings.audioOutputDevice.label}&quot; was disconnected - the player is using the system default until it is reconnected.
+          </span>
+          <button className="action-btn" onClick={() => setShowAudioOutputAlert(false)}>
+            Dismiss
+          </button>
+        </div>
+      )}
+
       {/* Player ID First-Run Alert */}
       {showPlayerIdAlert && (
         <div style={{
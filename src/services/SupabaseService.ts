@@ -24,30 +24,69 @@ import {
   VolumeCommandPayload,
   SeekCommandPayload,
   QueueAddCommandPayload,
-  LoadPlaylistCommandPayload
+  LoadPlaylistCommandPayload,
+  KioskCreditEntryType,
+  KioskCreditBalance,
+  PlayHistoryEntry,
+  LibraryChangeType,
+  LibraryChangeEntry,
+  SupabaseLocalVideo,
+  ContentStatus,
+  ContentPolicy,
+  SmartPlaylist,
+  SmartPlaylistInput,
+  CommandRole,
+  KioskDevice,
+  KioskDeviceRole,
+  KioskPlaySettings,
+  KioskPairingCode
 } from '../types/supabase';
 import {
   SUPABASE_URL,
   SUPABASE_ANON_KEY,
   DEFAULT_PLAYER_ID,
+  DEFAULT_KIOSK_ID,
   HEARTBEAT_INTERVAL,
   STATE_SYNC_DEBOUNCE,
-  COMMAND_EXPIRY_MS
+  COMMAND_EXPIRY_MS,
+  PLAY_COUNT_MIN_SECONDS
 } from '../config/supabase';
-import { Video } from '../types';
+import { Video, TransitionReason, VirtualPlaylist } from '../types';
+import type { LibraryChanges, LibraryFileChange } from '../types/electron';
 import { logger } from '../utils/logger';
 import { mergeQueueUpdates, MergeQueueOptions } from '../utils/queueMerge';
+import { CommandPolicy, DEFAULT_COMMAND_POLICY, checkCommandPolicy, getLanCommandRole } from '../utils/commandPolicy';
+import type { ModerationSnapshot } from '../utils/moderation';
 import { getIOLogger } from './IOLogger';
 
 // Event types for command handlers
 export type CommandHandler = (command: SupabaseCommand) => Promise<void> | void;
 
+// Details of a finished play passed to recordVideoPlay
+export interface PlayRecord {
+  startedAt: string;
+  secondsPlayed: number;
+  duration: number;
+  transitionReason: TransitionReason;
+  fromPriority: boolean;
+}
+
 // Offline queue handling type
 interface QueuedQueueUpdate {
   activeQueue: QueueVideoItem[];
   priorityQueue: QueueVideoItem[];
   timestamp: number;
   retryCount: number;
+  journalId?: string; // Sync journal entry (Electron only)
+}
+
+// The parts of an admin_commands row the player trusts over the broadcast copy
+type StoredCommand = Pick<SupabaseCommand, 'command_type' | 'command_data' | 'player_id' | 'issuer_role' | 'issuer_id' | 'status' | 'created_at'>;
+
+interface QueuedCommand {
+  command: SupabaseCommand;
+  timestamp: number;
+  journalId?: string; // Sync journal entry (Electron only)
 }
 
 /**
@@ -64,6 +103,9 @@ class SupabaseService {
   private commandChannel: RealtimeChannel | null = null;
   private commandSendChannels: Map<string, RealtimeChannel> = new Map(); // Reused channels for sending commands
   private playerStateChannel: RealtimeChannel | null = null; // Realtime subscription for player_state updates
+  private kioskCreditsChannel: RealtimeChannel | null = null; // Realtime subscription for kiosk credit balances
+  private kioskCreditCallbacks: Set<(kioskId: string, balance: number) => void> = new Set();
+  private playHistoryCallbacks: Set<(entry: PlayHistoryEntry) => void> = new Set();
   private heartbeatInterval: ReturnType<typeof setInterval> | null = null;
   private stateSyncTimeout: ReturnType<typeof setTimeout> | null = null;
   private indexingInProgress: boolean = false;
@@ -88,6 +130,21 @@ class SupabaseService {
   // Command deduplication - track processed command IDs to prevent double execution
   private processedCommandIds: Set<string> = new Set();
   private processingCommandIds: Set<string> = new Set(); // Commands currently being processed
+  private localCommandIds: Set<string> = new Set(); // Raised on this machine - run as owner
+  private commandPolicy: CommandPolicy = DEFAULT_COMMAND_POLICY;
+  private playerKey: string | null = null; // Proves this machine owns playerId when managing paired devices
+
+  // Player health for the fleet dashboard - published with the heartbeat when it changes
+  private appVersion: string | null = null;
+  private errorCount = 0; // Playback errors since the app started
+  private lastError: { message: string; at: string } | null = null;
+  private healthDirty = true; // Publish once at startup so the previous run's errors are cleared
+  private healthColumnsMissing = false;
+
+  // Kiosk mode and price - published to player_state so kiosks follow the player's settings
+  private kioskSettings: KioskPlaySettings | null = null;
+  private kioskSettingsDirty = false;
+  private kioskSettingsColumnMissing = false;
   
   // State tracking
   private isInitialized = false;
@@ -103,7 +160,7 @@ class SupabaseService {
 
   // Connection state management
   private connectionStatus: 'connected' | 'disconnected' | 'reconnecting' = 'disconnected';
-  private queuedCommands: Array<{ command: SupabaseCommand; timestamp: number }> = [];
+  private queuedCommands: QueuedCommand[] = [];
   private reconnectionAttempts = 0;
   private maxReconnectionAttempts = 10;
   private reconnectionBackoffMs = 1000; // Start with 1 second
@@ -123,6 +180,13 @@ class SupabaseService {
   private lastDuplicateSkipLogTime: number = 0; // Rate limit duplicate skip logs
   private readonly DUPLICATE_SKIP_LOG_INTERVAL_MS = 2000; // Only log duplicate skip once per 2 seconds
 
+  // Sync journal - offline queues persisted to disk by the Electron main process
+  private syncJournalRestored = false;
+  private pendingSyncCallbacks: Set<(count: number) => void> = new Set();
+
+  private lanPlayerState: Partial<SupabasePlayerState> | null = null; // Last state published to the LAN server
+  private lanBridgeUnsubscribe: (() => void) | null = null;
+
   private constructor() {
     // Private constructor for singleton
   }
@@ -154,6 +218,10 @@ class SupabaseService {
         this.commandChannel.unsubscribe();
         this.commandChannel = null;
       }
+      if (this.kioskCreditsChannel) {
+        this.kioskCreditsChannel.unsubscribe();
+        this.kioskCreditsChannel = null;
+      }
     } else if (this.isInitialized) {
       logger.info('[SupabaseService] Already initialized with same player ID');
       return true;
@@ -161,6 +229,11 @@ class SupabaseService {
 
     try {
       this.playerId = newPlayerId;
+      this.lanPlayerState = null;
+      this.kioskSettingsDirty = this.kioskSettings !== null; // The new player's row needs them too
+
+      // LAN clients are served even if the cloud never connects
+      this.startLanBridge();
       
       // Create Supabase client with consistent configuration
       // Using direct createClient for now (can be migrated to shared factory later)
@@ -182,6 +255,9 @@ class SupabaseService {
         throw new Error('Failed to create Supabase client - check environment variables');
       }
 
+      // Bring back anything queued before the last shutdown (replayed once connected)
+      await this.restoreSyncJournal();
+
       // Initialize or get player state row
       await this.initializePlayerState();
 
@@ -250,6 +326,11 @@ class SupabaseService {
       this.playerStateChannel = null;
     }
 
+    if (this.kioskCreditsChannel) {
+      await this.kioskCreditsChannel.unsubscribe();
+      this.kioskCreditsChannel = null;
+    }
+
     // Unsubscribe from all command send channels
     for (const [playerId, channel] of this.commandSendChannels.entries()) {
       await channel.unsubscribe();
@@ -416,6 +497,9 @@ class SupabaseService {
       (window as any).electronAPI.writeDebugLog({location:'SupabaseService.ts:367',message:'syncPlayerState called',data:{hasActiveQueue:state.activeQueue!==undefined,activeQueueLength:state.activeQueue?.length,hasPriorityQueue:state.priorityQueue!==undefined,hasCurrentVideo:state.currentVideo!==undefined,currentVideoId:state.currentVideo?.id,immediate,lastSyncedHasQueue:this.lastSyncedState?.active_queue!==undefined,lastSyncedQueueLength:this.lastSyncedState?.active_queue?.length},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'A,B,C,D'}).catch(()=>{});
     }
     // #endregion
+    // The LAN server always gets the latest state, online or not
+    this.publishLanPlayerState(state);
+
     // If transitioning, queue the update instead of writing immediately
     if (this.isTransitioning && (state.activeQueue !== undefined || state.priorityQueue !== undefined)) {
       logger.debug('[SupabaseService] Transition in progress, queueing queue update');
@@ -1168,8 +1252,8 @@ class SupabaseService {
     if (status === 'connected') {
       this.reconnectionAttempts = 0;
       this.reconnectionBackoffMs = 1000;
-      // Flush queued queue updates on reconnect
-      this.flushQueuedQueueUpdates().catch(err => {
+      // Replay the offline queues on reconnect
+      this.replayOfflineQueues().catch(err => {
         logger.warn('[SupabaseService] Error flushing queued updates on reconnect:', err);
       });
     }
@@ -1526,21 +1610,26 @@ class SupabaseService {
       
       if (isIdentical) {
         // Replace the last update with this one (same content, newer timestamp)
+        this.journalRemove([lastQueued.journalId]);
+        queueItem.journalId = this.journalAppend('queue_update', queueItem);
         this.queuedQueueUpdates[this.queuedQueueUpdates.length - 1] = queueItem;
         logger.debug(`[SupabaseService] Replaced last queued update (identical content, ${this.queuedQueueUpdates.length} in queue)`);
         return;
       }
     }
 
+    queueItem.journalId = this.journalAppend('queue_update', queueItem);
     this.queuedQueueUpdates.push(queueItem);
 
     // Limit queue size
     const MAX_QUEUE_SIZE = 10;
     if (this.queuedQueueUpdates.length > MAX_QUEUE_SIZE) {
-      this.queuedQueueUpdates.shift(); // Remove oldest
+      const oldest = this.queuedQueueUpdates.shift(); // Remove oldest
+      this.journalRemove([oldest?.journalId]);
     }
 
     logger.debug(`[SupabaseService] Queued queue update (${this.queuedQueueUpdates.length} in queue)`);
+    this.notifyPendingSyncChange();
   }
 
   /**
@@ -1570,6 +1659,8 @@ class SupabaseService {
 
       // Success - remove from queue
       this.queuedQueueUpdates.shift();
+      this.journalRemove([update.journalId]);
+      this.notifyPendingSyncChange();
       logger.info('[SupabaseService] ✅ Retried queued queue update successfully');
 
       // Retry next item if any
@@ -1584,6 +1675,8 @@ class SupabaseService {
         // Max retries reached - remove from queue
         logger.warn(`[SupabaseService] Max retries reached for queued update, removing`);
         this.queuedQueueUpdates.shift();
+        this.journalRemove([update.journalId]);
+        this.notifyPendingSyncChange();
       } else {
         // Schedule retry with exponential backoff
         logger.debug(`[SupabaseService] Retry failed (${update.retryCount}/${maxRetries}), scheduling retry`);
@@ -1653,7 +1746,9 @@ class SupabaseService {
     }
 
     // Clear queue after flush
+    this.journalRemove(this.queuedQueueUpdates.map(update => update.journalId));
     this.queuedQueueUpdates = [];
+    this.notifyPendingSyncChange();
   }
 
   /**
@@ -1711,18 +1806,26 @@ class SupabaseService {
    * Queue a command for later execution when connection is restored
    */
   private queueCommand(command: SupabaseCommand): void {
+    // The same command can arrive again via the pending-commands catch-up
+    if (this.queuedCommands.some(queued => queued.command.id === command.id)) return;
+
+    // The journal is trusted on restore, so only local commands may carry a role into it
+    const queued: SupabaseCommand = { ...command, issuer_role: this.localCommandIds.has(command.id) ? 'owner' : null };
     this.queuedCommands.push({
-      command,
-      timestamp: Date.now()
+      command: queued,
+      timestamp: Date.now(),
+      journalId: this.journalAppend('command', queued)
     });
     
     // Limit queue size to prevent memory issues
     const MAX_QUEUE_SIZE = 100;
     if (this.queuedCommands.length > MAX_QUEUE_SIZE) {
-      this.queuedCommands.shift(); // Remove oldest
+      const oldest = this.queuedCommands.shift(); // Remove oldest
+      this.journalRemove([oldest?.journalId]);
     }
     
     logger.debug(`[SupabaseService] Command queued (${this.queuedCommands.length} in queue):`, command.command_type);
+    this.notifyPendingSyncChange();
   }
 
   /**
@@ -1730,19 +1833,223 @@ class SupabaseService {
    */
   private async flushQueuedCommands(): Promise<void> {
     if (this.queuedCommands.length === 0) return;
+
+    // Commands restored from the journal at startup can't run until the player registers its handlers
+    if (this.commandHandlers.size === 0) {
+      setTimeout(() => {
+        if (this.connectionStatus === 'connected') this.flushQueuedCommands();
+      }, 1000);
+      return;
+    }
     
     logger.info(`[SupabaseService] Flushing ${this.queuedCommands.length} queued commands`);
     
     // Process commands in order
-    for (const { command } of this.queuedCommands) {
+    const commands = this.queuedCommands;
+    this.queuedCommands = [];
+    for (const { command, journalId } of commands) {
       try {
         await this.processCommand(command);
       } catch (error) {
         logger.warn('[SupabaseService] Error processing queued command:', error);
       }
+      this.journalRemove([journalId]);
+      this.notifyPendingSyncChange();
     }
-    
-    this.queuedCommands = [];
+  }
+
+  /**
+   * Replay everything queued while offline: incoming commands first (in arrival order),
+   * then the latest outgoing queue update merged with the remote state
+   */
+  private async replayOfflineQueues(): Promise<void> {
+    await this.flushQueuedCommands();
+    await this.flushQueuedQueueUpdates();
+  }
+
+  // ==================== Sync Journal ====================
+
+  /**
+   * Electron journal API, or null in the browser (offline queues stay in memory there)
+   */
+  private getSyncJournal(): Window['electronAPI'] | null {
+    if (typeof window === 'undefined' || !window.electronAPI?.appendSyncJournal) return null;
+    return window.electronAPI;
+  }
+
+  /**
+   * Persist a queued item and return its journal ID
+   */
+  private journalAppend(kind: 'command' | 'queue_update', payload: SupabaseCommand | QueuedQueueUpdate): string | undefined {
+    const journal = this.getSyncJournal();
+    if (!journal) return undefined;
+
+    const id = `${kind}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    journal.appendSyncJournal({ id, kind, playerId: this.playerId, payload, timestamp: Date.now() })
+      .then(result => {
+        if (!result.success) logger.warn('[SupabaseService] Failed to journal queued item:', result.error);
+      })
+      .catch(err => logger.warn('[SupabaseService] Failed to journal queued item:', err));
+    return id;
+  }
+
+  private journalRemove(ids: Array<string | undefined>): void {
+    const journal = this.getSyncJournal();
+    const journalIds = ids.filter((id): id is string => !!id);
+    if (!journal || journalIds.length === 0) return;
+    journal.removeSyncJournalEntries(journalIds)
+      .catch(err => logger.warn('[SupabaseService] Failed to remove journal entries:', err));
+  }
+
+  /**
+   * Load the journal once per app start: processed command IDs for dedup, and this
+   * player's queued commands and queue updates for replay. Expired commands are dropped.
+   */
+  private async restoreSyncJournal(): Promise<void> {
+    const journal = this.getSyncJournal();
+    if (!journal || this.syncJournalRestored) return;
+    this.syncJournalRestored = true;
+
+    try {
+      const snapshot = await journal.loadSyncJournal();
+      snapshot.processedCommandIds.forEach(id => this.processedCommandIds.add(id));
+
+      const expired: string[] = [];
+      for (const entry of snapshot.entries) {
+        if (entry.playerId !== this.playerId) continue;
+        if (entry.kind === 'command') {
+          const command = entry.payload as SupabaseCommand;
+          if (Date.now() - new Date(command.created_at).getTime() > COMMAND_EXPIRY_MS) {
+            expired.push(entry.id);
+            continue;
+          }
+          if (command.issuer_role === 'owner') this.localCommandIds.add(command.id);
+          this.queuedCommands.push({ command, timestamp: entry.timestamp, journalId: entry.id });
+        } else if (entry.kind === 'queue_update') {
+          this.queuedQueueUpdates.push({ ...(entry.payload as QueuedQueueUpdate), journalId: entry.id });
+        }
+      }
+      this.journalRemove(expired);
+
+      if (this.queuedCommands.length > 0 || this.queuedQueueUpdates.length > 0) {
+        logger.info(`[SupabaseService] Restored ${this.queuedCommands.length} queued commands and ${this.queuedQueueUpdates.length} queued queue updates from the sync journal`);
+      }
+      this.notifyPendingSyncChange();
+    } catch (error) {
+      logger.warn('[SupabaseService] Failed to restore sync journal:', error);
+    }
+  }
+
+  /**
+   * Number of queued commands and queue updates waiting to sync
+   */
+  public getPendingSyncCount(): number {
+    return this.queuedCommands.length + this.queuedQueueUpdates.length;
+  }
+
+  /**
+   * Subscribe to the pending sync count (called immediately with the current count)
+   */
+  public onPendingSyncChange(callback: (count: number) => void): () => void {
+    this.pendingSyncCallbacks.add(callback);
+    callback(this.getPendingSyncCount());
+    return () => {
+      this.pendingSyncCallbacks.delete(callback);
+    };
+  }
+
+  private notifyPendingSyncChange(): void {
+    const count = this.getPendingSyncCount();
+    this.pendingSyncCallbacks.forEach(callback => {
+      try {
+        callback(count);
+      } catch (error) {
+        logger.warn('[SupabaseService] Error in pending sync callback:', error);
+      }
+    });
+  }
+
+  // ==================== LAN Server ====================
+  // Electron only: the main process serves kiosks and web admin over the LAN when the
+  // cloud is unreachable. Commands from LAN clients come back here and run through the
+  // same handlers, with the role of the paired device the main process resolved; state
+  // is published to the server on every syncPlayerState call.
+
+  private startLanBridge(): void {
+    const api = typeof window !== 'undefined' ? window.electronAPI : undefined;
+    if (!api?.onLanCommand || this.lanBridgeUnsubscribe) return;
+
+    this.lanBridgeUnsubscribe = api.onLanCommand(async (received) => {
+      const command = received as SupabaseCommand;
+      logger.info('[SupabaseService] 📥 Received command via LAN:', command.command_type, command.id);
+      getIOLogger().logReceived(command.issued_by === 'kiosk' ? 'web-kiosk' : 'web-admin', JSON.stringify({
+        command_type: command.command_type,
+        command_id: command.id,
+        command_data: command.command_data
+      }, null, 2), 'lan').catch(() => {});
+
+      if (!this.claimCommand(command)) {
+        api.sendLanCommandResult({ commandId: command.id, success: true });
+        return;
+      }
+      try {
+        const rejection = checkCommandPolicy(getLanCommandRole(command.issuer_role), command.command_type, this.commandPolicy);
+        const result = rejection ? { success: false, error: rejection } : await this.runCommandHandlers(command);
+        api.sendLanCommandResult({ commandId: command.id, ...result });
+      } finally {
+        this.processingCommandIds.delete(command.id);
+      }
+    });
+  }
+
+  /**
+   * Merge a state update into the player_state row served to LAN clients
+   */
+  private publishLanPlayerState(state: Parameters<SupabaseService['syncPlayerState']>[0]): void {
+    const api = typeof window !== 'undefined' ? window.electronAPI : undefined;
+    if (!api?.publishLanPlayerState) return;
+
+    const now = new Date().toISOString();
+    const update: Partial<SupabasePlayerState> = {
+      status: 'idle',
+      now_playing_video: null,
+      current_position: 0,
+      volume: 1.0,
+      active_queue: [],
+      priority_queue: [],
+      ...this.lanPlayerState,
+      kiosk_settings: this.kioskSettings,
+      player_id: this.playerId,
+      is_online: true,
+      queue_index: 0, // Index 0 is always now-playing
+      last_updated: now,
+      last_heartbeat: now
+    };
+
+    if (state.status !== undefined) {
+      update.status = state.status;
+    }
+    if (state.isPlaying !== undefined) {
+      update.status = state.isPlaying ? 'playing' : 'paused';
+    }
+    if (state.currentVideo !== undefined) {
+      update.now_playing_video = state.currentVideo ? this.videoToNowPlaying(state.currentVideo) : null;
+    }
+    if (state.currentPosition !== undefined) {
+      update.current_position = state.currentPosition;
+    }
+    if (state.volume !== undefined) {
+      update.volume = state.volume;
+    }
+    if (state.activeQueue !== undefined) {
+      update.active_queue = state.activeQueue.map(v => this.videoToQueueItem(v));
+    }
+    if (state.priorityQueue !== undefined) {
+      update.priority_queue = state.priorityQueue.map(v => this.videoToQueueItem(v));
+    }
+
+    this.lanPlayerState = update;
+    api.publishLanPlayerState(update);
   }
 
   /**
@@ -1821,8 +2128,9 @@ class SupabaseService {
   /**
    * Process a single command with deduplication
    * Ensures each command is only processed ONCE, even if received via both Broadcast and polling
+   * @returns The handler result - a duplicate counts as success, a command queued while offline does not
    */
-  private async processCommand(command: SupabaseCommand): Promise<void> {
+  private async processCommand(command: SupabaseCommand): Promise<{ success: boolean; error?: string }> {
     // Log connection status for debugging
     logger.info(`[SupabaseService] Processing command ${command.id} - connection status: ${this.connectionStatus}`);
     console.log(`[SupabaseService] Processing command ${command.id} - connection status: ${this.connectionStatus}`);
@@ -1835,35 +2143,137 @@ class SupabaseService {
       logger.warn(`[SupabaseService] Connection status is ${this.connectionStatus} and Broadcast not SUBSCRIBED - queuing command`);
       console.warn(`[SupabaseService] Connection status is ${this.connectionStatus} - queuing command`);
       this.queueCommand(command);
-      return;
+      return { success: false, error: 'Queued until the connection is back' };
     }
     
     // If we got here via Broadcast, we're connected - process immediately
     logger.info(`[SupabaseService] Connection OK - processing command immediately`);
     console.log(`[SupabaseService] Connection OK - processing command immediately`);
     
+    if (!this.claimCommand(command)) {
+      return { success: true };
+    }
+    
+    try {
+      const authorized = await this.authorizeCommand(command);
+      const result = 'error' in authorized
+        ? { success: false, error: authorized.error }
+        : await this.runCommandHandlers(authorized.command);
+      // Mark command as executed in database (await to ensure acknowledgment)
+      await this.markCommandExecuted(command.id, result.success, result.error);
+      if (result.success) {
+        logger.info(`[SupabaseService] ✅ Command ${command.id} marked as executed`);
+        console.log(`[SupabaseService] ✅ Command ${command.id} marked as executed`);
+      }
+      return result;
+    } finally {
+      // Remove from processing set (but keep in processed set to prevent re-execution)
+      this.processingCommandIds.delete(command.id);
+    }
+  }
+
+  /**
+   * Replace the role -> allowed commands policy (saved in the player's settings)
+   */
+  public setCommandPolicy(policy: CommandPolicy): void {
+    this.commandPolicy = policy;
+  }
+
+  /**
+   * Check who sent a command against the command policy
+   * The role, and the command itself, come from the stored admin_commands row, where the
+   * database resolved the role from the sender's login or device token - never from the
+   * broadcast message, which anyone can forge. Only pending, unexpired rows run, so an old
+   * command ID broadcast again is not replayed.
+   * @returns The command to run (as stored), or the rejection reason
+   */
+  private async authorizeCommand(command: SupabaseCommand): Promise<{ command: SupabaseCommand } | { error: string }> {
+    let role: CommandRole;
+    let authorized: SupabaseCommand;
+    if (this.localCommandIds.delete(command.id)) {
+      role = 'owner';
+      authorized = command;
+    } else {
+      const stored = await this.getStoredCommand(command.id);
+      if (!stored || !stored.issuer_role || stored.player_id !== this.playerId) {
+        logger.warn(`[SupabaseService] 🚫 Could not verify the sender of ${command.command_type} (${command.id})`);
+        return { error: 'Not authorized: the command could not be verified' };
+      }
+      if (stored.status !== 'pending' || Date.now() - new Date(stored.created_at).getTime() > COMMAND_EXPIRY_MS) {
+        logger.warn(`[SupabaseService] 🚫 Ignoring ${stored.command_type} (${command.id}) - ${stored.status === 'pending' ? 'expired' : `already ${stored.status}`}`);
+        return { error: 'Not authorized: the command was already handled or has expired' };
+      }
+      role = stored.issuer_role;
+      authorized = {
+        ...command,
+        command_type: stored.command_type,
+        command_data: stored.command_data,
+        player_id: stored.player_id,
+        issuer_role: stored.issuer_role,
+        issuer_id: stored.issuer_id ?? null
+      };
+    }
+
+    const rejection = checkCommandPolicy(role, authorized.command_type, this.commandPolicy);
+    if (rejection) {
+      logger.warn(`[SupabaseService] 🚫 Rejected ${authorized.command_type} (${command.id}) from ${role} (${command.issued_by})`);
+      return { error: rejection };
+    }
+    return { command: authorized };
+  }
+
+  private async getStoredCommand(commandId: string): Promise<StoredCommand | null> {
+    if (!this.client) return null;
+
+    const { data, error } = await this.client
+      .from('admin_commands')
+      .select('command_type, command_data, player_id, issuer_role, issuer_id, status, created_at')
+      .eq('id', commandId)
+      .maybeSingle();
+
+    if (error) {
+      logger.warn('[SupabaseService] Failed to look up command:', error.message);
+      return null;
+    }
+    return data as StoredCommand | null;
+  }
+
+  /**
+   * Mark a command as processing/processed before it runs
+   * @returns false if it already ran or is running (Broadcast + polling + LAN races)
+   */
+  private claimCommand(command: SupabaseCommand): boolean {
     // CRITICAL: Check if command was already processed to prevent duplicate execution
     if (this.processedCommandIds.has(command.id)) {
       // Silent skip - already processed (this can happen via Broadcast + polling race)
-      return;
+      return false;
     }
     
     // Check if command is currently being processed (prevent concurrent execution)
     if (this.processingCommandIds.has(command.id)) {
       // Silent skip - currently processing
-      return;
+      return false;
     }
     
     // Mark as being processed BEFORE executing to prevent race conditions
     this.processingCommandIds.add(command.id);
     this.processedCommandIds.add(command.id);
+    this.getSyncJournal()?.markSyncJournalProcessed([command.id])
+      .catch(err => logger.warn('[SupabaseService] Failed to journal processed command:', err));
     
     // Prevent memory leak - keep only last 500 command IDs
     if (this.processedCommandIds.size > 1000) {
       const idsArray = Array.from(this.processedCommandIds);
       this.processedCommandIds = new Set(idsArray.slice(-500));
     }
-    
+    return true;
+  }
+
+  /**
+   * Run the registered handler for a command
+   * Handlers reject commands by throwing - the message is shown to the sender (e.g. kiosk request rules)
+   */
+  private async runCommandHandlers(command: SupabaseCommand): Promise<{ success: boolean; error?: string }> {
     const handlers = this.commandHandlers.get(command.command_type as CommandType);
     
     logger.info(`[SupabaseService] 🔍 Looking for handlers for command type: ${command.command_type}`);
@@ -1882,22 +2292,15 @@ class SupabaseService {
         await handlers[0](command);
         logger.info(`[SupabaseService] ✅ Command executed: ${command.command_type}`);
         console.log(`[SupabaseService] ✅ Command executed: ${command.command_type}`);
-        // Mark command as executed in database (await to ensure acknowledgment)
-        await this.markCommandExecuted(command.id, true);
-        logger.info(`[SupabaseService] ✅ Command ${command.id} marked as executed`);
-        console.log(`[SupabaseService] ✅ Command ${command.id} marked as executed`);
-      } else {
-        logger.warn(`[SupabaseService] ⚠️ No handler for command type: ${command.command_type}`);
-        logger.warn(`[SupabaseService] Available handlers:`, Array.from(this.commandHandlers.keys()));
-        // Still acknowledge the command to prevent timeout, even if no handler
-        await this.markCommandExecuted(command.id, false, `No handler registered for command type: ${command.command_type}`);
+        return { success: true };
       }
+      logger.warn(`[SupabaseService] ⚠️ No handler for command type: ${command.command_type}`);
+      logger.warn(`[SupabaseService] Available handlers:`, Array.from(this.commandHandlers.keys()));
+      // Still acknowledge the command to prevent timeout, even if no handler
+      return { success: false, error: `No handler registered for command type: ${command.command_type}` };
     } catch (error) {
       logger.error(`[SupabaseService] ❌ Error processing command ${command.id}:`, error);
-      await this.markCommandExecuted(command.id, false, String(error));
-    } finally {
-      // Remove from processing set (but keep in processed set to prevent re-execution)
-      this.processingCommandIds.delete(command.id);
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
     }
   }
 
@@ -2073,6 +2476,57 @@ class SupabaseService {
     return { success: true, commandId };
   }
 
+  /**
+   * Execute a command that originates on this machine (e.g. the coin acceptor)
+   * Persists it to admin_commands for the audit trail, then runs it through the
+   * normal handler pipeline. While offline it is queued like any remote command.
+   */
+  public async executeLocalCommand(
+    commandType: CommandType,
+    payload: CommandPayload,
+    source: string
+  ): Promise<{ success: boolean; commandId?: string; error?: string }> {
+    if (!this.client) {
+      logger.warn('[SupabaseService] Cannot execute local command - not initialized');
+      return { success: false, error: 'Not initialized' };
+    }
+
+    const now = new Date().toISOString();
+    const command: SupabaseCommand = {
+      id: crypto.randomUUID(),
+      player_id: this.playerId,
+      command_type: commandType,
+      command_data: payload,
+      issued_by: source,
+      issued_at: now,
+      executed_at: null,
+      status: 'pending',
+      execution_result: null,
+      created_at: now
+    };
+
+    const { error } = await this.client
+      .from('admin_commands')
+      .insert({
+        id: command.id,
+        player_id: command.player_id,
+        command_type: commandType,
+        command_data: payload,
+        issued_by: source,
+        status: 'pending',
+        issued_at: now
+      });
+
+    if (error) {
+      // Non-fatal - the command still runs locally, it just has no audit row
+      logger.warn(`[SupabaseService] Could not persist local command ${commandType}:`, error.message);
+    }
+
+    this.localCommandIds.add(command.id);
+    const result = await this.processCommand(command);
+    return { ...result, commandId: command.id };
+  }
+
   /**
    * Get the current player ID
    */
@@ -2080,102 +2534,431 @@ class SupabaseService {
     return this.playerId;
   }
 
-  // ==================== Heartbeat ====================
+  // ==================== Kiosk Credits ====================
 
   /**
-   * Start the heartbeat interval
+   * Apply a kiosk credit ledger entry via the player_kiosk_credit_apply RPC
+   * Throws on failure so the originating command is marked failed
+   * A deposit with a commandId is applied once - retrying it returns the current balance
+   * @returns The kiosk balance after the entry
    */
-  private startHeartbeat(): void {
-    this.heartbeatInterval = setInterval(async () => {
-      await this.sendHeartbeat();
-    }, HEARTBEAT_INTERVAL);
+  public async applyKioskCredits(
+    kioskId: string = DEFAULT_KIOSK_ID,
+    entryType: KioskCreditEntryType,
+    amount: number = 0,
+    source: string = 'electron-player',
+    commandId?: string
+  ): Promise<number> {
+    const { balance } = await this.callKioskCreditRpc(kioskId, entryType, amount, source, { commandId });
+    return balance;
+  }
 
-    // Send initial heartbeat
-    this.sendHeartbeat();
+  /**
+   * Charge a kiosk for a request before it is queued
+   * Charging the same command again returns the original spend, so a re-delivered command is free.
+   * @returns The spend entry
+   */
+  public async chargeKioskRequest(kioskId: string, cost: number, commandId: string, note?: string): Promise<string> {
+    const { entryId } = await this.callKioskCreditRpc(kioskId, 'spend', cost, 'kiosk', { commandId, note });
+    if (!entryId) {
+      throw new Error('Could not charge credits');
+    }
+    return entryId;
   }
 
   /**
-   * Send a heartbeat to update last_heartbeat timestamp
-   * Uses RPC function for efficiency, falls back to direct update if RPC not available
+   * Give a kiosk back what a request was charged, when the request leaves the queue without playing
+   * Refunds are keyed on the request's command like the charge, so refunding it again changes nothing.
+   * @returns The kiosk balance after the refund
    */
-  private async sendHeartbeat(): Promise<void> {
-    if (!this.client || !this.playerId) return;
+  public async refundKioskRequest(kioskId: string, commandId: string, note?: string): Promise<number> {
+    const { balance } = await this.callKioskCreditRpc(kioskId, 'refund', 0, 'electron-player', { commandId, note });
+    return balance;
+  }
 
-    // Try RPC function first (if it exists), otherwise use direct update
-    // RPC function may not exist in all database instances, so we always have a fallback
-    try {
-      const { error: rpcError } = await this.client.rpc('update_player_heartbeat', {
-        p_player_id: this.playerId
-      });
+  // Only the player writes to the ledger - the RPC checks the player key
+  private async callKioskCreditRpc(
+    kioskId: string,
+    entryType: KioskCreditEntryType,
+    amount: number,
+    source: string,
+    extra: { note?: string; commandId?: string } = {}
+  ): Promise<{ entryId: string | null; balance: number }> {
+    if (!this.client || !this.playerKey) {
+      throw new Error('Supabase client not initialized');
+    }
 
-      if (rpcError) {
-        // If RPC function doesn't exist (404/PGRST404), fall back to direct update
-        // Suppress 404 errors in logs as they're expected if RPC not deployed
-        if (rpcError.code === 'PGRST404' || rpcError.message?.includes('404')) {
-          // RPC function not found, use fallback (silent - expected behavior)
-          await this.fallbackHeartbeatUpdate();
-        } else {
-          // Other RPC errors should be logged
-          logger.warn('[SupabaseService] Heartbeat RPC error (falling back to direct update):', rpcError.message);
-          await this.fallbackHeartbeatUpdate();
-        }
-      }
-      // RPC succeeded, no need for fallback
-    } catch (error: any) {
-      // Network errors, etc. - fall back to direct update
-      if (error?.code === 'PGRST404' || error?.message?.includes('404')) {
-        // Suppress 404 errors (RPC not deployed)
-        await this.fallbackHeartbeatUpdate();
-      } else {
-        logger.warn('[SupabaseService] Heartbeat RPC exception (falling back):', error instanceof Error ? error.message : error);
-        await this.fallbackHeartbeatUpdate();
+    const { data, error } = await this.client.rpc('player_kiosk_credit_apply', {
+      p_player_id: this.playerId,
+      p_player_key: this.playerKey,
+      p_kiosk_id: kioskId || DEFAULT_KIOSK_ID,
+      p_entry_type: entryType,
+      p_amount: amount,
+      p_source: source,
+      p_related_entry_id: null,
+      p_note: extra.note ?? null,
+      p_command_id: extra.commandId ?? null
+    });
+
+    if (error) {
+      logger.error(`[SupabaseService] ❌ Kiosk credit ${entryType} failed:`, error.message);
+      if (error.message.includes('INSUFFICIENT_CREDITS')) {
+        throw new Error('Not enough credits');
       }
+      throw new Error(error.message.includes('INVALID_PLAYER_KEY')
+        ? `This machine is not registered for player ${this.playerId} - credits are unavailable until its owner registers it`
+        : error.message);
     }
+
+    const row = Array.isArray(data) ? data[0] : data;
+    const balance = row?.balance ?? 0;
+    logger.info(`[SupabaseService] 💰 Kiosk ${kioskId} ${entryType} (${amount}) - balance now ${balance}`);
+    return { entryId: row?.entry_id ?? null, balance };
   }
 
   /**
-   * Fallback heartbeat update using direct UPDATE
+   * Get the current credit balance for one of this player's kiosks
    */
-  private async fallbackHeartbeatUpdate(): Promise<void> {
-    if (!this.client || !this.playerId) return;
+  public async getKioskCredits(kioskId: string = DEFAULT_KIOSK_ID): Promise<number> {
+    if (!this.client) return 0;
 
-    if (this.playerStateId) {
-      // Use direct update by ID
-      const { error: updateError } = await this.client
-        .from('player_state')
-        .update({
-          last_heartbeat: new Date().toISOString(),
-          is_online: true
-        })
-        .eq('id', this.playerStateId);
-      
-      if (updateError) {
-        logger.warn('[SupabaseService] Heartbeat update failed:', updateError);
-      }
-    } else {
-      // Fallback: update by player_id if playerStateId not set
-      const { error: updateError } = await this.client
-        .from('player_state')
-        .update({
-          last_heartbeat: new Date().toISOString(),
-          is_online: true
-        })
-        .eq('player_id', this.playerId);
-      
-      if (updateError) {
-        logger.warn('[SupabaseService] Heartbeat update by player_id failed:', updateError);
-      }
+    const { data, error } = await this.client
+      .from('kiosk_credit_balances')
+      .select('balance')
+      .eq('player_id', this.playerId)
+      .eq('kiosk_id', kioskId)
+      .maybeSingle();
+
+    if (error) {
+      logger.warn('[SupabaseService] Error fetching kiosk credits:', error.message);
+      return 0;
     }
-  }
 
-  // ==================== Local Video Indexing ====================
+    return data?.balance ?? 0;
+  }
 
   /**
-   * Check if database schema is correct by testing if file_path column exists
+   * Subscribe to balance changes for all of this player's kiosks
+   * The realtime channel is opened with the first subscriber
    */
-  private async checkSchema(): Promise<boolean> {
-    if (!this.client) return false;
-
+  public onKioskCreditsChange(callback: (kioskId: string, balance: number) => void): () => void {
+    this.kioskCreditCallbacks.add(callback);
+
+    if (!this.kioskCreditsChannel && this.client) {
+      this.kioskCreditsChannel = this.client
+        .channel(`kiosk-credits:${this.playerId}`)
+        .on(
+          'postgres_changes',
+          {
+            event: '*',
+            schema: 'public',
+            table: 'kiosk_credit_balances',
+            filter: `player_id=eq.${this.playerId}`
+          },
+          (payload) => {
+            const row = payload.new as Partial<KioskCreditBalance> | null;
+            if (!row?.kiosk_id || typeof row.balance !== 'number') return;
+            this.kioskCreditCallbacks.forEach(cb => {
+              try {
+                cb(row.kiosk_id as string, row.balance as number);
+              } catch (error) {
+                logger.error('[SupabaseService] Error in kiosk credits callback:', error);
+              }
+            });
+          }
+        )
+        .subscribe();
+    }
+
+    return () => {
+      this.kioskCreditCallbacks.delete(callback);
+    };
+  }
+
+  // ==================== Device Pairing ====================
+
+  /**
+   * Set the secret this player presents to the pairing RPCs (saved in the player's settings)
+   * It only works once the player's owner has registered it (registerPlayerKey).
+   */
+  public setPlayerKey(key: string): void {
+    this.playerKey = key;
+  }
+
+  /**
+   * Register this machine's key for the player ID, signed in as the player's owner
+   * The sign-in uses a throwaway client, so the player's own connection stays anonymous.
+   */
+  public async registerPlayerKey(email: string, password: string): Promise<void> {
+    if (!this.playerKey) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const ownerClient = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+      auth: { persistSession: false, autoRefreshToken: false }
+    });
+
+    const { error: signInError } = await ownerClient.auth.signInWithPassword({ email: email.trim(), password });
+    if (signInError) {
+      throw new Error(signInError.message);
+    }
+
+    try {
+      const { error } = await ownerClient.rpc('register_player_key', {
+        p_player_id: this.playerId,
+        p_player_key: this.playerKey
+      });
+      if (error) {
+        logger.error('[SupabaseService] ❌ register_player_key failed:', error.message);
+        throw new Error(error.message.includes('NOT_PLAYER_OWNER')
+          ? `${email.trim()} is not an owner of player ${this.playerId}`
+          : error.message);
+      }
+      logger.info(`[SupabaseService] 🔗 Registered this machine for player ${this.playerId}`);
+    } finally {
+      await ownerClient.auth.signOut();
+    }
+  }
+
+  private async callPairingRpc<T>(fn: string, params: Record<string, unknown> = {}): Promise<T> {
+    if (!this.client || !this.playerKey) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const { data, error } = await this.client.rpc(fn, {
+      p_player_id: this.playerId,
+      p_player_key: this.playerKey,
+      ...params
+    });
+
+    if (error) {
+      logger.error(`[SupabaseService] ❌ ${fn} failed:`, error.message);
+      throw new Error(error.message.includes('INVALID_PLAYER_KEY')
+        ? `This machine is not registered for player ${this.playerId} - sign in as its owner to register it`
+        : error.message);
+    }
+
+    return data as T;
+  }
+
+  /**
+   * Create a one-time code a kiosk (or an admin browser, as staff) enters to pair with this player
+   */
+  public async createPairingCode(role: KioskDeviceRole = 'kiosk'): Promise<KioskPairingCode> {
+    const data = await this.callPairingRpc<KioskPairingCode[]>('create_kiosk_pairing_code', { p_role: role });
+    logger.info(`[SupabaseService] 🔗 Pairing code created for a ${role} device`);
+    return data[0];
+  }
+
+  /**
+   * Get the devices paired with this player, revoked ones last
+   */
+  public async getKioskDevices(): Promise<KioskDevice[]> {
+    return (await this.callPairingRpc<KioskDevice[] | null>('list_kiosk_devices')) || [];
+  }
+
+  public async renameKioskDevice(deviceId: string, name: string): Promise<void> {
+    await this.callPairingRpc('rename_kiosk_device', { p_device_id: deviceId, p_name: name });
+  }
+
+  /**
+   * Revoke a paired device - its token stops working immediately and its commands run as a guest's
+   */
+  public async revokeKioskDevice(deviceId: string): Promise<void> {
+    await this.callPairingRpc('revoke_kiosk_device', { p_device_id: deviceId });
+    logger.info(`[SupabaseService] 🔗 Revoked paired device ${deviceId}`);
+  }
+
+  // ==================== Heartbeat ====================
+
+  /**
+   * Start the heartbeat interval
+   */
+  private startHeartbeat(): void {
+    this.heartbeatInterval = setInterval(async () => {
+      await this.sendHeartbeat();
+      await this.publishHealth();
+      await this.publishKioskSettings();
+    }, HEARTBEAT_INTERVAL);
+
+    // Send initial heartbeat
+    this.sendHeartbeat().then(() => this.publishHealth()).then(() => this.publishKioskSettings());
+  }
+
+  /**
+   * Send a heartbeat to update last_heartbeat timestamp
+   * Uses RPC function for efficiency, falls back to direct update if RPC not available
+   */
+  private async sendHeartbeat(): Promise<void> {
+    if (!this.client || !this.playerId) return;
+
+    // Try RPC function first (if it exists), otherwise use direct update
+    // RPC function may not exist in all database instances, so we always have a fallback
+    try {
+      const { error: rpcError } = await this.client.rpc('update_player_heartbeat', {
+        p_player_id: this.playerId
+      });
+
+      if (rpcError) {
+        // If RPC function doesn't exist (404/PGRST404), fall back to direct update
+        // Suppress 404 errors in logs as they're expected if RPC not deployed
+        if (rpcError.code === 'PGRST404' || rpcError.message?.includes('404')) {
+          // RPC function not found, use fallback (silent - expected behavior)
+          await this.fallbackHeartbeatUpdate();
+        } else {
+          // Other RPC errors should be logged
+          logger.warn('[SupabaseService] Heartbeat RPC error (falling back to direct update):', rpcError.message);
+          await this.fallbackHeartbeatUpdate();
+        }
+      }
+      // RPC succeeded, no need for fallback
+    } catch (error: any) {
+      // Network errors, etc. - fall back to direct update
+      if (error?.code === 'PGRST404' || error?.message?.includes('404')) {
+        // Suppress 404 errors (RPC not deployed)
+        await this.fallbackHeartbeatUpdate();
+      } else {
+        logger.warn('[SupabaseService] Heartbeat RPC exception (falling back):', error instanceof Error ? error.message : error);
+        await this.fallbackHeartbeatUpdate();
+      }
+    }
+  }
+
+  /**
+   * Fallback heartbeat update using direct UPDATE
+   */
+  private async fallbackHeartbeatUpdate(): Promise<void> {
+    if (!this.client || !this.playerId) return;
+
+    if (this.playerStateId) {
+      // Use direct update by ID
+      const { error: updateError } = await this.client
+        .from('player_state')
+        .update({
+          last_heartbeat: new Date().toISOString(),
+          is_online: true
+        })
+        .eq('id', this.playerStateId);
+      
+      if (updateError) {
+        logger.warn('[SupabaseService] Heartbeat update failed:', updateError);
+      }
+    } else {
+      // Fallback: update by player_id if playerStateId not set
+      const { error: updateError } = await this.client
+        .from('player_state')
+        .update({
+          last_heartbeat: new Date().toISOString(),
+          is_online: true
+        })
+        .eq('player_id', this.playerId);
+      
+      if (updateError) {
+        logger.warn('[SupabaseService] Heartbeat update by player_id failed:', updateError);
+      }
+    }
+  }
+
+  // ==================== Player Health ====================
+
+  /**
+   * Set the app version reported to the fleet dashboard
+   */
+  public setAppVersion(version: string): void {
+    if (version === this.appVersion) return;
+    this.appVersion = version;
+    this.healthDirty = true;
+  }
+
+  /**
+   * Count a playback error (a file that failed to play) - reported with the next heartbeat
+   */
+  public recordError(message: string): void {
+    this.errorCount++;
+    this.lastError = { message: message.slice(0, 500), at: new Date().toISOString() };
+    this.healthDirty = true;
+  }
+
+  /**
+   * Write version and error counts to player_state if they changed since the last heartbeat
+   */
+  private async publishHealth(): Promise<void> {
+    if (!this.client || !this.playerId || !this.healthDirty || this.healthColumnsMissing) return;
+    this.healthDirty = false;
+
+    const query = this.client
+      .from('player_state')
+      .update({
+        app_version: this.appVersion,
+        error_count: this.errorCount,
+        last_error: this.lastError?.message ?? null,
+        last_error_at: this.lastError?.at ?? null
+      });
+    const { error } = this.playerStateId
+      ? await query.eq('id', this.playerStateId)
+      : await query.eq('player_id', this.playerId);
+
+    if (error) {
+      // Columns come with the fleet dashboard migration - stop trying on databases without it
+      if (error.code === 'PGRST204' || error.code === '42703') {
+        this.healthColumnsMissing = true;
+        logger.info('[SupabaseService] player_state has no health columns - not reporting health');
+      } else {
+        this.healthDirty = true;
+        logger.warn('[SupabaseService] Health update failed:', error.message);
+      }
+    }
+  }
+
+  // ==================== Kiosk Settings ====================
+
+  /**
+   * Set the kiosk mode and price kiosks show - published now and retried with the heartbeat
+   */
+  public setKioskSettings(settings: KioskPlaySettings): void {
+    if (isEqual(settings, this.kioskSettings)) return;
+    this.kioskSettings = settings;
+    this.kioskSettingsDirty = true;
+    if (this.lanPlayerState) {
+      this.publishLanPlayerState({});
+    }
+    this.publishKioskSettings();
+  }
+
+  /**
+   * Write the kiosk settings to player_state if they changed since they were last written
+   */
+  private async publishKioskSettings(): Promise<void> {
+    if (!this.client || !this.playerId || !this.kioskSettingsDirty || this.kioskSettingsColumnMissing) return;
+    this.kioskSettingsDirty = false;
+
+    const query = this.client
+      .from('player_state')
+      .update({ kiosk_settings: this.kioskSettings });
+    const { error } = this.playerStateId
+      ? await query.eq('id', this.playerStateId)
+      : await query.eq('player_id', this.playerId);
+
+    if (error) {
+      // Column comes with the kiosk settings migration - kiosks stay on free play without it
+      if (error.code === 'PGRST204' || error.code === '42703') {
+        this.kioskSettingsColumnMissing = true;
+        logger.info('[SupabaseService] player_state has no kiosk_settings column - kiosks will show free play');
+      } else {
+        this.kioskSettingsDirty = true;
+        logger.warn('[SupabaseService] Kiosk settings update failed:', error.message);
+      }
+    }
+  }
+
+  // ==================== Local Video Indexing ====================
+
+  /**
+   * Check if database schema is correct by testing if file_path column exists
+   */
+  private async checkSchema(): Promise<boolean> {
+    if (!this.client) return false;
+
     try {
       // Try to select file_path column - if it doesn't exist, we'll get PGRST204
       const { error: testError } = await this.client
@@ -2395,59 +3178,10 @@ class SupabaseService {
             return null; // Will be filtered out
           }
           
-          // Extract playlist from file path if not provided in video object
-          let playlistName = video.playlist;
-          if (!playlistName && filePath) {
-            // Match playlist folder name (PLxxxxxx.PlaylistName or PLxxxxxx_PlaylistName)
-            const match = filePath.match(/PLAYLISTS\/([^/]+)\//);
-            if (match) {
-              playlistName = match[1];
-            }
-          }
-          
-          const record: any = {
-            player_id: this.playerId,
-            title: video.title,
-            artist: video.artist || null,
-            file_path: filePath,
-            filename: video.filename || filePath.split('/').pop() || 'unknown',
-            duration: video.duration || null,
-            is_available: true,
-            file_hash: fileHash || null // Include hash in record
-          };
-          
-          // Always include metadata (column should exist after running SQL)
-          // Ensure playlist is always set (extract from path if needed)
-          record.metadata = {
-            sourceType: 'local',
-            playlist: playlistName || 'Unknown',
-            playlistDisplayName: video.playlistDisplayName || playlistName || 'Unknown',
-            filename: video.filename
-          };
-          
-          // Include 'path' column for backward compatibility if database has it
-          // Only include if column exists (checked during schema validation)
-          if (this.pathColumnExists !== false) {
-            record.path = filePath;
-          }
-          
-          return record;
+          return this.toLocalVideoRecord(video);
         })
         .filter((record): record is any => record !== null); // Remove nulls (unchanged videos)
       
-      // If we know columns don't exist, remove them from all records now
-      if (this.metadataColumnExists === false) {
-        for (const record of localVideoRecords) {
-          delete record.metadata;
-        }
-      }
-      
-      if (this.pathColumnExists === false) {
-        for (const record of localVideoRecords) {
-          delete record.path;
-        }
-      }
-
       const changedCount = localVideoRecords.length;
       const unchangedCount = allVideos.length - changedCount;
       
@@ -2576,6 +3310,187 @@ class SupabaseService {
     }
   }
 
+  /**
+   * A local_videos row for a library video (columns known to be missing are left out)
+   */
+  private toLocalVideoRecord(video: Video): any {
+    const filePath = video.path || video.file_path || video.src;
+    const fileHash = video.fileHash || null;
+
+    // Extract playlist from file path if not provided in video object
+    let playlistName = video.playlist;
+    if (!playlistName && filePath) {
+      // Match playlist folder name (PLxxxxxx.PlaylistName or PLxxxxxx_PlaylistName)
+      const match = filePath.match(/PLAYLISTS\/([^/]+)\//);
+      if (match) {
+        playlistName = match[1];
+      }
+    }
+    
+    const record: any = {
+      player_id: this.playerId,
+      title: video.title,
+      artist: video.artist || null,
+      file_path: filePath,
+      filename: video.filename || filePath.split('/').pop() || 'unknown',
+      album: video.album || null,
+      duration: video.duration ? Math.round(video.duration) : null, // INTEGER column
+      resolution: video.resolution || null,
+      codec: video.codec || null,
+      bitrate: video.bitrate || null,
+      fps: video.fps || null,
+      is_available: true,
+      file_hash: fileHash || null // Include hash in record
+    };
+    
+    // Always include metadata (column should exist after running SQL)
+    // Ensure playlist is always set (extract from path if needed)
+    record.metadata = {
+      sourceType: 'local',
+      playlist: playlistName || 'Unknown',
+      playlistDisplayName: video.playlistDisplayName || playlistName || 'Unknown',
+      filename: video.filename
+    };
+    if (video.libraryRoot) {
+      record.metadata.libraryRoot = video.libraryRoot;
+    }
+    
+    // Container tags without a column of their own, and where each field came from
+    if (video.year) {
+      record.metadata.year = video.year;
+    }
+    if (video.genre) {
+      record.metadata.genre = video.genre;
+    }
+    if (video.metadataSources) {
+      record.metadata.metadataSources = video.metadataSources;
+    }
+    
+    // Cue points (seconds) and loudness once the player has analyzed the file
+    if (typeof video.cueIn === 'number' && typeof video.cueOut === 'number') {
+      record.metadata.cueIn = video.cueIn;
+      record.metadata.cueOut = video.cueOut;
+    }
+    if (typeof video.integratedLufs === 'number') {
+      record.metadata.integratedLufs = video.integratedLufs;
+      record.metadata.truePeakDb = video.truePeakDb ?? null;
+    }
+    if (video.gainTrimDb) {
+      record.metadata.gainTrimDb = video.gainTrimDb;
+    }
+    // Tempo and key once the library analysis job has covered the file
+    if (typeof video.bpm === 'number') {
+      record.metadata.bpm = video.bpm;
+    }
+    if (video.camelotKey) {
+      record.metadata.musicalKey = video.musicalKey;
+      record.metadata.camelotKey = video.camelotKey;
+    }
+    
+    // Include 'path' column for backward compatibility if database has it
+    // Only include if column exists (checked during schema validation)
+    if (this.pathColumnExists !== false) {
+      record.path = filePath;
+    }
+
+    // Dropped if an earlier upsert found the column missing
+    if (this.metadataColumnExists === false) {
+      delete record.metadata;
+    }
+    return record;
+  }
+
+  /**
+   * Upsert just these videos (no count check or hash skip) - for files the library
+   * watcher or metadata extraction reported
+   * @returns Number of rows upserted
+   */
+  public async upsertLocalVideos(videos: Video[]): Promise<number> {
+    if (!this.client || !this.playerId || videos.length === 0) return 0;
+
+    const records = videos.map(video => this.toLocalVideoRecord(video));
+    const { error } = await this.client
+      .from('local_videos')
+      .upsert(records, { onConflict: 'player_id,file_path' });
+
+    if (error) {
+      logger.error('[SupabaseService] Error upserting changed videos:', error);
+      return 0;
+    }
+    return records.length;
+  }
+
+  /**
+   * Sync a library watcher diff: upsert added/modified/renamed rows, mark removed and
+   * renamed-away paths unavailable, and log each change to library_changes for the admin feed
+   * @param playlists - The library after the change (get-playlists), for the changed videos' metadata
+   */
+  public async applyLibraryChanges(changes: LibraryChanges, playlists: Record<string, Video[]>): Promise<void> {
+    if (!this.client || !this.playerId) return;
+
+    const videosByPath = new Map<string, Video>();
+    for (const videos of Object.values(playlists)) {
+      for (const video of videos) {
+        const filePath = video.path || video.file_path || video.src;
+        if (filePath) videosByPath.set(filePath, video);
+      }
+    }
+
+    const changed = [...changes.added, ...changes.modified, ...changes.renamed.map(rename => rename.to)];
+    const upserted = await this.upsertLocalVideos(
+      changed.map(change => videosByPath.get(change.filePath)).filter((video): video is Video => !!video)
+    );
+    const gone = [...changes.removed, ...changes.renamed.map(rename => rename.from)];
+    for (const change of gone) {
+      await this.markVideoUnavailable(change.filePath);
+    }
+    logger.info(`[SupabaseService] Library changes synced: ${upserted} upserted, ${gone.length} marked unavailable`);
+
+    const toEntry = (changeType: LibraryChangeType, change: LibraryFileChange, previous?: LibraryFileChange) => {
+      const video = videosByPath.get(change.filePath);
+      return {
+        player_id: this.playerId,
+        change_type: changeType,
+        file_path: change.filePath,
+        previous_path: previous?.filePath ?? null,
+        title: video?.title || change.file,
+        artist: video?.artist || null,
+        playlist: change.playlist,
+        detected_at: changes.detectedAt
+      };
+    };
+    const entries = [
+      ...changes.added.map(change => toEntry('added', change)),
+      ...changes.removed.map(change => toEntry('removed', change)),
+      ...changes.modified.map(change => toEntry('modified', change)),
+      ...changes.renamed.map(rename => toEntry('renamed', rename.to, rename.from))
+    ];
+    const { error } = await this.client.from('library_changes').insert(entries);
+    if (error) {
+      logger.warn('[SupabaseService] Could not log library changes:', error.message);
+    }
+  }
+
+  /**
+   * Recent library changes for the admin feed, newest first
+   */
+  public async getRecentLibraryChanges(limit = 50): Promise<LibraryChangeEntry[]> {
+    if (!this.client || !this.playerId) return [];
+
+    const { data, error } = await this.client
+      .from('library_changes')
+      .select('*')
+      .eq('player_id', this.playerId)
+      .order('detected_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      logger.error('[SupabaseService] Error fetching library changes:', error);
+      return [];
+    }
+    return (data || []) as LibraryChangeEntry[];
+  }
+
   /**
    * Fix database schema by calling RPC function or providing SQL instructions
    */
@@ -2634,13 +3549,253 @@ class SupabaseService {
       .from('local_videos')
       .update({ is_available: false })
       .eq('player_id', this.playerId)
-      .eq('path', path);
+      .eq('file_path', path);
 
     if (error) {
       logger.error('[SupabaseService] Error marking video unavailable:', error);
     }
   }
 
+  // ==================== Virtual Playlists ====================
+
+  /**
+   * Mirror the player's virtual playlists to virtual_playlists (rows for playlists
+   * deleted on the player are removed) so the web admin can list and edit them
+   */
+  public async syncVirtualPlaylists(playlists: VirtualPlaylist[]): Promise<void> {
+    if (!this.client || !this.playerId) return;
+
+    if (playlists.length > 0) {
+      const { error } = await this.client
+        .from('virtual_playlists')
+        .upsert(playlists.map(playlist => ({
+          id: playlist.id,
+          player_id: this.playerId,
+          name: playlist.name,
+          video_ids: playlist.videoIds,
+          created_at: playlist.createdAt,
+          updated_at: playlist.updatedAt
+        })), { onConflict: 'player_id,id' });
+      if (error) {
+        logger.error('[SupabaseService] Error syncing virtual playlists:', error);
+        return;
+      }
+    }
+
+    let staleRows = this.client
+      .from('virtual_playlists')
+      .delete()
+      .eq('player_id', this.playerId);
+    if (playlists.length > 0) {
+      staleRows = staleRows.not('id', 'in', `(${playlists.map(playlist => `"${playlist.id}"`).join(',')})`);
+    }
+    const { error: deleteError } = await staleRows;
+    if (deleteError) {
+      logger.error('[SupabaseService] Error removing deleted virtual playlists:', deleteError);
+    }
+  }
+
+  // ==================== Smart Playlists ====================
+
+  /**
+   * Get this player's smart playlist definitions (the rules - evaluate them with evaluateSmartPlaylist)
+   */
+  public async getSmartPlaylists(): Promise<SmartPlaylist[]> {
+    if (!this.client || !this.playerId) return [];
+
+    const { data, error } = await this.client
+      .from('smart_playlists')
+      .select('*')
+      .eq('player_id', this.playerId)
+      .order('name');
+
+    if (error) {
+      logger.error('[SupabaseService] Error fetching smart playlists:', error);
+      return [];
+    }
+
+    return (data || []) as SmartPlaylist[];
+  }
+
+  /**
+   * Create (no id) or update a smart playlist
+   */
+  public async saveSmartPlaylist(playlist: SmartPlaylistInput): Promise<SmartPlaylist> {
+    if (!this.client || !this.playerId) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const name = playlist.name.trim();
+    if (!name) {
+      throw new Error('Playlist name is required');
+    }
+    const record = {
+      player_id: this.playerId,
+      name,
+      rules: playlist.rules,
+      match_mode: playlist.match_mode,
+      sort_by: playlist.sort_by,
+      max_videos: playlist.max_videos,
+      updated_at: new Date().toISOString()
+    };
+
+    const { data, error } = playlist.id
+      ? await this.client.from('smart_playlists').update(record).eq('id', playlist.id).eq('player_id', this.playerId).select().single()
+      : await this.client.from('smart_playlists').insert(record).select().single();
+
+    if (error) {
+      logger.error('[SupabaseService] Failed to save smart playlist:', error);
+      throw new Error(error.code === '23505' ? `A smart playlist named "${name}" already exists` : error.message);
+    }
+
+    return data as SmartPlaylist;
+  }
+
+  public async deleteSmartPlaylist(id: string): Promise<void> {
+    if (!this.client || !this.playerId) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const { error } = await this.client
+      .from('smart_playlists')
+      .delete()
+      .eq('id', id)
+      .eq('player_id', this.playerId);
+
+    if (error) {
+      logger.error('[SupabaseService] Failed to delete smart playlist:', error);
+      throw new Error(error.message);
+    }
+  }
+
+  /**
+   * Every available indexed video with its play stats - the rows smart playlist rules run against
+   */
+  public async getAvailableLocalVideos(): Promise<SupabaseLocalVideo[]> {
+    if (!this.client || !this.playerId) return [];
+
+    const PAGE_SIZE = 1000; // PostgREST row limit per request
+    const videos: SupabaseLocalVideo[] = [];
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data, error } = await this.client
+        .from('local_videos')
+        .select('*')
+        .eq('player_id', this.playerId)
+        .eq('is_available', true)
+        .order('id')
+        .range(offset, offset + PAGE_SIZE - 1);
+
+      if (error) {
+        logger.error('[SupabaseService] Error fetching local videos:', error);
+        break;
+      }
+      videos.push(...((data || []) as SupabaseLocalVideo[]));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+    return videos;
+  }
+
+  // ==================== Play History ====================
+
+  /**
+   * Record a play in the history log (every transition, including skips and errors)
+   * Only plays that reach the PLAY_COUNT_MIN_SECONDS threshold count towards Top Charts
+   * @returns The video's new all-time play count (null if not counted or not indexed)
+   */
+  public async recordVideoPlay(video: Video, play: PlayRecord): Promise<number | null> {
+    if (!this.client || !this.playerId || !this.playerKey) return null;
+
+    const threshold = play.duration > 0 ? Math.min(PLAY_COUNT_MIN_SECONDS, play.duration / 2) : PLAY_COUNT_MIN_SECONDS;
+    const counted = play.transitionReason !== 'error' && play.secondsPlayed >= threshold;
+    const filePath = video.path || video.file_path || video.src;
+    const endedAt = new Date().toISOString();
+
+    const { data, error } = await this.client.rpc('record_video_play', {
+      p_player_id: this.playerId,
+      p_player_key: this.playerKey,
+      p_file_path: filePath,
+      p_title: video.title,
+      p_artist: video.artist || null,
+      p_seconds_played: Math.round(play.secondsPlayed),
+      p_played_at: endedAt,
+      p_started_at: play.startedAt,
+      p_transition_reason: play.transitionReason,
+      p_from_priority: play.fromPriority,
+      p_requested_by_kiosk: video.requestedByKiosk || null,
+      p_counted: counted
+    });
+
+    if (error) {
+      logger.warn('[SupabaseService] Failed to record play:', error.message);
+      return null;
+    }
+
+    logger.debug(`[SupabaseService] Recorded ${play.transitionReason} of "${video.title}" (${Math.round(play.secondsPlayed)}s, ${counted ? `play count: ${data ?? 'not indexed'}` : 'not counted'})`);
+
+    const entry: PlayHistoryEntry = {
+      id: crypto.randomUUID(),
+      player_id: this.playerId,
+      video_id: null,
+      file_path: filePath,
+      title: video.title,
+      artist: video.artist || null,
+      seconds_played: Math.round(play.secondsPlayed),
+      started_at: play.startedAt,
+      played_at: endedAt,
+      transition_reason: play.transitionReason,
+      from_priority: play.fromPriority,
+      requested_by_kiosk: video.requestedByKiosk || null,
+      counts_toward_charts: counted
+    };
+    this.playHistoryCallbacks.forEach(cb => {
+      try {
+        cb(entry);
+      } catch (err) {
+        logger.error('[SupabaseService] Play history callback error:', err);
+      }
+    });
+
+    return counted ? (data ?? null) : null;
+  }
+
+  /**
+   * Get the most recent plays for this player, newest first
+   * @param since - Optional ISO timestamp to limit the history window
+   */
+  public async getPlayHistory(limit: number = 200, since?: string): Promise<PlayHistoryEntry[]> {
+    if (!this.client) return [];
+
+    let query = this.client
+      .from('video_plays')
+      .select('*')
+      .eq('player_id', this.playerId)
+      .order('played_at', { ascending: false })
+      .limit(limit);
+
+    if (since) {
+      query = query.gte('played_at', since);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      logger.error('[SupabaseService] Error fetching play history:', error);
+      return [];
+    }
+
+    return (data || []) as PlayHistoryEntry[];
+  }
+
+  /**
+   * Register callback for plays recorded by this player
+   * @returns Unsubscribe function
+   */
+  public onPlayRecorded(callback: (entry: PlayHistoryEntry) => void): () => void {
+    this.playHistoryCallbacks.add(callback);
+    return () => {
+      this.playHistoryCallbacks.delete(callback);
+    };
+  }
+
   // ==================== Search & Browse (PostgreSQL Full-Text Search) ====================
 
   /**
@@ -2842,6 +3997,170 @@ class SupabaseService {
     }
   }
 
+  // ==================== Content Moderation ====================
+
+  /**
+   * Get indexed videos for the moderation queue
+   * @param status - Moderation status to list ('all' for every status)
+   * @param search - Optional title/artist filter
+   */
+  public async getModerationQueue(
+    status: ContentStatus | 'all' = 'pending',
+    search: string = '',
+    limit: number = 200,
+    offset: number = 0
+  ): Promise<SupabaseLocalVideo[]> {
+    if (!this.client || !this.playerId) return [];
+
+    let query = this.client
+      .from('local_videos')
+      .select('*')
+      .eq('player_id', this.playerId)
+      .eq('is_available', true)
+      .order('title')
+      .range(offset, offset + limit - 1);
+
+    if (status !== 'all') {
+      query = query.eq('content_status', status);
+    }
+    const term = search.trim().replace(/[%_,()]/g, '');
+    if (term) {
+      query = query.or(`title.ilike.%${term}%,artist.ilike.%${term}%`);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      logger.error('[SupabaseService] Error fetching moderation queue:', error);
+      return [];
+    }
+
+    return (data || []) as SupabaseLocalVideo[];
+  }
+
+  /**
+   * Apply a moderation decision to one or more videos
+   * Fields left undefined are unchanged
+   * @returns Number of videos updated
+   */
+  public async moderateVideos(
+    videoIds: string[],
+    update: { status?: ContentStatus; notes?: string; isExplicit?: boolean }
+  ): Promise<number> {
+    if (!this.client || !this.playerKey) {
+      throw new Error('Supabase client not initialized');
+    }
+    if (videoIds.length === 0) return 0;
+
+    const { data, error } = await this.client.rpc('player_moderate_videos', {
+      p_player_id: this.playerId,
+      p_player_key: this.playerKey,
+      p_video_ids: videoIds,
+      p_status: update.status ?? null,
+      p_notes: update.notes ?? null,
+      p_is_explicit: update.isExplicit ?? null,
+      p_moderated_by: 'electron-player'
+    });
+
+    if (error) {
+      logger.error('[SupabaseService] Moderation update failed:', error);
+      throw new Error(error.message.includes('INVALID_PLAYER_KEY')
+        ? `This machine is not registered for player ${this.playerId} - sign in as its owner to register it`
+        : error.message);
+    }
+
+    logger.info(`[SupabaseService] Moderated ${data ?? 0} video(s):`, update);
+    return data ?? 0;
+  }
+
+  /**
+   * Get this player's explicit content policy (null if none has been saved)
+   */
+  public async getContentPolicy(): Promise<ContentPolicy | null> {
+    if (!this.client || !this.playerId) return null;
+
+    const { data, error } = await this.client
+      .from('content_policies')
+      .select('*')
+      .eq('player_id', this.playerId)
+      .maybeSingle();
+
+    if (error) {
+      logger.error('[SupabaseService] Error fetching content policy:', error);
+      return null;
+    }
+
+    return data as ContentPolicy | null;
+  }
+
+  /**
+   * Save this player's explicit content policy
+   */
+  public async setContentPolicy(policy: Omit<ContentPolicy, 'player_id' | 'updated_at'>): Promise<ContentPolicy> {
+    if (!this.client || !this.playerKey) {
+      throw new Error('Supabase client not initialized');
+    }
+
+    const { data, error } = await this.client.rpc('player_set_content_policy', {
+      p_player_id: this.playerId,
+      p_player_key: this.playerKey,
+      p_hide_explicit_daytime: policy.hide_explicit_daytime,
+      p_daytime_start: policy.daytime_start,
+      p_daytime_end: policy.daytime_end,
+      p_timezone: policy.timezone
+    });
+
+    if (error) {
+      logger.error('[SupabaseService] Failed to save content policy:', error);
+      throw new Error(error.message.includes('INVALID_PLAYER_KEY')
+        ? `This machine is not registered for player ${this.playerId} - sign in as its owner to register it`
+        : error.message);
+    }
+
+    return data as ContentPolicy;
+  }
+
+  /**
+   * The moderation decisions the player enforces itself (queue_add, search, smart playlists, Auto-DJ)
+   * @returns null if any part could not be read - the caller keeps its last snapshot
+   */
+  public async getModerationSnapshot(): Promise<ModerationSnapshot | null> {
+    if (!this.client || !this.playerId) return null;
+
+    const PAGE_SIZE = 1000; // PostgREST row limit per request
+    const snapshot: ModerationSnapshot = { rejected: [], explicit: [], policy: null, fetchedAt: new Date().toISOString() };
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data, error } = await this.client
+        .from('local_videos')
+        .select('id, file_path, content_status, is_explicit')
+        .eq('player_id', this.playerId)
+        .or('content_status.eq.rejected,is_explicit.eq.true')
+        .order('id')
+        .range(offset, offset + PAGE_SIZE - 1);
+
+      if (error) {
+        logger.warn('[SupabaseService] Error fetching moderation decisions:', error.message);
+        return null;
+      }
+      for (const row of data || []) {
+        if (row.content_status === 'rejected') snapshot.rejected.push(row.file_path);
+        if (row.is_explicit) snapshot.explicit.push(row.file_path);
+      }
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    const { data: policy, error: policyError } = await this.client
+      .from('content_policies')
+      .select('*')
+      .eq('player_id', this.playerId)
+      .maybeSingle();
+    if (policyError) {
+      logger.warn('[SupabaseService] Error fetching content policy:', policyError.message);
+      return null;
+    }
+    snapshot.policy = policy as ContentPolicy | null;
+    return snapshot;
+  }
+
   // ==================== Utility Methods ====================
 
   /**
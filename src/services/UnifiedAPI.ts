@@ -1,6 +1,7 @@
-import { insertCommand, subscribeToPlayerState, getPlayerState, getAllLocalVideos, searchLocalVideos } from '../../web/shared/supabase-client';
-import type { SupabasePlayerState } from '../types/supabase';
-import type { Video } from '../types';
+import { insertCommand, subscribeToPlayerState, getPlayerState, getAllLocalVideos, searchLocalVideos, getRecentLibraryChanges, subscribeToLibraryChanges, getVirtualPlaylists, subscribeToVirtualPlaylists, saveVirtualPlaylist, deleteVirtualPlaylist, signInAdmin, signOutAdmin, onAdminSessionChange, claimPairingCode, getDeviceToken, setDeviceToken, getFleetOverview, sendCommandToPlayers } from '../../web/shared/supabase-client';
+import type { SupabasePlayerState, LibraryChangeEntry, LibraryChangeType, SupabaseVirtualPlaylist, FleetPlayer } from '../types/supabase';
+import type { LibraryChanges, LibraryFileChange } from '../types/electron';
+import type { Video, VirtualPlaylist, VirtualPlaylistInput } from '../types';
 
 import type { Video } from '../types';
 
@@ -52,6 +53,127 @@ export class UnifiedAPI {
     }
   }
 
+  // Library changes logged by the player (history lives in Supabase either way)
+  async getRecentLibraryChanges(limit = 20): Promise<LibraryChangeEntry[]> {
+    return await getRecentLibraryChanges(this.playerId, limit);
+  }
+
+  // Live library changes - straight from the library watcher in Electron, via realtime on the web
+  subscribeToLibraryChanges(callback: (entries: LibraryChangeEntry[]) => void): () => void {
+    if (this.isElectron) {
+      return (window as any).electronAPI.onLibraryChanges?.((changes: LibraryChanges) => {
+        callback(this.toLibraryChangeEntries(changes));
+      }) || (() => {});
+    } else {
+      const subscription = subscribeToLibraryChanges(this.playerId, entry => callback([entry]));
+      return () => subscription.unsubscribe?.() || subscription;
+    }
+  }
+
+  // Virtual playlists - owned by the player; the web admin reads the Supabase mirror and edits through commands
+  async getVirtualPlaylists(): Promise<VirtualPlaylist[]> {
+    if (this.isElectron) {
+      return await (window as any).electronAPI.getVirtualPlaylists();
+    } else {
+      const rows = await getVirtualPlaylists(this.playerId);
+      return rows.map(row => this.toVirtualPlaylist(row));
+    }
+  }
+
+  subscribeToVirtualPlaylists(callback: (playlists: VirtualPlaylist[]) => void): () => void {
+    if (this.isElectron) {
+      return (window as any).electronAPI.onVirtualPlaylistsChanged?.(callback) || (() => {});
+    } else {
+      const subscription = subscribeToVirtualPlaylists(this.playerId, () => {
+        this.getVirtualPlaylists().then(callback);
+      });
+      return () => subscription.unsubscribe?.() || subscription;
+    }
+  }
+
+  // Throws with the player's reason if the save is rejected (e.g. a duplicate name)
+  async saveVirtualPlaylist(playlist: VirtualPlaylistInput): Promise<void> {
+    const result = this.isElectron
+      ? await (window as any).electronAPI.saveVirtualPlaylist(playlist)
+      : await saveVirtualPlaylist(playlist, this.playerId);
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to save playlist');
+    }
+  }
+
+  async deleteVirtualPlaylist(id: string): Promise<void> {
+    const result = this.isElectron
+      ? await (window as any).electronAPI.deleteVirtualPlaylist(id)
+      : await deleteVirtualPlaylist(id, this.playerId);
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to delete playlist');
+    }
+  }
+
+  // Admin login - the web admin's commands only run for owner/staff logins; in Electron the
+  // admin is the player's own machine, so there is nothing to sign in to
+  get requiresSignIn(): boolean {
+    return !this.isElectron;
+  }
+
+  // Throws with the reason if the login is rejected
+  async signIn(email: string, password: string): Promise<void> {
+    const result = await signInAdmin(email, password);
+    if (!result.success) {
+      throw new Error(result.error || 'Sign-in failed');
+    }
+  }
+
+  async signOut(): Promise<void> {
+    await signOutAdmin();
+  }
+
+  subscribeToSession(callback: (email: string | null) => void): () => void {
+    if (this.isElectron) return () => {};
+    return onAdminSessionChange(callback);
+  }
+
+  // Device pairing - instead of a login, a browser can enter a one-time code from the player's
+  // Connections tab and send commands with that device's role from then on
+  get isPairedDevice(): boolean {
+    return !this.isElectron && !!getDeviceToken();
+  }
+
+  // Throws with the reason if the code is rejected; switches to the code's player on success
+  async pairDevice(code: string): Promise<string> {
+    const result = await claimPairingCode(code, 'Admin console');
+    if (!result.success || !result.pairing) {
+      throw new Error(result.error || 'Pairing failed');
+    }
+    localStorage.setItem('djamms_player_id', result.pairing.player_id);
+    this.playerId = result.pairing.player_id;
+    return this.playerId;
+  }
+
+  unpairDevice(): void {
+    setDeviceToken(null);
+  }
+
+  // Fleet - every player the signed-in admin is a member of. Electron only manages itself.
+  async getFleet(): Promise<FleetPlayer[]> {
+    if (this.isElectron) return [];
+    return await getFleetOverview();
+  }
+
+  // One result per player; players that are offline or refuse the command report failure
+  async sendCommandToPlayers(command: string, data: any, playerIds: string[]): Promise<Array<{ playerId: string; success: boolean; error?: string }>> {
+    if (this.isElectron) {
+      throw new Error('Group commands are only available in the web admin');
+    }
+    return await sendCommandToPlayers(command as any, data, playerIds);
+  }
+
+  // Remembered like a paired player; the caller reloads so every subscription follows it
+  switchPlayer(playerId: string): void {
+    localStorage.setItem('djamms_player_id', playerId);
+    this.playerId = playerId;
+  }
+
   // Search functionality
   async searchVideos(query: string): Promise<Video[]> {
     if (this.isElectron) {
@@ -95,6 +217,36 @@ export class UnifiedAPI {
     return { playlists, playlistsDirectory: '' };
   }
 
+  private toVirtualPlaylist(row: SupabaseVirtualPlaylist): VirtualPlaylist {
+    return {
+      id: row.id,
+      name: row.name,
+      videoIds: row.video_ids,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+
+  private toLibraryChangeEntries(changes: LibraryChanges): LibraryChangeEntry[] {
+    const toEntry = (changeType: LibraryChangeType, change: LibraryFileChange, previous?: LibraryFileChange): LibraryChangeEntry => ({
+      id: `${changes.detectedAt}-${change.filePath}`,
+      player_id: this.playerId,
+      change_type: changeType,
+      file_path: change.filePath,
+      previous_path: previous?.filePath ?? null,
+      title: change.file,
+      artist: null,
+      playlist: change.playlist,
+      detected_at: changes.detectedAt
+    });
+    return [
+      ...changes.added.map(change => toEntry('added', change)),
+      ...changes.removed.map(change => toEntry('removed', change)),
+      ...changes.modified.map(change => toEntry('modified', change)),
+      ...changes.renamed.map(rename => toEntry('renamed', rename.to, rename.from))
+    ];
+  }
+
   private getPlayerId(): string {
     // Priority: URL param > localStorage > default
     if (typeof window !== 'undefined') {
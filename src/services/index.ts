@@ -8,6 +8,6 @@ export type { YouTubeVideo, YouTubeSearchResult, YouTubeSearchOptions } from './
 
 // Supabase integration service
 export { SupabaseService, getSupabaseService } from './SupabaseService';
-export type { CommandHandler } from './SupabaseService';
+export type { CommandHandler, PlayRecord } from './SupabaseService';
 
 // Queue management service - removed (unused, queue managed in main.cjs)
@@ -1,5 +1,5 @@
 // types/electron.d.ts
-import { Video } from './index';
+import { Video, VideoMetadataField, VideoMetadataSource, VirtualPlaylist, VirtualPlaylistInput } from './index';
 
 interface DisplayBounds {
   x: number;
@@ -37,6 +37,15 @@ interface QueueState {
   nowPlayingSource: 'active' | 'priority' | null;
 }
 
+type QueueRestoreMode = 'resume' | 'restart' | 'fresh';
+
+interface RestoredQueue {
+  restored: boolean; // False when there was no snapshot or the mode is 'fresh'
+  mode: QueueRestoreMode;
+  playbackPosition: number; // Seconds into nowPlaying ('resume' only)
+  state: QueueState & { activeQueue: Video[] };
+}
+
 interface QueueCommand {
   action: 
     | 'clear_queue'
@@ -63,6 +72,164 @@ interface PlaybackState {
   duration: number;
 }
 
+type CreditInputDriver = 'pulse' | 'serial-bill' | 'simulated';
+
+interface CreditInputConfig {
+  enabled: boolean;
+  driver: CreditInputDriver;
+  portPath: string;
+  baudRate: number;
+  kioskId: string;
+  pulseTimeoutMs: number;
+  maxPulses: number;
+  pulseCredits: Record<string, number>; // Pulses per coin -> credits
+  channelCredits: Record<string, number>; // Bill channel -> credits
+  reconnectMinMs: number; // First wait before reopening a disconnected device, doubled per failed attempt
+  reconnectMaxMs: number;
+}
+
+interface CreditInputStatus {
+  status: 'stopped' | 'connecting' | 'connected' | 'error';
+  lastError: string | null;
+  lastEventAt: string | null;
+  creditsThisSession: number;
+  faultCount: number;
+  reconnectAttempts: number; // Since the device was last connected
+  driver: CreditInputDriver;
+  enabled: boolean;
+  portPath: string;
+  kioskId: string;
+}
+
+type CreditInputEvent =
+  | { type: 'credit'; id: string; credits: number; kioskId: string; source: string; detail: string; timestamp: string } // Redelivered until acknowledged
+  | { type: 'fault'; kind: 'jam' | 'tamper' | 'reject' | 'error'; message: string; timestamp: string }
+  | { type: 'status'; status: CreditInputStatus; timestamp: string };
+
+type CreditInputSimulation =
+  | { type: 'coin'; pulses?: number }
+  | { type: 'bill'; channel?: number }
+  | { type: 'jam' }
+  | { type: 'tamper' };
+
+interface LanServerConfig {
+  enabled: boolean;
+  port: number;
+  allowedOrigins: string[]; // Web kiosk/admin origins allowed to call it from a browser
+}
+
+// A kiosk or admin device paired with the LAN server (its token is only shown once, when paired)
+interface LanDevice {
+  id: string;
+  name: string;
+  role: 'kiosk' | 'staff';
+  createdAt: string;
+}
+
+interface LanServerStatus {
+  status: 'stopped' | 'listening' | 'error';
+  lastError: string | null;
+  commandsHandled: number;
+  enabled: boolean;
+  port: number;
+  clients: number; // Connected WebSocket clients (kiosks / web admin)
+  urls: string[];  // http://<lan-ip>:<port> per network interface
+}
+
+// An extra zone (patio, back bar...) - its own copy of the player with its own queue, display and player ID
+interface ZoneConfig {
+  id: string;        // Folder-safe, derived from the name when the zone is added
+  name: string;
+  playerId: string;  // Adopted by the zone's player on start; empty keeps the zone's own ID
+  enabled: boolean;
+}
+
+interface ZoneStatus extends ZoneConfig {
+  status: 'running' | 'restarting' | 'stopped' | 'error';
+  pid: number | null;
+  lastError: string | null;
+}
+
+interface VideoAudioAnalysis {
+  cueIn: number;                 // Seconds - end of leading silence
+  cueOut: number;                // Seconds - start of trailing silence
+  duration: number;              // Seconds
+  integratedLufs: number | null; // null for silent / undecodable audio
+  truePeakDb: number | null;     // dBTP
+  gainTrimDb: number;            // Manual per-track trim, 0 when unset
+}
+
+interface VideoFileMetadata {
+  size: number;
+  created: Date;
+  modified: Date;
+  title: string;
+  artist: string;
+  album?: string;
+  year?: number;
+  genre?: string;
+  duration?: number;      // Seconds
+  resolution?: string;    // e.g. "1920x1080"
+  codec?: string;
+  bitrate?: number;       // kb/s
+  fps?: number;
+  youtubeId: string | null; // From the filename
+  metadataSources: Partial<Record<VideoMetadataField, VideoMetadataSource>>;
+}
+
+type PlaylistNaming = 'folder' | 'path';
+
+interface LibraryRoot {
+  id: string;             // 'primary' is the playlists directory
+  path: string;
+  label: string;
+  enabled: boolean;
+  maxDepth: number;       // Folder levels scanned below the root (1 = one folder per playlist)
+  playlistDepth: number;  // Folder level that names the playlist
+  playlistNaming: PlaylistNaming; // 'path' joins every level down to playlistDepth
+}
+
+interface LibraryConfig {
+  roots: LibraryRoot[];
+  ignorePatterns: string[]; // File/folder names with * and ? wildcards, "a/b" patterns match the relative path
+}
+
+interface LibraryFileChange {
+  playlist: string;       // Playlist folder name
+  file: string;           // File name
+  filePath: string;
+  fileHash: string;       // size-mtime
+}
+
+interface LibraryChanges {
+  added: LibraryFileChange[];
+  removed: LibraryFileChange[];
+  modified: LibraryFileChange[];
+  renamed: { from: LibraryFileChange; to: LibraryFileChange }[]; // Renamed or moved, matched by fileHash
+  detectedAt: string;     // ISO timestamp
+}
+
+interface MusicAnalysisStatus {
+  running: boolean;
+  total: number;          // Files the current/last job had to analyze
+  done: number;
+  failed: number;
+  current: string | null; // File name being analyzed
+}
+
+interface SyncJournalEntry {
+  id: string;
+  kind: 'command' | 'queue_update' | 'credit'; // 'credit' only in the main process's credit journal
+  playerId: string;
+  payload: unknown; // SupabaseCommand or queued queue update
+  timestamp: number;
+}
+
+interface SyncJournalSnapshot {
+  entries: SyncJournalEntry[]; // Replay order
+  processedCommandIds: string[];
+}
+
 declare global {
   interface Window {
     electronAPI: {
@@ -73,11 +240,22 @@ declare global {
       
       // Playlist/File Operations
       getPlaylists: () => Promise<{ playlists: Record<string, Video[]>; playlistsDirectory: string; error?: string }>;
-      getVideoMetadata: (filePath: string) => Promise<{ size: number; created: Date; modified: Date } | null>;
+      getVideoMetadata: (filePath: string) => Promise<VideoFileMetadata | null>; // Reads container tags on first request
+      getAudioAnalysis: (filePath: string) => Promise<VideoAudioAnalysis | null>; // Analyzes on first request, then cached
+      setTrackGainTrim: (filePath: string, gainTrimDb: number) => Promise<{ success: boolean; error?: string }>;
       selectDirectory: () => Promise<{ success: boolean; path?: string }>;
       selectPlaylistsDirectory: () => Promise<{ success: boolean; path?: string }>;
       getPlaylistsDirectory: () => Promise<string>;
       setPlaylistsDirectory: (path: string) => Promise<{ success: boolean }>;
+      getLibraryConfig: () => Promise<LibraryConfig>;
+      setLibraryConfig: (config: LibraryConfig) => Promise<{ success: boolean; config?: LibraryConfig; error?: string }>;
+      selectLibraryRoot: () => Promise<{ success: boolean; path?: string }>;
+
+      // Virtual playlists (hand-built, independent of folders)
+      getVirtualPlaylists: () => Promise<VirtualPlaylist[]>;
+      saveVirtualPlaylist: (playlist: VirtualPlaylistInput) => Promise<{ success: boolean; playlist?: VirtualPlaylist; error?: string }>;
+      deleteVirtualPlaylist: (id: string) => Promise<{ success: boolean; error?: string }>;
+      onVirtualPlaylistsChanged: (callback: (playlists: VirtualPlaylist[]) => void) => () => void;
       selectImageFile: () => Promise<{ success: boolean; path?: string }>;
       
       // Display Management
@@ -113,6 +291,7 @@ declare global {
       sendQueueCommand: (command: QueueCommand) => void;
       onQueueState: (callback: (state: QueueState) => void) => () => void;
       getQueueState: () => Promise<QueueState>;
+      getRestoredQueue: () => Promise<RestoredQueue>;
       
       // Playback State Sync
       sendPlaybackState: (state: PlaybackState) => void;
@@ -138,11 +317,82 @@ declare global {
       addRecentSearch: (query: string) => Promise<string[]>;
       clearRecentSearches: () => Promise<string[]>;
       
+      // Credit Input (coin acceptor / bill validator)
+      getCreditInputStatus: () => Promise<{ status: CreditInputStatus; config: CreditInputConfig }>;
+      listCreditInputPorts: () => Promise<Array<{ path: string; manufacturer: string | null }>>;
+      configureCreditInput: (config: CreditInputConfig) => Promise<{ success: boolean; status?: CreditInputStatus; error?: string }>;
+      simulateCreditInput: (event: CreditInputSimulation) => Promise<{ success: boolean; error?: string }>;
+      ackCreditInput: (id: string) => Promise<{ success: boolean; pending?: number; error?: string }>; // The credit is on the ledger
+      onCreditInputEvent: (callback: (event: CreditInputEvent) => void) => () => void;
+      
+      // Sync journal (offline Supabase queue persisted by the main process)
+      loadSyncJournal: () => Promise<SyncJournalSnapshot>;
+      appendSyncJournal: (entry: SyncJournalEntry) => Promise<{ success: boolean; pending?: number; error?: string }>;
+      removeSyncJournalEntries: (ids: string[]) => Promise<{ success: boolean; pending?: number; error?: string }>;
+      markSyncJournalProcessed: (ids: string[]) => Promise<{ success: boolean; error?: string }>;
+      
+      // LAN server (local fallback for web clients when Supabase is unreachable)
+      getLanServerStatus: () => Promise<{ status: LanServerStatus; config: LanServerConfig; devices: LanDevice[] }>;
+      configureLanServer: (config: LanServerConfig) => Promise<{ success: boolean; status?: LanServerStatus; error?: string }>;
+      pairLanDevice: (name: string, role: LanDevice['role']) => Promise<{ success: boolean; token?: string; devices?: LanDevice[]; error?: string }>;
+      revokeLanDevice: (deviceId: string) => Promise<{ success: boolean; devices: LanDevice[] }>;
+      publishLanPlayerState: (state: unknown) => void; // SupabasePlayerState
+      setModerationBlocklist: (keys: string[]) => void; // File paths Auto-DJ picks and LAN search must skip
+      sendLanCommandResult: (result: { commandId: string; success: boolean; error?: string }) => void;
+      onLanCommand: (callback: (command: unknown) => void) => () => void; // SupabaseCommand
+      onLanServerStatus: (callback: (status: LanServerStatus) => void) => () => void;
+      
+      // Zones (current is null in the main player; only the main player manages zones)
+      getZones: () => Promise<{ current: ZoneConfig | null; zones: ZoneStatus[] }>;
+      saveZones: (zones: Partial<ZoneConfig>[]) => Promise<{ success: boolean; zones?: ZoneStatus[]; error?: string }>;
+      onZonesStatus: (callback: (zones: ZoneStatus[]) => void) => () => void;
+      
+      // Tempo & key analysis (library job in the main process)
+      getMusicAnalysisStatus: () => Promise<MusicAnalysisStatus>;
+      startMusicAnalysis: () => Promise<{ success: boolean; status?: MusicAnalysisStatus; error?: string }>;
+      cancelMusicAnalysis: () => Promise<{ success: boolean }>;
+      onMusicAnalysisProgress: (callback: (status: MusicAnalysisStatus) => void) => () => void;
+
+      // Embedded metadata (read in the background after getPlaylists finds new files)
+      onVideoMetadataUpdated: (callback: (result: { extracted: number; failed: number; filePaths: string[] }) => void) => () => void;
+
+      // Library watcher (the playlists directory changed on disk)
+      onLibraryChanges: (callback: (changes: LibraryChanges) => void) => () => void;
+      
       // Platform info
+      getAppVersion: () => Promise<string>;
       platform: string;
       isElectron: boolean;
     };
   }
 }
 
-export type { DisplayInfoElectron, PlayerSettingsElectron, QueueState, QueueCommand, PlaybackState };
+export type {
+  DisplayInfoElectron,
+  PlayerSettingsElectron,
+  QueueState,
+  QueueRestoreMode,
+  RestoredQueue,
+  QueueCommand,
+  PlaybackState,
+  CreditInputDriver,
+  CreditInputConfig,
+  CreditInputStatus,
+  CreditInputEvent,
+  CreditInputSimulation,
+  SyncJournalEntry,
+  SyncJournalSnapshot,
+  LanServerConfig,
+  LanServerStatus,
+  LanDevice,
+  ZoneConfig,
+  ZoneStatus,
+  VideoAudioAnalysis,
+  VideoFileMetadata,
+  PlaylistNaming,
+  LibraryRoot,
+  LibraryConfig,
+  LibraryFileChange,
+  LibraryChanges,
+  MusicAnalysisStatus
+};
@@ -1,4 +1,12 @@
 // types/video.ts
+
+/**
+ * Where a video's metadata field came from: the file's own container tags/streams,
+ * the "Artist - Title -- YouTubeID" filename, or (artist only) the playlist folder name
+ */
+export type VideoMetadataSource = 'container' | 'filename' | 'folder';
+export type VideoMetadataField = 'title' | 'artist' | 'album' | 'year' | 'genre' | 'duration' | 'resolution' | 'codec' | 'bitrate' | 'fps';
+
 export interface Video {
   id: string;
   title: string;
@@ -9,12 +17,47 @@ export interface Video {
   duration?: number;
   size?: number;
   album?: string;
-  playlist?: string; // Original folder name (may include YouTube Playlist ID prefix)
+  playlist?: string; // Folder name, or folder path under the library root's naming rule (may include YouTube Playlist ID prefix)
   playlistDisplayName?: string; // Display name without YouTube Playlist ID prefix
+  libraryRoot?: string; // Label of the library root the file was found under
   filename?: string;
   fileHash?: string; // Hash for change detection (size + mtime or SHA256)
+  year?: number; // Release year (from container tags)
+  genre?: string; // From container tags
+  resolution?: string; // e.g. "1920x1080" (from the container's video stream)
+  codec?: string; // Video codec, e.g. "h264"
+  bitrate?: number; // Overall bitrate in kb/s
+  fps?: number;
+  metadataSources?: Partial<Record<VideoMetadataField, VideoMetadataSource>>; // Where each field came from
+  cueIn?: number; // Seconds - where audio starts after leading silence (from audio analysis)
+  cueOut?: number; // Seconds - where trailing silence / fade-out begins (from audio analysis)
+  integratedLufs?: number | null; // Measured loudness (from audio analysis)
+  truePeakDb?: number | null; // Measured true peak in dBTP (from audio analysis)
+  gainTrimDb?: number; // Manual per-track trim applied on top of loudness normalization
+  bpm?: number | null; // Tempo (from tempo & key analysis)
+  musicalKey?: string | null; // e.g. "A minor" (from tempo & key analysis)
+  camelotKey?: string | null; // Camelot wheel code, e.g. "8A" (from tempo & key analysis)
+  requestedByKiosk?: string; // Kiosk ID when the video was requested from a kiosk
+  creditCharge?: { kioskId: string; commandId: string; credits: number }; // Paid kiosk request - refunded if it is dropped unplayed
+  startPosition?: number; // Seconds - play from here instead of the start (e.g. resuming after a restart)
 }
 
+/**
+ * A playlist built by hand rather than from a folder (stored by the player, see
+ * electron/virtual-playlists.cjs). Video IDs are file paths - the one ID that survives
+ * rescans and matches local_videos.file_path for the web admin.
+ */
+export interface VirtualPlaylist {
+  id: string;
+  name: string;
+  videoIds: string[]; // Play order
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Create (no id) or replace a virtual playlist
+export type VirtualPlaylistInput = Pick<VirtualPlaylist, 'name' | 'videoIds'> & { id?: string };
+
 // ============================================================================
 // CROSSFADE / VIDEO PLAYER TYPES
 // ============================================================================
@@ -23,8 +66,21 @@ export interface Video {
  * Crossfade mode determines video transition behavior:
  * - 'manual': Videos play to completion, next starts immediately (clean cut)
  * - 'seamless': Next video starts X seconds before current ends (overlap crossfade)
+ * - 'djmix': Same overlap, but the next track comes up to full level before the
+ *   current one is pulled down, like a DJ blending on a mixer
+ */
+export type CrossfadeMode = 'manual' | 'seamless' | 'djmix';
+
+/**
+ * What the main process does once every track in the active queue has played
+ * (see electron/auto-dj.cjs):
+ * - 'loop': play the same tracks again in the same order
+ * - 'shuffle-on-wrap': reshuffle them, without repeating the track that just played
+ * - 'weighted-random': random tracks from the whole library, favouring ones not heard for a while
+ * - 'more-like-last-request': tracks from the playlist/artist of the last kiosk request
+ * - 'least-recently-played': the library tracks that have gone longest without playing
  */
-export type CrossfadeMode = 'manual' | 'seamless';
+export type AutoDjStrategy = 'loop' | 'shuffle-on-wrap' | 'weighted-random' | 'more-like-last-request' | 'least-recently-played';
 
 /**
  * Reason for a video transition - used for logging and debugging
@@ -34,6 +90,7 @@ export type TransitionReason =
   | 'early_crossfade'  // Seamless mode: started overlap
   | 'user_skip'        // User pressed skip
   | 'manual_next'      // User pressed next/previous
+  | 'scheduled'        // Playlist schedule switched playlists
   | 'error';           // Video error
 
 /**
@@ -47,6 +104,7 @@ export interface VideoPlayerConfig {
   onVideoEnd?: () => void;
   onError?: (error: string) => void;
   enableAudioNormalization?: boolean;
+  targetLoudness?: number; // LUFS that normalization aims for
 }
 
 /**
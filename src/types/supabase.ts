@@ -26,6 +26,17 @@ export interface SupabasePlayerState {
   queue_index: number; // Current position in active_queue
   volume: number;
   last_heartbeat: string;
+  app_version?: string | null;  // Health published with the heartbeat (fleet dashboard)
+  error_count?: number;
+  last_error?: string | null;
+  last_error_at?: string | null;
+  kiosk_settings?: KioskPlaySettings | null; // Published by the player - free play until it does
+}
+
+// What kiosks need to know about how the player takes requests
+export interface KioskPlaySettings {
+  mode: 'freeplay' | 'credits';
+  creditsPerRequest: number; // Charged to the paired device for each accepted request
 }
 
 export interface NowPlayingVideo {
@@ -67,6 +78,8 @@ export type CommandType =
   | 'queue_move_to_front'
   | 'settings_update'
   | 'load_playlist'
+  | 'virtual_playlist_save'
+  | 'virtual_playlist_delete'
   | 'player_window_toggle'
   | 'player_window_move'
   | 'player_fullscreen_toggle'
@@ -87,6 +100,58 @@ export interface SupabaseCommand {
   status: 'pending' | 'executed' | 'failed' | 'expired';
   execution_result: Record<string, unknown> | null;
   created_at: string;
+  issuer_role?: CommandRole | null; // Resolved by the database from the sender's login or device token
+  issuer_id?: string | null;        // auth user ID or kiosk device ID behind issuer_role
+}
+
+// Who may send which commands - owner/staff are admin logins, kiosk is a paired device,
+// guest is anyone else who knows the player ID
+export type CommandRole = 'owner' | 'staff' | 'kiosk' | 'guest';
+
+// A kiosk or admin browser paired with the player via a one-time code (kiosk_devices)
+export type KioskDeviceRole = Extract<CommandRole, 'kiosk' | 'staff'>;
+
+export interface KioskDevice {
+  id: string;
+  name: string;
+  role: KioskDeviceRole;
+  created_at: string;
+  last_seen_at: string | null; // Last command sent with its token
+  revoked_at: string | null;   // Revoked devices are treated as guests
+}
+
+// A one-time pairing code shown by the player
+export interface KioskPairingCode {
+  code: string;
+  role: KioskDeviceRole;
+  expires_at: string;
+}
+
+// What a device receives when it claims a pairing code (the token is only returned once)
+export interface KioskPairing {
+  player_id: string;
+  device_id: string;
+  device_token: string;
+  role: KioskDeviceRole;
+}
+
+// One row of the fleet dashboard - a player the signed-in admin is a member of (get_fleet_overview)
+export interface FleetPlayer {
+  player_id: string;
+  name: string | null;
+  role: Extract<CommandRole, 'owner' | 'staff'>;
+  is_online: boolean;       // Online and heartbeat under a minute old
+  status: SupabasePlayerState['status'] | null;
+  last_heartbeat: string | null;
+  now_playing_video: NowPlayingVideo | null;
+  queue_depth: number;      // Active queue length
+  priority_depth: number;   // Requests waiting in the priority queue
+  volume: number | null;
+  app_version: string | null;
+  error_count: number;      // Playback errors since the player started
+  last_error: string | null;
+  last_error_at: string | null;
+  failed_commands: number;  // Failed commands in the last 24 hours
 }
 
 export type CommandPayload = 
@@ -96,6 +161,10 @@ export type CommandPayload =
   | QueueAddCommandPayload
   | QueueRemoveCommandPayload
   | LoadPlaylistCommandPayload
+  | VirtualPlaylistSaveCommandPayload
+  | VirtualPlaylistDeleteCommandPayload
+  | KioskAddCreditsCommandPayload
+  | KioskClearCreditsCommandPayload
   | Record<string, unknown>; // Generic fallback
 
 export interface PlayCommandPayload {
@@ -122,8 +191,114 @@ export interface QueueRemoveCommandPayload {
 }
 
 export interface LoadPlaylistCommandPayload {
-  playlistName: string;
+  playlistName: string; // Folder playlist, or a virtual playlist's name
   shuffle?: boolean;
+  virtualPlaylistId?: string; // Load this virtual playlist (wins over playlistName)
+}
+
+export interface VirtualPlaylistSaveCommandPayload {
+  playlist: { id?: string; name: string; videoIds: string[] }; // No id creates a new playlist
+}
+
+export interface VirtualPlaylistDeleteCommandPayload {
+  id: string;
+}
+
+export interface KioskAddCreditsCommandPayload {
+  amount: number;
+  kioskId?: string; // Defaults to 'main'
+  source?: string;
+  creditEventId?: string; // Coin acceptor credit - deposited at most once however often it is retried
+}
+
+export interface KioskClearCreditsCommandPayload {
+  kioskId?: string; // Defaults to 'main'
+}
+
+// ==================== Kiosk Credits ====================
+
+export type KioskCreditEntryType = 'deposit' | 'spend' | 'refund' | 'clear';
+
+export interface KioskCreditBalance {
+  player_id: string;
+  kiosk_id: string;
+  balance: number;
+  updated_at: string;
+}
+
+// ==================== Play History ====================
+
+export interface PlayHistoryEntry {
+  id: string;
+  player_id: string;
+  video_id: string | null; // NULL if the file was never indexed
+  file_path: string;
+  title: string | null;
+  artist: string | null;
+  seconds_played: number | null;
+  started_at: string | null;
+  played_at: string; // When the play ended
+  transition_reason: string; // TransitionReason
+  from_priority: boolean;
+  requested_by_kiosk: string | null;
+  counts_toward_charts: boolean;
+}
+
+// ==================== Virtual Playlists ====================
+
+// Mirror of the player's virtual playlists (the player owns them - edit via commands)
+export interface SupabaseVirtualPlaylist {
+  id: string;
+  player_id: string;
+  name: string;
+  video_ids: string[]; // File paths in play order
+  created_at: string;
+  updated_at: string;
+}
+
+// ==================== Smart Playlists ====================
+
+// One condition on a local_videos row (durations in seconds)
+export type SmartPlaylistRule =
+  | { field: 'artist'; operator: 'in'; values: string[] }
+  | { field: 'playlist'; operator: 'in'; values: string[] } // Folder playlist names
+  | { field: 'play_count'; operator: 'gt' | 'lt'; value: number }
+  | { field: 'duration'; operator: 'gt' | 'lt'; value: number }
+  | { field: 'last_played'; operator: 'not_within_days'; value: number } // Never-played videos match
+  | { field: 'karaoke'; operator: 'exclude' | 'only' };
+
+export type SmartPlaylistField = SmartPlaylistRule['field'];
+export type SmartPlaylistSort = 'title' | 'artist' | 'play_count' | 'last_played';
+
+// Rule-based playlist (smart_playlists table), evaluated against local_videos by each client
+export interface SmartPlaylist {
+  id: string;
+  player_id: string;
+  name: string;
+  rules: SmartPlaylistRule[];
+  match_mode: 'all' | 'any';
+  sort_by: SmartPlaylistSort;
+  max_videos: number | null; // null = every match
+  created_at: string;
+  updated_at: string;
+}
+
+export type SmartPlaylistInput = Pick<SmartPlaylist, 'name' | 'rules' | 'match_mode' | 'sort_by' | 'max_videos'> & { id?: string }; // No id creates one
+
+// ==================== Library Changes ====================
+
+export type LibraryChangeType = 'added' | 'removed' | 'modified' | 'renamed';
+
+export interface LibraryChangeEntry {
+  id: string;
+  player_id: string;
+  change_type: LibraryChangeType;
+  file_path: string;
+  previous_path: string | null; // Where a renamed/moved file used to be
+  title: string | null;
+  artist: string | null;
+  playlist: string | null;
+  detected_at: string;
 }
 
 // ==================== Local Videos ====================
@@ -138,6 +313,30 @@ export interface SupabaseLocalVideo {
   is_available: boolean;
   metadata: Record<string, unknown> | null;
   created_at: string;
+  play_count?: number | null;
+  last_played?: string | null;
+  content_status?: ContentStatus;
+  moderation_notes?: string | null;
+  moderated_by?: string | null;
+  moderated_at?: string | null;
+  is_explicit?: boolean;
+}
+
+// ==================== Content Moderation ====================
+
+export type ContentStatus = 'pending' | 'approved' | 'rejected';
+
+/**
+ * Per-player explicit content policy (content_policies table)
+ * Times are venue-local "HH:MM" strings, interpreted in `timezone`
+ */
+export interface ContentPolicy {
+  player_id: string;
+  hide_explicit_daytime: boolean;
+  daytime_start: string;
+  daytime_end: string;
+  timezone: string;
+  updated_at?: string;
 }
 
 // ==================== Kiosk Requests ====================
@@ -191,7 +390,7 @@ export interface SupabaseVideo {
   local_file_path: string | null;
   file_metadata: Record<string, unknown> | null;
   quality_score: number;
-  content_status: 'pending' | 'approved' | 'rejected';
+  content_status: ContentStatus;
   moderation_notes: string | null;
   file_size: number | null;
   created_at: string;
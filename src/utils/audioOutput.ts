@@ -0,0 +1,56 @@
+/**
+ * Audio output device selection - which speakers (HDMI, USB interface...) the player
+ * window plays through. The choice is kept with the player settings; while the chosen
+ * device is unplugged the player falls back to the system default.
+ */
+
+export interface AudioOutputDevice {
+  deviceId: string;
+  label: string;
+}
+
+// Anything that can be routed to a device: video elements, and the AudioContext once
+// normalization routes the elements through Web Audio
+interface AudioSink {
+  setSinkId?: (sinkId: string) => Promise<void>;
+}
+
+// Chromium's pseudo-devices that follow the system setting rather than naming a device
+const PSEUDO_DEVICE_IDS = ['default', 'communications'];
+
+/**
+ * Output devices currently available, without the pseudo-devices
+ */
+export async function listAudioOutputDevices(): Promise<AudioOutputDevice[]> {
+  if (typeof navigator === 'undefined' || !navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices
+    .filter(device => device.kind === 'audiooutput' && !PSEUDO_DEVICE_IDS.includes(device.deviceId))
+    .map((device, index) => ({ deviceId: device.deviceId, label: device.label || `Output ${index + 1}` }));
+}
+
+/**
+ * The available device matching the saved choice, or null when it is missing
+ * Matches by ID first, then by label - IDs can change when a device is re-plugged.
+ */
+export function resolveAudioOutput(chosen: AudioOutputDevice | null | undefined, devices: AudioOutputDevice[]): AudioOutputDevice | null {
+  if (!chosen?.deviceId) return null;
+  return devices.find(device => device.deviceId === chosen.deviceId)
+    || devices.find(device => !!chosen.label && device.label === chosen.label)
+    || null;
+}
+
+/**
+ * Route a sink to a device ('' = system default). Returns false if the sink can't be routed.
+ */
+export async function applyAudioOutput(target: HTMLMediaElement | AudioContext | null | undefined, deviceId: string): Promise<boolean> {
+  const sink = target as AudioSink | null | undefined;
+  if (!sink?.setSinkId) return false;
+  try {
+    await sink.setSinkId(deviceId);
+    return true;
+  } catch (error) {
+    console.warn('[audioOutput] Could not switch audio output:', error);
+    return false;
+  }
+}
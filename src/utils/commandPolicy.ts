@@ -0,0 +1,59 @@
+/**
+ * Command policy - which roles may send which remote commands, enforced by the
+ * player before any handler runs
+ */
+
+import type { CommandRole, CommandType } from '../types/supabase';
+
+// Owners can send everything; the other roles are limited to their list
+export type CommandPolicy = Record<Exclude<CommandRole, 'owner'>, CommandType[]>;
+
+export const COMMAND_TYPES: CommandType[] = [
+  'play', 'pause', 'resume', 'skip', 'setVolume', 'seekTo',
+  'queue_add', 'queue_remove', 'queue_clear', 'queue_shuffle', 'queue_move', 'queue_move_to_front',
+  'load_playlist', 'virtual_playlist_save', 'virtual_playlist_delete',
+  'player_window_toggle', 'player_window_move', 'player_fullscreen_toggle', 'player_refresh',
+  'settings_update', 'overlay_settings_update', 'kiosk_settings_update',
+  'kiosk_add_credits', 'kiosk_clear_credits'
+];
+
+export const DEFAULT_COMMAND_POLICY: CommandPolicy = {
+  // Running the room, but not reconfiguring the player
+  staff: COMMAND_TYPES.filter(type => ![
+    'player_window_move', 'player_refresh', 'settings_update', 'overlay_settings_update', 'kiosk_settings_update'
+  ].includes(type)),
+  kiosk: ['queue_add'],
+  guest: []
+};
+
+/**
+ * Role for a command that reached the player through its LAN server. The main process
+ * sets issuer_role from the paired device that sent it; anything else is a guest.
+ */
+export function getLanCommandRole(issuerRole: CommandRole | null | undefined): CommandRole {
+  return issuerRole === 'kiosk' || issuerRole === 'staff' ? issuerRole : 'guest';
+}
+
+/**
+ * Merge a saved policy over the defaults, dropping command types this version doesn't know
+ */
+export function normalizeCommandPolicy(saved: Partial<CommandPolicy> | null | undefined): CommandPolicy {
+  const known = (types: CommandType[] | undefined, fallback: CommandType[]) =>
+    Array.isArray(types) ? types.filter(type => COMMAND_TYPES.includes(type)) : fallback;
+  return {
+    staff: known(saved?.staff, DEFAULT_COMMAND_POLICY.staff),
+    kiosk: known(saved?.kiosk, DEFAULT_COMMAND_POLICY.kiosk),
+    guest: known(saved?.guest, DEFAULT_COMMAND_POLICY.guest)
+  };
+}
+
+/**
+ * Check a command against the policy
+ * @returns A human-readable rejection reason, or null if the role may send it
+ */
+export function checkCommandPolicy(role: CommandRole, commandType: CommandType, policy: CommandPolicy): string | null {
+  if (role === 'owner' || policy[role].includes(commandType)) return null;
+  return role === 'guest'
+    ? `Not authorized: sign in or pair this device to send ${commandType}`
+    : `Not authorized: the ${role} role cannot send ${commandType}`;
+}
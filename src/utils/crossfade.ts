@@ -1,10 +1,123 @@
 // utils/crossfade.ts
+export type CrossfadeCurve = 'linear' | 'equal-power' | 'logarithmic' | 's-curve';
+export type TransitionStyle = 'dissolve' | 'dip-to-black' | 'slide';
+
+/**
+ * How overlapping transitions sound and look
+ * audioDuration / videoDuration are seconds; the overlap lasts as long as the longer one
+ */
+export interface CrossfadeOptions {
+  curve: CrossfadeCurve;
+  audioDuration: number;
+  videoDuration: number;
+  style: TransitionStyle;
+}
+
+export const DEFAULT_CROSSFADE_OPTIONS: CrossfadeOptions = {
+  curve: 'equal-power',
+  audioDuration: 2,
+  videoDuration: 2,
+  style: 'dissolve'
+};
+
+// Range the logarithmic curve fades across - quieter than this is treated as silence
+const LOG_CURVE_RANGE_DB = 60;
+
+/**
+ * Fade-in gain (0-1) at a point (0-1) of a fade; the matching fade-out is fadeInGain(1 - progress)
+ * - linear: straight line, dips in perceived level mid-crossfade
+ * - equal-power: constant combined power, the usual choice for unrelated tracks
+ * - logarithmic: linear in dB, sounds like an even fade to the ear
+ * - s-curve: eases in and out, keeps each track near full level longer
+ */
+export function fadeInGain(progress: number, curve: CrossfadeCurve): number {
+  const p = Math.max(0, Math.min(1, progress));
+  switch (curve) {
+    case 'equal-power':
+      return Math.sin(p * Math.PI / 2);
+    case 'logarithmic':
+      return p === 0 ? 0 : Math.pow(10, (-LOG_CURVE_RANGE_DB * (1 - p)) / 20);
+    case 's-curve':
+      return p * p * (3 - 2 * p);
+    case 'linear':
+    default:
+      return p;
+  }
+}
+
+export function fadeOutGain(progress: number, curve: CrossfadeCurve): number {
+  return fadeInGain(1 - Math.max(0, Math.min(1, progress)), curve);
+}
+
+/**
+ * Gains for both tracks during an overlap
+ * - crossfade: one fades out while the other fades in
+ * - djmix: the incoming track is brought up over the first half, then the outgoing
+ *   track is pulled down over the second half (both play at full level in the middle)
+ */
+export function getMixGains(
+  progress: number,
+  curve: CrossfadeCurve,
+  mix: 'crossfade' | 'djmix' = 'crossfade'
+): { outgoing: number; incoming: number } {
+  if (mix === 'djmix') {
+    return {
+      incoming: fadeInGain(progress * 2, curve),
+      outgoing: fadeOutGain(progress * 2 - 1, curve)
+    };
+  }
+  return { incoming: fadeInGain(progress, curve), outgoing: fadeOutGain(progress, curve) };
+}
+
+export interface TransitionFrame {
+  outgoing: { opacity: number; transform: string };
+  incoming: { opacity: number; transform: string };
+}
+
+/**
+ * Opacity/transform for both videos at a point (0-1) of the visual transition
+ * The incoming video is expected to sit above the outgoing one
+ */
+export function getTransitionFrame(progress: number, style: TransitionStyle): TransitionFrame {
+  const p = Math.max(0, Math.min(1, progress));
+  switch (style) {
+    case 'dip-to-black':
+      return {
+        outgoing: { opacity: p < 0.5 ? 1 - p * 2 : 0, transform: 'none' },
+        incoming: { opacity: p < 0.5 ? 0 : p * 2 - 1, transform: 'none' }
+      };
+    case 'slide': {
+      const eased = p * p * (3 - 2 * p);
+      return {
+        outgoing: { opacity: 1, transform: `translateX(${(-eased * 100).toFixed(2)}%)` },
+        incoming: { opacity: 1, transform: `translateX(${((1 - eased) * 100).toFixed(2)}%)` }
+      };
+    }
+    case 'dissolve':
+    default:
+      return {
+        outgoing: { opacity: 1, transform: 'none' },
+        incoming: { opacity: p, transform: 'none' }
+      };
+  }
+}
+
 export interface CrossfadeConfig {
-  duration: number;
+  duration: number; // ms - used for audio and video unless set separately
+  audioDuration?: number; // ms
+  videoDuration?: number; // ms
+  curve?: CrossfadeCurve;
+  style?: TransitionStyle;
+  mix?: 'crossfade' | 'djmix';
+  targetVolume?: number; // Volume the incoming video ends at (defaults to the active video's starting volume)
   onProgress?: (progress: number, activeVolume: number, inactiveVolume: number) => void;
   onComplete?: () => void;
 }
 
+/**
+ * Overlap two playing videos: audio follows the curve (and mix) over audioDuration,
+ * the picture follows the transition style over videoDuration. Resolves when both are done.
+ */
 export function crossfade(
   activeVideo: HTMLVideoElement,
   inactiveVideo: HTMLVideoElement,
@@ -13,33 +126,51 @@ export function crossfade(
   return new Promise((resolve) => {
     const startTime = Date.now();
     const startActiveVolume = activeVideo.volume;
-    const startActiveOpacity = parseFloat(activeVideo.style.opacity) || 1;
-    const startInactiveOpacity = parseFloat(inactiveVideo.style.opacity) || 0;
+    const targetVolume = config.targetVolume ?? startActiveVolume;
+    const audioDuration = Math.max(1, config.audioDuration ?? config.duration);
+    const videoDuration = Math.max(1, config.videoDuration ?? config.duration);
+    const curve = config.curve ?? 'linear';
+    const style = config.style ?? 'dissolve';
+
+    // Frame-by-frame values below; CSS transitions would lag behind them
+    const activeTransition = activeVideo.style.transition;
+    const inactiveTransition = inactiveVideo.style.transition;
+    activeVideo.style.transition = 'none';
+    inactiveVideo.style.transition = 'none';
+    activeVideo.style.zIndex = '5';
+    inactiveVideo.style.zIndex = '10';
 
     const fadeStep = () => {
       const elapsed = Date.now() - startTime;
-      const progress = Math.min(elapsed / config.duration, 1);
-
-      // Fade in inactive video opacity
-      const inactiveOpacity = startInactiveOpacity + (progress * (1 - startInactiveOpacity));
-      inactiveVideo.style.opacity = inactiveOpacity.toString();
-
-      // Fade out active video opacity and volume
-      const activeOpacity = startActiveOpacity * (1 - progress);
-      const activeVolume = startActiveVolume * (1 - progress);
+      const audioProgress = Math.min(elapsed / audioDuration, 1);
+      const videoProgress = Math.min(elapsed / videoDuration, 1);
 
-      activeVideo.style.opacity = activeOpacity.toString();
+      const gains = getMixGains(audioProgress, curve, config.mix);
+      const activeVolume = startActiveVolume * gains.outgoing;
+      const inactiveVolume = targetVolume * gains.incoming;
       activeVideo.volume = activeVolume;
+      inactiveVideo.volume = inactiveVolume;
+
+      const frame = getTransitionFrame(videoProgress, style);
+      activeVideo.style.opacity = frame.outgoing.opacity.toString();
+      activeVideo.style.transform = frame.outgoing.transform;
+      inactiveVideo.style.opacity = frame.incoming.opacity.toString();
+      inactiveVideo.style.transform = frame.incoming.transform;
 
       // Call progress callback
       if (config.onProgress) {
-        config.onProgress(progress, activeVolume, inactiveVideo.volume);
+        config.onProgress(Math.min(audioProgress, videoProgress), activeVolume, inactiveVolume);
       }
 
-      if (progress < 1) {
+      if (audioProgress < 1 || videoProgress < 1) {
         requestAnimationFrame(fadeStep);
       } else {
-        // Complete
+        // Complete - outgoing hidden, both back to their resting styles
+        activeVideo.style.opacity = '0';
+        activeVideo.style.transform = 'none';
+        inactiveVideo.style.transform = 'none';
+        activeVideo.style.transition = activeTransition;
+        inactiveVideo.style.transition = inactiveTransition;
         if (config.onComplete) {
           config.onComplete();
         }
@@ -55,7 +186,8 @@ export function fadeOut(
   video: HTMLVideoElement,
   duration: number,
   onProgress?: (progress: number, volume: number, opacity: number) => void,
-  onComplete?: () => void
+  onComplete?: () => void,
+  curve: CrossfadeCurve = 'linear'
 ): Promise<void> {
   return new Promise((resolve) => {
     const startTime = Date.now();
@@ -66,7 +198,7 @@ export function fadeOut(
       const elapsed = Date.now() - startTime;
       const progress = Math.min(elapsed / duration, 1);
 
-      const currentVolume = startVolume * (1 - progress);
+      const currentVolume = startVolume * fadeOutGain(progress, curve);
       const currentOpacity = startOpacity * (1 - progress);
 
       video.volume = currentVolume;
@@ -0,0 +1,39 @@
+/**
+ * Cue points - where a video's audio actually starts and ends, from the main
+ * process silence analysis (electron/cue-analyzer.cjs). Seamless mode crossfades
+ * into the next video at cue-out and starts that video at its cue-in.
+ */
+
+export interface CuePoints {
+  cueIn: number;    // Seconds - end of leading silence
+  cueOut: number;   // Seconds - start of trailing silence
+  duration: number; // Seconds
+}
+
+// Cues that would leave less than this much of a video are treated as bad analysis
+const MIN_PLAYABLE_SECONDS = 10;
+
+/**
+ * Clamp cue points to the duration the video element actually reports,
+ * falling back to the full video when they don't make sense
+ */
+export function resolveCuePoints(cues: Partial<CuePoints> | null | undefined, duration: number): CuePoints {
+  const full: CuePoints = { cueIn: 0, cueOut: duration, duration };
+  if (!cues || !Number.isFinite(duration) || duration <= 0) {
+    return full;
+  }
+
+  const cueIn = typeof cues.cueIn === 'number' && cues.cueIn > 0 ? Math.min(cues.cueIn, duration) : 0;
+  const cueOut = typeof cues.cueOut === 'number' && cues.cueOut > 0 ? Math.min(cues.cueOut, duration) : duration;
+  if (cueOut - cueIn < MIN_PLAYABLE_SECONDS) {
+    return full;
+  }
+  return { cueIn, cueOut, duration };
+}
+
+/**
+ * When seamless mode should start crossfading so the fade completes at cue-out
+ */
+export function getCrossfadeStartTime(cues: CuePoints, crossfadeDuration: number): number {
+  return Math.max(cues.cueIn, cues.cueOut - crossfadeDuration);
+}
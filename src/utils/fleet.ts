@@ -0,0 +1,67 @@
+/**
+ * Fleet dashboard helpers - health at a glance and the commands an operator can send
+ * to a group of players at once
+ */
+
+import type { FleetPlayer } from '../types/supabase';
+
+export type FleetCommandType = 'load_playlist' | 'settings_update' | 'setVolume' | 'skip' | 'pause' | 'resume' | 'queue_shuffle';
+
+export interface FleetCommandDraft {
+  type: FleetCommandType;
+  playlistName: string;
+  shuffle: boolean;
+  settingsJson: string; // Player settings to change, e.g. {"autoDjStrategy": "shuffle-on-wrap"}
+  volume: number;       // 0-100
+}
+
+export type FleetHealth = 'ok' | 'errors' | 'offline';
+
+/**
+ * The command and payload for a draft - throws with the reason if the draft is incomplete
+ */
+export function buildFleetCommand(draft: FleetCommandDraft): { command: FleetCommandType; data: Record<string, unknown> } {
+  switch (draft.type) {
+    case 'load_playlist': {
+      const playlistName = draft.playlistName.trim();
+      if (!playlistName) throw new Error('Enter a playlist name');
+      return { command: 'load_playlist', data: { playlistName, shuffle: draft.shuffle } };
+    }
+    case 'settings_update': {
+      let settings: unknown;
+      try {
+        settings = JSON.parse(draft.settingsJson);
+      } catch {
+        throw new Error('Settings must be valid JSON');
+      }
+      if (!settings || typeof settings !== 'object' || Array.isArray(settings) || Object.keys(settings).length === 0) {
+        throw new Error('Settings must be an object with at least one setting');
+      }
+      return { command: 'settings_update', data: { settings } };
+    }
+    case 'setVolume':
+      return { command: 'setVolume', data: { volume: Math.min(Math.max(draft.volume, 0), 100) / 100 } };
+    default:
+      return { command: draft.type, data: {} };
+  }
+}
+
+/**
+ * Offline beats errors - a player that is down needs attention first
+ */
+export function getFleetHealth(player: FleetPlayer): FleetHealth {
+  if (!player.is_online) return 'offline';
+  return player.error_count > 0 || player.failed_commands > 0 ? 'errors' : 'ok';
+}
+
+/**
+ * How long ago the last heartbeat was, e.g. "45s ago", "3h ago"
+ */
+export function formatHeartbeatAge(lastHeartbeat: string | null, now: number = Date.now()): string {
+  if (!lastHeartbeat) return 'never';
+  const seconds = Math.max(0, Math.round((now - new Date(lastHeartbeat).getTime()) / 1000));
+  if (seconds < 60) return `${seconds}s ago`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h ago`;
+  return `${Math.floor(seconds / 86400)}d ago`;
+}
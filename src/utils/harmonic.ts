@@ -0,0 +1,130 @@
+/**
+ * Harmonic mixing - "good next tracks" from the BPM and Camelot key measured by the
+ * main process library job (electron/music-analyzer.cjs)
+ *
+ * Two keys mix well when they are the same, relative major/minor (same number),
+ * or one step around the Camelot wheel (same letter, number +/- 1).
+ */
+
+import { Video } from '../types';
+
+export const DEFAULT_MAX_BPM_DIFFERENCE = 0.06; // 6% - about what a DJ would pitch a track
+export const HARMONIC_FILL_THRESHOLD = 3; // Auto-fill when fewer upcoming tracks than this
+export const HARMONIC_FILL_COUNT = 5;
+
+interface CamelotKey {
+  number: number; // 1-12
+  letter: 'A' | 'B'; // A = minor, B = major
+}
+
+export function parseCamelot(code: string | null | undefined): CamelotKey | null {
+  const match = code?.trim().toUpperCase().match(/^(\d{1,2})([AB])$/);
+  if (!match) return null;
+  const number = Number(match[1]);
+  if (number < 1 || number > 12) return null;
+  return { number, letter: match[2] as 'A' | 'B' };
+}
+
+/**
+ * 0 for the same key, 1 for a compatible key, null when they clash or are unknown
+ */
+export function getKeyDistance(from: string | null | undefined, to: string | null | undefined): number | null {
+  const a = parseCamelot(from);
+  const b = parseCamelot(to);
+  if (!a || !b) return null;
+  if (a.number === b.number) {
+    return a.letter === b.letter ? 0 : 1;
+  }
+  const step = Math.abs(a.number - b.number);
+  return a.letter === b.letter && (step === 1 || step === 11) ? 1 : null;
+}
+
+/**
+ * Relative tempo difference (0.05 = 5%), treating half and double time as the same tempo
+ */
+export function getBpmDifference(from: number, to: number): number {
+  return Math.min(...[to, to * 2, to / 2].map(candidate => Math.abs(candidate - from) / from));
+}
+
+function getVideoKey(video: Video): string {
+  return video.path || video.file_path || video.src || video.id;
+}
+
+/**
+ * Analyzed tracks that mix well after `current`, best first: same key before compatible
+ * keys, then closest tempo. Tracks without BPM/key or in `exclude` are left out.
+ */
+export function getHarmonicSuggestions(
+  current: Video | null | undefined,
+  candidates: Video[],
+  options: { limit?: number; maxBpmDifference?: number; exclude?: Video[] } = {}
+): Video[] {
+  const { limit = 10, maxBpmDifference = DEFAULT_MAX_BPM_DIFFERENCE, exclude = [] } = options;
+  if (!current || typeof current.bpm !== 'number' || !parseCamelot(current.camelotKey)) {
+    return [];
+  }
+
+  const excluded = new Set([current, ...exclude].map(getVideoKey));
+  const scored: { video: Video; keyDistance: number; bpmDifference: number }[] = [];
+  for (const video of candidates) {
+    if (typeof video.bpm !== 'number' || excluded.has(getVideoKey(video))) continue;
+    const keyDistance = getKeyDistance(current.camelotKey, video.camelotKey);
+    if (keyDistance === null) continue;
+    const bpmDifference = getBpmDifference(current.bpm, video.bpm);
+    if (bpmDifference > maxBpmDifference) continue;
+    scored.push({ video, keyDistance, bpmDifference });
+  }
+
+  return scored
+    .sort((a, b) => a.keyDistance - b.keyDistance || a.bpmDifference - b.bpmDifference)
+    .slice(0, limit)
+    .map(({ video }) => video);
+}
+
+/**
+ * A chain of `count` tracks that each mix well after the previous one, starting from `seed`.
+ * Picks randomly among the best few so the same seed doesn't always give the same set.
+ * Stops early when nothing compatible is left.
+ */
+export function pickHarmonicFill(
+  seed: Video,
+  library: Video[],
+  count: number,
+  exclude: Video[] = [],
+  random: () => number = Math.random
+): Video[] {
+  const picks: Video[] = [];
+  let previous = seed;
+  while (picks.length < count) {
+    const options = getHarmonicSuggestions(previous, library, { limit: 5, exclude: [...exclude, seed, ...picks] });
+    if (options.length === 0) break;
+    previous = options[Math.floor(random() * options.length)];
+    picks.push(previous);
+  }
+  return picks;
+}
+
+/**
+ * Auto-fill for the active queue (index 0 is now playing): once fewer than
+ * HARMONIC_FILL_THRESHOLD tracks are upcoming, a chain of HARMONIC_FILL_COUNT tracks from
+ * `library` that mix well after the last queued one, leaving out everything already queued.
+ * The last track's BPM and key are looked up in `analyzed` (queue items may not carry them).
+ * @returns null while the queue is empty or long enough; seedKey identifies the queue state
+ *   the picks were made for, so the caller can fill once per state
+ */
+export function planHarmonicAutoFill(
+  queue: Video[],
+  priorityQueue: Video[],
+  library: Video[],
+  analyzed: Video[] = library,
+  random: () => number = Math.random
+): { seedKey: string; picks: Video[] } | null {
+  if (queue.length === 0 || queue.length - 1 >= HARMONIC_FILL_THRESHOLD) return null;
+
+  const last = queue[queue.length - 1];
+  const seed = analyzed.find(v => v.path && v.path === last.path) || last;
+  return {
+    seedKey: `${seed.path || seed.id}|${queue.length}`,
+    picks: pickHarmonicFill(seed, library, HARMONIC_FILL_COUNT, [...queue, ...priorityQueue], random)
+  };
+}
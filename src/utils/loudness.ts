@@ -0,0 +1,44 @@
+/**
+ * Loudness normalization (ReplayGain-style) - per-track gain from the integrated
+ * loudness and true peak measured once per file by the main process
+ * (electron/audio-analyzer.cjs), plus an optional manual trim per track
+ */
+
+export const DEFAULT_TARGET_LOUDNESS = -14; // LUFS
+export const MIN_TARGET_LOUDNESS = -23;
+export const MAX_TARGET_LOUDNESS = -8;
+
+// Boosts never push the true peak above this (dBTP)
+const TRUE_PEAK_CEILING_DB = -1;
+
+// Limits on the applied gain so bad measurements can't blast or mute a track
+const MIN_GAIN_DB = -24;
+const MAX_GAIN_DB = 12;
+
+export interface LoudnessInfo {
+  integratedLufs?: number | null;
+  truePeakDb?: number | null;
+  gainTrimDb?: number;
+}
+
+/**
+ * Gain (dB) that brings a track to the target loudness, limited by its true peak,
+ * then adjusted by the manual trim. Unmeasured tracks get only the trim.
+ */
+export function getNormalizationGainDb(loudness: LoudnessInfo | null | undefined, targetLufs: number): number {
+  const trim = loudness?.gainTrimDb || 0;
+  let gain = 0;
+
+  if (typeof loudness?.integratedLufs === 'number') {
+    gain = targetLufs - loudness.integratedLufs;
+    if (typeof loudness.truePeakDb === 'number') {
+      gain = Math.min(gain, TRUE_PEAK_CEILING_DB - loudness.truePeakDb);
+    }
+  }
+
+  return Math.max(MIN_GAIN_DB, Math.min(MAX_GAIN_DB, gain + trim));
+}
+
+export function dbToGain(db: number): number {
+  return Math.pow(10, db / 20);
+}
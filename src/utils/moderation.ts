@@ -0,0 +1,75 @@
+/**
+ * Content moderation on the player - which library tracks may be queued, searched or
+ * picked by the Auto-DJ. Decisions live in Supabase (local_videos.content_status /
+ * is_explicit, content_policies); the player keeps the last snapshot it read so the
+ * rules still apply while it is offline or in LAN mode.
+ */
+
+import type { Video } from '../types';
+import type { ContentPolicy } from '../types/supabase';
+
+export interface ModerationSnapshot {
+  rejected: string[]; // File paths moderation rejected
+  explicit: string[]; // File paths flagged explicit
+  policy: ContentPolicy | null;
+  fetchedAt: string;
+}
+
+export const EMPTY_MODERATION_SNAPSHOT: ModerationSnapshot = { rejected: [], explicit: [], policy: null, fetchedAt: '' };
+
+/**
+ * Same key as local_videos.file_path
+ */
+export function getModerationKey(video: Pick<Video, 'path' | 'file_path' | 'src'>): string {
+  return video.path || video.file_path || video.src;
+}
+
+// 'HH:MM' or 'HH:MM:SS' -> minutes since midnight
+function toMinutes(time: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})/.exec(time || '');
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+}
+
+/**
+ * Whether the policy allows explicit tracks at `now` - the same rule as the
+ * explicit_content_allowed SQL function (venue local time, windows may wrap midnight).
+ * A policy that can't be evaluated (bad time zone or times) blocks explicit tracks.
+ */
+export function isExplicitAllowedAt(policy: ContentPolicy | null, now: Date): boolean {
+  if (!policy || !policy.hide_explicit_daytime) return true;
+
+  const start = toMinutes(policy.daytime_start);
+  const end = toMinutes(policy.daytime_end);
+  let local: number;
+  try {
+    const parts = new Intl.DateTimeFormat('en-GB', {
+      timeZone: policy.timezone || 'UTC',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23'
+    }).formatToParts(now);
+    const hour = Number(parts.find(part => part.type === 'hour')?.value);
+    const minute = Number(parts.find(part => part.type === 'minute')?.value);
+    local = hour * 60 + minute;
+  } catch {
+    return false;
+  }
+  if (start === null || end === null || !Number.isFinite(local)) return false;
+
+  const inDaytime = start <= end
+    ? local >= start && local < end
+    : local >= start || local < end;
+  return !inDaytime;
+}
+
+/**
+ * File paths that must not be offered at `now`: rejected ones, plus explicit ones
+ * while the daytime policy is active
+ */
+export function getBlockedVideoKeys(snapshot: ModerationSnapshot, now: Date): Set<string> {
+  const blocked = new Set(snapshot.rejected);
+  if (!isExplicitAllowedAt(snapshot.policy, now)) {
+    snapshot.explicit.forEach(key => blocked.add(key));
+  }
+  return blocked;
+}
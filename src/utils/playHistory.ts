@@ -0,0 +1,54 @@
+/**
+ * Play history helpers - labels and CSV export for the History tab
+ */
+
+import type { PlayHistoryEntry } from '../types/supabase';
+
+const TRANSITION_LABELS: Record<string, string> = {
+  natural_end: 'Finished',
+  early_crossfade: 'Crossfaded',
+  user_skip: 'Skipped',
+  manual_next: 'Next',
+  scheduled: 'Scheduled',
+  error: 'Error'
+};
+
+/**
+ * Human readable label for a transition reason
+ */
+export function getTransitionLabel(reason: string): string {
+  return TRANSITION_LABELS[reason] || reason;
+}
+
+/**
+ * Quote a CSV field if it contains a delimiter, quote or newline
+ */
+function escapeCsvField(value: string | number | boolean | null | undefined): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Convert play history entries to CSV (one row per play, header included)
+ */
+export function playHistoryToCsv(entries: PlayHistoryEntry[]): string {
+  const header = [
+    'Started', 'Ended', 'Title', 'Artist', 'Seconds Played', 'Transition',
+    'From Priority', 'Requested By Kiosk', 'Counted', 'File Path'
+  ];
+  const rows = entries.map(entry => [
+    entry.started_at,
+    entry.played_at,
+    entry.title,
+    entry.artist,
+    entry.seconds_played,
+    entry.transition_reason,
+    entry.from_priority,
+    entry.requested_by_kiosk,
+    entry.counts_toward_charts,
+    entry.file_path
+  ].map(escapeCsvField).join(','));
+
+  return [header.join(','), ...rows].join('\r\n');
+}
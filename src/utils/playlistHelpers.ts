@@ -1,4 +1,5 @@
 // utils/playlistHelpers.ts
+import type { Video, VideoMetadataField, VideoMetadataSource } from '../types';
 
 /**
  * Format duration in seconds to MM:SS format
@@ -186,3 +187,45 @@ export function cleanVideoTitle(title: string | null | undefined): string {
   
   return title || 'Unknown';
 }
+
+const METADATA_SOURCE_LABELS: Record<VideoMetadataSource, string> = {
+  container: 'file tags',
+  filename: 'filename',
+  folder: 'folder name'
+};
+
+/**
+ * Describe where a video's metadata came from, grouped by source in field order
+ * e.g. "title, artist, year from file tags · album from filename"
+ *
+ * @param sources - Video.metadataSources (as set by get-playlists)
+ * @returns The description, or empty string when sources are unknown
+ */
+export function describeMetadataSources(sources: Partial<Record<VideoMetadataField, VideoMetadataSource>> | undefined): string {
+  if (!sources) return '';
+  const fieldsBySource = new Map<VideoMetadataSource, string[]>();
+  for (const [field, source] of Object.entries(sources) as [VideoMetadataField, VideoMetadataSource][]) {
+    if (!fieldsBySource.has(source)) fieldsBySource.set(source, []);
+    fieldsBySource.get(source)!.push(field === 'fps' ? 'frame rate' : field);
+  }
+  return Array.from(fieldsBySource, ([source, fields]) => `${fields.join(', ')} from ${METADATA_SOURCE_LABELS[source]}`).join(' · ');
+}
+
+/**
+ * Album/year/genre and stream details read from the container, for compact display
+ * e.g. "Discovery (2001) · House · 1920x1080 · h264 · 29.97 fps"
+ *
+ * @param video - The video
+ * @returns The details, or empty string when the container had none
+ */
+export function formatVideoDetails(video: Video): string {
+  const album = video.album && video.year ? `${video.album} (${video.year})` : video.album || (video.year ? String(video.year) : '');
+  return [
+    album,
+    video.genre,
+    video.resolution,
+    video.codec,
+    video.fps ? `${video.fps} fps` : '',
+    video.bitrate ? `${video.bitrate} kb/s` : ''
+  ].filter(Boolean).join(' · ');
+}
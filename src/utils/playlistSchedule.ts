@@ -0,0 +1,106 @@
+/**
+ * Playlist schedule (dayparting) - weekly time slots that load a playlist
+ * automatically, evaluated in the player's local time
+ */
+
+export type PriorityRequestHandling = 'keep' | 'drop';
+
+export interface PlaylistScheduleSlot {
+  id: string;
+  playlistName: string;
+  days: number[];         // Days the slot starts on, 0 = Sunday ... 6 = Saturday
+  startTime: string;      // 'HH:MM'
+  endTime: string;        // 'HH:MM' - at or before startTime means the slot runs past midnight
+  shuffle: boolean;
+  finishCurrentSong: boolean;                // Wait for the current song to end before switching
+  priorityRequests: PriorityRequestHandling; // Pending kiosk requests survive the switch, or are dropped
+}
+
+export interface PlaylistSchedule {
+  enabled: boolean;
+  slots: PlaylistScheduleSlot[];
+}
+
+export const DEFAULT_PLAYLIST_SCHEDULE: PlaylistSchedule = {
+  enabled: false,
+  slots: []
+};
+
+export const ALL_DAYS = [0, 1, 2, 3, 4, 5, 6];
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/** Parse 'HH:MM' into minutes after midnight, or null when malformed */
+export function parseClockTime(value: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+}
+
+/**
+ * How many minutes the slot has been running at `now`, or null when it is not active.
+ * A slot that wraps midnight belongs to the day it starts on.
+ */
+function minutesIntoSlot(slot: PlaylistScheduleSlot, now: Date): number | null {
+  const start = parseClockTime(slot.startTime);
+  const end = parseClockTime(slot.endTime);
+  if (start === null || end === null || !slot.playlistName) return null;
+
+  const nowMinutes = now.getHours() * 60 + now.getMinutes();
+  const today = now.getDay();
+  const yesterday = (today + 6) % 7;
+  const wraps = end <= start;
+
+  if (!wraps) {
+    return slot.days.includes(today) && nowMinutes >= start && nowMinutes < end
+      ? nowMinutes - start
+      : null;
+  }
+  if (slot.days.includes(today) && nowMinutes >= start) {
+    return nowMinutes - start;
+  }
+  if (slot.days.includes(yesterday) && nowMinutes < end) {
+    return MINUTES_PER_DAY - start + nowMinutes;
+  }
+  return null;
+}
+
+/**
+ * The slot that should be playing at `now`, or null outside every slot.
+ * When slots overlap, the one that started most recently wins, so a short
+ * "Happy Hour" slot takes over from an all-afternoon slot and hands back after.
+ */
+export function getActiveScheduleSlot(
+  schedule: PlaylistSchedule,
+  now: Date = new Date()
+): PlaylistScheduleSlot | null {
+  if (!schedule.enabled) return null;
+
+  let active: PlaylistScheduleSlot | null = null;
+  let activeMinutes = Infinity;
+  for (const slot of schedule.slots) {
+    const minutes = minutesIntoSlot(slot, now);
+    if (minutes !== null && minutes < activeMinutes) {
+      active = slot;
+      activeMinutes = minutes;
+    }
+  }
+  return active;
+}
+
+/** A new slot with sensible defaults for the settings editor */
+export function createScheduleSlot(playlistName: string): PlaylistScheduleSlot {
+  return {
+    id: `slot-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    playlistName,
+    days: [...ALL_DAYS],
+    startTime: '17:00',
+    endTime: '19:00',
+    shuffle: true,
+    finishCurrentSong: true,
+    priorityRequests: 'keep'
+  };
+}
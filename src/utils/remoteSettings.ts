@@ -0,0 +1,76 @@
+/**
+ * Player settings the web admin may change through the settings_update command,
+ * with the type and range each one accepts - anything else never reaches the store
+ */
+
+import type { AutoDjStrategy, CrossfadeMode } from '../types';
+import type { CrossfadeCurve, TransitionStyle } from './crossfade';
+import { MIN_TARGET_LOUDNESS, MAX_TARGET_LOUDNESS } from './loudness';
+
+export interface RemotePlayerSettings {
+  autoDjStrategy: AutoDjStrategy;
+  autoShufflePlaylists: boolean;
+  harmonicAutoFill: boolean;
+  normalizeAudioLevels: boolean;
+  targetLoudness: number;     // LUFS
+  fadeDuration: number;       // Seconds
+  crossfadeMode: CrossfadeMode;
+  crossfadeCurve: CrossfadeCurve;
+  audioFadeDuration: number;  // Seconds
+  videoFadeDuration: number;  // Seconds
+  transitionStyle: TransitionStyle;
+  queueRestoreMode: 'resume' | 'restart' | 'fresh';
+}
+
+type SettingRule =
+  | { type: 'boolean' }
+  | { type: 'number'; min: number; max: number }
+  | { type: 'option'; options: readonly string[] };
+
+// Ranges match the Player Window's own settings controls
+const REMOTE_SETTING_RULES: Record<keyof RemotePlayerSettings, SettingRule> = {
+  autoDjStrategy: { type: 'option', options: ['loop', 'shuffle-on-wrap', 'weighted-random', 'more-like-last-request', 'least-recently-played'] },
+  autoShufflePlaylists: { type: 'boolean' },
+  harmonicAutoFill: { type: 'boolean' },
+  normalizeAudioLevels: { type: 'boolean' },
+  targetLoudness: { type: 'number', min: MIN_TARGET_LOUDNESS, max: MAX_TARGET_LOUDNESS },
+  fadeDuration: { type: 'number', min: 0, max: 5 },
+  crossfadeMode: { type: 'option', options: ['manual', 'seamless', 'djmix'] },
+  crossfadeCurve: { type: 'option', options: ['linear', 'equal-power', 'logarithmic', 's-curve'] },
+  audioFadeDuration: { type: 'number', min: 0.5, max: 10 },
+  videoFadeDuration: { type: 'number', min: 0.5, max: 10 },
+  transitionStyle: { type: 'option', options: ['dissolve', 'dip-to-black', 'slide'] },
+  queueRestoreMode: { type: 'option', options: ['resume', 'restart', 'fresh'] }
+};
+
+function isValidSetting(rule: SettingRule, value: unknown): boolean {
+  switch (rule.type) {
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value) && value >= rule.min && value <= rule.max;
+    case 'option':
+      return typeof value === 'string' && rule.options.includes(value);
+  }
+}
+
+/**
+ * Split a settings_update payload into the settings to apply and the keys that were
+ * rejected (unknown setting, wrong type or out of range)
+ */
+export function validateRemoteSettings(settings: Record<string, unknown>): {
+  updates: Partial<RemotePlayerSettings>;
+  rejected: string[];
+} {
+  const updates: Record<string, unknown> = {};
+  const rejected: string[] = [];
+  for (const [key, value] of Object.entries(settings)) {
+    const known = Object.prototype.hasOwnProperty.call(REMOTE_SETTING_RULES, key);
+    if (known && isValidSetting(REMOTE_SETTING_RULES[key as keyof RemotePlayerSettings], value)) {
+      updates[key] = value;
+    } else {
+      rejected.push(key);
+    }
+  }
+  return { updates: updates as Partial<RemotePlayerSettings>, rejected };
+}
@@ -0,0 +1,99 @@
+/**
+ * Kiosk request rules - anti-repeat limits enforced by the player before a
+ * kiosk request is added to the priority queue
+ */
+
+import type { Video } from '../types';
+import type { PlayHistoryEntry } from '../types/supabase';
+
+export interface RequestRules {
+  repeatWindowMinutes: number;      // Same video can't be requested again within this window (0 = off)
+  maxSongsPerArtistPerHour: number; // Songs by one artist played or queued per hour (0 = off)
+  maxPendingPerKiosk: number;       // Requests waiting in the priority queue per kiosk (0 = off)
+}
+
+export const DEFAULT_REQUEST_RULES: RequestRules = {
+  repeatWindowMinutes: 60,
+  maxSongsPerArtistPerHour: 3,
+  maxPendingPerKiosk: 3
+};
+
+export interface RequestRuleContext {
+  nowPlaying: Video | null;
+  priorityQueue: Video[];
+  recentPlays: PlayHistoryEntry[]; // Newest first, as returned by getPlayHistory
+  now?: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+function videoKey(video: Pick<Video, 'path' | 'file_path' | 'src'>): string {
+  return video.path || video.file_path || video.src;
+}
+
+function normalizeArtist(artist: string | null | undefined): string {
+  return (artist || '').trim().toLowerCase();
+}
+
+function formatMinutes(minutes: number): string {
+  return minutes === 1 ? '1 minute' : `${minutes} minutes`;
+}
+
+/**
+ * Check a kiosk request against the request rules
+ * @returns A human-readable rejection reason, or null if the request is allowed
+ */
+export function checkRequestRules(
+  video: Video,
+  kioskId: string,
+  rules: RequestRules,
+  context: RequestRuleContext
+): string | null {
+  const now = context.now ?? Date.now();
+  const key = videoKey(video);
+  // Failed loads were never heard, so they don't count against any rule
+  const heardPlays = context.recentPlays.filter(play => play.transition_reason !== 'error');
+
+  // Already playing or waiting - the queue would drop it anyway
+  if (context.nowPlaying && videoKey(context.nowPlaying) === key) {
+    return 'This song is playing right now.';
+  }
+  if (context.priorityQueue.some(queued => videoKey(queued) === key)) {
+    return 'This song is already in the request queue.';
+  }
+
+  if (rules.maxPendingPerKiosk > 0) {
+    const pending = context.priorityQueue.filter(queued => queued.requestedByKiosk === kioskId).length;
+    if (pending >= rules.maxPendingPerKiosk) {
+      return `You already have ${pending} request${pending === 1 ? '' : 's'} waiting. Please wait for one to play before requesting another.`;
+    }
+  }
+
+  if (rules.repeatWindowMinutes > 0) {
+    const lastPlay = heardPlays.find(play => play.file_path === key);
+    if (lastPlay) {
+      const playedAt = new Date(lastPlay.started_at || lastPlay.played_at).getTime();
+      const minutesAgo = Math.floor((now - playedAt) / MINUTE_MS);
+      if (minutesAgo < rules.repeatWindowMinutes) {
+        const wait = Math.max(1, rules.repeatWindowMinutes - minutesAgo);
+        return `This song played ${minutesAgo < 1 ? 'just now' : `${formatMinutes(minutesAgo)} ago`}. It can be requested again in ${formatMinutes(wait)}.`;
+      }
+    }
+  }
+
+  const artist = normalizeArtist(video.artist);
+  if (rules.maxSongsPerArtistPerHour > 0 && artist) {
+    const played = heardPlays.filter(play =>
+      normalizeArtist(play.artist) === artist && now - new Date(play.played_at).getTime() < HOUR_MS
+    ).length;
+    const upcoming = [context.nowPlaying, ...context.priorityQueue].filter(queued =>
+      queued && normalizeArtist(queued.artist) === artist
+    ).length;
+    if (played + upcoming >= rules.maxSongsPerArtistPerHour) {
+      return `${video.artist} has already had ${played + upcoming} songs this hour. Please choose a different artist.`;
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,168 @@
+/**
+ * Virtual playlist helpers - resolving video IDs against the library, and M3U/M3U8 and
+ * JSON import/export for the playlist editor (player and web admin)
+ */
+
+import type { Video, VirtualPlaylist } from '../types';
+
+export type PlaylistFileFormat = 'm3u8' | 'json';
+
+export interface ParsedPlaylistFile {
+  name: string;
+  videoIds: string[]; // Entries found in the library, in file order
+  missing: string[];  // Entries that matched nothing
+}
+
+/**
+ * The ID a virtual playlist stores for a video (its file path)
+ */
+export function getVirtualPlaylistVideoId(video: Video): string {
+  return video.path || video.file_path || video.src;
+}
+
+function fileNameOf(filePath: string): string {
+  return filePath.split(/[\\/]/).pop()?.toLowerCase() || '';
+}
+
+/**
+ * Lookup from video ID - and, for entries written on another machine or with relative
+ * paths, from bare file name - to the library video
+ */
+function indexLibrary(library: Record<string, Video[]>) {
+  const byId = new Map<string, Video>();
+  const byFileName = new Map<string, Video>();
+  for (const videos of Object.values(library)) {
+    for (const video of videos) {
+      const id = getVirtualPlaylistVideoId(video);
+      if (!id || byId.has(id)) continue;
+      byId.set(id, video);
+      const fileName = fileNameOf(id);
+      if (fileName && !byFileName.has(fileName)) {
+        byFileName.set(fileName, video);
+      }
+    }
+  }
+  return {
+    find: (entry: string) => byId.get(entry) || byFileName.get(fileNameOf(entry)) || null
+  };
+}
+
+/**
+ * The library video for each ID, in order - null where the file is no longer in the library
+ */
+export function findVirtualPlaylistVideos(videoIds: string[], library: Record<string, Video[]>): (Video | null)[] {
+  const { find } = indexLibrary(library);
+  return videoIds.map(id => find(id));
+}
+
+/**
+ * The playlist's videos in order, skipping IDs no longer in the library
+ */
+export function resolveVirtualPlaylist(playlist: VirtualPlaylist, library: Record<string, Video[]>): Video[] {
+  return findVirtualPlaylistVideos(playlist.videoIds, library)
+    .filter((video): video is Video => video !== null);
+}
+
+/**
+ * Extended M3U (UTF-8, so also valid as .m3u8) with absolute paths
+ */
+export function virtualPlaylistToM3u(playlist: VirtualPlaylist, library: Record<string, Video[]>): string {
+  const { find } = indexLibrary(library);
+  const lines = ['#EXTM3U', `#PLAYLIST:${playlist.name}`];
+  for (const id of playlist.videoIds) {
+    const video = find(id);
+    if (video) {
+      const duration = video.duration ? Math.round(video.duration) : -1;
+      const label = video.artist ? `${video.artist} - ${video.title}` : video.title;
+      lines.push(`#EXTINF:${duration},${label}`);
+    }
+    lines.push(id);
+  }
+  return lines.join('\n') + '\n';
+}
+
+export function virtualPlaylistToJson(playlist: VirtualPlaylist, library: Record<string, Video[]>): string {
+  const { find } = indexLibrary(library);
+  return JSON.stringify({
+    name: playlist.name,
+    videos: playlist.videoIds.map(id => {
+      const video = find(id);
+      return { id, title: video?.title ?? null, artist: video?.artist ?? null, duration: video?.duration ?? null };
+    })
+  }, null, 2);
+}
+
+function m3uEntryToPath(line: string): string {
+  if (!line.startsWith('file://')) return line;
+  try {
+    return decodeURIComponent(new URL(line).pathname).replace(/^\/([A-Za-z]:\/)/, '$1');
+  } catch {
+    return line;
+  }
+}
+
+function readJsonEntries(data: unknown): { name: string | null; entries: string[] } {
+  const playlist = (Array.isArray(data) ? {} : data || {}) as { name?: unknown; videoIds?: unknown; videos?: unknown };
+  const list = Array.isArray(data) ? data : playlist.videoIds ?? playlist.videos;
+  if (!Array.isArray(list)) {
+    throw new Error('JSON playlist must be a list of paths, or an object with "videoIds" or "videos"');
+  }
+  const entries = list
+    .map(item => typeof item === 'string' ? item : (item?.id || item?.path || item?.file_path))
+    .filter((entry): entry is string => typeof entry === 'string' && entry.length > 0);
+  return { name: typeof playlist.name === 'string' ? playlist.name : null, entries };
+}
+
+/**
+ * Read an M3U/M3U8 or JSON playlist (format from the file name, JSON if it parses as such)
+ * and match its entries to the library. The name comes from the file (#PLAYLIST or "name")
+ * or else the file name.
+ */
+export function parsePlaylistFile(content: string, fileName: string, library: Record<string, Video[]>): ParsedPlaylistFile {
+  const text = content.replace(/^\uFEFF/, '');
+  const baseName = fileName.replace(/\.[^.]+$/, '');
+  let name: string | null = null;
+  let entries: string[];
+
+  if (/\.json$/i.test(fileName) || /^\s*[[{]/.test(text)) {
+    ({ name, entries } = readJsonEntries(JSON.parse(text)));
+  } else {
+    entries = [];
+    for (const rawLine of text.split(/\r?\n/)) {
+      const line = rawLine.trim();
+      if (!line) continue;
+      if (line.startsWith('#PLAYLIST:')) {
+        name = line.slice('#PLAYLIST:'.length).trim() || null;
+      } else if (!line.startsWith('#')) {
+        entries.push(m3uEntryToPath(line));
+      }
+    }
+  }
+
+  const { find } = indexLibrary(library);
+  const videoIds: string[] = [];
+  const missing: string[] = [];
+  for (const entry of entries) {
+    const video = find(entry);
+    if (video) {
+      videoIds.push(getVirtualPlaylistVideoId(video));
+    } else {
+      missing.push(entry);
+    }
+  }
+  return { name: name || baseName, videoIds, missing };
+}
+
+/**
+ * Save a playlist file through the browser download (Electron shows a save dialog)
+ */
+export function downloadVirtualPlaylist(playlist: VirtualPlaylist, library: Record<string, Video[]>, format: PlaylistFileFormat): void {
+  const content = format === 'json' ? virtualPlaylistToJson(playlist, library) : virtualPlaylistToM3u(playlist, library);
+  const blob = new Blob([content], { type: format === 'json' ? 'application/json' : 'audio/x-mpegurl;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${playlist.name.replace(/[\\/:*?"<>|]/g, '_')}.${format}`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
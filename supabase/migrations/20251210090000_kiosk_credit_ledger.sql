@@ -0,0 +1,169 @@
+-- ============================================================
+-- DJAMMS Kiosk Credit Ledger
+-- Server-side credit balances per kiosk, backed by an append-only ledger
+-- ============================================================
+
+-- ============================================================
+-- Ledger: one row per deposit / spend / refund / clear
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS kiosk_credit_ledger (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  player_id VARCHAR(50) NOT NULL,
+  kiosk_id VARCHAR(50) NOT NULL DEFAULT 'main',
+  entry_type VARCHAR(20) NOT NULL CHECK (entry_type IN ('deposit', 'spend', 'refund', 'clear')),
+  amount INTEGER NOT NULL,              -- Signed delta applied to the balance
+  balance_after INTEGER NOT NULL,
+  related_entry_id UUID REFERENCES kiosk_credit_ledger(id), -- Spend that a refund reverses
+  source VARCHAR(50),                   -- kiosk, web-admin, electron-player, coin-acceptor...
+  note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_kiosk_credit_ledger_kiosk
+  ON kiosk_credit_ledger(player_id, kiosk_id, created_at DESC);
+
+-- Only one refund may ever reference a given spend
+CREATE UNIQUE INDEX IF NOT EXISTS idx_kiosk_credit_ledger_single_refund
+  ON kiosk_credit_ledger(related_entry_id)
+  WHERE entry_type = 'refund';
+
+-- ============================================================
+-- Balances: current balance per kiosk (row-locked by kiosk_credit_apply)
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS kiosk_credit_balances (
+  player_id VARCHAR(50) NOT NULL,
+  kiosk_id VARCHAR(50) NOT NULL DEFAULT 'main',
+  balance INTEGER NOT NULL DEFAULT 0 CHECK (balance >= 0),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (player_id, kiosk_id)
+);
+
+-- Permissive policies (app filters by player_id, same as player_state)
+ALTER TABLE kiosk_credit_ledger ENABLE ROW LEVEL SECURITY;
+ALTER TABLE kiosk_credit_balances ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS kiosk_credit_ledger_read ON kiosk_credit_ledger;
+CREATE POLICY kiosk_credit_ledger_read ON kiosk_credit_ledger
+  FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS kiosk_credit_balances_read ON kiosk_credit_balances;
+CREATE POLICY kiosk_credit_balances_read ON kiosk_credit_balances
+  FOR SELECT USING (true);
+
+-- Writes only go through kiosk_credit_apply (SECURITY DEFINER), so a browser
+-- cannot simply UPDATE its own balance. Clients cannot call it either: the
+-- player applies every entry itself (player_kiosk_credit_apply)
+
+-- Realtime so kiosks can subscribe to their live balance
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'kiosk_credit_balances'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE kiosk_credit_balances;
+  END IF;
+END $$;
+
+-- ============================================================
+-- kiosk_credit_apply: atomic balance change + ledger entry
+-- ============================================================
+-- p_amount is always a positive magnitude; the sign is derived from p_entry_type.
+-- Raises INSUFFICIENT_CREDITS when a spend would take the balance below zero.
+-- Refunding an already-refunded spend is a no-op that returns the current balance.
+
+CREATE OR REPLACE FUNCTION kiosk_credit_apply(
+  p_player_id TEXT,
+  p_kiosk_id TEXT,
+  p_entry_type TEXT,
+  p_amount INTEGER DEFAULT 0,
+  p_source TEXT DEFAULT NULL,
+  p_related_entry_id UUID DEFAULT NULL,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  entry_id UUID,
+  balance INTEGER
+) AS $$
+DECLARE
+  v_kiosk_id TEXT := COALESCE(NULLIF(p_kiosk_id, ''), 'main');
+  v_balance INTEGER;
+  v_delta INTEGER;
+  v_entry_id UUID;
+  v_spend kiosk_credit_ledger%ROWTYPE;
+BEGIN
+  IF p_entry_type NOT IN ('deposit', 'spend', 'refund', 'clear') THEN
+    RAISE EXCEPTION 'INVALID_ENTRY_TYPE: %', p_entry_type;
+  END IF;
+
+  IF p_entry_type IN ('deposit', 'spend') AND (p_amount IS NULL OR p_amount <= 0) THEN
+    RAISE EXCEPTION 'INVALID_AMOUNT: %', p_amount;
+  END IF;
+
+  -- Make sure the balance row exists, then lock it for the rest of the transaction
+  INSERT INTO kiosk_credit_balances (player_id, kiosk_id, balance)
+  VALUES (p_player_id, v_kiosk_id, 0)
+  ON CONFLICT (player_id, kiosk_id) DO NOTHING;
+
+  SELECT kcb.balance INTO v_balance
+  FROM kiosk_credit_balances kcb
+  WHERE kcb.player_id = p_player_id AND kcb.kiosk_id = v_kiosk_id
+  FOR UPDATE;
+
+  IF p_entry_type = 'deposit' THEN
+    v_delta := p_amount;
+  ELSIF p_entry_type = 'spend' THEN
+    IF v_balance < p_amount THEN
+      RAISE EXCEPTION 'INSUFFICIENT_CREDITS: balance %, required %', v_balance, p_amount;
+    END IF;
+    v_delta := -p_amount;
+  ELSIF p_entry_type = 'refund' THEN
+    SELECT * INTO v_spend
+    FROM kiosk_credit_ledger kcl
+    WHERE kcl.id = p_related_entry_id
+      AND kcl.entry_type = 'spend'
+      AND kcl.player_id = p_player_id
+      AND kcl.kiosk_id = v_kiosk_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'SPEND_NOT_FOUND: %', p_related_entry_id;
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM kiosk_credit_ledger kcl
+      WHERE kcl.related_entry_id = p_related_entry_id AND kcl.entry_type = 'refund'
+    ) THEN
+      RETURN QUERY SELECT NULL::UUID, v_balance;
+      RETURN;
+    END IF;
+
+    v_delta := -v_spend.amount;
+  ELSE
+    v_delta := -v_balance;
+  END IF;
+
+  v_balance := v_balance + v_delta;
+
+  UPDATE kiosk_credit_balances kcb
+  SET balance = v_balance, updated_at = NOW()
+  WHERE kcb.player_id = p_player_id AND kcb.kiosk_id = v_kiosk_id;
+
+  INSERT INTO kiosk_credit_ledger (player_id, kiosk_id, entry_type, amount, balance_after, related_entry_id, source, note)
+  VALUES (p_player_id, v_kiosk_id, p_entry_type, v_delta, v_balance, p_related_entry_id, p_source, p_note)
+  RETURNING id INTO v_entry_id;
+
+  RETURN QUERY SELECT v_entry_id, v_balance;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Internal only - a kiosk holding the anon key must not be able to deposit or refund
+REVOKE EXECUTE ON FUNCTION kiosk_credit_apply(TEXT, TEXT, TEXT, INTEGER, TEXT, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================
+-- Verification Queries
+-- ============================================================
+
+-- SELECT * FROM kiosk_credit_apply('DEMO_PLAYER', 'main', 'deposit', 3, 'web-admin');  -- SQL editor only
+-- SELECT * FROM kiosk_credit_ledger WHERE player_id = 'DEMO_PLAYER' ORDER BY created_at DESC;
@@ -0,0 +1,156 @@
+-- ============================================================
+-- DJAMMS Play Counts & Top Charts
+-- Per-play history recorded by the Electron player when a track finishes,
+-- plus ranked charts over selectable windows for the kiosk
+-- ============================================================
+
+-- ============================================================
+-- local_videos: running totals (already returned by search_videos)
+-- ============================================================
+
+ALTER TABLE local_videos
+  ADD COLUMN IF NOT EXISTS play_count INTEGER DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS last_played TIMESTAMP WITH TIME ZONE;
+
+-- ============================================================
+-- video_plays: one row per completed play
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS video_plays (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  player_id VARCHAR(50) NOT NULL,
+  video_id UUID REFERENCES local_videos(id) ON DELETE CASCADE, -- NULL if the file was never indexed
+  file_path TEXT NOT NULL,
+  title TEXT,
+  artist TEXT,
+  seconds_played INTEGER,
+  played_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_video_plays_player_played_at
+  ON video_plays(player_id, played_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_video_plays_video
+  ON video_plays(player_id, video_id);
+
+-- Permissive read (app filters by player_id); writes go through record_video_play
+ALTER TABLE video_plays ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS video_plays_read ON video_plays;
+CREATE POLICY video_plays_read ON video_plays
+  FOR SELECT USING (true);
+
+-- ============================================================
+-- record_video_play: log a play and bump the running totals
+-- ============================================================
+-- Returns the new play_count, or NULL when the file is not in local_videos.
+
+CREATE OR REPLACE FUNCTION record_video_play(
+  p_player_id TEXT,
+  p_file_path TEXT,
+  p_title TEXT DEFAULT NULL,
+  p_artist TEXT DEFAULT NULL,
+  p_seconds_played INTEGER DEFAULT NULL,
+  p_played_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_video_id UUID;
+  v_play_count INTEGER;
+BEGIN
+  UPDATE local_videos lv
+  SET play_count = COALESCE(lv.play_count, 0) + 1,
+      last_played = GREATEST(COALESCE(lv.last_played, p_played_at), p_played_at)
+  WHERE lv.player_id = p_player_id AND lv.file_path = p_file_path
+  RETURNING lv.id, lv.play_count INTO v_video_id, v_play_count;
+
+  INSERT INTO video_plays (player_id, video_id, file_path, title, artist, seconds_played, played_at)
+  VALUES (p_player_id, v_video_id, p_file_path, p_title, p_artist, p_seconds_played, p_played_at);
+
+  RETURN v_play_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION record_video_play(TEXT, TEXT, TEXT, TEXT, INTEGER, TIMESTAMP WITH TIME ZONE) TO anon, authenticated;
+
+-- ============================================================
+-- get_top_charts: ranked plays for a window vs. the previous period
+-- ============================================================
+-- p_period:
+--   'tonight' - last 12 hours, compared with the same 12 hours one day earlier
+--   'week'    - last 7 days, compared with the 7 days before that
+--   'all'     - all time, compared with the all-time chart as it stood a week ago
+-- previous_rank is NULL for new entries.
+
+CREATE OR REPLACE FUNCTION get_top_charts(
+  p_player_id TEXT,
+  p_period TEXT DEFAULT 'week',
+  p_limit INT DEFAULT 100
+)
+RETURNS TABLE (
+  video_id UUID,
+  plays INTEGER,
+  rank INTEGER,
+  previous_rank INTEGER
+) AS $$
+DECLARE
+  v_current_start TIMESTAMP WITH TIME ZONE;
+  v_previous_start TIMESTAMP WITH TIME ZONE;
+  v_previous_end TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF p_period = 'tonight' THEN
+    v_current_start := NOW() - INTERVAL '12 hours';
+    v_previous_start := NOW() - INTERVAL '36 hours';
+    v_previous_end := NOW() - INTERVAL '24 hours';
+  ELSIF p_period = 'week' THEN
+    v_current_start := NOW() - INTERVAL '7 days';
+    v_previous_start := NOW() - INTERVAL '14 days';
+    v_previous_end := NOW() - INTERVAL '7 days';
+  ELSIF p_period = 'all' THEN
+    v_current_start := '-infinity';
+    v_previous_start := '-infinity';
+    v_previous_end := NOW() - INTERVAL '7 days';
+  ELSE
+    RAISE EXCEPTION 'INVALID_PERIOD: %', p_period;
+  END IF;
+
+  RETURN QUERY
+  WITH current_ranked AS (
+    SELECT
+      vp.video_id AS vid,
+      COUNT(*)::INTEGER AS play_total,
+      ROW_NUMBER() OVER (ORDER BY COUNT(*) DESC, MAX(vp.played_at) DESC)::INTEGER AS position
+    FROM video_plays vp
+    WHERE vp.player_id = p_player_id
+      AND vp.video_id IS NOT NULL
+      AND vp.played_at >= v_current_start
+    GROUP BY vp.video_id
+  ),
+  previous_ranked AS (
+    SELECT
+      vp.video_id AS vid,
+      ROW_NUMBER() OVER (ORDER BY COUNT(*) DESC, MAX(vp.played_at) DESC)::INTEGER AS position
+    FROM video_plays vp
+    WHERE vp.player_id = p_player_id
+      AND vp.video_id IS NOT NULL
+      AND vp.played_at >= v_previous_start
+      AND vp.played_at < v_previous_end
+    GROUP BY vp.video_id
+  )
+  SELECT cr.vid, cr.play_total, cr.position, pr.position
+  FROM current_ranked cr
+  LEFT JOIN previous_ranked pr ON pr.vid = cr.vid
+  WHERE cr.position <= p_limit
+  ORDER BY cr.position;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+GRANT EXECUTE ON FUNCTION get_top_charts(TEXT, TEXT, INT) TO anon, authenticated;
+
+-- ============================================================
+-- Verification Queries
+-- ============================================================
+
+-- SELECT record_video_play('DEMO_PLAYER', '/path/to/video.mp4', 'Title', 'Artist', 215);
+-- SELECT * FROM get_top_charts('DEMO_PLAYER', 'tonight', 20);
+-- SELECT title, play_count, last_played FROM local_videos WHERE player_id = 'DEMO_PLAYER' ORDER BY play_count DESC LIMIT 20;
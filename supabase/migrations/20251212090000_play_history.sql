@@ -0,0 +1,163 @@
+-- ============================================================
+-- DJAMMS Play History
+-- Extends video_plays into a full play log: every transition is recorded
+-- (skips and errors included), only qualifying plays count towards charts
+-- ============================================================
+
+-- ============================================================
+-- video_plays: history columns
+-- ============================================================
+
+ALTER TABLE video_plays
+  ADD COLUMN IF NOT EXISTS started_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS transition_reason VARCHAR(20) DEFAULT 'natural_end', -- TransitionReason on the player
+  ADD COLUMN IF NOT EXISTS from_priority BOOLEAN DEFAULT false,
+  ADD COLUMN IF NOT EXISTS requested_by_kiosk VARCHAR(50),         -- NULL unless a kiosk requested it
+  ADD COLUMN IF NOT EXISTS counts_toward_charts BOOLEAN DEFAULT true;
+
+COMMENT ON COLUMN video_plays.played_at IS 'When the play ended';
+
+-- Realtime so kiosks can show "Recently Played" live
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'video_plays'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE video_plays;
+  END IF;
+END $$;
+
+-- ============================================================
+-- record_video_play: now records the full history entry
+-- ============================================================
+-- Only plays with p_counted = true bump local_videos.play_count / last_played.
+-- Returns the new play_count (NULL when not counted or the file is not indexed).
+
+DROP FUNCTION IF EXISTS record_video_play(TEXT, TEXT, TEXT, TEXT, INTEGER, TIMESTAMP WITH TIME ZONE);
+
+CREATE OR REPLACE FUNCTION record_video_play(
+  p_player_id TEXT,
+  p_file_path TEXT,
+  p_title TEXT DEFAULT NULL,
+  p_artist TEXT DEFAULT NULL,
+  p_seconds_played INTEGER DEFAULT NULL,
+  p_played_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  p_started_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_transition_reason TEXT DEFAULT 'natural_end',
+  p_from_priority BOOLEAN DEFAULT false,
+  p_requested_by_kiosk TEXT DEFAULT NULL,
+  p_counted BOOLEAN DEFAULT true
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_video_id UUID;
+  v_play_count INTEGER;
+BEGIN
+  IF p_counted THEN
+    UPDATE local_videos lv
+    SET play_count = COALESCE(lv.play_count, 0) + 1,
+        last_played = GREATEST(COALESCE(lv.last_played, p_played_at), p_played_at)
+    WHERE lv.player_id = p_player_id AND lv.file_path = p_file_path
+    RETURNING lv.id, lv.play_count INTO v_video_id, v_play_count;
+  ELSE
+    SELECT lv.id INTO v_video_id
+    FROM local_videos lv
+    WHERE lv.player_id = p_player_id AND lv.file_path = p_file_path;
+  END IF;
+
+  INSERT INTO video_plays (
+    player_id, video_id, file_path, title, artist, seconds_played, played_at,
+    started_at, transition_reason, from_priority, requested_by_kiosk, counts_toward_charts
+  )
+  VALUES (
+    p_player_id, v_video_id, p_file_path, p_title, p_artist, p_seconds_played, p_played_at,
+    p_started_at, p_transition_reason, p_from_priority, p_requested_by_kiosk, p_counted
+  );
+
+  RETURN v_play_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Replaced by a player-key-checked version in 20251222090000_play_recording_access.sql
+GRANT EXECUTE ON FUNCTION record_video_play(
+  TEXT, TEXT, TEXT, TEXT, INTEGER, TIMESTAMP WITH TIME ZONE,
+  TIMESTAMP WITH TIME ZONE, TEXT, BOOLEAN, TEXT, BOOLEAN
+) TO anon, authenticated;
+
+-- ============================================================
+-- get_top_charts: ignore skips / errors that did not count
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION get_top_charts(
+  p_player_id TEXT,
+  p_period TEXT DEFAULT 'week',
+  p_limit INT DEFAULT 100
+)
+RETURNS TABLE (
+  video_id UUID,
+  plays INTEGER,
+  rank INTEGER,
+  previous_rank INTEGER
+) AS $$
+DECLARE
+  v_current_start TIMESTAMP WITH TIME ZONE;
+  v_previous_start TIMESTAMP WITH TIME ZONE;
+  v_previous_end TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF p_period = 'tonight' THEN
+    v_current_start := NOW() - INTERVAL '12 hours';
+    v_previous_start := NOW() - INTERVAL '36 hours';
+    v_previous_end := NOW() - INTERVAL '24 hours';
+  ELSIF p_period = 'week' THEN
+    v_current_start := NOW() - INTERVAL '7 days';
+    v_previous_start := NOW() - INTERVAL '14 days';
+    v_previous_end := NOW() - INTERVAL '7 days';
+  ELSIF p_period = 'all' THEN
+    v_current_start := '-infinity';
+    v_previous_start := '-infinity';
+    v_previous_end := NOW() - INTERVAL '7 days';
+  ELSE
+    RAISE EXCEPTION 'INVALID_PERIOD: %', p_period;
+  END IF;
+
+  RETURN QUERY
+  WITH current_ranked AS (
+    SELECT
+      vp.video_id AS vid,
+      COUNT(*)::INTEGER AS play_total,
+      ROW_NUMBER() OVER (ORDER BY COUNT(*) DESC, MAX(vp.played_at) DESC)::INTEGER AS position
+    FROM video_plays vp
+    WHERE vp.player_id = p_player_id
+      AND vp.video_id IS NOT NULL
+      AND vp.counts_toward_charts
+      AND vp.played_at >= v_current_start
+    GROUP BY vp.video_id
+  ),
+  previous_ranked AS (
+    SELECT
+      vp.video_id AS vid,
+      ROW_NUMBER() OVER (ORDER BY COUNT(*) DESC, MAX(vp.played_at) DESC)::INTEGER AS position
+    FROM video_plays vp
+    WHERE vp.player_id = p_player_id
+      AND vp.video_id IS NOT NULL
+      AND vp.counts_toward_charts
+      AND vp.played_at >= v_previous_start
+      AND vp.played_at < v_previous_end
+    GROUP BY vp.video_id
+  )
+  SELECT cr.vid, cr.play_total, cr.position, pr.position
+  FROM current_ranked cr
+  LEFT JOIN previous_ranked pr ON pr.vid = cr.vid
+  WHERE cr.position <= p_limit
+  ORDER BY cr.position;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- ============================================================
+-- Verification Queries
+-- ============================================================
+
+-- SELECT record_video_play('DEMO_PLAYER', '/path/to/video.mp4', 'Title', 'Artist', 12, NOW(), NOW() - INTERVAL '12 seconds', 'user_skip', false, NULL, false);
+-- SELECT title, started_at, played_at, transition_reason, from_priority, requested_by_kiosk
+--   FROM video_plays WHERE player_id = 'DEMO_PLAYER' ORDER BY played_at DESC LIMIT 20;
@@ -0,0 +1,222 @@
+-- ============================================================
+-- DJAMMS Content Moderation
+-- Moderation status / notes / explicit flag on the indexed catalog,
+-- per-player daytime explicit-content policy, and search enforcement
+-- ============================================================
+
+-- ============================================================
+-- local_videos: moderation columns (same shape as videos.content_status)
+-- ============================================================
+-- New files are 'pending' and still offered; only 'rejected' files are hidden.
+-- The player's re-index upsert never sends these columns, so decisions survive rescans.
+
+ALTER TABLE local_videos
+  ADD COLUMN IF NOT EXISTS content_status VARCHAR(20) NOT NULL DEFAULT 'pending'
+    CHECK (content_status IN ('pending', 'approved', 'rejected')),
+  ADD COLUMN IF NOT EXISTS moderation_notes TEXT,
+  ADD COLUMN IF NOT EXISTS moderated_by VARCHAR(50),
+  ADD COLUMN IF NOT EXISTS moderated_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS is_explicit BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_local_videos_content_status
+  ON local_videos(player_id, content_status);
+
+-- ============================================================
+-- content_policies: when explicit tracks may be offered
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS content_policies (
+  player_id VARCHAR(50) PRIMARY KEY,
+  hide_explicit_daytime BOOLEAN NOT NULL DEFAULT false,
+  daytime_start TIME NOT NULL DEFAULT '06:00', -- Venue local time
+  daytime_end TIME NOT NULL DEFAULT '21:00',
+  timezone TEXT NOT NULL DEFAULT 'UTC',        -- IANA name, e.g. 'Australia/Sydney'
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE content_policies ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS content_policies_public_read ON content_policies;
+CREATE POLICY content_policies_public_read ON content_policies
+  FOR SELECT USING (true);
+
+-- ============================================================
+-- explicit_content_allowed: evaluate the policy at NOW()
+-- ============================================================
+-- True when the player has no policy, the policy is off, or the venue's local
+-- time is outside the daytime window (windows may wrap midnight).
+
+CREATE OR REPLACE FUNCTION explicit_content_allowed(p_player_id TEXT)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_policy content_policies%ROWTYPE;
+  v_local_time TIME;
+BEGIN
+  SELECT * INTO v_policy FROM content_policies WHERE player_id = p_player_id;
+
+  IF NOT FOUND OR NOT v_policy.hide_explicit_daytime THEN
+    RETURN true;
+  END IF;
+
+  v_local_time := (NOW() AT TIME ZONE v_policy.timezone)::TIME;
+
+  IF v_policy.daytime_start <= v_policy.daytime_end THEN
+    RETURN NOT (v_local_time >= v_policy.daytime_start AND v_local_time < v_policy.daytime_end);
+  END IF;
+  RETURN NOT (v_local_time >= v_policy.daytime_start OR v_local_time < v_policy.daytime_end);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+GRANT EXECUTE ON FUNCTION explicit_content_allowed(TEXT) TO anon, authenticated;
+
+-- ============================================================
+-- set_content_policy: upsert the player's policy
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION set_content_policy(
+  p_player_id TEXT,
+  p_hide_explicit_daytime BOOLEAN,
+  p_daytime_start TIME DEFAULT '06:00',
+  p_daytime_end TIME DEFAULT '21:00',
+  p_timezone TEXT DEFAULT 'UTC'
+)
+RETURNS content_policies AS $$
+DECLARE
+  v_policy content_policies%ROWTYPE;
+BEGIN
+  -- Reject unknown time zones up front rather than failing every search later
+  PERFORM NOW() AT TIME ZONE p_timezone;
+
+  INSERT INTO content_policies (player_id, hide_explicit_daytime, daytime_start, daytime_end, timezone, updated_at)
+  VALUES (p_player_id, p_hide_explicit_daytime, p_daytime_start, p_daytime_end, p_timezone, NOW())
+  ON CONFLICT (player_id) DO UPDATE
+  SET hide_explicit_daytime = EXCLUDED.hide_explicit_daytime,
+      daytime_start = EXCLUDED.daytime_start,
+      daytime_end = EXCLUDED.daytime_end,
+      timezone = EXCLUDED.timezone,
+      updated_at = NOW()
+  RETURNING * INTO v_policy;
+
+  RETURN v_policy;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Narrowed to player members and the player itself in 20251221090000_moderation_access.sql
+GRANT EXECUTE ON FUNCTION set_content_policy(TEXT, BOOLEAN, TIME, TIME, TEXT) TO anon, authenticated;
+
+-- ============================================================
+-- moderate_videos: single and bulk moderation decisions
+-- ============================================================
+-- NULL parameters leave that field unchanged. Returns the number of rows updated.
+
+CREATE OR REPLACE FUNCTION moderate_videos(
+  p_player_id TEXT,
+  p_video_ids UUID[],
+  p_status TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_is_explicit BOOLEAN DEFAULT NULL,
+  p_moderated_by TEXT DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_updated INTEGER;
+BEGIN
+  IF p_status IS NOT NULL AND p_status NOT IN ('pending', 'approved', 'rejected') THEN
+    RAISE EXCEPTION 'INVALID_STATUS: %', p_status;
+  END IF;
+
+  UPDATE local_videos lv
+  SET content_status = COALESCE(p_status, lv.content_status),
+      moderation_notes = COALESCE(p_notes, lv.moderation_notes),
+      is_explicit = COALESCE(p_is_explicit, lv.is_explicit),
+      moderated_by = COALESCE(p_moderated_by, lv.moderated_by),
+      moderated_at = NOW()
+  WHERE lv.player_id = p_player_id
+    AND lv.id = ANY(p_video_ids);
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+  RETURN v_updated;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Narrowed to player members and the player itself in 20251221090000_moderation_access.sql
+GRANT EXECUTE ON FUNCTION moderate_videos(TEXT, UUID[], TEXT, TEXT, BOOLEAN, TEXT) TO anon, authenticated;
+
+-- ============================================================
+-- search_videos: never return rejected (or out-of-hours explicit) tracks
+-- ============================================================
+-- Columns are listed explicitly - lv.* no longer matches the result type now
+-- that local_videos has the moderation columns.
+
+CREATE OR REPLACE FUNCTION search_videos(
+  search_query TEXT,
+  scope TEXT DEFAULT 'all',
+  result_limit INT DEFAULT 50,
+  result_offset INT DEFAULT 0,
+  p_player_id TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  player_id VARCHAR(50),
+  file_path TEXT,
+  relative_path TEXT,
+  filename TEXT,
+  file_size BIGINT,
+  file_hash VARCHAR(64),
+  title TEXT,
+  artist TEXT,
+  album TEXT,
+  duration INTEGER,
+  resolution VARCHAR(20),
+  codec VARCHAR(50),
+  bitrate INTEGER,
+  fps DECIMAL(5,2),
+  playlist_folder TEXT,
+  collection_type VARCHAR(50),
+  is_available BOOLEAN,
+  last_verified TIMESTAMP WITH TIME ZONE,
+  error_message TEXT,
+  play_count INTEGER,
+  last_played TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE,
+  last_scanned TIMESTAMP WITH TIME ZONE,
+  similarity_score REAL
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    lv.id, lv.player_id, lv.file_path, lv.relative_path, lv.filename, lv.file_size, lv.file_hash,
+    lv.title, lv.artist, lv.album, lv.duration, lv.resolution, lv.codec, lv.bitrate, lv.fps,
+    lv.playlist_folder, lv.collection_type, lv.is_available, lv.last_verified, lv.error_message,
+    lv.play_count, lv.last_played, lv.created_at, lv.last_scanned,
+    GREATEST(
+      similarity(lv.title, search_query),
+      similarity(lv.artist, search_query),
+      similarity(COALESCE(lv.title || ' ' || lv.artist, ''), search_query)
+    ) as similarity_score
+  FROM local_videos lv
+  WHERE
+    lv.is_available = true
+    AND lv.content_status <> 'rejected'
+    AND (NOT lv.is_explicit OR explicit_content_allowed(lv.player_id))
+    AND (p_player_id IS NULL OR lv.player_id = p_player_id)
+    AND (
+      lv.title ILIKE '%' || search_query || '%'
+      OR lv.artist ILIKE '%' || search_query || '%'
+      OR similarity(lv.title, search_query) > 0.1
+      OR similarity(lv.artist, search_query) > 0.1
+    )
+  ORDER BY similarity_score DESC, lv.title
+  LIMIT result_limit
+  OFFSET result_offset;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- ============================================================
+-- Verification Queries
+-- ============================================================
+
+-- SELECT content_status, is_explicit, COUNT(*) FROM local_videos WHERE player_id = 'DEMO_PLAYER' GROUP BY 1, 2;
+-- SELECT moderate_videos('DEMO_PLAYER', ARRAY['<video uuid>']::UUID[], 'rejected', 'Wrong edit', NULL, 'web-admin');
+-- SELECT set_content_policy('DEMO_PLAYER', true, '06:00', '21:00', 'Australia/Sydney');
+-- SELECT explicit_content_allowed('DEMO_PLAYER');
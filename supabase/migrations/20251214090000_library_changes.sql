@@ -0,0 +1,50 @@
+-- ============================================================
+-- DJAMMS Library Changes
+-- Log of files the player's library watcher saw appear, vanish, change or
+-- move in its playlists directory (feeds the admin "library changes" view)
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS library_changes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  player_id VARCHAR(50) NOT NULL,
+  change_type VARCHAR(20) NOT NULL CHECK (change_type IN ('added', 'removed', 'modified', 'renamed')),
+  file_path TEXT NOT NULL,              -- New path for renames
+  previous_path TEXT,                   -- Old path, renames only
+  title TEXT,
+  artist TEXT,
+  playlist TEXT,
+  detected_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_library_changes_player
+  ON library_changes(player_id, detected_at DESC);
+
+-- Permissive policies (app filters by player_id, same as player_state)
+ALTER TABLE library_changes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS library_changes_read ON library_changes;
+CREATE POLICY library_changes_read ON library_changes
+  FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS library_changes_insert ON library_changes;
+CREATE POLICY library_changes_insert ON library_changes
+  FOR INSERT WITH CHECK (true);
+
+-- Realtime so the admin feed updates live
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'library_changes'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE library_changes;
+  END IF;
+END $$;
+
+-- ============================================================
+-- Verification Queries
+-- ============================================================
+
+-- SELECT change_type, file_path, previous_path, playlist, detected_at
+--   FROM library_changes WHERE player_id = 'DEMO_PLAYER' ORDER BY detected_at DESC LIMIT 20;
@@ -0,0 +1,45 @@
+-- ============================================================
+-- DJAMMS Virtual Playlists
+-- Mirror of each player's hand-built playlists (ordered lists of file paths).
+-- The player owns them and rewrites this table after every change; the web
+-- admin reads it and edits through virtual_playlist_save / _delete commands.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS virtual_playlists (
+  id TEXT NOT NULL,                     -- Generated by the player
+  player_id VARCHAR(50) NOT NULL,
+  name TEXT NOT NULL,
+  video_ids JSONB NOT NULL DEFAULT '[]'::jsonb, -- local_videos.file_path values in play order
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (player_id, id)
+);
+
+-- Permissive policies (app filters by player_id, same as player_state)
+ALTER TABLE virtual_playlists ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS virtual_playlists_read ON virtual_playlists;
+CREATE POLICY virtual_playlists_read ON virtual_playlists
+  FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS virtual_playlists_write ON virtual_playlists;
+CREATE POLICY virtual_playlists_write ON virtual_playlists
+  FOR ALL USING (true) WITH CHECK (true);
+
+-- Realtime so the web admin sees edits made on the player
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'virtual_playlists'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE virtual_playlists;
+  END IF;
+END $$;
+
+-- ============================================================
+-- Verification Queries
+-- ============================================================
+
+-- SELECT name, jsonb_array_length(video_ids) AS videos, updated_at
+--   FROM virtual_playlists WHERE player_id = 'DEMO_PLAYER' ORDER BY name;
@@ -0,0 +1,58 @@
+-- ============================================================
+-- DJAMMS Smart Playlists
+-- Rule-based playlists ("artist in X", "played more than 10 times",
+-- "not played in the last 7 days", "no karaoke", ...). Only the rules are
+-- stored; the player and kiosks evaluate them against local_videos, so the
+-- results follow the library without a rebuild.
+--
+-- rules is a JSON array of { field, operator, value | values }:
+--   artist / playlist     in                   values: text[]
+--   play_count / duration gt | lt              value: number (duration in seconds)
+--   last_played           not_within_days      value: number
+--   karaoke               exclude | only
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS smart_playlists (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  player_id VARCHAR(50) NOT NULL,
+  name TEXT NOT NULL,
+  rules JSONB NOT NULL DEFAULT '[]'::jsonb,
+  match_mode TEXT NOT NULL DEFAULT 'all' CHECK (match_mode IN ('all', 'any')),
+  sort_by TEXT NOT NULL DEFAULT 'title' CHECK (sort_by IN ('title', 'artist', 'play_count', 'last_played')),
+  max_videos INTEGER CHECK (max_videos IS NULL OR max_videos > 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Names are how load_playlist finds them
+CREATE UNIQUE INDEX IF NOT EXISTS idx_smart_playlists_player_name
+  ON smart_playlists (player_id, lower(name));
+
+-- Permissive policies (app filters by player_id, same as player_state)
+ALTER TABLE smart_playlists ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS smart_playlists_read ON smart_playlists;
+CREATE POLICY smart_playlists_read ON smart_playlists
+  FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS smart_playlists_write ON smart_playlists;
+CREATE POLICY smart_playlists_write ON smart_playlists
+  FOR ALL USING (true) WITH CHECK (true);
+
+-- Realtime so kiosks pick up new and edited rules
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'smart_playlists'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE smart_playlists;
+  END IF;
+END $$;
+
+-- ============================================================
+-- Verification Queries
+-- ============================================================
+
+-- SELECT name, match_mode, jsonb_array_length(rules) AS rules, sort_by, max_videos
+--   FROM smart_playlists WHERE player_id = 'DEMO_PLAYER' ORDER BY name;
@@ -0,0 +1,133 @@
+-- ============================================================
+-- DJAMMS Command Roles
+-- Real identities behind admin_commands. issued_by is a free label any client
+-- can set, so the database resolves who sent each command instead:
+--   owner / staff  Supabase Auth users listed in player_members
+--   kiosk          paired devices in kiosk_devices (the client sends its device
+--                  token with the insert; only the SHA-256 hash is stored)
+--   guest          everyone else
+-- The result lands in admin_commands.issuer_role. The player reads it, with the
+-- command itself, from the stored row and checks it against its command policy
+-- before running anything. Stored commands cannot be rewritten afterwards.
+-- ============================================================
+
+-- Admin logins per player. Managed by the venue owner in the dashboard/SQL editor:
+--   INSERT INTO player_members (player_id, user_id, role)
+--   SELECT 'DEMO_PLAYER', id, 'owner' FROM auth.users WHERE email = 'owner@example.com';
+CREATE TABLE IF NOT EXISTS player_members (
+  player_id VARCHAR(50) NOT NULL,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('owner', 'staff')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (player_id, user_id)
+);
+
+-- Paired kiosk devices and their tokens
+CREATE TABLE IF NOT EXISTS kiosk_devices (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  player_id VARCHAR(50) NOT NULL,
+  name TEXT NOT NULL,
+  token_hash TEXT NOT NULL UNIQUE,  -- hex SHA-256 of the device token
+  role TEXT NOT NULL DEFAULT 'kiosk' CHECK (role IN ('kiosk', 'staff')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  last_seen_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE  -- Revoked devices fall back to guest
+);
+
+CREATE INDEX IF NOT EXISTS idx_kiosk_devices_player
+  ON kiosk_devices (player_id);
+
+-- Unlike the other DJAMMS tables these are not open to everyone: members see
+-- their own memberships, and only a player's members see or manage its devices
+ALTER TABLE player_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE kiosk_devices ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS player_members_read_own ON player_members;
+CREATE POLICY player_members_read_own ON player_members
+  FOR SELECT USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS kiosk_devices_members ON kiosk_devices;
+CREATE POLICY kiosk_devices_members ON kiosk_devices
+  FOR ALL USING (
+    EXISTS (SELECT 1 FROM player_members m WHERE m.player_id = kiosk_devices.player_id AND m.user_id = auth.uid())
+  ) WITH CHECK (
+    EXISTS (SELECT 1 FROM player_members m WHERE m.player_id = kiosk_devices.player_id AND m.user_id = auth.uid())
+  );
+
+-- ============================================================
+-- Resolve the issuer of every command
+-- ============================================================
+
+ALTER TABLE admin_commands
+  ADD COLUMN IF NOT EXISTS issuer_role TEXT,
+  ADD COLUMN IF NOT EXISTS issuer_id TEXT,     -- auth user ID or kiosk device ID
+  ADD COLUMN IF NOT EXISTS device_token TEXT;  -- Write-only: cleared before the row is stored
+
+CREATE OR REPLACE FUNCTION resolve_command_issuer()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  member_role TEXT;
+  device_id UUID;
+  device_role TEXT;
+BEGIN
+  -- Status updates from the player must not change what was sent or who sent it.
+  -- The player runs the stored command, so rewriting it would run it under the
+  -- original sender's role.
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.command_type IS DISTINCT FROM OLD.command_type
+       OR NEW.command_data IS DISTINCT FROM OLD.command_data
+       OR NEW.player_id IS DISTINCT FROM OLD.player_id THEN
+      RAISE EXCEPTION 'admin_commands: command_type, command_data and player_id cannot be changed'
+        USING ERRCODE = 'check_violation';
+    END IF;
+    NEW.issuer_role := OLD.issuer_role;
+    NEW.issuer_id := OLD.issuer_id;
+    NEW.device_token := NULL;
+    RETURN NEW;
+  END IF;
+
+  NEW.issuer_role := 'guest';
+  NEW.issuer_id := NULL;
+
+  IF auth.uid() IS NOT NULL THEN
+    SELECT role INTO member_role FROM player_members
+      WHERE player_id = NEW.player_id AND user_id = auth.uid();
+    IF member_role IS NOT NULL THEN
+      NEW.issuer_role := member_role;
+      NEW.issuer_id := auth.uid()::text;
+    END IF;
+  END IF;
+
+  IF NEW.issuer_role = 'guest' AND NEW.device_token IS NOT NULL THEN
+    SELECT id, role INTO device_id, device_role FROM kiosk_devices
+      WHERE player_id = NEW.player_id
+        AND token_hash = encode(sha256(convert_to(NEW.device_token, 'UTF8')), 'hex')
+        AND revoked_at IS NULL;
+    IF device_id IS NOT NULL THEN
+      NEW.issuer_role := device_role;
+      NEW.issuer_id := device_id::text;
+      UPDATE kiosk_devices SET last_seen_at = NOW() WHERE id = device_id;
+    END IF;
+  END IF;
+
+  NEW.device_token := NULL;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS admin_commands_resolve_issuer ON admin_commands;
+CREATE TRIGGER admin_commands_resolve_issuer
+  BEFORE INSERT OR UPDATE ON admin_commands
+  FOR EACH ROW EXECUTE FUNCTION resolve_command_issuer();
+
+-- ============================================================
+-- Verification Queries
+-- ============================================================
+
+-- SELECT command_type, issued_by, issuer_role, status, execution_result
+--   FROM admin_commands WHERE player_id = 'DEMO_PLAYER' ORDER BY created_at DESC LIMIT 20;
+-- SELECT name, role, last_seen_at, revoked_at FROM kiosk_devices WHERE player_id = 'DEMO_PLAYER';
@@ -0,0 +1,284 @@
+-- ============================================================
+-- DJAMMS Kiosk Pairing
+-- The player shows a short-lived one-time code (or a QR code of it); a kiosk or
+-- admin browser that enters it gets a device token for kiosk_devices, bound to
+-- that player. The player lists, renames and revokes its paired devices.
+-- ============================================================
+
+-- ============================================================
+-- Player keys: proves a caller is the player that owns a player ID
+-- ============================================================
+-- The Electron player generates a random key once and keeps it in its settings.
+-- The player's owner (player_members) registers it by signing in on the player
+-- once; only the registered key can create pairing codes or manage devices.
+-- Registering again (new machine, reinstall) replaces the previous key.
+
+CREATE TABLE IF NOT EXISTS player_keys (
+  player_id VARCHAR(50) PRIMARY KEY,
+  key_hash TEXT NOT NULL,  -- hex SHA-256 of the player key
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- ============================================================
+-- Pairing codes: one-time, expire after a few minutes
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS kiosk_pairing_codes (
+  code VARCHAR(12) PRIMARY KEY,
+  player_id VARCHAR(50) NOT NULL,
+  role TEXT NOT NULL DEFAULT 'kiosk' CHECK (role IN ('kiosk', 'staff')),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  claimed_at TIMESTAMP WITH TIME ZONE,
+  device_id UUID REFERENCES kiosk_devices(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_kiosk_pairing_codes_player
+  ON kiosk_pairing_codes (player_id);
+
+-- No policies: both tables are only reachable through the functions below
+ALTER TABLE player_keys ENABLE ROW LEVEL SECURITY;
+ALTER TABLE kiosk_pairing_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION player_key_matches(p_player_id TEXT, p_player_key TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_hash TEXT := encode(sha256(convert_to(COALESCE(p_player_key, ''), 'UTF8')), 'hex');
+BEGIN
+  IF p_player_key IS NULL OR length(p_player_key) < 32 THEN
+    RETURN FALSE;
+  END IF;
+
+  RETURN EXISTS (SELECT 1 FROM player_keys pk WHERE pk.player_id = p_player_id AND pk.key_hash = v_hash);
+END;
+$$;
+
+-- Internal only - callers go through the functions that use it
+REVOKE EXECUTE ON FUNCTION player_key_matches(TEXT, TEXT) FROM PUBLIC;
+
+-- ============================================================
+-- register_player_key: called by the player, signed in as the owner
+-- ============================================================
+-- Raises NOT_PLAYER_OWNER unless the signed-in user owns the player ID, so
+-- nobody can claim a player ID just by using it first.
+
+CREATE OR REPLACE FUNCTION register_player_key(p_player_id TEXT, p_player_key TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM player_members m
+    WHERE m.player_id = p_player_id AND m.user_id = auth.uid() AND m.role = 'owner'
+  ) THEN
+    RAISE EXCEPTION 'NOT_PLAYER_OWNER';
+  END IF;
+
+  IF p_player_key IS NULL OR length(p_player_key) < 32 THEN
+    RAISE EXCEPTION 'INVALID_PLAYER_KEY';
+  END IF;
+
+  INSERT INTO player_keys (player_id, key_hash)
+  VALUES (p_player_id, encode(sha256(convert_to(p_player_key, 'UTF8')), 'hex'))
+  ON CONFLICT (player_id) DO UPDATE SET key_hash = EXCLUDED.key_hash, created_at = NOW();
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION register_player_key(TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION register_player_key(TEXT, TEXT) TO authenticated;
+
+-- ============================================================
+-- create_kiosk_pairing_code: called by the player
+-- ============================================================
+-- Codes are 6 characters without look-alikes (no 0/O, 1/I/L). Raises
+-- INVALID_PLAYER_KEY if the caller is not the player.
+
+CREATE OR REPLACE FUNCTION create_kiosk_pairing_code(
+  p_player_id TEXT,
+  p_player_key TEXT,
+  p_role TEXT DEFAULT 'kiosk',
+  p_ttl_seconds INTEGER DEFAULT 600
+)
+RETURNS TABLE (
+  code TEXT,
+  role TEXT,
+  expires_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_alphabet CONSTANT TEXT := 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+  v_bytes BYTEA;
+  v_code TEXT;
+  v_expires_at TIMESTAMP WITH TIME ZONE := NOW() + make_interval(secs => LEAST(GREATEST(COALESCE(p_ttl_seconds, 600), 60), 3600));
+BEGIN
+  IF NOT player_key_matches(p_player_id, p_player_key) THEN
+    RAISE EXCEPTION 'INVALID_PLAYER_KEY';
+  END IF;
+
+  IF p_role NOT IN ('kiosk', 'staff') THEN
+    RAISE EXCEPTION 'INVALID_ROLE: %', p_role;
+  END IF;
+
+  -- Expired and claimed codes are no longer needed
+  DELETE FROM kiosk_pairing_codes kpc
+  WHERE kpc.player_id = p_player_id AND (kpc.expires_at < NOW() OR kpc.claimed_at IS NOT NULL);
+
+  LOOP
+    v_bytes := uuid_send(gen_random_uuid());
+    v_code := '';
+    FOR i IN 0..5 LOOP
+      v_code := v_code || substr(v_alphabet, get_byte(v_bytes, i) % length(v_alphabet) + 1, 1);
+    END LOOP;
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM kiosk_pairing_codes kpc WHERE kpc.code = v_code);
+  END LOOP;
+
+  INSERT INTO kiosk_pairing_codes (code, player_id, role, expires_at)
+  VALUES (v_code, p_player_id, p_role, v_expires_at);
+
+  RETURN QUERY SELECT v_code, p_role, v_expires_at;
+END;
+$$;
+
+-- ============================================================
+-- claim_kiosk_pairing_code: called by the kiosk / admin browser
+-- ============================================================
+-- Returns the device token once - only its hash is stored. Raises
+-- INVALID_PAIRING_CODE for unknown, expired or already-used codes.
+
+CREATE OR REPLACE FUNCTION claim_kiosk_pairing_code(
+  p_code TEXT,
+  p_device_name TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  player_id TEXT,
+  device_id UUID,
+  device_token TEXT,
+  role TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_pairing kiosk_pairing_codes%ROWTYPE;
+  v_token TEXT := replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '');
+  v_device_id UUID;
+BEGIN
+  SELECT * INTO v_pairing
+  FROM kiosk_pairing_codes kpc
+  WHERE kpc.code = upper(trim(p_code))
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_pairing.claimed_at IS NOT NULL OR v_pairing.expires_at < NOW() THEN
+    RAISE EXCEPTION 'INVALID_PAIRING_CODE';
+  END IF;
+
+  INSERT INTO kiosk_devices (player_id, name, token_hash, role, last_seen_at)
+  VALUES (
+    v_pairing.player_id,
+    COALESCE(NULLIF(trim(p_device_name), ''), initcap(v_pairing.role) || ' ' || v_pairing.code),
+    encode(sha256(convert_to(v_token, 'UTF8')), 'hex'),
+    v_pairing.role,
+    NOW()
+  )
+  RETURNING id INTO v_device_id;
+
+  UPDATE kiosk_pairing_codes kpc
+  SET claimed_at = NOW(), device_id = v_device_id
+  WHERE kpc.code = v_pairing.code;
+
+  RETURN QUERY SELECT v_pairing.player_id::TEXT, v_device_id, v_token, v_pairing.role;
+END;
+$$;
+
+-- ============================================================
+-- Device management: called by the player
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION list_kiosk_devices(p_player_id TEXT, p_player_key TEXT)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  role TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  last_seen_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT player_key_matches(p_player_id, p_player_key) THEN
+    RAISE EXCEPTION 'INVALID_PLAYER_KEY';
+  END IF;
+
+  RETURN QUERY
+  SELECT kd.id, kd.name, kd.role, kd.created_at, kd.last_seen_at, kd.revoked_at
+  FROM kiosk_devices kd
+  WHERE kd.player_id = p_player_id
+  ORDER BY kd.revoked_at IS NOT NULL, kd.created_at DESC;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION rename_kiosk_device(p_player_id TEXT, p_player_key TEXT, p_device_id UUID, p_name TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT player_key_matches(p_player_id, p_player_key) THEN
+    RAISE EXCEPTION 'INVALID_PLAYER_KEY';
+  END IF;
+
+  IF NULLIF(trim(p_name), '') IS NULL THEN
+    RAISE EXCEPTION 'INVALID_NAME';
+  END IF;
+
+  UPDATE kiosk_devices kd SET name = trim(p_name)
+  WHERE kd.id = p_device_id AND kd.player_id = p_player_id;
+END;
+$$;
+
+-- Revoking is immediate: resolve_command_issuer ignores revoked devices, so
+-- their next command arrives as a guest's
+CREATE OR REPLACE FUNCTION revoke_kiosk_device(p_player_id TEXT, p_player_key TEXT, p_device_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT player_key_matches(p_player_id, p_player_key) THEN
+    RAISE EXCEPTION 'INVALID_PLAYER_KEY';
+  END IF;
+
+  UPDATE kiosk_devices kd SET revoked_at = NOW()
+  WHERE kd.id = p_device_id AND kd.player_id = p_player_id AND kd.revoked_at IS NULL;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_kiosk_pairing_code(TEXT, TEXT, TEXT, INTEGER) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_kiosk_pairing_code(TEXT, TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION list_kiosk_devices(TEXT, TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION rename_kiosk_device(TEXT, TEXT, UUID, TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION revoke_kiosk_device(TEXT, TEXT, UUID) TO anon, authenticated;
+
+-- ============================================================
+-- Verification Queries
+-- ============================================================
+
+-- SELECT player_id, created_at FROM player_keys;
+-- SELECT code, role, expires_at, claimed_at, device_id FROM kiosk_pairing_codes WHERE player_id = 'DEMO_PLAYER';
+-- SELECT * FROM claim_kiosk_pairing_code('ABC234', 'Bar kiosk');
+-- SELECT name, role, last_seen_at, revoked_at FROM kiosk_devices WHERE player_id = 'DEMO_PLAYER';
@@ -0,0 +1,96 @@
+-- ============================================================
+-- DJAMMS Fleet Dashboard
+-- One overview of every player an admin login is a member of (player_members):
+-- online status, now playing, queue depth, last heartbeat, app version and
+-- error counts. Commands to a group of players are ordinary admin_commands
+-- rows, one per player, authorized per player by resolve_command_issuer.
+-- ============================================================
+
+-- ============================================================
+-- Player health: published by the player with its heartbeat
+-- ============================================================
+
+ALTER TABLE player_state
+  ADD COLUMN IF NOT EXISTS app_version TEXT,
+  ADD COLUMN IF NOT EXISTS error_count INTEGER NOT NULL DEFAULT 0,  -- Playback errors since the app started
+  ADD COLUMN IF NOT EXISTS last_error TEXT,
+  ADD COLUMN IF NOT EXISTS last_error_at TIMESTAMP WITH TIME ZONE;
+
+-- Failed commands per player are counted over a recent window
+CREATE INDEX IF NOT EXISTS idx_admin_commands_player_failed
+  ON admin_commands (player_id, created_at)
+  WHERE status = 'failed';
+
+-- ============================================================
+-- get_fleet_overview: called by a signed-in admin
+-- ============================================================
+-- Returns nothing for anonymous callers. A player counts as online when it
+-- says so and its last heartbeat (every 30s) is under a minute old.
+
+CREATE OR REPLACE FUNCTION get_fleet_overview(p_failed_window_hours INTEGER DEFAULT 24)
+RETURNS TABLE (
+  player_id TEXT,
+  name TEXT,
+  role TEXT,
+  is_online BOOLEAN,
+  status TEXT,
+  last_heartbeat TIMESTAMP WITH TIME ZONE,
+  now_playing_video JSONB,
+  queue_depth INTEGER,
+  priority_depth INTEGER,
+  volume REAL,
+  app_version TEXT,
+  error_count INTEGER,
+  last_error TEXT,
+  last_error_at TIMESTAMP WITH TIME ZONE,
+  failed_commands INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    m.player_id::TEXT,
+    p.name::TEXT,
+    m.role,
+    COALESCE(ps.is_online AND ps.last_heartbeat > NOW() - INTERVAL '60 seconds', FALSE),
+    ps.status::TEXT,
+    ps.last_heartbeat,
+    ps.now_playing_video::JSONB,
+    COALESCE(jsonb_array_length(ps.active_queue::JSONB), 0),
+    COALESCE(jsonb_array_length(ps.priority_queue::JSONB), 0),
+    ps.volume::REAL,
+    ps.app_version,
+    COALESCE(ps.error_count, 0),
+    ps.last_error,
+    ps.last_error_at,
+    (
+      SELECT COUNT(*)::INTEGER FROM admin_commands ac
+      WHERE ac.player_id = m.player_id
+        AND ac.status = 'failed'
+        AND ac.created_at > NOW() - make_interval(hours => LEAST(GREATEST(COALESCE(p_failed_window_hours, 24), 1), 168))
+    )
+  FROM player_members m
+  LEFT JOIN players p ON p.player_id = m.player_id
+  LEFT JOIN LATERAL (
+    SELECT * FROM player_state s
+    WHERE s.player_id = m.player_id
+    ORDER BY s.last_heartbeat DESC NULLS LAST
+    LIMIT 1
+  ) ps ON TRUE
+  WHERE m.user_id = auth.uid()
+  ORDER BY m.player_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_fleet_overview(INTEGER) TO authenticated;
+
+-- ============================================================
+-- Verification Queries
+-- ============================================================
+
+-- SELECT player_id, app_version, error_count, last_error, last_heartbeat FROM player_state ORDER BY player_id;
+-- SELECT * FROM get_fleet_overview();  -- as a signed-in member; returns nothing from the SQL editor
@@ -0,0 +1,86 @@
+-- ============================================================
+-- DJAMMS Player Kiosk Credits
+-- Only the player writes to the kiosk credit ledger. Kiosks and admin
+-- browsers send commands (kiosk_add_credits, kiosk_clear_credits, queue_add
+-- with a credit cost) and the player applies them, proving who it is with
+-- its registered player key (player_keys).
+-- ============================================================
+
+-- The command a spend paid for, or the coin acceptor event a deposit came
+-- from - each is applied at most once, even if it is delivered again
+-- (broadcast and database replay, player restart, credit journal retries)
+ALTER TABLE kiosk_credit_ledger
+  ADD COLUMN IF NOT EXISTS command_id UUID;
+
+-- Extended to refunds in 20251223090000_kiosk_request_refunds.sql
+CREATE UNIQUE INDEX IF NOT EXISTS idx_kiosk_credit_ledger_command_entry
+  ON kiosk_credit_ledger(command_id, entry_type)
+  WHERE entry_type IN ('spend', 'deposit');
+
+-- ============================================================
+-- player_kiosk_credit_apply: called by the player
+-- ============================================================
+-- Same entries as kiosk_credit_apply. Raises INVALID_PLAYER_KEY if the caller
+-- is not the player. A spend or deposit whose command was already applied
+-- returns that entry instead of applying it again.
+
+CREATE OR REPLACE FUNCTION player_kiosk_credit_apply(
+  p_player_id TEXT,
+  p_player_key TEXT,
+  p_kiosk_id TEXT,
+  p_entry_type TEXT,
+  p_amount INTEGER DEFAULT 0,
+  p_source TEXT DEFAULT NULL,
+  p_related_entry_id UUID DEFAULT NULL,
+  p_note TEXT DEFAULT NULL,
+  p_command_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  entry_id UUID,
+  balance INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry_id UUID;
+  v_balance INTEGER;
+BEGIN
+  IF NOT player_key_matches(p_player_id, p_player_key) THEN
+    RAISE EXCEPTION 'INVALID_PLAYER_KEY';
+  END IF;
+
+  IF p_entry_type IN ('spend', 'deposit') AND p_command_id IS NOT NULL THEN
+    SELECT kcl.id INTO v_entry_id
+    FROM kiosk_credit_ledger kcl
+    WHERE kcl.command_id = p_command_id AND kcl.entry_type = p_entry_type;
+
+    IF v_entry_id IS NOT NULL THEN
+      SELECT kcb.balance INTO v_balance
+      FROM kiosk_credit_balances kcb
+      WHERE kcb.player_id = p_player_id AND kcb.kiosk_id = COALESCE(NULLIF(p_kiosk_id, ''), 'main');
+      RETURN QUERY SELECT v_entry_id, COALESCE(v_balance, 0);
+      RETURN;
+    END IF;
+  END IF;
+
+  SELECT applied.entry_id, applied.balance INTO v_entry_id, v_balance
+  FROM kiosk_credit_apply(p_player_id, p_kiosk_id, p_entry_type, p_amount, p_source, p_related_entry_id, p_note) applied;
+
+  IF p_entry_type IN ('spend', 'deposit') AND p_command_id IS NOT NULL THEN
+    UPDATE kiosk_credit_ledger kcl SET command_id = p_command_id WHERE kcl.id = v_entry_id;
+  END IF;
+
+  RETURN QUERY SELECT v_entry_id, v_balance;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION player_kiosk_credit_apply(TEXT, TEXT, TEXT, TEXT, INTEGER, TEXT, UUID, TEXT, UUID) TO anon, authenticated;
+
+-- ============================================================
+-- Verification Queries
+-- ============================================================
+
+-- SELECT entry_type, amount, balance_after, command_id, note FROM kiosk_credit_ledger
+--   WHERE player_id = 'DEMO_PLAYER' ORDER BY created_at DESC LIMIT 20;
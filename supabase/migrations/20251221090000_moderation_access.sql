@@ -0,0 +1,202 @@
+-- ============================================================
+-- DJAMMS Moderation Access
+-- Moderation decisions and the explicit-content policy were open to anyone
+-- with the public anon key. Like the credit ledger, they now take either a
+-- signed-in member of the player (player_members) or the player itself,
+-- proving who it is with its registered player key (player_keys):
+--   moderate_videos / set_content_policy                signed-in members
+--   player_moderate_videos / player_set_content_policy  the player
+-- ============================================================
+
+-- ============================================================
+-- Internal: the updates themselves, reachable only through the functions below
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION apply_video_moderation(
+  p_player_id TEXT,
+  p_video_ids UUID[],
+  p_status TEXT,
+  p_notes TEXT,
+  p_is_explicit BOOLEAN,
+  p_moderated_by TEXT
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_updated INTEGER;
+BEGIN
+  IF p_status IS NOT NULL AND p_status NOT IN ('pending', 'approved', 'rejected') THEN
+    RAISE EXCEPTION 'INVALID_STATUS: %', p_status;
+  END IF;
+
+  UPDATE local_videos lv
+  SET content_status = COALESCE(p_status, lv.content_status),
+      moderation_notes = COALESCE(p_notes, lv.moderation_notes),
+      is_explicit = COALESCE(p_is_explicit, lv.is_explicit),
+      moderated_by = COALESCE(p_moderated_by, lv.moderated_by),
+      moderated_at = NOW()
+  WHERE lv.player_id = p_player_id
+    AND lv.id = ANY(p_video_ids);
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+  RETURN v_updated;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION save_content_policy(
+  p_player_id TEXT,
+  p_hide_explicit_daytime BOOLEAN,
+  p_daytime_start TIME,
+  p_daytime_end TIME,
+  p_timezone TEXT
+)
+RETURNS content_policies
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_policy content_policies%ROWTYPE;
+BEGIN
+  -- Reject unknown time zones up front rather than failing every search later
+  PERFORM NOW() AT TIME ZONE p_timezone;
+
+  INSERT INTO content_policies (player_id, hide_explicit_daytime, daytime_start, daytime_end, timezone, updated_at)
+  VALUES (p_player_id, p_hide_explicit_daytime, p_daytime_start, p_daytime_end, p_timezone, NOW())
+  ON CONFLICT (player_id) DO UPDATE
+  SET hide_explicit_daytime = EXCLUDED.hide_explicit_daytime,
+      daytime_start = EXCLUDED.daytime_start,
+      daytime_end = EXCLUDED.daytime_end,
+      timezone = EXCLUDED.timezone,
+      updated_at = NOW()
+  RETURNING * INTO v_policy;
+
+  RETURN v_policy;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION apply_video_moderation(TEXT, UUID[], TEXT, TEXT, BOOLEAN, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION save_content_policy(TEXT, BOOLEAN, TIME, TIME, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================
+-- moderate_videos / set_content_policy: called by a signed-in member
+-- ============================================================
+-- Owners and staff moderate tracks; only owners change the policy.
+-- Raises NOT_PLAYER_MEMBER otherwise.
+
+CREATE OR REPLACE FUNCTION moderate_videos(
+  p_player_id TEXT,
+  p_video_ids UUID[],
+  p_status TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_is_explicit BOOLEAN DEFAULT NULL,
+  p_moderated_by TEXT DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM player_members m WHERE m.player_id = p_player_id AND m.user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'NOT_PLAYER_MEMBER';
+  END IF;
+
+  RETURN apply_video_moderation(p_player_id, p_video_ids, p_status, p_notes, p_is_explicit, p_moderated_by);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION set_content_policy(
+  p_player_id TEXT,
+  p_hide_explicit_daytime BOOLEAN,
+  p_daytime_start TIME DEFAULT '06:00',
+  p_daytime_end TIME DEFAULT '21:00',
+  p_timezone TEXT DEFAULT 'UTC'
+)
+RETURNS content_policies
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM player_members m
+    WHERE m.player_id = p_player_id AND m.user_id = auth.uid() AND m.role = 'owner'
+  ) THEN
+    RAISE EXCEPTION 'NOT_PLAYER_MEMBER';
+  END IF;
+
+  RETURN save_content_policy(p_player_id, p_hide_explicit_daytime, p_daytime_start, p_daytime_end, p_timezone);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION moderate_videos(TEXT, UUID[], TEXT, TEXT, BOOLEAN, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION set_content_policy(TEXT, BOOLEAN, TIME, TIME, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION moderate_videos(TEXT, UUID[], TEXT, TEXT, BOOLEAN, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION set_content_policy(TEXT, BOOLEAN, TIME, TIME, TEXT) TO authenticated;
+
+-- ============================================================
+-- player_moderate_videos / player_set_content_policy: called by the player
+-- ============================================================
+-- Raises INVALID_PLAYER_KEY if the caller is not the player.
+
+CREATE OR REPLACE FUNCTION player_moderate_videos(
+  p_player_id TEXT,
+  p_player_key TEXT,
+  p_video_ids UUID[],
+  p_status TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_is_explicit BOOLEAN DEFAULT NULL,
+  p_moderated_by TEXT DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT player_key_matches(p_player_id, p_player_key) THEN
+    RAISE EXCEPTION 'INVALID_PLAYER_KEY';
+  END IF;
+
+  RETURN apply_video_moderation(p_player_id, p_video_ids, p_status, p_notes, p_is_explicit, p_moderated_by);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION player_set_content_policy(
+  p_player_id TEXT,
+  p_player_key TEXT,
+  p_hide_explicit_daytime BOOLEAN,
+  p_daytime_start TIME DEFAULT '06:00',
+  p_daytime_end TIME DEFAULT '21:00',
+  p_timezone TEXT DEFAULT 'UTC'
+)
+RETURNS content_policies
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT player_key_matches(p_player_id, p_player_key) THEN
+    RAISE EXCEPTION 'INVALID_PLAYER_KEY';
+  END IF;
+
+  RETURN save_content_policy(p_player_id, p_hide_explicit_daytime, p_daytime_start, p_daytime_end, p_timezone);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION player_moderate_videos(TEXT, TEXT, UUID[], TEXT, TEXT, BOOLEAN, TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION player_set_content_policy(TEXT, TEXT, BOOLEAN, TIME, TIME, TEXT) TO anon, authenticated;
+
+-- ============================================================
+-- Verification Queries
+-- ============================================================
+
+-- As anon, both of these now fail:
+-- SELECT moderate_videos('DEMO_PLAYER', ARRAY['<video uuid>']::UUID[], 'approved');
+-- SELECT player_set_content_policy('DEMO_PLAYER', 'wrong-key', false);
@@ -0,0 +1,81 @@
+-- ============================================================
+-- DJAMMS Play Recording Access
+-- record_video_play was open to anyone with the public anon key, so any
+-- browser could inflate play counts and Top Charts. Like the credit ledger
+-- and moderation, the player now proves who it is with its registered
+-- player key (player_keys) before a play is logged.
+-- ============================================================
+
+-- ============================================================
+-- record_video_play: called by the player
+-- ============================================================
+-- Raises INVALID_PLAYER_KEY if the caller is not the player.
+
+DROP FUNCTION IF EXISTS record_video_play(
+  TEXT, TEXT, TEXT, TEXT, INTEGER, TIMESTAMP WITH TIME ZONE,
+  TIMESTAMP WITH TIME ZONE, TEXT, BOOLEAN, TEXT, BOOLEAN
+);
+
+CREATE OR REPLACE FUNCTION record_video_play(
+  p_player_id TEXT,
+  p_player_key TEXT,
+  p_file_path TEXT,
+  p_title TEXT DEFAULT NULL,
+  p_artist TEXT DEFAULT NULL,
+  p_seconds_played INTEGER DEFAULT NULL,
+  p_played_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  p_started_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_transition_reason TEXT DEFAULT 'natural_end',
+  p_from_priority BOOLEAN DEFAULT false,
+  p_requested_by_kiosk TEXT DEFAULT NULL,
+  p_counted BOOLEAN DEFAULT true
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_video_id UUID;
+  v_play_count INTEGER;
+BEGIN
+  IF NOT player_key_matches(p_player_id, p_player_key) THEN
+    RAISE EXCEPTION 'INVALID_PLAYER_KEY';
+  END IF;
+
+  IF p_counted THEN
+    UPDATE local_videos lv
+    SET play_count = COALESCE(lv.play_count, 0) + 1,
+        last_played = GREATEST(COALESCE(lv.last_played, p_played_at), p_played_at)
+    WHERE lv.player_id = p_player_id AND lv.file_path = p_file_path
+    RETURNING lv.id, lv.play_count INTO v_video_id, v_play_count;
+  ELSE
+    SELECT lv.id INTO v_video_id
+    FROM local_videos lv
+    WHERE lv.player_id = p_player_id AND lv.file_path = p_file_path;
+  END IF;
+
+  INSERT INTO video_plays (
+    player_id, video_id, file_path, title, artist, seconds_played, played_at,
+    started_at, transition_reason, from_priority, requested_by_kiosk, counts_toward_charts
+  )
+  VALUES (
+    p_player_id, v_video_id, p_file_path, p_title, p_artist, p_seconds_played, p_played_at,
+    p_started_at, p_transition_reason, p_from_priority, p_requested_by_kiosk, p_counted
+  );
+
+  RETURN v_play_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION record_video_play(
+  TEXT, TEXT, TEXT, TEXT, TEXT, INTEGER, TIMESTAMP WITH TIME ZONE,
+  TIMESTAMP WITH TIME ZONE, TEXT, BOOLEAN, TEXT, BOOLEAN
+) TO anon, authenticated;
+
+-- ============================================================
+-- Verification Queries
+-- ============================================================
+
+-- As anon, this now fails:
+-- SELECT record_video_play('DEMO_PLAYER', 'wrong-key', '/path/to/video.mp4', 'Title', 'Artist', 215);
@@ -0,0 +1,17 @@
+-- ============================================================
+-- DJAMMS Kiosk Settings State
+-- Kiosks took free play vs credits from their own URL (?mode=credits), so a
+-- kiosk could show free play while the player charged for every request. The
+-- player now publishes the settings kiosks need next to its state, and kiosks
+-- follow them like the queue:
+--   kiosk_settings = { "mode": "freeplay" | "credits", "creditsPerRequest": 1 }
+-- ============================================================
+
+ALTER TABLE player_state
+  ADD COLUMN IF NOT EXISTS kiosk_settings JSONB;  -- NULL until the player publishes them (free play)
+
+-- ============================================================
+-- Verification Queries
+-- ============================================================
+
+-- SELECT player_id, kiosk_settings FROM player_state WHERE player_id = 'DEMO_PLAYER';
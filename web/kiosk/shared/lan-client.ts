@@ -0,0 +1,291 @@
+/**
+ * LAN Fallback Client for DJAMMS Web Endpoints
+ * Shared between Kiosk and Admin apps
+ *
+ * The Electron player runs a local HTTP + WebSocket server (electron/lan-server.cjs)
+ * that serves the same player state, commands and local_videos rows as Supabase.
+ * supabase-client.ts switches to it while Realtime is down and the server answers,
+ * and back to the cloud as soon as Realtime reconnects.
+ *
+ * The server only answers devices paired in the player's LAN settings: the token it
+ * shows when pairing is saved here with setLanDeviceToken(), and without one LAN mode
+ * never starts. Commands run with the role the device was paired with.
+ *
+ * Kiosk credits are not served over the LAN. Balances are read from Supabase only, and
+ * a paid request is charged by the player against the cloud ledger - it is rejected if
+ * the player cannot reach Supabase either.
+ */
+
+import type { SupabaseCommand, SupabaseLocalVideo, SupabasePlayerState } from './types';
+
+export const DEFAULT_LAN_SERVER_PORT = 3457;
+
+// LocalStorage key for a manually configured LAN server URL
+const LAN_SERVER_URL_STORAGE_KEY = 'djamms_lan_server_url';
+// LocalStorage key for this device's LAN pairing token
+const LAN_DEVICE_TOKEN_STORAGE_KEY = 'djamms_lan_device_token';
+
+const LAN_REQUEST_TIMEOUT_MS = 3000;
+const LAN_RECONNECT_DELAY_MS = 3000;
+
+/**
+ * LAN server base URL: saved override, then VITE_LAN_SERVER_URL, then the
+ * host this page was served from on the default port
+ */
+export function getLanServerUrl(): string {
+  const saved = localStorage.getItem(LAN_SERVER_URL_STORAGE_KEY);
+  // env is only typed where Vite's client types are loaded
+  const env = (import.meta as ImportMeta & { env?: Record<string, string | undefined> }).env;
+  const url = saved
+    || env?.VITE_LAN_SERVER_URL
+    || `http://${window.location.hostname || 'localhost'}:${DEFAULT_LAN_SERVER_PORT}`;
+  return url.replace(/\/+$/, '');
+}
+
+/**
+ * Save (or clear, with null) a LAN server URL override
+ */
+export function setLanServerUrl(url: string | null): void {
+  if (url) {
+    localStorage.setItem(LAN_SERVER_URL_STORAGE_KEY, url.trim());
+  } else {
+    localStorage.removeItem(LAN_SERVER_URL_STORAGE_KEY);
+  }
+}
+
+/**
+ * Token from pairing this device in the player's LAN settings, or null if not paired
+ */
+export function getLanDeviceToken(): string | null {
+  return localStorage.getItem(LAN_DEVICE_TOKEN_STORAGE_KEY);
+}
+
+/**
+ * Save (or clear, with null) this device's LAN pairing token
+ */
+export function setLanDeviceToken(token: string | null): void {
+  if (token) {
+    localStorage.setItem(LAN_DEVICE_TOKEN_STORAGE_KEY, token.trim());
+  } else {
+    localStorage.removeItem(LAN_DEVICE_TOKEN_STORAGE_KEY);
+  }
+}
+
+// ==================== LAN Mode ====================
+
+type LanModeCallback = (active: boolean) => void;
+const lanModeCallbacks: Set<LanModeCallback> = new Set();
+let lanModeActive = false;
+
+/**
+ * Whether requests currently go to the LAN server instead of Supabase
+ */
+export function isLanMode(): boolean {
+  return lanModeActive;
+}
+
+/**
+ * Subscribe to LAN mode changes (called immediately with the current mode)
+ */
+export function onLanModeChange(callback: LanModeCallback): () => void {
+  lanModeCallbacks.add(callback);
+  callback(lanModeActive);
+  return () => lanModeCallbacks.delete(callback);
+}
+
+export function setLanMode(active: boolean): void {
+  if (lanModeActive === active) return;
+  lanModeActive = active;
+  console.log(`[LanClient] ${active ? '📡 Using LAN server' : '☁️ Back to Supabase'} (${getLanServerUrl()})`);
+
+  lanSubscriptions.forEach((subscription, playerId) => {
+    if (active) {
+      openLanSocket(playerId);
+    } else {
+      closeLanSocket(subscription);
+    }
+  });
+  lanModeCallbacks.forEach(cb => cb(active));
+}
+
+/**
+ * Check whether the LAN server is reachable (and usable - this device must be paired)
+ */
+export async function probeLanServer(): Promise<boolean> {
+  if (!getLanDeviceToken()) return false;
+  try {
+    await lanFetch<{ ok: boolean }>('/api/status');
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function lanFetch<T>(path: string, init?: RequestInit, timeoutMs: number = LAN_REQUEST_TIMEOUT_MS): Promise<T> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    const headers = new Headers(init?.headers);
+    const token = getLanDeviceToken();
+    if (token) headers.set('Authorization', `Bearer ${token}`);
+    const response = await fetch(`${getLanServerUrl()}${path}`, { ...init, headers, signal: controller.signal });
+    const body = await response.json().catch(() => null);
+    if (!response.ok && !(body && typeof body.success === 'boolean')) {
+      throw new Error(body?.error || `LAN server returned ${response.status}`);
+    }
+    return body as T;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+// ==================== LAN Requests ====================
+
+export async function lanGetPlayerState(playerId: string): Promise<SupabasePlayerState | null> {
+  try {
+    return await lanFetch<SupabasePlayerState>(`/api/player-state?player_id=${encodeURIComponent(playerId)}`);
+  } catch (error) {
+    console.warn('[LanClient] Error fetching player state:', error);
+    return null;
+  }
+}
+
+/**
+ * Send a command to the player; with wait, resolves once the player has executed it
+ */
+export async function lanSendCommand(
+  command: SupabaseCommand,
+  wait: boolean = true,
+  timeoutMs: number = 5000
+): Promise<{ success: boolean; error?: string; commandId?: string }> {
+  try {
+    return await lanFetch(
+      '/api/commands',
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ command, wait })
+      },
+      timeoutMs
+    );
+  } catch (error) {
+    const aborted = error instanceof DOMException && error.name === 'AbortError';
+    return {
+      success: false,
+      error: aborted ? 'Timeout waiting for command execution' : (error instanceof Error ? error.message : 'LAN request failed'),
+      commandId: command.id
+    };
+  }
+}
+
+/**
+ * Search (query set) or browse the player's library
+ */
+export async function lanQueryLocalVideos(
+  playerId: string,
+  options: { query?: string; playlist?: string; limit?: number | null; offset?: number } = {}
+): Promise<SupabaseLocalVideo[]> {
+  const params = new URLSearchParams({ player_id: playerId });
+  if (options.query) params.set('q', options.query);
+  if (options.playlist) params.set('playlist', options.playlist);
+  // limit=0 asks the server for everything
+  params.set('limit', String(options.limit ?? 0));
+  if (options.offset) params.set('offset', String(options.offset));
+
+  try {
+    return await lanFetch<SupabaseLocalVideo[]>(`/api/local-videos?${params.toString()}`);
+  } catch (error) {
+    console.warn('[LanClient] Error fetching local videos:', error);
+    return [];
+  }
+}
+
+// ==================== LAN Events (WebSocket) ====================
+
+interface LanEventHandlers {
+  onPlayerState?: (state: SupabasePlayerState) => void;
+  onLocalVideosChanged?: () => void;
+}
+
+interface LanSubscription {
+  socket: WebSocket | null;
+  handlers: Set<LanEventHandlers>;
+  reconnectTimer: ReturnType<typeof setTimeout> | null;
+}
+
+const lanSubscriptions: Map<string, LanSubscription> = new Map();
+
+/**
+ * Receive player state and library change pushes while in LAN mode
+ * One socket per player is shared by all subscribers
+ */
+export function subscribeToLanEvents(playerId: string, handlers: LanEventHandlers): () => void {
+  let subscription = lanSubscriptions.get(playerId);
+  if (!subscription) {
+    subscription = { socket: null, handlers: new Set(), reconnectTimer: null };
+    lanSubscriptions.set(playerId, subscription);
+  }
+  subscription.handlers.add(handlers);
+  if (lanModeActive) {
+    openLanSocket(playerId);
+  }
+
+  return () => {
+    const current = lanSubscriptions.get(playerId);
+    if (!current) return;
+    current.handlers.delete(handlers);
+    if (current.handlers.size === 0) {
+      closeLanSocket(current);
+      lanSubscriptions.delete(playerId);
+    }
+  };
+}
+
+function openLanSocket(playerId: string): void {
+  const subscription = lanSubscriptions.get(playerId);
+  if (!subscription || subscription.socket) return;
+
+  // Browsers can't set headers on a WebSocket, so the token goes in the query
+  const params = new URLSearchParams({ player_id: playerId, token: getLanDeviceToken() || '' });
+  const url = `${getLanServerUrl().replace(/^http/, 'ws')}/ws?${params.toString()}`;
+  const socket = new WebSocket(url);
+  subscription.socket = socket;
+
+  socket.onmessage = (event) => {
+    let message: { type: string; state?: SupabasePlayerState };
+    try {
+      message = JSON.parse(event.data);
+    } catch {
+      return;
+    }
+    subscription.handlers.forEach(handlers => {
+      if (message.type === 'player_state' && message.state) {
+        handlers.onPlayerState?.(message.state);
+      } else if (message.type === 'local_videos_changed') {
+        handlers.onLocalVideosChanged?.();
+      }
+    });
+  };
+
+  socket.onclose = () => {
+    if (subscription.socket !== socket) return;
+    subscription.socket = null;
+    // Keep trying while the cloud is still down and someone is listening
+    if (lanModeActive && lanSubscriptions.get(playerId) === subscription) {
+      subscription.reconnectTimer = setTimeout(() => {
+        subscription.reconnectTimer = null;
+        if (lanModeActive) openLanSocket(playerId);
+      }, LAN_RECONNECT_DELAY_MS);
+    }
+  };
+}
+
+function closeLanSocket(subscription: LanSubscription): void {
+  if (subscription.reconnectTimer) {
+    clearTimeout(subscription.reconnectTimer);
+    subscription.reconnectTimer = null;
+  }
+  const socket = subscription.socket;
+  subscription.socket = null;
+  socket?.close();
+}
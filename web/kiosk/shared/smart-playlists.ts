@@ -0,0 +1,95 @@
+/**
+ * Smart playlists - rule-based playlists evaluated against local_videos rows.
+ * Copy of the player's src/utils/smartPlaylists.ts; keep them in step.
+ */
+
+import type { SmartPlaylist, SmartPlaylistRule, SupabaseLocalVideo } from './types';
+
+export type SmartPlaylistCandidate = Pick<SupabaseLocalVideo, 'title' | 'artist' | 'path' | 'duration' | 'metadata' | 'play_count' | 'last_played'>;
+
+export type SmartPlaylistDefinition = Pick<SmartPlaylist, 'rules' | 'match_mode' | 'sort_by' | 'max_videos'>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function lower(value: unknown): string {
+  return typeof value === 'string' ? value.trim().toLowerCase() : '';
+}
+
+function playlistNamesOf(video: SmartPlaylistCandidate): string[] {
+  const metadata = video.metadata || {};
+  return [lower(metadata.playlist), lower(metadata.playlistDisplayName)].filter(Boolean);
+}
+
+/**
+ * Same test as the search 'karaoke' scope: the word in the title, path or playlist
+ */
+export function isKaraokeVideo(video: SmartPlaylistCandidate): boolean {
+  return [lower(video.title), lower(video.path), ...playlistNamesOf(video)].some(text => text.includes('karaoke'));
+}
+
+export function matchesSmartPlaylistRule(rule: SmartPlaylistRule, video: SmartPlaylistCandidate, now: number = Date.now()): boolean {
+  switch (rule.field) {
+    case 'artist': {
+      const artist = lower(video.artist);
+      return rule.values.some(value => lower(value) === artist);
+    }
+    case 'playlist': {
+      const names = playlistNamesOf(video);
+      return rule.values.some(value => names.includes(lower(value)));
+    }
+    case 'play_count': {
+      const playCount = video.play_count ?? 0;
+      return rule.operator === 'gt' ? playCount > rule.value : playCount < rule.value;
+    }
+    case 'duration':
+      if (video.duration == null) return false;
+      return rule.operator === 'gt' ? video.duration > rule.value : video.duration < rule.value;
+    case 'last_played':
+      return !video.last_played || now - new Date(video.last_played).getTime() > rule.value * DAY_MS;
+    case 'karaoke':
+      return rule.operator === 'only' ? isKaraokeVideo(video) : !isKaraokeVideo(video);
+  }
+}
+
+/**
+ * The videos a smart playlist holds right now, sorted and capped.
+ * A playlist with no rules holds the whole library.
+ */
+export function evaluateSmartPlaylist<T extends SmartPlaylistCandidate>(
+  playlist: SmartPlaylistDefinition,
+  videos: T[],
+  now: number = Date.now()
+): T[] {
+  const matches = playlist.rules.length === 0
+    ? [...videos]
+    : videos.filter(video => playlist.match_mode === 'any'
+      ? playlist.rules.some(rule => matchesSmartPlaylistRule(rule, video, now))
+      : playlist.rules.every(rule => matchesSmartPlaylistRule(rule, video, now)));
+
+  const lastPlayed = (video: T) => (video.last_played ? new Date(video.last_played).getTime() : 0);
+  matches.sort((a, b) => {
+    switch (playlist.sort_by) {
+      case 'artist': return (a.artist || '').localeCompare(b.artist || '') || a.title.localeCompare(b.title);
+      case 'play_count': return (b.play_count ?? 0) - (a.play_count ?? 0);
+      case 'last_played': return lastPlayed(a) - lastPlayed(b); // Longest unplayed first
+      default: return a.title.localeCompare(b.title);
+    }
+  });
+
+  return playlist.max_videos ? matches.slice(0, playlist.max_videos) : matches;
+}
+
+function formatSeconds(seconds: number): string {
+  return `${Math.floor(seconds / 60)}:${String(Math.round(seconds % 60)).padStart(2, '0')}`;
+}
+
+export function describeSmartPlaylistRule(rule: SmartPlaylistRule): string {
+  switch (rule.field) {
+    case 'artist': return `Artist is ${rule.values.join(' or ')}`;
+    case 'playlist': return `In folder ${rule.values.join(' or ')}`;
+    case 'play_count': return `Played ${rule.operator === 'gt' ? 'more' : 'fewer'} than ${rule.value} times`;
+    case 'duration': return `${rule.operator === 'gt' ? 'Longer' : 'Shorter'} than ${formatSeconds(rule.value)}`;
+    case 'last_played': return `Not played in the last ${rule.value === 1 ? 'day' : `${rule.value} days`}`;
+    case 'karaoke': return rule.operator === 'only' ? 'Karaoke only' : 'No karaoke';
+  }
+}
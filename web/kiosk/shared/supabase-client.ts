@@ -6,6 +6,7 @@
  * - Realtime subscriptions for player state
  * - Realtime-based command acknowledgment (no polling)
  * - Connection status monitoring
+ * - Automatic fallback to the player's LAN server while the cloud is unreachable
  */
 
 import { createClient, SupabaseClient, RealtimeChannel } from '@supabase/supabase-js';
@@ -16,7 +17,25 @@ import type {
   CommandPayload,
   SupabaseLocalVideo,
   QueueVideoItem,
+  KioskCreditBalance,
+  ChartPeriod,
+  TopChartEntry,
+  PlayHistoryEntry,
+  SmartPlaylist,
+  KioskPairing,
 } from './types';
+import {
+  isLanMode,
+  setLanMode,
+  onLanModeChange,
+  probeLanServer,
+  lanGetPlayerState,
+  lanSendCommand,
+  lanQueryLocalVideos,
+  subscribeToLanEvents,
+} from './lan-client';
+
+export { isLanMode, onLanModeChange, getLanDeviceToken, setLanDeviceToken } from './lan-client';
 
 // DJAMMS_Obie_Server Project Configuration
 // Load from environment variables (Vite uses import.meta.env.VITE_*)
@@ -57,15 +76,15 @@ let isRealtimeConnected = false;
 export function onConnectionChange(callback: ConnectionCallback): () => void {
   connectionCallbacks.add(callback);
   // Immediately call with current status
-  callback(isRealtimeConnected);
+  callback(isConnected());
   return () => connectionCallbacks.delete(callback);
 }
 
 /**
- * Get current connection status
+ * Get current connection status (Supabase Realtime, or the LAN server in LAN mode)
  */
 export function isConnected(): boolean {
-  return isRealtimeConnected;
+  return isRealtimeConnected || isLanMode();
 }
 
 // Monitor Realtime connection status using a dedicated channel
@@ -77,14 +96,38 @@ connectionMonitor.subscribe((status) => {
   if (status === 'SUBSCRIBED') {
     console.log('[SupabaseClient] ✅ Realtime connected');
     isRealtimeConnected = true;
+    setLanMode(false);
     connectionCallbacks.forEach(cb => cb(true));
-  } else if (status === 'CLOSED' || status === 'CHANNEL_ERROR') {
+  } else if (status === 'CLOSED' || status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
     console.log('[SupabaseClient] ❌ Realtime disconnected');
     isRealtimeConnected = false;
-    connectionCallbacks.forEach(cb => cb(false));
+    connectionCallbacks.forEach(cb => cb(isConnected()));
+    checkLanFallback();
   }
 });
 
+// ==================== LAN Fallback ====================
+// While Realtime is down, requests go to the player's LAN server if it answers (see lan-client.ts)
+
+const LAN_PROBE_INTERVAL_MS = 15000;
+
+async function checkLanFallback(): Promise<void> {
+  if (isRealtimeConnected) return;
+  const reachable = await probeLanServer();
+  if (!isRealtimeConnected) {
+    setLanMode(reachable);
+  }
+}
+
+onLanModeChange(() => connectionCallbacks.forEach(cb => cb(isConnected())));
+
+// Covers a cloud that never connects at all, and a LAN server that goes away
+setInterval(() => {
+  if (!isRealtimeConnected) {
+    checkLanFallback();
+  }
+}, LAN_PROBE_INTERVAL_MS);
+
 // ==================== Persistent Command Channel ====================
 // Reuse channels to avoid subscription overhead per command
 
@@ -175,6 +218,10 @@ async function getCommandChannel(playerId: string, retryCount = 0): Promise<Real
  * Get current player state
  */
 export async function getPlayerState(playerId: string = DEFAULT_PLAYER_ID): Promise<SupabasePlayerState | null> {
+  if (isLanMode()) {
+    return lanGetPlayerState(playerId);
+  }
+
   const { data, error } = await supabase
     .from('player_state')
     .select('*')
@@ -329,6 +376,9 @@ export function subscribeToPlayerState(
       }
     });
 
+  // Same callback receives pushes from the LAN server while in LAN mode
+  const unsubscribeLan = subscribeToLanEvents(playerId, { onPlayerState: callback });
+
   // Add cleanup method and return enhanced channel
   const enhancedChannel = channel as RealtimeChannel & { stopPolling: () => void };
   enhancedChannel.stopPolling = stopPolling;
@@ -337,6 +387,7 @@ export function subscribeToPlayerState(
   const originalUnsubscribe = enhancedChannel.unsubscribe.bind(enhancedChannel);
   enhancedChannel.unsubscribe = async () => {
     stopPolling();
+    unsubscribeLan();
     return originalUnsubscribe();
   };
 
@@ -374,9 +425,98 @@ export function subscribeToLocalVideos(
       }
     });
 
+  const unsubscribeLan = subscribeToLanEvents(playerId, { onLocalVideosChanged: callback });
+  const originalUnsubscribe = channel.unsubscribe.bind(channel);
+  channel.unsubscribe = async () => {
+    unsubscribeLan();
+    return originalUnsubscribe();
+  };
+
   return channel;
 }
 
+// ==================== Command Identity ====================
+// The player only runs commands its policy allows for the sender's role. The database
+// resolves that role from the signed-in admin's session (owner/staff) or this device's
+// kiosk token (kiosk); anyone else is a guest.
+
+const DEVICE_TOKEN_STORAGE_KEY = 'djamms_device_token';
+const DEVICE_ID_STORAGE_KEY = 'djamms_device_id';
+
+/**
+ * This device's kiosk token, if it has been paired
+ * A ?deviceToken= URL parameter is remembered and removed from the address bar
+ */
+export function getDeviceToken(): string | null {
+  if (typeof window === 'undefined' || typeof localStorage === 'undefined') {
+    return null;
+  }
+  const url = new URL(window.location.href);
+  const fromUrl = url.searchParams.get('deviceToken');
+  if (fromUrl && fromUrl.trim()) {
+    localStorage.setItem(DEVICE_TOKEN_STORAGE_KEY, fromUrl.trim());
+    localStorage.removeItem(DEVICE_ID_STORAGE_KEY); // Belongs to the previous token
+    url.searchParams.delete('deviceToken');
+    window.history.replaceState(null, '', url.toString());
+  }
+  return localStorage.getItem(DEVICE_TOKEN_STORAGE_KEY);
+}
+
+export function setDeviceToken(token: string | null, deviceId: string | null = null): void {
+  if (typeof window === 'undefined' || typeof localStorage === 'undefined') {
+    return;
+  }
+  if (token) {
+    localStorage.setItem(DEVICE_TOKEN_STORAGE_KEY, token);
+  } else {
+    localStorage.removeItem(DEVICE_TOKEN_STORAGE_KEY);
+  }
+  if (token && deviceId) {
+    localStorage.setItem(DEVICE_ID_STORAGE_KEY, deviceId);
+  } else {
+    localStorage.removeItem(DEVICE_ID_STORAGE_KEY);
+  }
+}
+
+/**
+ * This device's ID (kiosk_devices.id), if it was paired with a code
+ * The player charges paid requests to the device that sent them.
+ */
+export function getPairedDeviceId(): string | null {
+  if (typeof window === 'undefined' || typeof localStorage === 'undefined') {
+    return null;
+  }
+  return localStorage.getItem(DEVICE_ID_STORAGE_KEY);
+}
+
+/**
+ * Pair this device with a player using the one-time code the player shows
+ * Stores the returned device token, so later commands run with the device's role
+ */
+export async function claimPairingCode(
+  code: string,
+  deviceName?: string
+): Promise<{ success: boolean; pairing?: KioskPairing; error?: string }> {
+  const { data, error } = await supabase.rpc('claim_kiosk_pairing_code', {
+    p_code: code.trim().toUpperCase(),
+    p_device_name: deviceName?.trim() || null
+  });
+
+  if (error) {
+    console.warn('[SupabaseClient] Pairing failed:', error.message);
+    return {
+      success: false,
+      error: error.message.includes('INVALID_PAIRING_CODE')
+        ? 'That code is invalid, expired or already used. Ask for a new one on the player.'
+        : error.message
+    };
+  }
+
+  const pairing = (Array.isArray(data) ? data[0] : data) as KioskPairing;
+  setDeviceToken(pairing.device_token, pairing.device_id);
+  return { success: true, pairing };
+}
+
 // ==================== Command Functions ====================
 
 /**
@@ -423,6 +563,12 @@ export async function sendCommandAndWait(
       created_at: new Date().toISOString()
     };
 
+    // Cloud unreachable - the player's LAN server executes and acknowledges it directly
+    if (isLanMode()) {
+      console.log(`[SupabaseClient] 📤 Sending command via LAN: ${commandType} to player: ${playerId}`);
+      return lanSendCommand(command, true, timeoutMs);
+    }
+
     // 2. Insert to database FIRST (so we can subscribe to status changes)
     // Note: This is optional - if schema doesn't match, we'll skip DB insert but still broadcast
     // Map to actual schema: admin_id (required), action_type, action_data
@@ -443,6 +589,7 @@ export async function sendCommandAndWait(
     insertPayload.command_data = commandData;
     insertPayload.issued_by = issuedBy;
     insertPayload.issued_at = new Date().toISOString();
+    insertPayload.device_token = getDeviceToken(); // Resolved to issuer_role by the database, never stored
 
     const { error: insertError } = await supabase
       .from('admin_commands')
@@ -593,6 +740,7 @@ export const blockingCommands = {
   setVolume: (volume: number, playerId?: string) => sendCommandAndWait('setVolume', { volume }, 'web-admin', playerId || DEFAULT_PLAYER_ID),
   play: (video: QueueVideoItem, queueIndex?: number, playerId?: string) => 
     sendCommandAndWait('play', { video, queueIndex }, 'web-admin', playerId || DEFAULT_PLAYER_ID),
+  // The player charges paid requests to the paired device that sent them, at its own price
   queueAdd: (video: QueueVideoItem, queueType: 'active' | 'priority' = 'priority', issuedBy: string = 'kiosk', playerId?: string) => 
     sendCommandAndWait('queue_add', { video, queueType }, issuedBy, playerId || DEFAULT_PLAYER_ID),
   queueClear: (playerId?: string) => sendCommandAndWait('queue_clear', {}, 'web-admin', playerId || DEFAULT_PLAYER_ID),
@@ -603,7 +751,7 @@ export const blockingCommands = {
 
 /**
  * Insert a command to be executed by the Electron player (fire-and-forget)
- * Broadcasts using persistent channel for instant delivery, then persists to database
+ * Persists to the database, then broadcasts on the persistent channel for instant delivery
  */
 export async function insertCommand(
   commandType: CommandType,
@@ -628,17 +776,13 @@ export async function insertCommand(
       execution_result: null,
       created_at: new Date().toISOString()
     };
-    
-    // 2. Broadcast using persistent channel (no subscription overhead)
-    console.log(`[SupabaseClient] 📤 Broadcasting command: ${commandType} to player: ${playerId}`);
-    
-    const commandChannel = await getCommandChannel(playerId);
-    
-    await commandChannel.httpSend('command', { command, timestamp: new Date().toISOString() });
-    
-    console.log(`[SupabaseClient] ✅ Command ${commandType} broadcast sent`);
 
-    // 3. Insert to database for persistence (fire-and-forget, don't block)
+    if (isLanMode()) {
+      const result = await lanSendCommand(command, false);
+      return result.success;
+    }
+    
+    // 2. Insert to database first - the player looks up the stored row to verify who sent it
     // Note: This is optional - if schema doesn't match, we'll skip DB insert but still broadcast
     // Map to actual schema: admin_id (required), action_type, action_data
     // Also try new columns if they exist: player_id, command_type, command_data, issued_by
@@ -658,20 +802,25 @@ export async function insertCommand(
     insertPayload.command_data = commandData;
     insertPayload.issued_by = issuedBy;
     insertPayload.issued_at = new Date().toISOString();
+    insertPayload.device_token = getDeviceToken(); // Resolved to issuer_role by the database, never stored
 
-    Promise.resolve(supabase
+    const { error: insertError } = await supabase
       .from('admin_commands')
-      .insert(insertPayload))
-      .then(({ error }) => {
-        // Suppress schema errors (PGRST204 = column not found, 42P01 = table doesn't exist, 23502 = not-null constraint)
-        // These are non-critical since broadcasting via Realtime channel works fine
-        if (error && error.code !== '42P01' && error.code !== 'PGRST204' && error.code !== '23502') {
-          console.warn('[SupabaseClient] DB insert failed:', error.message);
-        }
-      })
-      .catch(() => {
-        // Silently ignore any other errors - broadcasting already succeeded
-      });
+      .insert(insertPayload);
+
+    // Suppress schema errors (PGRST204 = column not found, 42P01 = table doesn't exist, 23502 = not-null constraint)
+    if (insertError && insertError.code !== '42P01' && insertError.code !== 'PGRST204' && insertError.code !== '23502') {
+      console.warn('[SupabaseClient] DB insert failed:', insertError.message);
+    }
+
+    // 3. Broadcast using persistent channel (no subscription overhead)
+    console.log(`[SupabaseClient] 📤 Broadcasting command: ${commandType} to player: ${playerId}`);
+    
+    const commandChannel = await getCommandChannel(playerId);
+    
+    await commandChannel.httpSend('command', { command, timestamp: new Date().toISOString() });
+    
+    console.log(`[SupabaseClient] ✅ Command ${commandType} broadcast sent`);
 
     return true;
   } catch (err) {
@@ -700,6 +849,134 @@ export const commands = {
     insertCommand('load_playlist', { playlistName, shuffle }, 'web-admin', playerId)
 };
 
+// ==================== Kiosk Credit Functions ====================
+
+// Kiosk ID used when a player only has a single kiosk attached
+export const DEFAULT_KIOSK_ID = 'main';
+
+/**
+ * Get the current credit balance for a kiosk
+ */
+export async function getKioskCredits(
+  playerId: string = DEFAULT_PLAYER_ID,
+  kioskId: string = DEFAULT_KIOSK_ID
+): Promise<number> {
+  const { data, error } = await supabase
+    .from('kiosk_credit_balances')
+    .select('balance')
+    .eq('player_id', playerId)
+    .eq('kiosk_id', kioskId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[SupabaseClient] Error fetching kiosk credits:', error);
+    return 0;
+  }
+
+  return data?.balance ?? 0;
+}
+
+// One realtime channel per kiosk, shared by every component showing its balance -
+// realtime-js reuses channels by topic, so one subscriber unsubscribing would end it for all
+const kioskCreditChannels: Map<string, { channel: RealtimeChannel; callbacks: Set<(balance: number) => void> }> = new Map();
+
+/**
+ * Subscribe to live balance changes for a kiosk
+ * Realtime filters only support one column, so kiosk_id is checked client-side
+ * @returns Unsubscribe function - the channel closes with its last subscriber
+ */
+export function subscribeToKioskCredits(
+  playerId: string,
+  kioskId: string,
+  callback: (balance: number) => void
+): () => void {
+  const topic = `kiosk_credits:${playerId}:${kioskId}`;
+  let shared = kioskCreditChannels.get(topic);
+
+  if (!shared) {
+    const callbacks = new Set<(balance: number) => void>();
+    const channel = supabase
+      .channel(topic)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'kiosk_credit_balances',
+          filter: `player_id=eq.${playerId}`
+        },
+        (payload) => {
+          const row = payload.new as Partial<KioskCreditBalance> | null;
+          if (row && row.kiosk_id === kioskId && typeof row.balance === 'number') {
+            callbacks.forEach(cb => cb(row.balance as number));
+          }
+        }
+      )
+      .subscribe((status) => {
+        console.log(`[SupabaseClient] Kiosk credits subscription: ${status}`);
+      });
+    shared = { channel, callbacks };
+    kioskCreditChannels.set(topic, shared);
+  }
+
+  const { channel, callbacks } = shared;
+  callbacks.add(callback);
+
+  return () => {
+    callbacks.delete(callback);
+    if (callbacks.size === 0 && kioskCreditChannels.get(topic)?.channel === channel) {
+      kioskCreditChannels.delete(topic);
+      supabase.removeChannel(channel);
+    }
+  };
+}
+
+/**
+ * Kiosk credit operations - sent to the player, which writes them to the ledger
+ */
+export const kioskCredits = {
+  deposit: (amount: number, playerId?: string, kioskId?: string, source: string = 'web-admin') =>
+    sendCommandAndWait('kiosk_add_credits', { amount, kioskId: kioskId || DEFAULT_KIOSK_ID, source }, 'web-admin', playerId || DEFAULT_PLAYER_ID),
+  clear: (playerId?: string, kioskId?: string) =>
+    sendCommandAndWait('kiosk_clear_credits', { kioskId: kioskId || DEFAULT_KIOSK_ID }, 'web-admin', playerId || DEFAULT_PLAYER_ID)
+};
+
+// ==================== Content Moderation ====================
+
+const EXPLICIT_POLICY_CACHE_MS = 60 * 1000;
+const explicitPolicyCache = new Map<string, { allowed: boolean; checkedAt: number }>();
+
+/**
+ * Whether explicit tracks may be offered right now (player's daytime policy)
+ * Evaluated server-side in the venue's time zone, cached for a minute.
+ * Explicit tracks stay hidden if the policy can't be checked.
+ */
+export async function isExplicitContentAllowed(playerId: string = DEFAULT_PLAYER_ID): Promise<boolean> {
+  const cached = explicitPolicyCache.get(playerId);
+  if (cached && Date.now() - cached.checkedAt < EXPLICIT_POLICY_CACHE_MS) {
+    return cached.allowed;
+  }
+
+  const { data, error } = await supabase.rpc('explicit_content_allowed', { p_player_id: playerId });
+  const allowed = !error && data === true;
+  explicitPolicyCache.set(playerId, { allowed, checkedAt: Date.now() });
+  return allowed;
+}
+
+/**
+ * Drop videos clients must never be offered: rejected by moderation,
+ * or explicit while the daytime policy is active
+ */
+export async function filterModeratedVideos<T extends Pick<SupabaseLocalVideo, 'content_status' | 'is_explicit'>>(
+  videos: T[],
+  playerId: string = DEFAULT_PLAYER_ID
+): Promise<T[]> {
+  const explicitAllowed = !videos.some(video => video.is_explicit) || await isExplicitContentAllowed(playerId);
+  return videos.filter(video =>
+    video.content_status !== 'rejected' && (explicitAllowed || !video.is_explicit)
+  );
+}
+
 // ==================== Local Videos (Search) Functions ====================
 
 /**
@@ -730,12 +1007,25 @@ export const commands = {
  * - Searches the `local_videos` table in Supabase
  * - This table is populated by the Electron player when it indexes the PLAYLISTS folder
  * - Only videos with is_available=true are searchable
+ * - Moderation-rejected videos (and explicit ones during daytime hours) are never returned
  * - Each video record contains: id, title, artist, path, duration, metadata (playlist info)
  */
 export async function searchLocalVideos(
   query: string,
   playerId: string = DEFAULT_PLAYER_ID,
   limit: number | null = 50
+): Promise<SupabaseLocalVideo[]> {
+  const results = await searchAvailableLocalVideos(query, playerId, limit);
+  return filterModeratedVideos(results, playerId);
+}
+
+/**
+ * Search available videos (RPC with ILIKE fallback), before moderation filtering
+ */
+async function searchAvailableLocalVideos(
+  query: string,
+  playerId: string,
+  limit: number | null
 ): Promise<SupabaseLocalVideo[]> {
   // Minimum query length before searching
   const MIN_QUERY_LENGTH = 2;
@@ -744,6 +1034,10 @@ export async function searchLocalVideos(
   if (trimmedQuery.length < MIN_QUERY_LENGTH) {
     return [];
   }
+
+  if (isLanMode()) {
+    return lanQueryLocalVideos(playerId, { query: trimmedQuery, limit });
+  }
   
   // Prefer PostgreSQL FTS RPC for consistent relevance across clients
   // However, if RPC fails (400, schema mismatch, etc.), silently fall back to improved ILIKE search
@@ -1027,7 +1321,7 @@ function scoreAndSortResults(
 }
 
 /**
- * Get all local videos (for browse)
+ * Get all local videos (for browse), excluding moderated-out content
  * Supports pagination for large libraries
  * Also exported as queryLocalVideos for backwards compatibility
  */
@@ -1036,6 +1330,22 @@ export async function getAllLocalVideos(
   limit: number | null = null, // null = fetch all, no limit
   offset: number = 0
 ): Promise<SupabaseLocalVideo[]> {
+  const videos = await fetchAvailableLocalVideos(playerId, limit, offset);
+  return filterModeratedVideos(videos, playerId);
+}
+
+/**
+ * Fetch available video files (paginated), before moderation filtering
+ */
+async function fetchAvailableLocalVideos(
+  playerId: string,
+  limit: number | null,
+  offset: number
+): Promise<SupabaseLocalVideo[]> {
+  if (isLanMode()) {
+    return lanQueryLocalVideos(playerId, { limit, offset });
+  }
+
   if (!playerId || playerId.trim() === '') {
     console.warn('[SupabaseClient] getAllLocalVideos called with empty playerId');
     return [];
@@ -1180,6 +1490,10 @@ export async function getAllLocalVideos(
 export async function getLocalVideosCount(
   playerId: string = DEFAULT_PLAYER_ID
 ): Promise<number> {
+  if (isLanMode()) {
+    return (await lanQueryLocalVideos(playerId)).length;
+  }
+
   const { count, error } = await supabase
     .from('local_videos')
     .select('*', { count: 'exact', head: true })
@@ -1201,6 +1515,10 @@ export async function getVideosByPlaylist(
   playlistName: string,
   playerId: string = DEFAULT_PLAYER_ID
 ): Promise<SupabaseLocalVideo[]> {
+  if (isLanMode()) {
+    return lanQueryLocalVideos(playerId, { playlist: playlistName });
+  }
+
   const { data, error } = await supabase
     .from('local_videos')
     .select('*')
@@ -1214,7 +1532,7 @@ export async function getVideosByPlaylist(
     return [];
   }
 
-  return data || [];
+  return filterModeratedVideos(data || [], playerId);
 }
 
 /**
@@ -1223,11 +1541,13 @@ export async function getVideosByPlaylist(
 export async function getPlaylists(
   playerId: string = DEFAULT_PLAYER_ID
 ): Promise<string[]> {
-  const { data, error } = await supabase
-    .from('local_videos')
-    .select('metadata')
-    .eq('player_id', playerId)
-    .eq('is_available', true);
+  const { data, error } = isLanMode()
+    ? { data: await lanQueryLocalVideos(playerId), error: null }
+    : await supabase
+        .from('local_videos')
+        .select('metadata')
+        .eq('player_id', playerId)
+        .eq('is_available', true);
 
   if (error) {
     console.error('[SupabaseClient] Error fetching playlists:', error);
@@ -1246,6 +1566,132 @@ export async function getPlaylists(
   return Array.from(playlists).sort();
 }
 
+// ==================== Top Charts Functions ====================
+
+/**
+ * Get the most played videos for a period, with each entry's rank in the previous period
+ * Plays are recorded by the player via record_video_play when a track finishes
+ */
+export async function getTopCharts(
+  playerId: string = DEFAULT_PLAYER_ID,
+  period: ChartPeriod = 'week',
+  limit: number = 100
+): Promise<TopChartEntry[]> {
+  const { data, error } = await supabase.rpc('get_top_charts', {
+    p_player_id: playerId,
+    p_period: period,
+    p_limit: limit
+  });
+
+  if (error) {
+    console.error('[SupabaseClient] Error fetching top charts:', error);
+    return [];
+  }
+
+  return (data || []) as TopChartEntry[];
+}
+
+// ==================== Play History Functions ====================
+
+/**
+ * Get the most recent plays for a player, newest first
+ * Skips and errors are included - filter on transition_reason if needed
+ */
+export async function getRecentPlays(
+  playerId: string = DEFAULT_PLAYER_ID,
+  limit: number = 10
+): Promise<PlayHistoryEntry[]> {
+  const { data, error } = await supabase
+    .from('video_plays')
+    .select('*')
+    .eq('player_id', playerId)
+    .order('played_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error('[SupabaseClient] Error fetching recent plays:', error);
+    return [];
+  }
+
+  return (data || []) as PlayHistoryEntry[];
+}
+
+/**
+ * Subscribe to plays as the player records them
+ */
+export function subscribeToRecentPlays(
+  playerId: string,
+  callback: (entry: PlayHistoryEntry) => void
+): RealtimeChannel {
+  const channel = supabase
+    .channel(`video_plays:${playerId}`)
+    .on(
+      'postgres_changes',
+      {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'video_plays',
+        filter: `player_id=eq.${playerId}`
+      },
+      (payload) => {
+        if (payload.new) {
+          callback(payload.new as PlayHistoryEntry);
+        }
+      }
+    )
+    .subscribe((status) => {
+      console.log(`[SupabaseClient] Recent plays subscription: ${status}`);
+    });
+
+  return channel;
+}
+
+// ==================== Smart Playlists ====================
+
+/**
+ * Get a player's smart playlist definitions - evaluate them with evaluateSmartPlaylist
+ */
+export async function getSmartPlaylists(playerId: string = DEFAULT_PLAYER_ID): Promise<SmartPlaylist[]> {
+  const { data, error } = await supabase
+    .from('smart_playlists')
+    .select('*')
+    .eq('player_id', playerId)
+    .order('name');
+
+  if (error) {
+    console.error('[SupabaseClient] Error fetching smart playlists:', error);
+    return [];
+  }
+
+  return (data || []) as SmartPlaylist[];
+}
+
+/**
+ * Subscribe to smart playlists being added, edited or deleted on the player
+ */
+export function subscribeToSmartPlaylists(
+  playerId: string,
+  callback: () => void
+): RealtimeChannel {
+  const channel = supabase
+    .channel(`smart_playlists:${playerId}`)
+    .on(
+      'postgres_changes',
+      {
+        event: '*',
+        schema: 'public',
+        table: 'smart_playlists',
+        filter: `player_id=eq.${playerId}`
+      },
+      () => callback()
+    )
+    .subscribe((status) => {
+      console.log(`[SupabaseClient] Smart playlists subscription: ${status}`);
+    });
+
+  return channel;
+}
+
 // ==================== Helper Functions ====================
 
 /**
@@ -13,6 +13,7 @@ import {
   SleekKiosk,
   ObieKiosk,
   NowPlaying,
+  RecentlyPlayed,
   ComingUpTicker,
   CreditsDisplay
 } from './components';
@@ -22,7 +23,8 @@ import {
   subscribeToPlayerState,
   isPlayerOnline,
   onConnectionChange,
-  getAllLocalVideos
+  getAllLocalVideos,
+  claimPairingCode
 } from '@shared/supabase-client';
 import { thumbnailCache } from './services/thumbnailCache';
 import { initializePingHandler, cleanupPingHandler } from '@shared/ping-handler';
@@ -61,11 +63,27 @@ function getUIMode(): 'classic' | 'jukebox' {
   return ui === 'classic' ? 'classic' : 'jukebox';
 }
 
+// Pairing codes shown by the player (Connections tab)
+const PAIRING_CODE_LENGTH = 6;
+
+// Pairing code from the player's QR code (?pair=ABC234) - removed from the address bar once read
+function takePairingCodeFromUrl(): string | null {
+  const url = new URL(window.location.href);
+  const code = url.searchParams.get('pair');
+  if (!code) return null;
+  url.searchParams.delete('pair');
+  window.history.replaceState(null, '', url.toString());
+  return code.trim().toUpperCase();
+}
+
 // Connection Flow Component
 function ConnectionFlow({ onConnected }: { onConnected: (playerId: string) => void }) {
   const [step, setStep] = useState<'one' | 'two' | 'three'>('one');
   const [storedPlayerId, setStoredPlayerId] = useState<string | null>(null);
   const [input, setInput] = useState(DEFAULT_PLAYER_ID);
+  // Pairing gives this kiosk its own device token; a bare player ID only connects as a guest
+  const [entryMode, setEntryMode] = useState<'code' | 'playerId'>('code');
+  const [code, setCode] = useState('');
   const [message, setMessage] = useState('');
   const [messageType, setMessageType] = useState<'error' | 'info' | 'success'>('info');
   const [connecting, setConnecting] = useState(false);
@@ -102,8 +120,35 @@ function ConnectionFlow({ onConnected }: { onConnected: (playerId: string) => vo
     }, 500);
   }, [onConnected]);
 
-  // Initialize - check localStorage
+  // Claim a pairing code, then connect to the player it belongs to
+  const pairAndConnect = useCallback(async (pairingCode: string) => {
+    setStep('three');
+    setConnecting(true);
+    setMessage('Pairing...');
+    setMessageType('info');
+
+    const result = await claimPairingCode(pairingCode);
+    if (!result.success || !result.pairing) {
+      setMessage(result.error || 'Pairing failed');
+      setMessageType('error');
+      setConnecting(false);
+      setStep('two');
+      setEntryMode('code');
+      setCode(pairingCode);
+      return;
+    }
+
+    await connectToPlayer(result.pairing.player_id);
+  }, [connectToPlayer]);
+
+  // Initialize - a scanned QR code wins, then localStorage
   useEffect(() => {
+    const urlCode = takePairingCodeFromUrl();
+    if (urlCode) {
+      pairAndConnect(urlCode);
+      return;
+    }
+
     const stored = getPlayerId();
     if (stored) {
       setStoredPlayerId(stored);
@@ -126,10 +171,24 @@ function ConnectionFlow({ onConnected }: { onConnected: (playerId: string) => vo
       // No stored ID - go directly to STEP TWO
       setStep('two');
     }
-  }, [connectToPlayer]);
+  }, [connectToPlayer, pairAndConnect]);
+
+  const canSubmit = entryMode === 'code'
+    ? code.trim().length === PAIRING_CODE_LENGTH
+    : input.trim().length >= MIN_PLAYER_ID_LENGTH;
 
   // Handle connect button (STEP TWO)
   const handleConnect = async () => {
+    if (entryMode === 'code') {
+      if (!canSubmit) {
+        setMessage(`Pairing codes are ${PAIRING_CODE_LENGTH} characters`);
+        setMessageType('error');
+        return;
+      }
+      await pairAndConnect(code.trim().toUpperCase());
+      return;
+    }
+
     const clean = input.trim().toUpperCase();
     
     if (!isValidPlayerIdFormat(clean)) {
@@ -261,21 +320,33 @@ function ConnectionFlow({ onConnected }: { onConnected: (playerId: string) => vo
             marginBottom: '32px',
             color: '#aaa'
           }}>
-            Enter the Player ID to connect to the jukebox
-            <br />
-            <span style={{ fontSize: '14px', opacity: 0.7 }}>
-              (minimum {MIN_PLAYER_ID_LENGTH} characters)
-            </span>
+            {entryMode === 'code' ? (
+              <>
+                Enter the pairing code shown on the player
+                <br />
+                <span style={{ fontSize: '14px', opacity: 0.7 }}>
+                  (Connections tab → Pair Kiosk)
+                </span>
+              </>
+            ) : (
+              <>
+                Enter the Player ID to connect to the jukebox
+                <br />
+                <span style={{ fontSize: '14px', opacity: 0.7 }}>
+                  (minimum {MIN_PLAYER_ID_LENGTH} characters - song requests need a paired kiosk)
+                </span>
+              </>
+            )}
           </p>
           
           {/* Input */}
           <input
-            value={input}
-            onChange={(e) => setInput(e.target.value.toUpperCase())}
+            value={entryMode === 'code' ? code : input}
+            onChange={(e) => (entryMode === 'code' ? setCode : setInput)(e.target.value.toUpperCase())}
             onKeyDown={handleKeyDown}
-            placeholder={DEFAULT_PLAYER_ID}
+            placeholder={entryMode === 'code' ? 'ABC234' : DEFAULT_PLAYER_ID}
             disabled={connecting}
-            maxLength={32}
+            maxLength={entryMode === 'code' ? PAIRING_CODE_LENGTH : 32}
             style={{
               width: '100%',
               fontSize: '32px',
@@ -300,7 +371,7 @@ function ConnectionFlow({ onConnected }: { onConnected: (playerId: string) => vo
           {/* Connect Button */}
           <button
             onClick={handleConnect}
-            disabled={connecting || input.trim().length < MIN_PLAYER_ID_LENGTH}
+            disabled={connecting || !canSubmit}
             style={{
               width: '100%',
               fontSize: '24px',
@@ -308,14 +379,33 @@ function ConnectionFlow({ onConnected }: { onConnected: (playerId: string) => vo
               padding: '20px 40px',
               borderRadius: '12px',
               border: 'none',
-              cursor: connecting || input.trim().length < MIN_PLAYER_ID_LENGTH ? 'not-allowed' : 'pointer',
-              backgroundColor: connecting || input.trim().length < MIN_PLAYER_ID_LENGTH ? '#333' : '#00bcd4',
+              cursor: connecting || !canSubmit ? 'not-allowed' : 'pointer',
+              backgroundColor: connecting || !canSubmit ? '#333' : '#00bcd4',
               color: 'white',
               transition: 'all 0.2s',
-              opacity: connecting || input.trim().length < MIN_PLAYER_ID_LENGTH ? 0.5 : 1
+              opacity: connecting || !canSubmit ? 0.5 : 1
             }}
           >
-            {connecting ? 'Connecting...' : 'Connect'}
+            {connecting ? 'Connecting...' : entryMode === 'code' ? 'Pair' : 'Connect'}
+          </button>
+
+          <button
+            onClick={() => {
+              setEntryMode(entryMode === 'code' ? 'playerId' : 'code');
+              setMessage('');
+            }}
+            disabled={connecting}
+            style={{
+              marginTop: '16px',
+              fontSize: '14px',
+              background: 'none',
+              border: 'none',
+              color: '#888',
+              textDecoration: 'underline',
+              cursor: 'pointer'
+            }}
+          >
+            {entryMode === 'code' ? 'Use a Player ID instead' : 'Use a pairing code'}
           </button>
           
           {/* Message */}
@@ -382,11 +472,13 @@ function KioskApp() {
   const [playerState, setPlayerState] = useState<SupabasePlayerState | null>(null);
   const [isOnline, setIsOnline] = useState(false);
   const [isRealtimeConnected, setIsRealtimeConnected] = useState(false);
-  const [credits, setCredits] = useState(999); // Placeholder - future implementation
   const [showSuccessToast, setShowSuccessToast] = useState(false);
   
   // Get UI mode from URL parameter (stable across renders)
   const uiMode = useMemo(() => getUIMode(), []);
+  // Free play or credits, and the price, as set on the player (free play until it says otherwise)
+  const isFreePlay = playerState?.kiosk_settings?.mode !== 'credits';
+  const creditCost = playerState?.kiosk_settings?.creditsPerRequest || 1;
 
   // Log playerId on mount for debugging
   useEffect(() => {
@@ -520,8 +612,8 @@ function KioskApp() {
           activeQueue={playerState?.active_queue || []}
           priorityQueue={playerState?.priority_queue || []}
           playerId={playerId}
-          credits={credits}
-          isFreePlay={true}
+          isFreePlay={isFreePlay}
+          creditCost={creditCost}
           onSongQueued={handleSongRequested}
         />
       ) : (
@@ -536,8 +628,11 @@ function KioskApp() {
             isOnline={isOnline}
           />
 
-          {/* Credits Display - Top Right (Placeholder) */}
-          <CreditsDisplay credits={credits} />
+          {/* Recently Played - Left, below Now Playing */}
+          <RecentlyPlayed playerId={playerId} />
+
+          {/* Credits Display - Top Right (credits mode only) */}
+          {!isFreePlay && <CreditsDisplay playerId={playerId} />}
 
           {/* Main Content */}
           <main className="relative z-10 pt-24 pb-24 min-h-screen">
@@ -562,7 +657,8 @@ function KioskApp() {
               <div className="h-[calc(100vh-280px)]">
                 <SearchInterface 
                   onSongRequested={handleSongRequested}
-                  credits={credits}
+                  isFreePlay={isFreePlay}
+                  creditCost={creditCost}
                   playerId={playerId}
                 />
               </div>
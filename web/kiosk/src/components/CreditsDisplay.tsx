@@ -1,13 +1,16 @@
-// CreditsDisplay.tsx - Credits placeholder UI for Kiosk
-// Future implementation: coin-operated request system
+// CreditsDisplay.tsx - Live credit balance for Kiosk
+// Balance comes from the server-side credit ledger
 
 import { Coins } from 'lucide-react';
+import { useKioskCredits } from '../hooks/useKioskCredits';
 
 interface CreditsDisplayProps {
-  credits: number;
+  playerId: string;
 }
 
-export function CreditsDisplay({ credits }: CreditsDisplayProps) {
+export function CreditsDisplay({ playerId }: CreditsDisplayProps) {
+  const credits = useKioskCredits(playerId);
+
   return (
     <div className="fixed top-4 right-4 z-20">
       <div className="kiosk-card flex items-center gap-3">
@@ -10,6 +10,7 @@ import { JukeboxHeader } from './JukeboxHeader';
 import { TileGrid } from './TileGrid';
 import { BrowseBar } from './BrowseBar';
 import { SearchModeFooter } from './SearchModeFooter';
+import { useSmartPlaylists } from '../hooks/useSmartPlaylists';
 import './JukeboxKiosk.css';
 
 interface JukeboxKioskProps {
@@ -33,6 +34,7 @@ export const JukeboxKiosk: React.FC<JukeboxKioskProps> = ({
   const [activeLetter, setActiveLetter] = useState<string | null>(null);
   const [sortBy, setSortBy] = useState<'song' | 'artist'>('song');
   const [activeFilters, setActiveFilters] = useState<string[]>(['music', 'karaoke']); // Both active by default
+  const [smartPlaylistId, setSmartPlaylistId] = useState<string | null>(null);
   
   // Pagination
   const [currentPage, setCurrentPage] = useState(1);
@@ -40,6 +42,7 @@ export const JukeboxKiosk: React.FC<JukeboxKioskProps> = ({
   // Data
   const [allVideos, setAllVideos] = useState<SupabaseLocalVideo[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const smartPlaylists = useSmartPlaylists(playerId);
   
   // Refs
   const searchDebounceRef = useRef<NodeJS.Timeout | null>(null);
@@ -65,7 +68,9 @@ export const JukeboxKiosk: React.FC<JukeboxKioskProps> = ({
   
   // Filter and sort videos
   const filteredVideos = useMemo(() => {
-    let filtered = [...allVideos];
+    // Browsing a smart playlist starts from its videos, in its own order
+    const smartPlaylist = searchMode ? undefined : smartPlaylists.find(playlist => playlist.id === smartPlaylistId);
+    let filtered = [...(smartPlaylist ? smartPlaylist.videos : allVideos)];
     
     // Apply search query if in search mode
     if (searchMode && searchQuery.trim()) {
@@ -102,16 +107,18 @@ export const JukeboxKiosk: React.FC<JukeboxKioskProps> = ({
     });
     
     // Sort
-    filtered.sort((a, b) => {
-      if (sortBy === 'song') {
-        return (a.title || '').localeCompare(b.title || '');
-      } else {
-        return (a.artist || '').localeCompare(b.artist || '');
-      }
-    });
+    if (!smartPlaylist) {
+      filtered.sort((a, b) => {
+        if (sortBy === 'song') {
+          return (a.title || '').localeCompare(b.title || '');
+        } else {
+          return (a.artist || '').localeCompare(b.artist || '');
+        }
+      });
+    }
     
     return filtered;
-  }, [allVideos, searchMode, searchQuery, activeLetter, activeFilters, sortBy]);
+  }, [allVideos, smartPlaylists, smartPlaylistId, searchMode, searchQuery, activeLetter, activeFilters, sortBy]);
   
   // Calculate available letters
   const availableLetters = useMemo(() => {
@@ -128,7 +135,7 @@ export const JukeboxKiosk: React.FC<JukeboxKioskProps> = ({
   // Reset to page 1 when filters change
   useEffect(() => {
     setCurrentPage(1);
-  }, [searchMode, searchQuery, activeLetter, activeFilters, sortBy]);
+  }, [searchMode, searchQuery, activeLetter, activeFilters, sortBy, smartPlaylistId]);
   
   // Handle search query changes with debounce
   const handleSearchChange = useCallback((query: string) => {
@@ -233,6 +240,27 @@ export const JukeboxKiosk: React.FC<JukeboxKioskProps> = ({
               </button>
             </div>
             
+            {/* Smart Playlists */}
+            {!searchMode && smartPlaylists.length > 0 && (
+              <div className="jukebox-kiosk-sort jukebox-kiosk-smart-playlists">
+                <button
+                  className={`jukebox-kiosk-sort-btn ${smartPlaylistId === null ? 'active' : ''}`}
+                  onClick={() => setSmartPlaylistId(null)}
+                >
+                  All Songs
+                </button>
+                {smartPlaylists.map(playlist => (
+                  <button
+                    key={playlist.id}
+                    className={`jukebox-kiosk-sort-btn ${smartPlaylistId === playlist.id ? 'active' : ''}`}
+                    onClick={() => setSmartPlaylistId(playlist.id)}
+                  >
+                    {playlist.name}
+                  </button>
+                ))}
+              </div>
+            )}
+            
             {/* Tile Grid */}
             <TileGrid
               videos={filteredVideos}
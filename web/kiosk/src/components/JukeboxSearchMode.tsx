@@ -5,6 +5,7 @@ import React, { useState, useEffect, useCallback, useRef } from 'react';
 import type { QueueVideoItem, SupabaseLocalVideo } from '@shared/types';
 import { searchLocalVideos, getAllLocalVideos, blockingCommands } from '@shared/supabase-client';
 import { cleanVideoTitle } from '@shared/video-utils';
+import { useKioskCredits } from '../hooks/useKioskCredits';
 import './JukeboxSearchMode.css';
 
 // Video background component with ping-pong looping
@@ -72,8 +73,6 @@ const VideoBackground: React.FC = () => {
 
 interface JukeboxSearchModeProps {
   nowPlaying?: QueueVideoItem | null;
-  credits?: number;
-  onCreditsChange?: (newCredits: number) => void;
   onSongQueued?: (video: QueueVideoItem) => void;
   creditCostQueue?: number;
   creditCostPlayNow?: number;
@@ -100,14 +99,15 @@ const KEYBOARD_NUMS_BOT = ['6', '7', '8', '9', '0'];
 
 export const JukeboxSearchMode: React.FC<JukeboxSearchModeProps> = ({
   nowPlaying = null,
-  credits = 999,
-  onCreditsChange,
   onSongQueued,
   creditCostQueue = 1,
   creditCostPlayNow = 3,
   isFreePlay = true,
   playerId,
 }) => {
+  // Live balance from the kiosk credit ledger
+  const credits = useKioskCredits(playerId);
+
   // Search state
   const [searchQuery, setSearchQuery] = useState('');
   const [searchResults, setSearchResults] = useState<SupabaseLocalVideo[]>([]);
@@ -134,6 +134,7 @@ export const JukeboxSearchMode: React.FC<JukeboxSearchModeProps> = ({
   const [queueingVideo, setQueueingVideo] = useState<string | null>(null);
   const [showSuccessFlash, setShowSuccessFlash] = useState(false);
   const [successMessage, setSuccessMessage] = useState('');
+  const [requestError, setRequestError] = useState<string | null>(null);
   
   // Refs
   const searchInputRef = useRef<HTMLInputElement>(null);
@@ -218,12 +219,14 @@ export const JukeboxSearchMode: React.FC<JukeboxSearchModeProps> = ({
   const handleQueueClick = useCallback((video: SupabaseLocalVideo) => {
     setSelectedVideo(video);
     setConfirmAction('queue');
+    setRequestError(null);
     setShowConfirmModal(true);
   }, []);
 
   const handlePlayNowClick = useCallback((video: SupabaseLocalVideo) => {
     setSelectedVideo(video);
     setConfirmAction('playnow');
+    setRequestError(null);
     setShowConfirmModal(true);
   }, []);
 
@@ -238,9 +241,11 @@ export const JukeboxSearchMode: React.FC<JukeboxSearchModeProps> = ({
       return;
     }
     
+    // Modal stays open until the player answers so a rejection reason can be shown
     setQueueingVideo(selectedVideo.id);
-    setShowConfirmModal(false);
+    setRequestError(null);
     
+    let accepted = false;
     try {
       // Match admin console format exactly - send plain path in src, not file:// URL
       // The Electron player will handle path conversion internally
@@ -257,28 +262,31 @@ export const JukeboxSearchMode: React.FC<JukeboxSearchModeProps> = ({
         playlistDisplayName: metadata?.playlistDisplayName
       };
       // Both queue and play-now use priority queue - play-now items will be handled by player
+      // The player debits the credits when it accepts the request - a rejected request costs nothing
       const result = await blockingCommands.queueAdd(queueItem, 'priority', 'kiosk', playerId);
       
       if (result.success) {
-        // Deduct credits
-        if (!isFreePlay) {
-          onCreditsChange?.(credits - cost);
-        }
-        
+        accepted = true;
+        setShowConfirmModal(false);
         // Show success animation
         setSuccessMessage(confirmAction === 'playnow' ? 'Playing Next!' : 'Added to Queue!');
         setShowSuccessFlash(true);
         setTimeout(() => setShowSuccessFlash(false), 2000);
         
         onSongQueued?.(queueItem);
+      } else {
+        setRequestError(result.error || 'Could not add this song. Please try again.');
       }
     } catch (error) {
       console.error('[JukeboxSearchMode] Queue error:', error);
+      setRequestError('Could not add this song. Please try again.');
     } finally {
       setQueueingVideo(null);
-      setSelectedVideo(null);
+      if (accepted) {
+        setSelectedVideo(null);
+      }
     }
-  }, [selectedVideo, confirmAction, credits, creditCostQueue, creditCostPlayNow, isFreePlay, onCreditsChange, onSongQueued, playerId]);
+  }, [selectedVideo, confirmAction, credits, creditCostQueue, creditCostPlayNow, isFreePlay, onSongQueued, playerId]);
 
   // Generate album art fallback gradient
   const getAlbumArtStyle = useCallback((video: SupabaseLocalVideo | QueueVideoItem) => {
@@ -564,13 +572,16 @@ export const JukeboxSearchMode: React.FC<JukeboxSearchModeProps> = ({
                   Cost: {confirmAction === 'queue' ? creditCostQueue : creditCostPlayNow} credit(s)
                 </p>
               )}
+              {requestError && (
+                <p className="modal-error">{requestError}</p>
+              )}
             </div>
             <div className="modal-buttons">
               <button className="modal-btn modal-btn-cancel" onClick={() => setShowConfirmModal(false)}>
                 Cancel
               </button>
-              <button className="modal-btn modal-btn-confirm" onClick={handleConfirmQueue}>
-                {confirmAction === 'queue' ? '➕ Add to Queue' : '⚡ Play Now'}
+              <button className="modal-btn modal-btn-confirm" onClick={handleConfirmQueue} disabled={!!queueingVideo}>
+                {queueingVideo ? 'Requesting...' : confirmAction === 'queue' ? '➕ Add to Queue' : '⚡ Play Now'}
               </button>
             </div>
           </div>
@@ -1,35 +1,97 @@
 /**
  * ModernChartsView.tsx - Top Charts tab with ranked list
+ * Ranks by plays recorded by the player, with movement versus the previous period
  */
 
-import React, { useMemo, useState } from 'react';
-import type { SupabaseLocalVideo } from '@shared/types';
+import React, { useEffect, useMemo, useState } from 'react';
+import type { SupabaseLocalVideo, ChartPeriod, TopChartEntry } from '@shared/types';
+import { getTopCharts } from '@shared/supabase-client';
 import { getThumbnailUrl } from '../utils/thumbnailUtils';
 import './ModernChartsView.css';
 
 interface ModernChartsViewProps {
+  playerId: string;
   videos: SupabaseLocalVideo[];
   thumbnailsPath: string;
   onQueue: (video: SupabaseLocalVideo) => void;
 }
 
+interface ChartRow {
+  video: SupabaseLocalVideo;
+  entry: TopChartEntry | null; // null in alphabetical mode
+}
+
+const PERIODS: { id: ChartPeriod; label: string }[] = [
+  { id: 'tonight', label: 'Tonight' },
+  { id: 'week', label: 'This Week' },
+  { id: 'all', label: 'All Time' }
+];
+
+// Charts change slowly - refresh once a minute while the tab is open
+const CHARTS_REFRESH_MS = 60000;
+
+const ChartMovement: React.FC<{ entry: TopChartEntry }> = ({ entry }) => {
+  if (entry.previous_rank === null) {
+    return <span className="modern-charts-movement new">NEW</span>;
+  }
+  const change = entry.previous_rank - entry.rank;
+  if (change > 0) {
+    return <span className="modern-charts-movement up">▲ {change}</span>;
+  }
+  if (change < 0) {
+    return <span className="modern-charts-movement down">▼ {-change}</span>;
+  }
+  return <span className="modern-charts-movement same">–</span>;
+};
+
 export const ModernChartsView: React.FC<ModernChartsViewProps> = ({
+  playerId,
   videos,
   thumbnailsPath,
   onQueue
 }) => {
   const [sortBy, setSortBy] = useState<'popularity' | 'title'>('popularity');
-  
-  // Sort videos (for now, just by title - in future could use play counts)
-  const sortedVideos = useMemo(() => {
-    const sorted = [...videos];
+  const [period, setPeriod] = useState<ChartPeriod>('tonight');
+  const [chartEntries, setChartEntries] = useState<TopChartEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Load chart rankings for the selected period
+  useEffect(() => {
+    if (!playerId || sortBy !== 'popularity') return;
+    let cancelled = false;
+
+    const loadCharts = async () => {
+      setIsLoading(true);
+      const entries = await getTopCharts(playerId, period, 100);
+      if (!cancelled) {
+        setChartEntries(entries);
+        setIsLoading(false);
+      }
+    };
+
+    loadCharts();
+    const interval = setInterval(loadCharts, CHARTS_REFRESH_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [playerId, period, sortBy]);
+
+  const rows = useMemo((): ChartRow[] => {
     if (sortBy === 'title') {
-      sorted.sort((a, b) => (a.title || '').localeCompare(b.title || ''));
+      return [...videos]
+        .sort((a, b) => (a.title || '').localeCompare(b.title || ''))
+        .slice(0, 100)
+        .map(video => ({ video, entry: null }));
     }
-    // In future, sort by play count for popularity
-    return sorted.slice(0, 100); // Top 100
-  }, [videos, sortBy]);
-  
+
+    // Only chart videos that are still available in the library
+    const videosById = new Map(videos.map(video => [video.id, video]));
+    return chartEntries
+      .filter(entry => videosById.has(entry.video_id))
+      .map(entry => ({ video: videosById.get(entry.video_id)!, entry }));
+  }, [videos, chartEntries, sortBy]);
+
   return (
     <div className="modern-charts-view">
       <div className="modern-charts-header">
@@ -49,9 +111,29 @@ export const ModernChartsView: React.FC<ModernChartsViewProps> = ({
           </button>
         </div>
       </div>
-      
+
+      {sortBy === 'popularity' && (
+        <div className="modern-charts-periods">
+          {PERIODS.map(({ id, label }) => (
+            <button
+              key={id}
+              className={`modern-charts-period-btn ${period === id ? 'active' : ''}`}
+              onClick={() => setPeriod(id)}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {sortBy === 'popularity' && rows.length === 0 && !isLoading && (
+        <div className="modern-charts-empty">
+          No plays recorded {period === 'tonight' ? 'tonight' : period === 'week' ? 'this week' : 'yet'} - be the first to request a song!
+        </div>
+      )}
+
       <div className="modern-charts-list">
-        {sortedVideos.map((video, index) => {
+        {rows.map(({ video, entry }, index) => {
           const thumb = getThumbnailUrl(video, thumbnailsPath);
           return (
             <div
@@ -59,7 +141,8 @@ export const ModernChartsView: React.FC<ModernChartsViewProps> = ({
               className="modern-charts-item"
               onClick={() => onQueue(video)}
             >
-              <div className="modern-charts-rank">{index + 1}</div>
+              <div className="modern-charts-rank">{entry ? entry.rank : index + 1}</div>
+              {entry && <ChartMovement entry={entry} />}
               {thumb && (
                 <img
                   src={thumb}
@@ -76,6 +159,11 @@ export const ModernChartsView: React.FC<ModernChartsViewProps> = ({
                   <div className="modern-charts-artist">{video.artist}</div>
                 )}
               </div>
+              {entry && (
+                <div className="modern-charts-plays">
+                  {entry.plays} {entry.plays === 1 ? 'play' : 'plays'}
+                </div>
+              )}
               <button
                 className="modern-charts-queue-btn"
                 onClick={(e) => {
@@ -92,7 +180,3 @@ export const ModernChartsView: React.FC<ModernChartsViewProps> = ({
     </div>
   );
 };
-
-
-
-
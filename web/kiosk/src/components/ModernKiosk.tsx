@@ -128,6 +128,7 @@ export const ModernKiosk: React.FC<ModernKioskProps> = ({
       case 'charts':
         return (
           <ModernChartsView
+            playerId={playerId}
             videos={allVideos}
             thumbnailsPath={thumbnailsPath}
             onQueue={handleQueue}
@@ -152,6 +153,7 @@ export const ModernKiosk: React.FC<ModernKioskProps> = ({
         upcomingQueue={upcomingQueue}
         thumbnailsPath={thumbnailsPath}
         isFreePlay={true}
+        playerId={playerId}
       />
       
       <ModernKioskTabs
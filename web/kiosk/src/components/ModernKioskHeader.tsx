@@ -6,6 +6,7 @@
 import React from 'react';
 import type { QueueVideoItem } from '@shared/types';
 import { getThumbnailUrl } from '../utils/thumbnailUtils';
+import { useKioskCredits } from '../hooks/useKioskCredits';
 import './ModernKioskHeader.css';
 
 interface ModernKioskHeaderProps {
@@ -13,7 +14,7 @@ interface ModernKioskHeaderProps {
   upcomingQueue: QueueVideoItem[];
   thumbnailsPath: string;
   isFreePlay: boolean;
-  credits?: number;
+  playerId: string;
 }
 
 export const ModernKioskHeader: React.FC<ModernKioskHeaderProps> = ({
@@ -21,8 +22,9 @@ export const ModernKioskHeader: React.FC<ModernKioskHeaderProps> = ({
   upcomingQueue,
   thumbnailsPath,
   isFreePlay,
-  credits
+  playerId
 }) => {
+  const credits = useKioskCredits(playerId);
   const nowPlayingThumbnail = nowPlaying 
     ? getThumbnailUrl(nowPlaying, thumbnailsPath)
     : '';
@@ -76,7 +78,7 @@ export const ModernKioskHeader: React.FC<ModernKioskHeaderProps> = ({
           {isFreePlay ? (
             <span className="modern-kiosk-status-free">FREE PLAY</span>
           ) : (
-            <span className="modern-kiosk-status-credits">{credits || 0} Credits</span>
+            <span className="modern-kiosk-status-credits">{credits} Credits</span>
           )}
         </div>
       </div>
@@ -5,13 +5,16 @@
 
 import React from 'react';
 import { Coins } from 'lucide-react';
+import { useKioskCredits } from '../hooks/useKioskCredits';
 
 interface ObieCreditsProps {
   isFreePlay: boolean;
-  credits?: number;
+  playerId: string;
 }
 
-export const ObieCredits: React.FC<ObieCreditsProps> = ({ isFreePlay, credits }) => {
+export const ObieCredits: React.FC<ObieCreditsProps> = ({ isFreePlay, playerId }) => {
+  const credits = useKioskCredits(playerId);
+
   return (
     <div className="fixed top-4 right-4 z-20 opacity-40">
       <div className="bg-black/60 border-2 border-yellow-400 rounded-lg p-3 shadow-lg">
@@ -23,7 +26,7 @@ export const ObieCredits: React.FC<ObieCreditsProps> = ({ isFreePlay, credits })
             </p>
             {!isFreePlay && (
               <p className="text-yellow-300 text-lg font-bold">
-                {credits ?? 0}
+                {credits}
               </p>
             )}
           </div>
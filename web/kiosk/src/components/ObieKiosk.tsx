@@ -6,6 +6,7 @@
 import React, { useState, useCallback } from 'react';
 import { BackgroundPlaylist, DEFAULT_BACKGROUND_ASSETS, FallbackBackground } from './BackgroundPlaylist';
 import { ObieNowPlaying } from './ObieNowPlaying';
+import { RecentlyPlayed } from './RecentlyPlayed';
 import { ObieCredits } from './ObieCredits';
 import { ObieSearchButton } from './ObieSearchButton';
 import { ObieComingUpMarquee } from './ObieComingUpMarquee';
@@ -18,8 +19,8 @@ interface ObieKioskProps {
   activeQueue: QueueVideoItem[];
   priorityQueue: QueueVideoItem[];
   playerId: string;
-  credits?: number;
   isFreePlay?: boolean;
+  creditCost?: number; // Credits per request in credits mode (set on the player)
   onSongQueued?: (video: QueueVideoItem) => void;
 }
 
@@ -28,8 +29,8 @@ export const ObieKiosk: React.FC<ObieKioskProps> = ({
   activeQueue,
   priorityQueue,
   playerId,
-  credits = 999,
   isFreePlay = true,
+  creditCost = 1,
   onSongQueued
 }) => {
   const [showSearchModal, setShowSearchModal] = useState(false);
@@ -51,8 +52,11 @@ export const ObieKiosk: React.FC<ObieKioskProps> = ({
       {/* Fixed Now Playing - Top Left */}
       <ObieNowPlaying nowPlaying={nowPlaying} />
 
+      {/* Recently Played - Left, below Now Playing */}
+      <RecentlyPlayed playerId={playerId} />
+
       {/* Fixed Credits - Top Right */}
-      <ObieCredits isFreePlay={isFreePlay} credits={credits} />
+      <ObieCredits isFreePlay={isFreePlay} playerId={playerId} />
 
       {/* Centered Search Button */}
       {!showSearchModal && (
@@ -138,7 +142,8 @@ export const ObieKiosk: React.FC<ObieKioskProps> = ({
           <div className="flex-1 overflow-hidden flex flex-col">
             <SearchInterface
               onSongRequested={handleSongRequested}
-              credits={credits}
+              isFreePlay={isFreePlay}
+              creditCost={creditCost}
               playerId={playerId}
               showHeader={false}
               searchQuery={searchQuery}
@@ -0,0 +1,50 @@
+// RecentlyPlayed.tsx - Recently played songs panel for Kiosk left side
+// Styled with obie-v5 aesthetic to match NowPlaying
+
+import { History } from 'lucide-react';
+import { getDisplayArtist } from '@shared/supabase-client';
+import { cleanVideoTitle } from '@shared/video-utils';
+import { useRecentPlays } from '../hooks/useRecentPlays';
+
+interface RecentlyPlayedProps {
+  playerId: string;
+  maxItems?: number;
+}
+
+export function RecentlyPlayed({ playerId, maxItems = 5 }: RecentlyPlayedProps) {
+  // Failed loads never reached the screen, so don't list them
+  const plays = useRecentPlays(playerId, maxItems + 5)
+    .filter(play => play.transition_reason !== 'error')
+    .slice(0, maxItems);
+
+  if (plays.length === 0) return null;
+
+  return (
+    <div className="fixed top-28 left-4 z-20 hidden xl:block">
+      <div className="kiosk-card max-w-xs">
+        <div className="flex items-center gap-2 mb-2">
+          <History size={16} className="text-yellow-400" />
+          <p className="text-amber-400 text-xs font-bold uppercase tracking-wide">
+            Recently Played
+          </p>
+        </div>
+        <ul className="space-y-2">
+          {plays.map((play) => {
+            const artist = getDisplayArtist(play.artist);
+            return (
+              <li key={play.id} className="min-w-0">
+                <p className="text-white text-sm font-semibold truncate">
+                  {cleanVideoTitle(play.title || '')}
+                </p>
+                <p className="text-gray-400 text-xs truncate">
+                  {artist && `${artist} · `}
+                  {new Date(play.played_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                </p>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+}
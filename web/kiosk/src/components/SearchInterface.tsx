@@ -11,12 +11,15 @@ import {
   blockingCommands
 } from '@shared/supabase-client';
 import { videoCache } from '../services/videoCache';
+import { useKioskCredits } from '../hooks/useKioskCredits';
+import { useSmartPlaylists } from '../hooks/useSmartPlaylists';
 import { cleanVideoTitle } from '@shared/video-utils';
 import type { SupabaseLocalVideo, QueueVideoItem } from '@shared/types';
 
 interface SearchInterfaceProps {
   onSongRequested?: (video: QueueVideoItem) => void;
-  credits?: number; // For future implementation
+  isFreePlay?: boolean; // When false, each request is debited from the kiosk credit ledger
+  creditCost?: number; // Credits per request (default: 1)
   playerId: string; // Required - Player ID to search/queue against
   showHeader?: boolean; // Whether to show search header and filters (default: true)
   searchQuery?: string; // External search query control
@@ -28,7 +31,8 @@ interface SearchInterfaceProps {
 
 export function SearchInterface({ 
   onSongRequested, 
-  credits = 999, 
+  isFreePlay = true,
+  creditCost = 1,
   playerId,
   showHeader = true,
   searchQuery: externalSearchQuery,
@@ -51,7 +55,16 @@ export function SearchInterface({
   const [selectedVideo, setSelectedVideo] = useState<SupabaseLocalVideo | null>(null);
   const [showConfirm, setShowConfirm] = useState(false);
   const [isRequesting, setIsRequesting] = useState(false);
+  const [requestError, setRequestError] = useState<string | null>(null);
   const [currentPage, setCurrentPage] = useState(0);
+  const credits = useKioskCredits(playerId);
+  const smartPlaylists = useSmartPlaylists(playerId);
+  const [smartPlaylistId, setSmartPlaylistId] = useState<string | null>(null);
+
+  // Browsing a smart playlist shows its videos in its own order instead of the whole library
+  const isBrowsing = searchQuery.trim().length < 2;
+  const selectedSmartPlaylist = isBrowsing ? smartPlaylists.find(playlist => playlist.id === smartPlaylistId) : undefined;
+  const sourceResults = selectedSmartPlaylist ? selectedSmartPlaylist.videos : results;
 
   // Helper to check if video is karaoke
   const isKaraokeVideo = (video: SupabaseLocalVideo): boolean => {
@@ -61,7 +74,7 @@ export function SearchInterface({
   };
 
   // Filter results based on karaoke filter
-  const filteredResults = results.filter(video => {
+  const filteredResults = sourceResults.filter(video => {
     if (karaokeFilter === 'all') return true;
     const hasKaraoke = isKaraokeVideo(video);
     if (karaokeFilter === 'show') {
@@ -78,10 +91,10 @@ export function SearchInterface({
   const endIndex = startIndex + ITEMS_PER_PAGE;
   const paginatedResults = filteredResults.slice(startIndex, endIndex);
 
-  // Reset to page 0 when search query or filter changes
+  // Reset to page 0 when search query, filter or smart playlist changes
   useEffect(() => {
     setCurrentPage(0);
-  }, [searchQuery, karaokeFilter]);
+  }, [searchQuery, karaokeFilter, smartPlaylistId]);
 
   const handlePreviousPage = useCallback(() => {
     setCurrentPage(prev => Math.max(0, prev - 1));
@@ -276,6 +289,7 @@ export function SearchInterface({
 
   const handleVideoSelect = useCallback((video: SupabaseLocalVideo) => {
     setSelectedVideo(video);
+    setRequestError(null);
     setShowConfirm(true);
   }, []);
 
@@ -283,6 +297,7 @@ export function SearchInterface({
     if (!selectedVideo) return;
 
     setIsRequesting(true);
+    setRequestError(null);
     try {
       // Match admin console format exactly - send plain path in src, not file:// URL
       // The Electron player will handle path conversion internally
@@ -300,6 +315,7 @@ export function SearchInterface({
       };
       
       // Send command to add to priority queue (using blocking command for feedback)
+      // Paid requests are debited by the player when it accepts them
       const result = await blockingCommands.queueAdd(queueItem, 'priority', 'kiosk', playerId);
       
       if (result.success) {
@@ -314,10 +330,13 @@ export function SearchInterface({
         }
         setResults([]);
       } else {
+        // Keep the modal open with the player's reason (e.g. request limits)
         console.error('Failed to add song to queue:', result.error);
+        setRequestError(result.error || 'Could not add this song. Please try again.');
       }
     } catch (error) {
       console.error('Request error:', error);
+      setRequestError('Could not add this song. Please try again.');
     } finally {
       setIsRequesting(false);
     }
@@ -326,9 +345,10 @@ export function SearchInterface({
   const handleCancelRequest = useCallback(() => {
     setShowConfirm(false);
     setSelectedVideo(null);
+    setRequestError(null);
   }, []);
 
-  const hasCredits = credits > 0;
+  const hasCredits = isFreePlay || credits >= creditCost;
 
   // Render search input and filters if showHeader is true
   const renderSearchHeader = () => {
@@ -402,9 +422,37 @@ export function SearchInterface({
     );
   };
 
+  const renderSmartPlaylists = () => {
+    if (!isBrowsing || smartPlaylists.length === 0) return null;
+
+    const chipClass = (active: boolean) => `px-4 py-2 rounded-lg text-sm font-medium whitespace-nowrap transition-colors ${
+      active ? 'bg-yellow-400 text-slate-900' : 'bg-slate-800 text-gray-300 hover:bg-slate-700'
+    }`;
+
+    return (
+      <div className="px-6 py-2">
+        <div className="flex gap-2 overflow-x-auto">
+          <button onClick={() => setSmartPlaylistId(null)} className={chipClass(!selectedSmartPlaylist)}>
+            Whole Library
+          </button>
+          {smartPlaylists.map(playlist => (
+            <button
+              key={playlist.id}
+              onClick={() => setSmartPlaylistId(playlist.id)}
+              className={chipClass(selectedSmartPlaylist?.id === playlist.id)}
+            >
+              {playlist.name} ({playlist.videos.length})
+            </button>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
   return (
     <div className="flex flex-col h-full">
       {renderSearchHeader()}
+      {renderSmartPlaylists()}
 
       {/* Results Area - Paginated Grid */}
       <div className="flex-1 flex flex-col px-6 pb-4 overflow-hidden">
@@ -416,8 +464,8 @@ export function SearchInterface({
         ) : filteredResults.length > 0 ? (
           <>
             <div className="mb-4 text-gray-400 text-sm text-center">
-              {searchQuery.trim().length < 2 ? (
-                <span>Showing {filteredResults.length} songs from library (Page {currentPage + 1} of {totalPages})</span>
+              {isBrowsing ? (
+                <span>Showing {filteredResults.length} songs from {selectedSmartPlaylist ? selectedSmartPlaylist.name : 'library'} (Page {currentPage + 1} of {totalPages})</span>
               ) : (
                 <span>Found {filteredResults.length} result{filteredResults.length !== 1 ? 's' : ''} for "{searchQuery}" (Page {currentPage + 1} of {totalPages})</span>
               )}
@@ -563,6 +611,11 @@ export function SearchInterface({
                 No credits available. Please add credits to request songs.
               </p>
             )}
+            {requestError && (
+              <p className="text-red-400 text-sm text-center mt-4">
+                {requestError}
+              </p>
+            )}
           </div>
         </div>
       )}
@@ -13,5 +13,6 @@ export { ObieComingUpMarquee } from './ObieComingUpMarquee';
 export { Dialog } from './Dialog';
 export { VideoResultCard, VideoGrid } from './VideoResultCard';
 export { NowPlaying } from './NowPlaying';
+export { RecentlyPlayed } from './RecentlyPlayed';
 export { ComingUpTicker } from './ComingUpTicker';
 export { CreditsDisplay, CreditsNeededMessage } from './CreditsDisplay';
@@ -0,0 +1,31 @@
+/**
+ * useKioskCredits - Live credit balance for this kiosk
+ * Loads the balance from the server-side ledger and follows realtime changes
+ */
+
+import { useEffect, useState } from 'react';
+import { getKioskCredits, subscribeToKioskCredits } from '@shared/supabase-client';
+import { getKioskId } from '@shared/player-utils';
+
+export function useKioskCredits(playerId: string, kioskId: string = getKioskId()): number {
+  const [balance, setBalance] = useState(0);
+
+  useEffect(() => {
+    if (!playerId) return;
+    let cancelled = false;
+
+    getKioskCredits(playerId, kioskId).then((value) => {
+      if (!cancelled) setBalance(value);
+    });
+
+    // Shared with the other headers showing this kiosk's balance
+    const unsubscribe = subscribeToKioskCredits(playerId, kioskId, setBalance);
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [playerId, kioskId]);
+
+  return balance;
+}
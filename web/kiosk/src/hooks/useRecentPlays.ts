@@ -0,0 +1,33 @@
+/**
+ * useRecentPlays - Songs that recently played on this player
+ * Loads the latest plays and prepends new ones as the player records them
+ */
+
+import { useEffect, useState } from 'react';
+import type { PlayHistoryEntry } from '@shared/types';
+import { getRecentPlays, subscribeToRecentPlays } from '@shared/supabase-client';
+
+export function useRecentPlays(playerId: string, limit: number = 5): PlayHistoryEntry[] {
+  const [plays, setPlays] = useState<PlayHistoryEntry[]>([]);
+
+  useEffect(() => {
+    if (!playerId) return;
+    let cancelled = false;
+
+    getRecentPlays(playerId, limit).then((entries) => {
+      if (!cancelled) setPlays(entries);
+    });
+
+    const channel = subscribeToRecentPlays(playerId, (entry) => {
+      setPlays(prev => [entry, ...prev].slice(0, limit));
+    });
+
+    // unsubscribe() returns a Promise but cleanup must be sync - ignore return value
+    return () => {
+      cancelled = true;
+      channel.unsubscribe();
+    };
+  }, [playerId, limit]);
+
+  return plays;
+}
@@ -0,0 +1,61 @@
+/**
+ * useSmartPlaylists - The player's rule-based playlists, evaluated against its library
+ * Re-evaluates when the rules change or the player re-indexes local_videos
+ */
+
+import { useEffect, useState } from 'react';
+import type { SupabaseLocalVideo } from '@shared/types';
+import { getSmartPlaylists, subscribeToSmartPlaylists, subscribeToLocalVideos } from '@shared/supabase-client';
+import { evaluateSmartPlaylist } from '@shared/smart-playlists';
+import { videoCache } from '../services/videoCache';
+
+export interface KioskSmartPlaylist {
+  id: string;
+  name: string;
+  videos: SupabaseLocalVideo[];
+}
+
+// A re-index touches every row - wait for it to settle before reloading
+const LIBRARY_CHANGE_DEBOUNCE_MS = 2000;
+
+export function useSmartPlaylists(playerId: string): KioskSmartPlaylist[] {
+  const [smartPlaylists, setSmartPlaylists] = useState<KioskSmartPlaylist[]>([]);
+
+  useEffect(() => {
+    if (!playerId) return;
+    let cancelled = false;
+    let reloadTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const load = async (forceRefresh: boolean) => {
+      const [definitions, videos] = await Promise.all([
+        getSmartPlaylists(playerId),
+        videoCache.getOrLoadVideos(playerId, forceRefresh)
+      ]);
+      if (cancelled) return;
+      const now = Date.now();
+      setSmartPlaylists(definitions.map(playlist => ({
+        id: playlist.id,
+        name: playlist.name,
+        videos: evaluateSmartPlaylist(playlist, videos, now)
+      })));
+    };
+
+    load(false);
+
+    const rulesChannel = subscribeToSmartPlaylists(playerId, () => load(false));
+    const libraryChannel = subscribeToLocalVideos(playerId, () => {
+      if (reloadTimer) clearTimeout(reloadTimer);
+      reloadTimer = setTimeout(() => load(true), LIBRARY_CHANGE_DEBOUNCE_MS);
+    });
+
+    // unsubscribe() returns a Promise but cleanup must be sync - ignore return value
+    return () => {
+      cancelled = true;
+      if (reloadTimer) clearTimeout(reloadTimer);
+      rulesChannel.unsubscribe();
+      libraryChannel.unsubscribe();
+    };
+  }, [playerId]);
+
+  return smartPlaylists;
+}
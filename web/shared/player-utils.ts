@@ -5,7 +5,7 @@
  * Only Electron Player can claim/create new Player IDs.
  */
 
-import { supabase } from './supabase-client';
+import { supabase, DEFAULT_KIOSK_ID, getPairedDeviceId } from './supabase-client';
 
 // Storage key for localStorage
 const STORAGE_KEY = 'djamms_player_id';
@@ -46,6 +46,14 @@ export function clearPlayerId(): void {
   localStorage.removeItem(STORAGE_KEY);
 }
 
+/**
+ * Get this kiosk's ID for the credit ledger - its paired device ID, the balance the
+ * player charges its requests to; defaults to the player's single kiosk
+ */
+export function getKioskId(): string {
+  return getPairedDeviceId() || DEFAULT_KIOSK_ID;
+}
+
 /**
  * Validate Player ID format (local check only)
  */